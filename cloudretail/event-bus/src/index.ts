@@ -11,6 +11,7 @@ import {
   asyncHandler,
   HealthCheck,
 } from '@cloudretail/middleware';
+import { Event } from '@cloudretail/models';
 import { v4 as uuidv4 } from 'uuid';
 
 dotenv.config();
@@ -41,7 +42,7 @@ app.get('/health', async (req, res) => {
  * POST /events
  */
 app.post('/events', asyncHandler(async (req, res) => {
-  const { type, payload, metadata } = req.body;
+  const { id, type, payload, metadata } = req.body;
 
   if (!type || !payload) {
     res.status(400).json({
@@ -54,8 +55,9 @@ app.post('/events', asyncHandler(async (req, res) => {
     return;
   }
 
+  // Keep the publisher's id so redelivered outbox events can be deduplicated
   const event = {
-    id: uuidv4(),
+    id: id || uuidv4(),
     type,
     payload,
     timestamp: new Date(),
@@ -83,17 +85,38 @@ app.post('/events', asyncHandler(async (req, res) => {
 }));
 
 /**
- * Subscribe to Events (WebSocket or SSE in production)
- * GET /events/subscribe/:service
+ * Subscribe to Events over Server-Sent Events
+ * GET /events/subscribe/:service?types=payment.completed,payment.failed
  */
 app.get('/events/subscribe/:service', asyncHandler(async (req, res) => {
   const { service } = req.params;
+  const types = typeof req.query.types === 'string'
+    ? req.query.types.split(',').map((type) => type.trim()).filter(Boolean)
+    : [];
+
+  if (types.length === 0) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'At least one event type is required',
+      },
+    });
+    return;
+  }
 
   res.setHeader('Content-Type', 'text/event-stream');
   res.setHeader('Cache-Control', 'no-cache');
   res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+
+  const forwardEvent = (event: Event) => {
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  types.forEach((type) => eventBus.subscribe(type, forwardEvent));
 
-  logger.info('Service subscribed to events', { service });
+  logger.info('Service subscribed to events', { service, types });
 
   // Keep connection alive
   const keepAliveInterval = setInterval(() => {
@@ -102,6 +125,7 @@ app.get('/events/subscribe/:service', asyncHandler(async (req, res) => {
 
   req.on('close', () => {
     clearInterval(keepAliveInterval);
+    types.forEach((type) => eventBus.unsubscribe(type, forwardEvent));
     logger.info('Service unsubscribed from events', { service });
   });
 }));
@@ -13,6 +13,8 @@ let state = {
   user: JSON.parse(localStorage.getItem('cr_user') || 'null'),
   cart: JSON.parse(localStorage.getItem('cr_cart') || '[]'),
   products: [],
+  // Category taxonomy flattened in tree order, each node with its depth
+  categories: [],
   orders: [],
   currentPage: 'home',
 };
@@ -223,6 +225,46 @@ async function loadProducts() {
   state.products = products;
   loading.classList.remove('active');
   renderProducts(products);
+  loadCategories();
+}
+
+async function loadCategories() {
+  const res = await apiFetch('/api/products/categories');
+  const tree = res.ok && res.data && Array.isArray(res.data.data) ? res.data.data : [];
+
+  const flatten = (nodes, depth) => nodes.flatMap(node =>
+    [{ ...node, depth }].concat(flatten(node.children || [], depth + 1))
+  );
+  state.categories = flatten(tree, 0);
+
+  [['category-filter', 'ALL CATEGORIES'], ['admin-product-category', 'Select Category']].forEach(([id, placeholder]) => {
+    const select = document.getElementById(id);
+    if (!select) return;
+
+    const selected = select.value;
+    select.innerHTML = '<option value="">' + placeholder + '</option>';
+    state.categories.forEach(c => {
+      const opt = document.createElement('option');
+      opt.value = c.id;
+      opt.textContent = '\u00A0\u00A0'.repeat(c.depth) + c.name;
+      select.appendChild(opt);
+    });
+    select.value = selected;
+  });
+}
+
+// IDs of a category and every category beneath it
+function categoryIdsWithin(categoryId) {
+  const ids = [categoryId];
+  for (let i = 0; i < ids.length; i++) {
+    state.categories.filter(c => c.parentId === ids[i]).forEach(c => ids.push(c.id));
+  }
+  return ids;
+}
+
+// Media kept by the product service itself comes with a path on the gateway
+function mediaUrl(url) {
+  return url.startsWith('/') ? API_BASE + url : url;
 }
 
 function renderProducts(products) {
@@ -235,17 +277,20 @@ function renderProducts(products) {
   }
 
   products.forEach(p => {
-    const icon = CATEGORY_ICONS[p.category] || CATEGORY_ICONS.default;
+    const icon = CATEGORY_ICONS[(p.category || '').toLowerCase()] || CATEGORY_ICONS.default;
+    const image = p.media && p.media.length > 0
+      ? `<img src="${escapeHtml(mediaUrl(p.media[0].thumbnailUrl))}" alt="${escapeHtml(p.media[0].altText || p.name)}" loading="lazy">`
+      : icon;
     const card = document.createElement('div');
     card.className = 'product-card';
     card.innerHTML = `
-      <div class="product-image">${icon}</div>
+      <div class="product-image">${image}</div>
       <div class="product-info">
         <div class="product-category">${escapeHtml(p.category || 'general')}</div>
         <div class="product-name">${escapeHtml(p.name)}</div>
         <div class="product-desc">${escapeHtml(p.description || '')}</div>
         <div class="product-footer">
-          <span class="product-price">$${Number(p.price).toFixed(2)}</span>
+          <span class="product-price">${p.compareAtPrice != null ? `<s class="product-compare-price">$${Number(p.compareAtPrice).toFixed(2)}</s> ` : ''}$${Number(p.effectivePrice ?? p.price).toFixed(2)}</span>
           <span class="product-sku">${escapeHtml(p.sku || '')}</span>
         </div>
       </div>
@@ -260,9 +305,10 @@ function renderProducts(products) {
 function searchProducts() {
   const query = document.getElementById('search-input').value.toLowerCase();
   const category = document.getElementById('category-filter').value;
+  const categoryIds = category ? categoryIdsWithin(category) : [];
   let filtered = state.products.filter(p => {
     const matchSearch = !query || p.name.toLowerCase().includes(query) || (p.description || '').toLowerCase().includes(query);
-    const matchCategory = !category || p.category === category;
+    const matchCategory = !category || categoryIds.includes(p.categoryId);
     return matchSearch && matchCategory;
   });
   renderProducts(filtered);
@@ -284,7 +330,7 @@ function addToCart(productId) {
     state.cart.push({
       productId: product.id,
       name: product.name,
-      price: product.price,
+      price: Number(product.effectivePrice ?? product.price),
       category: product.category,
       quantity: 1,
     });
@@ -344,7 +390,7 @@ function renderCart() {
   let subtotal = 0;
 
   state.cart.forEach(item => {
-    const icon = CATEGORY_ICONS[item.category] || CATEGORY_ICONS.default;
+    const icon = CATEGORY_ICONS[(item.category || '').toLowerCase()] || CATEGORY_ICONS.default;
     const itemTotal = item.price * item.quantity;
     subtotal += itemTotal;
 
@@ -430,7 +476,8 @@ async function loadOrders() {
 
   let orders = [];
   if (res.ok && res.data && res.data.data) {
-    orders = Array.isArray(res.data.data) ? res.data.data : [];
+    const d = res.data.data;
+    orders = Array.isArray(d) ? d : d.orders || [];
     addEventLogEntry('ORDERS_LOADED', orders.length + ' orders from Order Service');
   }
 
@@ -566,7 +613,7 @@ async function handleAddProduct(e) {
   const name = document.getElementById('admin-product-name').value;
   const description = document.getElementById('admin-product-desc').value;
   const price = parseFloat(document.getElementById('admin-product-price').value);
-  const category = document.getElementById('admin-product-category').value;
+  const categoryId = document.getElementById('admin-product-category').value;
   const sku = document.getElementById('admin-product-sku').value;
 
   const res = await apiFetch('/api/products', {
@@ -575,7 +622,7 @@ async function handleAddProduct(e) {
       name,
       description,
       price,
-      category,
+      categoryId,
       sku,
       vendorId: state.user.id,
     }),
@@ -610,14 +657,14 @@ async function handleAddInventory(e) {
 
   const productId = document.getElementById('admin-inv-product').value;
   const quantity = parseInt(document.getElementById('admin-inv-quantity').value);
-  const warehouseLocation = document.getElementById('admin-inv-warehouse').value;
+  const warehouseCode = document.getElementById('admin-inv-warehouse').value;
 
   const res = await apiFetch('/api/inventory', {
     method: 'POST',
     body: JSON.stringify({
       productId,
       quantity,
-      warehouseLocation,
+      warehouseCode,
     }),
   });
 
@@ -12,4 +12,8 @@ for db in cloudretail_users cloudretail_products cloudretail_orders cloudretail_
 EOSQL
 done
 
+# Product search matches misspelt names by trigram similarity
+psql -v ON_ERROR_STOP=1 --username "$POSTGRES_USER" --dbname cloudretail_products \
+  -c 'CREATE EXTENSION IF NOT EXISTS pg_trgm'
+
 echo "All databases created successfully."
@@ -6,3 +6,8 @@ SELECT 'CREATE DATABASE cloudretail_products' WHERE NOT EXISTS (SELECT FROM pg_d
 SELECT 'CREATE DATABASE cloudretail_orders' WHERE NOT EXISTS (SELECT FROM pg_database WHERE datname = 'cloudretail_orders')\gexec
 SELECT 'CREATE DATABASE cloudretail_inventory' WHERE NOT EXISTS (SELECT FROM pg_database WHERE datname = 'cloudretail_inventory')\gexec
 SELECT 'CREATE DATABASE cloudretail_payments' WHERE NOT EXISTS (SELECT FROM pg_database WHERE datname = 'cloudretail_payments')\gexec
+
+-- Product search matches misspelt names by trigram similarity; product-service
+-- checks for the extension on startup but cannot create it itself
+\c cloudretail_products
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
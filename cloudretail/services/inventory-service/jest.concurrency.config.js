@@ -0,0 +1,16 @@
+const base = require('./jest.config');
+
+/**
+ * Reservation concurrency harness. Runs against a real PostgreSQL database,
+ * so it is kept out of the default unit test run.
+ */
+module.exports = {
+  ...base,
+  roots: ['<rootDir>/tests/concurrency'],
+  testMatch: ['**/*.concurrency.test.ts'],
+  testPathIgnorePatterns: ['/node_modules/'],
+  setupFiles: ['<rootDir>/tests/concurrency/setup.ts'],
+  setupFilesAfterEnv: [],
+  coverageThreshold: undefined,
+  testTimeout: 120000,
+};
@@ -3,6 +3,8 @@ module.exports = {
   testEnvironment: 'node',
   roots: ['<rootDir>/tests', '<rootDir>/src'],
   testMatch: ['**/tests/**/*.test.ts', '**/?(*.)+(spec|test).ts'],
+  // The concurrency harness needs a database; see jest.concurrency.config.js
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/tests/concurrency/'],
   transform: {
     '^.+\\.ts$': ['ts-jest', { tsconfig: 'tsconfig.test.json' }],
   },
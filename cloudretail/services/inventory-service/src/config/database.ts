@@ -1,6 +1,14 @@
 import { Sequelize } from 'sequelize';
 import { initInventoryModel } from '../models/Inventory.model';
+import { initWarehouseModel } from '../models/Warehouse.model';
+import { initReservationModel } from '../models/Reservation.model';
+import { initStockMovementModel } from '../models/StockMovement.model';
+import { initBackorderPolicyModel } from '../models/BackorderPolicy.model';
+import { initBackorderModel } from '../models/Backorder.model';
+import { initCycleCountModel } from '../models/CycleCount.model';
+import { initCycleCountLineModel } from '../models/CycleCountLine.model';
 import { logger } from '@cloudretail/middleware';
+import { EventSubscriber, Outbox } from '@cloudretail/outbox';
 
 const sequelize = new Sequelize({
   dialect: 'postgres',
@@ -22,7 +30,20 @@ const sequelize = new Sequelize({
 });
 
 // Initialize models
+export const Warehouse = initWarehouseModel(sequelize);
 export const Inventory = initInventoryModel(sequelize);
+export const Reservation = initReservationModel(sequelize);
+export const StockMovement = initStockMovementModel(sequelize);
+export const BackorderPolicy = initBackorderPolicyModel(sequelize);
+export const Backorder = initBackorderModel(sequelize);
+export const CycleCount = initCycleCountModel(sequelize);
+export const CycleCountLine = initCycleCountLineModel(sequelize);
+
+// Events recorded with domain changes, relayed to the event bus
+export const outbox = new Outbox(sequelize, { service: 'inventory-service' });
+
+// Events consumed from the event bus, each handled once across instances
+export const eventSubscriber = new EventSubscriber(sequelize, { service: 'inventory-service' });
 
 export async function connectDatabase(): Promise<void> {
   try {
@@ -0,0 +1,163 @@
+import { Request, Response } from 'express';
+import { BackorderService } from '../services/backorder.service';
+import { asyncHandler } from '@cloudretail/middleware';
+import Joi from 'joi';
+import { v4 as uuidv4 } from 'uuid';
+import { BACKORDER_MODES } from '../models/BackorderPolicy.model';
+
+const backorderService = new BackorderService();
+
+// Validation schemas
+const backorderPolicySchema = Joi.object({
+  mode: Joi.string().valid(...BACKORDER_MODES).required(),
+  expectedRestockDate: Joi.date().iso().allow(null).optional(),
+});
+
+const queueBackorderSchema = Joi.object({
+  orderId: Joi.string().uuid().required(),
+  items: Joi.array().items(
+    Joi.object({
+      productId: Joi.string().uuid().required(),
+      variantId: Joi.string().uuid().optional(),
+      quantity: Joi.number().integer().min(1).required(),
+    })
+  ).min(1).required(),
+  shippingAddress: Joi.object({
+    street: Joi.string().optional(),
+    city: Joi.string().optional(),
+    state: Joi.string().optional(),
+    zipCode: Joi.string().optional(),
+    country: Joi.string().optional(),
+  }).optional(),
+});
+
+const backorderQuerySchema = Joi.object({
+  productId: Joi.string().uuid().optional(),
+  status: Joi.string().valid('waiting', 'allocated', 'cancelled').optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+  offset: Joi.number().integer().min(0).optional(),
+});
+
+/**
+ * Get the backorder policy of a product
+ */
+export const getBackorderPolicy = asyncHandler(async (req: Request, res: Response) => {
+  const { productId } = req.params;
+  const policy = await backorderService.getPolicy(productId);
+
+  res.json({
+    success: true,
+    data: policy,
+    metadata: {
+      timestamp: new Date(),
+      requestId: uuidv4(),
+    },
+  });
+});
+
+/**
+ * Let a product be backordered or pre-ordered
+ */
+export const setBackorderPolicy = asyncHandler(async (req: Request, res: Response) => {
+  const { productId } = req.params;
+  const { error, value } = backorderPolicySchema.validate(req.body);
+
+  if (error) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: error.details[0].message,
+      },
+    });
+    return;
+  }
+
+  const policy = await backorderService.setPolicy(productId, value);
+
+  res.json({
+    success: true,
+    data: policy,
+    metadata: {
+      timestamp: new Date(),
+      requestId: uuidv4(),
+    },
+  });
+});
+
+/**
+ * Stop taking backorders for a product
+ */
+export const removeBackorderPolicy = asyncHandler(async (req: Request, res: Response) => {
+  const { productId } = req.params;
+  const result = await backorderService.removePolicy(productId);
+
+  res.json({
+    success: true,
+    data: result,
+    metadata: {
+      timestamp: new Date(),
+      requestId: uuidv4(),
+    },
+  });
+});
+
+/**
+ * Queue an order until there is stock to fill it
+ */
+export const queueBackorder = asyncHandler(async (req: Request, res: Response) => {
+  const { error, value } = queueBackorderSchema.validate(req.body);
+
+  if (error) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: error.details[0].message,
+      },
+    });
+    return;
+  }
+
+  const result = await backorderService.queueOrder(value.orderId, value.items, {
+    shippingAddress: value.shippingAddress,
+  });
+
+  res.status(201).json({
+    success: true,
+    data: result,
+    metadata: {
+      timestamp: new Date(),
+      requestId: uuidv4(),
+    },
+  });
+});
+
+/**
+ * Get queued backorders in allocation order
+ */
+export const getBackorders = asyncHandler(async (req: Request, res: Response) => {
+  const { error, value } = backorderQuerySchema.validate(req.query);
+
+  if (error) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: error.details[0].message,
+      },
+    });
+    return;
+  }
+
+  const result = await backorderService.getBackorders(value);
+
+  res.json({
+    success: true,
+    data: result,
+    metadata: {
+      timestamp: new Date(),
+      requestId: uuidv4(),
+    },
+  });
+});
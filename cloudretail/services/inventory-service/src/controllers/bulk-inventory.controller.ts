@@ -0,0 +1,88 @@
+import { Request, Response } from 'express';
+import { once } from 'events';
+import { BulkInventoryService } from '../services/bulk-inventory.service';
+import { formatFromContentType } from '../services/stock-file';
+import { asyncHandler, AuthenticatedRequest, logger } from '@cloudretail/middleware';
+import Joi from 'joi';
+import { v4 as uuidv4 } from 'uuid';
+
+const bulkInventoryService = new BulkInventoryService();
+
+// Validation schemas
+const exportQuerySchema = Joi.object({
+  warehouseId: Joi.string().uuid().optional(),
+});
+
+/**
+ * Set stock levels from a CSV or JSON lines file
+ */
+export const importStock = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const format = formatFromContentType(req.headers['content-type']);
+
+    if (!format || typeof req.body !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Send the file as text/csv or application/x-ndjson',
+        },
+      });
+      return;
+    }
+
+    const report = await bulkInventoryService.importStock(req.body, format, {
+      actor: req.user!.userId,
+      reason: typeof req.query.reason === 'string' ? req.query.reason : 'Bulk import',
+    }, req.user);
+
+    res.json({
+      success: true,
+      data: report,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Stream current stock levels as CSV
+ */
+export const exportStock = asyncHandler(async (req: Request, res: Response) => {
+  const { error, value } = exportQuerySchema.validate(req.query);
+
+  if (error) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: error.details[0].message,
+      },
+    });
+    return;
+  }
+
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader(
+    'Content-Disposition',
+    `attachment; filename="inventory-${new Date().toISOString().slice(0, 10)}.csv"`
+  );
+
+  try {
+    for await (const chunk of bulkInventoryService.exportStockCsv(value)) {
+      if (!res.write(chunk)) {
+        await once(res, 'drain');
+      }
+    }
+
+    res.end();
+  } catch (error) {
+    // Once streaming has started the error response can no longer be sent
+    if (!res.headersSent) throw error;
+
+    logger.error('Error exporting inventory', { error });
+    res.destroy(error as Error);
+  }
+});
@@ -0,0 +1,211 @@
+import { Request, Response } from 'express';
+import { CycleCountService } from '../services/cycle-count.service';
+import { ProductOwnerService } from '../services/product-owner.service';
+import { asyncHandler, AuthenticatedRequest, checkOwnership } from '@cloudretail/middleware';
+import Joi from 'joi';
+import { v4 as uuidv4 } from 'uuid';
+
+const cycleCountService = new CycleCountService();
+const productOwnerService = new ProductOwnerService();
+
+// Validation schemas
+const openCountSchema = Joi.object({
+  warehouseId: Joi.string().uuid().optional(),
+  productIds: Joi.array().items(Joi.string().uuid()).min(1).unique().optional(),
+  notes: Joi.string().max(255).optional(),
+}).or('warehouseId', 'productIds');
+
+const submitCountsSchema = Joi.object({
+  counts: Joi.array().items(
+    Joi.object({
+      productId: Joi.string().uuid().required(),
+      variantId: Joi.string().uuid().optional(),
+      warehouseId: Joi.string().uuid().optional(),
+      countedQuantity: Joi.number().integer().min(0).required(),
+    })
+  ).min(1).required(),
+});
+
+const countQuerySchema = Joi.object({
+  warehouseId: Joi.string().uuid().optional(),
+  status: Joi.string().valid('open', 'approved', 'cancelled').optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+  offset: Joi.number().integer().min(0).optional(),
+});
+
+const productIdsSchema = Joi.array().items(Joi.string().uuid()).min(1).required();
+
+/**
+ * Resolve the vendor that owns every product a new count would cover.
+ * A count without products covers the whole warehouse, and so every
+ * vendor's stock. Malformed product IDs are left for validation to reject.
+ */
+export const resolveCountScopeOwner = async (req: AuthenticatedRequest): Promise<string | null> => {
+  const productIds = req.body?.productIds;
+
+  if (productIds === undefined) {
+    return null;
+  }
+
+  if (productIdsSchema.validate(productIds).error) {
+    return req.user!.userId;
+  }
+
+  return productOwnerService.getCommonOwner(productIds);
+};
+
+/**
+ * Resolve the vendor that owns every product in the count in the request path
+ */
+export const resolveCycleCountOwner = (req: AuthenticatedRequest): Promise<string | null> =>
+  cycleCountService.getCountOwner(req.params.id);
+
+/**
+ * Open a cycle count
+ */
+export const openCycleCount = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { error, value } = openCountSchema.validate(req.body);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        },
+      });
+      return;
+    }
+
+    const cycleCount = await cycleCountService.openCount(value, req.user!.userId);
+
+    res.status(201).json({
+      success: true,
+      data: cycleCount,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Get cycle counts. Vendors only see the counts they opened.
+ */
+export const getCycleCounts = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { error, value } = countQuerySchema.validate(req.query);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        },
+      });
+      return;
+    }
+
+    const openedBy = checkOwnership(req.user!, null) === 'bypass' ? undefined : req.user!.userId;
+    const result = await cycleCountService.getCounts({ ...value, openedBy });
+
+    res.json({
+      success: true,
+      data: result,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Get a cycle count with its variances
+ */
+export const getCycleCount = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const cycleCount = await cycleCountService.getCount(id);
+
+  res.json({
+    success: true,
+    data: cycleCount,
+    metadata: {
+      timestamp: new Date(),
+      requestId: uuidv4(),
+    },
+  });
+});
+
+/**
+ * Record counted quantities
+ */
+export const submitCycleCounts = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const { error, value } = submitCountsSchema.validate(req.body);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        },
+      });
+      return;
+    }
+
+    const cycleCount = await cycleCountService.submitCounts(id, value.counts, req.user!.userId);
+
+    res.json({
+      success: true,
+      data: cycleCount,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Approve a cycle count, correcting stock by its variances
+ */
+export const approveCycleCount = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const cycleCount = await cycleCountService.approveCount(id, req.user!.userId);
+
+    res.json({
+      success: true,
+      data: cycleCount,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Cancel a cycle count
+ */
+export const cancelCycleCount = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const cycleCount = await cycleCountService.cancelCount(id, req.user!.userId);
+
+    res.json({
+      success: true,
+      data: cycleCount,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
@@ -1,24 +1,64 @@
 import { Request, Response } from 'express';
 import { InventoryService } from '../services/inventory.service';
-import { asyncHandler, AuthenticatedRequest } from '@cloudretail/middleware';
+import { ProductOwnerService } from '../services/product-owner.service';
+import { asyncHandler, AuthenticatedRequest, MAX_PAGE_SIZE, PageParams } from '@cloudretail/middleware';
 import Joi from 'joi';
 import { v4 as uuidv4 } from 'uuid';
+import { ALLOCATION_STRATEGIES } from '../services/allocation';
+import { STOCK_MOVEMENT_TYPES } from '../models/StockMovement.model';
 
 const inventoryService = new InventoryService();
+const productOwnerService = new ProductOwnerService();
 
 // Validation schemas
 const createInventorySchema = Joi.object({
   productId: Joi.string().uuid().required(),
+  variantId: Joi.string().uuid().optional(),
   quantity: Joi.number().integer().min(0).required(),
-  warehouseLocation: Joi.string().required(),
-});
+  warehouseId: Joi.string().uuid(),
+  warehouseCode: Joi.string(),
+  reorderPoint: Joi.number().integer().min(0).optional(),
+  reorderQuantity: Joi.number().integer().min(0).optional(),
+  leadTimeDays: Joi.number().integer().min(0).optional(),
+}).xor('warehouseId', 'warehouseCode');
 
 const updateQuantitySchema = Joi.object({
+  variantId: Joi.string().uuid().optional(),
+  warehouseId: Joi.string().uuid().required(),
   quantity: Joi.number().integer().min(0).required(),
+  reason: Joi.string().max(255).optional(),
+});
+
+const reorderSettingsSchema = Joi.object({
+  variantId: Joi.string().uuid().optional(),
+  warehouseId: Joi.string().uuid().required(),
+  reorderPoint: Joi.number().integer().min(0).optional(),
+  reorderQuantity: Joi.number().integer().min(0).optional(),
+  leadTimeDays: Joi.number().integer().min(0).optional(),
+}).or('reorderPoint', 'reorderQuantity', 'leadTimeDays');
+
+const receiveStockSchema = Joi.object({
+  variantId: Joi.string().uuid().optional(),
+  warehouseId: Joi.string().uuid().required(),
+  quantity: Joi.number().integer().min(1).required(),
+  type: Joi.string().valid('receipt', 'return').default('receipt'),
+  reason: Joi.string().max(255).optional(),
+});
+
+const movementQuerySchema = Joi.object({
+  variantId: Joi.string().uuid().optional(),
+  warehouseId: Joi.string().uuid().optional(),
+  type: Joi.string().valid(...STOCK_MOVEMENT_TYPES).optional(),
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().min(Joi.ref('from')).optional(),
+  limit: Joi.number().integer().min(1).max(MAX_PAGE_SIZE).optional(),
+  order: Joi.string().valid('asc', 'desc').optional(),
+  cursor: Joi.string().optional(),
 });
 
 const inventoryItemSchema = Joi.object({
   productId: Joi.string().uuid().required(),
+  variantId: Joi.string().uuid().optional(),
   quantity: Joi.number().integer().min(1).required(),
 });
 
@@ -29,18 +69,46 @@ const verifyInventorySchema = Joi.object({
 const reserveInventorySchema = Joi.object({
   orderId: Joi.string().uuid().required(),
   items: Joi.array().items(inventoryItemSchema).min(1).required(),
+  shippingAddress: Joi.object({
+    street: Joi.string().optional(),
+    city: Joi.string().optional(),
+    state: Joi.string().optional(),
+    zipCode: Joi.string().optional(),
+    country: Joi.string().optional(),
+  }).optional(),
+  strategy: Joi.string().valid(...ALLOCATION_STRATEGIES).optional(),
 });
 
+// Stock is released and confirmed from the order's own reservations
 const releaseInventorySchema = Joi.object({
   orderId: Joi.string().uuid().required(),
-  items: Joi.array().items(inventoryItemSchema).min(1).required(),
 });
 
 const confirmUsageSchema = Joi.object({
   orderId: Joi.string().uuid().required(),
-  items: Joi.array().items(inventoryItemSchema).min(1).required(),
 });
 
+const holdReservationsSchema = Joi.object({
+  orderId: Joi.string().uuid().required(),
+});
+
+const productIdSchema = Joi.string().uuid().required();
+
+/**
+ * Resolve the vendor that owns the product whose stock a request changes,
+ * from the path or the body. Missing or malformed product IDs are left for
+ * validation to reject.
+ */
+export const resolveStockOwner = async (req: AuthenticatedRequest): Promise<string | null> => {
+  const productId = req.params.productId || req.body?.productId;
+
+  if (productIdSchema.validate(productId).error) {
+    return req.user!.userId;
+  }
+
+  return productOwnerService.getProductOwner(productId);
+};
+
 /**
  * Create inventory record
  */
@@ -59,7 +127,7 @@ export const createInventory = asyncHandler(
       return;
     }
 
-    const inventory = await inventoryService.createInventory(value);
+    const inventory = await inventoryService.createInventory(value, { actor: req.user!.userId });
 
     res.status(201).json({
       success: true,
@@ -128,8 +196,84 @@ export const updateInventoryQuantity = asyncHandler(
     }
 
     const inventory = await inventoryService.updateInventoryQuantity(
-      productId,
-      value.quantity
+      { productId, variantId: value.variantId },
+      value.warehouseId,
+      value.quantity,
+      { actor: req.user!.userId, reason: value.reason }
+    );
+
+    res.json({
+      success: true,
+      data: inventory,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Update the reorder settings of a product at a warehouse
+ */
+export const updateReorderSettings = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { productId } = req.params;
+    const { error, value } = reorderSettingsSchema.validate(req.body);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        },
+      });
+      return;
+    }
+
+    const { variantId, warehouseId, ...settings } = value;
+    const inventory = await inventoryService.updateReorderSettings({ productId, variantId }, warehouseId, settings);
+
+    res.json({
+      success: true,
+      data: inventory,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Receive stock from a supplier or a customer return
+ */
+export const receiveStock = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { productId } = req.params;
+    const { error, value } = receiveStockSchema.validate(req.body);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        },
+      });
+      return;
+    }
+
+    const inventory = await inventoryService.receiveStock(
+      { productId, variantId: value.variantId },
+      value.warehouseId,
+      value.quantity,
+      {
+        type: value.type,
+        actor: req.user!.userId,
+        reason: value.reason,
+      }
     );
 
     res.json({
@@ -143,6 +287,59 @@ export const updateInventoryQuantity = asyncHandler(
   }
 );
 
+/**
+ * Get the stock movement ledger of a product
+ */
+export const getStockMovements = asyncHandler(async (req: Request, res: Response) => {
+  const { productId } = req.params;
+  const { error, value } = movementQuerySchema.validate(req.query);
+
+  if (error) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: error.details[0].message,
+      },
+    });
+    return;
+  }
+
+  const { limit, order, cursor, ...filters } = value;
+  const { movements, pagination } = await inventoryService.getStockMovements(productId, filters, {
+    limit,
+    order,
+    cursor,
+  });
+
+  res.json({
+    success: true,
+    data: { movements },
+    metadata: {
+      timestamp: new Date(),
+      requestId: uuidv4(),
+      pagination,
+    },
+  });
+});
+
+/**
+ * Compare a stock record with the quantities rebuilt from its movements
+ */
+export const reconcileInventory = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const result = await inventoryService.reconcileInventory(id);
+
+  res.json({
+    success: true,
+    data: result,
+    metadata: {
+      timestamp: new Date(),
+      requestId: uuidv4(),
+    },
+  });
+});
+
 /**
  * Verify inventory availability
  */
@@ -189,7 +386,10 @@ export const reserveInventory = asyncHandler(async (req: Request, res: Response)
     return;
   }
 
-  const result = await inventoryService.reserveInventory(value.orderId, value.items);
+  const result = await inventoryService.reserveInventory(value.orderId, value.items, {
+    shippingAddress: value.shippingAddress,
+    strategy: value.strategy,
+  });
 
   res.json({
     success: true,
@@ -218,7 +418,7 @@ export const releaseInventory = asyncHandler(async (req: Request, res: Response)
     return;
   }
 
-  const result = await inventoryService.releaseInventory(value.orderId, value.items);
+  const result = await inventoryService.releaseInventory(value.orderId);
 
   res.json({
     success: true,
@@ -230,6 +430,35 @@ export const releaseInventory = asyncHandler(async (req: Request, res: Response)
   });
 });
 
+/**
+ * Hold a confirmed order's reservations until it ships or is cancelled
+ */
+export const holdReservations = asyncHandler(async (req: Request, res: Response) => {
+  const { error, value } = holdReservationsSchema.validate(req.body);
+
+  if (error) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: error.details[0].message,
+      },
+    });
+    return;
+  }
+
+  const held = await inventoryService.holdReservations(value.orderId);
+
+  res.json({
+    success: true,
+    data: { held },
+    metadata: {
+      timestamp: new Date(),
+      requestId: uuidv4(),
+    },
+  });
+});
+
 /**
  * Confirm inventory usage
  */
@@ -247,7 +476,7 @@ export const confirmInventoryUsage = asyncHandler(async (req: Request, res: Resp
     return;
   }
 
-  const result = await inventoryService.confirmInventoryUsage(value.orderId, value.items);
+  const result = await inventoryService.confirmInventoryUsage(value.orderId);
 
   res.json({
     success: true,
@@ -264,17 +493,37 @@ export const confirmInventoryUsage = asyncHandler(async (req: Request, res: Resp
  */
 export const getAllInventory = asyncHandler(async (req: Request, res: Response) => {
   const filters = {
-    warehouseLocation: req.query.warehouseLocation as string | undefined,
+    warehouseId: req.query.warehouseId as string | undefined,
+    productId: req.query.productId as string | undefined,
     lowStock: req.query.lowStock === 'true' ? true : undefined,
-    limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
-    offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
   };
 
-  const result = await inventoryService.getAllInventory(filters);
+  const { inventory, pagination } = await inventoryService.getAllInventory(
+    filters,
+    req.query as PageParams
+  );
 
   res.json({
     success: true,
-    data: result,
+    data: { inventory },
+    metadata: {
+      timestamp: new Date(),
+      requestId: uuidv4(),
+      pagination,
+    },
+  });
+});
+
+/**
+ * Get the stock reservations held or released for an order
+ */
+export const getReservationsByOrder = asyncHandler(async (req: Request, res: Response) => {
+  const { orderId } = req.params;
+  const reservations = await inventoryService.getReservationsByOrder(orderId);
+
+  res.json({
+    success: true,
+    data: reservations,
     metadata: {
       timestamp: new Date(),
       requestId: uuidv4(),
@@ -0,0 +1,42 @@
+import { Request, Response } from 'express';
+import { ReplenishmentService } from '../services/replenishment.service';
+import { asyncHandler } from '@cloudretail/middleware';
+import Joi from 'joi';
+import { v4 as uuidv4 } from 'uuid';
+
+const replenishmentService = new ReplenishmentService();
+
+// Validation schemas
+const suggestionQuerySchema = Joi.object({
+  warehouseId: Joi.string().uuid().optional(),
+  lookbackDays: Joi.number().integer().min(1).max(365).optional(),
+});
+
+/**
+ * Get suggested purchase orders for stock at or below its reorder point
+ */
+export const getReplenishmentSuggestions = asyncHandler(async (req: Request, res: Response) => {
+  const { error, value } = suggestionQuerySchema.validate(req.query);
+
+  if (error) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: error.details[0].message,
+      },
+    });
+    return;
+  }
+
+  const result = await replenishmentService.getSuggestions(value);
+
+  res.json({
+    success: true,
+    data: result,
+    metadata: {
+      timestamp: new Date(),
+      requestId: uuidv4(),
+    },
+  });
+});
@@ -0,0 +1,131 @@
+import { Request, Response } from 'express';
+import { WarehouseService } from '../services/warehouse.service';
+import { asyncHandler, AuthenticatedRequest } from '@cloudretail/middleware';
+import Joi from 'joi';
+import { v4 as uuidv4 } from 'uuid';
+
+const warehouseService = new WarehouseService();
+
+// Validation schemas
+const addressSchema = Joi.object({
+  street: Joi.string().optional(),
+  city: Joi.string().required(),
+  state: Joi.string().required(),
+  zipCode: Joi.string().required(),
+  country: Joi.string().required(),
+});
+
+const createWarehouseSchema = Joi.object({
+  code: Joi.string().max(32).required(),
+  name: Joi.string().required(),
+  address: addressSchema.required(),
+  priority: Joi.number().integer().min(0).optional(),
+  isActive: Joi.boolean().optional(),
+});
+
+const updateWarehouseSchema = Joi.object({
+  name: Joi.string().optional(),
+  address: addressSchema.optional(),
+  priority: Joi.number().integer().min(0).optional(),
+  isActive: Joi.boolean().optional(),
+}).min(1);
+
+/**
+ * Create a warehouse
+ */
+export const createWarehouse = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { error, value } = createWarehouseSchema.validate(req.body);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        },
+      });
+      return;
+    }
+
+    const warehouse = await warehouseService.createWarehouse(value);
+
+    res.status(201).json({
+      success: true,
+      data: warehouse,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Get all warehouses
+ */
+export const getAllWarehouses = asyncHandler(async (req: Request, res: Response) => {
+  const filters = {
+    isActive: req.query.isActive !== undefined ? req.query.isActive === 'true' : undefined,
+  };
+
+  const warehouses = await warehouseService.getAllWarehouses(filters);
+
+  res.json({
+    success: true,
+    data: warehouses,
+    metadata: {
+      timestamp: new Date(),
+      requestId: uuidv4(),
+    },
+  });
+});
+
+/**
+ * Get warehouse by ID
+ */
+export const getWarehouseById = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const warehouse = await warehouseService.getWarehouseById(id);
+
+  res.json({
+    success: true,
+    data: warehouse,
+    metadata: {
+      timestamp: new Date(),
+      requestId: uuidv4(),
+    },
+  });
+});
+
+/**
+ * Update a warehouse
+ */
+export const updateWarehouse = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const { error, value } = updateWarehouseSchema.validate(req.body);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        },
+      });
+      return;
+    }
+
+    const warehouse = await warehouseService.updateWarehouse(id, value);
+
+    res.json({
+      success: true,
+      data: warehouse,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
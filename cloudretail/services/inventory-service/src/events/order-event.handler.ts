@@ -0,0 +1,33 @@
+import { Event } from '@cloudretail/models';
+import { EventSubscriber } from '@cloudretail/outbox';
+import { InventoryService } from '../services/inventory.service';
+
+/**
+ * Order Event Handler
+ * Keeps reserved stock for confirmed orders past the reservation expiry.
+ * order-service holds the reservations when it confirms the order; this
+ * catches holds that failed there.
+ */
+export class OrderEventHandler {
+  private inventoryService: InventoryService;
+
+  constructor() {
+    this.inventoryService = new InventoryService();
+  }
+
+  /**
+   * Register order event handlers with a subscriber
+   */
+  register(subscriber: EventSubscriber): void {
+    subscriber.on('order.confirmed', (event) => this.handleOrderConfirmed(event));
+  }
+
+  /**
+   * Hold a confirmed order's reservations until it ships or is cancelled
+   */
+  async handleOrderConfirmed(event: Event): Promise<void> {
+    const { orderId } = event.payload;
+
+    await this.inventoryService.holdReservations(orderId);
+  }
+}
@@ -0,0 +1,60 @@
+import { Event } from '@cloudretail/models';
+import { EventSubscriber } from '@cloudretail/outbox';
+import { BackorderService } from '../services/backorder.service';
+
+/**
+ * Stock Event Handler
+ * Allocates queued backorders when stock of their products becomes available.
+ * InventoryService allocates as soon as its own stock changes commit; this
+ * catches allocations that failed there and stock set by bulk imports and
+ * cycle counts.
+ */
+export class StockEventHandler {
+  private backorderService: BackorderService;
+
+  constructor() {
+    this.backorderService = new BackorderService();
+  }
+
+  /**
+   * Register stock event handlers with a subscriber
+   */
+  register(subscriber: EventSubscriber): void {
+    subscriber.on('inventory.created', (event) => this.handleInventoryCreated(event));
+    subscriber.on('inventory.updated', (event) => this.handleInventoryUpdated(event));
+    subscriber.on('inventory.released', (event) => this.handleInventoryReleased(event));
+  }
+
+  /**
+   * Allocate backorders from the opening stock of a new record
+   */
+  async handleInventoryCreated(event: Event): Promise<void> {
+    const { productId, quantity } = event.payload;
+
+    if (quantity > 0) {
+      await this.backorderService.allocateBackorders([productId]);
+    }
+  }
+
+  /**
+   * Allocate backorders when a stock record's quantity goes up
+   */
+  async handleInventoryUpdated(event: Event): Promise<void> {
+    const { productId, oldQuantity, newQuantity } = event.payload;
+
+    if (newQuantity > oldQuantity) {
+      await this.backorderService.allocateBackorders([productId]);
+    }
+  }
+
+  /**
+   * Allocate backorders from stock another order has let go of
+   */
+  async handleInventoryReleased(event: Event): Promise<void> {
+    const productIds: string[] = Array.from(
+      new Set(event.payload.items.map((item: { productId: string }) => item.productId))
+    );
+
+    await this.backorderService.allocateBackorders(productIds);
+  }
+}
@@ -9,8 +9,16 @@ import {
   gdprCompliance,
   HealthCheck,
 } from '@cloudretail/middleware';
-import { connectDatabase } from './config/database';
+import { connectDatabase, eventSubscriber, outbox } from './config/database';
 import inventoryRoutes from './routes/inventory.routes';
+import warehouseRoutes from './routes/warehouse.routes';
+import replenishmentRoutes from './routes/replenishment.routes';
+import bulkInventoryRoutes from './routes/bulk-inventory.routes';
+import backorderRoutes from './routes/backorder.routes';
+import cycleCountRoutes from './routes/cycle-count.routes';
+import { ReservationSweeper } from './services/reservation-sweeper';
+import { OrderEventHandler } from './events/order-event.handler';
+import { StockEventHandler } from './events/stock-event.handler';
 import { logger } from '@cloudretail/middleware';
 
 // Load environment variables
@@ -19,6 +27,7 @@ dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 3004;
 const healthCheck = new HealthCheck();
+const reservationSweeper = new ReservationSweeper();
 
 // Security middleware
 app.use(helmetMiddleware);
@@ -51,6 +60,11 @@ app.get('/health', async (req, res) => {
 });
 
 // API routes
+app.use('/api/inventory/warehouses', warehouseRoutes);
+app.use('/api/inventory/replenishment', replenishmentRoutes);
+app.use('/api/inventory/bulk', bulkInventoryRoutes);
+app.use('/api/inventory/backorders', backorderRoutes);
+app.use('/api/inventory/cycle-counts', cycleCountRoutes);
 app.use('/api/inventory', inventoryRoutes);
 
 // 404 handler
@@ -65,6 +79,18 @@ async function startServer() {
     // Connect to database
     await connectDatabase();
 
+    // Deliver events recorded in the outbox
+    outbox.start();
+
+    // Hold reservations of confirmed orders past their expiry
+    new OrderEventHandler().register(eventSubscriber);
+    // Allocate backorders as stock arrives
+    new StockEventHandler().register(eventSubscriber);
+    eventSubscriber.start();
+
+    // Release stock held by orders that were never confirmed
+    reservationSweeper.start();
+
     app.listen(PORT, () => {
       logger.info(`Inventory Service started on port ${PORT}`);
       logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
@@ -78,6 +104,9 @@ async function startServer() {
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully');
+  eventSubscriber.stop();
+  await reservationSweeper.stop();
+  await outbox.stop();
   const { disconnectDatabase } = await import('./config/database');
   await disconnectDatabase();
   process.exit(0);
@@ -85,6 +114,9 @@ process.on('SIGTERM', async () => {
 
 process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully');
+  eventSubscriber.stop();
+  await reservationSweeper.stop();
+  await outbox.stop();
   const { disconnectDatabase } = await import('./config/database');
   await disconnectDatabase();
   process.exit(0);
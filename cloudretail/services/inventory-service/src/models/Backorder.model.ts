@@ -0,0 +1,95 @@
+import { Model, DataTypes, Sequelize, Optional } from 'sequelize';
+import { ShippingAddress } from '../services/allocation';
+
+/**
+ * Only 'waiting' backorders are queued for stock. 'allocated' ones were
+ * reserved when stock arrived; 'cancelled' ones left with their order.
+ */
+export type BackorderStatus = 'waiting' | 'allocated' | 'cancelled';
+
+export interface BackorderAttributes {
+  id: string;
+  orderId: string;
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+  status: BackorderStatus;
+  // Kept so the order is allocated from the nearest warehouse once stock arrives
+  shippingAddress?: ShippingAddress | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface BackorderCreationAttributes extends Optional<BackorderAttributes, 'id' | 'status' | 'shippingAddress' | 'createdAt' | 'updatedAt'> {}
+
+/**
+ * Backorder
+ * A product an order is waiting on, queued first come, first served
+ */
+export class Backorder extends Model<BackorderAttributes, BackorderCreationAttributes> implements BackorderAttributes {
+  public id!: string;
+  public orderId!: string;
+  public productId!: string;
+  public variantId?: string | null;
+  public quantity!: number;
+  public status!: BackorderStatus;
+  public shippingAddress?: ShippingAddress | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+export function initBackorderModel(sequelize: Sequelize): typeof Backorder {
+  Backorder.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      orderId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+      },
+      productId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+      },
+      variantId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+      },
+      quantity: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        validate: {
+          min: 1,
+        },
+      },
+      status: {
+        type: DataTypes.ENUM('waiting', 'allocated', 'cancelled'),
+        allowNull: false,
+        defaultValue: 'waiting',
+      },
+      shippingAddress: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'backorders',
+      timestamps: true,
+      indexes: [
+        {
+          fields: ['orderId'],
+        },
+        {
+          fields: ['productId', 'status', 'createdAt'],
+        },
+      ],
+    }
+  );
+
+  return Backorder;
+}
@@ -0,0 +1,68 @@
+import { Model, DataTypes, Sequelize, Optional } from 'sequelize';
+
+/**
+ * How a product takes orders beyond its stock
+ * - backorder: sold while out of stock, shipped when stock arrives
+ * - preorder: sold before release, shipped from the expected restock date
+ */
+export type BackorderMode = 'backorder' | 'preorder';
+
+export const BACKORDER_MODES: BackorderMode[] = ['backorder', 'preorder'];
+
+export interface BackorderPolicyAttributes {
+  id: string;
+  productId: string;
+  mode: BackorderMode;
+  // Required for pre-orders, shown to customers for backorders when known
+  expectedRestockDate?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface BackorderPolicyCreationAttributes extends Optional<BackorderPolicyAttributes, 'id' | 'expectedRestockDate' | 'createdAt' | 'updatedAt'> {}
+
+/**
+ * Backorder Policy
+ * Lets a product be ordered when there is not enough stock to fill the order
+ */
+export class BackorderPolicy extends Model<BackorderPolicyAttributes, BackorderPolicyCreationAttributes> implements BackorderPolicyAttributes {
+  public id!: string;
+  public productId!: string;
+  public mode!: BackorderMode;
+  public expectedRestockDate?: Date | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+export function initBackorderPolicyModel(sequelize: Sequelize): typeof BackorderPolicy {
+  BackorderPolicy.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      productId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        unique: true,
+      },
+      mode: {
+        type: DataTypes.ENUM(...BACKORDER_MODES),
+        allowNull: false,
+      },
+      expectedRestockDate: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'backorder_policies',
+      timestamps: true,
+    }
+  );
+
+  return BackorderPolicy;
+}
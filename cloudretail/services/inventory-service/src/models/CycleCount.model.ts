@@ -0,0 +1,98 @@
+import { Model, DataTypes, Sequelize, Optional } from 'sequelize';
+
+/**
+ * Only 'open' counts take counted quantities. Approving a count posts its
+ * variances to stock; cancelling it discards them.
+ */
+export type CycleCountStatus = 'open' | 'approved' | 'cancelled';
+
+export interface CycleCountAttributes {
+  id: string;
+  // The count covers a warehouse, a set of products, or a set of products at a warehouse
+  warehouseId?: string | null;
+  productIds?: string[] | null;
+  status: CycleCountStatus;
+  openedBy: string;
+  closedBy?: string | null;
+  closedAt?: Date | null;
+  notes?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface CycleCountCreationAttributes extends Optional<CycleCountAttributes, 'id' | 'warehouseId' | 'productIds' | 'status' | 'closedBy' | 'closedAt' | 'notes' | 'createdAt' | 'updatedAt'> {}
+
+/**
+ * Cycle Count
+ * A session in which stock records are physically counted and corrected
+ */
+export class CycleCount extends Model<CycleCountAttributes, CycleCountCreationAttributes> implements CycleCountAttributes {
+  public id!: string;
+  public warehouseId?: string | null;
+  public productIds?: string[] | null;
+  public status!: CycleCountStatus;
+  public openedBy!: string;
+  public closedBy?: string | null;
+  public closedAt?: Date | null;
+  public notes?: string | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+export function initCycleCountModel(sequelize: Sequelize): typeof CycleCount {
+  CycleCount.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      warehouseId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        references: {
+          model: 'warehouses',
+          key: 'id',
+        },
+      },
+      productIds: {
+        type: DataTypes.ARRAY(DataTypes.UUID),
+        allowNull: true,
+      },
+      status: {
+        type: DataTypes.ENUM('open', 'approved', 'cancelled'),
+        allowNull: false,
+        defaultValue: 'open',
+      },
+      openedBy: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      closedBy: {
+        type: DataTypes.STRING,
+        allowNull: true,
+      },
+      closedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      notes: {
+        type: DataTypes.STRING,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'cycle_counts',
+      timestamps: true,
+      indexes: [
+        {
+          fields: ['status', 'createdAt'],
+        },
+      ],
+    }
+  );
+
+  return CycleCount;
+}
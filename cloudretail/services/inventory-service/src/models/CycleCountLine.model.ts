@@ -0,0 +1,124 @@
+import { Model, DataTypes, Sequelize, Optional } from 'sequelize';
+
+export interface CycleCountLineAttributes {
+  id: string;
+  cycleCountId: string;
+  inventoryId: string;
+  productId: string;
+  variantId?: string | null;
+  warehouseId: string;
+  // Stock on record when the count opened, then when it was counted
+  systemQuantity: number;
+  countedQuantity?: number | null;
+  countedBy?: string | null;
+  countedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface CycleCountLineCreationAttributes extends Optional<CycleCountLineAttributes, 'id' | 'countedQuantity' | 'countedBy' | 'countedAt' | 'createdAt' | 'updatedAt'> {}
+
+/**
+ * Cycle Count Line
+ * One stock record to be counted in a cycle count
+ */
+export class CycleCountLine extends Model<CycleCountLineAttributes, CycleCountLineCreationAttributes> implements CycleCountLineAttributes {
+  public id!: string;
+  public cycleCountId!: string;
+  public inventoryId!: string;
+  public productId!: string;
+  public variantId?: string | null;
+  public warehouseId!: string;
+  public systemQuantity!: number;
+  public countedQuantity?: number | null;
+  public countedBy?: string | null;
+  public countedAt?: Date | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  /**
+   * Counted minus system quantity, or null until counted
+   */
+  public getVariance(): number | null {
+    if (this.countedQuantity === null || this.countedQuantity === undefined) {
+      return null;
+    }
+
+    return this.countedQuantity - this.systemQuantity;
+  }
+}
+
+export function initCycleCountLineModel(sequelize: Sequelize): typeof CycleCountLine {
+  CycleCountLine.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      cycleCountId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'cycle_counts',
+          key: 'id',
+        },
+      },
+      inventoryId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'inventory',
+          key: 'id',
+        },
+      },
+      productId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+      },
+      variantId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+      },
+      warehouseId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+      },
+      systemQuantity: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      countedQuantity: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        validate: {
+          min: 0,
+        },
+      },
+      countedBy: {
+        type: DataTypes.STRING,
+        allowNull: true,
+      },
+      countedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'cycle_count_lines',
+      timestamps: true,
+      indexes: [
+        {
+          fields: ['cycleCountId'],
+        },
+        {
+          fields: ['inventoryId'],
+        },
+      ],
+    }
+  );
+
+  return CycleCountLine;
+}
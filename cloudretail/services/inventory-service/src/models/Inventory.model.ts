@@ -1,23 +1,42 @@
-import { Model, DataTypes, Sequelize, Optional } from 'sequelize';
+import { Model, DataTypes, Sequelize, Optional, Op } from 'sequelize';
 
+// Reorder settings for records created without their own
+export const DEFAULT_REORDER_POINT = 10;
+export const DEFAULT_LEAD_TIME_DAYS = 7;
+
+/**
+ * Stock of a product, or of one of its variants, held at one warehouse
+ */
 export interface InventoryAttributes {
   id: string;
   productId: string;
+  // Set when the stock is of one variant of a product sold in variants
+  variantId?: string | null;
+  warehouseId: string;
   quantity: number;
-  warehouseLocation: string;
   reservedQuantity: number;
+  // Replenish once available stock falls to this level
+  reorderPoint: number;
+  // Units to order at a time; 0 sizes the order from recent consumption
+  reorderQuantity: number;
+  // Days a supplier takes to deliver to this warehouse
+  leadTimeDays: number;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
-export interface InventoryCreationAttributes extends Optional<InventoryAttributes, 'id' | 'quantity' | 'reservedQuantity' | 'createdAt' | 'updatedAt'> {}
+export interface InventoryCreationAttributes extends Optional<InventoryAttributes, 'id' | 'quantity' | 'reservedQuantity' | 'reorderPoint' | 'reorderQuantity' | 'leadTimeDays' | 'createdAt' | 'updatedAt'> {}
 
 export class Inventory extends Model<InventoryAttributes, InventoryCreationAttributes> implements InventoryAttributes {
   public id!: string;
   public productId!: string;
+  public variantId?: string | null;
+  public warehouseId!: string;
   public quantity!: number;
-  public warehouseLocation!: string;
   public reservedQuantity!: number;
+  public reorderPoint!: number;
+  public reorderQuantity!: number;
+  public leadTimeDays!: number;
 
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
@@ -41,7 +60,18 @@ export function initInventoryModel(sequelize: Sequelize): typeof Inventory {
       productId: {
         type: DataTypes.UUID,
         allowNull: false,
-        unique: true,
+      },
+      variantId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+      },
+      warehouseId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'warehouses',
+          key: 'id',
+        },
       },
       quantity: {
         type: DataTypes.INTEGER,
@@ -51,14 +81,23 @@ export function initInventoryModel(sequelize: Sequelize): typeof Inventory {
           min: 0,
         },
       },
-      warehouseLocation: {
-        type: DataTypes.STRING,
+      reservedQuantity: {
+        type: DataTypes.INTEGER,
         allowNull: false,
+        defaultValue: 0,
         validate: {
-          notEmpty: true,
+          min: 0,
         },
       },
-      reservedQuantity: {
+      reorderPoint: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: DEFAULT_REORDER_POINT,
+        validate: {
+          min: 0,
+        },
+      },
+      reorderQuantity: {
         type: DataTypes.INTEGER,
         allowNull: false,
         defaultValue: 0,
@@ -66,18 +105,35 @@ export function initInventoryModel(sequelize: Sequelize): typeof Inventory {
           min: 0,
         },
       },
+      leadTimeDays: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: DEFAULT_LEAD_TIME_DAYS,
+        validate: {
+          min: 0,
+        },
+      },
     },
     {
       sequelize,
       tableName: 'inventory',
       timestamps: true,
       indexes: [
+        // One record per product, or per variant, at each warehouse
+        {
+          name: 'inventory_product_warehouse',
+          fields: ['productId', 'warehouseId'],
+          unique: true,
+          where: { variantId: null },
+        },
         {
-          fields: ['productId'],
+          name: 'inventory_variant_warehouse',
+          fields: ['variantId', 'warehouseId'],
           unique: true,
+          where: { variantId: { [Op.ne]: null } },
         },
         {
-          fields: ['warehouseLocation'],
+          fields: ['warehouseId'],
         },
       ],
       validate: {
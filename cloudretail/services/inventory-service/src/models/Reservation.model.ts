@@ -0,0 +1,104 @@
+import { Model, DataTypes, Sequelize, Optional } from 'sequelize';
+
+/**
+ * Only 'active' reservations hold stock. The rest record how the hold ended:
+ * released by the order, confirmed on shipment, or expired by the sweeper.
+ */
+export type ReservationStatus = 'active' | 'released' | 'confirmed' | 'expired';
+
+export interface ReservationAttributes {
+  id: string;
+  orderId: string;
+  productId: string;
+  variantId?: string | null;
+  warehouseId: string;
+  quantity: number;
+  status: ReservationStatus;
+  // Null once the order is confirmed; the hold then lasts until shipment or cancellation
+  expiresAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface ReservationCreationAttributes extends Optional<ReservationAttributes, 'id' | 'status' | 'expiresAt' | 'createdAt' | 'updatedAt'> {}
+
+/**
+ * Reservation
+ * Stock of a product held at one warehouse for an order
+ */
+export class Reservation extends Model<ReservationAttributes, ReservationCreationAttributes> implements ReservationAttributes {
+  public id!: string;
+  public orderId!: string;
+  public productId!: string;
+  public variantId?: string | null;
+  public warehouseId!: string;
+  public quantity!: number;
+  public status!: ReservationStatus;
+  public expiresAt?: Date | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+export function initReservationModel(sequelize: Sequelize): typeof Reservation {
+  Reservation.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      orderId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+      },
+      productId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+      },
+      variantId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+      },
+      warehouseId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'warehouses',
+          key: 'id',
+        },
+      },
+      quantity: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        validate: {
+          min: 1,
+        },
+      },
+      status: {
+        type: DataTypes.ENUM('active', 'released', 'confirmed', 'expired'),
+        allowNull: false,
+        defaultValue: 'active',
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'reservations',
+      timestamps: true,
+      indexes: [
+        {
+          fields: ['orderId'],
+        },
+        {
+          fields: ['status', 'expiresAt'],
+        },
+      ],
+    }
+  );
+
+  return Reservation;
+}
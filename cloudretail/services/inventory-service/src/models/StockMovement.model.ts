@@ -0,0 +1,151 @@
+import { Model, DataTypes, Sequelize, Optional } from 'sequelize';
+
+/**
+ * Why a stock record changed
+ * - receipt: stock received from a supplier
+ * - adjustment: quantity set by hand
+ * - reservation / release: stock held for or freed from an order
+ * - shipment: reserved stock leaving with an order
+ * - return: stock coming back from a customer
+ * - cycle_count: correction after a physical count
+ */
+export type StockMovementType =
+  | 'receipt'
+  | 'adjustment'
+  | 'reservation'
+  | 'release'
+  | 'shipment'
+  | 'return'
+  | 'cycle_count';
+
+export const STOCK_MOVEMENT_TYPES: StockMovementType[] = [
+  'receipt',
+  'adjustment',
+  'reservation',
+  'release',
+  'shipment',
+  'return',
+  'cycle_count',
+];
+
+export interface StockMovementAttributes {
+  id: string;
+  inventoryId: string;
+  productId: string;
+  variantId?: string | null;
+  warehouseId: string;
+  type: StockMovementType;
+  // Signed changes; summing a record's movements gives its quantity and reservedQuantity
+  quantityChange: number;
+  reservedChange: number;
+  orderId?: string | null;
+  actor: string;
+  reason?: string | null;
+  createdAt?: Date;
+}
+
+export interface StockMovementCreationAttributes extends Optional<StockMovementAttributes, 'id' | 'quantityChange' | 'reservedChange' | 'orderId' | 'reason' | 'createdAt'> {}
+
+/**
+ * Stock Movement
+ * Append-only ledger entry for a change to an inventory record
+ */
+export class StockMovement extends Model<StockMovementAttributes, StockMovementCreationAttributes> implements StockMovementAttributes {
+  public id!: string;
+  public inventoryId!: string;
+  public productId!: string;
+  public variantId?: string | null;
+  public warehouseId!: string;
+  public type!: StockMovementType;
+  public quantityChange!: number;
+  public reservedChange!: number;
+  public orderId?: string | null;
+  public actor!: string;
+  public reason?: string | null;
+
+  public readonly createdAt!: Date;
+}
+
+const appendOnly = () => {
+  throw new Error('Stock movements are append-only');
+};
+
+export function initStockMovementModel(sequelize: Sequelize): typeof StockMovement {
+  StockMovement.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      inventoryId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'inventory',
+          key: 'id',
+        },
+      },
+      productId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+      },
+      variantId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+      },
+      warehouseId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+      },
+      type: {
+        type: DataTypes.ENUM(...STOCK_MOVEMENT_TYPES),
+        allowNull: false,
+      },
+      quantityChange: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      reservedChange: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      orderId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+      },
+      actor: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      reason: {
+        type: DataTypes.STRING,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'stock_movements',
+      timestamps: true,
+      updatedAt: false,
+      indexes: [
+        {
+          fields: ['productId', 'createdAt'],
+        },
+        {
+          fields: ['inventoryId'],
+        },
+      ],
+      hooks: {
+        beforeUpdate: appendOnly,
+        beforeBulkUpdate: appendOnly,
+        beforeDestroy: appendOnly,
+        beforeBulkDestroy: appendOnly,
+      },
+    }
+  );
+
+  return StockMovement;
+}
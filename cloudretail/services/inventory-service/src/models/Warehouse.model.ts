@@ -0,0 +1,99 @@
+import { Model, DataTypes, Sequelize, Optional } from 'sequelize';
+
+export interface WarehouseAddress {
+  street?: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  country: string;
+}
+
+export interface WarehouseAttributes {
+  id: string;
+  code: string;
+  name: string;
+  address: WarehouseAddress;
+  priority: number;
+  isActive: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface WarehouseCreationAttributes extends Optional<WarehouseAttributes, 'id' | 'priority' | 'isActive' | 'createdAt' | 'updatedAt'> {}
+
+/**
+ * Warehouse
+ * A stock location. Lower priority values are allocated from first when
+ * warehouses are otherwise equally suitable.
+ */
+export class Warehouse extends Model<WarehouseAttributes, WarehouseCreationAttributes> implements WarehouseAttributes {
+  public id!: string;
+  public code!: string;
+  public name!: string;
+  public address!: WarehouseAddress;
+  public priority!: number;
+  public isActive!: boolean;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+export function initWarehouseModel(sequelize: Sequelize): typeof Warehouse {
+  Warehouse.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      code: {
+        type: DataTypes.STRING(32),
+        allowNull: false,
+        unique: true,
+        validate: {
+          notEmpty: true,
+        },
+      },
+      name: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        validate: {
+          notEmpty: true,
+        },
+      },
+      address: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+      },
+      priority: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 100,
+        validate: {
+          min: 0,
+        },
+      },
+      isActive: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'warehouses',
+      timestamps: true,
+      indexes: [
+        {
+          fields: ['code'],
+          unique: true,
+        },
+        {
+          fields: ['isActive', 'priority'],
+        },
+      ],
+    }
+  );
+
+  return Warehouse;
+}
@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import {
+  getBackorderPolicy,
+  setBackorderPolicy,
+  removeBackorderPolicy,
+  queueBackorder,
+  getBackorders,
+} from '../controllers/backorder.controller';
+import { resolveStockOwner } from '../controllers/inventory.controller';
+import {
+  authenticate,
+  authorize,
+  requireOwnership,
+  strictRateLimiter,
+  standardRateLimiter,
+} from '@cloudretail/middleware';
+
+const router = Router();
+
+// Backorder terms are set per product, by its vendor or an admin
+const productOwner = requireOwnership({
+  resource: 'product',
+  resolveOwner: resolveStockOwner,
+});
+
+/**
+ * Public routes (for service-to-service communication)
+ */
+router.post('/', standardRateLimiter, queueBackorder);
+
+/**
+ * Public read routes
+ */
+router.get('/policies/:productId', standardRateLimiter, getBackorderPolicy);
+
+/**
+ * Protected routes - require authentication and authorization
+ */
+router.get(
+  '/',
+  authenticate,
+  authorize('admin'),
+  standardRateLimiter,
+  getBackorders
+);
+
+router.put(
+  '/policies/:productId',
+  authenticate,
+  authorize('admin', 'vendor'),
+  strictRateLimiter,
+  productOwner,
+  setBackorderPolicy
+);
+
+router.delete(
+  '/policies/:productId',
+  authenticate,
+  authorize('admin', 'vendor'),
+  strictRateLimiter,
+  productOwner,
+  removeBackorderPolicy
+);
+
+export default router;
@@ -0,0 +1,38 @@
+import express, { Router } from 'express';
+import { importStock, exportStock } from '../controllers/bulk-inventory.controller';
+import {
+  authenticate,
+  authorize,
+  strictRateLimiter,
+  standardRateLimiter,
+} from '@cloudretail/middleware';
+
+const router = Router();
+
+// Import files are sent as the raw request body
+const importFile = express.text({
+  type: ['text/csv', 'application/x-ndjson', 'application/jsonl'],
+  limit: process.env.INVENTORY_IMPORT_MAX_SIZE || '5mb',
+});
+
+/**
+ * Protected routes - require authentication and authorization
+ */
+router.post(
+  '/import',
+  authenticate,
+  authorize('admin', 'vendor'),
+  strictRateLimiter,
+  importFile,
+  importStock
+);
+
+router.get(
+  '/export',
+  authenticate,
+  authorize('admin', 'vendor'),
+  standardRateLimiter,
+  exportStock
+);
+
+export default router;
@@ -0,0 +1,90 @@
+import { Router } from 'express';
+import {
+  openCycleCount,
+  getCycleCounts,
+  getCycleCount,
+  submitCycleCounts,
+  approveCycleCount,
+  cancelCycleCount,
+  resolveCountScopeOwner,
+  resolveCycleCountOwner,
+} from '../controllers/cycle-count.controller';
+import {
+  authenticate,
+  authorize,
+  requireOwnership,
+  strictRateLimiter,
+  standardRateLimiter,
+} from '@cloudretail/middleware';
+
+const router = Router();
+
+// Vendors may only count their own products. A count spanning several
+// vendors' products, such as a whole warehouse, is left to admins.
+const scopeOwner = requireOwnership({
+  resource: 'product',
+  resolveOwner: resolveCountScopeOwner,
+});
+
+const countOwner = requireOwnership({
+  resource: 'cycle count',
+  resolveOwner: resolveCycleCountOwner,
+});
+
+/**
+ * Protected routes - require authentication and authorization
+ */
+router.post(
+  '/',
+  authenticate,
+  authorize('admin', 'vendor'),
+  strictRateLimiter,
+  scopeOwner,
+  openCycleCount
+);
+
+router.get(
+  '/',
+  authenticate,
+  authorize('admin', 'vendor'),
+  standardRateLimiter,
+  getCycleCounts
+);
+
+router.get(
+  '/:id',
+  authenticate,
+  authorize('admin', 'vendor'),
+  standardRateLimiter,
+  countOwner,
+  getCycleCount
+);
+
+router.post(
+  '/:id/counts',
+  authenticate,
+  authorize('admin', 'vendor'),
+  strictRateLimiter,
+  countOwner,
+  submitCycleCounts
+);
+
+router.post(
+  '/:id/approve',
+  authenticate,
+  authorize('admin', 'vendor'),
+  strictRateLimiter,
+  countOwner,
+  approveCycleCount
+);
+
+router.post(
+  '/:id/cancel',
+  authenticate,
+  authorize('admin', 'vendor'),
+  strictRateLimiter,
+  countOwner,
+  cancelCycleCount
+);
+
+export default router;
@@ -7,24 +7,39 @@ import {
   verifyInventory,
   reserveInventory,
   releaseInventory,
+  holdReservations,
   confirmInventoryUsage,
   getAllInventory,
+  getReservationsByOrder,
+  receiveStock,
+  getStockMovements,
+  reconcileInventory,
+  updateReorderSettings,
+  resolveStockOwner,
 } from '../controllers/inventory.controller';
 import {
   authenticate,
   authorize,
+  requireOwnership,
   strictRateLimiter,
   standardRateLimiter,
 } from '@cloudretail/middleware';
 
 const router = Router();
 
+// Vendors may only change stock of their own products; admins may change any
+const stockOwner = requireOwnership({
+  resource: 'product',
+  resolveOwner: resolveStockOwner,
+});
+
 /**
  * Public routes (for service-to-service communication)
  */
 router.post('/verify', standardRateLimiter, verifyInventory);
 router.post('/reserve', standardRateLimiter, reserveInventory);
 router.post('/release', standardRateLimiter, releaseInventory);
+router.post('/hold', standardRateLimiter, holdReservations);
 router.post('/confirm', standardRateLimiter, confirmInventoryUsage);
 
 /**
@@ -41,6 +56,7 @@ router.post(
   authenticate,
   authorize('admin', 'vendor'),
   strictRateLimiter,
+  stockOwner,
   createInventory
 );
 
@@ -49,9 +65,36 @@ router.put(
   authenticate,
   authorize('admin', 'vendor'),
   strictRateLimiter,
+  stockOwner,
   updateInventoryQuantity
 );
 
+router.put(
+  '/product/:productId/reorder-settings',
+  authenticate,
+  authorize('admin', 'vendor'),
+  strictRateLimiter,
+  stockOwner,
+  updateReorderSettings
+);
+
+router.post(
+  '/product/:productId/receive',
+  authenticate,
+  authorize('admin', 'vendor'),
+  strictRateLimiter,
+  stockOwner,
+  receiveStock
+);
+
+router.get(
+  '/product/:productId/movements',
+  authenticate,
+  authorize('admin', 'vendor'),
+  standardRateLimiter,
+  getStockMovements
+);
+
 router.get(
   '/',
   authenticate,
@@ -60,4 +103,20 @@ router.get(
   getAllInventory
 );
 
+router.get(
+  '/:id/reconcile',
+  authenticate,
+  authorize('admin'),
+  standardRateLimiter,
+  reconcileInventory
+);
+
+router.get(
+  '/reservations/order/:orderId',
+  authenticate,
+  authorize('admin'),
+  standardRateLimiter,
+  getReservationsByOrder
+);
+
 export default router;
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { getReplenishmentSuggestions } from '../controllers/replenishment.controller';
+import {
+  authenticate,
+  authorize,
+  standardRateLimiter,
+} from '@cloudretail/middleware';
+
+const router = Router();
+
+/**
+ * Protected routes - require authentication and authorization
+ */
+router.get(
+  '/',
+  authenticate,
+  authorize('admin', 'vendor'),
+  standardRateLimiter,
+  getReplenishmentSuggestions
+);
+
+export default router;
@@ -0,0 +1,52 @@
+import { Router } from 'express';
+import {
+  createWarehouse,
+  getAllWarehouses,
+  getWarehouseById,
+  updateWarehouse,
+} from '../controllers/warehouse.controller';
+import {
+  authenticate,
+  authorize,
+  strictRateLimiter,
+  standardRateLimiter,
+} from '@cloudretail/middleware';
+
+const router = Router();
+
+/**
+ * Protected routes - require authentication and authorization
+ */
+router.get(
+  '/',
+  authenticate,
+  authorize('admin', 'vendor'),
+  standardRateLimiter,
+  getAllWarehouses
+);
+
+router.get(
+  '/:id',
+  authenticate,
+  authorize('admin', 'vendor'),
+  standardRateLimiter,
+  getWarehouseById
+);
+
+router.post(
+  '/',
+  authenticate,
+  authorize('admin'),
+  strictRateLimiter,
+  createWarehouse
+);
+
+router.put(
+  '/:id',
+  authenticate,
+  authorize('admin'),
+  strictRateLimiter,
+  updateWarehouse
+);
+
+export default router;
@@ -0,0 +1,218 @@
+import { WarehouseAddress } from '../models/Warehouse.model';
+
+/**
+ * How stock for an order is spread across warehouses
+ * - nearest: each item comes from the closest warehouses that hold it
+ * - fewest_splits: use as few warehouses as possible for the whole order
+ */
+export type AllocationStrategy = 'nearest' | 'fewest_splits';
+
+export const ALLOCATION_STRATEGIES: AllocationStrategy[] = ['nearest', 'fewest_splits'];
+
+export type ShippingAddress = Partial<WarehouseAddress>;
+
+/**
+ * What a line of stock is: a product, or one variant of a product sold in variants
+ */
+export interface StockRef {
+  productId: string;
+  variantId?: string | null;
+}
+
+/**
+ * Key telling stock lines apart; variant IDs never collide with product IDs
+ */
+export const stockKey = (ref: StockRef): string => ref.variantId || ref.productId;
+
+/**
+ * The product and, when there is one, variant of a stock line
+ */
+export function stockRef(ref: StockRef): StockRef {
+  return ref.variantId ? { productId: ref.productId, variantId: ref.variantId } : { productId: ref.productId };
+}
+
+/**
+ * Name a stock line in messages
+ */
+export function describeStock(ref: StockRef): string {
+  return ref.variantId ? `variant ${ref.variantId} of product ${ref.productId}` : `product ${ref.productId}`;
+}
+
+/**
+ * Available stock of a product or variant at one warehouse
+ */
+export interface StockLocation extends StockRef {
+  warehouseId: string;
+  available: number;
+  priority: number;
+  address: WarehouseAddress;
+}
+
+export interface AllocationItem extends StockRef {
+  quantity: number;
+}
+
+export interface Allocation extends StockRef {
+  warehouseId: string;
+  quantity: number;
+}
+
+export interface AllocationResult {
+  allocations: Allocation[];
+  unfulfilled: AllocationItem[];
+}
+
+const normalize = (value?: string) => (value || '').trim().toLowerCase();
+
+/**
+ * Rough distance from a warehouse to a shipping address, from matching
+ * address parts: 0 same postcode, 1 same city, 2 same state, 3 same
+ * country, 4 elsewhere. Without an address every warehouse scores 0.
+ */
+export function proximity(address: WarehouseAddress, destination?: ShippingAddress): number {
+  if (!destination) return 0;
+
+  const sameCountry = normalize(address.country) === normalize(destination.country);
+  const sameState = sameCountry && normalize(address.state) === normalize(destination.state);
+
+  if (sameCountry && normalize(destination.zipCode) && normalize(address.zipCode) === normalize(destination.zipCode)) {
+    return 0;
+  }
+  if (sameState && normalize(address.city) === normalize(destination.city)) return 1;
+  if (sameState) return 2;
+  if (sameCountry) return 3;
+  return 4;
+}
+
+/**
+ * Order locations closest first, then by warehouse priority
+ */
+function compareLocations(destination?: ShippingAddress) {
+  return (a: StockLocation, b: StockLocation) =>
+    proximity(a.address, destination) - proximity(b.address, destination) ||
+    a.priority - b.priority ||
+    a.warehouseId.localeCompare(b.warehouseId);
+}
+
+/**
+ * Combine repeated products or variants into a single requested quantity,
+ * keyed by stock key
+ */
+function mergeItems(items: AllocationItem[]): Map<string, AllocationItem> {
+  const merged = new Map<string, AllocationItem>();
+  for (const item of items) {
+    const key = stockKey(item);
+    merged.set(key, { ...stockRef(item), quantity: (merged.get(key)?.quantity || 0) + item.quantity });
+  }
+  return merged;
+}
+
+function allocateNearest(
+  items: AllocationItem[],
+  locations: StockLocation[],
+  destination?: ShippingAddress
+): AllocationResult {
+  const allocations: Allocation[] = [];
+  const unfulfilled: AllocationItem[] = [];
+  const ranked = [...locations].sort(compareLocations(destination));
+
+  for (const [key, item] of mergeItems(items)) {
+    let remaining = item.quantity;
+
+    for (const location of ranked) {
+      if (remaining === 0) break;
+      if (stockKey(location) !== key || location.available <= 0) continue;
+
+      const allocated = Math.min(location.available, remaining);
+      allocations.push({ ...stockRef(item), warehouseId: location.warehouseId, quantity: allocated });
+      remaining -= allocated;
+    }
+
+    if (remaining > 0) {
+      unfulfilled.push({ ...stockRef(item), quantity: remaining });
+    }
+  }
+
+  return { allocations, unfulfilled };
+}
+
+function allocateFewestSplits(
+  items: AllocationItem[],
+  locations: StockLocation[],
+  destination?: ShippingAddress
+): AllocationResult {
+  const allocations: Allocation[] = [];
+  const remaining = mergeItems(items);
+  const compare = compareLocations(destination);
+
+  // One representative location per warehouse for ranking ties
+  const warehouses = new Map<string, StockLocation>();
+  for (const location of locations) {
+    if (!warehouses.has(location.warehouseId)) {
+      warehouses.set(location.warehouseId, location);
+    }
+  }
+
+  const coverage = (warehouseId: string) =>
+    locations
+      .filter((location) => location.warehouseId === warehouseId && remaining.has(stockKey(location)))
+      .reduce((units, location) => units + Math.min(location.available, remaining.get(stockKey(location))!.quantity), 0);
+
+  // Greedily pick the warehouse that covers the most outstanding units
+  while (remaining.size > 0 && warehouses.size > 0) {
+    let best: StockLocation | undefined;
+    let bestCoverage = 0;
+
+    for (const candidate of warehouses.values()) {
+      const units = coverage(candidate.warehouseId);
+      if (units > bestCoverage || (units === bestCoverage && units > 0 && best && compare(candidate, best) < 0)) {
+        best = candidate;
+        bestCoverage = units;
+      }
+    }
+
+    if (!best) break;
+
+    warehouses.delete(best.warehouseId);
+
+    for (const location of locations) {
+      const key = stockKey(location);
+      if (location.warehouseId !== best.warehouseId || !remaining.has(key)) continue;
+
+      const wanted = remaining.get(key)!;
+      const allocated = Math.min(location.available, wanted.quantity);
+      if (allocated <= 0) continue;
+
+      allocations.push({ ...stockRef(location), warehouseId: location.warehouseId, quantity: allocated });
+
+      if (allocated === wanted.quantity) {
+        remaining.delete(key);
+      } else {
+        remaining.set(key, { ...wanted, quantity: wanted.quantity - allocated });
+      }
+    }
+  }
+
+  return {
+    allocations,
+    unfulfilled: Array.from(remaining.values()),
+  };
+}
+
+/**
+ * Split requested items across warehouse stock using the given strategy.
+ * Items that cannot be fully covered are returned as unfulfilled.
+ */
+export function allocateStock(
+  strategy: AllocationStrategy,
+  items: AllocationItem[],
+  locations: StockLocation[],
+  destination?: ShippingAddress
+): AllocationResult {
+  switch (strategy) {
+    case 'nearest':
+      return allocateNearest(items, locations, destination);
+    case 'fewest_splits':
+      return allocateFewestSplits(items, locations, destination);
+  }
+}
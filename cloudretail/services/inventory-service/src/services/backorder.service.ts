@@ -0,0 +1,291 @@
+import { Transaction } from 'sequelize';
+import { Backorder, BackorderPolicy } from '../config/database';
+import { BackorderMode } from '../models/BackorderPolicy.model';
+import { Backorder as BackorderInstance, BackorderStatus } from '../models/Backorder.model';
+import {
+  NotFoundError,
+  ValidationError,
+  logger,
+} from '@cloudretail/middleware';
+import { EventPublisher } from '../events/event-publisher';
+import sequelize from '../config/database';
+import { Allocation, AllocationItem, ShippingAddress, stockKey, stockRef } from './allocation';
+import { InventoryService } from './inventory.service';
+
+/**
+ * Backorder Service
+ * Takes orders for products short of stock into a first come, first served
+ * queue and reserves stock for them as it arrives
+ */
+export class BackorderService {
+  private eventPublisher: EventPublisher;
+  private inventoryService: InventoryService;
+
+  // InventoryService passes itself in, since it allocates backorders as stock arrives
+  constructor(inventoryService?: InventoryService) {
+    this.eventPublisher = new EventPublisher();
+    this.inventoryService = inventoryService || new InventoryService();
+  }
+
+  /**
+   * Get the backorder policy of a product
+   */
+  async getPolicy(productId: string) {
+    const policy = await BackorderPolicy.findOne({ where: { productId } });
+
+    if (!policy) {
+      throw new NotFoundError('Backorder policy');
+    }
+
+    return policy.toJSON();
+  }
+
+  /**
+   * Let a product be backordered or pre-ordered
+   */
+  async setPolicy(
+    productId: string,
+    policy: { mode: BackorderMode; expectedRestockDate?: Date | null }
+  ) {
+    if (policy.mode === 'preorder' && !policy.expectedRestockDate) {
+      throw new ValidationError('Pre-orders require an expected restock date');
+    }
+
+    const [saved] = await BackorderPolicy.upsert({
+      productId,
+      mode: policy.mode,
+      expectedRestockDate: policy.expectedRestockDate || null,
+    });
+
+    logger.info('Backorder policy set', { productId, mode: policy.mode });
+
+    return saved.toJSON();
+  }
+
+  /**
+   * Stop taking backorders for a product. Orders already queued keep their place.
+   */
+  async removePolicy(productId: string) {
+    const removed = await BackorderPolicy.destroy({ where: { productId } });
+
+    if (removed === 0) {
+      throw new NotFoundError('Backorder policy');
+    }
+
+    logger.info('Backorder policy removed', { productId });
+
+    return { message: 'Backorder policy removed' };
+  }
+
+  /**
+   * Queue an order that cannot be filled from stock until it can.
+   * Every item is queued, since the order's stock is reserved all at once.
+   * Queueing the same order again returns its existing backorders.
+   */
+  async queueOrder(
+    orderId: string,
+    items: AllocationItem[],
+    options: { shippingAddress?: ShippingAddress } = {}
+  ) {
+    const verification = await this.inventoryService.verifyInventory(items);
+
+    if (!verification.available && !verification.backorderable) {
+      throw new ValidationError(verification.reason || 'One or more items cannot be backordered');
+    }
+
+    const lines = new Map<string, AllocationItem>();
+    for (const item of items) {
+      const key = stockKey(item);
+      lines.set(key, { ...stockRef(item), quantity: (lines.get(key)?.quantity || 0) + item.quantity });
+    }
+
+    const transaction = await sequelize.transaction();
+    let backorders: BackorderInstance[];
+
+    try {
+      const existing = await Backorder.findAll({
+        where: { orderId },
+        order: [['productId', 'ASC']],
+        transaction,
+      });
+
+      if (existing.length > 0) {
+        await transaction.commit();
+        return { orderId, backorders: existing.map((backorder) => backorder.toJSON()) };
+      }
+
+      backorders = [];
+      for (const line of lines.values()) {
+        backorders.push(await Backorder.create(
+          { orderId, ...line, shippingAddress: options.shippingAddress || null },
+          { transaction }
+        ));
+      }
+
+      await this.eventPublisher.publishEvent({
+        type: 'inventory.backordered',
+        payload: {
+          orderId,
+          items: verification.items,
+        },
+      }, transaction);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error queueing backorder', { error });
+      throw error;
+    }
+
+    logger.info('Order backordered', { orderId, products: backorders.length });
+
+    // Stock may have arrived since the order was checked
+    if (verification.available) {
+      await this.allocateBackorders(Array.from(new Set(items.map((item) => item.productId))));
+    }
+
+    return { orderId, backorders: backorders.map((backorder) => backorder.toJSON()) };
+  }
+
+  /**
+   * Reserve stock for orders waiting on the given products, oldest first.
+   * Once an order cannot be filled, later orders are not allocated the
+   * products or variants it is waiting for, so no order is overtaken.
+   * Returns the number of orders allocated.
+   */
+  async allocateBackorders(productIds: string[]): Promise<number> {
+    const waiting = await Backorder.findAll({
+      where: { productId: productIds, status: 'waiting' },
+      order: [['createdAt', 'ASC'], ['id', 'ASC']],
+    });
+
+    const orderIds = Array.from(new Set(waiting.map((backorder) => backorder.orderId)));
+    const blocked = new Set<string>();
+    let allocated = 0;
+
+    for (const orderId of orderIds) {
+      const lines = await Backorder.findAll({
+        where: { orderId, status: 'waiting' },
+        order: [['productId', 'ASC']],
+      });
+
+      if (lines.length === 0) continue;
+
+      if (lines.some((line) => blocked.has(stockKey(line)))) {
+        lines.forEach((line) => blocked.add(stockKey(line)));
+        continue;
+      }
+
+      try {
+        const reservation = await this.inventoryService.reserveInventory(
+          orderId,
+          lines.map((line) => ({ ...stockRef(line), quantity: line.quantity })),
+          { shippingAddress: lines[0].shippingAddress || undefined }
+        );
+
+        if (await this.completeAllocation(orderId, reservation)) {
+          allocated++;
+        }
+      } catch (error) {
+        lines.forEach((line) => blocked.add(stockKey(line)));
+
+        if (!(error instanceof ValidationError)) {
+          logger.error('Error allocating backorder', { orderId, error });
+        }
+      }
+    }
+
+    if (allocated > 0) {
+      logger.info('Backorders allocated', { productIds, orders: allocated });
+    }
+
+    return allocated;
+  }
+
+  /**
+   * Take an order whose stock was reserved out of the queue.
+   * If the order was cancelled meanwhile, the reservation is released instead.
+   */
+  private async completeAllocation(
+    orderId: string,
+    reservation: { allocations: Allocation[]; expiresAt?: Date | null }
+  ): Promise<boolean> {
+    const transaction = await sequelize.transaction();
+    let cancelled = false;
+
+    try {
+      const lines = await Backorder.findAll({
+        where: { orderId },
+        lock: Transaction.LOCK.UPDATE,
+        transaction,
+      });
+      const waiting = lines.filter((line) => line.status === 'waiting');
+
+      if (waiting.length === 0) {
+        await transaction.commit();
+        cancelled = lines.every((line) => line.status === 'cancelled');
+      } else {
+        await Backorder.update(
+          { status: 'allocated' },
+          { where: { id: waiting.map((line) => line.id) }, transaction }
+        );
+
+        await this.eventPublisher.publishEvent({
+          type: 'inventory.backorder_allocated',
+          payload: {
+            orderId,
+            allocations: reservation.allocations,
+            expiresAt: reservation.expiresAt,
+          },
+        }, transaction);
+
+        await transaction.commit();
+        return true;
+      }
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error completing backorder allocation', { error });
+      throw error;
+    }
+
+    if (cancelled) {
+      await this.inventoryService.releaseInventory(orderId);
+    }
+
+    return false;
+  }
+
+  /**
+   * Get queued backorders in the order they will be allocated
+   */
+  async getBackorders(filters: {
+    productId?: string;
+    status?: BackorderStatus;
+    limit?: number;
+    offset?: number;
+  } = {}) {
+    const where: any = {};
+
+    if (filters.productId) {
+      where.productId = filters.productId;
+    }
+
+    if (filters.status) {
+      where.status = filters.status;
+    }
+
+    const { rows, count } = await Backorder.findAndCountAll({
+      where,
+      order: [['createdAt', 'ASC'], ['id', 'ASC']],
+      limit: filters.limit || 50,
+      offset: filters.offset || 0,
+    });
+
+    return {
+      backorders: rows.map((backorder) => backorder.toJSON()),
+      total: count,
+      limit: filters.limit || 50,
+      offset: filters.offset || 0,
+    };
+  }
+}
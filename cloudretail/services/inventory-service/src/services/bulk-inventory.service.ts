@@ -0,0 +1,440 @@
+import { Op } from 'sequelize';
+import Joi from 'joi';
+import { Inventory, Warehouse } from '../config/database';
+import {
+  JwtPayload,
+  NotFoundError,
+  ValidationError,
+  auditOwnership,
+  checkOwnership,
+  logger,
+} from '@cloudretail/middleware';
+import sequelize from '../config/database';
+import { StockRef, stockKey } from './allocation';
+import { InventoryService, MovementContext } from './inventory.service';
+import { ProductOwnerService } from './product-owner.service';
+import { StockFileFormat, parseStockFile, toCsvRow } from './stock-file';
+
+const EXPORT_PAGE_SIZE = 500;
+const PRODUCT_LOOKUP_CONCURRENCY = 10;
+
+// Extra columns are ignored, so an export can be edited and imported again
+const importRowSchema = Joi.object({
+  productId: Joi.string().uuid(),
+  variantId: Joi.string().uuid().optional(),
+  sku: Joi.string().max(100),
+  warehouseId: Joi.string().uuid(),
+  warehouseCode: Joi.string().max(32),
+  quantity: Joi.number().integer().min(0).required(),
+  reason: Joi.string().max(255).optional(),
+})
+  .or('productId', 'sku')
+  .or('warehouseId', 'warehouseCode')
+  .unknown(true);
+
+const EXPORT_COLUMNS = [
+  'productId',
+  'variantId',
+  'warehouseId',
+  'warehouseCode',
+  'quantity',
+  'reservedQuantity',
+  'availableQuantity',
+  'reorderPoint',
+  'reorderQuantity',
+  'leadTimeDays',
+  'updatedAt',
+];
+
+export interface ImportRowResult {
+  line: number;
+  status: 'created' | 'updated' | 'unchanged' | 'error';
+  productId?: string;
+  variantId?: string;
+  warehouseId?: string;
+  quantity?: number;
+  previousQuantity?: number;
+  error?: string;
+}
+
+interface ImportRow {
+  line: number;
+  productId?: string;
+  variantId?: string;
+  sku?: string;
+  warehouseId?: string;
+  warehouseCode?: string;
+  quantity: number;
+  reason?: string;
+}
+
+/**
+ * Bulk Inventory Service
+ * Sets stock levels from CSV or JSON lines files and exports them as CSV
+ */
+export class BulkInventoryService {
+  private inventoryService: InventoryService;
+  private productOwnerService: ProductOwnerService;
+  private productServiceUrl: string;
+  private batchSize: number;
+
+  constructor() {
+    this.inventoryService = new InventoryService();
+    this.productOwnerService = new ProductOwnerService();
+    this.productServiceUrl = process.env.PRODUCT_SERVICE_URL || 'http://localhost:3002';
+    this.batchSize = parseInt(process.env.INVENTORY_IMPORT_BATCH_SIZE || '100');
+  }
+
+  /**
+   * Look up the product, or product variant, with a SKU in the product service
+   * Returns null if nothing has the SKU
+   */
+  private async lookupSku(sku: string): Promise<StockRef | null> {
+    const response = await fetch(`${this.productServiceUrl}/api/products/sku/${encodeURIComponent(sku)}`);
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Product service responded with ${response.status}`);
+    }
+
+    const result: any = await response.json();
+    return { productId: result.data.id, variantId: result.data.variant?.id };
+  }
+
+  /**
+   * Fill in product and variant IDs for rows given by SKU, failing rows
+   * whose SKU is unknown
+   */
+  private async resolveProducts(rows: ImportRow[], results: ImportRowResult[]): Promise<ImportRow[]> {
+    const skus = Array.from(new Set(rows.filter((row) => !row.productId).map((row) => row.sku!)));
+    const products = new Map<string, StockRef | null | Error>();
+
+    for (let i = 0; i < skus.length; i += PRODUCT_LOOKUP_CONCURRENCY) {
+      await Promise.all(
+        skus.slice(i, i + PRODUCT_LOOKUP_CONCURRENCY).map(async (sku) => {
+          try {
+            products.set(sku, await this.lookupSku(sku));
+          } catch (error) {
+            logger.error('Error looking up SKU', { sku, error });
+            products.set(sku, error as Error);
+          }
+        })
+      );
+    }
+
+    return rows.filter((row) => {
+      if (row.productId) return true;
+
+      const product = products.get(row.sku!);
+      if (product && !(product instanceof Error)) {
+        row.productId = product.productId;
+        row.variantId = row.variantId || product.variantId || undefined;
+        return true;
+      }
+
+      results.push({
+        line: row.line,
+        status: 'error',
+        error: product instanceof Error ? `Could not look up SKU ${row.sku}` : `Unknown SKU ${row.sku}`,
+      });
+      return false;
+    });
+  }
+
+  /**
+   * Fail rows for products the user does not own. Admins may import stock
+   * for any product.
+   */
+  private async checkOwners(
+    rows: ImportRow[],
+    results: ImportRowResult[],
+    user: JwtPayload
+  ): Promise<ImportRow[]> {
+    if (checkOwnership(user, null) === 'bypass') {
+      auditOwnership({ resource: 'product', action: 'inventory import', decision: 'bypass', user, ownerId: null });
+      return rows;
+    }
+
+    const productIds = Array.from(new Set(rows.map((row) => row.productId!)));
+    const owners = new Map<string, string | null | Error>();
+
+    for (let i = 0; i < productIds.length; i += PRODUCT_LOOKUP_CONCURRENCY) {
+      await Promise.all(
+        productIds.slice(i, i + PRODUCT_LOOKUP_CONCURRENCY).map(async (productId) => {
+          try {
+            owners.set(productId, await this.productOwnerService.getProductOwner(productId));
+          } catch (error) {
+            owners.set(productId, error instanceof NotFoundError ? null : (error as Error));
+          }
+        })
+      );
+    }
+
+    const allowed = new Set<string>();
+    for (const [productId, owner] of owners) {
+      if (owner instanceof Error) continue;
+
+      const decision = checkOwnership(user, owner);
+      auditOwnership({
+        resource: 'product',
+        resourceId: productId,
+        action: 'inventory import',
+        decision,
+        user,
+        ownerId: owner,
+      });
+
+      if (decision !== 'denied') {
+        allowed.add(productId);
+      }
+    }
+
+    return rows.filter((row) => {
+      if (allowed.has(row.productId!)) return true;
+
+      const owner = owners.get(row.productId!);
+      let error = `Product ${row.productId} belongs to another vendor`;
+      if (owner instanceof Error) {
+        error = `Could not look up product ${row.productId}`;
+      } else if (owner === null) {
+        error = `Unknown product ${row.productId}`;
+      }
+
+      results.push({
+        line: row.line,
+        status: 'error',
+        productId: row.productId,
+        variantId: row.variantId,
+        warehouseId: row.warehouseId,
+        error,
+      });
+      return false;
+    });
+  }
+
+  /**
+   * Fill in warehouse IDs for rows given by code, failing rows whose warehouse is unknown
+   */
+  private async resolveWarehouses(rows: ImportRow[], results: ImportRowResult[]): Promise<ImportRow[]> {
+    const ids = Array.from(new Set(rows.filter((row) => row.warehouseId).map((row) => row.warehouseId!)));
+    const codes = Array.from(new Set(rows.filter((row) => !row.warehouseId).map((row) => row.warehouseCode!)));
+
+    const warehouses = rows.length > 0
+      ? await Warehouse.findAll({ where: { [Op.or]: [{ id: ids }, { code: codes }] } })
+      : [];
+    const knownIds = new Set(warehouses.map((warehouse) => warehouse.id));
+    const idsByCode = new Map(warehouses.map((warehouse) => [warehouse.code, warehouse.id]));
+
+    return rows.filter((row) => {
+      const warehouseId = row.warehouseId || idsByCode.get(row.warehouseCode!);
+
+      if (warehouseId && knownIds.has(warehouseId)) {
+        row.warehouseId = warehouseId;
+        return true;
+      }
+
+      results.push({
+        line: row.line,
+        status: 'error',
+        error: `Unknown warehouse ${row.warehouseId || row.warehouseCode}`,
+      });
+      return false;
+    });
+  }
+
+  /**
+   * Apply one batch of rows in a single transaction
+   * Rows rejected by validation fail alone; any other error fails the batch
+   */
+  private async applyBatch(rows: ImportRow[], context: MovementContext): Promise<ImportRowResult[]> {
+    const results: ImportRowResult[] = [];
+    const transaction = await sequelize.transaction();
+
+    try {
+      for (const row of rows) {
+        const target = {
+          productId: row.productId,
+          variantId: row.variantId,
+          warehouseId: row.warehouseId,
+          quantity: row.quantity,
+        };
+
+        try {
+          const { status, previousQuantity } = await this.inventoryService.setStockLevel(
+            { productId: row.productId!, variantId: row.variantId },
+            row.warehouseId!,
+            row.quantity,
+            { actor: context.actor, reason: row.reason || context.reason },
+            transaction
+          );
+
+          results.push({ line: row.line, status, ...target, previousQuantity });
+        } catch (error) {
+          if (!(error instanceof ValidationError)) throw error;
+
+          results.push({ line: row.line, status: 'error', ...target, error: error.message });
+        }
+      }
+
+      await transaction.commit();
+
+      return results;
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error applying inventory import batch', { error });
+
+      return rows.map((row) => ({
+        line: row.line,
+        status: 'error' as const,
+        productId: row.productId,
+        variantId: row.variantId,
+        warehouseId: row.warehouseId,
+        quantity: row.quantity,
+        error: 'Batch failed and was rolled back',
+      }));
+    }
+  }
+
+  /**
+   * Set stock levels from an import file, reporting the outcome of every row
+   * Valid rows are applied in batches of INVENTORY_IMPORT_BATCH_SIZE, each in
+   * its own transaction. When a user is given, rows for products they do
+   * not own fail.
+   */
+  async importStock(
+    content: string,
+    format: StockFileFormat,
+    context: MovementContext = {},
+    user?: JwtPayload
+  ) {
+    const parsed = parseStockFile(content, format);
+
+    if (parsed.records.length === 0 && parsed.errors.length === 0) {
+      throw new ValidationError('Import file has no rows');
+    }
+
+    const results: ImportRowResult[] = parsed.errors.map(({ line, error }) => ({
+      line,
+      status: 'error' as const,
+      error,
+    }));
+
+    let rows: ImportRow[] = [];
+    for (const record of parsed.records) {
+      const { error, value } = importRowSchema.validate(record.fields);
+
+      if (error) {
+        results.push({ line: record.line, status: 'error', error: error.details[0].message });
+      } else {
+        rows.push({ ...value, line: record.line });
+      }
+    }
+
+    rows = await this.resolveWarehouses(rows, results);
+    rows = await this.resolveProducts(rows, results);
+    if (user) {
+      rows = await this.checkOwners(rows, results, user);
+    }
+
+    // A product or variant may appear once per warehouse in a file
+    const firstLines = new Map<string, number>();
+    rows = rows.filter((row) => {
+      const key = `${stockKey({ productId: row.productId!, variantId: row.variantId })}:${row.warehouseId}`;
+      const firstLine = firstLines.get(key);
+
+      if (firstLine !== undefined) {
+        results.push({
+          line: row.line,
+          status: 'error',
+          productId: row.productId,
+          variantId: row.variantId,
+          warehouseId: row.warehouseId,
+          error: `Duplicate of line ${firstLine}`,
+        });
+        return false;
+      }
+
+      firstLines.set(key, row.line);
+      return true;
+    });
+
+    for (let i = 0; i < rows.length; i += this.batchSize) {
+      results.push(...(await this.applyBatch(rows.slice(i, i + this.batchSize), context)));
+    }
+
+    results.sort((a, b) => a.line - b.line);
+
+    const count = (status: ImportRowResult['status']) =>
+      results.filter((result) => result.status === status).length;
+
+    const report = {
+      total: results.length,
+      created: count('created'),
+      updated: count('updated'),
+      unchanged: count('unchanged'),
+      failed: count('error'),
+      results,
+    };
+
+    logger.info('Inventory import finished', { ...report, results: undefined });
+
+    return report;
+  }
+
+  /**
+   * Stream current stock levels as CSV, a page of records per chunk
+   */
+  async *exportStockCsv(filters: { warehouseId?: string } = {}): AsyncGenerator<string> {
+    const warehouses = await Warehouse.findAll();
+    const codesById = new Map(warehouses.map((warehouse) => [warehouse.id, warehouse.code]));
+
+    yield toCsvRow(EXPORT_COLUMNS);
+
+    let lastId: string | undefined;
+
+    while (true) {
+      const where: any = {};
+
+      if (filters.warehouseId) {
+        where.warehouseId = filters.warehouseId;
+      }
+
+      if (lastId) {
+        where.id = { [Op.gt]: lastId };
+      }
+
+      const records = await Inventory.findAll({
+        where,
+        order: [['id', 'ASC']],
+        limit: EXPORT_PAGE_SIZE,
+      });
+
+      if (records.length === 0) return;
+
+      yield records
+        .map((record) =>
+          toCsvRow([
+            record.productId,
+            record.variantId,
+            record.warehouseId,
+            codesById.get(record.warehouseId),
+            record.quantity,
+            record.reservedQuantity,
+            record.getAvailableQuantity(),
+            record.reorderPoint,
+            record.reorderQuantity,
+            record.leadTimeDays,
+            record.updatedAt,
+          ])
+        )
+        .join('');
+
+      if (records.length < EXPORT_PAGE_SIZE) return;
+
+      lastId = records[records.length - 1].id;
+    }
+  }
+}
@@ -0,0 +1,393 @@
+import { Transaction } from 'sequelize';
+import { CycleCount, CycleCountLine, Inventory, Warehouse } from '../config/database';
+import {
+  CycleCount as CycleCountInstance,
+  CycleCountStatus,
+} from '../models/CycleCount.model';
+import { CycleCountLine as CycleCountLineInstance } from '../models/CycleCountLine.model';
+import {
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+  logger,
+} from '@cloudretail/middleware';
+import sequelize from '../config/database';
+import { InventoryService } from './inventory.service';
+import { ProductOwnerService } from './product-owner.service';
+
+/**
+ * Cycle Count Service
+ * Counts stock records in sessions: counted quantities are compared with
+ * the system quantity, and approving a session posts the variances as
+ * cycle_count corrections
+ */
+export class CycleCountService {
+  private inventoryService: InventoryService;
+  private productOwnerService: ProductOwnerService;
+
+  constructor() {
+    this.inventoryService = new InventoryService();
+    this.productOwnerService = new ProductOwnerService();
+  }
+
+  /**
+   * A count with its lines, each line's variance and the count's totals
+   */
+  private toView(count: CycleCountInstance, lines: CycleCountLineInstance[]) {
+    const variances = lines.map((line) => line.getVariance());
+    const counted = variances.filter((variance): variance is number => variance !== null);
+
+    return {
+      ...count.toJSON(),
+      lines: lines.map((line, index) => ({ ...line.toJSON(), variance: variances[index] })),
+      summary: {
+        lines: lines.length,
+        counted: counted.length,
+        withVariance: counted.filter((variance) => variance !== 0).length,
+        unitsOver: counted.filter((variance) => variance > 0).reduce((total, variance) => total + variance, 0),
+        unitsShort: counted.filter((variance) => variance < 0).reduce((total, variance) => total - variance, 0),
+      },
+    };
+  }
+
+  /**
+   * Find a count, locking it within a transaction
+   */
+  private async findCount(countId: string, transaction?: Transaction): Promise<CycleCountInstance> {
+    const count = await CycleCount.findByPk(
+      countId,
+      transaction ? { lock: Transaction.LOCK.UPDATE, transaction } : undefined
+    );
+
+    if (!count) {
+      throw new NotFoundError('Cycle count');
+    }
+
+    return count;
+  }
+
+  private async findLines(countId: string, transaction?: Transaction): Promise<CycleCountLineInstance[]> {
+    return CycleCountLine.findAll({
+      where: { cycleCountId: countId },
+      order: [['warehouseId', 'ASC'], ['productId', 'ASC']],
+      transaction,
+    });
+  }
+
+  private assertOpen(count: CycleCountInstance): void {
+    if (count.status !== 'open') {
+      throw new ConflictError(`Cycle count is already ${count.status}`);
+    }
+  }
+
+  /**
+   * Open a count of the stock records at a warehouse, of a set of products,
+   * or of a set of products at a warehouse
+   */
+  async openCount(
+    scope: { warehouseId?: string; productIds?: string[]; notes?: string },
+    openedBy: string
+  ) {
+    if (!scope.warehouseId && !scope.productIds?.length) {
+      throw new ValidationError('A cycle count needs a warehouse or products to count');
+    }
+
+    if (scope.warehouseId && !(await Warehouse.findByPk(scope.warehouseId))) {
+      throw new NotFoundError('Warehouse');
+    }
+
+    const where: any = {};
+
+    if (scope.warehouseId) {
+      where.warehouseId = scope.warehouseId;
+    }
+
+    if (scope.productIds?.length) {
+      where.productId = scope.productIds;
+    }
+
+    const transaction = await sequelize.transaction();
+
+    try {
+      const records = await Inventory.findAll({
+        where,
+        order: [['warehouseId', 'ASC'], ['productId', 'ASC']],
+        transaction,
+      });
+
+      if (records.length === 0) {
+        throw new ValidationError('No stock records to count');
+      }
+
+      // A record counted in two sessions at once would be corrected twice
+      const pending = await CycleCountLine.findAll({
+        where: { inventoryId: records.map((record) => record.id) },
+        transaction,
+      });
+      if (pending.length > 0) {
+        const openCounts = await CycleCount.count({
+          where: {
+            id: Array.from(new Set(pending.map((line) => line.cycleCountId))),
+            status: 'open',
+          },
+          transaction,
+        });
+
+        if (openCounts > 0) {
+          throw new ConflictError('Some of these stock records are already being counted');
+        }
+      }
+
+      const count = await CycleCount.create(
+        {
+          warehouseId: scope.warehouseId || null,
+          productIds: scope.productIds?.length ? scope.productIds : null,
+          openedBy,
+          notes: scope.notes || null,
+        },
+        { transaction }
+      );
+
+      const lines = await CycleCountLine.bulkCreate(
+        records.map((record) => ({
+          cycleCountId: count.id,
+          inventoryId: record.id,
+          productId: record.productId,
+          variantId: record.variantId,
+          warehouseId: record.warehouseId,
+          systemQuantity: record.quantity,
+        })),
+        { transaction }
+      );
+
+      await transaction.commit();
+
+      logger.info('Cycle count opened', { cycleCountId: count.id, lines: lines.length });
+
+      return this.toView(count, lines);
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error opening cycle count', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the vendor that owns every product in a count. Resolves null when
+   * the count does not exist or covers several vendors' products.
+   */
+  async getCountOwner(countId: string): Promise<string | null> {
+    const count = await CycleCount.findByPk(countId);
+
+    if (!count) {
+      return null;
+    }
+
+    const lines = await this.findLines(countId);
+    if (lines.length === 0) {
+      return null;
+    }
+
+    return this.productOwnerService.getCommonOwner(lines.map((line) => line.productId));
+  }
+
+  /**
+   * Get a count with its variances
+   */
+  async getCount(countId: string) {
+    const count = await this.findCount(countId);
+    const lines = await this.findLines(countId);
+
+    return this.toView(count, lines);
+  }
+
+  /**
+   * Get counts, newest first
+   */
+  async getCounts(filters: {
+    warehouseId?: string;
+    status?: CycleCountStatus;
+    openedBy?: string;
+    limit?: number;
+    offset?: number;
+  } = {}) {
+    const where: any = {};
+
+    if (filters.warehouseId) {
+      where.warehouseId = filters.warehouseId;
+    }
+
+    if (filters.status) {
+      where.status = filters.status;
+    }
+
+    if (filters.openedBy) {
+      where.openedBy = filters.openedBy;
+    }
+
+    const { rows, count } = await CycleCount.findAndCountAll({
+      where,
+      order: [['createdAt', 'DESC']],
+      limit: filters.limit || 50,
+      offset: filters.offset || 0,
+    });
+
+    return {
+      cycleCounts: rows.map((cycleCount) => cycleCount.toJSON()),
+      total: count,
+      limit: filters.limit || 50,
+      offset: filters.offset || 0,
+    };
+  }
+
+  /**
+   * Record counted quantities. Counting a record again replaces its count.
+   * A product sold in variants is counted per variant.
+   * The system quantity is taken as the count is recorded, so the variance
+   * reflects the stock on the shelf at that moment.
+   */
+  async submitCounts(
+    countId: string,
+    counts: Array<{ productId: string; variantId?: string; warehouseId?: string; countedQuantity: number }>,
+    countedBy: string
+  ) {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const count = await this.findCount(countId, transaction);
+      this.assertOpen(count);
+
+      const lines = await this.findLines(countId, transaction);
+      const countedLines = new Map<string, { line: CycleCountLineInstance; countedQuantity: number }>();
+
+      for (const { productId, variantId, warehouseId, countedQuantity } of counts) {
+        const matches = lines.filter(
+          (line) =>
+            line.productId === productId &&
+            (!variantId || line.variantId === variantId) &&
+            (!warehouseId || line.warehouseId === warehouseId)
+        );
+
+        if (matches.length === 0) {
+          throw new ValidationError(`Product ${productId} is not part of this cycle count`);
+        }
+
+        if (matches.length > 1) {
+          throw new ValidationError(
+            matches.some((match) => match.variantId !== matches[0].variantId)
+              ? `Product ${productId} is counted in several variants; give the variantId`
+              : `Product ${productId} is counted at several warehouses; give the warehouseId`
+          );
+        }
+
+        countedLines.set(matches[0].id, { line: matches[0], countedQuantity });
+      }
+
+      const records = await Inventory.findAll({
+        where: { id: Array.from(countedLines.values()).map(({ line }) => line.inventoryId) },
+        transaction,
+      });
+      const quantities = new Map(records.map((record) => [record.id, record.quantity]));
+
+      for (const { line, countedQuantity } of countedLines.values()) {
+        await line.update(
+          {
+            systemQuantity: quantities.get(line.inventoryId) ?? line.systemQuantity,
+            countedQuantity,
+            countedBy,
+            countedAt: new Date(),
+          },
+          { transaction }
+        );
+      }
+
+      await transaction.commit();
+
+      logger.info('Cycle counts recorded', { cycleCountId: countId, lines: countedLines.size });
+
+      return this.toView(count, lines);
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error recording cycle counts', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Approve a fully counted session, posting every variance as a
+   * cycle_count correction in one transaction
+   */
+  async approveCount(countId: string, approvedBy: string) {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const count = await this.findCount(countId, transaction);
+      this.assertOpen(count);
+
+      const lines = await this.findLines(countId, transaction);
+      const uncounted = lines.filter((line) => line.getVariance() === null);
+
+      if (uncounted.length > 0) {
+        throw new ValidationError(`${uncounted.length} stock records have not been counted`);
+      }
+
+      for (const line of lines) {
+        const variance = line.getVariance()!;
+        if (variance === 0) continue;
+
+        await this.inventoryService.correctStockCount(
+          line.inventoryId,
+          variance,
+          { actor: approvedBy, reason: `Cycle count ${countId}` },
+          transaction
+        );
+      }
+
+      await count.update(
+        { status: 'approved', closedBy: approvedBy, closedAt: new Date() },
+        { transaction }
+      );
+
+      await transaction.commit();
+
+      const view = this.toView(count, lines);
+
+      logger.info('Cycle count approved', { cycleCountId: countId, ...view.summary });
+
+      return view;
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error approving cycle count', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a session without changing stock
+   */
+  async cancelCount(countId: string, cancelledBy: string) {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const count = await this.findCount(countId, transaction);
+      this.assertOpen(count);
+
+      await count.update(
+        { status: 'cancelled', closedBy: cancelledBy, closedAt: new Date() },
+        { transaction }
+      );
+
+      const lines = await this.findLines(countId, transaction);
+
+      await transaction.commit();
+
+      logger.info('Cycle count cancelled', { cycleCountId: countId });
+
+      return this.toView(count, lines);
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error cancelling cycle count', { error });
+      throw error;
+    }
+  }
+}
@@ -1,38 +1,407 @@
-import { Inventory } from '../config/database';
+import { Op, Transaction, WhereOptions, literal } from 'sequelize';
+import { Backorder, BackorderPolicy, Inventory, Reservation, StockMovement, Warehouse } from '../config/database';
+import { BackorderMode } from '../models/BackorderPolicy.model';
+import { Inventory as InventoryInstance } from '../models/Inventory.model';
+import { Reservation as ReservationInstance } from '../models/Reservation.model';
+import { StockMovementType } from '../models/StockMovement.model';
+import { Warehouse as WarehouseInstance } from '../models/Warehouse.model';
 import {
   NotFoundError,
   ConflictError,
   ValidationError,
   logger,
+  PageParams,
+  PaginationConfig,
+  parsePageParams,
+  pageQuery,
+  pageResult,
 } from '@cloudretail/middleware';
 import { EventPublisher } from '../events/event-publisher';
+import { ReplenishmentService } from './replenishment.service';
+import { BackorderService } from './backorder.service';
 import sequelize from '../config/database';
+import {
+  ALLOCATION_STRATEGIES,
+  Allocation,
+  AllocationItem,
+  AllocationStrategy,
+  ShippingAddress,
+  StockLocation,
+  StockRef,
+  allocateStock,
+  describeStock,
+  stockKey,
+  stockRef,
+} from './allocation';
+
+// Who made a stock change and why, recorded on its ledger entry
+export interface MovementContext {
+  actor?: string;
+  reason?: string;
+}
+
+// Availability of one requested item, with the terms it can be backordered on if short
+export interface ItemAvailability extends StockRef {
+  requestedQuantity: number;
+  availableQuantity: number;
+  backorder?: { mode: BackorderMode; expectedRestockDate?: Date | null };
+}
+
+// Sorts offered by inventory lists
+export const INVENTORY_PAGINATION: PaginationConfig = {
+  sortFields: ['createdAt', 'updatedAt', 'quantity', 'reservedQuantity'],
+};
 
-const LOW_STOCK_THRESHOLD = 10;
+// The movement ledger is only read in the order it was written
+export const STOCK_MOVEMENT_PAGINATION: PaginationConfig = {
+  sortFields: ['createdAt'],
+};
+
+const toAllocation = (reservation: ReservationInstance): Allocation => ({
+  ...stockRef(reservation),
+  warehouseId: reservation.warehouseId,
+  quantity: reservation.quantity,
+});
+
+// Matches the stock records of exactly one product without variants, or one variant
+const stockWhere = (ref: StockRef) => ({ productId: ref.productId, variantId: ref.variantId || null });
 
 export class InventoryService {
   private eventPublisher: EventPublisher;
+  private replenishmentService: ReplenishmentService;
+  private backorderService: BackorderService;
+  private defaultStrategy: AllocationStrategy;
+  private reservationTtlMinutes: number;
 
   constructor() {
     this.eventPublisher = new EventPublisher();
+    this.replenishmentService = new ReplenishmentService();
+    this.backorderService = new BackorderService(this);
+    this.reservationTtlMinutes = parseInt(process.env.INVENTORY_RESERVATION_TTL_MINUTES || '30');
+
+    const strategy = (process.env.INVENTORY_ALLOCATION_STRATEGY || 'nearest') as AllocationStrategy;
+    if (!ALLOCATION_STRATEGIES.includes(strategy)) {
+      throw new Error(`Unknown inventory allocation strategy '${strategy}'`);
+    }
+    this.defaultStrategy = strategy;
+  }
+
+  /**
+   * Find a warehouse by ID or code
+   */
+  private async resolveWarehouse(
+    reference: { warehouseId?: string; warehouseCode?: string },
+    transaction?: Transaction
+  ): Promise<WarehouseInstance> {
+    const warehouse = reference.warehouseId
+      ? await Warehouse.findByPk(reference.warehouseId, { transaction })
+      : await Warehouse.findOne({ where: { code: reference.warehouseCode }, transaction });
+
+    if (!warehouse) {
+      throw new NotFoundError('Warehouse');
+    }
+
+    return warehouse;
+  }
+
+  /**
+   * Lock stock records for update, always in ID order, so concurrent
+   * transactions touching the same products queue instead of deadlocking
+   */
+  private async lockInventory(
+    where: WhereOptions,
+    transaction: Transaction
+  ): Promise<InventoryInstance[]> {
+    return Inventory.findAll({
+      where,
+      order: [['id', 'ASC']],
+      lock: Transaction.LOCK.UPDATE,
+      transaction,
+    });
+  }
+
+  /**
+   * Load stock of the given products held at active warehouses.
+   * Within a transaction the stock records are locked until it ends.
+   */
+  private async loadStockLocations(
+    productIds: string[],
+    transaction?: Transaction
+  ): Promise<{ locations: StockLocation[]; records: Map<string, InventoryInstance> }> {
+    const where = { productId: productIds };
+    const inventory = transaction
+      ? await this.lockInventory(where, transaction)
+      : await Inventory.findAll({ where });
+
+    const warehouses = await Warehouse.findAll({
+      where: {
+        id: Array.from(new Set(inventory.map((record) => record.warehouseId))),
+        isActive: true,
+      },
+      transaction,
+    });
+    const warehousesById = new Map(warehouses.map((warehouse) => [warehouse.id, warehouse]));
+
+    const locations: StockLocation[] = [];
+    const records = new Map<string, InventoryInstance>();
+
+    for (const record of inventory) {
+      const warehouse = warehousesById.get(record.warehouseId);
+      if (!warehouse) continue;
+
+      records.set(`${stockKey(record)}:${record.warehouseId}`, record);
+      locations.push({
+        ...stockRef(record),
+        warehouseId: record.warehouseId,
+        available: record.getAvailableQuantity(),
+        priority: warehouse.priority,
+        address: warehouse.address,
+      });
+    }
+
+    return { locations, records };
   }
 
   /**
-   * Create inventory record for a product
+   * Lock the active reservations of an order, optionally only expired ones
+   */
+  private async findActiveReservations(
+    orderId: string,
+    transaction: Transaction,
+    options: { expiredOnly?: boolean } = {}
+  ): Promise<ReservationInstance[]> {
+    const where: any = { orderId, status: 'active' };
+
+    if (options.expiredOnly) {
+      where.expiresAt = { [Op.lte]: new Date() };
+    }
+
+    return Reservation.findAll({
+      where,
+      order: [['id', 'ASC']],
+      lock: Transaction.LOCK.UPDATE,
+      transaction,
+    });
+  }
+
+  /**
+   * Lock the stock records held by reservations, keyed by "stockKey:warehouseId"
+   */
+  private async lockReservedInventory(
+    reservations: ReservationInstance[],
+    transaction: Transaction
+  ): Promise<Map<string, InventoryInstance>> {
+    const records = await this.lockInventory(
+      {
+        [Op.or]: reservations.map((reservation) => ({
+          ...stockWhere(reservation),
+          warehouseId: reservation.warehouseId,
+        })),
+      },
+      transaction
+    );
+
+    const inventoryByLocation = new Map(
+      records.map((record) => [`${stockKey(record)}:${record.warehouseId}`, record])
+    );
+
+    for (const reservation of reservations) {
+      if (!inventoryByLocation.has(`${stockKey(reservation)}:${reservation.warehouseId}`)) {
+        throw new NotFoundError(`Inventory for ${describeStock(reservation)}`);
+      }
+    }
+
+    return inventoryByLocation;
+  }
+
+  /**
+   * Append a stock movement for a change just applied to a stock record
+   */
+  private async recordMovement(
+    inventory: InventoryInstance,
+    movement: {
+      type: StockMovementType;
+      quantityChange?: number;
+      reservedChange?: number;
+      orderId?: string;
+    } & MovementContext,
+    transaction: Transaction
+  ): Promise<void> {
+    await StockMovement.create(
+      {
+        inventoryId: inventory.id,
+        productId: inventory.productId,
+        variantId: inventory.variantId,
+        warehouseId: inventory.warehouseId,
+        type: movement.type,
+        quantityChange: movement.quantityChange || 0,
+        reservedChange: movement.reservedChange || 0,
+        orderId: movement.orderId,
+        actor: movement.actor || 'system',
+        reason: movement.reason,
+      },
+      { transaction }
+    );
+  }
+
+  /**
+   * Publish a low stock alert when a stock record is at or below its reorder
+   * point, and suggest a reorder when a change has just taken it there
+   */
+  private async checkStockLevels(
+    inventory: InventoryInstance,
+    previousAvailable: number,
+    transaction: Transaction
+  ): Promise<void> {
+    const availableQuantity = inventory.getAvailableQuantity();
+
+    if (availableQuantity <= inventory.reorderPoint && availableQuantity > 0) {
+      await this.eventPublisher.publishEvent({
+        type: 'inventory.low_stock',
+        payload: {
+          inventoryId: inventory.id,
+          productId: inventory.productId,
+          variantId: inventory.variantId,
+          warehouseId: inventory.warehouseId,
+          availableQuantity,
+          threshold: inventory.reorderPoint,
+        },
+      }, transaction);
+    }
+
+    if (previousAvailable > inventory.reorderPoint && availableQuantity <= inventory.reorderPoint) {
+      await this.replenishmentService.suggestReorder(inventory, transaction);
+    }
+  }
+
+  /**
+   * Create a stock record, recording its opening stock as a receipt
+   */
+  private async insertStockRecord(
+    data: {
+      productId: string;
+      variantId?: string | null;
+      warehouseId: string;
+      quantity: number;
+      reorderPoint?: number;
+      reorderQuantity?: number;
+      leadTimeDays?: number;
+    },
+    context: MovementContext,
+    transaction: Transaction
+  ): Promise<InventoryInstance> {
+    const inventory = await Inventory.create({ ...data, reservedQuantity: 0 }, { transaction });
+
+    await this.recordMovement(inventory, {
+      type: 'receipt',
+      quantityChange: inventory.quantity,
+      actor: context.actor,
+      reason: context.reason || 'Initial stock',
+    }, transaction);
+
+    // Publish inventory created event
+    await this.eventPublisher.publishEvent({
+      type: 'inventory.created',
+      payload: {
+        inventoryId: inventory.id,
+        productId: inventory.productId,
+        variantId: inventory.variantId,
+        warehouseId: inventory.warehouseId,
+        quantity: inventory.quantity,
+      },
+    }, transaction);
+
+    return inventory;
+  }
+
+  /**
+   * Set the quantity of a locked stock record as an adjustment, or as the
+   * correction of a cycle count
+   * Returns the quantity it replaced
+   */
+  private async adjustQuantity(
+    inventory: InventoryInstance,
+    quantity: number,
+    context: MovementContext,
+    transaction: Transaction,
+    type: 'adjustment' | 'cycle_count' = 'adjustment'
+  ): Promise<number> {
+    if (quantity < inventory.reservedQuantity) {
+      throw new ValidationError(
+        'Quantity cannot be less than reserved quantity'
+      );
+    }
+
+    const oldQuantity = inventory.quantity;
+    const previousAvailable = inventory.getAvailableQuantity();
+
+    await inventory.update({ quantity }, { transaction });
+
+    await this.recordMovement(inventory, {
+      type,
+      quantityChange: quantity - oldQuantity,
+      ...context,
+    }, transaction);
+
+    // Publish inventory updated event
+    await this.eventPublisher.publishEvent({
+      type: 'inventory.updated',
+      payload: {
+        inventoryId: inventory.id,
+        productId: inventory.productId,
+        variantId: inventory.variantId,
+        warehouseId: inventory.warehouseId,
+        oldQuantity,
+        newQuantity: quantity,
+        availableQuantity: inventory.getAvailableQuantity(),
+        reason: type,
+      },
+    }, transaction);
+
+    await this.checkStockLevels(inventory, previousAvailable, transaction);
+
+    return oldQuantity;
+  }
+
+  /**
+   * Offer stock that has just become available to orders waiting on it.
+   * Failures are only logged: the stock event published with the change
+   * retries the allocation.
+   */
+  private async allocateBackorders(productIds: string[]): Promise<void> {
+    try {
+      await this.backorderService.allocateBackorders(productIds);
+    } catch (error) {
+      logger.error('Error allocating backorders', { error, productIds });
+    }
+  }
+
+  /**
+   * Create inventory record for a product, or one of its variants, at a warehouse
    */
   async createInventory(inventoryData: {
     productId: string;
+    variantId?: string;
     quantity: number;
-    warehouseLocation: string;
-  }) {
+    warehouseId?: string;
+    warehouseCode?: string;
+    reorderPoint?: number;
+    reorderQuantity?: number;
+    leadTimeDays?: number;
+  }, context: MovementContext = {}) {
+    const transaction = await sequelize.transaction();
+
     try {
-      // Check if inventory already exists for this product
+      const warehouse = await this.resolveWarehouse(inventoryData, transaction);
+
+      // Check if inventory already exists for this product or variant at this warehouse
       const existingInventory = await Inventory.findOne({
-        where: { productId: inventoryData.productId },
+        where: { ...stockWhere(inventoryData), warehouseId: warehouse.id },
+        transaction,
       });
 
       if (existingInventory) {
-        throw new ConflictError('Inventory already exists for this product');
+        throw new ConflictError('Inventory already exists for this product at this warehouse');
       }
 
       // Validate quantity
@@ -40,45 +409,88 @@ export class InventoryService {
         throw new ValidationError('Quantity must be a non-negative number');
       }
 
-      // Create inventory
-      const inventory = await Inventory.create({
-        ...inventoryData,
-        reservedQuantity: 0,
-      });
-
-      // Publish inventory created event
-      await this.eventPublisher.publishEvent({
-        type: 'inventory.created',
-        payload: {
-          inventoryId: inventory.id,
-          productId: inventory.productId,
-          quantity: inventory.quantity,
-          warehouseLocation: inventory.warehouseLocation,
+      const inventory = await this.insertStockRecord(
+        {
+          productId: inventoryData.productId,
+          variantId: inventoryData.variantId,
+          warehouseId: warehouse.id,
+          quantity: inventoryData.quantity,
+          reorderPoint: inventoryData.reorderPoint,
+          reorderQuantity: inventoryData.reorderQuantity,
+          leadTimeDays: inventoryData.leadTimeDays,
         },
-      });
+        context,
+        transaction
+      );
+
+      await transaction.commit();
 
       logger.info('Inventory created successfully', { inventoryId: inventory.id });
 
+      if (inventory.quantity > 0) {
+        await this.allocateBackorders([inventory.productId]);
+      }
+
       return inventory.toJSON();
     } catch (error) {
+      await transaction.rollback();
       logger.error('Error creating inventory', { error });
       throw error;
     }
   }
 
   /**
-   * Get inventory by product ID
+   * Get stock of a product, totalled across warehouses and per warehouse,
+   * and for a product sold in variants, totalled per variant
    */
   async getInventoryByProductId(productId: string) {
-    const inventory = await Inventory.findOne({ where: { productId } });
+    const records = await Inventory.findAll({
+      where: { productId },
+      order: [['createdAt', 'ASC']],
+    });
 
-    if (!inventory) {
+    if (records.length === 0) {
       throw new NotFoundError('Inventory');
     }
 
+    const warehouses = await Warehouse.findAll({
+      where: { id: records.map((record) => record.warehouseId) },
+    });
+    const warehousesById = new Map(warehouses.map((warehouse) => [warehouse.id, warehouse]));
+
+    const locations = records.map((record) => {
+      const warehouse = warehousesById.get(record.warehouseId);
+
+      return {
+        ...record.toJSON(),
+        availableQuantity: record.getAvailableQuantity(),
+        warehouse: warehouse
+          ? { id: warehouse.id, code: warehouse.code, name: warehouse.name, isActive: warehouse.isActive }
+          : null,
+      };
+    });
+
+    const totals = (subset: InventoryInstance[]) => ({
+      quantity: subset.reduce((total, record) => total + record.quantity, 0),
+      reservedQuantity: subset.reduce((total, record) => total + record.reservedQuantity, 0),
+      availableQuantity: subset.reduce((total, record) => total + record.getAvailableQuantity(), 0),
+    });
+    const variantIds = Array.from(
+      new Set(records.filter((record) => record.variantId).map((record) => record.variantId!))
+    );
+
     return {
-      ...inventory.toJSON(),
-      availableQuantity: inventory.getAvailableQuantity(),
+      productId,
+      ...totals(records),
+      warehouses: locations,
+      ...(variantIds.length > 0
+        ? {
+            variants: variantIds.map((variantId) => ({
+              variantId,
+              ...totals(records.filter((record) => record.variantId === variantId)),
+            })),
+          }
+        : {}),
     };
   }
 
@@ -99,59 +511,199 @@ export class InventoryService {
   }
 
   /**
-   * Update inventory quantity
+   * Update inventory quantity of a product or variant at a warehouse
    */
-  async updateInventoryQuantity(productId: string, quantity: number) {
-    const inventory = await Inventory.findOne({ where: { productId } });
+  async updateInventoryQuantity(
+    stock: StockRef,
+    warehouseId: string,
+    quantity: number,
+    context: MovementContext = {}
+  ) {
+    if (quantity < 0) {
+      throw new ValidationError('Quantity must be a non-negative number');
+    }
 
-    if (!inventory) {
-      throw new NotFoundError('Inventory');
+    const transaction = await sequelize.transaction();
+    let inventory: InventoryInstance;
+    let oldQuantity: number;
+
+    try {
+      // Lock the record so the reserved quantity cannot change underneath the check
+      [inventory] = await this.lockInventory({ ...stockWhere(stock), warehouseId }, transaction);
+
+      if (!inventory) {
+        throw new NotFoundError('Inventory');
+      }
+
+      oldQuantity = await this.adjustQuantity(inventory, quantity, context, transaction);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error updating inventory quantity', { error });
+      throw error;
+    }
+
+    logger.info('Inventory quantity updated', {
+      ...stockRef(stock),
+      warehouseId,
+      oldQuantity,
+      newQuantity: quantity,
+    });
+
+    if (quantity > oldQuantity) {
+      await this.allocateBackorders([inventory.productId]);
     }
 
+    return {
+      ...inventory.toJSON(),
+      availableQuantity: inventory.getAvailableQuantity(),
+    };
+  }
+
+  /**
+   * Set the stock of a product or variant at a warehouse within the
+   * caller's transaction, creating the record if there is none
+   */
+  async setStockLevel(
+    stock: StockRef,
+    warehouseId: string,
+    quantity: number,
+    context: MovementContext,
+    transaction: Transaction
+  ): Promise<{ status: 'created' | 'updated' | 'unchanged'; inventory: InventoryInstance; previousQuantity?: number }> {
     if (quantity < 0) {
       throw new ValidationError('Quantity must be a non-negative number');
     }
 
+    const [existing] = await this.lockInventory({ ...stockWhere(stock), warehouseId }, transaction);
+
+    if (!existing) {
+      const inventory = await this.insertStockRecord(
+        { ...stockRef(stock), warehouseId, quantity },
+        context,
+        transaction
+      );
+      return { status: 'created', inventory };
+    }
+
+    if (existing.quantity === quantity) {
+      return { status: 'unchanged', inventory: existing, previousQuantity: quantity };
+    }
+
+    const previousQuantity = await this.adjustQuantity(existing, quantity, context, transaction);
+    return { status: 'updated', inventory: existing, previousQuantity };
+  }
+
+  /**
+   * Correct the stock of a record by the variance a cycle count found,
+   * within the caller's transaction. The variance is applied to the current
+   * quantity, so stock that moved after the count is kept.
+   */
+  async correctStockCount(
+    inventoryId: string,
+    variance: number,
+    context: MovementContext,
+    transaction: Transaction
+  ): Promise<{ inventory: InventoryInstance; previousQuantity: number }> {
+    const [inventory] = await this.lockInventory({ id: inventoryId }, transaction);
+
+    if (!inventory) {
+      throw new NotFoundError('Inventory');
+    }
+
+    const quantity = inventory.quantity + variance;
+
+    // Reserved units are promised to orders, so they must be released before stock can drop below them
     if (quantity < inventory.reservedQuantity) {
       throw new ValidationError(
-        'Quantity cannot be less than reserved quantity'
+        `Counted stock of ${describeStock(inventory)} at warehouse ${inventory.warehouseId} is below its ${inventory.reservedQuantity} reserved units`
       );
     }
 
-    const oldQuantity = inventory.quantity;
-    await inventory.update({ quantity });
+    const previousQuantity = await this.adjustQuantity(inventory, quantity, context, transaction, 'cycle_count');
 
-    // Publish inventory updated event
-    await this.eventPublisher.publishEvent({
-      type: 'inventory.updated',
-      payload: {
-        inventoryId: inventory.id,
-        productId: inventory.productId,
-        oldQuantity,
-        newQuantity: quantity,
-        availableQuantity: inventory.getAvailableQuantity(),
-      },
-    });
+    return { inventory, previousQuantity };
+  }
+
+  /**
+   * Update the reorder settings of a product or variant at a warehouse
+   */
+  async updateReorderSettings(
+    stock: StockRef,
+    warehouseId: string,
+    settings: { reorderPoint?: number; reorderQuantity?: number; leadTimeDays?: number }
+  ) {
+    const inventory = await Inventory.findOne({ where: { ...stockWhere(stock), warehouseId } });
+
+    if (!inventory) {
+      throw new NotFoundError('Inventory');
+    }
+
+    await inventory.update(settings);
+
+    logger.info('Inventory reorder settings updated', { inventoryId: inventory.id, ...settings });
+
+    return {
+      ...inventory.toJSON(),
+      availableQuantity: inventory.getAvailableQuantity(),
+    };
+  }
+
+  /**
+   * Add stock to a product or variant at a warehouse, from a supplier or a
+   * customer return
+   */
+  async receiveStock(
+    stock: StockRef,
+    warehouseId: string,
+    quantity: number,
+    options: { type?: 'receipt' | 'return' } & MovementContext = {}
+  ) {
+    if (quantity <= 0) {
+      throw new ValidationError('Quantity must be a positive number');
+    }
+
+    const { type = 'receipt', ...context } = options;
+    const transaction = await sequelize.transaction();
+    let inventory: InventoryInstance;
+
+    try {
+      [inventory] = await this.lockInventory({ ...stockWhere(stock), warehouseId }, transaction);
+
+      if (!inventory) {
+        throw new NotFoundError('Inventory');
+      }
+
+      const oldQuantity = inventory.quantity;
+
+      await inventory.update({ quantity: oldQuantity + quantity }, { transaction });
+
+      await this.recordMovement(inventory, { type, quantityChange: quantity, ...context }, transaction);
 
-    // Check for low stock
-    const availableQuantity = inventory.getAvailableQuantity();
-    if (availableQuantity <= LOW_STOCK_THRESHOLD && availableQuantity > 0) {
       await this.eventPublisher.publishEvent({
-        type: 'inventory.low_stock',
+        type: 'inventory.updated',
         payload: {
           inventoryId: inventory.id,
           productId: inventory.productId,
-          availableQuantity,
-          threshold: LOW_STOCK_THRESHOLD,
+          variantId: inventory.variantId,
+          warehouseId: inventory.warehouseId,
+          oldQuantity,
+          newQuantity: inventory.quantity,
+          availableQuantity: inventory.getAvailableQuantity(),
         },
-      });
+      }, transaction);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error receiving stock', { error });
+      throw error;
     }
 
-    logger.info('Inventory quantity updated', {
-      productId,
-      oldQuantity,
-      newQuantity: quantity,
-    });
+    logger.info('Stock received', { ...stockRef(stock), warehouseId, type, quantity });
+
+    await this.allocateBackorders([inventory.productId]);
 
     return {
       ...inventory.toJSON(),
@@ -160,29 +712,132 @@ export class InventoryService {
   }
 
   /**
-   * Verify inventory availability for items
+   * Get a page of the stock movements of a product, or one of its variants,
+   * newest first
    */
-  async verifyInventory(items: Array<{ productId: string; quantity: number }>) {
+  async getStockMovements(
+    productId: string,
+    filters: {
+      variantId?: string;
+      warehouseId?: string;
+      type?: StockMovementType;
+      from?: Date;
+      to?: Date;
+    } = {},
+    params: PageParams = {}
+  ) {
+    const page = parsePageParams(params, STOCK_MOVEMENT_PAGINATION);
+    const where: any = { productId };
+
+    if (filters.variantId) {
+      where.variantId = filters.variantId;
+    }
+
+    if (filters.warehouseId) {
+      where.warehouseId = filters.warehouseId;
+    }
+
+    if (filters.type) {
+      where.type = filters.type;
+    }
+
+    if (filters.from || filters.to) {
+      where.createdAt = {
+        ...(filters.from ? { [Op.gte]: filters.from } : {}),
+        ...(filters.to ? { [Op.lte]: filters.to } : {}),
+      };
+    }
+
+    const movements = await StockMovement.findAll(pageQuery(page, where));
+    const { rows, pagination } = pageResult(movements, page);
+
+    return {
+      movements: rows.map((movement) => movement.toJSON()),
+      pagination,
+    };
+  }
+
+  /**
+   * Rebuild a stock record's quantities from its movements and compare them
+   * with the stored ones
+   */
+  async reconcileInventory(inventoryId: string) {
+    const inventory = await Inventory.findByPk(inventoryId);
+
+    if (!inventory) {
+      throw new NotFoundError('Inventory');
+    }
+
+    const [quantity, reservedQuantity] = await Promise.all([
+      StockMovement.sum('quantityChange', { where: { inventoryId } }),
+      StockMovement.sum('reservedChange', { where: { inventoryId } }),
+    ]);
+
+    const ledger = {
+      quantity: quantity || 0,
+      reservedQuantity: reservedQuantity || 0,
+    };
+
+    return {
+      inventoryId,
+      quantity: inventory.quantity,
+      reservedQuantity: inventory.reservedQuantity,
+      ledger,
+      consistent:
+        ledger.quantity === inventory.quantity && ledger.reservedQuantity === inventory.reservedQuantity,
+    };
+  }
+
+  /**
+   * Verify inventory availability for items across all active warehouses.
+   * Items of products sold in variants name the variant they are for.
+   * When stock is short the order is backorderable if every short product
+   * has a backorder policy.
+   */
+  async verifyInventory(items: AllocationItem[]) {
     try {
-      for (const item of items) {
-        const inventory = await Inventory.findOne({
-          where: { productId: item.productId },
-        });
+      const productIds = items.map((item) => item.productId);
+      const { locations } = await this.loadStockLocations(productIds);
+      const policies = await BackorderPolicy.findAll({ where: { productId: productIds } });
+      const policyByProduct = new Map(policies.map((policy) => [policy.productId, policy]));
+
+      let reason: string | undefined;
+      let backorderable = true;
 
-        if (!inventory) {
-          return { available: false, reason: `Product ${item.productId} not found in inventory` };
+      const availability = items.map((item): ItemAvailability => {
+        const productLocations = locations.filter((location) => stockKey(location) === stockKey(item));
+        const availableQuantity = productLocations.reduce((total, location) => total + location.available, 0);
+        const line: ItemAvailability = {
+          ...stockRef(item),
+          requestedQuantity: item.quantity,
+          availableQuantity,
+        };
+
+        if (availableQuantity >= item.quantity) {
+          return line;
         }
 
-        const availableQuantity = inventory.getAvailableQuantity();
-        if (availableQuantity < item.quantity) {
-          return {
-            available: false,
-            reason: `Insufficient stock for product ${item.productId}. Available: ${availableQuantity}, Requested: ${item.quantity}`,
-          };
+        reason = reason || (productLocations.length === 0
+          ? `Stock of ${describeStock(item)} not found in inventory`
+          : `Insufficient stock for ${describeStock(item)}. Available: ${availableQuantity}, Requested: ${item.quantity}`);
+
+        const policy = policyByProduct.get(item.productId);
+        if (!policy) {
+          backorderable = false;
+          return line;
         }
+
+        return {
+          ...line,
+          backorder: { mode: policy.mode, expectedRestockDate: policy.expectedRestockDate },
+        };
+      });
+
+      if (!reason) {
+        return { available: true, backorderable: false, items: availability };
       }
 
-      return { available: true };
+      return { available: false, reason, backorderable, items: availability };
     } catch (error) {
       logger.error('Error verifying inventory', { error });
       throw error;
@@ -190,65 +845,108 @@ export class InventoryService {
   }
 
   /**
-   * Reserve inventory for order
+   * Reserve inventory for order, allocating items across warehouses.
+   * The hold expires after INVENTORY_RESERVATION_TTL_MINUTES unless the
+   * order is confirmed first.
    */
-  async reserveInventory(orderId: string, items: Array<{ productId: string; quantity: number }>) {
+  async reserveInventory(
+    orderId: string,
+    items: AllocationItem[],
+    options: { shippingAddress?: ShippingAddress; strategy?: AllocationStrategy } = {}
+  ) {
+    const strategy = options.strategy || this.defaultStrategy;
     const transaction = await sequelize.transaction();
 
     try {
-      // First verify availability
-      const verification = await this.verifyInventory(items);
-      if (!verification.available) {
-        throw new ValidationError(verification.reason || 'Inventory not available');
+      // Locks the stock rows, so concurrent reservations of these products wait here
+      const { locations, records } = await this.loadStockLocations(
+        items.map((item) => item.productId),
+        transaction
+      );
+
+      // A retried reservation for the same order returns the existing hold.
+      // Checked after locking so a concurrent retry sees the first one's rows.
+      const existing = await Reservation.findAll({
+        where: { orderId, status: 'active' },
+        transaction,
+      });
+      if (existing.length > 0) {
+        await transaction.commit();
+
+        return {
+          success: true,
+          message: 'Inventory already reserved',
+          allocations: existing.map(toAllocation),
+          expiresAt: existing[0].expiresAt,
+        };
       }
 
-      // Reserve inventory for each item
-      for (const item of items) {
-        const inventory = await Inventory.findOne({
-          where: { productId: item.productId },
-          transaction,
-        });
+      const { allocations, unfulfilled } = allocateStock(strategy, items, locations, options.shippingAddress);
 
-        if (!inventory) {
-          throw new NotFoundError(`Inventory for product ${item.productId}`);
-        }
+      if (unfulfilled.length > 0) {
+        const [short] = unfulfilled;
+        const requested = items
+          .filter((item) => stockKey(item) === stockKey(short))
+          .reduce((total, item) => total + item.quantity, 0);
+
+        throw new ValidationError(
+          `Insufficient stock for ${describeStock(short)}. Available: ${requested - short.quantity}, Requested: ${requested}`
+        );
+      }
+
+      const expiresAt = new Date(Date.now() + this.reservationTtlMinutes * 60 * 1000);
+
+      // Reserve stock at each allocated warehouse
+      for (const allocation of allocations) {
+        const inventory = records.get(`${stockKey(allocation)}:${allocation.warehouseId}`)!;
+        const previousAvailable = inventory.getAvailableQuantity();
 
         await inventory.update(
           {
-            reservedQuantity: inventory.reservedQuantity + item.quantity,
+            reservedQuantity: inventory.reservedQuantity + allocation.quantity,
+          },
+          { transaction }
+        );
+
+        await Reservation.create(
+          {
+            orderId,
+            productId: allocation.productId,
+            variantId: allocation.variantId,
+            warehouseId: allocation.warehouseId,
+            quantity: allocation.quantity,
+            expiresAt,
           },
           { transaction }
         );
 
+        await this.recordMovement(inventory, {
+          type: 'reservation',
+          reservedChange: allocation.quantity,
+          orderId,
+        }, transaction);
+
         // Check for low stock after reservation
-        const availableQuantity = inventory.getAvailableQuantity();
-        if (availableQuantity <= LOW_STOCK_THRESHOLD && availableQuantity > 0) {
-          await this.eventPublisher.publishEvent({
-            type: 'inventory.low_stock',
-            payload: {
-              inventoryId: inventory.id,
-              productId: inventory.productId,
-              availableQuantity,
-              threshold: LOW_STOCK_THRESHOLD,
-            },
-          });
-        }
+        await this.checkStockLevels(inventory, previousAvailable, transaction);
       }
 
-      await transaction.commit();
-
       // Publish inventory reserved event
       await this.eventPublisher.publishEvent({
         type: 'inventory.reserved',
         payload: {
           orderId,
           items,
+          allocations,
+          strategy,
+          expiresAt,
         },
-      });
+      }, transaction);
 
-      logger.info('Inventory reserved successfully', { orderId });
+      await transaction.commit();
 
-      return { success: true, message: 'Inventory reserved successfully' };
+      logger.info('Inventory reserved successfully', { orderId, strategy, allocations: allocations.length });
+
+      return { success: true, message: 'Inventory reserved successfully', allocations, expiresAt };
     } catch (error) {
       await transaction.rollback();
       logger.error('Error reserving inventory', { error });
@@ -257,43 +955,89 @@ export class InventoryService {
   }
 
   /**
-   * Release reserved inventory (e.g., when order is cancelled)
+   * Keep an order's reservations until it ships or is cancelled
    */
-  async releaseInventory(orderId: string, items: Array<{ productId: string; quantity: number }>) {
+  async holdReservations(orderId: string): Promise<number> {
+    const [held] = await Reservation.update(
+      { expiresAt: null },
+      { where: { orderId, status: 'active' } }
+    );
+
+    if (held > 0) {
+      logger.info('Inventory reservations held until fulfilment', { orderId, reservations: held });
+    }
+
+    return held;
+  }
+
+  /**
+   * Release the stock an order has reserved (e.g., when order is cancelled)
+   * and take it out of the backorder queue.
+   * With expiredOnly, only reservations past their expiry are released.
+   */
+  async releaseInventory(orderId: string, options: { expiredOnly?: boolean } = {}) {
     const transaction = await sequelize.transaction();
 
     try {
-      for (const item of items) {
-        const inventory = await Inventory.findOne({
-          where: { productId: item.productId },
-          transaction,
-        });
-
-        if (!inventory) {
-          throw new NotFoundError(`Inventory for product ${item.productId}`);
+      const [cancelledBackorders] = options.expiredOnly
+        ? [0]
+        : await Backorder.update(
+            { status: 'cancelled' },
+            { where: { orderId, status: 'waiting' }, transaction }
+          );
+
+      const reservations = await this.findActiveReservations(orderId, transaction, options);
+
+      if (reservations.length === 0) {
+        await transaction.commit();
+
+        if (cancelledBackorders > 0) {
+          logger.info('Backorders cancelled', { orderId, backorders: cancelledBackorders });
+          return { success: true, message: 'Backorders cancelled' };
         }
 
-        const newReservedQuantity = Math.max(0, inventory.reservedQuantity - item.quantity);
-        await inventory.update(
-          {
-            reservedQuantity: newReservedQuantity,
-          },
+        return { success: true, message: 'No active reservations for order' };
+      }
+
+      const inventoryByLocation = await this.lockReservedInventory(reservations, transaction);
+
+      for (const reservation of reservations) {
+        const inventory = inventoryByLocation.get(`${stockKey(reservation)}:${reservation.warehouseId}`)!;
+        const reservedQuantity = Math.max(0, inventory.reservedQuantity - reservation.quantity);
+        const reservedChange = reservedQuantity - inventory.reservedQuantity;
+
+        await inventory.update({ reservedQuantity }, { transaction });
+
+        await reservation.update(
+          { status: options.expiredOnly ? 'expired' : 'released' },
           { transaction }
         );
-      }
 
-      await transaction.commit();
+        await this.recordMovement(inventory, {
+          type: 'release',
+          reservedChange,
+          orderId,
+          ...(options.expiredOnly
+            ? { actor: 'reservation-sweeper', reason: 'Reservation expired' }
+            : {}),
+        }, transaction);
+      }
 
       // Publish inventory released event
       await this.eventPublisher.publishEvent({
         type: 'inventory.released',
         payload: {
           orderId,
-          items,
+          items: reservations.map(toAllocation),
+          expired: Boolean(options.expiredOnly),
         },
-      });
+      }, transaction);
+
+      await transaction.commit();
+
+      logger.info('Inventory released successfully', { orderId, expired: Boolean(options.expiredOnly) });
 
-      logger.info('Inventory released successfully', { orderId });
+      await this.allocateBackorders(Array.from(new Set(reservations.map((reservation) => reservation.productId))));
 
       return { success: true, message: 'Inventory released successfully' };
     } catch (error) {
@@ -303,31 +1047,74 @@ export class InventoryService {
     }
   }
 
+  /**
+   * Release reservations whose hold has expired, one order at a time
+   * Returns the number of orders whose stock was released
+   */
+  async releaseExpiredReservations(limit: number = 100): Promise<number> {
+    const expired = await Reservation.findAll({
+      where: {
+        status: 'active',
+        expiresAt: { [Op.lte]: new Date() },
+      },
+      order: [['expiresAt', 'ASC']],
+      limit,
+    });
+
+    const orderIds = Array.from(new Set(expired.map((reservation) => reservation.orderId)));
+    let released = 0;
+
+    for (const orderId of orderIds) {
+      try {
+        await this.releaseInventory(orderId, { expiredOnly: true });
+        released++;
+      } catch (error) {
+        logger.error('Error releasing expired reservations', { orderId, error });
+      }
+    }
+
+    return released;
+  }
+
   /**
    * Confirm inventory usage (e.g., when order is shipped)
    */
-  async confirmInventoryUsage(orderId: string, items: Array<{ productId: string; quantity: number }>) {
+  async confirmInventoryUsage(orderId: string) {
     const transaction = await sequelize.transaction();
 
     try {
-      for (const item of items) {
-        const inventory = await Inventory.findOne({
-          where: { productId: item.productId },
-          transaction,
-        });
-
-        if (!inventory) {
-          throw new NotFoundError(`Inventory for product ${item.productId}`);
-        }
+      const reservations = await this.findActiveReservations(orderId, transaction);
+
+      if (reservations.length === 0) {
+        await transaction.commit();
+        logger.warn('No active reservations to confirm for order', { orderId });
+        return { success: true, message: 'No active reservations for order' };
+      }
+
+      const inventoryByLocation = await this.lockReservedInventory(reservations, transaction);
+
+      for (const reservation of reservations) {
+        const inventory = inventoryByLocation.get(`${stockKey(reservation)}:${reservation.warehouseId}`)!;
+        const reservedQuantity = Math.max(0, inventory.reservedQuantity - reservation.quantity);
+        const reservedChange = reservedQuantity - inventory.reservedQuantity;
 
         await inventory.update(
           {
-            quantity: inventory.quantity - item.quantity,
-            reservedQuantity: Math.max(0, inventory.reservedQuantity - item.quantity),
+            quantity: inventory.quantity - reservation.quantity,
+            reservedQuantity,
           },
           { transaction }
         );
 
+        await reservation.update({ status: 'confirmed' }, { transaction });
+
+        await this.recordMovement(inventory, {
+          type: 'shipment',
+          quantityChange: -reservation.quantity,
+          reservedChange,
+          orderId,
+        }, transaction);
+
         // Check for out of stock
         if (inventory.quantity === 0) {
           await this.eventPublisher.publishEvent({
@@ -335,8 +1122,10 @@ export class InventoryService {
             payload: {
               inventoryId: inventory.id,
               productId: inventory.productId,
+              variantId: inventory.variantId,
+              warehouseId: inventory.warehouseId,
             },
-          });
+          }, transaction);
         }
       }
 
@@ -353,42 +1142,49 @@ export class InventoryService {
   }
 
   /**
-   * Get all inventory records
+   * Get the reservations made for an order
    */
-  async getAllInventory(filters?: {
-    warehouseLocation?: string;
-    lowStock?: boolean;
-    limit?: number;
-    offset?: number;
-  }) {
+  async getReservationsByOrder(orderId: string) {
+    const reservations = await Reservation.findAll({
+      where: { orderId },
+      order: [['createdAt', 'ASC']],
+    });
+
+    return reservations.map((reservation) => reservation.toJSON());
+  }
+
+  /**
+   * Get a page of inventory records
+   */
+  async getAllInventory(
+    filters: { warehouseId?: string; productId?: string; lowStock?: boolean } = {},
+    params: PageParams = {}
+  ) {
+    const page = parsePageParams(params, INVENTORY_PAGINATION);
     const where: any = {};
 
-    if (filters?.warehouseLocation) {
-      where.warehouseLocation = filters.warehouseLocation;
+    if (filters.warehouseId) {
+      where.warehouseId = filters.warehouseId;
     }
 
-    const inventory = await Inventory.findAndCountAll({
-      where,
-      limit: filters?.limit || 100,
-      offset: filters?.offset || 0,
-      order: [['createdAt', 'DESC']],
-    });
-
-    let results = inventory.rows.map((inv) => ({
-      ...inv.toJSON(),
-      availableQuantity: inv.getAvailableQuantity(),
-    }));
+    if (filters.productId) {
+      where.productId = filters.productId;
+    }
 
-    // Filter by low stock if requested
-    if (filters?.lowStock) {
-      results = results.filter((inv) => inv.availableQuantity <= LOW_STOCK_THRESHOLD);
+    // Filtered in the query so every page holds a full page of records
+    if (filters.lowStock) {
+      where[Op.and] = [literal('"quantity" - "reservedQuantity" <= "reorderPoint"')];
     }
 
+    const inventory = await Inventory.findAll(pageQuery(page, where));
+    const { rows, pagination } = pageResult(inventory, page);
+
     return {
-      inventory: results,
-      total: filters?.lowStock ? results.length : inventory.count,
-      limit: filters?.limit || 100,
-      offset: filters?.offset || 0,
+      inventory: rows.map((inv) => ({
+        ...inv.toJSON(),
+        availableQuantity: inv.getAvailableQuantity(),
+      })),
+      pagination,
     };
   }
 }
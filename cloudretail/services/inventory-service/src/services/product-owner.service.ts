@@ -0,0 +1,64 @@
+import { NotFoundError, ServiceUnavailableError, logger } from '@cloudretail/middleware';
+
+/**
+ * Product Owner Service
+ * Looks up the vendor that owns a product in the product service, so
+ * vendors can be limited to changing their own stock
+ */
+export class ProductOwnerService {
+  private productServiceUrl: string;
+
+  constructor() {
+    this.productServiceUrl = process.env.PRODUCT_SERVICE_URL || 'http://localhost:3002';
+  }
+
+  /**
+   * Get the vendor that owns a product
+   */
+  async getProductOwner(productId: string): Promise<string> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.productServiceUrl}/api/products/${encodeURIComponent(productId)}`);
+    } catch (error) {
+      logger.error('Error looking up product owner', { productId, error });
+      throw new ServiceUnavailableError('Product service is unavailable');
+    }
+
+    if (response.status === 404) {
+      throw new NotFoundError('Product');
+    }
+
+    if (!response.ok) {
+      logger.error('Product service rejected owner lookup', { productId, status: response.status });
+      throw new ServiceUnavailableError('Product service is unavailable');
+    }
+
+    const result: any = await response.json();
+    return result.data.vendorId;
+  }
+
+  /**
+   * Get the vendor that owns every one of the products. Resolves null when
+   * they belong to several vendors or any of them does not exist.
+   */
+  async getCommonOwner(productIds: string[]): Promise<string | null> {
+    let owner: string | null = null;
+
+    for (const productId of new Set(productIds)) {
+      let productOwner: string;
+      try {
+        productOwner = await this.getProductOwner(productId);
+      } catch (error) {
+        if (error instanceof NotFoundError) return null;
+        throw error;
+      }
+
+      if (owner !== null && productOwner !== owner) {
+        return null;
+      }
+      owner = productOwner;
+    }
+
+    return owner;
+  }
+}
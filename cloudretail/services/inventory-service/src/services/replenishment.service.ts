@@ -0,0 +1,169 @@
+import { Op, Transaction, fn, col, literal } from 'sequelize';
+import { Inventory, StockMovement } from '../config/database';
+import { Inventory as InventoryInstance } from '../models/Inventory.model';
+import { logger } from '@cloudretail/middleware';
+import { EventPublisher } from '../events/event-publisher';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReorderSuggestion {
+  inventoryId: string;
+  productId: string;
+  variantId?: string | null;
+  warehouseId: string;
+  availableQuantity: number;
+  reorderPoint: number;
+  leadTimeDays: number;
+  // Units shipped per day over the lookback window
+  averageDailyUsage: number;
+  suggestedQuantity: number;
+  expectedArrival: Date;
+}
+
+export interface PurchaseOrderSuggestion {
+  warehouseId: string;
+  lines: ReorderSuggestion[];
+  totalQuantity: number;
+}
+
+/**
+ * Replenishment Service
+ * Suggests purchase orders for stock records at or below their reorder
+ * point, sized from how fast the stock has been shipping
+ */
+export class ReplenishmentService {
+  private eventPublisher: EventPublisher;
+  private lookbackDays: number;
+
+  constructor() {
+    this.eventPublisher = new EventPublisher();
+    this.lookbackDays = parseInt(process.env.INVENTORY_REPLENISHMENT_LOOKBACK_DAYS || '30');
+  }
+
+  /**
+   * Units shipped from each stock record since the given date
+   */
+  private async getConsumption(
+    inventoryIds: string[],
+    since: Date,
+    transaction?: Transaction
+  ): Promise<Map<string, number>> {
+    const shipped = (await StockMovement.findAll({
+      attributes: ['inventoryId', [fn('SUM', col('quantityChange')), 'quantityChange']],
+      where: {
+        inventoryId: inventoryIds,
+        type: 'shipment',
+        createdAt: { [Op.gte]: since },
+      },
+      group: ['inventoryId'],
+      raw: true,
+      transaction,
+    })) as unknown as Array<{ inventoryId: string; quantityChange: string | number }>;
+
+    // Shipments are recorded as negative quantity changes
+    return new Map(shipped.map((row) => [row.inventoryId, -Number(row.quantityChange)]));
+  }
+
+  /**
+   * Order enough to cover demand over the lead time and end above the
+   * reorder point, or the record's fixed reorder quantity if that is larger
+   */
+  private buildSuggestion(
+    inventory: InventoryInstance,
+    consumed: number,
+    lookbackDays: number
+  ): ReorderSuggestion {
+    const availableQuantity = inventory.getAvailableQuantity();
+    const averageDailyUsage = consumed / lookbackDays;
+    const leadTimeDemand = Math.ceil(averageDailyUsage * inventory.leadTimeDays);
+
+    return {
+      inventoryId: inventory.id,
+      productId: inventory.productId,
+      variantId: inventory.variantId,
+      warehouseId: inventory.warehouseId,
+      availableQuantity,
+      reorderPoint: inventory.reorderPoint,
+      leadTimeDays: inventory.leadTimeDays,
+      averageDailyUsage: Math.round(averageDailyUsage * 100) / 100,
+      suggestedQuantity: Math.max(
+        inventory.reorderQuantity,
+        inventory.reorderPoint + leadTimeDemand - availableQuantity,
+        1
+      ),
+      expectedArrival: new Date(Date.now() + inventory.leadTimeDays * DAY_MS),
+    };
+  }
+
+  /**
+   * Suggest purchase orders, one per warehouse, for every stock record at
+   * or below its reorder point
+   */
+  async getSuggestions(filters: { warehouseId?: string; lookbackDays?: number } = {}) {
+    const lookbackDays = filters.lookbackDays || this.lookbackDays;
+    const where: any = {
+      [Op.and]: [literal('"quantity" - "reservedQuantity" <= "reorderPoint"')],
+    };
+
+    if (filters.warehouseId) {
+      where.warehouseId = filters.warehouseId;
+    }
+
+    const records = await Inventory.findAll({
+      where,
+      order: [['warehouseId', 'ASC'], ['productId', 'ASC']],
+    });
+
+    const consumption = records.length > 0
+      ? await this.getConsumption(
+          records.map((record) => record.id),
+          new Date(Date.now() - lookbackDays * DAY_MS)
+        )
+      : new Map<string, number>();
+
+    const purchaseOrders = new Map<string, PurchaseOrderSuggestion>();
+
+    for (const record of records) {
+      const suggestion = this.buildSuggestion(record, consumption.get(record.id) || 0, lookbackDays);
+      const purchaseOrder = purchaseOrders.get(record.warehouseId) || {
+        warehouseId: record.warehouseId,
+        lines: [],
+        totalQuantity: 0,
+      };
+
+      purchaseOrder.lines.push(suggestion);
+      purchaseOrder.totalQuantity += suggestion.suggestedQuantity;
+      purchaseOrders.set(record.warehouseId, purchaseOrder);
+    }
+
+    return {
+      lookbackDays,
+      purchaseOrders: Array.from(purchaseOrders.values()),
+    };
+  }
+
+  /**
+   * Publish a reorder suggestion for a stock record that has just fallen to
+   * its reorder point
+   */
+  async suggestReorder(inventory: InventoryInstance, transaction: Transaction): Promise<ReorderSuggestion> {
+    const consumption = await this.getConsumption(
+      [inventory.id],
+      new Date(Date.now() - this.lookbackDays * DAY_MS),
+      transaction
+    );
+    const suggestion = this.buildSuggestion(inventory, consumption.get(inventory.id) || 0, this.lookbackDays);
+
+    await this.eventPublisher.publishEvent({
+      type: 'inventory.reorder_suggested',
+      payload: suggestion,
+    }, transaction);
+
+    logger.info('Reorder suggested', {
+      inventoryId: inventory.id,
+      suggestedQuantity: suggestion.suggestedQuantity,
+    });
+
+    return suggestion;
+  }
+}
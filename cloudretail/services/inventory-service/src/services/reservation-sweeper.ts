@@ -0,0 +1,35 @@
+import { logger } from '@cloudretail/middleware';
+import { PeriodicWorker } from '@cloudretail/outbox';
+import sequelize from '../config/database';
+import { InventoryService } from './inventory.service';
+
+/**
+ * Reservation Sweeper
+ * Periodically releases stock held by orders that were never confirmed,
+ * so abandoned checkouts do not keep stock out of sale
+ */
+export class ReservationSweeper extends PeriodicWorker {
+  private inventoryService: InventoryService;
+
+  constructor(options: { intervalMs?: number } = {}) {
+    super(sequelize, {
+      name: 'reservation-sweeper',
+      intervalMs:
+        options.intervalMs || parseInt(process.env.INVENTORY_RESERVATION_SWEEP_INTERVAL_MS || '60000'),
+    });
+    this.inventoryService = new InventoryService();
+  }
+
+  /**
+   * Release every expired reservation
+   */
+  protected async work(): Promise<number> {
+    const released = await this.inventoryService.releaseExpiredReservations();
+
+    if (released > 0) {
+      logger.info(`Released expired reservations for ${released} order(s)`);
+    }
+
+    return released;
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Stock files
+ * Reading and writing the CSV and JSON lines files used to import and
+ * export stock levels in bulk
+ */
+
+export type StockFileFormat = 'csv' | 'jsonl';
+
+/**
+ * One record of an import file, before validation
+ */
+export interface StockFileRecord {
+  // Line of the file the record starts on
+  line: number;
+  fields: Record<string, unknown>;
+}
+
+export interface ParsedStockFile {
+  records: StockFileRecord[];
+  // Lines that could not be read at all
+  errors: Array<{ line: number; error: string }>;
+}
+
+/**
+ * Pick the file format from a request content type
+ */
+export function formatFromContentType(contentType?: string): StockFileFormat | undefined {
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+
+  if (type === 'text/csv') return 'csv';
+  if (type === 'application/x-ndjson' || type === 'application/jsonl') return 'jsonl';
+
+  return undefined;
+}
+
+/**
+ * Split CSV content into rows of fields, honouring quoted fields that
+ * contain commas, escaped quotes or line breaks
+ */
+function readCsvRows(content: string): Array<{ line: number; values: string[] }> {
+  const rows: Array<{ line: number; values: string[] }> = [];
+  let values: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    values.push(field);
+    // Skip blank lines
+    if (values.length > 1 || values[0].trim() !== '') {
+      rows.push({ line: rowLine, values });
+    }
+    values = [];
+    field = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      values.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || values.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+function parseCsv(content: string): ParsedStockFile {
+  const [header, ...rows] = readCsvRows(content.replace(/^\uFEFF/, ''));
+
+  if (!header) {
+    return { records: [], errors: [] };
+  }
+
+  const columns = header.values.map((column) => column.trim());
+  const records: StockFileRecord[] = [];
+  const errors: ParsedStockFile['errors'] = [];
+
+  for (const row of rows) {
+    if (row.values.length !== columns.length) {
+      errors.push({
+        line: row.line,
+        error: `Expected ${columns.length} columns, found ${row.values.length}`,
+      });
+      continue;
+    }
+
+    const fields: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      const value = row.values[index].trim();
+      // Empty cells are treated as missing
+      if (value !== '') fields[column] = value;
+    });
+
+    records.push({ line: row.line, fields });
+  }
+
+  return { records, errors };
+}
+
+function parseJsonLines(content: string): ParsedStockFile {
+  const records: StockFileRecord[] = [];
+  const errors: ParsedStockFile['errors'] = [];
+
+  content.split(/\r?\n/).forEach((text, index) => {
+    const line = index + 1;
+    if (text.trim() === '') return;
+
+    try {
+      const fields = JSON.parse(text);
+
+      if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+        errors.push({ line, error: 'Line must be a JSON object' });
+        return;
+      }
+
+      records.push({ line, fields });
+    } catch {
+      errors.push({ line, error: 'Invalid JSON' });
+    }
+  });
+
+  return { records, errors };
+}
+
+/**
+ * Read the records of an import file
+ */
+export function parseStockFile(content: string, format: StockFileFormat): ParsedStockFile {
+  return format === 'csv' ? parseCsv(content) : parseJsonLines(content);
+}
+
+/**
+ * Format one CSV row, quoting values that need it
+ */
+export function toCsvRow(values: Array<string | number | Date | null | undefined>): string {
+  return (
+    values
+      .map((value) => {
+        if (value === null || value === undefined) return '';
+
+        const text = value instanceof Date ? value.toISOString() : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(',') + '\n'
+  );
+}
@@ -0,0 +1,90 @@
+import { Warehouse } from '../config/database';
+import { WarehouseAddress } from '../models/Warehouse.model';
+import {
+  NotFoundError,
+  ConflictError,
+  logger,
+} from '@cloudretail/middleware';
+
+export class WarehouseService {
+  /**
+   * Create a warehouse
+   */
+  async createWarehouse(warehouseData: {
+    code: string;
+    name: string;
+    address: WarehouseAddress;
+    priority?: number;
+    isActive?: boolean;
+  }) {
+    const existingWarehouse = await Warehouse.findOne({
+      where: { code: warehouseData.code },
+    });
+
+    if (existingWarehouse) {
+      throw new ConflictError('Warehouse code already exists');
+    }
+
+    const warehouse = await Warehouse.create(warehouseData);
+
+    logger.info('Warehouse created successfully', { warehouseId: warehouse.id, code: warehouse.code });
+
+    return warehouse.toJSON();
+  }
+
+  /**
+   * Get warehouse by ID
+   */
+  async getWarehouseById(warehouseId: string) {
+    const warehouse = await Warehouse.findByPk(warehouseId);
+
+    if (!warehouse) {
+      throw new NotFoundError('Warehouse');
+    }
+
+    return warehouse.toJSON();
+  }
+
+  /**
+   * Get all warehouses in allocation priority order
+   */
+  async getAllWarehouses(filters?: { isActive?: boolean }) {
+    const where: any = {};
+
+    if (filters?.isActive !== undefined) {
+      where.isActive = filters.isActive;
+    }
+
+    const warehouses = await Warehouse.findAll({
+      where,
+      order: [['priority', 'ASC'], ['code', 'ASC']],
+    });
+
+    return warehouses.map((warehouse) => warehouse.toJSON());
+  }
+
+  /**
+   * Update a warehouse
+   */
+  async updateWarehouse(
+    warehouseId: string,
+    updates: {
+      name?: string;
+      address?: WarehouseAddress;
+      priority?: number;
+      isActive?: boolean;
+    }
+  ) {
+    const warehouse = await Warehouse.findByPk(warehouseId);
+
+    if (!warehouse) {
+      throw new NotFoundError('Warehouse');
+    }
+
+    await warehouse.update(updates);
+
+    logger.info('Warehouse updated successfully', { warehouseId });
+
+    return warehouse.toJSON();
+  }
+}
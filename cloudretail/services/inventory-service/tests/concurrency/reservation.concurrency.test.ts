@@ -0,0 +1,206 @@
+/**
+ * Concurrency harness for stock reservation
+ * Fires many parallel reservations at the same SKU against a real PostgreSQL
+ * database and checks that stock is never oversold or left half reserved.
+ *
+ * Run with `npm run test:concurrency`. The tables are dropped and recreated,
+ * so DB_NAME must name a disposable database ending in "_test".
+ */
+
+import { randomUUID } from 'crypto';
+import sequelize, { Inventory, Reservation, Warehouse } from '../../src/config/database';
+import { InventoryService } from '../../src/services/inventory.service';
+import { ValidationError } from '@cloudretail/middleware';
+
+jest.mock('@cloudretail/middleware', () => ({
+  ...(jest.requireActual('@cloudretail/middleware') as object),
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const PARALLEL_ORDERS = parseInt(process.env.CONCURRENCY_ORDERS || '50');
+
+describe('Reservation concurrency', () => {
+  let inventoryService: InventoryService;
+
+  const address = { city: 'Singapore', state: 'SG', zipCode: '018956', country: 'SG' };
+
+  const createWarehouse = (code: string, priority: number = 100) =>
+    Warehouse.create({ code: `${code}-${randomUUID().slice(0, 8)}`, name: code, address, priority });
+
+  // Stocked through the service so the opening receipt lands in the ledger
+  const stock = async (productId: string, warehouseId: string, quantity: number) =>
+    inventoryService.createInventory({ productId, warehouseId, quantity });
+
+  /**
+   * Start every reservation before awaiting any of them
+   */
+  const reserveInParallel = (orders: Array<{ orderId: string; items: Array<{ productId: string; quantity: number }> }>) =>
+    Promise.allSettled(orders.map(({ orderId, items }) => inventoryService.reserveInventory(orderId, items)));
+
+  const expectOnlyStockShortages = (results: PromiseSettledResult<unknown>[]) => {
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        expect(result.reason).toBeInstanceOf(ValidationError);
+        expect(result.reason.message).toContain('Insufficient stock');
+      }
+    }
+  };
+
+  const succeeded = (results: PromiseSettledResult<unknown>[]) =>
+    results.filter((result) => result.status === 'fulfilled').length;
+
+  beforeAll(async () => {
+    if (!process.env.DB_NAME?.endsWith('_test')) {
+      throw new Error(`Refusing to run the concurrency harness against '${process.env.DB_NAME}'`);
+    }
+
+    await sequelize.authenticate();
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  beforeEach(() => {
+    inventoryService = new InventoryService();
+  });
+
+  it('should never reserve more of a SKU than is in stock', async () => {
+    // Arrange
+    const productId = randomUUID();
+    const warehouse = await createWarehouse('SINGLE');
+    await stock(productId, warehouse.id, 20);
+
+    const orders = Array.from({ length: PARALLEL_ORDERS }, () => ({
+      orderId: randomUUID(),
+      items: [{ productId, quantity: 1 }],
+    }));
+
+    // Act
+    const results = await reserveInParallel(orders);
+
+    // Assert
+    expectOnlyStockShortages(results);
+    expect(succeeded(results)).toBe(20);
+
+    const inventory = await Inventory.findOne({ where: { productId } });
+    expect(inventory!.reservedQuantity).toBe(20);
+    expect(await Reservation.sum('quantity', { where: { productId, status: 'active' } })).toBe(20);
+    expect((await inventoryService.reconcileInventory(inventory!.id)).consistent).toBe(true);
+  });
+
+  it('should split stock of one SKU across warehouses without overselling either', async () => {
+    // Arrange
+    const productId = randomUUID();
+    const first = await createWarehouse('SPLIT-A', 1);
+    const second = await createWarehouse('SPLIT-B', 2);
+    await stock(productId, first.id, 10);
+    await stock(productId, second.id, 11);
+
+    const orders = Array.from({ length: PARALLEL_ORDERS }, () => ({
+      orderId: randomUUID(),
+      items: [{ productId, quantity: 2 }],
+    }));
+
+    // Act
+    const results = await reserveInParallel(orders);
+
+    // Assert
+    expectOnlyStockShortages(results);
+    expect(succeeded(results)).toBe(10);
+
+    const records = await Inventory.findAll({ where: { productId } });
+    for (const record of records) {
+      expect(record.reservedQuantity).toBeLessThanOrEqual(record.quantity);
+    }
+    expect(records.reduce((total, record) => total + record.reservedQuantity, 0)).toBe(20);
+  });
+
+  it('should not deadlock when orders list the same SKUs in opposite order', async () => {
+    // Arrange
+    const productA = randomUUID();
+    const productB = randomUUID();
+    const warehouse = await createWarehouse('PAIR');
+    await stock(productA, warehouse.id, 15);
+    await stock(productB, warehouse.id, 15);
+
+    const orders = Array.from({ length: PARALLEL_ORDERS }, (_, index) => ({
+      orderId: randomUUID(),
+      items:
+        index % 2 === 0
+          ? [{ productId: productA, quantity: 1 }, { productId: productB, quantity: 1 }]
+          : [{ productId: productB, quantity: 1 }, { productId: productA, quantity: 1 }],
+    }));
+
+    // Act
+    const results = await reserveInParallel(orders);
+
+    // Assert
+    expectOnlyStockShortages(results);
+    expect(succeeded(results)).toBe(15);
+
+    // All or nothing: both products were reserved by the same orders
+    const a = await Inventory.findOne({ where: { productId: productA } });
+    const b = await Inventory.findOne({ where: { productId: productB } });
+    expect(a!.reservedQuantity).toBe(15);
+    expect(b!.reservedQuantity).toBe(15);
+  });
+
+  it('should reserve once when the same order is retried concurrently', async () => {
+    // Arrange
+    const productId = randomUUID();
+    const orderId = randomUUID();
+    const warehouse = await createWarehouse('RETRY');
+    await stock(productId, warehouse.id, 100);
+
+    const orders = Array.from({ length: 10 }, () => ({ orderId, items: [{ productId, quantity: 3 }] }));
+
+    // Act
+    const results = await reserveInParallel(orders);
+
+    // Assert
+    expect(succeeded(results)).toBe(10);
+
+    const inventory = await Inventory.findOne({ where: { productId } });
+    expect(inventory!.reservedQuantity).toBe(3);
+    expect(await Reservation.count({ where: { orderId, status: 'active' } })).toBe(1);
+  });
+
+  it('should keep reserved stock consistent while orders are released concurrently', async () => {
+    // Arrange
+    const productId = randomUUID();
+    const warehouse = await createWarehouse('CHURN');
+    await stock(productId, warehouse.id, 10);
+
+    const held = Array.from({ length: 10 }, () => randomUUID());
+    await reserveInParallel(held.map((orderId) => ({ orderId, items: [{ productId, quantity: 1 }] })));
+
+    const incoming = Array.from({ length: PARALLEL_ORDERS }, () => ({
+      orderId: randomUUID(),
+      items: [{ productId, quantity: 1 }],
+    }));
+
+    // Act
+    const [releases, reservations] = await Promise.all([
+      Promise.allSettled(held.map((orderId) => inventoryService.releaseInventory(orderId))),
+      reserveInParallel(incoming),
+    ]);
+
+    // Assert
+    expect(releases.every((result) => result.status === 'fulfilled')).toBe(true);
+    expectOnlyStockShortages(reservations);
+
+    const inventory = await Inventory.findOne({ where: { productId } });
+    const activeReserved = await Reservation.sum('quantity', { where: { productId, status: 'active' } });
+    expect(inventory!.reservedQuantity).toBe(activeReserved || 0);
+    expect(inventory!.reservedQuantity).toBeLessThanOrEqual(10);
+    expect(succeeded(reservations)).toBe(inventory!.reservedQuantity);
+    expect((await inventoryService.reconcileInventory(inventory!.id)).consistent).toBe(true);
+  });
+});
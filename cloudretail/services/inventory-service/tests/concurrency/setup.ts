@@ -0,0 +1,11 @@
+/**
+ * Setup for the reservation concurrency harness
+ * Points the service at a disposable PostgreSQL database unless DB_* is set
+ */
+
+process.env.NODE_ENV = 'test';
+process.env.DB_HOST = process.env.DB_HOST || 'localhost';
+process.env.DB_PORT = process.env.DB_PORT || '5432';
+process.env.DB_NAME = process.env.DB_NAME || 'inventory_service_test';
+process.env.DB_USER = process.env.DB_USER || 'test';
+process.env.DB_PASSWORD = process.env.DB_PASSWORD || 'test';
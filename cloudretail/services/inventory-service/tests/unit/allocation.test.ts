@@ -0,0 +1,185 @@
+/**
+ * Unit tests for warehouse allocation strategies
+ */
+
+import { allocateStock, proximity, StockLocation } from '../../src/services/allocation';
+
+describe('allocation', () => {
+  const singapore = { city: 'Singapore', state: 'SG', zipCode: '018956', country: 'SG' };
+  const london = { city: 'London', state: 'LDN', zipCode: 'EC1A', country: 'GB' };
+  const manchester = { city: 'Manchester', state: 'MAN', zipCode: 'M1', country: 'GB' };
+
+  const location = (
+    productId: string,
+    warehouseId: string,
+    available: number,
+    address = singapore,
+    priority = 100
+  ): StockLocation => ({ productId, warehouseId, available, priority, address });
+
+  describe('proximity', () => {
+    it('should rank matching address parts closest first', () => {
+      // Assert
+      expect(proximity(london, { ...london })).toBe(0);
+      expect(proximity(london, { ...london, zipCode: 'N1' })).toBe(1);
+      expect(proximity(london, { ...london, city: 'Croydon', zipCode: 'CR0' })).toBe(2);
+      expect(proximity(london, manchester)).toBe(3);
+      expect(proximity(london, singapore)).toBe(4);
+    });
+
+    it('should treat every warehouse as equally close without a destination', () => {
+      // Assert
+      expect(proximity(london)).toBe(0);
+      expect(proximity(singapore)).toBe(0);
+    });
+  });
+
+  describe('nearest', () => {
+    it('should take stock from the closest warehouse first', () => {
+      // Arrange
+      const locations = [
+        location('product-1', 'sg', 10, singapore, 1),
+        location('product-1', 'ldn', 10, london, 2),
+      ];
+
+      // Act
+      const result = allocateStock('nearest', [{ productId: 'product-1', quantity: 4 }], locations, london);
+
+      // Assert
+      expect(result.allocations).toEqual([{ productId: 'product-1', warehouseId: 'ldn', quantity: 4 }]);
+      expect(result.unfulfilled).toEqual([]);
+    });
+
+    it('should fall back to warehouse priority when distances tie', () => {
+      // Arrange
+      const locations = [
+        location('product-1', 'b', 10, singapore, 20),
+        location('product-1', 'a', 10, singapore, 10),
+      ];
+
+      // Act
+      const result = allocateStock('nearest', [{ productId: 'product-1', quantity: 4 }], locations);
+
+      // Assert
+      expect(result.allocations).toEqual([{ productId: 'product-1', warehouseId: 'a', quantity: 4 }]);
+    });
+
+    it('should merge repeated products and report what cannot be covered', () => {
+      // Arrange
+      const locations = [location('product-1', 'sg', 5), location('product-1', 'ldn', 2, london)];
+      const items = [
+        { productId: 'product-1', quantity: 4 },
+        { productId: 'product-1', quantity: 4 },
+      ];
+
+      // Act
+      const result = allocateStock('nearest', items, locations, singapore);
+
+      // Assert
+      expect(result.allocations).toEqual([
+        { productId: 'product-1', warehouseId: 'sg', quantity: 5 },
+        { productId: 'product-1', warehouseId: 'ldn', quantity: 2 },
+      ]);
+      expect(result.unfulfilled).toEqual([{ productId: 'product-1', quantity: 1 }]);
+    });
+  });
+
+  describe('variants', () => {
+    it('should keep the stock of each variant apart', () => {
+      // Arrange
+      const locations = [
+        { ...location('product-1', 'sg', 5), variantId: 'variant-s' },
+        { ...location('product-1', 'sg', 1), variantId: 'variant-m' },
+        { ...location('product-1', 'ldn', 4, london), variantId: 'variant-m' },
+      ];
+
+      // Act
+      const result = allocateStock('nearest', [
+        { productId: 'product-1', variantId: 'variant-m', quantity: 2 },
+        { productId: 'product-1', variantId: 'variant-s', quantity: 1 },
+        { productId: 'product-1', variantId: 'variant-m', quantity: 1 },
+      ], locations, singapore);
+
+      // Assert
+      expect(result.allocations).toEqual([
+        { productId: 'product-1', variantId: 'variant-m', warehouseId: 'sg', quantity: 1 },
+        { productId: 'product-1', variantId: 'variant-m', warehouseId: 'ldn', quantity: 2 },
+        { productId: 'product-1', variantId: 'variant-s', warehouseId: 'sg', quantity: 1 },
+      ]);
+      expect(result.unfulfilled).toEqual([]);
+    });
+
+    it('should not fill a variant from another variant of the product', () => {
+      // Arrange
+      const locations = [{ ...location('product-1', 'sg', 10), variantId: 'variant-s' }];
+
+      // Act
+      const result = allocateStock('fewest_splits', [
+        { productId: 'product-1', variantId: 'variant-l', quantity: 1 },
+      ], locations);
+
+      // Assert
+      expect(result.allocations).toEqual([]);
+      expect(result.unfulfilled).toEqual([{ productId: 'product-1', variantId: 'variant-l', quantity: 1 }]);
+    });
+  });
+
+  describe('fewest_splits', () => {
+    it('should ship the whole order from one warehouse when one can cover it', () => {
+      // Arrange
+      const locations = [
+        location('product-1', 'near', 5, london),
+        location('product-2', 'far', 5, singapore),
+        location('product-1', 'far', 5, singapore),
+      ];
+      const items = [
+        { productId: 'product-1', quantity: 2 },
+        { productId: 'product-2', quantity: 2 },
+      ];
+
+      // Act
+      const nearest = allocateStock('nearest', items, locations, london);
+      const fewestSplits = allocateStock('fewest_splits', items, locations, london);
+
+      // Assert
+      expect(new Set(nearest.allocations.map((a) => a.warehouseId)).size).toBe(2);
+      expect(fewestSplits.allocations).toEqual([
+        { productId: 'product-2', warehouseId: 'far', quantity: 2 },
+        { productId: 'product-1', warehouseId: 'far', quantity: 2 },
+      ]);
+      expect(fewestSplits.unfulfilled).toEqual([]);
+    });
+
+    it('should prefer the closer warehouse when coverage ties', () => {
+      // Arrange
+      const locations = [
+        location('product-1', 'sg', 5, singapore),
+        location('product-1', 'ldn', 5, london),
+      ];
+
+      // Act
+      const result = allocateStock('fewest_splits', [{ productId: 'product-1', quantity: 3 }], locations, london);
+
+      // Assert
+      expect(result.allocations).toEqual([{ productId: 'product-1', warehouseId: 'ldn', quantity: 3 }]);
+    });
+
+    it('should report items no warehouse can cover', () => {
+      // Arrange
+      const locations = [location('product-1', 'sg', 1)];
+
+      // Act
+      const result = allocateStock('fewest_splits', [
+        { productId: 'product-1', quantity: 3 },
+        { productId: 'product-2', quantity: 1 },
+      ], locations);
+
+      // Assert
+      expect(result.allocations).toEqual([{ productId: 'product-1', warehouseId: 'sg', quantity: 1 }]);
+      expect(result.unfulfilled).toEqual([
+        { productId: 'product-1', quantity: 2 },
+        { productId: 'product-2', quantity: 1 },
+      ]);
+    });
+  });
+});
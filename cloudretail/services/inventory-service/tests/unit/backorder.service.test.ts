@@ -0,0 +1,253 @@
+/**
+ * Unit tests for Backorder Service
+ */
+
+import { BackorderService } from '../../src/services/backorder.service';
+import { Backorder, BackorderPolicy } from '../../src/config/database';
+import sequelize from '../../src/config/database';
+import { NotFoundError, ValidationError } from '@cloudretail/middleware';
+
+// Mock dependencies
+jest.mock('../../src/config/database');
+jest.mock('../../src/events/event-publisher');
+jest.mock('../../src/services/inventory.service');
+
+describe('BackorderService', () => {
+  let backorderService: BackorderService;
+  let mockEventPublisher: any;
+  let mockInventoryService: any;
+  let mockTransaction: any;
+
+  const mockBackorder = (orderId: string, productId: string, quantity: number, overrides: any = {}) => ({
+    id: `backorder-${orderId}-${productId}`,
+    orderId,
+    productId,
+    quantity,
+    status: 'waiting',
+    shippingAddress: null,
+    toJSON: jest.fn().mockReturnValue({ orderId, productId, quantity, status: 'waiting' }),
+    ...overrides,
+  });
+
+  const reservation = (orderId: string) => ({
+    success: true,
+    allocations: [{ productId: 'product-1', warehouseId: 'warehouse-1', quantity: 2 }],
+    expiresAt: new Date('2026-01-01T00:30:00Z'),
+    orderId,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    backorderService = new BackorderService();
+    mockEventPublisher = (backorderService as any).eventPublisher;
+    mockEventPublisher.publishEvent = jest.fn().mockResolvedValue(undefined);
+    mockInventoryService = (backorderService as any).inventoryService;
+    mockInventoryService.verifyInventory = jest.fn();
+    mockInventoryService.reserveInventory = jest.fn();
+    mockInventoryService.releaseInventory = jest.fn().mockResolvedValue({ success: true });
+
+    // Mock transaction
+    mockTransaction = {
+      commit: jest.fn().mockResolvedValue(undefined),
+      rollback: jest.fn().mockResolvedValue(undefined),
+    };
+    (sequelize.transaction as jest.Mock) = jest.fn().mockResolvedValue(mockTransaction);
+
+    // Models share inherited statics, so give each its own mocks
+    (Backorder.findAll as jest.Mock) = jest.fn().mockResolvedValue([]);
+    (Backorder.create as jest.Mock) = jest.fn();
+    (Backorder.update as jest.Mock) = jest.fn().mockResolvedValue([1]);
+    (BackorderPolicy.upsert as jest.Mock) = jest.fn();
+    (BackorderPolicy.destroy as jest.Mock) = jest.fn();
+  });
+
+  describe('setPolicy', () => {
+    it('should save the policy of a product', async () => {
+      // Arrange
+      const expectedRestockDate = new Date('2026-12-01T00:00:00Z');
+      const policy = { productId: 'product-1', mode: 'preorder', expectedRestockDate };
+      (BackorderPolicy.upsert as jest.Mock).mockResolvedValue([{ toJSON: () => policy }, true]);
+
+      // Act
+      const result = await backorderService.setPolicy('product-1', { mode: 'preorder', expectedRestockDate });
+
+      // Assert
+      expect(BackorderPolicy.upsert).toHaveBeenCalledWith(policy);
+      expect(result).toEqual(policy);
+    });
+
+    it('should require an expected restock date for pre-orders', async () => {
+      // Act & Assert
+      await expect(backorderService.setPolicy('product-1', { mode: 'preorder' })).rejects.toThrow(ValidationError);
+      expect(BackorderPolicy.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removePolicy', () => {
+    it('should throw NotFoundError when the product has no policy', async () => {
+      // Arrange
+      (BackorderPolicy.destroy as jest.Mock).mockResolvedValue(0);
+
+      // Act & Assert
+      await expect(backorderService.removePolicy('product-1')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('queueOrder', () => {
+    it('should queue every product of the order and publish the backorder', async () => {
+      // Arrange
+      const items = [
+        { productId: 'product-1', quantity: 2 },
+        { productId: 'product-2', quantity: 1 },
+        { productId: 'product-1', quantity: 1 },
+      ];
+      const availability = [{ productId: 'product-1', requestedQuantity: 3, availableQuantity: 0 }];
+      mockInventoryService.verifyInventory.mockResolvedValue({
+        available: false,
+        backorderable: true,
+        items: availability,
+      });
+      (Backorder.create as jest.Mock).mockImplementation(async (data) => mockBackorder(data.orderId, data.productId, data.quantity));
+
+      // Act
+      const result = await backorderService.queueOrder('order-1', items, { shippingAddress: { city: 'Singapore' } });
+
+      // Assert
+      expect(Backorder.create).toHaveBeenCalledTimes(2);
+      expect(Backorder.create).toHaveBeenCalledWith(
+        { orderId: 'order-1', productId: 'product-1', quantity: 3, shippingAddress: { city: 'Singapore' } },
+        { transaction: mockTransaction }
+      );
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
+        type: 'inventory.backordered',
+        payload: { orderId: 'order-1', items: availability },
+      }, mockTransaction);
+      expect(mockTransaction.commit).toHaveBeenCalled();
+      expect(mockInventoryService.reserveInventory).not.toHaveBeenCalled();
+      expect(result.backorders).toHaveLength(2);
+    });
+
+    it('should reject orders with short products that cannot be backordered', async () => {
+      // Arrange
+      mockInventoryService.verifyInventory.mockResolvedValue({
+        available: false,
+        backorderable: false,
+        reason: 'Insufficient stock for product product-1. Available: 0, Requested: 1',
+        items: [],
+      });
+
+      // Act & Assert
+      await expect(
+        backorderService.queueOrder('order-1', [{ productId: 'product-1', quantity: 1 }])
+      ).rejects.toThrow('Insufficient stock for product product-1');
+      expect(sequelize.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should return the existing backorders when the order is queued again', async () => {
+      // Arrange
+      mockInventoryService.verifyInventory.mockResolvedValue({ available: false, backorderable: true, items: [] });
+      (Backorder.findAll as jest.Mock).mockResolvedValue([mockBackorder('order-1', 'product-1', 1)]);
+
+      // Act
+      const result = await backorderService.queueOrder('order-1', [{ productId: 'product-1', quantity: 1 }]);
+
+      // Assert
+      expect(Backorder.create).not.toHaveBeenCalled();
+      expect(mockEventPublisher.publishEvent).not.toHaveBeenCalled();
+      expect(result.backorders).toHaveLength(1);
+    });
+  });
+
+  describe('allocateBackorders', () => {
+    it('should reserve stock for waiting orders oldest first and publish their allocation', async () => {
+      // Arrange
+      const first = mockBackorder('order-1', 'product-1', 2, { shippingAddress: { city: 'Singapore' } });
+      const second = mockBackorder('order-2', 'product-1', 1);
+      (Backorder.findAll as jest.Mock)
+        .mockResolvedValueOnce([first, second])
+        .mockResolvedValueOnce([first])
+        .mockResolvedValueOnce([first])
+        .mockResolvedValueOnce([second])
+        .mockResolvedValueOnce([second]);
+      mockInventoryService.reserveInventory.mockImplementation(async (orderId: string) => reservation(orderId));
+
+      // Act
+      const allocated = await backorderService.allocateBackorders(['product-1']);
+
+      // Assert
+      expect(Backorder.findAll).toHaveBeenNthCalledWith(1, {
+        where: { productId: ['product-1'], status: 'waiting' },
+        order: [['createdAt', 'ASC'], ['id', 'ASC']],
+      });
+      expect(mockInventoryService.reserveInventory).toHaveBeenNthCalledWith(
+        1,
+        'order-1',
+        [{ productId: 'product-1', quantity: 2 }],
+        { shippingAddress: { city: 'Singapore' } }
+      );
+      expect(mockInventoryService.reserveInventory).toHaveBeenNthCalledWith(
+        2,
+        'order-2',
+        [{ productId: 'product-1', quantity: 1 }],
+        { shippingAddress: undefined }
+      );
+      expect(Backorder.update).toHaveBeenCalledWith(
+        { status: 'allocated' },
+        { where: { id: [first.id] }, transaction: mockTransaction }
+      );
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
+        type: 'inventory.backorder_allocated',
+        payload: {
+          orderId: 'order-1',
+          allocations: reservation('order-1').allocations,
+          expiresAt: reservation('order-1').expiresAt,
+        },
+      }, mockTransaction);
+      expect(allocated).toBe(2);
+    });
+
+    it('should not let later orders overtake an order that cannot be filled', async () => {
+      // Arrange
+      const first = mockBackorder('order-1', 'product-1', 5);
+      const second = mockBackorder('order-2', 'product-1', 1);
+      (Backorder.findAll as jest.Mock)
+        .mockResolvedValueOnce([first, second])
+        .mockResolvedValueOnce([first])
+        .mockResolvedValueOnce([second]);
+      mockInventoryService.reserveInventory.mockRejectedValue(
+        new ValidationError('Insufficient stock for product product-1. Available: 2, Requested: 5')
+      );
+
+      // Act
+      const allocated = await backorderService.allocateBackorders(['product-1']);
+
+      // Assert
+      expect(mockInventoryService.reserveInventory).toHaveBeenCalledTimes(1);
+      expect(mockEventPublisher.publishEvent).not.toHaveBeenCalled();
+      expect(allocated).toBe(0);
+    });
+
+    it('should release the reservation of an order cancelled while it was allocated', async () => {
+      // Arrange
+      const backorder = mockBackorder('order-1', 'product-1', 2);
+      (Backorder.findAll as jest.Mock)
+        .mockResolvedValueOnce([backorder])
+        .mockResolvedValueOnce([backorder])
+        .mockResolvedValueOnce([{ ...backorder, status: 'cancelled' }]);
+      mockInventoryService.reserveInventory.mockResolvedValue(reservation('order-1'));
+
+      // Act
+      const allocated = await backorderService.allocateBackorders(['product-1']);
+
+      // Assert
+      expect(Backorder.findAll).toHaveBeenLastCalledWith({
+        where: { orderId: 'order-1' },
+        lock: 'UPDATE',
+        transaction: mockTransaction,
+      });
+      expect(Backorder.update).not.toHaveBeenCalled();
+      expect(mockInventoryService.releaseInventory).toHaveBeenCalledWith('order-1');
+      expect(allocated).toBe(0);
+    });
+  });
+});
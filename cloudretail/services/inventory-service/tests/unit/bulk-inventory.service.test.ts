@@ -0,0 +1,272 @@
+/**
+ * Unit tests for Bulk Inventory Service
+ */
+
+import { BulkInventoryService } from '../../src/services/bulk-inventory.service';
+import { Inventory, Warehouse } from '../../src/config/database';
+import sequelize from '../../src/config/database';
+import { NotFoundError, ValidationError } from '@cloudretail/middleware';
+
+// Mock dependencies
+jest.mock('../../src/config/database');
+jest.mock('../../src/services/inventory.service');
+jest.mock('../../src/services/product-owner.service');
+
+// Mock fetch
+global.fetch = jest.fn();
+
+describe('BulkInventoryService', () => {
+  let bulkInventoryService: BulkInventoryService;
+  let mockInventoryService: any;
+  let mockProductOwnerService: any;
+  let mockTransaction: any;
+
+  const warehouseId = '6f1c2d3e-4a5b-4c6d-8e7f-8091a2b3c4d5';
+  const productId = '0d9e8f7a-6b5c-4d3e-8f1a-2b3c4d5e6f70';
+
+  const variantId = '9a8b7c6d-5e4f-4a3b-9c2d-1e0f9a8b7c6d';
+
+  const productResponse = (id: string, variant?: { id: string }) => ({
+    ok: true,
+    status: 200,
+    json: async () => ({ success: true, data: { id, variant } }),
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    bulkInventoryService = new BulkInventoryService();
+    mockInventoryService = (bulkInventoryService as any).inventoryService;
+    mockInventoryService.setStockLevel = jest.fn().mockResolvedValue({ status: 'updated', previousQuantity: 1 });
+    mockProductOwnerService = (bulkInventoryService as any).productOwnerService;
+    mockProductOwnerService.getProductOwner = jest.fn();
+
+    // Mock transaction
+    mockTransaction = {
+      commit: jest.fn().mockResolvedValue(undefined),
+      rollback: jest.fn().mockResolvedValue(undefined),
+    };
+    (sequelize.transaction as jest.Mock) = jest.fn().mockResolvedValue(mockTransaction);
+
+    // Models share inherited statics, so give each its own mocks
+    (Inventory.findAll as jest.Mock) = jest.fn();
+    (Warehouse.findAll as jest.Mock) = jest.fn().mockResolvedValue([{ id: warehouseId, code: 'SG-01' }]);
+  });
+
+  describe('importStock', () => {
+    it('should resolve SKUs and warehouse codes and apply each row', async () => {
+      // Arrange
+      (global.fetch as jest.Mock).mockResolvedValue(productResponse(productId));
+      const content = 'sku,warehouseCode,quantity\nTSHIRT-M,SG-01,12\n';
+
+      // Act
+      const report = await bulkInventoryService.importStock(content, 'csv', { actor: 'user-1', reason: 'Bulk import' });
+
+      // Assert
+      expect(global.fetch).toHaveBeenCalledWith('http://localhost:3002/api/products/sku/TSHIRT-M');
+      expect(mockInventoryService.setStockLevel).toHaveBeenCalledWith(
+        { productId },
+        warehouseId,
+        12,
+        { actor: 'user-1', reason: 'Bulk import' },
+        mockTransaction
+      );
+      expect(mockTransaction.commit).toHaveBeenCalled();
+      expect(report).toEqual({
+        total: 1,
+        created: 0,
+        updated: 1,
+        unchanged: 0,
+        failed: 0,
+        results: [{ line: 2, status: 'updated', productId, warehouseId, quantity: 12, previousQuantity: 1 }],
+      });
+    });
+
+    it('should set the stock of the variant a variant SKU belongs to', async () => {
+      // Arrange
+      (global.fetch as jest.Mock).mockResolvedValue(productResponse(productId, { id: variantId }));
+      const content = 'sku,warehouseId,quantity\nTSHIRT-M-RED,' + warehouseId + ',4\n';
+
+      // Act
+      const report = await bulkInventoryService.importStock(content, 'csv');
+
+      // Assert
+      expect(mockInventoryService.setStockLevel).toHaveBeenCalledWith(
+        { productId, variantId },
+        warehouseId,
+        4,
+        expect.any(Object),
+        mockTransaction
+      );
+      expect(report.results[0]).toEqual(expect.objectContaining({ productId, variantId, status: 'updated' }));
+    });
+
+    it('should report invalid, unknown and duplicate rows without applying them', async () => {
+      // Arrange
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: false, status: 404 });
+      const content = [
+        JSON.stringify({ productId, warehouseId, quantity: 5 }),
+        JSON.stringify({ productId, warehouseId, quantity: -1 }),
+        JSON.stringify({ sku: 'MISSING', warehouseId, quantity: 5 }),
+        JSON.stringify({ productId, warehouseCode: 'NOWHERE', quantity: 5 }),
+        JSON.stringify({ productId, warehouseCode: 'SG-01', quantity: 7 }),
+        '{broken',
+      ].join('\n');
+
+      // Act
+      const report = await bulkInventoryService.importStock(content, 'jsonl');
+
+      // Assert
+      expect(mockInventoryService.setStockLevel).toHaveBeenCalledTimes(1);
+      expect(report.failed).toBe(5);
+      expect(report.results.map((result) => [result.line, result.status, result.error])).toEqual([
+        [1, 'updated', undefined],
+        [2, 'error', '"quantity" must be greater than or equal to 0'],
+        [3, 'error', 'Unknown SKU MISSING'],
+        [4, 'error', 'Unknown warehouse NOWHERE'],
+        [5, 'error', 'Duplicate of line 1'],
+        [6, 'error', 'Invalid JSON'],
+      ]);
+    });
+
+    it('should fail only the row a stock rule rejects', async () => {
+      // Arrange
+      mockInventoryService.setStockLevel
+        .mockRejectedValueOnce(new ValidationError('Quantity cannot be less than reserved quantity'))
+        .mockResolvedValueOnce({ status: 'created' });
+      const otherProduct = '1a2b3c4d-5e6f-4a1b-8c2d-3e4f5a6b7c8d';
+      const content = `productId,warehouseId,quantity\n${productId},${warehouseId},0\n${otherProduct},${warehouseId},3\n`;
+
+      // Act
+      const report = await bulkInventoryService.importStock(content, 'csv');
+
+      // Assert
+      expect(mockTransaction.commit).toHaveBeenCalledTimes(1);
+      expect(report.results.map((result) => result.status)).toEqual(['error', 'created']);
+      expect(report.results[0].error).toBe('Quantity cannot be less than reserved quantity');
+    });
+
+    it('should roll back and fail the whole batch on an unexpected error', async () => {
+      // Arrange
+      (bulkInventoryService as any).batchSize = 1;
+      mockInventoryService.setStockLevel
+        .mockResolvedValueOnce({ status: 'created' })
+        .mockRejectedValueOnce(new Error('Connection lost'));
+      const otherProduct = '1a2b3c4d-5e6f-4a1b-8c2d-3e4f5a6b7c8d';
+      const content = `productId,warehouseId,quantity\n${productId},${warehouseId},1\n${otherProduct},${warehouseId},3\n`;
+
+      // Act
+      const report = await bulkInventoryService.importStock(content, 'csv');
+
+      // Assert
+      expect(sequelize.transaction).toHaveBeenCalledTimes(2);
+      expect(mockTransaction.commit).toHaveBeenCalledTimes(1);
+      expect(mockTransaction.rollback).toHaveBeenCalledTimes(1);
+      expect(report.created).toBe(1);
+      expect(report.results[1]).toEqual(
+        expect.objectContaining({ line: 3, status: 'error', error: 'Batch failed and was rolled back' })
+      );
+    });
+
+    it('should fail rows for products a vendor does not own', async () => {
+      // Arrange
+      const otherProductId = '1e2f3a4b-5c6d-4e7f-8a9b-0c1d2e3f4a5b';
+      const unknownProductId = '2f3a4b5c-6d7e-4f8a-9b0c-1d2e3f4a5b6c';
+      mockProductOwnerService.getProductOwner.mockImplementation(async (id: string) => {
+        if (id === unknownProductId) throw new NotFoundError('Product');
+        return id === productId ? 'vendor-1' : 'vendor-2';
+      });
+      const content = [
+        'productId,warehouseId,quantity',
+        `${productId},${warehouseId},5`,
+        `${otherProductId},${warehouseId},6`,
+        `${unknownProductId},${warehouseId},7`,
+      ].join('\n');
+
+      // Act
+      const report = await bulkInventoryService.importStock(
+        content,
+        'csv',
+        { actor: 'vendor-1' },
+        { userId: 'vendor-1', email: 'vendor@example.com', role: 'vendor' }
+      );
+
+      // Assert
+      expect(mockInventoryService.setStockLevel).toHaveBeenCalledTimes(1);
+      expect(mockInventoryService.setStockLevel).toHaveBeenCalledWith(
+        { productId },
+        warehouseId,
+        5,
+        { actor: 'vendor-1' },
+        mockTransaction
+      );
+      expect(report.updated).toBe(1);
+      expect(report.failed).toBe(2);
+      expect(report.results[1]).toEqual(
+        expect.objectContaining({ line: 3, status: 'error', error: `Product ${otherProductId} belongs to another vendor` })
+      );
+      expect(report.results[2]).toEqual(
+        expect.objectContaining({ line: 4, status: 'error', error: `Unknown product ${unknownProductId}` })
+      );
+    });
+
+    it('should let an admin import stock for any product', async () => {
+      // Arrange
+      const content = `productId,warehouseId,quantity\n${productId},${warehouseId},5\n`;
+
+      // Act
+      const report = await bulkInventoryService.importStock(
+        content,
+        'csv',
+        { actor: 'admin-1' },
+        { userId: 'admin-1', email: 'admin@example.com', role: 'admin' }
+      );
+
+      // Assert
+      expect(mockProductOwnerService.getProductOwner).not.toHaveBeenCalled();
+      expect(report.updated).toBe(1);
+    });
+
+    it('should reject a file with no rows', async () => {
+      // Act & Assert
+      await expect(bulkInventoryService.importStock('sku,warehouseCode,quantity\n', 'csv')).rejects.toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe('exportStockCsv', () => {
+    it('should stream stock records as CSV a page at a time', async () => {
+      // Arrange
+      const record = {
+        id: 'inventory-1',
+        productId,
+        warehouseId,
+        quantity: 12,
+        reservedQuantity: 2,
+        reorderPoint: 10,
+        reorderQuantity: 0,
+        leadTimeDays: 7,
+        updatedAt: new Date('2026-01-01T00:00:00Z'),
+        getAvailableQuantity: () => 10,
+      };
+      (Inventory.findAll as jest.Mock).mockResolvedValueOnce([record]);
+
+      // Act
+      const chunks: string[] = [];
+      for await (const chunk of bulkInventoryService.exportStockCsv({ warehouseId })) {
+        chunks.push(chunk);
+      }
+
+      // Assert
+      expect(Inventory.findAll).toHaveBeenCalledWith({
+        where: { warehouseId },
+        order: [['id', 'ASC']],
+        limit: 500,
+      });
+      expect(chunks).toEqual([
+        'productId,variantId,warehouseId,warehouseCode,quantity,reservedQuantity,availableQuantity,reorderPoint,reorderQuantity,leadTimeDays,updatedAt\n',
+        `${productId},,${warehouseId},SG-01,12,2,10,10,0,7,2026-01-01T00:00:00.000Z\n`,
+      ]);
+    });
+  });
+});
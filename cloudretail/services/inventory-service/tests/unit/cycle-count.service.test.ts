@@ -0,0 +1,292 @@
+/**
+ * Unit tests for Cycle Count Service
+ */
+
+import { CycleCountService } from '../../src/services/cycle-count.service';
+import { CycleCount, CycleCountLine, Inventory, Warehouse } from '../../src/config/database';
+import sequelize from '../../src/config/database';
+import { ConflictError, NotFoundError, ValidationError } from '@cloudretail/middleware';
+
+// Mock dependencies
+jest.mock('../../src/config/database');
+jest.mock('../../src/services/inventory.service');
+jest.mock('../../src/services/product-owner.service');
+
+describe('CycleCountService', () => {
+  let cycleCountService: CycleCountService;
+  let mockInventoryService: any;
+  let mockProductOwnerService: any;
+  let mockTransaction: any;
+
+  const mockCount = (overrides: any = {}) => {
+    const count: any = {
+      id: 'count-1',
+      warehouseId: 'warehouse-1',
+      status: 'open',
+      ...overrides,
+    };
+    count.toJSON = jest.fn(() => ({ id: count.id, status: count.status }));
+    count.update = jest.fn(async (changes: any) => Object.assign(count, changes));
+    return count;
+  };
+
+  const mockLine = (productId: string, systemQuantity: number, countedQuantity: number | null = null, overrides: any = {}) => {
+    const line: any = {
+      id: `line-${productId}`,
+      inventoryId: `inventory-${productId}`,
+      productId,
+      warehouseId: 'warehouse-1',
+      systemQuantity,
+      countedQuantity,
+      ...overrides,
+    };
+    line.getVariance = jest.fn(() =>
+      line.countedQuantity === null ? null : line.countedQuantity - line.systemQuantity
+    );
+    line.toJSON = jest.fn(() => ({ productId: line.productId, countedQuantity: line.countedQuantity }));
+    line.update = jest.fn(async (changes: any) => Object.assign(line, changes));
+    return line;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    cycleCountService = new CycleCountService();
+    mockInventoryService = (cycleCountService as any).inventoryService;
+    mockInventoryService.correctStockCount = jest.fn().mockResolvedValue(undefined);
+    mockProductOwnerService = (cycleCountService as any).productOwnerService;
+    mockProductOwnerService.getCommonOwner = jest.fn().mockResolvedValue('vendor-1');
+
+    // Mock transaction
+    mockTransaction = {
+      commit: jest.fn().mockResolvedValue(undefined),
+      rollback: jest.fn().mockResolvedValue(undefined),
+    };
+    (sequelize.transaction as jest.Mock) = jest.fn().mockResolvedValue(mockTransaction);
+
+    // Models share inherited statics, so give each its own mocks
+    (CycleCount.findByPk as jest.Mock) = jest.fn();
+    (CycleCount.create as jest.Mock) = jest.fn();
+    (CycleCount.count as jest.Mock) = jest.fn().mockResolvedValue(0);
+    (CycleCount.findAndCountAll as jest.Mock) = jest.fn().mockResolvedValue({ rows: [], count: 0 });
+    (CycleCountLine.findAll as jest.Mock) = jest.fn().mockResolvedValue([]);
+    (CycleCountLine.bulkCreate as jest.Mock) = jest.fn();
+    (Inventory.findAll as jest.Mock) = jest.fn();
+    (Warehouse.findByPk as jest.Mock) = jest.fn().mockResolvedValue({ id: 'warehouse-1' });
+  });
+
+  describe('openCount', () => {
+    it('should open a count with a line for every stock record in scope', async () => {
+      // Arrange
+      const records = [
+        { id: 'inventory-1', productId: 'product-1', warehouseId: 'warehouse-1', quantity: 10 },
+        { id: 'inventory-2', productId: 'product-2', warehouseId: 'warehouse-1', quantity: 4 },
+      ];
+      (Inventory.findAll as jest.Mock).mockResolvedValue(records);
+      (CycleCount.create as jest.Mock).mockResolvedValue(mockCount());
+      (CycleCountLine.bulkCreate as jest.Mock).mockResolvedValue([mockLine('product-1', 10), mockLine('product-2', 4)]);
+
+      // Act
+      const result = await cycleCountService.openCount({ warehouseId: 'warehouse-1' }, 'user-1');
+
+      // Assert
+      expect(Inventory.findAll).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { warehouseId: 'warehouse-1' }, transaction: mockTransaction })
+      );
+      expect(CycleCount.create).toHaveBeenCalledWith(
+        { warehouseId: 'warehouse-1', productIds: null, openedBy: 'user-1', notes: null },
+        { transaction: mockTransaction }
+      );
+      expect(CycleCountLine.bulkCreate).toHaveBeenCalledWith(
+        [
+          { cycleCountId: 'count-1', inventoryId: 'inventory-1', productId: 'product-1', warehouseId: 'warehouse-1', systemQuantity: 10 },
+          { cycleCountId: 'count-1', inventoryId: 'inventory-2', productId: 'product-2', warehouseId: 'warehouse-1', systemQuantity: 4 },
+        ],
+        { transaction: mockTransaction }
+      );
+      expect(mockTransaction.commit).toHaveBeenCalled();
+      expect(result.summary).toEqual({ lines: 2, counted: 0, withVariance: 0, unitsOver: 0, unitsShort: 0 });
+    });
+
+    it('should refuse records already in an open count', async () => {
+      // Arrange
+      (Inventory.findAll as jest.Mock).mockResolvedValue([
+        { id: 'inventory-1', productId: 'product-1', warehouseId: 'warehouse-1', quantity: 10 },
+      ]);
+      (CycleCountLine.findAll as jest.Mock).mockResolvedValue([{ cycleCountId: 'count-0' }]);
+      (CycleCount.count as jest.Mock).mockResolvedValue(1);
+
+      // Act & Assert
+      await expect(
+        cycleCountService.openCount({ productIds: ['product-1'] }, 'user-1')
+      ).rejects.toThrow(ConflictError);
+      expect(CycleCount.create).not.toHaveBeenCalled();
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError for an unknown warehouse', async () => {
+      // Arrange
+      (Warehouse.findByPk as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(cycleCountService.openCount({ warehouseId: 'missing' }, 'user-1')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('getCountOwner', () => {
+    it('should return the vendor that owns every product in the count', async () => {
+      // Arrange
+      (CycleCount.findByPk as jest.Mock).mockResolvedValue(mockCount());
+      (CycleCountLine.findAll as jest.Mock).mockResolvedValue([
+        mockLine('product-1', 10),
+        mockLine('product-1', 3, null, { warehouseId: 'warehouse-2' }),
+        mockLine('product-2', 4),
+      ]);
+
+      // Act
+      const result = await cycleCountService.getCountOwner('count-1');
+
+      // Assert
+      expect(mockProductOwnerService.getCommonOwner).toHaveBeenCalledWith(['product-1', 'product-1', 'product-2']);
+      expect(result).toBe('vendor-1');
+    });
+
+    it('should resolve null for an unknown count', async () => {
+      // Arrange
+      (CycleCount.findByPk as jest.Mock).mockResolvedValue(null);
+
+      // Act
+      const result = await cycleCountService.getCountOwner('missing');
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockProductOwnerService.getCommonOwner).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getCounts', () => {
+    it('should limit the counts to those opened by the given user', async () => {
+      // Act
+      await cycleCountService.getCounts({ status: 'open', openedBy: 'vendor-1' });
+
+      // Assert
+      expect(CycleCount.findAndCountAll).toHaveBeenCalledWith({
+        where: { status: 'open', openedBy: 'vendor-1' },
+        order: [['createdAt', 'DESC']],
+        limit: 50,
+        offset: 0,
+      });
+    });
+  });
+
+  describe('submitCounts', () => {
+    it('should record counts against the current system quantity', async () => {
+      // Arrange
+      const line = mockLine('product-1', 10);
+      (CycleCount.findByPk as jest.Mock).mockResolvedValue(mockCount());
+      (CycleCountLine.findAll as jest.Mock).mockResolvedValue([line, mockLine('product-2', 4)]);
+      // Two units shipped since the count was opened
+      (Inventory.findAll as jest.Mock).mockResolvedValue([{ id: 'inventory-product-1', quantity: 8 }]);
+
+      // Act
+      const result = await cycleCountService.submitCounts(
+        'count-1',
+        [{ productId: 'product-1', countedQuantity: 7 }],
+        'user-2'
+      );
+
+      // Assert
+      expect(CycleCount.findByPk).toHaveBeenCalledWith('count-1', { lock: 'UPDATE', transaction: mockTransaction });
+      expect(line.update).toHaveBeenCalledWith(
+        { systemQuantity: 8, countedQuantity: 7, countedBy: 'user-2', countedAt: expect.any(Date) },
+        { transaction: mockTransaction }
+      );
+      expect(result.lines[0].variance).toBe(-1);
+      expect(result.summary).toEqual(expect.objectContaining({ counted: 1, unitsShort: 1 }));
+    });
+
+    it('should reject products outside the count', async () => {
+      // Arrange
+      (CycleCount.findByPk as jest.Mock).mockResolvedValue(mockCount());
+      (CycleCountLine.findAll as jest.Mock).mockResolvedValue([mockLine('product-1', 10)]);
+
+      // Act & Assert
+      await expect(
+        cycleCountService.submitCounts('count-1', [{ productId: 'product-9', countedQuantity: 1 }], 'user-2')
+      ).rejects.toThrow(ValidationError);
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+    });
+
+    it('should reject counts for a closed session', async () => {
+      // Arrange
+      (CycleCount.findByPk as jest.Mock).mockResolvedValue(mockCount({ status: 'approved' }));
+
+      // Act & Assert
+      await expect(
+        cycleCountService.submitCounts('count-1', [{ productId: 'product-1', countedQuantity: 1 }], 'user-2')
+      ).rejects.toThrow('Cycle count is already approved');
+    });
+  });
+
+  describe('approveCount', () => {
+    it('should post each variance as a correction and close the count', async () => {
+      // Arrange
+      const count = mockCount();
+      (CycleCount.findByPk as jest.Mock).mockResolvedValue(count);
+      (CycleCountLine.findAll as jest.Mock).mockResolvedValue([
+        mockLine('product-1', 10, 7),
+        mockLine('product-2', 4, 4),
+        mockLine('product-3', 0, 2),
+      ]);
+
+      // Act
+      const result = await cycleCountService.approveCount('count-1', 'admin-1');
+
+      // Assert
+      expect(mockInventoryService.correctStockCount).toHaveBeenCalledTimes(2);
+      expect(mockInventoryService.correctStockCount).toHaveBeenCalledWith(
+        'inventory-product-1',
+        -3,
+        { actor: 'admin-1', reason: 'Cycle count count-1' },
+        mockTransaction
+      );
+      expect(mockInventoryService.correctStockCount).toHaveBeenCalledWith(
+        'inventory-product-3',
+        2,
+        { actor: 'admin-1', reason: 'Cycle count count-1' },
+        mockTransaction
+      );
+      expect(count.update).toHaveBeenCalledWith(
+        { status: 'approved', closedBy: 'admin-1', closedAt: expect.any(Date) },
+        { transaction: mockTransaction }
+      );
+      expect(mockTransaction.commit).toHaveBeenCalled();
+      expect(result.summary).toEqual({ lines: 3, counted: 3, withVariance: 2, unitsOver: 2, unitsShort: 3 });
+    });
+
+    it('should not approve a count with uncounted records', async () => {
+      // Arrange
+      (CycleCount.findByPk as jest.Mock).mockResolvedValue(mockCount());
+      (CycleCountLine.findAll as jest.Mock).mockResolvedValue([mockLine('product-1', 10, 10), mockLine('product-2', 4)]);
+
+      // Act & Assert
+      await expect(cycleCountService.approveCount('count-1', 'admin-1')).rejects.toThrow(
+        '1 stock records have not been counted'
+      );
+      expect(mockInventoryService.correctStockCount).not.toHaveBeenCalled();
+    });
+
+    it('should roll back every correction when one is rejected', async () => {
+      // Arrange
+      (CycleCount.findByPk as jest.Mock).mockResolvedValue(mockCount());
+      (CycleCountLine.findAll as jest.Mock).mockResolvedValue([mockLine('product-1', 10, 11), mockLine('product-2', 4, 0)]);
+      mockInventoryService.correctStockCount
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new ValidationError('Counted stock is below its reserved units'));
+
+      // Act & Assert
+      await expect(cycleCountService.approveCount('count-1', 'admin-1')).rejects.toThrow(ValidationError);
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+      expect(mockTransaction.commit).not.toHaveBeenCalled();
+    });
+  });
+});
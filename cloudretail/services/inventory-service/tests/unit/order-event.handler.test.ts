@@ -0,0 +1,38 @@
+/**
+ * Unit tests for Order Event Handler
+ * Tests reservation holds driven by order-service events
+ */
+
+import { OrderEventHandler } from '../../src/events/order-event.handler';
+
+// Mock dependencies
+jest.mock('../../src/config/database');
+jest.mock('../../src/services/inventory.service');
+
+describe('OrderEventHandler', () => {
+  let handler: OrderEventHandler;
+  let mockInventoryService: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    handler = new OrderEventHandler();
+    mockInventoryService = (handler as any).inventoryService;
+    mockInventoryService.holdReservations = jest.fn().mockResolvedValue(1);
+  });
+
+  describe('handleOrderConfirmed', () => {
+    it('should hold the reservations of the confirmed order', async () => {
+      // Act
+      await handler.handleOrderConfirmed({
+        id: 'event-123',
+        type: 'order.confirmed',
+        payload: { orderId: 'order-123', userId: 'user-123' },
+        timestamp: new Date(),
+        metadata: { correlationId: 'correlation-123', service: 'order-service' },
+      });
+
+      // Assert
+      expect(mockInventoryService.holdReservations).toHaveBeenCalledWith('order-123');
+    });
+  });
+});
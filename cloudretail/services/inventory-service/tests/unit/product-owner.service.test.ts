@@ -0,0 +1,102 @@
+/**
+ * Unit tests for Product Owner Service
+ */
+
+import { ProductOwnerService } from '../../src/services/product-owner.service';
+import { NotFoundError, ServiceUnavailableError } from '@cloudretail/middleware';
+
+// Mock fetch
+global.fetch = jest.fn();
+
+describe('ProductOwnerService', () => {
+  let productOwnerService: ProductOwnerService;
+
+  const productId = '0d9e8f7a-6b5c-4d3e-8f1a-2b3c4d5e6f70';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    productOwnerService = new ProductOwnerService();
+  });
+
+  describe('getProductOwner', () => {
+    it('should return the vendor that owns the product', async () => {
+      // Arrange
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ success: true, data: { id: productId, vendorId: 'vendor-1' } }),
+      });
+
+      // Act
+      const result = await productOwnerService.getProductOwner(productId);
+
+      // Assert
+      expect(global.fetch).toHaveBeenCalledWith(`http://localhost:3002/api/products/${productId}`);
+      expect(result).toBe('vendor-1');
+    });
+
+    it('should throw NotFoundError if the product does not exist', async () => {
+      // Arrange
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: false, status: 404 });
+
+      // Act & Assert
+      await expect(productOwnerService.getProductOwner(productId)).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw ServiceUnavailableError if the product service fails', async () => {
+      // Arrange
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: false, status: 500 });
+
+      // Act & Assert
+      await expect(productOwnerService.getProductOwner(productId)).rejects.toThrow(ServiceUnavailableError);
+    });
+
+    it('should throw ServiceUnavailableError if the product service is unreachable', async () => {
+      // Arrange
+      (global.fetch as jest.Mock).mockRejectedValue(new Error('ECONNREFUSED'));
+
+      // Act & Assert
+      await expect(productOwnerService.getProductOwner(productId)).rejects.toThrow(ServiceUnavailableError);
+    });
+  });
+
+  describe('getCommonOwner', () => {
+    const otherProductId = '1e0f9a8b-7c6d-4e5f-9a2b-3c4d5e6f7a81';
+
+    const productsOwnedBy = (owners: Record<string, string>) =>
+      (global.fetch as jest.Mock).mockImplementation(async (url: string) => {
+        const id = url.split('/').pop()!;
+        return owners[id]
+          ? { ok: true, status: 200, json: async () => ({ success: true, data: { id, vendorId: owners[id] } }) }
+          : { ok: false, status: 404 };
+      });
+
+    it('should return the vendor that owns every product, looking each up once', async () => {
+      // Arrange
+      productsOwnedBy({ [productId]: 'vendor-1', [otherProductId]: 'vendor-1' });
+
+      // Act
+      const result = await productOwnerService.getCommonOwner([productId, otherProductId, productId]);
+
+      // Assert
+      expect(result).toBe('vendor-1');
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should resolve null for products of several vendors', async () => {
+      // Arrange
+      productsOwnedBy({ [productId]: 'vendor-1', [otherProductId]: 'vendor-2' });
+
+      // Act & Assert
+      await expect(productOwnerService.getCommonOwner([productId, otherProductId])).resolves.toBeNull();
+    });
+
+    it('should resolve null if any product does not exist', async () => {
+      // Arrange
+      productsOwnedBy({ [productId]: 'vendor-1' });
+
+      // Act & Assert
+      await expect(productOwnerService.getCommonOwner([productId, otherProductId])).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Unit tests for Replenishment Service
+ */
+
+import { ReplenishmentService } from '../../src/services/replenishment.service';
+import { Inventory, StockMovement } from '../../src/config/database';
+
+// Mock dependencies
+jest.mock('../../src/config/database');
+jest.mock('../../src/events/event-publisher');
+
+describe('ReplenishmentService', () => {
+  let replenishmentService: ReplenishmentService;
+  let mockEventPublisher: any;
+  let mockTransaction: any;
+
+  const mockStock = (id: string, warehouseId: string, available: number, overrides: any = {}) => ({
+    id,
+    productId: `product-${id}`,
+    warehouseId,
+    quantity: available,
+    reservedQuantity: 0,
+    reorderPoint: 10,
+    reorderQuantity: 0,
+    leadTimeDays: 7,
+    getAvailableQuantity: jest.fn().mockReturnValue(available),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    replenishmentService = new ReplenishmentService();
+    mockEventPublisher = (replenishmentService as any).eventPublisher;
+    mockEventPublisher.publishEvent = jest.fn().mockResolvedValue(undefined);
+
+    // Mock transaction
+    mockTransaction = {};
+
+    // Models share inherited statics, so give each its own mocks
+    (Inventory.findAll as jest.Mock) = jest.fn();
+    (StockMovement.findAll as jest.Mock) = jest.fn().mockResolvedValue([]);
+  });
+
+  describe('getSuggestions', () => {
+    it('should size orders from shipments over the lookback window', async () => {
+      // Arrange
+      (Inventory.findAll as jest.Mock).mockResolvedValue([mockStock('inventory-1', 'warehouse-1', 4)]);
+      // 60 units shipped in 30 days is 2 a day, so 14 over a 7 day lead time
+      (StockMovement.findAll as jest.Mock).mockResolvedValue([
+        { inventoryId: 'inventory-1', quantityChange: '-60' },
+      ]);
+
+      // Act
+      const result = await replenishmentService.getSuggestions();
+
+      // Assert
+      expect(StockMovement.findAll).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ inventoryId: ['inventory-1'], type: 'shipment' }),
+          group: ['inventoryId'],
+        })
+      );
+      expect(result.lookbackDays).toBe(30);
+      expect(result.purchaseOrders).toHaveLength(1);
+      expect(result.purchaseOrders[0].lines[0]).toEqual(
+        expect.objectContaining({
+          inventoryId: 'inventory-1',
+          availableQuantity: 4,
+          averageDailyUsage: 2,
+          suggestedQuantity: 20,
+        })
+      );
+    });
+
+    it('should order at least the fixed reorder quantity', async () => {
+      // Arrange
+      (Inventory.findAll as jest.Mock).mockResolvedValue([
+        mockStock('inventory-1', 'warehouse-1', 8, { reorderQuantity: 50 }),
+      ]);
+
+      // Act
+      const result = await replenishmentService.getSuggestions();
+
+      // Assert
+      expect(result.purchaseOrders[0].lines[0].suggestedQuantity).toBe(50);
+    });
+
+    it('should group suggestions into one purchase order per warehouse', async () => {
+      // Arrange
+      (Inventory.findAll as jest.Mock).mockResolvedValue([
+        mockStock('inventory-1', 'warehouse-1', 0),
+        mockStock('inventory-2', 'warehouse-1', 5),
+        mockStock('inventory-3', 'warehouse-2', 10),
+      ]);
+
+      // Act
+      const result = await replenishmentService.getSuggestions({ lookbackDays: 14 });
+
+      // Assert
+      expect(result.lookbackDays).toBe(14);
+      expect(result.purchaseOrders.map((order) => order.warehouseId)).toEqual(['warehouse-1', 'warehouse-2']);
+      expect(result.purchaseOrders[0].lines).toHaveLength(2);
+      expect(result.purchaseOrders[0].totalQuantity).toBe(15);
+      expect(result.purchaseOrders[1].totalQuantity).toBe(1);
+    });
+
+    it('should skip the consumption query when nothing needs reordering', async () => {
+      // Arrange
+      (Inventory.findAll as jest.Mock).mockResolvedValue([]);
+
+      // Act
+      const result = await replenishmentService.getSuggestions({ warehouseId: 'warehouse-1' });
+
+      // Assert
+      expect(Inventory.findAll).toHaveBeenCalledWith(
+        expect.objectContaining({ where: expect.objectContaining({ warehouseId: 'warehouse-1' }) })
+      );
+      expect(StockMovement.findAll).not.toHaveBeenCalled();
+      expect(result.purchaseOrders).toEqual([]);
+    });
+  });
+
+  describe('suggestReorder', () => {
+    it('should publish a reorder suggestion with the stock change', async () => {
+      // Arrange
+      const inventory = mockStock('inventory-1', 'warehouse-1', 10, { leadTimeDays: 3 });
+      (StockMovement.findAll as jest.Mock).mockResolvedValue([
+        { inventoryId: 'inventory-1', quantityChange: -90 },
+      ]);
+
+      // Act
+      const suggestion = await replenishmentService.suggestReorder(inventory as any, mockTransaction);
+
+      // Assert
+      expect(StockMovement.findAll).toHaveBeenCalledWith(
+        expect.objectContaining({ transaction: mockTransaction })
+      );
+      expect(suggestion.suggestedQuantity).toBe(9);
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
+        type: 'inventory.reorder_suggested',
+        payload: suggestion,
+      }, mockTransaction);
+    });
+  });
+});
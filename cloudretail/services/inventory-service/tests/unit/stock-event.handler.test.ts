@@ -0,0 +1,82 @@
+/**
+ * Unit tests for Stock Event Handler
+ * Tests backorder allocation driven by stock events
+ */
+
+import { StockEventHandler } from '../../src/events/stock-event.handler';
+
+// Mock dependencies
+jest.mock('../../src/config/database');
+jest.mock('../../src/services/backorder.service');
+
+describe('StockEventHandler', () => {
+  let handler: StockEventHandler;
+  let mockBackorderService: any;
+
+  const event = (type: any, payload: any) => ({
+    id: 'event-123',
+    type,
+    payload,
+    timestamp: new Date(),
+    metadata: { correlationId: 'correlation-123', service: 'inventory-service' },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    handler = new StockEventHandler();
+    mockBackorderService = (handler as any).backorderService;
+    mockBackorderService.allocateBackorders = jest.fn().mockResolvedValue(0);
+  });
+
+  describe('handleInventoryUpdated', () => {
+    it('should allocate backorders when stock goes up', async () => {
+      // Act
+      await handler.handleInventoryUpdated(
+        event('inventory.updated', { productId: 'product-1', oldQuantity: 0, newQuantity: 5 })
+      );
+
+      // Assert
+      expect(mockBackorderService.allocateBackorders).toHaveBeenCalledWith(['product-1']);
+    });
+
+    it('should ignore stock going down', async () => {
+      // Act
+      await handler.handleInventoryUpdated(
+        event('inventory.updated', { productId: 'product-1', oldQuantity: 5, newQuantity: 3 })
+      );
+
+      // Assert
+      expect(mockBackorderService.allocateBackorders).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleInventoryCreated', () => {
+    it('should ignore records created without stock', async () => {
+      // Act
+      await handler.handleInventoryCreated(event('inventory.created', { productId: 'product-1', quantity: 0 }));
+
+      // Assert
+      expect(mockBackorderService.allocateBackorders).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleInventoryReleased', () => {
+    it('should allocate backorders for each released product once', async () => {
+      // Act
+      await handler.handleInventoryReleased(
+        event('inventory.released', {
+          orderId: 'order-123',
+          items: [
+            { productId: 'product-1', warehouseId: 'warehouse-1', quantity: 2 },
+            { productId: 'product-1', warehouseId: 'warehouse-2', quantity: 1 },
+            { productId: 'product-2', warehouseId: 'warehouse-1', quantity: 1 },
+          ],
+          expired: false,
+        })
+      );
+
+      // Assert
+      expect(mockBackorderService.allocateBackorders).toHaveBeenCalledWith(['product-1', 'product-2']);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Unit tests for stock import and export files
+ */
+
+import { formatFromContentType, parseStockFile, toCsvRow } from '../../src/services/stock-file';
+
+describe('stock-file', () => {
+  describe('formatFromContentType', () => {
+    it('should recognise CSV and JSON lines content types', () => {
+      // Assert
+      expect(formatFromContentType('text/csv; charset=utf-8')).toBe('csv');
+      expect(formatFromContentType('application/x-ndjson')).toBe('jsonl');
+      expect(formatFromContentType('application/jsonl')).toBe('jsonl');
+      expect(formatFromContentType('application/json')).toBeUndefined();
+      expect(formatFromContentType()).toBeUndefined();
+    });
+  });
+
+  describe('parseStockFile', () => {
+    it('should read CSV rows by header, skipping blank lines and empty cells', () => {
+      // Arrange
+      const content = 'sku,warehouseCode,quantity\r\nTSHIRT-M,SG-01,12\r\n\r\nMUG,,4\r\n';
+
+      // Act
+      const result = parseStockFile(content, 'csv');
+
+      // Assert
+      expect(result.errors).toEqual([]);
+      expect(result.records).toEqual([
+        { line: 2, fields: { sku: 'TSHIRT-M', warehouseCode: 'SG-01', quantity: '12' } },
+        { line: 4, fields: { sku: 'MUG', quantity: '4' } },
+      ]);
+    });
+
+    it('should honour quoted CSV fields', () => {
+      // Arrange
+      const content = 'sku,warehouseCode,quantity,reason\n"A,1",SG-01,3,"Said ""recount""\nafter audit"\nB,SG-01,1,x\n';
+
+      // Act
+      const result = parseStockFile(content, 'csv');
+
+      // Assert
+      expect(result.records).toEqual([
+        { line: 2, fields: { sku: 'A,1', warehouseCode: 'SG-01', quantity: '3', reason: 'Said "recount"\nafter audit' } },
+        { line: 4, fields: { sku: 'B', warehouseCode: 'SG-01', quantity: '1', reason: 'x' } },
+      ]);
+    });
+
+    it('should report CSV rows with the wrong number of columns', () => {
+      // Act
+      const result = parseStockFile('sku,warehouseCode,quantity\nA,SG-01\n', 'csv');
+
+      // Assert
+      expect(result.records).toEqual([]);
+      expect(result.errors).toEqual([{ line: 2, error: 'Expected 3 columns, found 2' }]);
+    });
+
+    it('should read JSON lines and report lines that are not objects', () => {
+      // Arrange
+      const content = '{"sku":"A","warehouseCode":"SG-01","quantity":3}\n\n[1]\nnot json\n';
+
+      // Act
+      const result = parseStockFile(content, 'jsonl');
+
+      // Assert
+      expect(result.records).toEqual([
+        { line: 1, fields: { sku: 'A', warehouseCode: 'SG-01', quantity: 3 } },
+      ]);
+      expect(result.errors).toEqual([
+        { line: 3, error: 'Line must be a JSON object' },
+        { line: 4, error: 'Invalid JSON' },
+      ]);
+    });
+  });
+
+  describe('toCsvRow', () => {
+    it('should quote values containing separators and quotes', () => {
+      // Assert
+      expect(toCsvRow(['a', 'b,c', 'say "hi"', 3, null, new Date('2026-01-01T00:00:00Z')])).toBe(
+        'a,"b,c","say ""hi""",3,,2026-01-01T00:00:00.000Z\n'
+      );
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for Warehouse Service
+ */
+
+import { WarehouseService } from '../../src/services/warehouse.service';
+import { Warehouse } from '../../src/config/database';
+import { NotFoundError, ConflictError } from '@cloudretail/middleware';
+
+// Mock dependencies
+jest.mock('../../src/config/database');
+
+describe('WarehouseService', () => {
+  let warehouseService: WarehouseService;
+
+  const warehouseData = {
+    code: 'SG-01',
+    name: 'Singapore Central',
+    address: { city: 'Singapore', state: 'SG', zipCode: '018956', country: 'SG' },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    warehouseService = new WarehouseService();
+  });
+
+  describe('createWarehouse', () => {
+    it('should create a warehouse', async () => {
+      // Arrange
+      (Warehouse.findOne as jest.Mock).mockResolvedValue(null);
+      (Warehouse.create as jest.Mock).mockResolvedValue({
+        id: 'warehouse-1',
+        ...warehouseData,
+        toJSON: () => ({ id: 'warehouse-1', ...warehouseData }),
+      });
+
+      // Act
+      const result = await warehouseService.createWarehouse(warehouseData);
+
+      // Assert
+      expect(Warehouse.findOne).toHaveBeenCalledWith({ where: { code: 'SG-01' } });
+      expect(Warehouse.create).toHaveBeenCalledWith(warehouseData);
+      expect(result.id).toBe('warehouse-1');
+    });
+
+    it('should throw ConflictError if the code is taken', async () => {
+      // Arrange
+      (Warehouse.findOne as jest.Mock).mockResolvedValue({ id: 'existing' });
+
+      // Act & Assert
+      await expect(warehouseService.createWarehouse(warehouseData)).rejects.toThrow(ConflictError);
+      expect(Warehouse.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getAllWarehouses', () => {
+    it('should list warehouses in allocation priority order', async () => {
+      // Arrange
+      (Warehouse.findAll as jest.Mock).mockResolvedValue([]);
+
+      // Act
+      await warehouseService.getAllWarehouses({ isActive: true });
+
+      // Assert
+      expect(Warehouse.findAll).toHaveBeenCalledWith({
+        where: { isActive: true },
+        order: [['priority', 'ASC'], ['code', 'ASC']],
+      });
+    });
+  });
+
+  describe('updateWarehouse', () => {
+    it('should update a warehouse', async () => {
+      // Arrange
+      const mockWarehouse = {
+        id: 'warehouse-1',
+        update: jest.fn().mockResolvedValue(undefined),
+        toJSON: () => ({ id: 'warehouse-1', isActive: false }),
+      };
+      (Warehouse.findByPk as jest.Mock).mockResolvedValue(mockWarehouse);
+
+      // Act
+      const result = await warehouseService.updateWarehouse('warehouse-1', { isActive: false });
+
+      // Assert
+      expect(mockWarehouse.update).toHaveBeenCalledWith({ isActive: false });
+      expect(result.isActive).toBe(false);
+    });
+
+    it('should throw NotFoundError if the warehouse does not exist', async () => {
+      // Arrange
+      (Warehouse.findByPk as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(warehouseService.updateWarehouse('missing', { name: 'x' })).rejects.toThrow(NotFoundError);
+    });
+  });
+});
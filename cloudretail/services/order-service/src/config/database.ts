@@ -1,6 +1,9 @@
 import { Sequelize } from 'sequelize';
 import { initOrderModel } from '../models/Order.model';
-import { logger } from '@cloudretail/middleware';
+import { initCheckoutSagaModel } from '../models/CheckoutSaga.model';
+import { initOrderStatusHistoryModel } from '../models/OrderStatusHistory.model';
+import { logger, SequelizeIdempotencyStore } from '@cloudretail/middleware';
+import { EventSubscriber, Outbox } from '@cloudretail/outbox';
 
 const sequelize = new Sequelize({
   dialect: 'postgres',
@@ -23,6 +26,17 @@ const sequelize = new Sequelize({
 
 // Initialize models
 export const Order = initOrderModel(sequelize);
+export const CheckoutSaga = initCheckoutSagaModel(sequelize);
+export const OrderStatusHistory = initOrderStatusHistoryModel(sequelize);
+
+// Events recorded with domain changes, relayed to the event bus
+export const outbox = new Outbox(sequelize, { service: 'order-service' });
+
+// Events consumed from the event bus, each handled once across instances
+export const eventSubscriber = new EventSubscriber(sequelize, { service: 'order-service' });
+
+// Responses stored against Idempotency-Key headers
+export const idempotencyStore = new SequelizeIdempotencyStore(sequelize);
 
 export async function connectDatabase(): Promise<void> {
   try {
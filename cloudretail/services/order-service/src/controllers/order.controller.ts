@@ -1,14 +1,18 @@
 import { Request, Response } from 'express';
 import { OrderService } from '../services/order.service';
-import { asyncHandler, AuthenticatedRequest } from '@cloudretail/middleware';
+import { CheckoutSagaService } from '../services/checkout-saga.service';
+import { asyncHandler, AuthenticatedRequest, PageParams } from '@cloudretail/middleware';
+import { OrderStatusEnum } from '@cloudretail/models';
 import Joi from 'joi';
 import { v4 as uuidv4 } from 'uuid';
 
 const orderService = new OrderService();
+const checkoutSagaService = new CheckoutSagaService();
 
 // Validation schemas
 const orderItemSchema = Joi.object({
   productId: Joi.string().uuid().required(),
+  variantId: Joi.string().uuid().optional(),
   productName: Joi.string().required(),
   quantity: Joi.number().integer().min(1).required(),
   price: Joi.number().min(0).required(),
@@ -27,10 +31,19 @@ const createOrderSchema = Joi.object({
   shippingAddress: shippingAddressSchema.required(),
 });
 
+const checkoutSchema = createOrderSchema.keys({
+  paymentMethod: Joi.string()
+    .valid('credit_card', 'debit_card', 'paypal', 'bank_transfer')
+    .required(),
+  paymentMetadata: Joi.object().optional(),
+  currency: Joi.string().length(3).optional(),
+});
+
 const updateStatusSchema = Joi.object({
   status: Joi.string()
-    .valid('pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled')
+    .valid(...OrderStatusEnum.options)
     .required(),
+  reason: Joi.string().max(500).optional(),
 });
 
 const updatePaymentSchema = Joi.object({
@@ -72,6 +85,76 @@ export const createOrder = asyncHandler(
   }
 );
 
+/**
+ * Create an order and run checkout (reserve, charge, confirm)
+ */
+export const checkout = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user!.userId;
+    const { error, value } = checkoutSchema.validate(req.body);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        },
+      });
+      return;
+    }
+
+    const result = await checkoutSagaService.startCheckout({
+      userId,
+      ...value,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: result,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Get checkout saga state for an order
+ */
+export const getCheckoutStatus = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+    const userRole = req.user!.role;
+
+    const order = await orderService.getOrderById(id);
+
+    if (order.userId !== userId && userRole !== 'admin') {
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You are not authorized to view this order',
+        },
+      });
+      return;
+    }
+
+    const saga = await checkoutSagaService.getSagaByOrderId(id);
+
+    res.json({
+      success: true,
+      data: saga,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
 /**
  * Get order by ID
  */
@@ -112,14 +195,66 @@ export const getOrderById = asyncHandler(
 export const getUserOrders = asyncHandler(
   async (req: AuthenticatedRequest, res: Response) => {
     const userId = req.user!.userId;
-    const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
-    const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+    const { orders, pagination } = await orderService.getOrdersByUser(userId, req.query as PageParams);
+
+    res.json({
+      success: true,
+      data: { orders },
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+        pagination,
+      },
+    });
+  }
+);
 
-    const result = await orderService.getOrdersByUser(userId, limit, offset);
+/**
+ * Check whether the user has received a product in a delivered order
+ */
+export const getDeliveredPurchase = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { productId } = req.params;
+    const purchase = await orderService.getDeliveredPurchase(req.user!.userId, productId);
 
     res.json({
       success: true,
-      data: result,
+      data: purchase,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Get order status history
+ */
+export const getOrderHistory = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+    const userRole = req.user!.role;
+
+    const order = await orderService.getOrderById(id);
+
+    if (order.userId !== userId && userRole !== 'admin') {
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You are not authorized to view this order',
+        },
+      });
+      return;
+    }
+
+    const history = await orderService.getOrderStatusHistory(id);
+
+    res.json({
+      success: true,
+      data: history,
       metadata: {
         timestamp: new Date(),
         requestId: uuidv4(),
@@ -147,7 +282,10 @@ export const updateOrderStatus = asyncHandler(
       return;
     }
 
-    const order = await orderService.updateOrderStatus(id, value.status);
+    const order = await orderService.updateOrderStatus(id, value.status, {
+      changedBy: req.user!.userId,
+      reason: value.reason,
+    });
 
     res.json({
       success: true,
@@ -199,18 +337,17 @@ export const getAllOrders = asyncHandler(async (req: Request, res: Response) =>
   const filters = {
     status: req.query.status as string | undefined,
     userId: req.query.userId as string | undefined,
-    limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
-    offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
   };
 
-  const result = await orderService.getAllOrders(filters);
+  const { orders, pagination } = await orderService.getAllOrders(filters, req.query as PageParams);
 
   res.json({
     success: true,
-    data: result,
+    data: { orders },
     metadata: {
       timestamp: new Date(),
       requestId: uuidv4(),
+      pagination,
     },
   });
 });
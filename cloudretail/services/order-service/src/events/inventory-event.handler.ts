@@ -0,0 +1,79 @@
+import { Event } from '@cloudretail/models';
+import { logger } from '@cloudretail/middleware';
+import { EventSubscriber } from '@cloudretail/outbox';
+import { CheckoutSaga } from '../config/database';
+import { OrderService } from '../services/order.service';
+
+/**
+ * Inventory Event Handler
+ * Cancels orders whose stock reservation expired before they were confirmed
+ * and moves backordered orders on once their stock is allocated
+ */
+export class InventoryEventHandler {
+  private orderService: OrderService;
+
+  constructor() {
+    this.orderService = new OrderService();
+  }
+
+  /**
+   * Register inventory event handlers with a subscriber
+   */
+  register(subscriber: EventSubscriber): void {
+    subscriber
+      .on('inventory.released', (event) => this.handleInventoryReleased(event))
+      .on('inventory.backorder_allocated', (event) => this.handleBackorderAllocated(event));
+  }
+
+  /**
+   * Cancel a pending order once its reservation has expired
+   */
+  async handleInventoryReleased(event: Event): Promise<void> {
+    const { orderId, expired } = event.payload;
+
+    // Releases requested by order-service follow a cancellation it already made
+    if (!expired) {
+      return;
+    }
+
+    const order = await this.orderService.getOrderById(orderId);
+
+    if (order.status !== 'pending') {
+      logger.debug('Order no longer pending, ignoring expired reservation', { orderId, status: order.status });
+      return;
+    }
+
+    // Checkout sagas cancel their own orders when a step fails
+    const saga = await CheckoutSaga.findOne({ where: { orderId } });
+    if (saga && saga.status !== 'completed') {
+      return;
+    }
+
+    await this.orderService.updateOrderStatus(orderId, 'cancelled', {
+      changedBy: event.metadata.service,
+      reason: 'Inventory reservation expired',
+      releaseInventory: false,
+    });
+  }
+
+  /**
+   * Record where a backordered order's stock was reserved and move it on:
+   * to confirmed if it is already paid for, otherwise to pending payment
+   */
+  async handleBackorderAllocated(event: Event): Promise<void> {
+    const { orderId, allocations } = event.payload;
+    const order = await this.orderService.getOrderById(orderId);
+
+    if (order.status !== 'backordered') {
+      logger.debug('Order no longer backordered, ignoring allocation', { orderId, status: order.status });
+      return;
+    }
+
+    await this.orderService.recordAllocations(orderId, allocations);
+
+    await this.orderService.updateOrderStatus(orderId, order.paymentId ? 'confirmed' : 'pending', {
+      changedBy: event.metadata.service,
+      reason: 'Backordered stock allocated',
+    });
+  }
+}
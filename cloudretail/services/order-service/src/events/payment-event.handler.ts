@@ -0,0 +1,129 @@
+import { Event } from '@cloudretail/models';
+import { logger } from '@cloudretail/middleware';
+import { EventSubscriber } from '@cloudretail/outbox';
+import { CheckoutSaga } from '../config/database';
+import { canTransitionOrderStatus } from '../models/Order.model';
+import { OrderService } from '../services/order.service';
+
+/**
+ * Payment Event Handler
+ * Moves orders through their lifecycle in response to payment-service events
+ */
+export class PaymentEventHandler {
+  private orderService: OrderService;
+
+  constructor() {
+    this.orderService = new OrderService();
+  }
+
+  /**
+   * Register payment event handlers with a subscriber
+   */
+  register(subscriber: EventSubscriber): void {
+    subscriber
+      .on('payment.authorized', (event) => this.handlePaymentAuthorized(event))
+      .on('payment.failed', (event) => this.handlePaymentFailed(event))
+      .on('payment.voided', (event) => this.handlePaymentVoided(event))
+      .on('payment.refunded', (event) => this.handlePaymentRefunded(event));
+  }
+
+  /**
+   * Attach the payment and confirm a pending order
+   */
+  async handlePaymentAuthorized(event: Event): Promise<void> {
+    const { orderId, paymentId } = event.payload;
+    const order = await this.orderService.getOrderById(orderId);
+
+    // Checkout sagas attach the payment and confirm the order in their own confirm step
+    const saga = await CheckoutSaga.findOne({ where: { orderId } });
+    if (saga) {
+      return;
+    }
+
+    if (order.paymentId !== paymentId) {
+      await this.orderService.updatePaymentId(orderId, paymentId);
+    }
+
+    if (order.status !== 'pending') {
+      logger.debug('Order already past pending, skipping confirmation', { orderId, status: order.status });
+      return;
+    }
+
+    await this.orderService.updateOrderStatus(orderId, 'confirmed', {
+      changedBy: event.metadata.service,
+      reason: `Payment ${paymentId} authorized`,
+    });
+  }
+
+  /**
+   * Cancel a pending order whose payment failed
+   */
+  async handlePaymentFailed(event: Event): Promise<void> {
+    const { orderId, paymentId, reason } = event.payload;
+    const order = await this.orderService.getOrderById(orderId);
+
+    if (order.status !== 'pending') {
+      return;
+    }
+
+    // Checkout sagas run their own compensation, including the cancellation
+    const saga = await CheckoutSaga.findOne({ where: { orderId } });
+    if (saga) {
+      return;
+    }
+
+    await this.orderService.updateOrderStatus(orderId, 'cancelled', {
+      changedBy: event.metadata.service,
+      reason: reason || `Payment ${paymentId} failed`,
+    });
+  }
+
+  /**
+   * Cancel an unshipped order whose authorization was voided, such as on expiry
+   */
+  async handlePaymentVoided(event: Event): Promise<void> {
+    const { orderId, paymentId, reason } = event.payload;
+    const order = await this.orderService.getOrderById(orderId);
+
+    if (!canTransitionOrderStatus(order.status, 'cancelled')) {
+      logger.debug('Order cannot be cancelled from its current status', { orderId, status: order.status });
+      return;
+    }
+
+    // Checkout sagas void the payment as part of their own compensation
+    const saga = await CheckoutSaga.findOne({ where: { orderId } });
+    if (saga && saga.status !== 'completed') {
+      return;
+    }
+
+    await this.orderService.updateOrderStatus(orderId, 'cancelled', {
+      changedBy: event.metadata.service,
+      reason: reason || `Payment ${paymentId} voided`,
+    });
+  }
+
+  /**
+   * Mark an order refunded once its payment has been fully refunded
+   */
+  async handlePaymentRefunded(event: Event): Promise<void> {
+    const { orderId, paymentId, reason, fullyRefunded } = event.payload;
+
+    // Partial refunds, such as for a single line item, leave the order as it is
+    if (fullyRefunded === false) {
+      logger.debug('Partial refund recorded, order status unchanged', { orderId, paymentId });
+      return;
+    }
+
+    const order = await this.orderService.getOrderById(orderId);
+
+    if (!canTransitionOrderStatus(order.status, 'refunded')) {
+      logger.debug('Order cannot be refunded from its current status', { orderId, status: order.status });
+      return;
+    }
+
+    await this.orderService.updateOrderStatus(orderId, 'refunded', {
+      changedBy: event.metadata.service,
+      reason: reason || `Payment ${paymentId} refunded`,
+    });
+  }
+}
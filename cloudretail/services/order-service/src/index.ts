@@ -9,8 +9,11 @@ import {
   gdprCompliance,
   HealthCheck,
 } from '@cloudretail/middleware';
-import { connectDatabase } from './config/database';
+import { connectDatabase, eventSubscriber, outbox } from './config/database';
 import orderRoutes from './routes/order.routes';
+import { CheckoutSagaRecovery } from './services/checkout-saga-recovery';
+import { PaymentEventHandler } from './events/payment-event.handler';
+import { InventoryEventHandler } from './events/inventory-event.handler';
 import { logger } from '@cloudretail/middleware';
 
 // Load environment variables
@@ -19,6 +22,7 @@ dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 3003;
 const healthCheck = new HealthCheck();
+const checkoutSagaRecovery = new CheckoutSagaRecovery();
 
 // Security middleware
 app.use(helmetMiddleware);
@@ -65,6 +69,17 @@ async function startServer() {
     // Connect to database
     await connectDatabase();
 
+    // Deliver events recorded in the outbox
+    outbox.start();
+
+    // Finish checkouts interrupted by a crash or stuck compensating
+    checkoutSagaRecovery.start();
+
+    // Drive order status from payment and inventory events
+    new PaymentEventHandler().register(eventSubscriber);
+    new InventoryEventHandler().register(eventSubscriber);
+    eventSubscriber.start();
+
     app.listen(PORT, () => {
       logger.info(`Order Service started on port ${PORT}`);
       logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
@@ -78,6 +93,9 @@ async function startServer() {
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully');
+  eventSubscriber.stop();
+  await checkoutSagaRecovery.stop();
+  await outbox.stop();
   const { disconnectDatabase } = await import('./config/database');
   await disconnectDatabase();
   process.exit(0);
@@ -85,6 +103,9 @@ process.on('SIGTERM', async () => {
 
 process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully');
+  eventSubscriber.stop();
+  await checkoutSagaRecovery.stop();
+  await outbox.stop();
   const { disconnectDatabase } = await import('./config/database');
   await disconnectDatabase();
   process.exit(0);
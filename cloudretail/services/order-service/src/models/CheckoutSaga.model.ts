@@ -0,0 +1,119 @@
+import { Model, DataTypes, Sequelize, Optional } from 'sequelize';
+import { InventoryAllocation, OrderAttributes, OrderItem } from './Order.model';
+
+export type CheckoutStepName = 'reserve' | 'charge' | 'confirm';
+
+export type CheckoutStepStatus = 'pending' | 'started' | 'completed' | 'failed' | 'compensated';
+
+export type CheckoutSagaStatus = 'running' | 'compensating' | 'completed' | 'compensated';
+
+export interface CheckoutStep {
+  name: CheckoutStepName;
+  status: CheckoutStepStatus;
+  startedAt?: Date;
+  completedAt?: Date;
+  error?: string;
+  // Set when the step failed on a timeout and so may have taken effect
+  timedOut?: boolean;
+}
+
+export interface CheckoutContext {
+  userId: string;
+  items: OrderItem[];
+  amount: number;
+  currency: string;
+  paymentMethod: 'credit_card' | 'debit_card' | 'paypal' | 'bank_transfer';
+  paymentMetadata?: any;
+  shippingAddress?: OrderAttributes['shippingAddress'];
+  paymentId?: string;
+  allocations?: InventoryAllocation[];
+}
+
+export interface CheckoutSagaAttributes {
+  id: string;
+  orderId: string;
+  status: CheckoutSagaStatus;
+  steps: CheckoutStep[];
+  context: CheckoutContext;
+  lastError?: string;
+  lockedBy?: string | null;
+  lockedUntil?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface CheckoutSagaCreationAttributes extends Optional<CheckoutSagaAttributes, 'id' | 'status' | 'lastError' | 'lockedBy' | 'lockedUntil' | 'createdAt' | 'updatedAt'> {}
+
+export class CheckoutSaga extends Model<CheckoutSagaAttributes, CheckoutSagaCreationAttributes> implements CheckoutSagaAttributes {
+  public id!: string;
+  public orderId!: string;
+  public status!: CheckoutSagaStatus;
+  public steps!: CheckoutStep[];
+  public context!: CheckoutContext;
+  public lastError?: string;
+  public lockedBy?: string | null;
+  public lockedUntil?: Date | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+export function initCheckoutSagaModel(sequelize: Sequelize): typeof CheckoutSaga {
+  CheckoutSaga.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      orderId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        unique: true,
+      },
+      status: {
+        type: DataTypes.ENUM('running', 'compensating', 'completed', 'compensated'),
+        defaultValue: 'running',
+        allowNull: false,
+      },
+      steps: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+      },
+      context: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+      },
+      lastError: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      // Lease held by the instance driving the saga; others resume it
+      // only once the lease has expired
+      lockedBy: {
+        type: DataTypes.STRING,
+        allowNull: true,
+      },
+      lockedUntil: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'checkout_sagas',
+      timestamps: true,
+      indexes: [
+        {
+          fields: ['orderId'],
+          unique: true,
+        },
+        {
+          fields: ['status', 'lockedUntil'],
+        },
+      ],
+    }
+  );
+
+  return CheckoutSaga;
+}
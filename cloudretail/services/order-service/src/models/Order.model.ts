@@ -1,11 +1,115 @@
 import { Model, DataTypes, Sequelize, Optional } from 'sequelize';
+import { OrderStatus, OrderStatusEnum } from '@cloudretail/models';
+
+/**
+ * Allowed order status transitions
+ * Terminal states (cancelled, refunded) have no outgoing transitions.
+ * Backordered orders move on once inventory-service allocates their stock.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  backordered: ['pending', 'confirmed', 'cancelled'],
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['processing', 'cancelled', 'refunded'],
+  processing: ['shipped', 'cancelled', 'refunded'],
+  shipped: ['delivered'],
+  delivered: ['refunded'],
+  cancelled: [],
+  refunded: [],
+};
+
+export function canTransitionOrderStatus(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Warehouse stock reserved for an order by inventory-service
+ */
+export interface InventoryAllocation {
+  productId: string;
+  variantId?: string;
+  warehouseId: string;
+  quantity: number;
+}
+
+/**
+ * Terms an item short of stock was ordered on
+ */
+export interface BackorderTerms {
+  mode: 'backorder' | 'preorder';
+  expectedRestockDate?: string | null;
+}
+
+/**
+ * Availability of an item as reported by inventory-service
+ */
+export interface ItemAvailability {
+  productId: string;
+  variantId?: string;
+  requestedQuantity: number;
+  availableQuantity: number;
+  backorder?: BackorderTerms;
+}
 
 export interface OrderItem {
   productId: string;
+  // Set when a particular variant of the product, e.g. a size, was ordered
+  variantId?: string;
   productName?: string;
   quantity: number;
   price: number;
   subtotal: number;
+  // Warehouses fulfilling this item, set once inventory is reserved
+  allocations?: Array<{ warehouseId: string; quantity: number }>;
+  // Set when the item was short of stock and taken as a backorder or pre-order
+  backorder?: BackorderTerms;
+}
+
+/**
+ * Whether two lines refer to the same stock: the same product, and the same
+ * variant of it if any
+ */
+function isSameStock(
+  a: { productId: string; variantId?: string },
+  b: { productId: string; variantId?: string }
+): boolean {
+  return a.productId === b.productId && (a.variantId || null) === (b.variantId || null);
+}
+
+/**
+ * Record on each item which warehouses fulfil it. A product ordered in
+ * several lines takes allocations in line order.
+ */
+export function applyAllocations(items: OrderItem[], allocations: InventoryAllocation[]): OrderItem[] {
+  const remaining = allocations.map((allocation) => ({ ...allocation }));
+
+  return items.map((item) => {
+    const itemAllocations: Array<{ warehouseId: string; quantity: number }> = [];
+    let needed = item.quantity;
+
+    for (const allocation of remaining) {
+      if (needed === 0) break;
+      if (!isSameStock(allocation, item) || allocation.quantity === 0) continue;
+
+      const quantity = Math.min(allocation.quantity, needed);
+      itemAllocations.push({ warehouseId: allocation.warehouseId, quantity });
+      allocation.quantity -= quantity;
+      needed -= quantity;
+    }
+
+    return itemAllocations.length > 0 ? { ...item, allocations: itemAllocations } : item;
+  });
+}
+
+/**
+ * Record on each item short of stock the terms it was backordered on
+ */
+export function applyBackorderTerms(items: OrderItem[], availability: ItemAvailability[]): OrderItem[] {
+  const backordered = availability.filter((line) => line.backorder);
+
+  return items.map((item) => {
+    const line = backordered.find((candidate) => isSameStock(candidate, item));
+    return line ? { ...item, backorder: line.backorder } : item;
+  });
 }
 
 export interface OrderAttributes {
@@ -13,7 +117,7 @@ export interface OrderAttributes {
   userId: string;
   items: OrderItem[];
   totalAmount: number;
-  status: 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+  status: OrderStatus;
   shippingAddress: {
     street: string;
     city: string;
@@ -33,7 +137,7 @@ export class Order extends Model<OrderAttributes, OrderCreationAttributes> imple
   public userId!: string;
   public items!: OrderItem[];
   public totalAmount!: number;
-  public status!: 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+  public status!: OrderStatus;
   public shippingAddress!: {
     street: string;
     city: string;
@@ -83,7 +187,7 @@ export function initOrderModel(sequelize: Sequelize): typeof Order {
         },
       },
       status: {
-        type: DataTypes.ENUM('pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled'),
+        type: DataTypes.ENUM(...OrderStatusEnum.options),
         defaultValue: 'pending',
         allowNull: false,
       },
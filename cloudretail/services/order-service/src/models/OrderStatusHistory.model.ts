@@ -0,0 +1,70 @@
+import { Model, DataTypes, Sequelize, Optional } from 'sequelize';
+import { OrderStatus, OrderStatusEnum } from '@cloudretail/models';
+
+export interface OrderStatusHistoryAttributes {
+  id: string;
+  orderId: string;
+  fromStatus?: OrderStatus | null;
+  toStatus: OrderStatus;
+  changedBy: string;
+  reason?: string;
+  createdAt?: Date;
+}
+
+export interface OrderStatusHistoryCreationAttributes extends Optional<OrderStatusHistoryAttributes, 'id' | 'fromStatus' | 'reason' | 'createdAt'> {}
+
+export class OrderStatusHistory extends Model<OrderStatusHistoryAttributes, OrderStatusHistoryCreationAttributes> implements OrderStatusHistoryAttributes {
+  public id!: string;
+  public orderId!: string;
+  public fromStatus?: OrderStatus | null;
+  public toStatus!: OrderStatus;
+  public changedBy!: string;
+  public reason?: string;
+
+  public readonly createdAt!: Date;
+}
+
+export function initOrderStatusHistoryModel(sequelize: Sequelize): typeof OrderStatusHistory {
+  OrderStatusHistory.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      orderId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+      },
+      fromStatus: {
+        type: DataTypes.ENUM(...OrderStatusEnum.options),
+        allowNull: true,
+      },
+      toStatus: {
+        type: DataTypes.ENUM(...OrderStatusEnum.options),
+        allowNull: false,
+      },
+      changedBy: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      reason: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'order_status_history',
+      timestamps: true,
+      updatedAt: false,
+      indexes: [
+        {
+          fields: ['orderId', 'createdAt'],
+        },
+      ],
+    }
+  );
+
+  return OrderStatusHistory;
+}
@@ -6,22 +6,32 @@ import {
   updateOrderStatus,
   updatePaymentId,
   getAllOrders,
+  checkout,
+  getCheckoutStatus,
+  getOrderHistory,
+  getDeliveredPurchase,
 } from '../controllers/order.controller';
 import {
   authenticate,
   authorize,
   strictRateLimiter,
   standardRateLimiter,
+  idempotency,
 } from '@cloudretail/middleware';
+import { idempotencyStore } from '../config/database';
 
 const router = Router();
 
 /**
  * Protected routes - require authentication
  */
-router.post('/', authenticate, strictRateLimiter, createOrder);
+router.post('/', authenticate, strictRateLimiter, idempotency(idempotencyStore), createOrder);
+router.post('/checkout', authenticate, strictRateLimiter, idempotency(idempotencyStore), checkout);
 router.get('/', authenticate, standardRateLimiter, getUserOrders);
+router.get('/purchases/:productId', authenticate, standardRateLimiter, getDeliveredPurchase);
 router.get('/:id', authenticate, standardRateLimiter, getOrderById);
+router.get('/:id/checkout', authenticate, standardRateLimiter, getCheckoutStatus);
+router.get('/:id/history', authenticate, standardRateLimiter, getOrderHistory);
 
 /**
  * Admin routes
@@ -0,0 +1,36 @@
+import { logger } from '@cloudretail/middleware';
+import { PeriodicWorker } from '@cloudretail/outbox';
+import sequelize from '../config/database';
+import { CheckoutSagaService } from './checkout-saga.service';
+
+/**
+ * Checkout Saga Recovery
+ * Periodically resumes checkouts no instance is driving: those interrupted
+ * by a shutdown or crash, and those whose compensation failed, so stock
+ * holds and payment authorizations are not left in place
+ */
+export class CheckoutSagaRecovery extends PeriodicWorker {
+  private checkoutSagaService: CheckoutSagaService;
+
+  constructor(options: { intervalMs?: number } = {}) {
+    super(sequelize, {
+      name: 'checkout-saga-recovery',
+      intervalMs:
+        options.intervalMs || parseInt(process.env.CHECKOUT_SAGA_RECOVERY_INTERVAL_MS || '30000'),
+    });
+    this.checkoutSagaService = new CheckoutSagaService();
+  }
+
+  /**
+   * Resume every in-flight saga whose lease has expired
+   */
+  protected async work(): Promise<number> {
+    const resumed = await this.checkoutSagaService.resumeInFlightSagas();
+
+    if (resumed > 0) {
+      logger.info(`Resumed ${resumed} in-flight checkout saga(s)`);
+    }
+
+    return resumed;
+  }
+}
@@ -0,0 +1,527 @@
+import { randomUUID } from 'crypto';
+import { Op, Transaction } from 'sequelize';
+import sequelize, { CheckoutSaga, Order, OrderStatusHistory } from '../config/database';
+import { Order as OrderInstance, OrderItem } from '../models/Order.model';
+import {
+  CheckoutContext,
+  CheckoutSaga as CheckoutSagaInstance,
+  CheckoutStep,
+  CheckoutStepName,
+} from '../models/CheckoutSaga.model';
+import {
+  NotFoundError,
+  ValidationError,
+  logger,
+} from '@cloudretail/middleware';
+import { EventPublisher } from '../events/event-publisher';
+import { OrderService } from './order.service';
+
+/**
+ * Checkout steps in execution order. Compensation runs in reverse.
+ */
+const CHECKOUT_STEPS: CheckoutStepName[] = ['reserve', 'charge', 'confirm'];
+
+// Identifies this process as the holder of saga leases
+const INSTANCE_ID = randomUUID();
+
+/**
+ * A call to another service that got no answer in time. The call may still
+ * have taken effect there.
+ */
+class RequestTimeoutError extends Error {
+  constructor(url: string, timeoutMs: number) {
+    super(`Request to ${url} timed out after ${timeoutMs}ms`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/**
+ * Checkout Saga Orchestrator
+ * Coordinates inventory reservation, payment and order confirmation,
+ * persisting each step so that in-flight checkouts survive a restart
+ */
+export class CheckoutSagaService {
+  private eventPublisher: EventPublisher;
+  private orderService: OrderService;
+  private inventoryServiceUrl: string;
+  private paymentServiceUrl: string;
+  private internalApiKey: string;
+  private requestTimeoutMs: number;
+  private leaseMs: number;
+
+  constructor() {
+    this.eventPublisher = new EventPublisher();
+    this.orderService = new OrderService();
+    this.inventoryServiceUrl = process.env.INVENTORY_SERVICE_URL || 'http://localhost:3004';
+    this.paymentServiceUrl = process.env.PAYMENT_SERVICE_URL || 'http://localhost:3005';
+    this.internalApiKey = process.env.INTERNAL_API_KEY || '';
+    this.requestTimeoutMs = parseInt(process.env.SERVICE_REQUEST_TIMEOUT_MS || '10000');
+    this.leaseMs = parseInt(process.env.CHECKOUT_SAGA_LEASE_MS || '60000');
+  }
+
+  /**
+   * Create an order and run the checkout saga for it
+   */
+  async startCheckout(checkoutData: {
+    userId: string;
+    items: OrderItem[];
+    shippingAddress: {
+      street: string;
+      city: string;
+      state: string;
+      zipCode: string;
+      country: string;
+    };
+    paymentMethod: CheckoutContext['paymentMethod'];
+    paymentMetadata?: any;
+    currency?: string;
+  }) {
+    if (!checkoutData.items || checkoutData.items.length === 0) {
+      throw new ValidationError('Order must contain at least one item');
+    }
+
+    const itemsWithSubtotals = checkoutData.items.map((item) => ({
+      ...item,
+      subtotal: item.quantity * item.price,
+    }));
+
+    const totalAmount = itemsWithSubtotals.reduce((total, item) => total + item.subtotal, 0);
+
+    const transaction = await sequelize.transaction();
+    let order: OrderInstance;
+    let saga: CheckoutSagaInstance;
+
+    try {
+      order = await Order.create(
+        {
+          userId: checkoutData.userId,
+          items: itemsWithSubtotals,
+          shippingAddress: checkoutData.shippingAddress,
+          totalAmount,
+          status: 'pending',
+        },
+        { transaction }
+      );
+
+      saga = await CheckoutSaga.create(
+        {
+          orderId: order.id,
+          status: 'running',
+          steps: CHECKOUT_STEPS.map((name) => ({ name, status: 'pending' })),
+          context: {
+            userId: checkoutData.userId,
+            items: itemsWithSubtotals,
+            amount: totalAmount,
+            currency: checkoutData.currency || 'USD',
+            paymentMethod: checkoutData.paymentMethod,
+            paymentMetadata: checkoutData.paymentMetadata,
+            shippingAddress: checkoutData.shippingAddress,
+          },
+          lockedBy: INSTANCE_ID,
+          lockedUntil: this.leaseExpiry(),
+        },
+        { transaction }
+      );
+
+      await OrderStatusHistory.create(
+        {
+          orderId: order.id,
+          toStatus: 'pending',
+          changedBy: checkoutData.userId,
+        },
+        { transaction }
+      );
+
+      await this.eventPublisher.publishEvent({
+        type: 'order.created',
+        payload: {
+          orderId: order.id,
+          userId: order.userId,
+          totalAmount: order.totalAmount,
+          items: order.items,
+        },
+      }, transaction);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error starting checkout', { error });
+      throw error;
+    }
+
+    logger.info('Checkout saga started', { sagaId: saga.id, orderId: order.id });
+
+    await this.run(saga);
+
+    return {
+      order: await this.orderService.getOrderById(order.id),
+      saga: saga.toJSON(),
+    };
+  }
+
+  /**
+   * Get checkout saga state for an order
+   */
+  async getSagaByOrderId(orderId: string) {
+    const saga = await CheckoutSaga.findOne({ where: { orderId } });
+
+    if (!saga) {
+      throw new NotFoundError('Checkout saga');
+    }
+
+    return saga.toJSON();
+  }
+
+  /**
+   * Resume sagas left running or compensating whose lease has expired:
+   * those of an instance that died, and those whose compensation failed
+   * and needs retrying
+   */
+  async resumeInFlightSagas(limit: number = 20): Promise<number> {
+    const sagas = await this.claimStaleSagas(limit);
+
+    for (const saga of sagas) {
+      try {
+        logger.info('Resuming checkout saga', { sagaId: saga.id, status: saga.status });
+        await this.run(saga);
+      } catch (error) {
+        logger.error('Error resuming checkout saga', { sagaId: saga.id, error });
+      }
+    }
+
+    return sagas.length;
+  }
+
+  /**
+   * Take over the leases of in-flight sagas nobody is driving. Rows
+   * another instance is claiming are skipped rather than waited on.
+   */
+  private async claimStaleSagas(limit: number): Promise<CheckoutSagaInstance[]> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const sagas = await CheckoutSaga.findAll({
+        where: {
+          status: ['running', 'compensating'],
+          [Op.or]: [{ lockedUntil: null }, { lockedUntil: { [Op.lte]: new Date() } }],
+        },
+        order: [['createdAt', 'ASC']],
+        limit,
+        lock: Transaction.LOCK.UPDATE,
+        skipLocked: true,
+        transaction,
+      });
+
+      for (const saga of sagas) {
+        await saga.update({ lockedBy: INSTANCE_ID, lockedUntil: this.leaseExpiry() }, { transaction });
+      }
+
+      await transaction.commit();
+      return sagas;
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Drive a saga forward, or backward if a step has failed, then give up
+   * its lease. A saga left compensating is retried by the next recovery run.
+   */
+  private async run(saga: CheckoutSagaInstance): Promise<void> {
+    try {
+      if (saga.status === 'running') {
+        await this.executeSteps(saga);
+      }
+
+      if (saga.status === 'compensating') {
+        await this.compensate(saga);
+      }
+    } finally {
+      await saga.update({ lockedBy: null, lockedUntil: null }).catch((error) => {
+        logger.warn('Could not release checkout saga lease', { sagaId: saga.id, error });
+      });
+    }
+  }
+
+  private leaseExpiry(): Date {
+    return new Date(Date.now() + this.leaseMs);
+  }
+
+  /**
+   * Execute every step that has not completed yet
+   */
+  private async executeSteps(saga: CheckoutSagaInstance): Promise<void> {
+    for (const name of CHECKOUT_STEPS) {
+      const step = this.getStep(saga, name);
+
+      if (step.status === 'completed') {
+        continue;
+      }
+
+      // A step left 'started' crashed mid-flight; check whether it took effect
+      if (step.status === 'started' && (await this.isStepApplied(saga, name))) {
+        await this.updateStep(saga, name, { status: 'completed', completedAt: new Date() });
+        continue;
+      }
+
+      try {
+        await this.updateStep(saga, name, { status: 'started', startedAt: new Date() });
+        await this.executeStep(saga, name);
+        await this.updateStep(saga, name, { status: 'completed', completedAt: new Date() });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+
+        await this.updateStep(saga, name, {
+          status: 'failed',
+          error: message,
+          timedOut: error instanceof RequestTimeoutError || undefined,
+        });
+        await saga.update({ status: 'compensating', lastError: message });
+
+        logger.warn('Checkout saga step failed', {
+          sagaId: saga.id,
+          orderId: saga.orderId,
+          step: name,
+          reason: message,
+        });
+        return;
+      }
+    }
+
+    await saga.update({ status: 'completed' });
+
+    logger.info('Checkout saga completed', { sagaId: saga.id, orderId: saga.orderId });
+  }
+
+  /**
+   * Undo completed steps, and a step that timed out, in reverse order and
+   * cancel the order
+   */
+  private async compensate(saga: CheckoutSagaInstance): Promise<void> {
+    const completedSteps = [...CHECKOUT_STEPS].reverse().filter((name) => {
+      const step = this.getStep(saga, name);
+      return step.status === 'completed' || (step.status === 'failed' && step.timedOut);
+    });
+
+    for (const name of completedSteps) {
+      try {
+        await this.compensateStep(saga, name);
+        await this.updateStep(saga, name, { status: 'compensated' });
+      } catch (error) {
+        // Leave the saga compensating so the next resume retries it
+        logger.error('Checkout saga compensation failed', {
+          sagaId: saga.id,
+          orderId: saga.orderId,
+          step: name,
+          error,
+        });
+        return;
+      }
+    }
+
+    try {
+      await this.cancelOrder(saga);
+    } catch (error) {
+      logger.error('Checkout saga could not cancel order', {
+        sagaId: saga.id,
+        orderId: saga.orderId,
+        error,
+      });
+      return;
+    }
+
+    await saga.update({ status: 'compensated' });
+
+    logger.info('Checkout saga compensated', { sagaId: saga.id, orderId: saga.orderId });
+  }
+
+  /**
+   * Perform the forward action of a step
+   */
+  private async executeStep(saga: CheckoutSagaInstance, name: CheckoutStepName): Promise<void> {
+    const { context } = saga;
+
+    switch (name) {
+      case 'reserve': {
+        const reservation = await this.request(`${this.inventoryServiceUrl}/api/inventory/reserve`, 'POST', {
+          orderId: saga.orderId,
+          items: context.items.map(({ productId, variantId, quantity }) => ({ productId, variantId, quantity })),
+          shippingAddress: context.shippingAddress,
+        });
+
+        const allocations = reservation?.allocations || [];
+        await saga.update({ context: { ...context, allocations } });
+        await this.orderService.recordAllocations(saga.orderId, allocations);
+        return;
+      }
+
+      case 'charge': {
+        // Funds are only authorized here; payment-service captures them on shipment
+        const payment = await this.request(
+          `${this.paymentServiceUrl}/api/payments/internal/authorize`,
+          'POST',
+          {
+            orderId: saga.orderId,
+            userId: context.userId,
+            amount: context.amount,
+            currency: context.currency,
+            paymentMethod: context.paymentMethod,
+            metadata: context.paymentMetadata,
+          }
+        );
+
+        if (payment.status !== 'authorized') {
+          throw new Error(payment.failureReason || 'Payment was not authorized');
+        }
+
+        await saga.update({ context: { ...context, paymentId: payment.id } });
+        return;
+      }
+
+      case 'confirm': {
+        await this.orderService.updatePaymentId(saga.orderId, context.paymentId!);
+
+        const order = await this.orderService.getOrderById(saga.orderId);
+        if (order.status !== 'confirmed') {
+          await this.orderService.updateOrderStatus(saga.orderId, 'confirmed', {
+            changedBy: 'checkout-saga',
+          });
+        }
+        return;
+      }
+    }
+  }
+
+  /**
+   * Perform the compensating action of a completed step
+   */
+  private async compensateStep(saga: CheckoutSagaInstance, name: CheckoutStepName): Promise<void> {
+    const { context } = saga;
+
+    switch (name) {
+      case 'reserve':
+        await this.request(`${this.inventoryServiceUrl}/api/inventory/release`, 'POST', {
+          orderId: saga.orderId,
+        });
+        return;
+
+      case 'charge':
+        // A timed-out authorization may have gone through without returning
+        // its id. If it cannot be found yet, payment-service still voids it
+        // when the order is cancelled.
+        if (!context.paymentId && !(await this.isStepApplied(saga, name))) {
+          return;
+        }
+
+        await this.request(
+          `${this.paymentServiceUrl}/api/payments/internal/${saga.context.paymentId}/void`,
+          'POST',
+          { reason: `Checkout failed: ${saga.lastError || 'unknown error'}` }
+        );
+        return;
+
+      case 'confirm':
+        // Final step; nothing runs after it that could fail
+        return;
+    }
+  }
+
+  /**
+   * Check whether a step interrupted by a crash has already taken effect
+   */
+  private async isStepApplied(saga: CheckoutSagaInstance, name: CheckoutStepName): Promise<boolean> {
+    if (name !== 'charge') {
+      // Reservation and confirmation are simply re-run
+      return false;
+    }
+
+    try {
+      const payment = await this.request(
+        `${this.paymentServiceUrl}/api/payments/internal/order/${saga.orderId}`,
+        'GET'
+      );
+
+      if (payment.status !== 'authorized' && payment.status !== 'captured') {
+        return false;
+      }
+
+      await saga.update({ context: { ...saga.context, paymentId: payment.id } });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Mark the order cancelled once all compensations have run
+   */
+  private async cancelOrder(saga: CheckoutSagaInstance): Promise<void> {
+    const order = await this.orderService.getOrderById(saga.orderId);
+
+    if (order.status === 'cancelled') {
+      return;
+    }
+
+    // Inventory has already been released by the reserve compensation
+    await this.orderService.updateOrderStatus(saga.orderId, 'cancelled', {
+      changedBy: 'checkout-saga',
+      reason: saga.lastError,
+      releaseInventory: false,
+    });
+  }
+
+  private getStep(saga: CheckoutSagaInstance, name: CheckoutStepName): CheckoutStep {
+    return saga.steps.find((step) => step.name === name)!;
+  }
+
+  /**
+   * Persist a step change, renewing the saga's lease; steps are replaced
+   * so the JSONB column is marked dirty
+   */
+  private async updateStep(
+    saga: CheckoutSagaInstance,
+    name: CheckoutStepName,
+    changes: Partial<CheckoutStep>
+  ): Promise<void> {
+    const steps = saga.steps.map((step) => (step.name === name ? { ...step, ...changes } : step));
+    await saga.update({ steps, lockedUntil: this.leaseExpiry() });
+  }
+
+  /**
+   * Call another service and return its response data, throwing on failure
+   * or when no response arrives within the request timeout
+   */
+  private async request(url: string, method: 'GET' | 'POST', body?: any): Promise<any> {
+    let response: Response;
+    let result: any;
+
+    try {
+      response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-API-Key': this.internalApiKey,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+        signal: AbortSignal.timeout(this.requestTimeoutMs),
+      });
+
+      result = await response.json().catch((error) => {
+        if ((error as Error)?.name === 'TimeoutError') throw error;
+        return {};
+      });
+    } catch (error) {
+      if ((error as Error)?.name === 'TimeoutError') {
+        throw new RequestTimeoutError(url, this.requestTimeoutMs);
+      }
+      throw error;
+    }
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error?.message || `Request to ${url} failed with status ${response.status}`);
+    }
+
+    return result.data;
+  }
+}
@@ -1,12 +1,34 @@
-import { Order } from '../config/database';
-import { OrderItem } from '../models/Order.model';
+import { randomUUID } from 'crypto';
+import { Op, Transaction } from 'sequelize';
+import sequelize, { Order, OrderStatusHistory } from '../config/database';
+import {
+  OrderItem,
+  InventoryAllocation,
+  ItemAvailability,
+  applyAllocations,
+  applyBackorderTerms,
+  canTransitionOrderStatus,
+} from '../models/Order.model';
+import { OrderStatus } from '@cloudretail/models';
 import {
   NotFoundError,
+  ConflictError,
+  ServiceUnavailableError,
   ValidationError,
   logger,
+  PageParams,
+  PaginationConfig,
+  parsePageParams,
+  pageQuery,
+  pageResult,
 } from '@cloudretail/middleware';
 import { EventPublisher } from '../events/event-publisher';
 
+// Sorts offered by order lists
+export const ORDER_PAGINATION: PaginationConfig = {
+  sortFields: ['createdAt', 'updatedAt', 'totalAmount', 'status'],
+};
+
 export class OrderService {
   private eventPublisher: EventPublisher;
   private inventoryServiceUrl: string;
@@ -30,56 +52,108 @@ export class OrderService {
 
   /**
    * Verify inventory availability
+   * Returns null if availability could not be checked
    */
-  private async verifyInventory(items: OrderItem[]): Promise<boolean> {
+  private async verifyInventory(items: OrderItem[]): Promise<{
+    available: boolean;
+    backorderable?: boolean;
+    items?: ItemAvailability[];
+  } | null> {
     try {
       const response = await fetch(`${this.inventoryServiceUrl}/api/inventory/verify`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ items }),
+        body: JSON.stringify({
+          items: items.map(({ productId, variantId, quantity }) => ({ productId, variantId, quantity })),
+        }),
       });
 
       if (!response.ok) {
-        return false;
+        return null;
       }
 
       const result: any = await response.json();
-      return result.success && result.data.available;
+      return result.success ? result.data : null;
     } catch (error) {
       logger.error('Error verifying inventory', { error });
-      return false;
+      return null;
     }
   }
 
   /**
    * Reserve inventory for order
+   * Returns the warehouse allocations, or null if the reservation failed
    */
-  private async reserveInventory(orderId: string, items: OrderItem[]): Promise<boolean> {
+  private async reserveInventory(
+    orderId: string,
+    items: OrderItem[],
+    shippingAddress?: object
+  ): Promise<InventoryAllocation[] | null> {
     try {
       const response = await fetch(`${this.inventoryServiceUrl}/api/inventory/reserve`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ orderId, items }),
+        body: JSON.stringify({
+          orderId,
+          items: items.map(({ productId, variantId, quantity }) => ({ productId, variantId, quantity })),
+          shippingAddress,
+        }),
       });
 
       if (!response.ok) {
-        return false;
+        return null;
       }
 
       const result: any = await response.json();
-      return result.success;
+      return result.success ? result.data?.allocations || [] : null;
     } catch (error) {
       logger.error('Error reserving inventory', { error });
+      return null;
+    }
+  }
+
+  /**
+   * Queue an order in inventory-service until there is stock to fill it
+   * Returns false if the order could not be queued
+   */
+  private async queueBackorder(
+    orderId: string,
+    items: OrderItem[],
+    shippingAddress?: object
+  ): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.inventoryServiceUrl}/api/inventory/backorders`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          orderId,
+          items: items.map(({ productId, variantId, quantity }) => ({ productId, variantId, quantity })),
+          shippingAddress,
+        }),
+      });
+
+      if (!response.ok) {
+        return false;
+      }
+
+      const result: any = await response.json();
+      return Boolean(result.success);
+    } catch (error) {
+      logger.error('Error queueing backorder', { error });
       return false;
     }
   }
 
   /**
    * Create a new order
+   * Orders for items short of stock that can be backordered or pre-ordered
+   * are taken as 'backordered' and confirmed once their stock is allocated
    */
   async createOrder(orderData: {
     userId: string;
@@ -107,38 +181,84 @@ export class OrderService {
       const totalAmount = this.calculateOrderTotal(itemsWithSubtotals);
 
       // Verify inventory availability
-      const inventoryAvailable = await this.verifyInventory(itemsWithSubtotals);
-      if (!inventoryAvailable) {
+      const availability = await this.verifyInventory(itemsWithSubtotals);
+      if (!availability || (!availability.available && !availability.backorderable)) {
         throw new ValidationError('One or more items are out of stock');
       }
 
-      // Create order
-      const order = await Order.create({
-        ...orderData,
-        items: itemsWithSubtotals,
-        totalAmount,
-        status: 'pending',
-      });
-
-      // Reserve inventory
-      const inventoryReserved = await this.reserveInventory(order.id, itemsWithSubtotals);
-      if (!inventoryReserved) {
-        await order.destroy();
-        throw new ValidationError('Failed to reserve inventory');
+      const backordered = !availability.available;
+      const items = backordered
+        ? applyBackorderTerms(itemsWithSubtotals, availability.items || [])
+        : itemsWithSubtotals;
+      const status: OrderStatus = backordered ? 'backordered' : 'pending';
+
+      // The ID is chosen up front so stock can be held for the order before it is written
+      const orderId = randomUUID();
+      let allocations: InventoryAllocation[] = [];
+
+      if (backordered) {
+        // Stock is reserved when it arrives, in the order backorders were taken
+        if (!(await this.queueBackorder(orderId, items, orderData.shippingAddress))) {
+          throw new ValidationError('Failed to backorder items');
+        }
+      } else {
+        // Reserve inventory
+        const reserved = await this.reserveInventory(orderId, items, orderData.shippingAddress);
+        if (!reserved) {
+          throw new ValidationError('Failed to reserve inventory');
+        }
+        allocations = reserved;
       }
 
-      // Publish order created event
-      await this.eventPublisher.publishEvent({
-        type: 'order.created',
-        payload: {
-          orderId: order.id,
-          userId: order.userId,
-          totalAmount: order.totalAmount,
-          items: order.items,
-        },
-      });
+      const transaction = await sequelize.transaction();
+      let order;
+
+      try {
+        // Create order, recording which warehouses the stock was reserved at
+        order = await Order.create(
+          {
+            ...orderData,
+            id: orderId,
+            items: backordered ? items : applyAllocations(items, allocations),
+            totalAmount,
+            status,
+          },
+          { transaction }
+        );
+
+        await OrderStatusHistory.create(
+          {
+            orderId: order.id,
+            toStatus: status,
+            changedBy: orderData.userId,
+          },
+          { transaction }
+        );
+
+        // Publish order created event
+        await this.eventPublisher.publishEvent({
+          type: 'order.created',
+          payload: {
+            orderId: order.id,
+            userId: order.userId,
+            totalAmount: order.totalAmount,
+            status: order.status,
+            items: order.items,
+          },
+        }, transaction);
+
+        await transaction.commit();
+      } catch (error) {
+        await transaction.rollback();
+
+        // Give back the stock held, or the backorder queued, for the order never written
+        await this.releaseInventory(orderId).catch((releaseError) => {
+          logger.error('Error releasing inventory', { error: releaseError, orderId });
+        });
+        throw error;
+      }
 
-      logger.info('Order created successfully', { orderId: order.id });
+      logger.info('Order created successfully', { orderId: order.id, status });
 
       return order.toJSON();
     } catch (error) {
@@ -161,76 +281,150 @@ export class OrderService {
   }
 
   /**
-   * Get orders by user
+   * Get a page of a user's orders
    */
-  async getOrdersByUser(userId: string, limit: number = 100, offset: number = 0) {
-    const orders = await Order.findAndCountAll({
-      where: { userId },
-      limit,
-      offset,
+  async getOrdersByUser(userId: string, params: PageParams = {}) {
+    const page = parsePageParams(params, ORDER_PAGINATION);
+    const orders = await Order.findAll(pageQuery(page, { userId }));
+    const { rows, pagination } = pageResult(orders, page);
+
+    return {
+      orders: rows.map((o) => o.toJSON()),
+      pagination,
+    };
+  }
+
+  /**
+   * Find the user's most recent delivered order containing a product
+   */
+  async getDeliveredPurchase(userId: string, productId: string) {
+    const order = await Order.findOne({
+      where: {
+        userId,
+        status: 'delivered',
+        // Matches orders with an item for the product, whatever its other fields
+        items: { [Op.contains]: [{ productId } as OrderItem] },
+      },
       order: [['createdAt', 'DESC']],
     });
 
     return {
-      orders: orders.rows.map((o) => o.toJSON()),
-      total: orders.count,
-      limit,
-      offset,
+      productId,
+      purchased: order !== null,
+      orderId: order ? order.id : null,
     };
   }
 
   /**
    * Update order status
+   * Rejects transitions not allowed by ORDER_STATUS_TRANSITIONS and records history.
+   * The order is locked while the transition is checked, so concurrent callers,
+   * such as the checkout saga and payment events, see each other's changes.
    */
   async updateOrderStatus(
     orderId: string,
-    status: 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled'
+    status: OrderStatus,
+    options: {
+      changedBy?: string;
+      reason?: string;
+      releaseInventory?: boolean;
+    } = {}
   ) {
-    const order = await Order.findByPk(orderId);
+    const transaction = await sequelize.transaction();
+    let order;
+    let oldStatus: OrderStatus;
 
-    if (!order) {
-      throw new NotFoundError('Order');
-    }
+    try {
+      order = await Order.findByPk(orderId, { transaction, lock: Transaction.LOCK.UPDATE });
 
-    const oldStatus = order.status;
-    await order.update({ status });
-
-    // Publish order status updated event
-    await this.eventPublisher.publishEvent({
-      type: 'order.status_updated',
-      payload: {
-        orderId: order.id,
-        oldStatus,
-        newStatus: status,
-        userId: order.userId,
-      },
-    });
+      if (!order) {
+        throw new NotFoundError('Order');
+      }
 
-    // If order is cancelled, release inventory
-    if (status === 'cancelled') {
-      await this.releaseInventory(orderId, order.items);
+      oldStatus = order.status;
 
-      // Publish order cancelled event
-      await this.eventPublisher.publishEvent({
-        type: 'order.cancelled',
-        payload: {
+      // Someone else made this change first; it has already been recorded
+      if (oldStatus === status) {
+        await transaction.commit();
+        return order.toJSON();
+      }
+
+      if (!canTransitionOrderStatus(oldStatus, status)) {
+        throw new ConflictError(`Cannot change order status from '${oldStatus}' to '${status}'`);
+      }
+
+      await order.update({ status }, { transaction });
+
+      await OrderStatusHistory.create(
+        {
           orderId: order.id,
-          userId: order.userId,
-          totalAmount: order.totalAmount,
+          fromStatus: oldStatus,
+          toStatus: status,
+          changedBy: options.changedBy || 'system',
+          reason: options.reason,
         },
-      });
-    }
+        { transaction }
+      );
 
-    // If order is confirmed, trigger payment processing
-    if (status === 'confirmed') {
+      // Publish order status updated event
       await this.eventPublisher.publishEvent({
-        type: 'order.confirmed',
+        type: 'order.status_updated',
         payload: {
           orderId: order.id,
+          oldStatus,
+          newStatus: status,
           userId: order.userId,
-          totalAmount: order.totalAmount,
         },
-      });
+      }, transaction);
+
+      if (status === 'cancelled') {
+        await this.eventPublisher.publishEvent({
+          type: 'order.cancelled',
+          payload: {
+            orderId: order.id,
+            userId: order.userId,
+            totalAmount: order.totalAmount,
+          },
+        }, transaction);
+      }
+
+      // Confirmed orders trigger payment processing
+      if (status === 'confirmed') {
+        await this.eventPublisher.publishEvent({
+          type: 'order.confirmed',
+          payload: {
+            orderId: order.id,
+            userId: order.userId,
+            totalAmount: order.totalAmount,
+          },
+        }, transaction);
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error updating order status', { error, orderId });
+      throw error;
+    }
+
+    // Keep a confirmed order's stock past the reservation expiry
+    if (status === 'confirmed') {
+      await this.holdReservations(orderId);
+    }
+
+    // If order is cancelled, release inventory
+    if (status === 'cancelled' && options.releaseInventory !== false) {
+      await this.releaseInventory(orderId);
+    }
+
+    // If order is refunded before shipping, its stock is still only reserved
+    if (status === 'refunded' && (oldStatus === 'confirmed' || oldStatus === 'processing')) {
+      await this.releaseInventory(orderId);
+    }
+
+    // If order is shipped, turn its reservation into a stock deduction
+    if (status === 'shipped') {
+      await this.confirmInventoryUsage(orderId);
     }
 
     logger.info('Order status updated', { orderId, oldStatus, newStatus: status });
@@ -238,6 +432,18 @@ export class OrderService {
     return order.toJSON();
   }
 
+  /**
+   * Get status change history for an order, oldest first
+   */
+  async getOrderStatusHistory(orderId: string) {
+    const history = await OrderStatusHistory.findAll({
+      where: { orderId },
+      order: [['createdAt', 'ASC']],
+    });
+
+    return history.map((entry) => entry.toJSON());
+  }
+
   /**
    * Update payment ID for order
    */
@@ -255,54 +461,100 @@ export class OrderService {
     return order.toJSON();
   }
 
+  /**
+   * Record the warehouse allocations of an order's reserved stock
+   */
+  async recordAllocations(orderId: string, allocations: InventoryAllocation[]) {
+    const order = await Order.findByPk(orderId);
+
+    if (!order) {
+      throw new NotFoundError('Order');
+    }
+
+    await order.update({ items: applyAllocations(order.items, allocations) });
+
+    return order.toJSON();
+  }
+
   /**
    * Release inventory for order
+   * Throws if inventory-service cannot be reached or refuses the release
+   */
+  private async releaseInventory(orderId: string): Promise<void> {
+    const response = await fetch(`${this.inventoryServiceUrl}/api/inventory/release`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ orderId }),
+    });
+
+    if (!response.ok) {
+      throw new ServiceUnavailableError(`Inventory release failed with status ${response.status}`);
+    }
+  }
+
+  /**
+   * Hold the reservations of a confirmed order until it ships or is cancelled.
+   * inventory-service also holds them on order.confirmed if this fails.
    */
-  private async releaseInventory(orderId: string, items: OrderItem[]): Promise<void> {
+  private async holdReservations(orderId: string): Promise<void> {
     try {
-      await fetch(`${this.inventoryServiceUrl}/api/inventory/release`, {
+      const response = await fetch(`${this.inventoryServiceUrl}/api/inventory/hold`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ orderId, items }),
+        body: JSON.stringify({ orderId }),
       });
+
+      if (!response.ok) {
+        throw new Error(`Inventory hold failed with status ${response.status}`);
+      }
     } catch (error) {
-      logger.error('Error releasing inventory', { error });
+      logger.error('Error holding inventory reservations', { error, orderId });
+    }
+  }
+
+  /**
+   * Confirm inventory usage for a shipped order
+   * Throws if inventory-service cannot be reached or refuses the confirmation
+   */
+  private async confirmInventoryUsage(orderId: string): Promise<void> {
+    const response = await fetch(`${this.inventoryServiceUrl}/api/inventory/confirm`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ orderId }),
+    });
+
+    if (!response.ok) {
+      throw new ServiceUnavailableError(`Inventory confirmation failed with status ${response.status}`);
     }
   }
 
   /**
    * Get all orders (admin only)
    */
-  async getAllOrders(filters?: {
-    status?: string;
-    userId?: string;
-    limit?: number;
-    offset?: number;
-  }) {
+  async getAllOrders(filters: { status?: string; userId?: string } = {}, params: PageParams = {}) {
+    const page = parsePageParams(params, ORDER_PAGINATION);
     const where: any = {};
 
-    if (filters?.status) {
+    if (filters.status) {
       where.status = filters.status;
     }
 
-    if (filters?.userId) {
+    if (filters.userId) {
       where.userId = filters.userId;
     }
 
-    const orders = await Order.findAndCountAll({
-      where,
-      limit: filters?.limit || 100,
-      offset: filters?.offset || 0,
-      order: [['createdAt', 'DESC']],
-    });
+    const orders = await Order.findAll(pageQuery(page, where));
+    const { rows, pagination } = pageResult(orders, page);
 
     return {
-      orders: orders.rows.map((o) => o.toJSON()),
-      total: orders.count,
-      limit: filters?.limit || 100,
-      offset: filters?.offset || 0,
+      orders: rows.map((o) => o.toJSON()),
+      pagination,
     };
   }
 }
@@ -0,0 +1,422 @@
+/**
+ * Unit tests for Checkout Saga Service
+ * Tests step orchestration, compensation and recovery of in-flight sagas
+ */
+
+import { CheckoutSagaService } from '../../src/services/checkout-saga.service';
+import { CheckoutSaga, Order, OrderStatusHistory } from '../../src/config/database';
+import sequelize from '../../src/config/database';
+import { ValidationError } from '@cloudretail/middleware';
+import { Op } from 'sequelize';
+
+// Mock dependencies
+jest.mock('../../src/config/database');
+jest.mock('../../src/events/event-publisher');
+jest.mock('../../src/services/order.service');
+
+// Mock fetch
+global.fetch = jest.fn();
+
+const jsonResponse = (data: any, ok: boolean = true) =>
+  Promise.resolve({
+    ok,
+    status: ok ? 200 : 400,
+    json: () => Promise.resolve(ok ? { success: true, data } : { success: false, error: { message: data } }),
+  });
+
+describe('CheckoutSagaService', () => {
+  let checkoutSagaService: CheckoutSagaService;
+  let mockEventPublisher: any;
+  let mockOrderService: any;
+  let mockTransaction: any;
+
+  const items = [{ productId: 'product-1', quantity: 2, price: 50, subtotal: 100 }];
+
+  const createMockSaga = (overrides: any = {}) => {
+    const saga: any = {
+      id: 'saga-123',
+      orderId: 'order-123',
+      status: 'running',
+      steps: [
+        { name: 'reserve', status: 'pending' },
+        { name: 'charge', status: 'pending' },
+        { name: 'confirm', status: 'pending' },
+      ],
+      context: {
+        userId: 'user-123',
+        items,
+        amount: 100,
+        currency: 'USD',
+        paymentMethod: 'credit_card',
+      },
+      ...overrides,
+    };
+    saga.update = jest.fn(async (changes: any) => Object.assign(saga, changes));
+    saga.toJSON = () => ({ id: saga.id, status: saga.status, steps: saga.steps });
+    return saga;
+  };
+
+  const stepStatus = (saga: any, name: string) =>
+    saga.steps.find((step: any) => step.name === name).status;
+
+  const calledUrls = () => (global.fetch as jest.Mock).mock.calls.map(([url]) => url);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    checkoutSagaService = new CheckoutSagaService();
+    mockEventPublisher = (checkoutSagaService as any).eventPublisher;
+    mockEventPublisher.publishEvent = jest.fn().mockResolvedValue(undefined);
+    mockOrderService = (checkoutSagaService as any).orderService;
+    mockOrderService.getOrderById = jest.fn().mockResolvedValue({ id: 'order-123' });
+    mockOrderService.updatePaymentId = jest.fn().mockResolvedValue(undefined);
+    mockOrderService.updateOrderStatus = jest.fn().mockResolvedValue(undefined);
+    mockOrderService.recordAllocations = jest.fn().mockResolvedValue(undefined);
+
+    mockTransaction = {
+      commit: jest.fn().mockResolvedValue(undefined),
+      rollback: jest.fn().mockResolvedValue(undefined),
+    };
+    (sequelize.transaction as jest.Mock) = jest.fn().mockResolvedValue(mockTransaction);
+
+    // Automocked models share inherited static mocks, so give each its own
+    (CheckoutSaga.create as jest.Mock) = jest.fn();
+    (CheckoutSaga.findAll as jest.Mock) = jest.fn();
+    (OrderStatusHistory.create as jest.Mock) = jest.fn().mockResolvedValue(undefined);
+  });
+
+  describe('startCheckout', () => {
+    const checkoutData = {
+      userId: 'user-123',
+      items: [{ productId: 'product-1', quantity: 2, price: 50, subtotal: 0 }],
+      shippingAddress: {
+        street: '123 Main St',
+        city: 'Test City',
+        state: 'TS',
+        zipCode: '12345',
+        country: 'USA',
+      },
+      paymentMethod: 'credit_card' as const,
+    };
+
+    let mockSaga: any;
+
+    beforeEach(() => {
+      mockSaga = createMockSaga();
+      (Order.create as jest.Mock).mockResolvedValue({
+        id: 'order-123',
+        userId: 'user-123',
+        totalAmount: 100,
+        items,
+      });
+      (CheckoutSaga.create as jest.Mock).mockResolvedValue(mockSaga);
+    });
+
+    it('should reserve, charge and confirm the order', async () => {
+      // Arrange
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.includes('/reserve')) return jsonResponse({ success: true });
+        if (url.includes('/internal/authorize')) return jsonResponse({ id: 'payment-123', status: 'authorized' });
+        return Promise.reject(new Error('Unknown URL'));
+      });
+
+      // Act
+      await checkoutSagaService.startCheckout(checkoutData);
+
+      // Assert
+      expect(Order.create).toHaveBeenCalledWith(
+        expect.objectContaining({ totalAmount: 100, status: 'pending' }),
+        { transaction: mockTransaction }
+      );
+      expect(OrderStatusHistory.create).toHaveBeenCalledWith(
+        { orderId: 'order-123', toStatus: 'pending', changedBy: 'user-123' },
+        { transaction: mockTransaction }
+      );
+      expect(mockTransaction.commit).toHaveBeenCalled();
+      expect(mockOrderService.updatePaymentId).toHaveBeenCalledWith('order-123', 'payment-123');
+      expect(mockOrderService.updateOrderStatus).toHaveBeenCalledWith('order-123', 'confirmed', {
+        changedBy: 'checkout-saga',
+      });
+      expect(mockSaga.status).toBe('completed');
+      expect(mockSaga.steps.every((step: any) => step.status === 'completed')).toBe(true);
+    });
+
+    it('should record where stock was reserved', async () => {
+      // Arrange
+      const allocations = [{ productId: 'product-1', warehouseId: 'warehouse-1', quantity: 2 }];
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.includes('/reserve')) return jsonResponse({ success: true, allocations });
+        if (url.includes('/internal/authorize')) return jsonResponse({ id: 'payment-123', status: 'authorized' });
+        return Promise.reject(new Error('Unknown URL'));
+      });
+
+      // Act
+      await checkoutSagaService.startCheckout(checkoutData);
+
+      // Assert
+      expect(CheckoutSaga.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          context: expect.objectContaining({ shippingAddress: checkoutData.shippingAddress }),
+        }),
+        { transaction: mockTransaction }
+      );
+      expect(mockSaga.context.allocations).toEqual(allocations);
+      expect(mockOrderService.recordAllocations).toHaveBeenCalledWith('order-123', allocations);
+    });
+
+    it('should release inventory and cancel the order when payment is declined', async () => {
+      // Arrange
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.includes('/reserve')) {
+          return jsonResponse({
+            success: true,
+            allocations: [{ productId: 'product-1', warehouseId: 'warehouse-1', quantity: 2 }],
+          });
+        }
+        if (url.includes('/internal/authorize')) {
+          return jsonResponse({ id: 'payment-123', status: 'failed', failureReason: 'Card declined' });
+        }
+        if (url.includes('/release')) return jsonResponse({ success: true });
+        return Promise.reject(new Error('Unknown URL'));
+      });
+
+      // Act
+      await checkoutSagaService.startCheckout(checkoutData);
+
+      // Assert
+      const releaseCall = (global.fetch as jest.Mock).mock.calls.find(([url]) => url.includes('/api/inventory/release'));
+      expect(JSON.parse(releaseCall[1].body)).toEqual({ orderId: 'order-123' });
+      expect(calledUrls()).not.toEqual(expect.arrayContaining([expect.stringContaining('/void')]));
+      expect(mockOrderService.updateOrderStatus).toHaveBeenCalledWith(
+        'order-123',
+        'cancelled',
+        expect.objectContaining({ releaseInventory: false })
+      );
+      expect(stepStatus(mockSaga, 'reserve')).toBe('compensated');
+      expect(stepStatus(mockSaga, 'charge')).toBe('failed');
+      expect(mockSaga.status).toBe('compensated');
+      expect(mockSaga.lastError).toBe('Card declined');
+    });
+
+    it('should hold a lease on the saga while running it and release it after', async () => {
+      // Arrange
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.includes('/reserve')) return jsonResponse({ success: true });
+        if (url.includes('/internal/authorize')) return jsonResponse({ id: 'payment-123', status: 'authorized' });
+        return Promise.reject(new Error('Unknown URL'));
+      });
+
+      // Act
+      await checkoutSagaService.startCheckout(checkoutData);
+
+      // Assert
+      const [created] = (CheckoutSaga.create as jest.Mock).mock.calls[0];
+      expect(created.lockedBy).toEqual(expect.any(String));
+      expect(created.lockedUntil.getTime()).toBeGreaterThan(Date.now());
+      expect(mockSaga.update).toHaveBeenCalledWith(
+        expect.objectContaining({ steps: expect.any(Array), lockedUntil: expect.any(Date) })
+      );
+      expect(mockSaga.update).toHaveBeenLastCalledWith({ lockedBy: null, lockedUntil: null });
+    });
+
+    it('should void payment and release inventory when confirmation fails', async () => {
+      // Arrange
+      mockOrderService.updateOrderStatus.mockRejectedValueOnce(new Error('Database unavailable'));
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.includes('/reserve')) return jsonResponse({ success: true });
+        if (url.includes('/internal/authorize')) return jsonResponse({ id: 'payment-123', status: 'authorized' });
+        if (url.includes('/void')) return jsonResponse({ id: 'payment-123', status: 'voided' });
+        if (url.includes('/release')) return jsonResponse({ success: true });
+        return Promise.reject(new Error('Unknown URL'));
+      });
+
+      // Act
+      await checkoutSagaService.startCheckout(checkoutData);
+
+      // Assert
+      const urls = calledUrls();
+      const voidIndex = urls.findIndex((url: string) => url.includes('/internal/payment-123/void'));
+      const releaseIndex = urls.findIndex((url: string) => url.includes('/release'));
+      expect(voidIndex).toBeGreaterThan(-1);
+      expect(releaseIndex).toBeGreaterThan(voidIndex);
+      expect(stepStatus(mockSaga, 'charge')).toBe('compensated');
+      expect(stepStatus(mockSaga, 'confirm')).toBe('failed');
+      expect(mockSaga.status).toBe('compensated');
+    });
+
+    it('should not release inventory when reservation fails', async () => {
+      // Arrange
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.includes('/reserve')) return jsonResponse('Insufficient stock', false);
+        return Promise.reject(new Error('Unknown URL'));
+      });
+
+      // Act
+      await checkoutSagaService.startCheckout(checkoutData);
+
+      // Assert
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(mockOrderService.updateOrderStatus).toHaveBeenCalledWith(
+        'order-123',
+        'cancelled',
+        expect.objectContaining({ releaseInventory: false })
+      );
+      expect(mockSaga.status).toBe('compensated');
+      expect(mockSaga.lastError).toBe('Insufficient stock');
+    });
+
+    it('should fail a step that times out and undo what it may have done', async () => {
+      // Arrange
+      const timeout = Object.assign(new Error('The operation was aborted due to timeout'), { name: 'TimeoutError' });
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.includes('/reserve')) return jsonResponse({ success: true });
+        if (url.includes('/internal/authorize')) return Promise.reject(timeout);
+        if (url.includes('/internal/order/')) return jsonResponse({ id: 'payment-123', status: 'authorized' });
+        if (url.includes('/void')) return jsonResponse({ id: 'payment-123', status: 'voided' });
+        if (url.includes('/release')) return jsonResponse({ success: true });
+        return Promise.reject(new Error('Unknown URL'));
+      });
+
+      // Act
+      await checkoutSagaService.startCheckout(checkoutData);
+
+      // Assert
+      const [, init] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(init.signal).toBeInstanceOf(AbortSignal);
+      expect(mockSaga.lastError).toBe(
+        'Request to http://localhost:3005/api/payments/internal/authorize timed out after 10000ms'
+      );
+      expect(calledUrls()).toEqual(expect.arrayContaining([
+        expect.stringContaining('/internal/payment-123/void'),
+        expect.stringContaining('/api/inventory/release'),
+      ]));
+      expect(stepStatus(mockSaga, 'charge')).toBe('compensated');
+      expect(stepStatus(mockSaga, 'reserve')).toBe('compensated');
+      expect(mockSaga.status).toBe('compensated');
+    });
+
+    it('should not void anything when a timed-out charge never reached payment', async () => {
+      // Arrange
+      const timeout = Object.assign(new Error('The operation was aborted due to timeout'), { name: 'TimeoutError' });
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.includes('/reserve')) return jsonResponse({ success: true });
+        if (url.includes('/internal/authorize')) return Promise.reject(timeout);
+        if (url.includes('/internal/order/')) return jsonResponse('Payment not found', false);
+        if (url.includes('/release')) return jsonResponse({ success: true });
+        return Promise.reject(new Error('Unknown URL'));
+      });
+
+      // Act
+      await checkoutSagaService.startCheckout(checkoutData);
+
+      // Assert
+      expect(calledUrls()).not.toEqual(expect.arrayContaining([expect.stringContaining('/void')]));
+      expect(calledUrls()).toEqual(expect.arrayContaining([expect.stringContaining('/api/inventory/release')]));
+      expect(mockSaga.status).toBe('compensated');
+    });
+
+    it('should throw ValidationError if order has no items', async () => {
+      // Act & Assert
+      await expect(
+        checkoutSagaService.startCheckout({ ...checkoutData, items: [] })
+      ).rejects.toThrow(ValidationError);
+      expect(Order.create).not.toHaveBeenCalled();
+    });
+
+    it('should roll back when the saga record cannot be created', async () => {
+      // Arrange
+      (CheckoutSaga.create as jest.Mock).mockRejectedValue(new Error('Insert failed'));
+
+      // Act & Assert
+      await expect(checkoutSagaService.startCheckout(checkoutData)).rejects.toThrow('Insert failed');
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resumeInFlightSagas', () => {
+    it('should claim only sagas whose lease has expired, skipping rows being claimed', async () => {
+      // Arrange
+      const mockSaga = createMockSaga({
+        steps: [
+          { name: 'reserve', status: 'completed' },
+          { name: 'charge', status: 'completed' },
+          { name: 'confirm', status: 'pending' },
+        ],
+        context: { ...createMockSaga().context, paymentId: 'payment-123' },
+      });
+      (CheckoutSaga.findAll as jest.Mock).mockResolvedValue([mockSaga]);
+
+      // Act
+      await checkoutSagaService.resumeInFlightSagas();
+
+      // Assert
+      expect(CheckoutSaga.findAll).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            status: ['running', 'compensating'],
+            [Op.or]: [{ lockedUntil: null }, { lockedUntil: { [Op.lte]: expect.any(Date) } }],
+          },
+          limit: 20,
+          skipLocked: true,
+          transaction: mockTransaction,
+        })
+      );
+      expect(mockSaga.update).toHaveBeenCalledWith(
+        { lockedBy: expect.any(String), lockedUntil: expect.any(Date) },
+        { transaction: mockTransaction }
+      );
+      expect(mockTransaction.commit).toHaveBeenCalled();
+      expect(mockSaga.status).toBe('completed');
+      expect(mockSaga.lockedBy).toBeNull();
+    });
+
+    it('should continue after an interrupted charge that already succeeded', async () => {
+      // Arrange
+      const mockSaga = createMockSaga({
+        steps: [
+          { name: 'reserve', status: 'completed' },
+          { name: 'charge', status: 'started' },
+          { name: 'confirm', status: 'pending' },
+        ],
+      });
+      (CheckoutSaga.findAll as jest.Mock).mockResolvedValue([mockSaga]);
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.includes('/internal/order/')) return jsonResponse({ id: 'payment-123', status: 'authorized' });
+        return Promise.reject(new Error('Unknown URL'));
+      });
+
+      // Act
+      const resumed = await checkoutSagaService.resumeInFlightSagas();
+
+      // Assert
+      expect(resumed).toBe(1);
+      expect(calledUrls()).not.toEqual(expect.arrayContaining([expect.stringContaining('/internal/authorize')]));
+      expect(mockOrderService.updatePaymentId).toHaveBeenCalledWith('order-123', 'payment-123');
+      expect(mockSaga.status).toBe('completed');
+    });
+
+    it('should keep compensating when a compensation call fails', async () => {
+      // Arrange
+      const mockSaga = createMockSaga({
+        status: 'compensating',
+        steps: [
+          { name: 'reserve', status: 'completed' },
+          { name: 'charge', status: 'failed' },
+          { name: 'confirm', status: 'pending' },
+        ],
+      });
+      (CheckoutSaga.findAll as jest.Mock).mockResolvedValue([mockSaga]);
+      (global.fetch as jest.Mock).mockRejectedValue(new Error('Connection refused'));
+
+      // Act
+      await checkoutSagaService.resumeInFlightSagas();
+
+      // Assert
+      expect(mockSaga.status).toBe('compensating');
+      expect(stepStatus(mockSaga, 'reserve')).toBe('completed');
+      expect(mockOrderService.updateOrderStatus).not.toHaveBeenCalled();
+      // Released, so the next recovery run retries the compensation
+      expect(mockSaga.lockedUntil).toBeNull();
+    });
+  });
+});
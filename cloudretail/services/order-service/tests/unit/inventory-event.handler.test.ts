@@ -0,0 +1,133 @@
+/**
+ * Unit tests for Inventory Event Handler
+ * Tests cancellation of orders whose stock reservation expired and
+ * allocation of backordered orders
+ */
+
+import { InventoryEventHandler } from '../../src/events/inventory-event.handler';
+import { CheckoutSaga } from '../../src/config/database';
+
+// Mock dependencies
+jest.mock('../../src/config/database');
+jest.mock('../../src/services/order.service');
+
+describe('InventoryEventHandler', () => {
+  let handler: InventoryEventHandler;
+  let mockOrderService: any;
+
+  const releasedEvent = (payload: any) => ({
+    id: 'event-123',
+    type: 'inventory.released' as const,
+    payload: { orderId: 'order-123', items: [], ...payload },
+    timestamp: new Date(),
+    metadata: { correlationId: 'correlation-123', service: 'inventory-service' },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    handler = new InventoryEventHandler();
+    mockOrderService = (handler as any).orderService;
+    mockOrderService.getOrderById = jest.fn().mockResolvedValue({ id: 'order-123', status: 'pending' });
+    mockOrderService.updateOrderStatus = jest.fn().mockResolvedValue(undefined);
+    mockOrderService.recordAllocations = jest.fn().mockResolvedValue(undefined);
+    (CheckoutSaga.findOne as jest.Mock) = jest.fn().mockResolvedValue(null);
+  });
+
+  describe('handleInventoryReleased', () => {
+    it('should cancel a pending order whose reservation expired', async () => {
+      // Act
+      await handler.handleInventoryReleased(releasedEvent({ expired: true }));
+
+      // Assert
+      expect(mockOrderService.updateOrderStatus).toHaveBeenCalledWith('order-123', 'cancelled', {
+        changedBy: 'inventory-service',
+        reason: 'Inventory reservation expired',
+        releaseInventory: false,
+      });
+    });
+
+    it('should ignore releases that were not expiries', async () => {
+      // Act
+      await handler.handleInventoryReleased(releasedEvent({ expired: false }));
+
+      // Assert
+      expect(mockOrderService.getOrderById).not.toHaveBeenCalled();
+      expect(mockOrderService.updateOrderStatus).not.toHaveBeenCalled();
+    });
+
+    it('should not cancel an order that is no longer pending', async () => {
+      // Arrange
+      mockOrderService.getOrderById.mockResolvedValue({ id: 'order-123', status: 'confirmed' });
+
+      // Act
+      await handler.handleInventoryReleased(releasedEvent({ expired: true }));
+
+      // Assert
+      expect(mockOrderService.updateOrderStatus).not.toHaveBeenCalled();
+    });
+
+    it('should leave orders with a running checkout saga to the saga', async () => {
+      // Arrange
+      (CheckoutSaga.findOne as jest.Mock).mockResolvedValue({ status: 'running' });
+
+      // Act
+      await handler.handleInventoryReleased(releasedEvent({ expired: true }));
+
+      // Assert
+      expect(mockOrderService.updateOrderStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleBackorderAllocated', () => {
+    const allocations = [{ productId: 'product-1', warehouseId: 'warehouse-1', quantity: 2 }];
+    const allocatedEvent = {
+      id: 'event-456',
+      type: 'inventory.backorder_allocated' as const,
+      payload: { orderId: 'order-123', allocations, expiresAt: new Date() },
+      timestamp: new Date(),
+      metadata: { correlationId: 'correlation-456', service: 'inventory-service' },
+    };
+
+    it('should record the allocations and await payment for an unpaid order', async () => {
+      // Arrange
+      mockOrderService.getOrderById.mockResolvedValue({ id: 'order-123', status: 'backordered' });
+
+      // Act
+      await handler.handleBackorderAllocated(allocatedEvent);
+
+      // Assert
+      expect(mockOrderService.recordAllocations).toHaveBeenCalledWith('order-123', allocations);
+      expect(mockOrderService.updateOrderStatus).toHaveBeenCalledWith('order-123', 'pending', {
+        changedBy: 'inventory-service',
+        reason: 'Backordered stock allocated',
+      });
+    });
+
+    it('should confirm an order that is already paid for', async () => {
+      // Arrange
+      mockOrderService.getOrderById.mockResolvedValue({
+        id: 'order-123',
+        status: 'backordered',
+        paymentId: 'payment-123',
+      });
+
+      // Act
+      await handler.handleBackorderAllocated(allocatedEvent);
+
+      // Assert
+      expect(mockOrderService.updateOrderStatus).toHaveBeenCalledWith('order-123', 'confirmed', expect.anything());
+    });
+
+    it('should ignore orders that are no longer backordered', async () => {
+      // Arrange
+      mockOrderService.getOrderById.mockResolvedValue({ id: 'order-123', status: 'cancelled' });
+
+      // Act
+      await handler.handleBackorderAllocated(allocatedEvent);
+
+      // Assert
+      expect(mockOrderService.recordAllocations).not.toHaveBeenCalled();
+      expect(mockOrderService.updateOrderStatus).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -4,16 +4,22 @@
  */
 
 import { OrderService } from '../../src/services/order.service';
-import { Order } from '../../src/config/database';
+import { Order, OrderStatusHistory } from '../../src/config/database';
+import sequelize from '../../src/config/database';
 import { OrderItem } from '../../src/models/Order.model';
+import { Op } from 'sequelize';
+import { randomUUID } from 'crypto';
 import {
   NotFoundError,
+  ConflictError,
+  ServiceUnavailableError,
   ValidationError,
 } from '@cloudretail/middleware';
 
 // Mock dependencies
 jest.mock('../../src/config/database');
 jest.mock('../../src/events/event-publisher');
+jest.mock('crypto', () => ({ ...jest.requireActual('crypto'), randomUUID: jest.fn() }));
 
 // Mock fetch
 global.fetch = jest.fn();
@@ -21,12 +27,25 @@ global.fetch = jest.fn();
 describe('OrderService', () => {
   let orderService: OrderService;
   let mockEventPublisher: any;
+  let mockTransaction: any;
 
   beforeEach(() => {
     jest.clearAllMocks();
     orderService = new OrderService();
     mockEventPublisher = (orderService as any).eventPublisher;
     mockEventPublisher.publishEvent = jest.fn().mockResolvedValue(undefined);
+
+    // Mock transaction
+    mockTransaction = {
+      commit: jest.fn().mockResolvedValue(undefined),
+      rollback: jest.fn().mockResolvedValue(undefined),
+    };
+    (sequelize.transaction as jest.Mock) = jest.fn().mockResolvedValue(mockTransaction);
+    (randomUUID as jest.Mock).mockReturnValue('order-123');
+
+    // Automocked models share inherited static mocks, so give history its own
+    (OrderStatusHistory.create as jest.Mock) = jest.fn().mockResolvedValue(undefined);
+    (OrderStatusHistory.findAll as jest.Mock) = jest.fn().mockResolvedValue([]);
   });
 
   describe('createOrder', () => {
@@ -52,6 +71,7 @@ describe('OrderService', () => {
         totalAmount: 199.98,
         status: 'pending',
         toJSON: () => ({ id: 'order-123', ...validOrderData, totalAmount: 199.98, status: 'pending' }),
+        update: jest.fn().mockResolvedValue(undefined),
         destroy: jest.fn(),
       };
 
@@ -68,7 +88,15 @@ describe('OrderService', () => {
         if (url.includes('/reserve')) {
           return Promise.resolve({
             ok: true,
-            json: () => Promise.resolve({ success: true }),
+            json: () => Promise.resolve({
+              success: true,
+              data: {
+                allocations: [
+                  { productId: 'product-1', warehouseId: 'warehouse-1', quantity: 1 },
+                  { productId: 'product-1', warehouseId: 'warehouse-2', quantity: 1 },
+                ],
+              },
+            }),
           });
         }
         return Promise.reject(new Error('Unknown URL'));
@@ -78,7 +106,34 @@ describe('OrderService', () => {
       const result = await orderService.createOrder(validOrderData);
 
       // Assert
-      expect(Order.create).toHaveBeenCalled();
+      expect(global.fetch).toHaveBeenCalledWith(
+        'http://localhost:3004/api/inventory/reserve',
+        expect.objectContaining({
+          body: JSON.stringify({
+            orderId: 'order-123',
+            items: [{ productId: 'product-1', quantity: 2 }],
+            shippingAddress: validOrderData.shippingAddress,
+          }),
+        })
+      );
+      expect(Order.create).toHaveBeenCalledWith(
+        {
+          ...validOrderData,
+          id: 'order-123',
+          items: [
+            {
+              ...validOrderData.items[0],
+              allocations: [
+                { warehouseId: 'warehouse-1', quantity: 1 },
+                { warehouseId: 'warehouse-2', quantity: 1 },
+              ],
+            },
+          ],
+          totalAmount: 199.98,
+          status: 'pending',
+        },
+        { transaction: mockTransaction }
+      );
       expect(result.totalAmount).toBe(199.98);
       expect(result.status).toBe('pending');
       expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
@@ -88,7 +143,67 @@ describe('OrderService', () => {
           userId: 'user-123',
           totalAmount: 199.98,
         }),
-      });
+      }, mockTransaction);
+      expect(mockTransaction.commit).toHaveBeenCalled();
+    });
+
+    it('should reserve and record allocations per variant ordered', async () => {
+      // Arrange
+      const items = [
+        { productId: 'product-1', variantId: 'variant-s', quantity: 1, price: 20, subtotal: 20 },
+        { productId: 'product-1', variantId: 'variant-m', quantity: 1, price: 20, subtotal: 20 },
+      ];
+      const mockOrder = {
+        id: 'order-123',
+        items,
+        totalAmount: 40,
+        status: 'pending',
+        toJSON: () => ({ id: 'order-123', items, totalAmount: 40, status: 'pending' }),
+        update: jest.fn().mockResolvedValue(undefined),
+      };
+
+      (Order.create as jest.Mock).mockResolvedValue(mockOrder);
+      (global.fetch as jest.Mock).mockImplementation((url: string) => Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve(url.includes('/verify')
+          ? { success: true, data: { available: true } }
+          : {
+            success: true,
+            data: {
+              allocations: [
+                { productId: 'product-1', variantId: 'variant-m', warehouseId: 'warehouse-2', quantity: 1 },
+                { productId: 'product-1', variantId: 'variant-s', warehouseId: 'warehouse-1', quantity: 1 },
+              ],
+            },
+          }),
+      }));
+
+      // Act
+      await orderService.createOrder({ ...validOrderData, items });
+
+      // Assert
+      expect(global.fetch).toHaveBeenCalledWith(
+        'http://localhost:3004/api/inventory/reserve',
+        expect.objectContaining({
+          body: JSON.stringify({
+            orderId: 'order-123',
+            items: [
+              { productId: 'product-1', variantId: 'variant-s', quantity: 1 },
+              { productId: 'product-1', variantId: 'variant-m', quantity: 1 },
+            ],
+            shippingAddress: validOrderData.shippingAddress,
+          }),
+        })
+      );
+      expect(Order.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          items: [
+            { ...items[0], allocations: [{ warehouseId: 'warehouse-1', quantity: 1 }] },
+            { ...items[1], allocations: [{ warehouseId: 'warehouse-2', quantity: 1 }] },
+          ],
+        }),
+        { transaction: mockTransaction }
+      );
     });
 
     it('should throw ValidationError if order has no items', async () => {
@@ -114,15 +229,92 @@ describe('OrderService', () => {
       expect(Order.create).not.toHaveBeenCalled();
     });
 
-    it('should rollback order creation if inventory reservation fails', async () => {
+    it('should take an order for short items that can be backordered', async () => {
       // Arrange
+      const backorder = { mode: 'preorder', expectedRestockDate: '2026-12-01T00:00:00.000Z' };
       const mockOrder = {
         id: 'order-123',
-        destroy: jest.fn().mockResolvedValue(undefined),
+        userId: 'user-123',
+        totalAmount: 199.98,
+        status: 'backordered',
+        items: [{ ...validOrderData.items[0], backorder }],
+        toJSON: () => ({ id: 'order-123', status: 'backordered' }),
+        update: jest.fn(),
+        destroy: jest.fn(),
       };
 
       (Order.create as jest.Mock).mockResolvedValue(mockOrder);
 
+      (global.fetch as jest.Mock).mockImplementation((url: string) => {
+        if (url.includes('/verify')) {
+          return Promise.resolve({
+            ok: true,
+            json: () => Promise.resolve({
+              success: true,
+              data: {
+                available: false,
+                backorderable: true,
+                items: [{ productId: 'product-1', requestedQuantity: 2, availableQuantity: 0, backorder }],
+              },
+            }),
+          });
+        }
+        if (url.includes('/backorders')) {
+          return Promise.resolve({
+            ok: true,
+            json: () => Promise.resolve({ success: true, data: { orderId: 'order-123', backorders: [] } }),
+          });
+        }
+        return Promise.reject(new Error('Unknown URL'));
+      });
+
+      // Act
+      const result = await orderService.createOrder(validOrderData);
+
+      // Assert
+      expect(Order.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          items: [{ ...validOrderData.items[0], backorder }],
+          status: 'backordered',
+        }),
+        { transaction: mockTransaction }
+      );
+      expect(global.fetch).toHaveBeenCalledWith(
+        'http://localhost:3004/api/inventory/backorders',
+        expect.objectContaining({
+          body: JSON.stringify({
+            orderId: 'order-123',
+            items: [{ productId: 'product-1', quantity: 2 }],
+            shippingAddress: validOrderData.shippingAddress,
+          }),
+        })
+      );
+      expect(global.fetch).not.toHaveBeenCalledWith('http://localhost:3004/api/inventory/reserve', expect.anything());
+      expect(OrderStatusHistory.create).toHaveBeenCalledWith(
+        expect.objectContaining({ orderId: 'order-123', toStatus: 'backordered' }),
+        { transaction: mockTransaction }
+      );
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
+        type: 'order.created',
+        payload: expect.objectContaining({ orderId: 'order-123', status: 'backordered' }),
+      }, mockTransaction);
+      expect(result.status).toBe('backordered');
+    });
+
+    it('should throw ValidationError if short items cannot be backordered', async () => {
+      // Arrange
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ success: true, data: { available: false, backorderable: false } }),
+      });
+
+      // Act & Assert
+      await expect(orderService.createOrder(validOrderData)).rejects.toThrow('One or more items are out of stock');
+      expect(Order.create).not.toHaveBeenCalled();
+    });
+
+    it('should not create the order if inventory reservation fails', async () => {
+      // Arrange
       (global.fetch as jest.Mock).mockImplementation((url: string) => {
         if (url.includes('/verify')) {
           return Promise.resolve({
@@ -142,7 +334,30 @@ describe('OrderService', () => {
       // Act & Assert
       await expect(orderService.createOrder(validOrderData)).rejects.toThrow(ValidationError);
       await expect(orderService.createOrder(validOrderData)).rejects.toThrow('Failed to reserve inventory');
-      expect(mockOrder.destroy).toHaveBeenCalled();
+      expect(Order.create).not.toHaveBeenCalled();
+      expect(sequelize.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should release the reservation if the order cannot be recorded', async () => {
+      // Arrange
+      (Order.create as jest.Mock).mockResolvedValue({ id: 'order-123', userId: 'user-123' });
+      (OrderStatusHistory.create as jest.Mock).mockRejectedValue(new Error('Insert failed'));
+
+      (global.fetch as jest.Mock).mockImplementation((url: string) => Promise.resolve({
+        ok: true,
+        json: () => Promise.resolve(url.includes('/verify')
+          ? { success: true, data: { available: true } }
+          : { success: true, data: { allocations: [] } }),
+      }));
+
+      // Act & Assert
+      await expect(orderService.createOrder(validOrderData)).rejects.toThrow('Insert failed');
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+      expect(mockEventPublisher.publishEvent).not.toHaveBeenCalled();
+      expect(global.fetch).toHaveBeenCalledWith(
+        'http://localhost:3004/api/inventory/release',
+        expect.objectContaining({ body: JSON.stringify({ orderId: 'order-123' }) })
+      );
     });
 
     it('should calculate order total correctly', async () => {
@@ -159,6 +374,7 @@ describe('OrderService', () => {
         id: 'order-123',
         totalAmount: 200.00,
         toJSON: () => ({ id: 'order-123', totalAmount: 200.00 }),
+        update: jest.fn().mockResolvedValue(undefined),
         destroy: jest.fn(),
       };
 
@@ -219,30 +435,107 @@ describe('OrderService', () => {
   });
 
   describe('getOrdersByUser', () => {
-    it('should return all orders for a user', async () => {
+    beforeEach(() => {
+      (Order.findAll as jest.Mock) = jest.fn().mockResolvedValue([]);
+    });
+
+    it('should return the first page of a user\'s orders, newest first', async () => {
       // Arrange
       const mockOrders = [
         { id: 'order-1', userId: 'user-123', toJSON: () => ({ id: 'order-1', userId: 'user-123' }) },
         { id: 'order-2', userId: 'user-123', toJSON: () => ({ id: 'order-2', userId: 'user-123' }) },
       ];
 
-      (Order.findAndCountAll as jest.Mock).mockResolvedValue({
-        rows: mockOrders,
-        count: 2,
-      });
+      (Order.findAll as jest.Mock).mockResolvedValue(mockOrders);
 
       // Act
       const result = await orderService.getOrdersByUser('user-123');
 
       // Assert
-      expect(Order.findAndCountAll).toHaveBeenCalledWith({
+      expect(Order.findAll).toHaveBeenCalledWith({
         where: { userId: 'user-123' },
-        limit: 100,
-        offset: 0,
-        order: [['createdAt', 'DESC']],
+        order: [['createdAt', 'DESC'], ['id', 'DESC']],
+        limit: 51,
       });
       expect(result.orders).toHaveLength(2);
-      expect(result.total).toBe(2);
+      expect(result.pagination).toEqual({
+        limit: 50,
+        sort: 'createdAt',
+        order: 'desc',
+        nextCursor: null,
+        hasMore: false,
+      });
+    });
+
+    it('should continue from the cursor of the previous page', async () => {
+      // Arrange
+      const mockOrders = ['order-1', 'order-2'].map((id, index) => ({
+        id,
+        totalAmount: 100 - index * 10,
+        get: () => 100 - index * 10,
+        toJSON: () => ({ id }),
+      }));
+      (Order.findAll as jest.Mock).mockResolvedValueOnce(mockOrders);
+
+      // Act
+      const first = await orderService.getOrdersByUser('user-123', { sort: 'totalAmount', limit: 1 });
+      await orderService.getOrdersByUser('user-123', { cursor: first.pagination.nextCursor! });
+
+      // Assert
+      expect(first.orders).toEqual([{ id: 'order-1' }]);
+      expect(first.pagination.hasMore).toBe(true);
+      expect((Order.findAll as jest.Mock).mock.calls[1][0]).toEqual({
+        where: {
+          [Op.and]: [
+            { userId: 'user-123' },
+            {
+              [Op.or]: [
+                { totalAmount: { [Op.lt]: 100 } },
+                { totalAmount: 100, id: { [Op.lt]: 'order-1' } },
+              ],
+            },
+          ],
+        },
+        order: [['totalAmount', 'DESC'], ['id', 'DESC']],
+        limit: 51,
+      });
+    });
+
+    it('should reject sort fields that are not whitelisted', async () => {
+      // Act & Assert
+      await expect(orderService.getOrdersByUser('user-123', { sort: 'items' })).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('getDeliveredPurchase', () => {
+    it('should find a delivered order containing the product', async () => {
+      // Arrange
+      (Order.findOne as jest.Mock) = jest.fn().mockResolvedValue({ id: 'order-1' });
+
+      // Act
+      const result = await orderService.getDeliveredPurchase('user-123', 'product-1');
+
+      // Assert
+      expect(Order.findOne).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-123',
+          status: 'delivered',
+          items: { [Op.contains]: [{ productId: 'product-1' }] },
+        },
+        order: [['createdAt', 'DESC']],
+      });
+      expect(result).toEqual({ productId: 'product-1', purchased: true, orderId: 'order-1' });
+    });
+
+    it('should report no purchase when no delivered order contains the product', async () => {
+      // Arrange
+      (Order.findOne as jest.Mock) = jest.fn().mockResolvedValue(null);
+
+      // Act
+      const result = await orderService.getDeliveredPurchase('user-123', 'product-1');
+
+      // Assert
+      expect(result).toEqual({ productId: 'product-1', purchased: false, orderId: null });
     });
   });
 
@@ -265,8 +558,22 @@ describe('OrderService', () => {
       const result = await orderService.updateOrderStatus('order-123', 'confirmed');
 
       // Assert
-      expect(Order.findByPk).toHaveBeenCalledWith('order-123');
-      expect(mockOrder.update).toHaveBeenCalledWith({ status: 'confirmed' });
+      expect(Order.findByPk).toHaveBeenCalledWith('order-123', {
+        transaction: mockTransaction,
+        lock: 'UPDATE',
+      });
+      expect(mockOrder.update).toHaveBeenCalledWith({ status: 'confirmed' }, { transaction: mockTransaction });
+      expect(OrderStatusHistory.create).toHaveBeenCalledWith(
+        {
+          orderId: 'order-123',
+          fromStatus: 'pending',
+          toStatus: 'confirmed',
+          changedBy: 'system',
+          reason: undefined,
+        },
+        { transaction: mockTransaction }
+      );
+      expect(mockTransaction.commit).toHaveBeenCalled();
       expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
         type: 'order.status_updated',
         payload: {
@@ -275,7 +582,7 @@ describe('OrderService', () => {
           newStatus: 'confirmed',
           userId: 'user-123',
         },
-      });
+      }, mockTransaction);
     });
 
     it('should publish confirmed event when status is confirmed', async () => {
@@ -291,6 +598,7 @@ describe('OrderService', () => {
       };
 
       (Order.findByPk as jest.Mock).mockResolvedValue(mockOrder);
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: true });
 
       // Act
       await orderService.updateOrderStatus('order-123', 'confirmed');
@@ -303,7 +611,58 @@ describe('OrderService', () => {
           userId: 'user-123',
           totalAmount: 199.98,
         },
-      });
+      }, mockTransaction);
+    });
+
+    it('should hold the order reservations when the order is confirmed', async () => {
+      // Arrange
+      const mockOrder = {
+        id: 'order-123',
+        userId: 'user-123',
+        status: 'pending',
+        totalAmount: 199.98,
+        items: [],
+        update: jest.fn().mockResolvedValue(undefined),
+        toJSON: () => ({ id: 'order-123', status: 'confirmed' }),
+      };
+
+      (Order.findByPk as jest.Mock).mockResolvedValue(mockOrder);
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: true });
+
+      // Act
+      await orderService.updateOrderStatus('order-123', 'confirmed');
+
+      // Assert
+      expect(global.fetch).toHaveBeenCalledWith(
+        'http://localhost:3004/api/inventory/hold',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ orderId: 'order-123' }),
+        })
+      );
+    });
+
+    it('should still confirm the order when the reservations cannot be held', async () => {
+      // Arrange
+      const mockOrder = {
+        id: 'order-123',
+        userId: 'user-123',
+        status: 'pending',
+        totalAmount: 199.98,
+        items: [],
+        update: jest.fn().mockResolvedValue(undefined),
+        toJSON: () => ({ id: 'order-123', status: 'confirmed' }),
+      };
+
+      (Order.findByPk as jest.Mock).mockResolvedValue(mockOrder);
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: false, status: 503 });
+
+      // Act
+      const result = await orderService.updateOrderStatus('order-123', 'confirmed');
+
+      // Assert
+      expect(result.status).toBe('confirmed');
+      expect(mockTransaction.commit).toHaveBeenCalled();
     });
 
     it('should release inventory and publish cancelled event when status is cancelled', async () => {
@@ -336,7 +695,224 @@ describe('OrderService', () => {
           userId: 'user-123',
           totalAmount: 199.98,
         },
+      }, mockTransaction);
+    });
+
+    it('should confirm the order reservations when the order ships', async () => {
+      // Arrange
+      const mockOrder = {
+        id: 'order-123',
+        userId: 'user-123',
+        status: 'processing',
+        totalAmount: 199.98,
+        items: [{ productId: 'product-1', quantity: 2 }],
+        update: jest.fn().mockResolvedValue(undefined),
+        toJSON: () => ({ id: 'order-123', status: 'shipped' }),
+      };
+
+      (Order.findByPk as jest.Mock).mockResolvedValue(mockOrder);
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: true });
+
+      // Act
+      await orderService.updateOrderStatus('order-123', 'shipped');
+
+      // Assert
+      expect(global.fetch).toHaveBeenCalledWith(
+        'http://localhost:3004/api/inventory/confirm',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ orderId: 'order-123' }),
+        })
+      );
+    });
+
+    it('should throw when inventory-service refuses to confirm the shipped stock', async () => {
+      // Arrange
+      const mockOrder = {
+        id: 'order-123',
+        userId: 'user-123',
+        status: 'processing',
+        totalAmount: 199.98,
+        items: [{ productId: 'product-1', quantity: 2 }],
+        update: jest.fn().mockResolvedValue(undefined),
+        toJSON: () => ({ id: 'order-123', status: 'shipped' }),
+      };
+
+      (Order.findByPk as jest.Mock).mockResolvedValue(mockOrder);
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: false, status: 500 });
+
+      // Act & Assert
+      await expect(orderService.updateOrderStatus('order-123', 'shipped')).rejects.toThrow(ServiceUnavailableError);
+      await expect(orderService.updateOrderStatus('order-123', 'shipped')).rejects.toThrow(
+        'Inventory confirmation failed with status 500'
+      );
+    });
+
+    it('should throw when inventory-service refuses to release a cancelled order', async () => {
+      // Arrange
+      const mockOrder = {
+        id: 'order-123',
+        userId: 'user-123',
+        status: 'pending',
+        totalAmount: 199.98,
+        items: [{ productId: 'product-1', quantity: 2 }],
+        update: jest.fn().mockResolvedValue(undefined),
+        toJSON: () => ({ id: 'order-123', status: 'cancelled' }),
+      };
+
+      (Order.findByPk as jest.Mock).mockResolvedValue(mockOrder);
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: false, status: 503 });
+
+      // Act & Assert
+      await expect(orderService.updateOrderStatus('order-123', 'cancelled')).rejects.toThrow(
+        'Inventory release failed with status 503'
+      );
+    });
+
+    it('should release inventory when a confirmed order is refunded', async () => {
+      // Arrange
+      const mockOrder = {
+        id: 'order-123',
+        userId: 'user-123',
+        status: 'confirmed',
+        totalAmount: 199.98,
+        items: [{ productId: 'product-1', quantity: 2 }],
+        update: jest.fn().mockResolvedValue(undefined),
+        toJSON: () => ({ id: 'order-123', status: 'refunded' }),
+      };
+
+      (Order.findByPk as jest.Mock).mockResolvedValue(mockOrder);
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: true });
+
+      // Act
+      await orderService.updateOrderStatus('order-123', 'refunded');
+
+      // Assert
+      expect(global.fetch).toHaveBeenCalledWith(
+        'http://localhost:3004/api/inventory/release',
+        expect.objectContaining({ method: 'POST' })
+      );
+    });
+
+    it('should not release inventory when the caller has already released it', async () => {
+      // Arrange
+      const mockOrder = {
+        id: 'order-123',
+        userId: 'user-123',
+        status: 'pending',
+        totalAmount: 199.98,
+        items: [{ productId: 'product-1', quantity: 2 }],
+        update: jest.fn().mockResolvedValue(undefined),
+        toJSON: () => ({ id: 'order-123', status: 'cancelled' }),
+      };
+
+      (Order.findByPk as jest.Mock).mockResolvedValue(mockOrder);
+
+      // Act
+      await orderService.updateOrderStatus('order-123', 'cancelled', {
+        changedBy: 'checkout-saga',
+        releaseInventory: false,
       });
+
+      // Assert
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'order.cancelled' }),
+        mockTransaction
+      );
+    });
+
+    it('should record who changed the status and why', async () => {
+      // Arrange
+      const mockOrder = {
+        id: 'order-123',
+        userId: 'user-123',
+        status: 'delivered',
+        totalAmount: 199.98,
+        items: [],
+        update: jest.fn().mockResolvedValue(undefined),
+        toJSON: () => ({ id: 'order-123', status: 'refunded' }),
+      };
+
+      (Order.findByPk as jest.Mock).mockResolvedValue(mockOrder);
+
+      // Act
+      await orderService.updateOrderStatus('order-123', 'refunded', {
+        changedBy: 'admin-1',
+        reason: 'Damaged in transit',
+      });
+
+      // Assert
+      expect(OrderStatusHistory.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          fromStatus: 'delivered',
+          toStatus: 'refunded',
+          changedBy: 'admin-1',
+          reason: 'Damaged in transit',
+        }),
+        { transaction: mockTransaction }
+      );
+    });
+
+    it('should throw ConflictError for a transition not in the table', async () => {
+      // Arrange
+      const mockOrder = {
+        id: 'order-123',
+        status: 'delivered',
+        update: jest.fn(),
+      };
+
+      (Order.findByPk as jest.Mock).mockResolvedValue(mockOrder);
+
+      // Act & Assert
+      await expect(orderService.updateOrderStatus('order-123', 'pending')).rejects.toThrow(ConflictError);
+      await expect(orderService.updateOrderStatus('order-123', 'pending')).rejects.toThrow(
+        "Cannot change order status from 'delivered' to 'pending'"
+      );
+      expect(mockOrder.update).not.toHaveBeenCalled();
+      expect(OrderStatusHistory.create).not.toHaveBeenCalled();
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+    });
+
+    it('should leave an order alone that another caller already moved to the status', async () => {
+      // Arrange
+      const mockOrder = {
+        id: 'order-123',
+        status: 'confirmed',
+        update: jest.fn(),
+        toJSON: () => ({ id: 'order-123', status: 'confirmed' }),
+      };
+
+      (Order.findByPk as jest.Mock).mockResolvedValue(mockOrder);
+
+      // Act
+      const result = await orderService.updateOrderStatus('order-123', 'confirmed', {
+        changedBy: 'checkout-saga',
+      });
+
+      // Assert
+      expect(result).toEqual({ id: 'order-123', status: 'confirmed' });
+      expect(mockOrder.update).not.toHaveBeenCalled();
+      expect(OrderStatusHistory.create).not.toHaveBeenCalled();
+      expect(mockEventPublisher.publishEvent).not.toHaveBeenCalled();
+      expect(mockTransaction.commit).toHaveBeenCalled();
+    });
+
+    it('should roll back the status change if history cannot be written', async () => {
+      // Arrange
+      const mockOrder = {
+        id: 'order-123',
+        status: 'pending',
+        update: jest.fn().mockResolvedValue(undefined),
+      };
+
+      (Order.findByPk as jest.Mock).mockResolvedValue(mockOrder);
+      (OrderStatusHistory.create as jest.Mock).mockRejectedValue(new Error('Insert failed'));
+
+      // Act & Assert
+      await expect(orderService.updateOrderStatus('order-123', 'confirmed')).rejects.toThrow('Insert failed');
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+      expect(mockEventPublisher.publishEvent).not.toHaveBeenCalled();
     });
 
     it('should throw NotFoundError if order does not exist', async () => {
@@ -345,6 +921,32 @@ describe('OrderService', () => {
 
       // Act & Assert
       await expect(orderService.updateOrderStatus('nonexistent', 'confirmed')).rejects.toThrow(NotFoundError);
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+    });
+  });
+
+  describe('getOrderStatusHistory', () => {
+    it('should return history entries oldest first', async () => {
+      // Arrange
+      const entries = [
+        { toJSON: () => ({ fromStatus: null, toStatus: 'pending' }) },
+        { toJSON: () => ({ fromStatus: 'pending', toStatus: 'confirmed' }) },
+      ];
+
+      (OrderStatusHistory.findAll as jest.Mock).mockResolvedValue(entries);
+
+      // Act
+      const result = await orderService.getOrderStatusHistory('order-123');
+
+      // Assert
+      expect(OrderStatusHistory.findAll).toHaveBeenCalledWith({
+        where: { orderId: 'order-123' },
+        order: [['createdAt', 'ASC']],
+      });
+      expect(result).toEqual([
+        { fromStatus: null, toStatus: 'pending' },
+        { fromStatus: 'pending', toStatus: 'confirmed' },
+      ]);
     });
   });
 
@@ -378,67 +980,53 @@ describe('OrderService', () => {
   });
 
   describe('getAllOrders', () => {
-    it('should return all orders with pagination', async () => {
+    beforeEach(() => {
+      (Order.findAll as jest.Mock) = jest.fn().mockResolvedValue([]);
+    });
+
+    it('should return a page of orders', async () => {
       // Arrange
       const mockOrders = [
         { id: 'order-1', toJSON: () => ({ id: 'order-1' }) },
         { id: 'order-2', toJSON: () => ({ id: 'order-2' }) },
       ];
 
-      (Order.findAndCountAll as jest.Mock).mockResolvedValue({
-        rows: mockOrders,
-        count: 2,
-      });
+      (Order.findAll as jest.Mock).mockResolvedValue(mockOrders);
 
       // Act
-      const result = await orderService.getAllOrders({ limit: 10, offset: 0 });
+      const result = await orderService.getAllOrders({}, { limit: 10 });
 
       // Assert
-      expect(Order.findAndCountAll).toHaveBeenCalledWith({
+      expect(Order.findAll).toHaveBeenCalledWith({
         where: {},
-        limit: 10,
-        offset: 0,
-        order: [['createdAt', 'DESC']],
+        order: [['createdAt', 'DESC'], ['id', 'DESC']],
+        limit: 11,
       });
       expect(result.orders).toHaveLength(2);
-      expect(result.total).toBe(2);
+      expect(result.pagination.hasMore).toBe(false);
     });
 
     it('should filter orders by status', async () => {
-      // Arrange
-      (Order.findAndCountAll as jest.Mock).mockResolvedValue({
-        rows: [],
-        count: 0,
-      });
-
       // Act
       await orderService.getAllOrders({ status: 'confirmed' });
 
       // Assert
-      expect(Order.findAndCountAll).toHaveBeenCalledWith({
+      expect(Order.findAll).toHaveBeenCalledWith({
         where: { status: 'confirmed' },
-        limit: 100,
-        offset: 0,
-        order: [['createdAt', 'DESC']],
+        order: [['createdAt', 'DESC'], ['id', 'DESC']],
+        limit: 51,
       });
     });
 
     it('should filter orders by userId', async () => {
-      // Arrange
-      (Order.findAndCountAll as jest.Mock).mockResolvedValue({
-        rows: [],
-        count: 0,
-      });
-
       // Act
       await orderService.getAllOrders({ userId: 'user-123' });
 
       // Assert
-      expect(Order.findAndCountAll).toHaveBeenCalledWith({
+      expect(Order.findAll).toHaveBeenCalledWith({
         where: { userId: 'user-123' },
-        limit: 100,
-        offset: 0,
-        order: [['createdAt', 'DESC']],
+        order: [['createdAt', 'DESC'], ['id', 'DESC']],
+        limit: 51,
       });
     });
   });
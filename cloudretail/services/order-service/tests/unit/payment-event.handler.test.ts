@@ -0,0 +1,192 @@
+/**
+ * Unit tests for Payment Event Handler
+ * Tests order status changes driven by payment-service events
+ */
+
+import { PaymentEventHandler } from '../../src/events/payment-event.handler';
+import { CheckoutSaga } from '../../src/config/database';
+
+// Mock dependencies
+jest.mock('../../src/config/database');
+jest.mock('../../src/services/order.service');
+
+describe('PaymentEventHandler', () => {
+  let handler: PaymentEventHandler;
+  let mockOrderService: any;
+
+  const paymentEvent = (type: any, payload: any) => ({
+    id: 'event-123',
+    type,
+    payload: { orderId: 'order-123', paymentId: 'payment-123', ...payload },
+    timestamp: new Date(),
+    metadata: { correlationId: 'correlation-123', service: 'payment-service' },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    handler = new PaymentEventHandler();
+    mockOrderService = (handler as any).orderService;
+    mockOrderService.updatePaymentId = jest.fn().mockResolvedValue(undefined);
+    mockOrderService.updateOrderStatus = jest.fn().mockResolvedValue(undefined);
+    (CheckoutSaga.findOne as jest.Mock) = jest.fn().mockResolvedValue(null);
+  });
+
+  describe('handlePaymentAuthorized', () => {
+    it('should set the payment ID and confirm a pending order', async () => {
+      // Arrange
+      mockOrderService.getOrderById = jest.fn().mockResolvedValue({ id: 'order-123', status: 'pending' });
+
+      // Act
+      await handler.handlePaymentAuthorized(paymentEvent('payment.authorized', {}));
+
+      // Assert
+      expect(mockOrderService.updatePaymentId).toHaveBeenCalledWith('order-123', 'payment-123');
+      expect(mockOrderService.updateOrderStatus).toHaveBeenCalledWith('order-123', 'confirmed', {
+        changedBy: 'payment-service',
+        reason: 'Payment payment-123 authorized',
+      });
+    });
+
+    it('should not change status of an order already confirmed', async () => {
+      // Arrange
+      mockOrderService.getOrderById = jest.fn().mockResolvedValue({
+        id: 'order-123',
+        status: 'confirmed',
+        paymentId: 'payment-123',
+      });
+
+      // Act
+      await handler.handlePaymentAuthorized(paymentEvent('payment.authorized', {}));
+
+      // Assert
+      expect(mockOrderService.updatePaymentId).not.toHaveBeenCalled();
+      expect(mockOrderService.updateOrderStatus).not.toHaveBeenCalled();
+    });
+
+    it('should leave orders managed by a checkout saga alone', async () => {
+      // Arrange
+      mockOrderService.getOrderById = jest.fn().mockResolvedValue({ id: 'order-123', status: 'pending' });
+      (CheckoutSaga.findOne as jest.Mock).mockResolvedValue({ id: 'saga-123', status: 'running' });
+
+      // Act
+      await handler.handlePaymentAuthorized(paymentEvent('payment.authorized', {}));
+
+      // Assert
+      expect(CheckoutSaga.findOne).toHaveBeenCalledWith({ where: { orderId: 'order-123' } });
+      expect(mockOrderService.updatePaymentId).not.toHaveBeenCalled();
+      expect(mockOrderService.updateOrderStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handlePaymentFailed', () => {
+    it('should cancel a pending order', async () => {
+      // Arrange
+      mockOrderService.getOrderById = jest.fn().mockResolvedValue({ id: 'order-123', status: 'pending' });
+
+      // Act
+      await handler.handlePaymentFailed(paymentEvent('payment.failed', { reason: 'Card declined' }));
+
+      // Assert
+      expect(mockOrderService.updateOrderStatus).toHaveBeenCalledWith('order-123', 'cancelled', {
+        changedBy: 'payment-service',
+        reason: 'Card declined',
+      });
+    });
+
+    it('should leave orders managed by a checkout saga alone', async () => {
+      // Arrange
+      mockOrderService.getOrderById = jest.fn().mockResolvedValue({ id: 'order-123', status: 'pending' });
+      (CheckoutSaga.findOne as jest.Mock).mockResolvedValue({ id: 'saga-123' });
+
+      // Act
+      await handler.handlePaymentFailed(paymentEvent('payment.failed', {}));
+
+      // Assert
+      expect(mockOrderService.updateOrderStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handlePaymentVoided', () => {
+    it('should cancel a confirmed order whose authorization expired', async () => {
+      // Arrange
+      mockOrderService.getOrderById = jest.fn().mockResolvedValue({ id: 'order-123', status: 'confirmed' });
+      (CheckoutSaga.findOne as jest.Mock).mockResolvedValue({ id: 'saga-123', status: 'completed' });
+
+      // Act
+      await handler.handlePaymentVoided(paymentEvent('payment.voided', { reason: 'Authorization expired' }));
+
+      // Assert
+      expect(mockOrderService.updateOrderStatus).toHaveBeenCalledWith('order-123', 'cancelled', {
+        changedBy: 'payment-service',
+        reason: 'Authorization expired',
+      });
+    });
+
+    it('should ignore voids for orders already cancelled or shipped', async () => {
+      // Arrange
+      mockOrderService.getOrderById = jest
+        .fn()
+        .mockResolvedValueOnce({ id: 'order-123', status: 'cancelled' })
+        .mockResolvedValueOnce({ id: 'order-123', status: 'shipped' });
+
+      // Act
+      await handler.handlePaymentVoided(paymentEvent('payment.voided', {}));
+      await handler.handlePaymentVoided(paymentEvent('payment.voided', {}));
+
+      // Assert
+      expect(mockOrderService.updateOrderStatus).not.toHaveBeenCalled();
+    });
+
+    it('should leave orders of a compensating checkout saga alone', async () => {
+      // Arrange
+      mockOrderService.getOrderById = jest.fn().mockResolvedValue({ id: 'order-123', status: 'pending' });
+      (CheckoutSaga.findOne as jest.Mock).mockResolvedValue({ id: 'saga-123', status: 'compensating' });
+
+      // Act
+      await handler.handlePaymentVoided(paymentEvent('payment.voided', {}));
+
+      // Assert
+      expect(mockOrderService.updateOrderStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handlePaymentRefunded', () => {
+    it('should mark a delivered order refunded', async () => {
+      // Arrange
+      mockOrderService.getOrderById = jest.fn().mockResolvedValue({ id: 'order-123', status: 'delivered' });
+
+      // Act
+      await handler.handlePaymentRefunded(paymentEvent('payment.refunded', { reason: 'Returned', fullyRefunded: true }));
+
+      // Assert
+      expect(mockOrderService.updateOrderStatus).toHaveBeenCalledWith('order-123', 'refunded', {
+        changedBy: 'payment-service',
+        reason: 'Returned',
+      });
+    });
+
+    it('should leave the order alone for a partial refund', async () => {
+      // Arrange
+      mockOrderService.getOrderById = jest.fn().mockResolvedValue({ id: 'order-123', status: 'delivered' });
+
+      // Act
+      await handler.handlePaymentRefunded(
+        paymentEvent('payment.refunded', { amount: 25, totalRefunded: 25, fullyRefunded: false })
+      );
+
+      // Assert
+      expect(mockOrderService.updateOrderStatus).not.toHaveBeenCalled();
+    });
+
+    it('should ignore refunds for orders that cannot be refunded', async () => {
+      // Arrange
+      mockOrderService.getOrderById = jest.fn().mockResolvedValue({ id: 'order-123', status: 'cancelled' });
+
+      // Act
+      await handler.handlePaymentRefunded(paymentEvent('payment.refunded', {}));
+
+      // Assert
+      expect(mockOrderService.updateOrderStatus).not.toHaveBeenCalled();
+    });
+  });
+});
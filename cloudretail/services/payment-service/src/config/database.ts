@@ -1,6 +1,8 @@
 import { Sequelize } from 'sequelize';
 import { initPaymentModel } from '../models/Payment.model';
-import { logger } from '@cloudretail/middleware';
+import { initRefundModel } from '../models/Refund.model';
+import { logger, SequelizeIdempotencyStore } from '@cloudretail/middleware';
+import { EventSubscriber, Outbox } from '@cloudretail/outbox';
 
 const sequelize = new Sequelize({
   dialect: 'postgres',
@@ -23,6 +25,16 @@ const sequelize = new Sequelize({
 
 // Initialize models
 export const Payment = initPaymentModel(sequelize);
+export const Refund = initRefundModel(sequelize);
+
+// Events recorded with domain changes, relayed to the event bus
+export const outbox = new Outbox(sequelize, { service: 'payment-service' });
+
+// Events consumed from the event bus, each handled once across instances
+export const eventSubscriber = new EventSubscriber(sequelize, { service: 'payment-service' });
+
+// Responses stored against Idempotency-Key headers
+export const idempotencyStore = new SequelizeIdempotencyStore(sequelize);
 
 export async function connectDatabase(): Promise<void> {
   try {
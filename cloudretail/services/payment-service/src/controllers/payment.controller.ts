@@ -1,6 +1,6 @@
 import { Request, Response } from 'express';
 import { PaymentService } from '../services/payment.service';
-import { asyncHandler, AuthenticatedRequest } from '@cloudretail/middleware';
+import { asyncHandler, AuthenticatedRequest, PageParams } from '@cloudretail/middleware';
 import Joi from 'joi';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -17,12 +17,35 @@ const createPaymentSchema = Joi.object({
   metadata: Joi.object().optional(),
 });
 
+const authorizeOrderSchema = createPaymentSchema.keys({
+  userId: Joi.string().uuid().required(),
+});
+
 const refundPaymentSchema = Joi.object({
+  // Omit to refund the remaining balance; required when refunding line items
+  amount: Joi.number().precision(2).min(0.01).when('items', {
+    is: Joi.exist(),
+    then: Joi.required(),
+    otherwise: Joi.optional(),
+  }),
+  reason: Joi.string().optional(),
+  items: Joi.array()
+    .items(
+      Joi.object({
+        productId: Joi.string().uuid().required(),
+        quantity: Joi.number().integer().min(1).required(),
+      })
+    )
+    .min(1)
+    .optional(),
+});
+
+const voidPaymentSchema = Joi.object({
   reason: Joi.string().optional(),
 });
 
 /**
- * Create and process a payment
+ * Create and authorize a payment
  */
 export const createPayment = asyncHandler(
   async (req: AuthenticatedRequest, res: Response) => {
@@ -56,6 +79,52 @@ export const createPayment = asyncHandler(
   }
 );
 
+/**
+ * Create and authorize a payment on behalf of another service
+ */
+export const authorizeOrder = asyncHandler(async (req: Request, res: Response) => {
+  const { error, value } = authorizeOrderSchema.validate(req.body);
+
+  if (error) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: error.details[0].message,
+      },
+    });
+    return;
+  }
+
+  const payment = await paymentService.createPayment(value);
+
+  res.status(201).json({
+    success: true,
+    data: payment,
+    metadata: {
+      timestamp: new Date(),
+      requestId: uuidv4(),
+    },
+  });
+});
+
+/**
+ * Get payment by order ID for another service
+ */
+export const getOrderPayment = asyncHandler(async (req: Request, res: Response) => {
+  const { orderId } = req.params;
+  const payment = await paymentService.getPaymentByOrderId(orderId);
+
+  res.json({
+    success: true,
+    data: payment,
+    metadata: {
+      timestamp: new Date(),
+      requestId: uuidv4(),
+    },
+  });
+});
+
 /**
  * Get payment by ID
  */
@@ -124,23 +193,60 @@ export const getPaymentByOrderId = asyncHandler(
   }
 );
 
+/**
+ * Get the refunds issued against a payment
+ */
+export const getPaymentRefunds = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+    const userRole = req.user!.role;
+
+    const payment = await paymentService.getPaymentById(id);
+
+    // Check if user is authorized to view this payment
+    if (payment.userId !== userId && userRole !== 'admin') {
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You are not authorized to view this payment',
+        },
+      });
+      return;
+    }
+
+    const refunds = await paymentService.getRefunds(id);
+
+    res.json({
+      success: true,
+      data: refunds,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
 /**
  * Get user's payments
  */
 export const getUserPayments = asyncHandler(
   async (req: AuthenticatedRequest, res: Response) => {
     const userId = req.user!.userId;
-    const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
-    const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
-
-    const result = await paymentService.getPaymentsByUser(userId, limit, offset);
+    const { payments, pagination } = await paymentService.getPaymentsByUser(
+      userId,
+      req.query as PageParams
+    );
 
     res.json({
       success: true,
-      data: result,
+      data: { payments },
       metadata: {
         timestamp: new Date(),
         requestId: uuidv4(),
+        pagination,
       },
     });
   }
@@ -165,7 +271,58 @@ export const refundPayment = asyncHandler(
       return;
     }
 
-    const payment = await paymentService.refundPayment(id, value.reason);
+    const payment = await paymentService.refundPayment(id, value);
+
+    res.json({
+      success: true,
+      data: payment,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Capture an authorized payment
+ */
+export const capturePayment = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const payment = await paymentService.capturePayment(id);
+
+    res.json({
+      success: true,
+      data: payment,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Void an authorized payment
+ */
+export const voidPayment = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const { error, value } = voidPaymentSchema.validate(req.body);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        },
+      });
+      return;
+    }
+
+    const payment = await paymentService.voidPayment(id, value.reason);
 
     res.json({
       success: true,
@@ -205,18 +362,20 @@ export const getAllPayments = asyncHandler(async (req: Request, res: Response) =
     status: req.query.status as string | undefined,
     userId: req.query.userId as string | undefined,
     paymentMethod: req.query.paymentMethod as string | undefined,
-    limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
-    offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
   };
 
-  const result = await paymentService.getAllPayments(filters);
+  const { payments, pagination } = await paymentService.getAllPayments(
+    filters,
+    req.query as PageParams
+  );
 
   res.json({
     success: true,
-    data: result,
+    data: { payments },
     metadata: {
       timestamp: new Date(),
       requestId: uuidv4(),
+      pagination,
     },
   });
 });
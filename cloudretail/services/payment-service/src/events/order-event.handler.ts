@@ -0,0 +1,46 @@
+import { Event } from '@cloudretail/models';
+import { EventSubscriber } from '@cloudretail/outbox';
+import { PaymentService } from '../services/payment.service';
+
+/**
+ * Order Event Handler
+ * Captures payments when their order ships and releases them when it is cancelled
+ */
+export class OrderEventHandler {
+  private paymentService: PaymentService;
+
+  constructor() {
+    this.paymentService = new PaymentService();
+  }
+
+  /**
+   * Register order event handlers with a subscriber
+   */
+  register(subscriber: EventSubscriber): void {
+    subscriber
+      .on('order.status_updated', (event) => this.handleOrderStatusUpdated(event))
+      .on('order.cancelled', (event) => this.handleOrderCancelled(event));
+  }
+
+  /**
+   * Capture the authorized payment once the order has shipped
+   */
+  async handleOrderStatusUpdated(event: Event): Promise<void> {
+    const { orderId, newStatus } = event.payload;
+
+    if (newStatus !== 'shipped') {
+      return;
+    }
+
+    await this.paymentService.captureOrderPayment(orderId);
+  }
+
+  /**
+   * Void the authorized payment of a cancelled order
+   */
+  async handleOrderCancelled(event: Event): Promise<void> {
+    const { orderId } = event.payload;
+
+    await this.paymentService.voidOrderPayment(orderId, 'Order cancelled');
+  }
+}
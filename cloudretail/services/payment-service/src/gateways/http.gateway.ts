@@ -0,0 +1,110 @@
+import {
+  GatewayAuthorizationRequest,
+  GatewayResult,
+  GatewayTransaction,
+  PaymentGateway,
+  PaymentGatewayError,
+} from './payment-gateway';
+
+/**
+ * HTTP Payment Gateway
+ * Talks to a gateway exposing the simulator's REST API. Declines come back
+ * as 402 responses; anything else outside 2xx is treated as a gateway error.
+ */
+export class HttpPaymentGateway implements PaymentGateway {
+  readonly name = 'http';
+  private baseUrl: string;
+  private apiKey: string;
+  private timeoutMs: number;
+
+  constructor(options: { baseUrl: string; apiKey?: string; timeoutMs?: number }) {
+    this.baseUrl = options.baseUrl.replace(/\/$/, '');
+    this.apiKey = options.apiKey || '';
+    this.timeoutMs = options.timeoutMs || 10000;
+  }
+
+  async authorize(request: GatewayAuthorizationRequest): Promise<GatewayResult> {
+    return this.operation('POST', '/v1/authorizations', request);
+  }
+
+  async capture(transactionId: string, amount?: number): Promise<GatewayResult> {
+    return this.operation('POST', `/v1/transactions/${encodeURIComponent(transactionId)}/capture`, { amount });
+  }
+
+  async void(transactionId: string): Promise<GatewayResult> {
+    return this.operation('POST', `/v1/transactions/${encodeURIComponent(transactionId)}/void`, {});
+  }
+
+  async refund(transactionId: string, amount?: number): Promise<GatewayResult> {
+    return this.operation('POST', `/v1/transactions/${encodeURIComponent(transactionId)}/refunds`, { amount });
+  }
+
+  async getStatus(transactionId: string): Promise<GatewayTransaction> {
+    const { body } = await this.request('GET', `/v1/transactions/${encodeURIComponent(transactionId)}`);
+    return body.data;
+  }
+
+  async findByReference(reference: string): Promise<GatewayTransaction | null> {
+    try {
+      const { body } = await this.request('GET', `/v1/transactions?reference=${encodeURIComponent(reference)}`);
+      return body.data;
+    } catch (error) {
+      if (error instanceof PaymentGatewayError && error.statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async operation(method: 'POST', path: string, payload: any): Promise<GatewayResult> {
+    const { status, body } = await this.request(method, path, payload);
+
+    if (status === 402) {
+      return {
+        success: false,
+        transactionId: body.data?.transactionId,
+        status: body.data?.status ?? 'declined',
+        error: body.error?.message,
+        declineCode: body.error?.code,
+      };
+    }
+
+    return { success: true, ...body.data };
+  }
+
+  private async request(method: 'GET' | 'POST', path: string, payload?: any): Promise<{ status: number; body: any }> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.apiKey}`,
+        },
+        body: payload ? JSON.stringify(payload) : undefined,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new PaymentGatewayError('Payment gateway timed out');
+      }
+      throw new PaymentGatewayError(`Payment gateway unreachable: ${(error as Error).message}`);
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    const body: any = await response.json().catch(() => ({}));
+
+    if (!response.ok && response.status !== 402) {
+      throw new PaymentGatewayError(
+        body.error?.message || `Payment gateway returned status ${response.status}`,
+        response.status
+      );
+    }
+
+    return { status: response.status, body };
+  }
+}
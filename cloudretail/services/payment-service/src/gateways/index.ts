@@ -0,0 +1,39 @@
+import { PaymentGateway } from './payment-gateway';
+import { HttpPaymentGateway } from './http.gateway';
+import { SimulatedPaymentGateway } from './simulated.gateway';
+
+export * from './payment-gateway';
+export { HttpPaymentGateway } from './http.gateway';
+export { SimulatedPaymentGateway, SIMULATOR_CARDS, getSimulatorScenario } from './simulated.gateway';
+
+/**
+ * Create the payment gateway selected by PAYMENT_GATEWAY
+ * - local: in-process simulator, for development without other services.
+ *   Refused in production, where each replica would keep its own payments.
+ * - http: a gateway reached over HTTP at PAYMENT_GATEWAY_URL, such as the
+ *   simulator server
+ */
+export function createPaymentGateway(): PaymentGateway {
+  const gateway = process.env.PAYMENT_GATEWAY || 'local';
+
+  switch (gateway) {
+    case 'local':
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error("Payment gateway 'local' cannot be used in production; set PAYMENT_GATEWAY");
+      }
+
+      return new SimulatedPaymentGateway({
+        latencyMs: parseInt(process.env.PAYMENT_GATEWAY_LATENCY_MS || '0'),
+      });
+
+    case 'http':
+      return new HttpPaymentGateway({
+        baseUrl: process.env.PAYMENT_GATEWAY_URL || 'http://localhost:4100',
+        apiKey: process.env.PAYMENT_GATEWAY_API_KEY,
+        timeoutMs: parseInt(process.env.PAYMENT_GATEWAY_TIMEOUT_MS || '10000'),
+      });
+
+    default:
+      throw new Error(`Unknown payment gateway '${gateway}'`);
+  }
+}
@@ -0,0 +1,89 @@
+export type GatewayTransactionStatus =
+  | 'authorized'
+  | 'captured'
+  | 'partially_refunded'
+  | 'refunded'
+  | 'voided'
+  | 'declined';
+
+export interface GatewayAuthorizationRequest {
+  reference: string;
+  amount: number;
+  currency: string;
+  paymentMethod: string;
+  metadata?: any;
+}
+
+/**
+ * Result of a gateway operation. A declined operation is reported with
+ * success false; failures to reach the gateway throw PaymentGatewayError.
+ */
+export interface GatewayResult {
+  success: boolean;
+  transactionId?: string;
+  status?: GatewayTransactionStatus;
+  error?: string;
+  declineCode?: string;
+}
+
+export interface GatewayTransaction {
+  transactionId: string;
+  reference: string;
+  status: GatewayTransactionStatus;
+  amount: number;
+  currency: string;
+  capturedAmount: number;
+  refundedAmount: number;
+}
+
+/**
+ * Payment Gateway Adapter
+ * Implemented once per payment provider; the active adapter is chosen by
+ * the PAYMENT_GATEWAY setting
+ */
+export interface PaymentGateway {
+  readonly name: string;
+
+  /**
+   * Place a hold on funds without moving them
+   */
+  authorize(request: GatewayAuthorizationRequest): Promise<GatewayResult>;
+
+  /**
+   * Collect authorized funds, optionally less than the authorized amount
+   */
+  capture(transactionId: string, amount?: number): Promise<GatewayResult>;
+
+  /**
+   * Release an authorization that has not been captured
+   */
+  void(transactionId: string): Promise<GatewayResult>;
+
+  /**
+   * Return captured funds, optionally only part of them
+   */
+  refund(transactionId: string, amount?: number): Promise<GatewayResult>;
+
+  /**
+   * Look up the gateway's view of a transaction
+   */
+  getStatus(transactionId: string): Promise<GatewayTransaction>;
+
+  /**
+   * Find the transaction authorized for a reference, or null if the gateway
+   * never placed a hold for it
+   */
+  findByReference(reference: string): Promise<GatewayTransaction | null>;
+}
+
+/**
+ * The gateway could not be reached or did not answer in time, so the
+ * outcome of the operation is unknown
+ */
+export class PaymentGatewayError extends Error {
+  constructor(message: string, public readonly statusCode?: number) {
+    super(message);
+    this.name = 'PaymentGatewayError';
+    Object.setPrototypeOf(this, PaymentGatewayError.prototype);
+  }
+}
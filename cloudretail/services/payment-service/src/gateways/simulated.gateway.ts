@@ -0,0 +1,209 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  GatewayAuthorizationRequest,
+  GatewayResult,
+  GatewayTransaction,
+  PaymentGateway,
+  PaymentGatewayError,
+} from './payment-gateway';
+
+/**
+ * Card numbers with scripted outcomes. Any other card, or a payment
+ * without a card, is approved.
+ */
+export const SIMULATOR_CARDS = {
+  declined: '4000000000000002',
+  insufficientFunds: '4000000000009995',
+  processingError: '4000000000000119',
+  captureFails: '4000000000000341',
+  refundFails: '4000000000005126',
+  timeout: '4000000000003063',
+} as const;
+
+export type SimulatorScenario = keyof typeof SIMULATOR_CARDS | 'approved';
+
+interface SimulatedTransaction extends GatewayTransaction {
+  scenario: SimulatorScenario;
+}
+
+/**
+ * Work out the scripted scenario for a payment from its card number
+ */
+export function getSimulatorScenario(metadata?: any): SimulatorScenario {
+  const cardNumber = String(metadata?.cardNumber || '').replace(/\D/g, '');
+
+  const match = (Object.keys(SIMULATOR_CARDS) as Array<keyof typeof SIMULATOR_CARDS>).find(
+    (scenario) => SIMULATOR_CARDS[scenario] === cardNumber
+  );
+
+  return match || 'approved';
+}
+
+const toCents = (amount: number) => Math.round(Number(amount) * 100);
+
+/**
+ * Simulated Payment Gateway
+ * Deterministic in-memory gateway used for local development and tests,
+ * and as the engine behind the simulator HTTP server
+ */
+export class SimulatedPaymentGateway implements PaymentGateway {
+  readonly name = 'simulated';
+  private transactions: Map<string, SimulatedTransaction> = new Map();
+  private latencyMs: number;
+
+  constructor(options: { latencyMs?: number } = {}) {
+    this.latencyMs = options.latencyMs || 0;
+  }
+
+  async authorize(request: GatewayAuthorizationRequest): Promise<GatewayResult> {
+    await this.delay();
+
+    const scenario = getSimulatorScenario(request.metadata);
+
+    if (scenario === 'processingError') {
+      throw new PaymentGatewayError('Payment gateway processing error', 500);
+    }
+
+    if (scenario === 'timeout') {
+      throw new PaymentGatewayError('Payment gateway timed out');
+    }
+
+    if (toCents(request.amount) <= 0) {
+      return this.decline('invalid_amount', 'Amount must be greater than zero');
+    }
+
+    if (scenario === 'declined') {
+      return this.decline('card_declined', 'Payment declined by payment gateway');
+    }
+
+    if (scenario === 'insufficientFunds') {
+      return this.decline('insufficient_funds', 'Insufficient funds');
+    }
+
+    const transaction: SimulatedTransaction = {
+      transactionId: `txn_${uuidv4()}`,
+      reference: request.reference,
+      status: 'authorized',
+      amount: Number(request.amount),
+      currency: request.currency,
+      capturedAmount: 0,
+      refundedAmount: 0,
+      scenario,
+    };
+
+    this.transactions.set(transaction.transactionId, transaction);
+
+    return { success: true, transactionId: transaction.transactionId, status: 'authorized' };
+  }
+
+  async capture(transactionId: string, amount?: number): Promise<GatewayResult> {
+    await this.delay();
+
+    const transaction = this.find(transactionId);
+
+    if (transaction.status !== 'authorized') {
+      return this.decline('invalid_state', `Cannot capture a ${transaction.status} transaction`, transaction);
+    }
+
+    const captureAmount = amount ?? transaction.amount;
+    if (toCents(captureAmount) <= 0 || toCents(captureAmount) > toCents(transaction.amount)) {
+      return this.decline('invalid_amount', 'Capture amount exceeds the authorized amount', transaction);
+    }
+
+    if (transaction.scenario === 'captureFails') {
+      return this.decline('capture_failed', 'Capture rejected by payment gateway', transaction);
+    }
+
+    transaction.status = 'captured';
+    transaction.capturedAmount = Number(captureAmount);
+
+    return { success: true, transactionId, status: transaction.status };
+  }
+
+  async void(transactionId: string): Promise<GatewayResult> {
+    await this.delay();
+
+    const transaction = this.find(transactionId);
+
+    if (transaction.status !== 'authorized') {
+      return this.decline('invalid_state', `Cannot void a ${transaction.status} transaction`, transaction);
+    }
+
+    transaction.status = 'voided';
+
+    return { success: true, transactionId, status: transaction.status };
+  }
+
+  async refund(transactionId: string, amount?: number): Promise<GatewayResult> {
+    await this.delay();
+
+    const transaction = this.find(transactionId);
+
+    if (transaction.status !== 'captured' && transaction.status !== 'partially_refunded') {
+      return this.decline('invalid_state', `Cannot refund a ${transaction.status} transaction`, transaction);
+    }
+
+    const refundable = toCents(transaction.capturedAmount) - toCents(transaction.refundedAmount);
+    const refundAmount = amount ?? refundable / 100;
+
+    if (toCents(refundAmount) <= 0 || toCents(refundAmount) > refundable) {
+      return this.decline('invalid_amount', 'Refund amount exceeds the refundable amount', transaction);
+    }
+
+    if (transaction.scenario === 'refundFails') {
+      return this.decline('refund_failed', 'Refund rejected by payment gateway', transaction);
+    }
+
+    transaction.refundedAmount = (toCents(transaction.refundedAmount) + toCents(refundAmount)) / 100;
+    transaction.status =
+      toCents(transaction.refundedAmount) === toCents(transaction.capturedAmount) ? 'refunded' : 'partially_refunded';
+
+    return { success: true, transactionId, status: transaction.status };
+  }
+
+  async getStatus(transactionId: string): Promise<GatewayTransaction> {
+    await this.delay();
+
+    const { scenario, ...transaction } = this.find(transactionId);
+    return transaction;
+  }
+
+  async findByReference(reference: string): Promise<GatewayTransaction | null> {
+    await this.delay();
+
+    const match = [...this.transactions.values()].find((transaction) => transaction.reference === reference);
+
+    if (!match) {
+      return null;
+    }
+
+    const { scenario, ...transaction } = match;
+    return transaction;
+  }
+
+  private find(transactionId: string): SimulatedTransaction {
+    const transaction = this.transactions.get(transactionId);
+
+    if (!transaction) {
+      throw new PaymentGatewayError(`Transaction ${transactionId} not found`, 404);
+    }
+
+    return transaction;
+  }
+
+  private decline(declineCode: string, error: string, transaction?: SimulatedTransaction): GatewayResult {
+    return {
+      success: false,
+      transactionId: transaction?.transactionId,
+      status: transaction?.status ?? 'declined',
+      error,
+      declineCode,
+    };
+  }
+
+  private async delay(): Promise<void> {
+    if (this.latencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.latencyMs));
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import express, { Request, Response } from 'express';
+import dotenv from 'dotenv';
+import { asyncHandler, logger, requestLogger } from '@cloudretail/middleware';
+import { GatewayResult, PaymentGatewayError } from './payment-gateway';
+import { SimulatedPaymentGateway, getSimulatorScenario } from './simulated.gateway';
+
+/**
+ * Payment Gateway Simulator
+ * Local HTTP server with scripted outcomes by card number (see SIMULATOR_CARDS).
+ * Latency can be set for the whole server or per request with the
+ * X-Simulator-Latency-Ms header.
+ */
+export function createSimulatorApp(options: {
+  latencyMs?: number;
+  timeoutMs?: number;
+  apiKey?: string;
+} = {}) {
+  const app = express();
+  const gateway = new SimulatedPaymentGateway();
+  const timeoutMs = options.timeoutMs || 30000;
+
+  app.use(express.json());
+  app.use(requestLogger);
+
+  app.get('/health', (req, res) => {
+    res.json({ status: 'healthy', service: 'payment-gateway-simulator' });
+  });
+
+  app.use((req, res, next) => {
+    if (options.apiKey && req.headers.authorization !== `Bearer ${options.apiKey}`) {
+      res.status(401).json({
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'Invalid gateway API key' },
+      });
+      return;
+    }
+    next();
+  });
+
+  // Apply configured latency before every operation
+  app.use(async (req, res, next) => {
+    const latency = parseInt((req.headers['x-simulator-latency-ms'] as string) || '') || options.latencyMs || 0;
+    if (latency > 0) {
+      await new Promise((resolve) => setTimeout(resolve, latency));
+    }
+    next();
+  });
+
+  const send = (res: Response, result: GatewayResult) => {
+    const data = { transactionId: result.transactionId, status: result.status };
+
+    if (!result.success) {
+      res.status(402).json({
+        success: false,
+        data,
+        error: { code: result.declineCode, message: result.error },
+      });
+      return;
+    }
+
+    res.json({ success: true, data });
+  };
+
+  const handle = (operation: (req: Request) => Promise<any>, respond: (res: Response, result: any) => void) =>
+    asyncHandler(async (req: Request, res: Response) => {
+      try {
+        respond(res, await operation(req));
+      } catch (error) {
+        if (error instanceof PaymentGatewayError) {
+          res.status(error.statusCode || 500).json({
+            success: false,
+            error: { code: 'GATEWAY_ERROR', message: error.message },
+          });
+          return;
+        }
+        throw error;
+      }
+    });
+
+  app.post(
+    '/v1/authorizations',
+    asyncHandler(async (req: Request, res: Response, next) => {
+      // Hold the connection open so the client's timeout fires
+      if (getSimulatorScenario(req.body.metadata) === 'timeout') {
+        logger.info('Simulating gateway timeout', { reference: req.body.reference });
+        await new Promise((resolve) => setTimeout(resolve, timeoutMs));
+        res.status(504).json({
+          success: false,
+          error: { code: 'GATEWAY_TIMEOUT', message: 'Payment gateway timed out' },
+        });
+        return;
+      }
+      next();
+    }),
+    handle((req) => gateway.authorize(req.body), send)
+  );
+
+  app.post(
+    '/v1/transactions/:id/capture',
+    handle((req) => gateway.capture(req.params.id, req.body.amount), send)
+  );
+
+  app.post(
+    '/v1/transactions/:id/void',
+    handle((req) => gateway.void(req.params.id), send)
+  );
+
+  app.post(
+    '/v1/transactions/:id/refunds',
+    handle((req) => gateway.refund(req.params.id, req.body.amount), send)
+  );
+
+  app.get(
+    '/v1/transactions',
+    handle(
+      async (req) => {
+        const transaction = await gateway.findByReference(String(req.query.reference || ''));
+        if (!transaction) {
+          throw new PaymentGatewayError('No transaction for reference', 404);
+        }
+        return transaction;
+      },
+      (res, transaction) => res.json({ success: true, data: transaction })
+    )
+  );
+
+  app.get(
+    '/v1/transactions/:id',
+    handle(
+      (req) => gateway.getStatus(req.params.id),
+      (res, transaction) => res.json({ success: true, data: transaction })
+    )
+  );
+
+  return app;
+}
+
+if (require.main === module) {
+  dotenv.config();
+
+  const port = process.env.SIMULATOR_PORT || 4100;
+
+  createSimulatorApp({
+    latencyMs: parseInt(process.env.SIMULATOR_LATENCY_MS || '0'),
+    timeoutMs: parseInt(process.env.SIMULATOR_TIMEOUT_MS || '30000'),
+    apiKey: process.env.SIMULATOR_API_KEY,
+  }).listen(port, () => {
+    logger.info(`Payment gateway simulator started on port ${port}`);
+  });
+}
@@ -9,8 +9,11 @@ import {
   gdprCompliance,
   HealthCheck,
 } from '@cloudretail/middleware';
-import { connectDatabase } from './config/database';
+import { connectDatabase, eventSubscriber, outbox } from './config/database';
 import paymentRoutes from './routes/payment.routes';
+import { AuthorizationSweeper } from './services/authorization-sweeper';
+import { RefundReconciler } from './services/refund-reconciler';
+import { OrderEventHandler } from './events/order-event.handler';
 import { logger } from '@cloudretail/middleware';
 
 // Load environment variables
@@ -19,6 +22,8 @@ dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 3005;
 const healthCheck = new HealthCheck();
+const authorizationSweeper = new AuthorizationSweeper();
+const refundReconciler = new RefundReconciler();
 
 // Security middleware
 app.use(helmetMiddleware);
@@ -65,6 +70,19 @@ async function startServer() {
     // Connect to database
     await connectDatabase();
 
+    // Deliver events recorded in the outbox
+    outbox.start();
+
+    // Capture on shipment and void on cancellation
+    new OrderEventHandler().register(eventSubscriber);
+    eventSubscriber.start();
+
+    // Release authorizations that were never captured
+    authorizationSweeper.start();
+
+    // Settle refunds whose gateway outcome was never recorded
+    refundReconciler.start();
+
     app.listen(PORT, () => {
       logger.info(`Payment Service started on port ${PORT}`);
       logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
@@ -79,6 +97,10 @@ async function startServer() {
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully');
+  eventSubscriber.stop();
+  await authorizationSweeper.stop();
+  await refundReconciler.stop();
+  await outbox.stop();
   const { disconnectDatabase } = await import('./config/database');
   await disconnectDatabase();
   process.exit(0);
@@ -86,6 +108,10 @@ process.on('SIGTERM', async () => {
 
 process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully');
+  eventSubscriber.stop();
+  await authorizationSweeper.stop();
+  await refundReconciler.stop();
+  await outbox.stop();
   const { disconnectDatabase } = await import('./config/database');
   await disconnectDatabase();
   process.exit(0);
@@ -1,22 +1,46 @@
 import { Model, DataTypes, Sequelize, Optional } from 'sequelize';
 
+/**
+ * Payments are authorized at checkout and captured when the order ships.
+ * 'completed' marks payments charged in a single step before the
+ * authorize/capture flow was introduced. Captured payments move to
+ * 'partially_refunded' and then 'refunded' as refunds are issued.
+ */
+export type PaymentStatus =
+  | 'pending'
+  | 'processing'
+  | 'authorized'
+  | 'captured'
+  | 'completed'
+  | 'voided'
+  | 'failed'
+  | 'partially_refunded'
+  | 'refunded';
+
 export interface PaymentAttributes {
   id: string;
   orderId: string;
   userId: string;
   amount: number;
   currency: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'refunded';
+  status: PaymentStatus;
   paymentMethod: 'credit_card' | 'debit_card' | 'paypal' | 'bank_transfer';
   transactionId?: string;
   pciCompliant: boolean;
   metadata?: any;
-  failureReason?: string;
+  failureReason?: string | null;
+  refundedAmount: number;
+  authorizedAt?: Date | null;
+  authorizationExpiresAt?: Date | null;
+  capturedAt?: Date | null;
+  voidedAt?: Date | null;
+  voidRequestedAt?: Date | null;
+  captureRequestedAt?: Date | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
-export interface PaymentCreationAttributes extends Optional<PaymentAttributes, 'id' | 'currency' | 'status' | 'pciCompliant' | 'transactionId' | 'metadata' | 'failureReason' | 'createdAt' | 'updatedAt'> {}
+export interface PaymentCreationAttributes extends Optional<PaymentAttributes, 'id' | 'currency' | 'status' | 'pciCompliant' | 'transactionId' | 'metadata' | 'failureReason' | 'refundedAmount' | 'authorizedAt' | 'authorizationExpiresAt' | 'capturedAt' | 'voidedAt' | 'voidRequestedAt' | 'captureRequestedAt' | 'createdAt' | 'updatedAt'> {}
 
 export class Payment extends Model<PaymentAttributes, PaymentCreationAttributes> implements PaymentAttributes {
   public id!: string;
@@ -24,12 +48,19 @@ export class Payment extends Model<PaymentAttributes, PaymentCreationAttributes>
   public userId!: string;
   public amount!: number;
   public currency!: string;
-  public status!: 'pending' | 'processing' | 'completed' | 'failed' | 'refunded';
+  public status!: PaymentStatus;
   public paymentMethod!: 'credit_card' | 'debit_card' | 'paypal' | 'bank_transfer';
   public transactionId?: string;
   public pciCompliant!: boolean;
   public metadata?: any;
-  public failureReason?: string;
+  public failureReason?: string | null;
+  public refundedAmount!: number;
+  public authorizedAt?: Date | null;
+  public authorizationExpiresAt?: Date | null;
+  public capturedAt?: Date | null;
+  public voidedAt?: Date | null;
+  public voidRequestedAt?: Date | null;
+  public captureRequestedAt?: Date | null;
 
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
@@ -67,7 +98,17 @@ export function initPaymentModel(sequelize: Sequelize): typeof Payment {
         },
       },
       status: {
-        type: DataTypes.ENUM('pending', 'processing', 'completed', 'failed', 'refunded'),
+        type: DataTypes.ENUM(
+          'pending',
+          'processing',
+          'authorized',
+          'captured',
+          'completed',
+          'voided',
+          'failed',
+          'partially_refunded',
+          'refunded'
+        ),
         defaultValue: 'pending',
         allowNull: false,
       },
@@ -93,6 +134,39 @@ export function initPaymentModel(sequelize: Sequelize): typeof Payment {
         type: DataTypes.TEXT,
         allowNull: true,
       },
+      refundedAmount: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 0,
+      },
+      authorizedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      authorizationExpiresAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      capturedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      voidedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      // Set when the order is cancelled while the authorization's outcome is
+      // unknown, so a hold found on reconciliation is released
+      voidRequestedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      // Set when the order ships; the capture is retried until it succeeds
+      // and the authorization is no longer voided on expiry
+      captureRequestedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
     },
     {
       sequelize,
@@ -108,6 +182,12 @@ export function initPaymentModel(sequelize: Sequelize): typeof Payment {
         {
           fields: ['status'],
         },
+        {
+          fields: ['status', 'authorizationExpiresAt'],
+        },
+        {
+          fields: ['status', 'captureRequestedAt'],
+        },
         {
           fields: ['transactionId'],
           unique: true,
@@ -0,0 +1,121 @@
+import { Model, DataTypes, Sequelize, Optional } from 'sequelize';
+
+/**
+ * Refunds are recorded as 'pending' before the gateway is called so that
+ * concurrent refunds cannot exceed the captured amount. A refund whose
+ * gateway call could not be confirmed stays pending until reconciled.
+ */
+export type RefundStatus = 'pending' | 'succeeded' | 'failed';
+
+/**
+ * Order line item a refund relates to
+ */
+export interface RefundLineItem {
+  productId: string;
+  quantity: number;
+}
+
+export interface RefundAttributes {
+  id: string;
+  paymentId: string;
+  orderId: string;
+  amount: number;
+  currency: string;
+  reason?: string | null;
+  items: RefundLineItem[];
+  status: RefundStatus;
+  failureReason?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface RefundCreationAttributes extends Optional<RefundAttributes, 'id' | 'reason' | 'items' | 'status' | 'failureReason' | 'createdAt' | 'updatedAt'> {}
+
+export class Refund extends Model<RefundAttributes, RefundCreationAttributes> implements RefundAttributes {
+  public id!: string;
+  public paymentId!: string;
+  public orderId!: string;
+  public amount!: number;
+  public currency!: string;
+  public reason?: string | null;
+  public items!: RefundLineItem[];
+  public status!: RefundStatus;
+  public failureReason?: string | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+export function initRefundModel(sequelize: Sequelize): typeof Refund {
+  Refund.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      paymentId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'payments',
+          key: 'id',
+        },
+      },
+      orderId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+      },
+      amount: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+        validate: {
+          min: 0.01,
+        },
+      },
+      currency: {
+        type: DataTypes.STRING(3),
+        allowNull: false,
+        validate: {
+          len: [3, 3],
+        },
+      },
+      reason: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      items: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: [],
+      },
+      status: {
+        type: DataTypes.ENUM('pending', 'succeeded', 'failed'),
+        defaultValue: 'pending',
+        allowNull: false,
+      },
+      failureReason: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'refunds',
+      timestamps: true,
+      indexes: [
+        {
+          fields: ['paymentId', 'createdAt'],
+        },
+        {
+          fields: ['orderId'],
+        },
+        {
+          fields: ['status'],
+        },
+      ],
+    }
+  );
+
+  return Refund;
+}
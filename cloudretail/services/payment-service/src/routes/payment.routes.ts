@@ -5,24 +5,41 @@ import {
   getPaymentByOrderId,
   getUserPayments,
   refundPayment,
+  getPaymentRefunds,
   retryPayment,
   getAllPayments,
+  capturePayment,
+  voidPayment,
+  authorizeOrder,
+  getOrderPayment,
 } from '../controllers/payment.controller';
 import {
   authenticate,
   authorize,
   strictRateLimiter,
   standardRateLimiter,
+  idempotency,
+  validateApiKey,
 } from '@cloudretail/middleware';
+import { idempotencyStore } from '../config/database';
 
 const router = Router();
 
+/**
+ * Service-to-service routes - require an internal API key
+ */
+router.post('/internal/authorize', validateApiKey, authorizeOrder);
+router.get('/internal/order/:orderId', validateApiKey, getOrderPayment);
+router.post('/internal/:id/void', validateApiKey, voidPayment);
+router.post('/internal/:id/refund', validateApiKey, refundPayment);
+
 /**
  * Protected routes - require authentication
  */
-router.post('/', authenticate, strictRateLimiter, createPayment);
+router.post('/', authenticate, strictRateLimiter, idempotency(idempotencyStore), createPayment);
 router.get('/', authenticate, standardRateLimiter, getUserPayments);
 router.get('/:id', authenticate, standardRateLimiter, getPaymentById);
+router.get('/:id/refunds', authenticate, standardRateLimiter, getPaymentRefunds);
 router.get(
   '/order/:orderId',
   authenticate,
@@ -49,6 +66,22 @@ router.post(
   refundPayment
 );
 
+router.post(
+  '/:id/capture',
+  authenticate,
+  authorize('admin'),
+  strictRateLimiter,
+  capturePayment
+);
+
+router.post(
+  '/:id/void',
+  authenticate,
+  authorize('admin'),
+  strictRateLimiter,
+  voidPayment
+);
+
 router.post(
   '/:id/retry',
   authenticate,
@@ -0,0 +1,49 @@
+import { logger } from '@cloudretail/middleware';
+import { PeriodicWorker } from '@cloudretail/outbox';
+import sequelize from '../config/database';
+import { PaymentService } from './payment.service';
+
+/**
+ * Authorization Sweeper
+ * Periodically settles authorizations whose outcome was lost, retries
+ * captures for shipped orders, and voids authorizations that expired
+ * before their order shipped, so customers' funds are not held indefinitely
+ */
+export class AuthorizationSweeper extends PeriodicWorker {
+  private paymentService: PaymentService;
+
+  constructor(options: { intervalMs?: number } = {}) {
+    super(sequelize, {
+      name: 'authorization-sweeper',
+      intervalMs:
+        options.intervalMs || parseInt(process.env.PAYMENT_AUTHORIZATION_SWEEP_INTERVAL_MS || '60000'),
+    });
+    this.paymentService = new PaymentService();
+  }
+
+  /**
+   * Settle every lost authorization, capture those that are due, then void
+   * every expired one
+   */
+  protected async work(): Promise<number> {
+    const reconciled = await this.paymentService.reconcileProcessingPayments();
+
+    if (reconciled > 0) {
+      logger.info(`Reconciled ${reconciled} payment authorization(s)`);
+    }
+
+    const captured = await this.paymentService.captureDuePayments();
+
+    if (captured > 0) {
+      logger.info(`Captured ${captured} payment(s) due for capture`);
+    }
+
+    const voided = await this.paymentService.voidExpiredAuthorizations();
+
+    if (voided > 0) {
+      logger.info(`Voided ${voided} expired payment authorization(s)`);
+    }
+
+    return reconciled + captured + voided;
+  }
+}
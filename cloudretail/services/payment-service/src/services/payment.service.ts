@@ -1,60 +1,227 @@
-import { Payment } from '../config/database';
+import { Op, Transaction } from 'sequelize';
+import sequelize, { Payment, Refund } from '../config/database';
+import { Payment as PaymentInstance, PaymentAttributes, PaymentStatus } from '../models/Payment.model';
+import { Refund as RefundInstance, RefundLineItem } from '../models/Refund.model';
 import {
+  ConflictError,
   NotFoundError,
+  ServiceUnavailableError,
   ValidationError,
   logger,
+  PageParams,
+  PaginationConfig,
+  parsePageParams,
+  pageQuery,
+  pageResult,
 } from '@cloudretail/middleware';
 import { EventPublisher } from '../events/event-publisher';
-import { v4 as uuidv4 } from 'uuid';
+import { PaymentGateway, PaymentGatewayError, createPaymentGateway } from '../gateways';
+
+/**
+ * Statuses from which further refunds can be issued
+ */
+const REFUNDABLE_STATUSES: PaymentStatus[] = ['captured', 'completed', 'partially_refunded'];
+
+const toCents = (amount: number) => Math.round(Number(amount) * 100);
+
+/**
+ * Whether a gateway failure shows the operation was not applied: the gateway
+ * answered and refused the request itself, rather than timing out, throttling
+ * or failing partway
+ */
+const isRejectedByGateway = (error: unknown): error is PaymentGatewayError =>
+  error instanceof PaymentGatewayError &&
+  error.statusCode !== undefined &&
+  error.statusCode >= 400 &&
+  error.statusCode < 500 &&
+  ![408, 409, 429].includes(error.statusCode);
+
+/**
+ * Outcome of an authorization attempt. Pending means the gateway's answer
+ * was lost, so a hold may or may not have been placed.
+ */
+interface AuthorizationOutcome {
+  success: boolean;
+  pending?: boolean;
+  transactionId?: string;
+  error?: string;
+}
+
+// Sorts offered by payment lists
+export const PAYMENT_PAGINATION: PaginationConfig = {
+  sortFields: ['createdAt', 'updatedAt', 'amount', 'status'],
+};
 
 export class PaymentService {
   private eventPublisher: EventPublisher;
-  private orderServiceUrl: string;
+  private gateway: PaymentGateway;
+  private authorizationTtlMs: number;
+  private refundReconcileDelayMs: number;
+  private authorizationReconcileDelayMs: number;
 
   constructor() {
     this.eventPublisher = new EventPublisher();
-    this.orderServiceUrl = process.env.ORDER_SERVICE_URL || 'http://localhost:3003';
+    this.gateway = createPaymentGateway();
+    this.authorizationTtlMs =
+      parseInt(process.env.PAYMENT_AUTHORIZATION_TTL_HOURS || '168') * 60 * 60 * 1000;
+    this.refundReconcileDelayMs =
+      parseInt(process.env.PAYMENT_REFUND_RECONCILE_DELAY_MINUTES || '10') * 60 * 1000;
+    this.authorizationReconcileDelayMs =
+      parseInt(process.env.PAYMENT_AUTHORIZATION_RECONCILE_DELAY_MINUTES || '10') * 60 * 1000;
   }
 
   /**
-   * Simulate payment processing with external payment gateway
-   * In production, this would integrate with Stripe, PayPal, etc.
+   * Place a hold for the payment amount with the gateway
    */
-  private async processPaymentWithGateway(
-    amount: number,
-    currency: string,
-    paymentMethod: string,
-    metadata?: any
-  ): Promise<{ success: boolean; transactionId?: string; error?: string }> {
+  private async authorizeWithGateway(payment: PaymentInstance): Promise<AuthorizationOutcome> {
     try {
-      // Simulate payment processing delay
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      // Simulate 95% success rate
-      const success = Math.random() > 0.05;
+      const authorization = await this.gateway.authorize({
+        reference: payment.id,
+        amount: Number(payment.amount),
+        currency: payment.currency,
+        paymentMethod: payment.paymentMethod,
+        metadata: payment.metadata,
+      });
 
-      if (success) {
-        return {
-          success: true,
-          transactionId: `txn_${uuidv4()}`,
-        };
-      } else {
+      if (!authorization.success) {
         return {
           success: false,
-          error: 'Payment declined by payment gateway',
+          error: authorization.error || 'Payment declined by payment gateway',
         };
       }
+
+      return {
+        success: true,
+        transactionId: authorization.transactionId,
+      };
     } catch (error) {
-      logger.error('Error processing payment with gateway', { error });
+      logger.error('Error authorizing payment with gateway', { error, paymentId: payment.id });
+
+      if (isRejectedByGateway(error)) {
+        return { success: false, error: error.message };
+      }
+
+      // Timed out or failed partway: the hold may exist, so
+      // reconcileProcessingPayments settles it from the gateway's records
       return {
         success: false,
+        pending: true,
         error: 'Payment gateway communication error',
       };
     }
   }
 
   /**
-   * Create and process a payment
+   * Record the outcome of an authorization attempt. A pending outcome leaves
+   * the payment processing.
+   */
+  private async recordAuthorization(
+    payment: PaymentInstance,
+    gatewayResponse: AuthorizationOutcome,
+    transaction?: Transaction
+  ): Promise<void> {
+    if (gatewayResponse.pending) {
+      logger.warn('Payment authorization outcome unknown', { paymentId: payment.id });
+      return;
+    }
+
+    if (gatewayResponse.success) {
+      const authorizedAt = new Date();
+
+      await this.updatePayment(
+        payment,
+        {
+          status: 'authorized',
+          transactionId: gatewayResponse.transactionId,
+          authorizedAt,
+          authorizationExpiresAt: new Date(authorizedAt.getTime() + this.authorizationTtlMs),
+        },
+        {
+          type: 'payment.authorized',
+          payload: {
+            paymentId: payment.id,
+            orderId: payment.orderId,
+            userId: payment.userId,
+            amount: payment.amount,
+            transactionId: gatewayResponse.transactionId,
+          },
+        },
+        transaction
+      );
+
+      logger.info('Payment authorized', { paymentId: payment.id });
+      return;
+    }
+
+    await this.updatePayment(
+      payment,
+      {
+        status: 'failed',
+        failureReason: gatewayResponse.error,
+      },
+      {
+        type: 'payment.failed',
+        payload: {
+          paymentId: payment.id,
+          orderId: payment.orderId,
+          userId: payment.userId,
+          amount: payment.amount,
+          reason: gatewayResponse.error,
+        },
+      },
+      transaction
+    );
+
+    logger.warn('Payment authorization failed', {
+      paymentId: payment.id,
+      reason: gatewayResponse.error,
+    });
+  }
+
+  /**
+   * Run a gateway operation, surfacing communication failures as 503s
+   */
+  private async callGateway<T>(paymentId: string, operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      logger.error('Payment gateway operation failed', { error, paymentId });
+      throw new ServiceUnavailableError(
+        error instanceof PaymentGatewayError ? error.message : 'Payment gateway communication error'
+      );
+    }
+  }
+
+  /**
+   * Update a payment and record the resulting event in one transaction,
+   * either the caller's or a new one
+   */
+  private async updatePayment(
+    payment: PaymentInstance,
+    changes: Partial<PaymentAttributes>,
+    event: Parameters<EventPublisher['publishEvent']>[0],
+    callerTransaction?: Transaction
+  ): Promise<void> {
+    if (callerTransaction) {
+      await payment.update(changes, { transaction: callerTransaction });
+      await this.eventPublisher.publishEvent(event, callerTransaction);
+      return;
+    }
+
+    const transaction = await sequelize.transaction();
+
+    try {
+      await payment.update(changes, { transaction });
+      await this.eventPublisher.publishEvent(event, transaction);
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Create a payment and authorize it with the gateway
    */
   async createPayment(paymentData: {
     orderId: string;
@@ -75,88 +242,53 @@ export class PaymentService {
         where: { orderId: paymentData.orderId },
       });
 
-      if (existingPayment && existingPayment.status === 'completed') {
-        throw new ValidationError('Payment already completed for this order');
+      if (existingPayment && ['authorized', 'captured', 'completed'].includes(existingPayment.status)) {
+        throw new ValidationError('Payment already authorized for this order');
       }
 
-      // Create payment record
-      const payment = await Payment.create({
-        ...paymentData,
-        currency: paymentData.currency || 'USD',
-        status: 'processing',
-        pciCompliant: true,
-      });
-
-      // Publish payment initiated event
-      await this.eventPublisher.publishEvent({
-        type: 'payment.initiated',
-        payload: {
-          paymentId: payment.id,
-          orderId: payment.orderId,
-          userId: payment.userId,
-          amount: payment.amount,
-          currency: payment.currency,
-        },
-      });
-
-      logger.info('Payment initiated', { paymentId: payment.id });
-
-      // Process payment with gateway
-      const gatewayResponse = await this.processPaymentWithGateway(
-        payment.amount,
-        payment.currency,
-        payment.paymentMethod,
-        payment.metadata
-      );
-
-      if (gatewayResponse.success) {
-        // Update payment status to completed
-        await payment.update({
-          status: 'completed',
-          transactionId: gatewayResponse.transactionId,
-        });
+      if (existingPayment && existingPayment.status === 'processing') {
+        throw new ConflictError('Payment already in progress for this order');
+      }
 
-        // Publish payment completed event
-        await this.eventPublisher.publishEvent({
-          type: 'payment.completed',
-          payload: {
-            paymentId: payment.id,
-            orderId: payment.orderId,
-            userId: payment.userId,
-            amount: payment.amount,
-            transactionId: payment.transactionId,
+      // Create payment record
+      const transaction = await sequelize.transaction();
+      let payment: PaymentInstance;
+
+      try {
+        payment = await Payment.create(
+          {
+            ...paymentData,
+            currency: paymentData.currency || 'USD',
+            status: 'processing',
+            pciCompliant: true,
           },
-        });
-
-        // Update order payment ID
-        await this.updateOrderPaymentId(payment.orderId, payment.id);
+          { transaction }
+        );
 
-        logger.info('Payment completed successfully', { paymentId: payment.id });
-      } else {
-        // Update payment status to failed
-        await payment.update({
-          status: 'failed',
-          failureReason: gatewayResponse.error,
-        });
-
-        // Publish payment failed event
+        // Publish payment initiated event
         await this.eventPublisher.publishEvent({
-          type: 'payment.failed',
+          type: 'payment.initiated',
           payload: {
             paymentId: payment.id,
             orderId: payment.orderId,
             userId: payment.userId,
             amount: payment.amount,
-            reason: gatewayResponse.error,
+            currency: payment.currency,
           },
-        });
+        }, transaction);
 
-        logger.warn('Payment failed', {
-          paymentId: payment.id,
-          reason: gatewayResponse.error,
-        });
+        await transaction.commit();
+      } catch (error) {
+        await transaction.rollback();
+        throw error;
       }
 
+      logger.info('Payment initiated', { paymentId: payment.id });
+
+      // Authorize with gateway; funds are captured when the order ships
+      const gatewayResponse = await this.authorizeWithGateway(payment);
+      await this.recordAuthorization(payment, gatewayResponse);
+
       return payment.toJSON();
     } catch (error) {
       logger.error('Error creating payment', { error });
@@ -164,23 +296,6 @@ export class PaymentService {
     }
   }
 
-  /**
-   * Update order payment ID
-   */
-  private async updateOrderPaymentId(orderId: string, paymentId: string): Promise<void> {
-    try {
-      await fetch(`${this.orderServiceUrl}/api/orders/orders/${orderId}/payment`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ paymentId }),
-      });
-    } catch (error) {
-      logger.error('Error updating order payment ID', { error });
-    }
-  }
-
   /**
    * Get payment by ID
    */
@@ -226,18 +341,15 @@ export class PaymentService {
   }
 
   /**
-   * Get payments by user
+   * Get a page of a user's payments
    */
-  async getPaymentsByUser(userId: string, limit: number = 100, offset: number = 0) {
-    const payments = await Payment.findAndCountAll({
-      where: { userId },
-      limit,
-      offset,
-      order: [['createdAt', 'DESC']],
-    });
+  async getPaymentsByUser(userId: string, params: PageParams = {}) {
+    const page = parsePageParams(params, PAYMENT_PAGINATION);
+    const payments = await Payment.findAll(pageQuery(page, { userId }));
+    const { rows, pagination } = pageResult(payments, page);
 
     return {
-      payments: payments.rows.map((p) => {
+      payments: rows.map((p) => {
         const paymentData = p.toJSON();
         if (paymentData.metadata?.cardNumber) {
           paymentData.metadata = {
@@ -247,90 +359,595 @@ export class PaymentService {
         }
         return paymentData;
       }),
-      total: payments.count,
-      limit,
-      offset,
+      pagination,
     };
   }
 
   /**
-   * Process refund
+   * Refund part or all of a captured payment. Omitting the amount refunds
+   * whatever has not been refunded yet.
    */
-  async refundPayment(paymentId: string, reason?: string) {
-    const payment = await Payment.findByPk(paymentId);
+  async refundPayment(
+    paymentId: string,
+    refundData: { amount?: number; reason?: string; items?: RefundLineItem[] } = {}
+  ) {
+    // Reserve the refund under a row lock so concurrent refunds cannot
+    // exceed the captured amount
+    const transaction = await sequelize.transaction();
+    let payment: PaymentInstance | null;
+    let refund: RefundInstance;
 
-    if (!payment) {
-      throw new NotFoundError('Payment');
+    try {
+      payment = await Payment.findByPk(paymentId, { transaction, lock: Transaction.LOCK.UPDATE });
+
+      if (!payment) {
+        throw new NotFoundError('Payment');
+      }
+
+      if (payment.status === 'refunded') {
+        throw new ValidationError('Payment has already been refunded');
+      }
+
+      if (!REFUNDABLE_STATUSES.includes(payment.status)) {
+        throw new ValidationError('Only captured payments can be refunded');
+      }
+
+      if (!payment.transactionId) {
+        throw new ValidationError('Payment has no gateway transaction to refund');
+      }
+
+      const reserved = await Refund.sum('amount', {
+        where: { paymentId, status: ['pending', 'succeeded'] },
+        transaction,
+      });
+      const refundable = toCents(payment.amount) - toCents(reserved || 0);
+      const amount = refundData.amount ?? refundable / 100;
+
+      if (refundable <= 0) {
+        throw new ValidationError('Payment has no refundable amount remaining');
+      }
+
+      if (toCents(amount) <= 0 || toCents(amount) > refundable) {
+        throw new ValidationError(
+          `Refund amount must be between 0.01 and ${(refundable / 100).toFixed(2)}`
+        );
+      }
+
+      refund = await Refund.create(
+        {
+          paymentId,
+          orderId: payment.orderId,
+          amount,
+          currency: payment.currency,
+          reason: refundData.reason,
+          items: refundData.items || [],
+          status: 'pending',
+        },
+        { transaction }
+      );
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
     }
 
-    if (payment.status === 'refunded') {
-      throw new ValidationError('Payment has already been refunded');
+    // Process refund with gateway
+    logger.info('Processing refund', { paymentId, refundId: refund.id, amount: refund.amount });
+
+    // Any other gateway error leaves the refund pending, since it may still
+    // have been applied; reconcilePendingRefunds settles it later
+    const transactionId = payment.transactionId!;
+    const gatewayResponse = await this.callGateway(paymentId, async () => {
+      try {
+        return await this.gateway.refund(transactionId, Number(refund.amount));
+      } catch (error) {
+        if (isRejectedByGateway(error)) {
+          return { success: false, error: error.message };
+        }
+        throw error;
+      }
+    });
+
+    if (!gatewayResponse.success) {
+      await refund.update({ status: 'failed', failureReason: gatewayResponse.error });
+      throw new ValidationError(`Refund rejected by payment gateway: ${gatewayResponse.error}`);
     }
 
-    if (payment.status !== 'completed') {
-      throw new ValidationError('Only completed payments can be refunded');
+    const completeTransaction = await sequelize.transaction();
+
+    try {
+      // Re-read the running total in case another refund completed meanwhile
+      await payment.reload({ transaction: completeTransaction, lock: Transaction.LOCK.UPDATE });
+      await this.recordRefund(payment, refund, completeTransaction);
+
+      await completeTransaction.commit();
+    } catch (error) {
+      await completeTransaction.rollback();
+      throw error;
     }
 
-    // Process refund with gateway
-    // In production, this would call the payment gateway's refund API
-    logger.info('Processing refund', { paymentId });
+    logger.info('Payment refunded successfully', { paymentId, refundId: refund.id });
 
-    // Update payment status
-    await payment.update({
-      status: 'refunded',
-      failureReason: reason,
-    });
+    return {
+      ...payment.toJSON(),
+      refund: refund.toJSON(),
+    };
+  }
+
+  /**
+   * Mark a refund the gateway has made as succeeded and add it to the
+   * payment's refunded total. The payment must be locked by the transaction.
+   */
+  private async recordRefund(
+    payment: PaymentInstance,
+    refund: RefundInstance,
+    transaction: Transaction
+  ): Promise<void> {
+    const refundedAmount = (toCents(payment.refundedAmount) + toCents(refund.amount)) / 100;
+    const fullyRefunded = toCents(refundedAmount) >= toCents(payment.amount);
+
+    await refund.update({ status: 'succeeded' }, { transaction });
+    await payment.update(
+      {
+        refundedAmount,
+        status: fullyRefunded ? 'refunded' : 'partially_refunded',
+      },
+      { transaction }
+    );
 
-    // Publish payment refunded event
     await this.eventPublisher.publishEvent({
       type: 'payment.refunded',
       payload: {
         paymentId: payment.id,
         orderId: payment.orderId,
         userId: payment.userId,
-        amount: payment.amount,
-        reason,
+        refundId: refund.id,
+        amount: Number(refund.amount),
+        currency: refund.currency,
+        totalRefunded: refundedAmount,
+        fullyRefunded,
+        reason: refund.reason,
+        items: refund.items,
       },
+    }, transaction);
+  }
+
+  /**
+   * Settle refunds left pending because the gateway's answer was lost,
+   * using the gateway's record of how much of each payment it has refunded.
+   * Returns the number of refunds settled.
+   */
+  async reconcilePendingRefunds(limit: number = 100): Promise<number> {
+    // Younger refunds may still be waiting on the gateway
+    const cutoff = new Date(Date.now() - this.refundReconcileDelayMs);
+
+    const refunds = await Refund.findAll({
+      where: {
+        status: 'pending',
+        createdAt: { [Op.lte]: cutoff },
+      },
+      order: [['createdAt', 'ASC']],
+      limit,
     });
 
-    logger.info('Payment refunded successfully', { paymentId });
+    let settled = 0;
+
+    for (const paymentId of new Set(refunds.map((refund) => refund.paymentId))) {
+      try {
+        settled += await this.reconcilePaymentRefunds(paymentId, cutoff);
+      } catch (error) {
+        logger.error('Error reconciling pending refunds', { error, paymentId });
+      }
+    }
+
+    return settled;
+  }
+
+  /**
+   * Settle the pending refunds of one payment, oldest first. Refunds the
+   * gateway's refunded total accounts for succeeded; the rest were never
+   * applied and have failed.
+   */
+  private async reconcilePaymentRefunds(paymentId: string, cutoff: Date): Promise<number> {
+    const payment = await Payment.findByPk(paymentId);
+
+    if (!payment || !payment.transactionId) {
+      return 0;
+    }
+
+    const gatewayTransaction = await this.gateway.getStatus(payment.transactionId);
+    const transaction = await sequelize.transaction();
+    let settled = 0;
+
+    try {
+      await payment.reload({ transaction, lock: Transaction.LOCK.UPDATE });
+
+      const pending = await Refund.findAll({
+        where: { paymentId, status: 'pending' },
+        order: [['createdAt', 'ASC']],
+        transaction,
+      });
+
+      // A refund still in flight may be in the gateway's total but not ours yet
+      if (pending.some((refund) => refund.createdAt > cutoff)) {
+        await transaction.commit();
+        return 0;
+      }
+
+      let unrecorded = toCents(gatewayTransaction.refundedAmount) - toCents(payment.refundedAmount);
+
+      for (const refund of pending) {
+        if (toCents(refund.amount) <= unrecorded) {
+          unrecorded -= toCents(refund.amount);
+          await this.recordRefund(payment, refund, transaction);
+        } else {
+          await refund.update(
+            { status: 'failed', failureReason: 'Refund was not applied by the payment gateway' },
+            { transaction }
+          );
+        }
+        settled++;
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    logger.info('Pending refunds reconciled', { paymentId, settled });
+
+    return settled;
+  }
+
+  /**
+   * Get the refunds issued against a payment, oldest first
+   */
+  async getRefunds(paymentId: string) {
+    const refunds = await Refund.findAll({
+      where: { paymentId },
+      order: [['createdAt', 'ASC']],
+    });
+
+    return refunds.map((refund) => refund.toJSON());
+  }
+
+  /**
+   * Capture the full amount of an authorized payment. The row stays locked
+   * through the gateway call so a concurrent void cannot release the hold.
+   */
+  async capturePayment(paymentId: string) {
+    const transaction = await sequelize.transaction();
+    let payment: PaymentInstance | null;
+
+    try {
+      payment = await Payment.findByPk(paymentId, { transaction, lock: Transaction.LOCK.UPDATE });
+
+      if (!payment) {
+        throw new NotFoundError('Payment');
+      }
+
+      if (payment.status !== 'authorized') {
+        throw new ValidationError('Only authorized payments can be captured');
+      }
+
+      if (payment.authorizationExpiresAt && payment.authorizationExpiresAt <= new Date()) {
+        throw new ValidationError('Payment authorization has expired');
+      }
+
+      logger.info('Capturing payment', { paymentId });
+
+      const transactionId = payment.transactionId!;
+      const gatewayResponse = await this.callGateway(paymentId, () => this.gateway.capture(transactionId));
+
+      if (!gatewayResponse.success) {
+        throw new ValidationError(`Capture rejected by payment gateway: ${gatewayResponse.error}`);
+      }
+
+      await this.updatePayment(
+        payment,
+        {
+          status: 'captured',
+          capturedAt: new Date(),
+        },
+        {
+          type: 'payment.captured',
+          payload: {
+            paymentId: payment.id,
+            orderId: payment.orderId,
+            userId: payment.userId,
+            amount: payment.amount,
+            transactionId,
+          },
+        },
+        transaction
+      );
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    logger.info('Payment captured successfully', { paymentId });
+
+    return payment.toJSON();
+  }
+
+  /**
+   * Release the hold on an authorized payment. The row stays locked through
+   * the gateway call so a concurrent capture cannot be undone.
+   */
+  async voidPayment(paymentId: string, reason?: string) {
+    const transaction = await sequelize.transaction();
+    let payment: PaymentInstance | null;
+
+    try {
+      payment = await Payment.findByPk(paymentId, { transaction, lock: Transaction.LOCK.UPDATE });
+
+      if (!payment) {
+        throw new NotFoundError('Payment');
+      }
+
+      if (payment.status === 'voided') {
+        throw new ValidationError('Payment has already been voided');
+      }
+
+      if (payment.status !== 'authorized') {
+        throw new ValidationError('Only authorized payments can be voided');
+      }
+
+      if (payment.captureRequestedAt) {
+        throw new ValidationError('Payment is due to be captured for a shipped order');
+      }
+
+      logger.info('Voiding payment', { paymentId });
+
+      const transactionId = payment.transactionId!;
+      const gatewayResponse = await this.callGateway(paymentId, () => this.gateway.void(transactionId));
+
+      if (!gatewayResponse.success) {
+        throw new ValidationError(`Void rejected by payment gateway: ${gatewayResponse.error}`);
+      }
+
+      await this.updatePayment(
+        payment,
+        {
+          status: 'voided',
+          voidedAt: new Date(),
+          failureReason: reason,
+        },
+        {
+          type: 'payment.voided',
+          payload: {
+            paymentId: payment.id,
+            orderId: payment.orderId,
+            userId: payment.userId,
+            amount: payment.amount,
+            reason,
+          },
+        },
+        transaction
+      );
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    logger.info('Payment voided successfully', { paymentId });
 
     return payment.toJSON();
   }
 
+  /**
+   * Capture the authorized payment for an order, if there is one. The
+   * capture is recorded as due first, so captureDuePayments retries it if
+   * this attempt fails.
+   */
+  async captureOrderPayment(orderId: string) {
+    const payment = await Payment.findOne({ where: { orderId, status: 'authorized' } });
+
+    if (!payment) {
+      logger.debug('No authorized payment to capture for order', { orderId });
+      return null;
+    }
+
+    if (!payment.captureRequestedAt) {
+      await payment.update({ captureRequestedAt: new Date() });
+    }
+
+    try {
+      return await this.capturePayment(payment.id);
+    } catch (error) {
+      logger.error('Error capturing order payment; it will be retried', { error, orderId, paymentId: payment.id });
+      return null;
+    }
+  }
+
+  /**
+   * Void the authorized payment for an order, if there is one
+   */
+  async voidOrderPayment(orderId: string, reason?: string) {
+    const payment = await Payment.findOne({ where: { orderId, status: ['authorized', 'processing'] } });
+
+    // The authorization's outcome is not known yet; reconciliation voids
+    // the hold if the gateway placed one
+    if (payment?.status === 'processing') {
+      await payment.update({ voidRequestedAt: new Date(), failureReason: reason });
+      logger.info('Void requested for payment awaiting reconciliation', { orderId, paymentId: payment.id });
+      return null;
+    }
+
+    if (!payment) {
+      logger.debug('No authorized payment to void for order', { orderId });
+      return null;
+    }
+
+    return this.voidPayment(payment.id, reason);
+  }
+
+  /**
+   * Retry captures for shipped orders that have not gone through yet.
+   * Returns the number of payments captured.
+   */
+  async captureDuePayments(limit: number = 100): Promise<number> {
+    const payments = await Payment.findAll({
+      where: {
+        status: 'authorized',
+        captureRequestedAt: { [Op.ne]: null },
+      },
+      order: [['captureRequestedAt', 'ASC']],
+      limit,
+    });
+
+    let captured = 0;
+
+    for (const payment of payments) {
+      try {
+        await this.capturePayment(payment.id);
+        captured++;
+      } catch (error) {
+        logger.error('Error capturing due payment', { error, paymentId: payment.id });
+      }
+    }
+
+    return captured;
+  }
+
+  /**
+   * Void authorizations that have passed their expiry without being captured.
+   * Payments of shipped orders are left for captureDuePayments.
+   */
+  async voidExpiredAuthorizations(limit: number = 100): Promise<number> {
+    const payments = await Payment.findAll({
+      where: {
+        status: 'authorized',
+        authorizationExpiresAt: { [Op.lte]: new Date() },
+        captureRequestedAt: null,
+      },
+      order: [['authorizationExpiresAt', 'ASC']],
+      limit,
+    });
+
+    let voided = 0;
+
+    for (const payment of payments) {
+      try {
+        await this.voidPayment(payment.id, 'Authorization expired');
+        voided++;
+      } catch (error) {
+        logger.error('Error voiding expired authorization', { error, paymentId: payment.id });
+      }
+    }
+
+    return voided;
+  }
+
+  /**
+   * Settle payments left processing because the gateway's answer to their
+   * authorization was lost, using the hold the gateway placed for each, if
+   * any. Returns the number of payments settled.
+   */
+  async reconcileProcessingPayments(limit: number = 100): Promise<number> {
+    // Younger payments may still be waiting on the gateway
+    const cutoff = new Date(Date.now() - this.authorizationReconcileDelayMs);
+
+    const payments = await Payment.findAll({
+      where: {
+        status: 'processing',
+        updatedAt: { [Op.lte]: cutoff },
+      },
+      order: [['updatedAt', 'ASC']],
+      limit,
+    });
+
+    let settled = 0;
+
+    for (const payment of payments) {
+      try {
+        if (await this.reconcileAuthorization(payment, cutoff)) {
+          settled++;
+        }
+      } catch (error) {
+        logger.error('Error reconciling payment authorization', { error, paymentId: payment.id });
+      }
+    }
+
+    return settled;
+  }
+
+  /**
+   * Settle one processing payment from the gateway's records. A hold the
+   * gateway placed is recorded as authorized, and voided straight away if
+   * the order was cancelled meanwhile; without one the payment has failed.
+   */
+  private async reconcileAuthorization(payment: PaymentInstance, cutoff: Date): Promise<boolean> {
+    const gatewayTransaction = await this.gateway.findByReference(payment.id);
+    const held = gatewayTransaction?.status === 'authorized';
+    const transaction = await sequelize.transaction();
+
+    try {
+      await payment.reload({ transaction, lock: Transaction.LOCK.UPDATE });
+
+      // Settled or retried since it was read
+      if (payment.status !== 'processing' || payment.updatedAt > cutoff) {
+        await transaction.commit();
+        return false;
+      }
+
+      await this.recordAuthorization(
+        payment,
+        held
+          ? { success: true, transactionId: gatewayTransaction!.transactionId }
+          : { success: false, error: 'Payment was not authorized by the payment gateway' },
+        transaction
+      );
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    logger.info('Payment authorization reconciled', { paymentId: payment.id, authorized: held });
+
+    if (held && payment.voidRequestedAt) {
+      await this.voidPayment(payment.id, payment.failureReason || 'Order cancelled');
+    }
+
+    return true;
+  }
+
   /**
    * Get all payments (admin only)
    */
-  async getAllPayments(filters?: {
-    status?: string;
-    userId?: string;
-    paymentMethod?: string;
-    limit?: number;
-    offset?: number;
-  }) {
+  async getAllPayments(
+    filters: { status?: string; userId?: string; paymentMethod?: string } = {},
+    params: PageParams = {}
+  ) {
+    const page = parsePageParams(params, PAYMENT_PAGINATION);
     const where: any = {};
 
-    if (filters?.status) {
+    if (filters.status) {
       where.status = filters.status;
     }
 
-    if (filters?.userId) {
+    if (filters.userId) {
       where.userId = filters.userId;
     }
 
-    if (filters?.paymentMethod) {
+    if (filters.paymentMethod) {
       where.paymentMethod = filters.paymentMethod;
     }
 
-    const payments = await Payment.findAndCountAll({
-      where,
-      limit: filters?.limit || 100,
-      offset: filters?.offset || 0,
-      order: [['createdAt', 'DESC']],
-    });
+    const payments = await Payment.findAll(pageQuery(page, where));
+    const { rows, pagination } = pageResult(payments, page);
 
     return {
-      payments: payments.rows.map((p) => {
+      payments: rows.map((p) => {
         const paymentData = p.toJSON();
         if (paymentData.metadata?.cardNumber) {
           paymentData.metadata = {
@@ -340,9 +957,7 @@ export class PaymentService {
         }
         return paymentData;
       }),
-      total: payments.count,
-      limit: filters?.limit || 100,
-      offset: filters?.offset || 0,
+      pagination,
     };
   }
 
@@ -363,57 +978,11 @@ export class PaymentService {
     // Update status to processing
     await payment.update({
       status: 'processing',
-      failureReason: undefined,
+      failureReason: null,
     });
 
-    // Process payment with gateway
-    const gatewayResponse = await this.processPaymentWithGateway(
-      payment.amount,
-      payment.currency,
-      payment.paymentMethod,
-      payment.metadata
-    );
-
-    if (gatewayResponse.success) {
-      await payment.update({
-        status: 'completed',
-        transactionId: gatewayResponse.transactionId,
-      });
-
-      await this.eventPublisher.publishEvent({
-        type: 'payment.completed',
-        payload: {
-          paymentId: payment.id,
-          orderId: payment.orderId,
-          userId: payment.userId,
-          amount: payment.amount,
-          transactionId: payment.transactionId,
-        },
-      });
-
-      logger.info('Payment retry successful', { paymentId: payment.id });
-    } else {
-      await payment.update({
-        status: 'failed',
-        failureReason: gatewayResponse.error,
-      });
-
-      await this.eventPublisher.publishEvent({
-        type: 'payment.failed',
-        payload: {
-          paymentId: payment.id,
-          orderId: payment.orderId,
-          userId: payment.userId,
-          amount: payment.amount,
-          reason: gatewayResponse.error,
-        },
-      });
-
-      logger.warn('Payment retry failed', {
-        paymentId: payment.id,
-        reason: gatewayResponse.error,
-      });
-    }
+    const gatewayResponse = await this.authorizeWithGateway(payment);
+    await this.recordAuthorization(payment, gatewayResponse);
 
     return payment.toJSON();
   }
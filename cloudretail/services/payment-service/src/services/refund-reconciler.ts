@@ -0,0 +1,35 @@
+import { logger } from '@cloudretail/middleware';
+import { PeriodicWorker } from '@cloudretail/outbox';
+import sequelize from '../config/database';
+import { PaymentService } from './payment.service';
+
+/**
+ * Refund Reconciler
+ * Periodically settles refunds left pending because the gateway's answer
+ * was lost, so they stop counting against the refundable amount
+ */
+export class RefundReconciler extends PeriodicWorker {
+  private paymentService: PaymentService;
+
+  constructor(options: { intervalMs?: number } = {}) {
+    super(sequelize, {
+      name: 'refund-reconciler',
+      intervalMs:
+        options.intervalMs || parseInt(process.env.PAYMENT_REFUND_RECONCILE_INTERVAL_MS || '60000'),
+    });
+    this.paymentService = new PaymentService();
+  }
+
+  /**
+   * Settle every pending refund the gateway can account for
+   */
+  protected async work(): Promise<number> {
+    const settled = await this.paymentService.reconcilePendingRefunds();
+
+    if (settled > 0) {
+      logger.info(`Reconciled ${settled} pending refund(s)`);
+    }
+
+    return settled;
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Unit tests for payment gateway selection
+ */
+
+import { createPaymentGateway, HttpPaymentGateway, SimulatedPaymentGateway } from '../../src/gateways';
+
+describe('createPaymentGateway', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env };
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('should use the in-process simulator by default outside production', () => {
+    // Arrange
+    delete process.env.PAYMENT_GATEWAY;
+    process.env.NODE_ENV = 'development';
+
+    // Act & Assert
+    expect(createPaymentGateway()).toBeInstanceOf(SimulatedPaymentGateway);
+  });
+
+  it('should refuse the in-process simulator in production', () => {
+    // Arrange
+    delete process.env.PAYMENT_GATEWAY;
+    process.env.NODE_ENV = 'production';
+
+    // Act & Assert
+    expect(() => createPaymentGateway()).toThrow("Payment gateway 'local' cannot be used in production");
+  });
+
+  it('should use the HTTP gateway in production when configured', () => {
+    // Arrange
+    process.env.PAYMENT_GATEWAY = 'http';
+    process.env.PAYMENT_GATEWAY_URL = 'https://gateway.example.com';
+    process.env.NODE_ENV = 'production';
+
+    // Act & Assert
+    expect(createPaymentGateway()).toBeInstanceOf(HttpPaymentGateway);
+  });
+
+  it('should reject an unknown gateway', () => {
+    // Arrange
+    process.env.PAYMENT_GATEWAY = 'carrier-pigeon';
+
+    // Act & Assert
+    expect(() => createPaymentGateway()).toThrow("Unknown payment gateway 'carrier-pigeon'");
+  });
+});
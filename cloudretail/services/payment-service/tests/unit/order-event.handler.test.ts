@@ -0,0 +1,63 @@
+/**
+ * Unit tests for Order Event Handler
+ * Tests payment capture and void driven by order-service events
+ */
+
+import { OrderEventHandler } from '../../src/events/order-event.handler';
+
+// Mock dependencies
+jest.mock('../../src/config/database');
+jest.mock('../../src/services/payment.service');
+
+describe('OrderEventHandler', () => {
+  let handler: OrderEventHandler;
+  let mockPaymentService: any;
+
+  const orderEvent = (type: any, payload: any) => ({
+    id: 'event-123',
+    type,
+    payload: { orderId: 'order-123', userId: 'user-123', ...payload },
+    timestamp: new Date(),
+    metadata: { correlationId: 'correlation-123', service: 'order-service' },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    handler = new OrderEventHandler();
+    mockPaymentService = (handler as any).paymentService;
+    mockPaymentService.captureOrderPayment = jest.fn().mockResolvedValue(null);
+    mockPaymentService.voidOrderPayment = jest.fn().mockResolvedValue(null);
+  });
+
+  describe('handleOrderStatusUpdated', () => {
+    it('should capture the payment when the order ships', async () => {
+      // Act
+      await handler.handleOrderStatusUpdated(
+        orderEvent('order.status_updated', { oldStatus: 'processing', newStatus: 'shipped' })
+      );
+
+      // Assert
+      expect(mockPaymentService.captureOrderPayment).toHaveBeenCalledWith('order-123');
+    });
+
+    it('should ignore other status changes', async () => {
+      // Act
+      await handler.handleOrderStatusUpdated(
+        orderEvent('order.status_updated', { oldStatus: 'confirmed', newStatus: 'processing' })
+      );
+
+      // Assert
+      expect(mockPaymentService.captureOrderPayment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleOrderCancelled', () => {
+    it('should void the payment of a cancelled order', async () => {
+      // Act
+      await handler.handleOrderCancelled(orderEvent('order.cancelled', { totalAmount: 199.99 }));
+
+      // Assert
+      expect(mockPaymentService.voidOrderPayment).toHaveBeenCalledWith('order-123', 'Order cancelled');
+    });
+  });
+});
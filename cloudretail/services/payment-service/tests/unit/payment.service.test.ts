@@ -4,9 +4,13 @@
  */
 
 import { PaymentService } from '../../src/services/payment.service';
-import { Payment } from '../../src/config/database';
+import { PaymentGatewayError } from '../../src/gateways';
+import { Payment, Refund } from '../../src/config/database';
+import sequelize from '../../src/config/database';
 import {
+  ConflictError,
   NotFoundError,
+  ServiceUnavailableError,
   ValidationError,
 } from '@cloudretail/middleware';
 
@@ -21,6 +25,8 @@ global.fetch = jest.fn();
 describe('PaymentService', () => {
   let paymentService: PaymentService;
   let mockEventPublisher: any;
+  let mockTransaction: any;
+  let mockGateway: any;
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -28,8 +34,23 @@ describe('PaymentService', () => {
     mockEventPublisher = (paymentService as any).eventPublisher;
     mockEventPublisher.publishEvent = jest.fn().mockResolvedValue(undefined);
 
-    // Mock Math.random for predictable payment gateway simulation
-    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    // Mock transaction
+    mockTransaction = {
+      commit: jest.fn().mockResolvedValue(undefined),
+      rollback: jest.fn().mockResolvedValue(undefined),
+    };
+    (sequelize.transaction as jest.Mock) = jest.fn().mockResolvedValue(mockTransaction);
+
+    // Approve every gateway operation unless a test says otherwise
+    mockGateway = {
+      authorize: jest.fn().mockResolvedValue({ success: true, transactionId: 'txn_123', status: 'authorized' }),
+      capture: jest.fn().mockResolvedValue({ success: true, transactionId: 'txn_123', status: 'captured' }),
+      void: jest.fn().mockResolvedValue({ success: true, transactionId: 'txn_123', status: 'voided' }),
+      refund: jest.fn().mockResolvedValue({ success: true, transactionId: 'txn_123', status: 'refunded' }),
+      getStatus: jest.fn(),
+      findByReference: jest.fn(),
+    };
+    (paymentService as any).gateway = mockGateway;
   });
 
   afterEach(() => {
@@ -46,7 +67,7 @@ describe('PaymentService', () => {
       metadata: {},
     };
 
-    it('should successfully create and process a payment', async () => {
+    it('should create a payment and authorize it with the gateway', async () => {
       // Arrange
       const mockPayment = {
         id: 'payment-123',
@@ -54,7 +75,7 @@ describe('PaymentService', () => {
         status: 'processing',
         pciCompliant: true,
         update: jest.fn().mockResolvedValue(undefined),
-        toJSON: () => ({ id: 'payment-123', ...validPaymentData, status: 'completed', transactionId: 'txn_mock-uuid-123' }),
+        toJSON: () => ({ id: 'payment-123', ...validPaymentData, status: 'authorized', transactionId: 'txn_123' }),
       };
 
       (Payment.findOne as jest.Mock).mockResolvedValue(null);
@@ -73,7 +94,7 @@ describe('PaymentService', () => {
         currency: 'USD',
         status: 'processing',
         pciCompliant: true,
-      });
+      }, { transaction: mockTransaction });
       expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
         type: 'payment.initiated',
         payload: expect.objectContaining({
@@ -81,18 +102,25 @@ describe('PaymentService', () => {
           orderId: 'order-123',
           amount: 199.99,
         }),
-      });
+      }, mockTransaction);
+      expect(mockGateway.authorize).toHaveBeenCalledWith(
+        expect.objectContaining({ reference: 'payment-123', amount: 199.99, currency: 'USD' })
+      );
+      expect(mockGateway.capture).not.toHaveBeenCalled();
       expect(mockPayment.update).toHaveBeenCalledWith({
-        status: 'completed',
-        transactionId: expect.stringContaining('txn_'),
-      });
+        status: 'authorized',
+        transactionId: 'txn_123',
+        authorizedAt: expect.any(Date),
+        authorizationExpiresAt: expect.any(Date),
+      }, { transaction: mockTransaction });
       expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
-        type: 'payment.completed',
+        type: 'payment.authorized',
         payload: expect.objectContaining({
           paymentId: 'payment-123',
           orderId: 'order-123',
+          transactionId: 'txn_123',
         }),
-      });
+      }, mockTransaction);
     });
 
     it('should throw ValidationError if amount is zero or negative', async () => {
@@ -105,17 +133,30 @@ describe('PaymentService', () => {
       expect(Payment.create).not.toHaveBeenCalled();
     });
 
-    it('should throw ValidationError if payment already completed for order', async () => {
+    it('should throw ValidationError if payment already authorized for order', async () => {
       // Arrange
       (Payment.findOne as jest.Mock).mockResolvedValue({
         id: 'existing-payment',
-        status: 'completed',
+        status: 'authorized',
         orderId: 'order-123',
       });
 
       // Act & Assert
       await expect(paymentService.createPayment(validPaymentData)).rejects.toThrow(ValidationError);
-      await expect(paymentService.createPayment(validPaymentData)).rejects.toThrow('Payment already completed for this order');
+      await expect(paymentService.createPayment(validPaymentData)).rejects.toThrow('Payment already authorized for this order');
+      expect(Payment.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictError if a payment is already processing for order', async () => {
+      // Arrange
+      (Payment.findOne as jest.Mock).mockResolvedValue({
+        id: 'existing-payment',
+        status: 'processing',
+        orderId: 'order-123',
+      });
+
+      // Act & Assert
+      await expect(paymentService.createPayment(validPaymentData)).rejects.toThrow(ConflictError);
       expect(Payment.create).not.toHaveBeenCalled();
     });
 
@@ -132,8 +173,12 @@ describe('PaymentService', () => {
       (Payment.findOne as jest.Mock).mockResolvedValue(null);
       (Payment.create as jest.Mock).mockResolvedValue(mockPayment);
 
-      // Simulate payment failure (Math.random() > 0.95)
-      jest.spyOn(Math, 'random').mockReturnValue(0.96);
+      mockGateway.authorize.mockResolvedValue({
+        success: false,
+        status: 'declined',
+        error: 'Payment declined by payment gateway',
+        declineCode: 'card_declined',
+      });
 
       // Act
       const result = await paymentService.createPayment(validPaymentData);
@@ -142,14 +187,106 @@ describe('PaymentService', () => {
       expect(mockPayment.update).toHaveBeenCalledWith({
         status: 'failed',
         failureReason: expect.any(String),
-      });
+      }, { transaction: mockTransaction });
       expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
         type: 'payment.failed',
         payload: expect.objectContaining({
           paymentId: 'payment-123',
           orderId: 'order-123',
         }),
-      });
+      }, mockTransaction);
+    });
+
+    it('should leave the payment processing when the gateway times out', async () => {
+      // Arrange
+      const mockPayment = {
+        id: 'payment-123',
+        ...validPaymentData,
+        status: 'processing',
+        update: jest.fn().mockResolvedValue(undefined),
+        toJSON: () => ({ id: 'payment-123', status: 'processing' }),
+      };
+
+      (Payment.findOne as jest.Mock).mockResolvedValue(null);
+      (Payment.create as jest.Mock).mockResolvedValue(mockPayment);
+      mockGateway.authorize.mockRejectedValue(new PaymentGatewayError('Payment gateway timed out'));
+
+      // Act
+      const result = await paymentService.createPayment(validPaymentData);
+
+      // Assert
+      expect(result.status).toBe('processing');
+      expect(mockPayment.update).not.toHaveBeenCalled();
+      expect(mockEventPublisher.publishEvent).not.toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'payment.failed' }),
+        expect.anything()
+      );
+    });
+
+    it('should leave the payment processing when the gateway fails with a server error', async () => {
+      // Arrange
+      const mockPayment = {
+        id: 'payment-123',
+        ...validPaymentData,
+        status: 'processing',
+        update: jest.fn().mockResolvedValue(undefined),
+        toJSON: () => ({ id: 'payment-123', status: 'processing' }),
+      };
+
+      (Payment.findOne as jest.Mock).mockResolvedValue(null);
+      (Payment.create as jest.Mock).mockResolvedValue(mockPayment);
+      mockGateway.authorize.mockRejectedValue(new PaymentGatewayError('Bad gateway', 502));
+
+      // Act
+      await paymentService.createPayment(validPaymentData);
+
+      // Assert
+      expect(mockPayment.update).not.toHaveBeenCalled();
+    });
+
+    it('should fail the payment when the gateway refuses the request', async () => {
+      // Arrange
+      const mockPayment = {
+        id: 'payment-123',
+        ...validPaymentData,
+        status: 'processing',
+        update: jest.fn().mockResolvedValue(undefined),
+        toJSON: () => ({ id: 'payment-123', status: 'failed' }),
+      };
+
+      (Payment.findOne as jest.Mock).mockResolvedValue(null);
+      (Payment.create as jest.Mock).mockResolvedValue(mockPayment);
+      mockGateway.authorize.mockRejectedValue(new PaymentGatewayError('Invalid card details', 400));
+
+      // Act
+      await paymentService.createPayment(validPaymentData);
+
+      // Assert
+      expect(mockPayment.update).toHaveBeenCalledWith({
+        status: 'failed',
+        failureReason: 'Invalid card details',
+      }, { transaction: mockTransaction });
+    });
+
+    it('should expire the authorization after the configured period', async () => {
+      // Arrange
+      const mockPayment = {
+        id: 'payment-123',
+        ...validPaymentData,
+        status: 'processing',
+        update: jest.fn().mockResolvedValue(undefined),
+        toJSON: () => ({ id: 'payment-123', status: 'authorized' }),
+      };
+
+      (Payment.findOne as jest.Mock).mockResolvedValue(null);
+      (Payment.create as jest.Mock).mockResolvedValue(mockPayment);
+
+      // Act
+      await paymentService.createPayment(validPaymentData);
+
+      // Assert
+      const { authorizedAt, authorizationExpiresAt } = mockPayment.update.mock.calls[0][0];
+      expect(authorizationExpiresAt.getTime() - authorizedAt.getTime()).toBe(168 * 60 * 60 * 1000);
     });
 
     it('should use default currency if not specified', async () => {
@@ -170,7 +307,8 @@ describe('PaymentService', () => {
 
       // Assert
       expect(Payment.create).toHaveBeenCalledWith(
-        expect.objectContaining({ currency: 'USD' })
+        expect.objectContaining({ currency: 'USD' }),
+        { transaction: mockTransaction }
       );
     });
   });
@@ -237,7 +375,7 @@ describe('PaymentService', () => {
   });
 
   describe('getPaymentsByUser', () => {
-    it('should return all payments for a user with redacted card info', async () => {
+    it('should return a page of a user\'s payments with redacted card info', async () => {
       // Arrange
       const mockPayments = [
         {
@@ -252,20 +390,16 @@ describe('PaymentService', () => {
         },
       ];
 
-      (Payment.findAndCountAll as jest.Mock).mockResolvedValue({
-        rows: mockPayments,
-        count: 2,
-      });
+      (Payment.findAll as jest.Mock) = jest.fn().mockResolvedValue(mockPayments);
 
       // Act
       const result = await paymentService.getPaymentsByUser('user-123');
 
       // Assert
-      expect(Payment.findAndCountAll).toHaveBeenCalledWith({
+      expect(Payment.findAll).toHaveBeenCalledWith({
         where: { userId: 'user-123' },
-        limit: 100,
-        offset: 0,
-        order: [['createdAt', 'DESC']],
+        order: [['createdAt', 'DESC'], ['id', 'DESC']],
+        limit: 51,
       });
       expect(result.payments).toHaveLength(2);
       expect(result.payments[0].metadata.cardNumber).toBe('****1111');
@@ -273,37 +407,189 @@ describe('PaymentService', () => {
   });
 
   describe('refundPayment', () => {
-    it('should successfully refund a completed payment', async () => {
-      // Arrange
-      const mockPayment = {
-        id: 'payment-123',
-        orderId: 'order-123',
-        userId: 'user-123',
-        amount: 199.99,
-        status: 'completed',
-        update: jest.fn().mockResolvedValue(undefined),
-        toJSON: () => ({ id: 'payment-123', status: 'refunded' }),
-      };
+    let mockRefund: any;
+
+    const capturedPayment = (overrides: any = {}) => ({
+      id: 'payment-123',
+      orderId: 'order-123',
+      userId: 'user-123',
+      amount: 199.99,
+      currency: 'USD',
+      status: 'captured',
+      transactionId: 'txn_123',
+      refundedAmount: 0,
+      reload: jest.fn().mockResolvedValue(undefined),
+      update: jest.fn().mockResolvedValue(undefined),
+      toJSON: () => ({ id: 'payment-123' }),
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      (Refund.sum as jest.Mock) = jest.fn().mockResolvedValue(null);
+      (Refund.create as jest.Mock) = jest.fn().mockImplementation(async (data: any) => {
+        mockRefund = {
+          id: 'refund-123',
+          ...data,
+          update: jest.fn().mockResolvedValue(undefined),
+          toJSON: () => ({ id: 'refund-123', ...data }),
+        };
+        return mockRefund;
+      });
+    });
 
+    it('should fully refund a captured payment when no amount is given', async () => {
+      // Arrange
+      const mockPayment = capturedPayment();
       (Payment.findByPk as jest.Mock).mockResolvedValue(mockPayment);
 
       // Act
-      const result = await paymentService.refundPayment('payment-123', 'Customer request');
+      const result = await paymentService.refundPayment('payment-123', { reason: 'Customer request' });
 
       // Assert
+      expect(Refund.create).toHaveBeenCalledWith({
+        paymentId: 'payment-123',
+        orderId: 'order-123',
+        amount: 199.99,
+        currency: 'USD',
+        reason: 'Customer request',
+        items: [],
+        status: 'pending',
+      }, { transaction: mockTransaction });
+      expect(mockGateway.refund).toHaveBeenCalledWith('txn_123', 199.99);
+      expect(mockRefund.update).toHaveBeenCalledWith({ status: 'succeeded' }, { transaction: mockTransaction });
       expect(mockPayment.update).toHaveBeenCalledWith({
+        refundedAmount: 199.99,
         status: 'refunded',
-        failureReason: 'Customer request',
-      });
+      }, { transaction: mockTransaction });
       expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
         type: 'payment.refunded',
         payload: expect.objectContaining({
           paymentId: 'payment-123',
           orderId: 'order-123',
+          refundId: 'refund-123',
           amount: 199.99,
+          totalRefunded: 199.99,
+          fullyRefunded: true,
           reason: 'Customer request',
         }),
+      }, mockTransaction);
+      expect(result.refund.id).toBe('refund-123');
+    });
+
+    it('should partially refund line items', async () => {
+      // Arrange
+      const mockPayment = capturedPayment();
+      const items = [{ productId: 'product-1', quantity: 1 }];
+      (Payment.findByPk as jest.Mock).mockResolvedValue(mockPayment);
+
+      // Act
+      await paymentService.refundPayment('payment-123', { amount: 49.99, reason: 'Damaged item', items });
+
+      // Assert
+      expect(Refund.create).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 49.99, items }),
+        { transaction: mockTransaction }
+      );
+      expect(mockGateway.refund).toHaveBeenCalledWith('txn_123', 49.99);
+      expect(mockPayment.update).toHaveBeenCalledWith({
+        refundedAmount: 49.99,
+        status: 'partially_refunded',
+      }, { transaction: mockTransaction });
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
+        type: 'payment.refunded',
+        payload: expect.objectContaining({ amount: 49.99, fullyRefunded: false, items }),
+      }, mockTransaction);
+    });
+
+    it('should complete the refund once the remaining balance is refunded', async () => {
+      // Arrange
+      const mockPayment = capturedPayment({ status: 'partially_refunded', refundedAmount: 49.99 });
+      (Payment.findByPk as jest.Mock).mockResolvedValue(mockPayment);
+      (Refund.sum as jest.Mock).mockResolvedValue(49.99);
+
+      // Act
+      await paymentService.refundPayment('payment-123');
+
+      // Assert
+      expect(mockGateway.refund).toHaveBeenCalledWith('txn_123', 150);
+      expect(mockPayment.update).toHaveBeenCalledWith({
+        refundedAmount: 199.99,
+        status: 'refunded',
+      }, { transaction: mockTransaction });
+    });
+
+    it('should reject refunds above the remaining refundable amount', async () => {
+      // Arrange
+      (Payment.findByPk as jest.Mock).mockResolvedValue(capturedPayment({ status: 'partially_refunded' }));
+      (Refund.sum as jest.Mock).mockResolvedValue(150);
+
+      // Act & Assert
+      await expect(paymentService.refundPayment('payment-123', { amount: 50 })).rejects.toThrow(
+        'Refund amount must be between 0.01 and 49.99'
+      );
+      expect(Refund.create).not.toHaveBeenCalled();
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+      expect(mockGateway.refund).not.toHaveBeenCalled();
+    });
+
+    it('should mark the refund failed when the gateway rejects it', async () => {
+      // Arrange
+      const mockPayment = capturedPayment();
+      (Payment.findByPk as jest.Mock).mockResolvedValue(mockPayment);
+      mockGateway.refund.mockResolvedValue({
+        success: false,
+        transactionId: 'txn_123',
+        status: 'captured',
+        error: 'Refund rejected by payment gateway',
+      });
+
+      // Act & Assert
+      await expect(paymentService.refundPayment('payment-123')).rejects.toThrow(ValidationError);
+      expect(mockRefund.update).toHaveBeenCalledWith({
+        status: 'failed',
+        failureReason: 'Refund rejected by payment gateway',
       });
+      expect(mockPayment.update).not.toHaveBeenCalled();
+      expect(mockEventPublisher.publishEvent).not.toHaveBeenCalled();
+    });
+
+    it('should leave the refund pending when the gateway cannot be reached', async () => {
+      // Arrange
+      (Payment.findByPk as jest.Mock).mockResolvedValue(capturedPayment());
+      mockGateway.refund.mockRejectedValue(new Error('socket hang up'));
+
+      // Act & Assert
+      await expect(paymentService.refundPayment('payment-123')).rejects.toThrow(ServiceUnavailableError);
+      expect(mockRefund.update).not.toHaveBeenCalled();
+    });
+
+    it('should mark the refund failed when the gateway refuses the request', async () => {
+      // Arrange
+      const mockPayment = capturedPayment();
+      (Payment.findByPk as jest.Mock).mockResolvedValue(mockPayment);
+      mockGateway.refund.mockRejectedValue(
+        new PaymentGatewayError('Payment gateway responded with 400', 400)
+      );
+
+      // Act & Assert
+      await expect(paymentService.refundPayment('payment-123')).rejects.toThrow(ValidationError);
+      expect(mockRefund.update).toHaveBeenCalledWith({
+        status: 'failed',
+        failureReason: 'Payment gateway responded with 400',
+      });
+      expect(mockPayment.update).not.toHaveBeenCalled();
+    });
+
+    it('should leave the refund pending when the gateway throttles the request', async () => {
+      // Arrange
+      (Payment.findByPk as jest.Mock).mockResolvedValue(capturedPayment());
+      mockGateway.refund.mockRejectedValue(
+        new PaymentGatewayError('Payment gateway responded with 429', 429)
+      );
+
+      // Act & Assert
+      await expect(paymentService.refundPayment('payment-123')).rejects.toThrow(ServiceUnavailableError);
+      expect(mockRefund.update).not.toHaveBeenCalled();
     });
 
     it('should throw NotFoundError if payment does not exist', async () => {
@@ -314,18 +600,18 @@ describe('PaymentService', () => {
       await expect(paymentService.refundPayment('nonexistent')).rejects.toThrow(NotFoundError);
     });
 
-    it('should throw ValidationError if payment is not completed', async () => {
+    it('should throw ValidationError if payment is not captured', async () => {
       // Arrange
       const mockPayment = {
         id: 'payment-123',
-        status: 'processing',
+        status: 'authorized',
       };
 
       (Payment.findByPk as jest.Mock).mockResolvedValue(mockPayment);
 
       // Act & Assert
       await expect(paymentService.refundPayment('payment-123')).rejects.toThrow(ValidationError);
-      await expect(paymentService.refundPayment('payment-123')).rejects.toThrow('Only completed payments can be refunded');
+      await expect(paymentService.refundPayment('payment-123')).rejects.toThrow('Only captured payments can be refunded');
     });
 
     it('should throw ValidationError if payment is already refunded', async () => {
@@ -343,54 +629,593 @@ describe('PaymentService', () => {
     });
   });
 
+  describe('getRefunds', () => {
+    it('should return refunds for a payment oldest first', async () => {
+      // Arrange
+      (Refund.findAll as jest.Mock) = jest.fn().mockResolvedValue([
+        { toJSON: () => ({ id: 'refund-1', amount: 20 }) },
+        { toJSON: () => ({ id: 'refund-2', amount: 30 }) },
+      ]);
+
+      // Act
+      const result = await paymentService.getRefunds('payment-123');
+
+      // Assert
+      expect(Refund.findAll).toHaveBeenCalledWith({
+        where: { paymentId: 'payment-123' },
+        order: [['createdAt', 'ASC']],
+      });
+      expect(result.map((refund: any) => refund.id)).toEqual(['refund-1', 'refund-2']);
+    });
+  });
+
+  describe('capturePayment', () => {
+    const authorizedPayment = (overrides: any = {}) => ({
+      id: 'payment-123',
+      orderId: 'order-123',
+      userId: 'user-123',
+      amount: 199.99,
+      status: 'authorized',
+      transactionId: 'txn_123',
+      authorizationExpiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      update: jest.fn().mockResolvedValue(undefined),
+      toJSON: () => ({ id: 'payment-123', status: 'captured' }),
+      ...overrides,
+    });
+
+    it('should capture an authorized payment', async () => {
+      // Arrange
+      const mockPayment = authorizedPayment();
+      (Payment.findByPk as jest.Mock).mockResolvedValue(mockPayment);
+
+      // Act
+      await paymentService.capturePayment('payment-123');
+
+      // Assert
+      expect(Payment.findByPk).toHaveBeenCalledWith('payment-123', {
+        transaction: mockTransaction,
+        lock: expect.anything(),
+      });
+      expect(mockGateway.capture).toHaveBeenCalledWith('txn_123');
+      expect(mockPayment.update).toHaveBeenCalledWith({
+        status: 'captured',
+        capturedAt: expect.any(Date),
+      }, { transaction: mockTransaction });
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
+        type: 'payment.captured',
+        payload: expect.objectContaining({
+          paymentId: 'payment-123',
+          orderId: 'order-123',
+          transactionId: 'txn_123',
+        }),
+      }, mockTransaction);
+      expect(mockTransaction.commit).toHaveBeenCalled();
+    });
+
+    it('should throw ValidationError if payment is not authorized', async () => {
+      // Arrange
+      (Payment.findByPk as jest.Mock).mockResolvedValue(authorizedPayment({ status: 'captured' }));
+
+      // Act & Assert
+      await expect(paymentService.capturePayment('payment-123')).rejects.toThrow('Only authorized payments can be captured');
+      expect(mockGateway.capture).not.toHaveBeenCalled();
+    });
+
+    it('should throw ValidationError if the authorization has expired', async () => {
+      // Arrange
+      (Payment.findByPk as jest.Mock).mockResolvedValue(
+        authorizedPayment({ authorizationExpiresAt: new Date(Date.now() - 1000) })
+      );
+
+      // Act & Assert
+      await expect(paymentService.capturePayment('payment-123')).rejects.toThrow('Payment authorization has expired');
+      expect(mockGateway.capture).not.toHaveBeenCalled();
+    });
+
+    it('should leave the payment authorized when the gateway rejects the capture', async () => {
+      // Arrange
+      const mockPayment = authorizedPayment();
+      (Payment.findByPk as jest.Mock).mockResolvedValue(mockPayment);
+      mockGateway.capture.mockResolvedValue({
+        success: false,
+        transactionId: 'txn_123',
+        status: 'authorized',
+        error: 'Capture rejected by payment gateway',
+      });
+
+      // Act & Assert
+      await expect(paymentService.capturePayment('payment-123')).rejects.toThrow(ValidationError);
+      expect(mockPayment.update).not.toHaveBeenCalled();
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+    });
+
+    it('should throw ServiceUnavailableError when the gateway cannot be reached', async () => {
+      // Arrange
+      (Payment.findByPk as jest.Mock).mockResolvedValue(authorizedPayment());
+      mockGateway.capture.mockRejectedValue(new Error('socket hang up'));
+
+      // Act & Assert
+      await expect(paymentService.capturePayment('payment-123')).rejects.toThrow(ServiceUnavailableError);
+    });
+  });
+
+  describe('voidPayment', () => {
+    it('should void an authorized payment', async () => {
+      // Arrange
+      const mockPayment = {
+        id: 'payment-123',
+        orderId: 'order-123',
+        userId: 'user-123',
+        amount: 199.99,
+        status: 'authorized',
+        transactionId: 'txn_123',
+        update: jest.fn().mockResolvedValue(undefined),
+        toJSON: () => ({ id: 'payment-123', status: 'voided' }),
+      };
+      (Payment.findByPk as jest.Mock).mockResolvedValue(mockPayment);
+
+      // Act
+      await paymentService.voidPayment('payment-123', 'Order cancelled');
+
+      // Assert
+      expect(Payment.findByPk).toHaveBeenCalledWith('payment-123', {
+        transaction: mockTransaction,
+        lock: expect.anything(),
+      });
+      expect(mockGateway.void).toHaveBeenCalledWith('txn_123');
+      expect(mockPayment.update).toHaveBeenCalledWith({
+        status: 'voided',
+        voidedAt: expect.any(Date),
+        failureReason: 'Order cancelled',
+      }, { transaction: mockTransaction });
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
+        type: 'payment.voided',
+        payload: expect.objectContaining({
+          paymentId: 'payment-123',
+          orderId: 'order-123',
+          reason: 'Order cancelled',
+        }),
+      }, mockTransaction);
+    });
+
+    it('should throw ValidationError if payment has been captured', async () => {
+      // Arrange
+      (Payment.findByPk as jest.Mock).mockResolvedValue({ id: 'payment-123', status: 'captured' });
+
+      // Act & Assert
+      await expect(paymentService.voidPayment('payment-123')).rejects.toThrow('Only authorized payments can be voided');
+      expect(mockGateway.void).not.toHaveBeenCalled();
+    });
+
+    it('should throw ValidationError if the payment is due to be captured', async () => {
+      // Arrange
+      (Payment.findByPk as jest.Mock).mockResolvedValue({
+        id: 'payment-123',
+        status: 'authorized',
+        captureRequestedAt: new Date(),
+      });
+
+      // Act & Assert
+      await expect(paymentService.voidPayment('payment-123', 'Authorization expired')).rejects.toThrow(
+        'Payment is due to be captured for a shipped order'
+      );
+      expect(mockGateway.void).not.toHaveBeenCalled();
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+    });
+  });
+
+  describe('captureOrderPayment', () => {
+    it('should mark the capture due and capture the authorized payment for an order', async () => {
+      // Arrange
+      const mockPayment = { id: 'payment-123', update: jest.fn().mockResolvedValue(undefined) };
+      (Payment.findOne as jest.Mock).mockResolvedValue(mockPayment);
+      const capture = jest.spyOn(paymentService, 'capturePayment').mockResolvedValue({} as any);
+
+      // Act
+      await paymentService.captureOrderPayment('order-123');
+
+      // Assert
+      expect(Payment.findOne).toHaveBeenCalledWith({ where: { orderId: 'order-123', status: 'authorized' } });
+      expect(mockPayment.update).toHaveBeenCalledWith({ captureRequestedAt: expect.any(Date) });
+      expect(capture).toHaveBeenCalledWith('payment-123');
+    });
+
+    it('should leave the capture due when it fails', async () => {
+      // Arrange
+      const mockPayment = { id: 'payment-123', update: jest.fn().mockResolvedValue(undefined) };
+      (Payment.findOne as jest.Mock).mockResolvedValue(mockPayment);
+      jest
+        .spyOn(paymentService, 'capturePayment')
+        .mockRejectedValue(new ServiceUnavailableError('Payment gateway timed out'));
+
+      // Act
+      const result = await paymentService.captureOrderPayment('order-123');
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockPayment.update).toHaveBeenCalledWith({ captureRequestedAt: expect.any(Date) });
+    });
+
+    it('should do nothing when the order has no authorized payment', async () => {
+      // Arrange
+      (Payment.findOne as jest.Mock).mockResolvedValue(null);
+
+      // Act
+      const result = await paymentService.captureOrderPayment('order-123');
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockGateway.capture).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('voidOrderPayment', () => {
+    it('should void the authorized payment for an order', async () => {
+      // Arrange
+      (Payment.findOne as jest.Mock).mockResolvedValue({ id: 'payment-123', status: 'authorized' });
+      const voidPayment = jest.spyOn(paymentService, 'voidPayment').mockResolvedValue({} as any);
+
+      // Act
+      await paymentService.voidOrderPayment('order-123', 'Order cancelled');
+
+      // Assert
+      expect(voidPayment).toHaveBeenCalledWith('payment-123', 'Order cancelled');
+    });
+
+    it('should request a void for a payment awaiting reconciliation', async () => {
+      // Arrange
+      const mockPayment = {
+        id: 'payment-123',
+        status: 'processing',
+        update: jest.fn().mockResolvedValue(undefined),
+      };
+      (Payment.findOne as jest.Mock).mockResolvedValue(mockPayment);
+      const voidPayment = jest.spyOn(paymentService, 'voidPayment');
+
+      // Act
+      const result = await paymentService.voidOrderPayment('order-123', 'Order cancelled');
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockPayment.update).toHaveBeenCalledWith({
+        voidRequestedAt: expect.any(Date),
+        failureReason: 'Order cancelled',
+      });
+      expect(voidPayment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('captureDuePayments', () => {
+    it('should capture each payment due for capture and continue past failures', async () => {
+      // Arrange
+      (Payment.findAll as jest.Mock) = jest.fn().mockResolvedValue([{ id: 'payment-1' }, { id: 'payment-2' }]);
+      const capture = jest
+        .spyOn(paymentService, 'capturePayment')
+        .mockRejectedValueOnce(new ServiceUnavailableError('Payment gateway timed out'))
+        .mockResolvedValueOnce({} as any);
+
+      // Act
+      const captured = await paymentService.captureDuePayments();
+
+      // Assert
+      expect(Payment.findAll).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ status: 'authorized' }),
+          limit: 100,
+        })
+      );
+      expect(capture).toHaveBeenCalledWith('payment-1');
+      expect(capture).toHaveBeenCalledWith('payment-2');
+      expect(captured).toBe(1);
+    });
+  });
+
+  describe('voidExpiredAuthorizations', () => {
+    it('should void each expired authorization and continue past failures', async () => {
+      // Arrange
+      (Payment.findAll as jest.Mock) = jest.fn().mockResolvedValue([{ id: 'payment-1' }, { id: 'payment-2' }]);
+      const voidPayment = jest
+        .spyOn(paymentService, 'voidPayment')
+        .mockRejectedValueOnce(new Error('Gateway unavailable'))
+        .mockResolvedValueOnce({} as any);
+
+      // Act
+      const voided = await paymentService.voidExpiredAuthorizations();
+
+      // Assert
+      expect(Payment.findAll).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ status: 'authorized', captureRequestedAt: null }),
+          limit: 100,
+        })
+      );
+      expect(voidPayment).toHaveBeenCalledWith('payment-1', 'Authorization expired');
+      expect(voidPayment).toHaveBeenCalledWith('payment-2', 'Authorization expired');
+      expect(voided).toBe(1);
+    });
+  });
+
+  describe('reconcileProcessingPayments', () => {
+    const longAgo = new Date(Date.now() - 60 * 60 * 1000);
+
+    const processingPayment = (overrides: any = {}) => {
+      const payment: any = {
+        id: 'payment-123',
+        orderId: 'order-123',
+        userId: 'user-123',
+        amount: 199.99,
+        status: 'processing',
+        updatedAt: longAgo,
+        voidRequestedAt: null,
+        ...overrides,
+      };
+      payment.reload = jest.fn().mockResolvedValue(payment);
+      payment.update = jest.fn().mockImplementation(async (changes: any) => Object.assign(payment, changes));
+      return payment;
+    };
+
+    it('should record a hold the gateway placed as authorized', async () => {
+      // Arrange
+      const payment = processingPayment();
+      (Payment.findAll as jest.Mock) = jest.fn().mockResolvedValue([payment]);
+      mockGateway.findByReference.mockResolvedValue({ transactionId: 'txn_123', status: 'authorized' });
+
+      // Act
+      const settled = await paymentService.reconcileProcessingPayments();
+
+      // Assert
+      expect(settled).toBe(1);
+      expect(mockGateway.findByReference).toHaveBeenCalledWith('payment-123');
+      expect(payment.reload).toHaveBeenCalledWith({ transaction: mockTransaction, lock: expect.anything() });
+      expect(payment.update).toHaveBeenCalledWith({
+        status: 'authorized',
+        transactionId: 'txn_123',
+        authorizedAt: expect.any(Date),
+        authorizationExpiresAt: expect.any(Date),
+      }, { transaction: mockTransaction });
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'payment.authorized' }),
+        mockTransaction
+      );
+      expect(mockTransaction.commit).toHaveBeenCalled();
+    });
+
+    it('should fail a payment the gateway placed no hold for', async () => {
+      // Arrange
+      const payment = processingPayment();
+      (Payment.findAll as jest.Mock) = jest.fn().mockResolvedValue([payment]);
+      mockGateway.findByReference.mockResolvedValue(null);
+
+      // Act
+      await paymentService.reconcileProcessingPayments();
+
+      // Assert
+      expect(payment.update).toHaveBeenCalledWith({
+        status: 'failed',
+        failureReason: 'Payment was not authorized by the payment gateway',
+      }, { transaction: mockTransaction });
+    });
+
+    it('should void a hold found for a cancelled order', async () => {
+      // Arrange
+      const payment = processingPayment({ voidRequestedAt: longAgo, failureReason: 'Order cancelled' });
+      (Payment.findAll as jest.Mock) = jest.fn().mockResolvedValue([payment]);
+      mockGateway.findByReference.mockResolvedValue({ transactionId: 'txn_123', status: 'authorized' });
+      const voidPayment = jest.spyOn(paymentService, 'voidPayment').mockResolvedValue({} as any);
+
+      // Act
+      await paymentService.reconcileProcessingPayments();
+
+      // Assert
+      expect(voidPayment).toHaveBeenCalledWith('payment-123', 'Order cancelled');
+    });
+
+    it('should leave a payment alone once it has been settled or retried', async () => {
+      // Arrange
+      const payment = processingPayment();
+      payment.reload = jest.fn().mockImplementation(async () => Object.assign(payment, { updatedAt: new Date() }));
+      (Payment.findAll as jest.Mock) = jest.fn().mockResolvedValue([payment]);
+      mockGateway.findByReference.mockResolvedValue(null);
+
+      // Act
+      const settled = await paymentService.reconcileProcessingPayments();
+
+      // Assert
+      expect(settled).toBe(0);
+      expect(payment.update).not.toHaveBeenCalled();
+    });
+
+    it('should continue with other payments when the gateway cannot be reached', async () => {
+      // Arrange
+      const first = processingPayment({ id: 'payment-1' });
+      const second = processingPayment({ id: 'payment-2' });
+      (Payment.findAll as jest.Mock) = jest.fn().mockResolvedValue([first, second]);
+      mockGateway.findByReference
+        .mockRejectedValueOnce(new PaymentGatewayError('Payment gateway timed out'))
+        .mockResolvedValueOnce(null);
+
+      // Act
+      const settled = await paymentService.reconcileProcessingPayments();
+
+      // Assert
+      expect(settled).toBe(1);
+      expect(first.update).not.toHaveBeenCalled();
+      expect(second.update).toHaveBeenCalled();
+    });
+  });
+
+  describe('reconcilePendingRefunds', () => {
+    const longAgo = new Date(Date.now() - 60 * 60 * 1000);
+
+    const pendingRefund = (id: string, amount: number, createdAt: Date = longAgo) => ({
+      id,
+      paymentId: 'payment-123',
+      amount,
+      currency: 'USD',
+      reason: 'Customer request',
+      items: [],
+      status: 'pending',
+      createdAt,
+      update: jest.fn().mockResolvedValue(undefined),
+    });
+
+    let mockPayment: any;
+
+    beforeEach(() => {
+      mockPayment = {
+        id: 'payment-123',
+        orderId: 'order-123',
+        userId: 'user-123',
+        amount: 100,
+        transactionId: 'txn_123',
+        refundedAmount: 0,
+        reload: jest.fn().mockResolvedValue(undefined),
+        update: jest.fn().mockResolvedValue(undefined),
+      };
+      (Payment.findByPk as jest.Mock).mockResolvedValue(mockPayment);
+    });
+
+    it('should record refunds the gateway made and fail the rest', async () => {
+      // Arrange
+      const made = pendingRefund('refund-1', 30);
+      const lost = pendingRefund('refund-2', 50);
+      (Refund.findAll as jest.Mock) = jest
+        .fn()
+        .mockResolvedValueOnce([made, lost])
+        .mockResolvedValueOnce([made, lost]);
+      mockGateway.getStatus.mockResolvedValue({ transactionId: 'txn_123', refundedAmount: 30 });
+
+      // Act
+      const settled = await paymentService.reconcilePendingRefunds();
+
+      // Assert
+      expect(mockGateway.getStatus).toHaveBeenCalledWith('txn_123');
+      expect(mockPayment.reload).toHaveBeenCalledWith({ transaction: mockTransaction, lock: expect.anything() });
+      expect(made.update).toHaveBeenCalledWith({ status: 'succeeded' }, { transaction: mockTransaction });
+      expect(mockPayment.update).toHaveBeenCalledWith({
+        refundedAmount: 30,
+        status: 'partially_refunded',
+      }, { transaction: mockTransaction });
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
+        type: 'payment.refunded',
+        payload: expect.objectContaining({ refundId: 'refund-1', amount: 30, totalRefunded: 30 }),
+      }, mockTransaction);
+      expect(lost.update).toHaveBeenCalledWith(
+        { status: 'failed', failureReason: 'Refund was not applied by the payment gateway' },
+        { transaction: mockTransaction }
+      );
+      expect(mockTransaction.commit).toHaveBeenCalled();
+      expect(settled).toBe(2);
+    });
+
+    it('should leave a payment alone while one of its refunds is still in flight', async () => {
+      // Arrange
+      const stale = pendingRefund('refund-1', 30);
+      const inFlight = pendingRefund('refund-2', 50, new Date());
+      (Refund.findAll as jest.Mock) = jest
+        .fn()
+        .mockResolvedValueOnce([stale])
+        .mockResolvedValueOnce([stale, inFlight]);
+      mockGateway.getStatus.mockResolvedValue({ transactionId: 'txn_123', refundedAmount: 80 });
+
+      // Act
+      const settled = await paymentService.reconcilePendingRefunds();
+
+      // Assert
+      expect(stale.update).not.toHaveBeenCalled();
+      expect(inFlight.update).not.toHaveBeenCalled();
+      expect(mockPayment.update).not.toHaveBeenCalled();
+      expect(settled).toBe(0);
+    });
+
+    it('should continue with other payments when the gateway cannot be reached', async () => {
+      // Arrange
+      (Refund.findAll as jest.Mock) = jest.fn().mockResolvedValueOnce([
+        pendingRefund('refund-1', 30),
+        { ...pendingRefund('refund-2', 20), paymentId: 'payment-456' },
+      ]);
+      mockGateway.getStatus.mockRejectedValue(new Error('socket hang up'));
+
+      // Act
+      const settled = await paymentService.reconcilePendingRefunds();
+
+      // Assert
+      expect(mockGateway.getStatus).toHaveBeenCalledTimes(2);
+      expect(sequelize.transaction).not.toHaveBeenCalled();
+      expect(settled).toBe(0);
+    });
+  });
+
   describe('getAllPayments', () => {
-    it('should return all payments with filters', async () => {
+    beforeEach(() => {
+      (Payment.findAll as jest.Mock) = jest.fn().mockResolvedValue([]);
+    });
+
+    it('should return a page of payments with filters', async () => {
       // Arrange
       const mockPayments = [
         { id: 'payment-1', toJSON: () => ({ id: 'payment-1', metadata: {} }) },
         { id: 'payment-2', toJSON: () => ({ id: 'payment-2', metadata: {} }) },
       ];
 
-      (Payment.findAndCountAll as jest.Mock).mockResolvedValue({
-        rows: mockPayments,
-        count: 2,
-      });
+      (Payment.findAll as jest.Mock).mockResolvedValue(mockPayments);
 
       // Act
-      const result = await paymentService.getAllPayments({
-        status: 'completed',
-        limit: 10,
-        offset: 0,
-      });
+      const result = await paymentService.getAllPayments({ status: 'completed' }, { limit: 10 });
 
       // Assert
-      expect(Payment.findAndCountAll).toHaveBeenCalledWith({
+      expect(Payment.findAll).toHaveBeenCalledWith({
         where: { status: 'completed' },
-        limit: 10,
-        offset: 0,
-        order: [['createdAt', 'DESC']],
+        order: [['createdAt', 'DESC'], ['id', 'DESC']],
+        limit: 11,
       });
       expect(result.payments).toHaveLength(2);
+      expect(result.pagination).toEqual({
+        limit: 10,
+        sort: 'createdAt',
+        order: 'desc',
+        nextCursor: null,
+        hasMore: false,
+      });
     });
 
     it('should filter by payment method', async () => {
-      // Arrange
-      (Payment.findAndCountAll as jest.Mock).mockResolvedValue({
-        rows: [],
-        count: 0,
-      });
-
       // Act
       await paymentService.getAllPayments({ paymentMethod: 'credit_card' });
 
       // Assert
-      expect(Payment.findAndCountAll).toHaveBeenCalledWith({
+      expect(Payment.findAll).toHaveBeenCalledWith({
         where: { paymentMethod: 'credit_card' },
-        limit: 100,
-        offset: 0,
-        order: [['createdAt', 'DESC']],
+        order: [['createdAt', 'DESC'], ['id', 'DESC']],
+        limit: 51,
       });
     });
+
+    it('should sort by amount and report the next page', async () => {
+      // Arrange
+      (Payment.findAll as jest.Mock).mockResolvedValue([
+        { id: 'payment-1', amount: 20, get: () => 20, toJSON: () => ({ id: 'payment-1', metadata: {} }) },
+        { id: 'payment-2', amount: 30, get: () => 30, toJSON: () => ({ id: 'payment-2', metadata: {} }) },
+      ]);
+
+      // Act
+      const result = await paymentService.getAllPayments({}, { sort: 'amount', order: 'asc', limit: 1 });
+
+      // Assert
+      expect(Payment.findAll).toHaveBeenCalledWith({
+        where: {},
+        order: [['amount', 'ASC'], ['id', 'ASC']],
+        limit: 2,
+      });
+      expect(result.payments).toEqual([{ id: 'payment-1', metadata: {} }]);
+      expect(result.pagination.hasMore).toBe(true);
+      expect(result.pagination.nextCursor).toEqual(expect.any(String));
+    });
+
+    it('should reject sort fields that are not whitelisted', async () => {
+      // Act & Assert
+      await expect(paymentService.getAllPayments({}, { sort: 'metadata' })).rejects.toThrow(ValidationError);
+    });
   });
 
   describe('retryPayment', () => {
@@ -406,7 +1231,7 @@ describe('PaymentService', () => {
         status: 'failed',
         metadata: {},
         update: jest.fn().mockResolvedValue(undefined),
-        toJSON: () => ({ id: 'payment-123', status: 'completed' }),
+        toJSON: () => ({ id: 'payment-123', status: 'authorized' }),
       };
 
       (Payment.findByPk as jest.Mock).mockResolvedValue(mockPayment);
@@ -420,15 +1245,17 @@ describe('PaymentService', () => {
         failureReason: null,
       });
       expect(mockPayment.update).toHaveBeenCalledWith({
-        status: 'completed',
-        transactionId: expect.any(String),
-      });
+        status: 'authorized',
+        transactionId: 'txn_123',
+        authorizedAt: expect.any(Date),
+        authorizationExpiresAt: expect.any(Date),
+      }, { transaction: mockTransaction });
       expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
-        type: 'payment.completed',
+        type: 'payment.authorized',
         payload: expect.objectContaining({
           paymentId: 'payment-123',
         }),
-      });
+      }, mockTransaction);
     });
 
     it('should throw NotFoundError if payment does not exist', async () => {
@@ -470,8 +1297,7 @@ describe('PaymentService', () => {
 
       (Payment.findByPk as jest.Mock).mockResolvedValue(mockPayment);
 
-      // Simulate failure
-      jest.spyOn(Math, 'random').mockReturnValue(0.96);
+      mockGateway.authorize.mockResolvedValue({ success: false, status: 'declined', error: 'Insufficient funds' });
 
       // Act
       const result = await paymentService.retryPayment('payment-123');
@@ -480,13 +1306,13 @@ describe('PaymentService', () => {
       expect(mockPayment.update).toHaveBeenCalledWith({
         status: 'failed',
         failureReason: expect.any(String),
-      });
+      }, { transaction: mockTransaction });
       expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
         type: 'payment.failed',
         payload: expect.objectContaining({
           paymentId: 'payment-123',
         }),
-      });
+      }, mockTransaction);
     });
   });
 });
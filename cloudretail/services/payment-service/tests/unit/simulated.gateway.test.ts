@@ -0,0 +1,169 @@
+/**
+ * Unit tests for Simulated Payment Gateway
+ * Tests scripted card outcomes and transaction state rules
+ */
+
+import {
+  SimulatedPaymentGateway,
+  SIMULATOR_CARDS,
+  PaymentGatewayError,
+} from '../../src/gateways';
+
+describe('SimulatedPaymentGateway', () => {
+  let gateway: SimulatedPaymentGateway;
+
+  const authorize = (cardNumber?: string, amount: number = 100) =>
+    gateway.authorize({
+      reference: 'payment-123',
+      amount,
+      currency: 'USD',
+      paymentMethod: 'credit_card',
+      metadata: cardNumber ? { cardNumber } : {},
+    });
+
+  beforeEach(() => {
+    gateway = new SimulatedPaymentGateway();
+  });
+
+  describe('authorize', () => {
+    it('should approve payments without a scripted card', async () => {
+      // Act
+      const result = await authorize('4111111111111111');
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.status).toBe('authorized');
+      expect(result.transactionId).toMatch(/^txn_/);
+    });
+
+    it('should decline scripted declined and insufficient funds cards', async () => {
+      // Act
+      const declined = await authorize(SIMULATOR_CARDS.declined);
+      const insufficient = await authorize(SIMULATOR_CARDS.insufficientFunds);
+
+      // Assert
+      expect(declined).toMatchObject({ success: false, declineCode: 'card_declined' });
+      expect(insufficient).toMatchObject({ success: false, declineCode: 'insufficient_funds' });
+    });
+
+    it('should throw PaymentGatewayError for processing error and timeout cards', async () => {
+      // Act & Assert
+      await expect(authorize(SIMULATOR_CARDS.processingError)).rejects.toThrow(PaymentGatewayError);
+      await expect(authorize(SIMULATOR_CARDS.timeout)).rejects.toThrow('Payment gateway timed out');
+    });
+  });
+
+  describe('capture', () => {
+    it('should capture an authorized transaction once', async () => {
+      // Arrange
+      const { transactionId } = await authorize();
+
+      // Act
+      const first = await gateway.capture(transactionId!);
+      const second = await gateway.capture(transactionId!);
+
+      // Assert
+      expect(first).toMatchObject({ success: true, status: 'captured' });
+      expect(second).toMatchObject({ success: false, declineCode: 'invalid_state' });
+    });
+
+    it('should reject capturing more than was authorized', async () => {
+      // Arrange
+      const { transactionId } = await authorize(undefined, 50);
+
+      // Act
+      const result = await gateway.capture(transactionId!, 50.01);
+
+      // Assert
+      expect(result).toMatchObject({ success: false, declineCode: 'invalid_amount' });
+    });
+
+    it('should reject capture for the capture failure card', async () => {
+      // Arrange
+      const { transactionId } = await authorize(SIMULATOR_CARDS.captureFails);
+
+      // Act
+      const result = await gateway.capture(transactionId!);
+
+      // Assert
+      expect(result).toMatchObject({ success: false, declineCode: 'capture_failed', status: 'authorized' });
+    });
+  });
+
+  describe('void', () => {
+    it('should void an authorization but not a capture', async () => {
+      // Arrange
+      const authorized = await authorize();
+      const captured = await authorize();
+      await gateway.capture(captured.transactionId!);
+
+      // Act & Assert
+      expect(await gateway.void(authorized.transactionId!)).toMatchObject({ success: true, status: 'voided' });
+      expect(await gateway.void(captured.transactionId!)).toMatchObject({ success: false, declineCode: 'invalid_state' });
+    });
+  });
+
+  describe('refund', () => {
+    it('should refund in parts up to the captured amount', async () => {
+      // Arrange
+      const { transactionId } = await authorize(undefined, 100);
+      await gateway.capture(transactionId!);
+
+      // Act
+      const partial = await gateway.refund(transactionId!, 30);
+      const tooMuch = await gateway.refund(transactionId!, 70.01);
+      const rest = await gateway.refund(transactionId!);
+
+      // Assert
+      expect(partial).toMatchObject({ success: true, status: 'partially_refunded' });
+      expect(tooMuch).toMatchObject({ success: false, declineCode: 'invalid_amount' });
+      expect(rest).toMatchObject({ success: true, status: 'refunded' });
+      expect(await gateway.getStatus(transactionId!)).toMatchObject({
+        capturedAmount: 100,
+        refundedAmount: 100,
+        status: 'refunded',
+      });
+    });
+
+    it('should reject refunds for the refund failure card', async () => {
+      // Arrange
+      const { transactionId } = await authorize(SIMULATOR_CARDS.refundFails);
+      await gateway.capture(transactionId!);
+
+      // Act
+      const result = await gateway.refund(transactionId!);
+
+      // Assert
+      expect(result).toMatchObject({ success: false, declineCode: 'refund_failed', status: 'captured' });
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should throw PaymentGatewayError for an unknown transaction', async () => {
+      // Act & Assert
+      await expect(gateway.getStatus('txn_unknown')).rejects.toThrow(PaymentGatewayError);
+    });
+  });
+
+  describe('findByReference', () => {
+    it('should find the transaction authorized for a reference', async () => {
+      // Arrange
+      const { transactionId } = await authorize();
+
+      // Act & Assert
+      expect(await gateway.findByReference('payment-123')).toMatchObject({
+        transactionId,
+        reference: 'payment-123',
+        status: 'authorized',
+      });
+    });
+
+    it('should return null when no hold was placed for a reference', async () => {
+      // Arrange
+      await authorize(SIMULATOR_CARDS.declined);
+
+      // Act & Assert
+      expect(await gateway.findByReference('payment-123')).toBeNull();
+    });
+  });
+});
@@ -1,6 +1,15 @@
-import { Sequelize } from 'sequelize';
+import { QueryTypes, Sequelize } from 'sequelize';
+import { initCategoryModel } from '../models/Category.model';
 import { initProductModel } from '../models/Product.model';
+import { initProductVariantModel } from '../models/ProductVariant.model';
+import { initProductMediaModel } from '../models/ProductMedia.model';
+import { initProductPriceModel } from '../models/ProductPrice.model';
+import { initPriceHistoryModel } from '../models/PriceHistory.model';
+import { initCatalogImportModel } from '../models/CatalogImport.model';
+import { initProductReviewModel } from '../models/ProductReview.model';
+import { initReviewVoteModel } from '../models/ReviewVote.model';
 import { logger } from '@cloudretail/middleware';
+import { Outbox } from '@cloudretail/outbox';
 
 const sequelize = new Sequelize({
   dialect: 'postgres',
@@ -22,13 +31,45 @@ const sequelize = new Sequelize({
 });
 
 // Initialize models
+export const Category = initCategoryModel(sequelize);
 export const Product = initProductModel(sequelize);
+export const ProductVariant = initProductVariantModel(sequelize);
+export const ProductMedia = initProductMediaModel(sequelize);
+export const ProductPrice = initProductPriceModel(sequelize);
+export const PriceHistory = initPriceHistoryModel(sequelize);
+export const CatalogImport = initCatalogImportModel(sequelize);
+export const ProductReview = initProductReviewModel(sequelize);
+export const ReviewVote = initReviewVoteModel(sequelize);
+
+// Events recorded with domain changes, relayed to the event bus
+export const outbox = new Outbox(sequelize, { service: 'product-service' });
+
+/**
+ * Product search matches misspelt names by trigram similarity. Creating the
+ * extension needs more privileges than the service has, so it is part of
+ * database setup (init-db.sql, postgres-products-init) and only checked here.
+ */
+async function checkExtensions(): Promise<void> {
+  const installed = await sequelize.query<{ extname: string }>(
+    "SELECT extname FROM pg_extension WHERE extname = 'pg_trgm'",
+    { type: QueryTypes.SELECT }
+  );
+
+  if (installed.length === 0) {
+    throw new Error(
+      "PostgreSQL extension 'pg_trgm' is not installed in the products database; " +
+        'run CREATE EXTENSION pg_trgm as a database owner'
+    );
+  }
+}
 
 export async function connectDatabase(): Promise<void> {
   try {
     await sequelize.authenticate();
     logger.info('Database connection established successfully');
 
+    await checkExtensions();
+
     if (process.env.NODE_ENV !== 'production') {
       await sequelize.sync({ alter: true });
       logger.info('Database synchronized');
@@ -0,0 +1,67 @@
+import { Response } from 'express';
+import { CatalogImportService } from '../services/catalog-import.service';
+import { formatFromContentType } from '../services/catalog-file';
+import { asyncHandler, AuthenticatedRequest } from '@cloudretail/middleware';
+import Joi from 'joi';
+import { v4 as uuidv4 } from 'uuid';
+
+const catalogImportService = new CatalogImportService();
+
+// Validation schemas
+const importQuerySchema = Joi.object({
+  dryRun: Joi.boolean().optional(),
+  vendorId: Joi.string().uuid().optional(),
+});
+
+/**
+ * Queue a catalogue import from a CSV or JSON lines file
+ */
+export const createCatalogImport = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const format = formatFromContentType(req.headers['content-type']);
+    const { error, value } = importQuerySchema.validate(req.query);
+
+    if (error || !format || typeof req.body !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error
+            ? error.details[0].message
+            : 'Send the file as text/csv or application/x-ndjson',
+        },
+      });
+      return;
+    }
+
+    const catalogImport = await catalogImportService.createImport(req.body, format, value, req.user!);
+
+    res.status(202).json({
+      success: true,
+      data: catalogImport,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Get the progress and report of a catalogue import
+ */
+export const getCatalogImport = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const catalogImport = await catalogImportService.getImport(id, req.user!);
+
+    res.json({
+      success: true,
+      data: catalogImport,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
@@ -0,0 +1,139 @@
+import { Request, Response } from 'express';
+import { CategoryService } from '../services/category.service';
+import { asyncHandler, AuthenticatedRequest } from '@cloudretail/middleware';
+import Joi from 'joi';
+import { v4 as uuidv4 } from 'uuid';
+
+const categoryService = new CategoryService();
+
+// Validation schemas
+const slugSchema = Joi.string().max(255).pattern(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'slug');
+
+const createCategorySchema = Joi.object({
+  name: Joi.string().required().min(1).max(100),
+  slug: slugSchema.optional(),
+  parentId: Joi.string().uuid().allow(null).optional(),
+  description: Joi.string().allow(null).optional(),
+});
+
+const updateCategorySchema = Joi.object({
+  name: Joi.string().min(1).max(100).optional(),
+  slug: slugSchema.optional(),
+  parentId: Joi.string().uuid().allow(null).optional(),
+  description: Joi.string().allow(null).optional(),
+}).min(1);
+
+/**
+ * Get the category tree
+ */
+export const getCategories = asyncHandler(async (req: Request, res: Response) => {
+  const categories = await categoryService.getCategoryTree();
+
+  res.json({
+    success: true,
+    data: categories,
+    metadata: {
+      timestamp: new Date(),
+      requestId: uuidv4(),
+    },
+  });
+});
+
+/**
+ * Get a category by ID or slug
+ */
+export const getCategory = asyncHandler(async (req: Request, res: Response) => {
+  const { idOrSlug } = req.params;
+  const category = await categoryService.getCategory(idOrSlug);
+
+  res.json({
+    success: true,
+    data: category,
+    metadata: {
+      timestamp: new Date(),
+      requestId: uuidv4(),
+    },
+  });
+});
+
+/**
+ * Create a category
+ */
+export const createCategory = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { error, value } = createCategorySchema.validate(req.body);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        },
+      });
+      return;
+    }
+
+    const category = await categoryService.createCategory(value);
+
+    res.status(201).json({
+      success: true,
+      data: category,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Update a category
+ */
+export const updateCategory = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const { error, value } = updateCategorySchema.validate(req.body);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        },
+      });
+      return;
+    }
+
+    const category = await categoryService.updateCategory(id, value);
+
+    res.json({
+      success: true,
+      data: category,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Delete a category
+ */
+export const deleteCategory = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const result = await categoryService.deleteCategory(id);
+
+    res.json({
+      success: true,
+      data: result,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
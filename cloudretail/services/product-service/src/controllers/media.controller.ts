@@ -0,0 +1,118 @@
+import { Request, Response } from 'express';
+import { MediaService } from '../services/media.service';
+import { asyncHandler, AuthenticatedRequest } from '@cloudretail/middleware';
+import Joi from 'joi';
+import { v4 as uuidv4 } from 'uuid';
+
+const mediaService = new MediaService();
+
+// Validation schemas
+const uploadQuerySchema = Joi.object({
+  altText: Joi.string().max(255).optional(),
+});
+
+const reorderMediaSchema = Joi.object({
+  mediaIds: Joi.array().items(Joi.string().uuid()).min(1).unique().required(),
+});
+
+/**
+ * Get a product's media
+ */
+export const getMedia = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const media = await mediaService.getMedia(id);
+
+  res.json({
+    success: true,
+    data: media,
+    metadata: {
+      timestamp: new Date(),
+      requestId: uuidv4(),
+    },
+  });
+});
+
+/**
+ * Upload an image of a product
+ */
+export const uploadMedia = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const { error, value } = uploadQuerySchema.validate(req.query);
+
+    if (error || !Buffer.isBuffer(req.body)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error
+            ? error.details[0].message
+            : 'Send the image as the request body with an image/* content type',
+        },
+      });
+      return;
+    }
+
+    const media = await mediaService.addMedia(id, req.body, value);
+
+    res.status(201).json({
+      success: true,
+      data: media,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Reorder a product's media
+ */
+export const reorderMedia = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const { error, value } = reorderMediaSchema.validate(req.body);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        },
+      });
+      return;
+    }
+
+    const media = await mediaService.reorderMedia(id, value.mediaIds);
+
+    res.json({
+      success: true,
+      data: media,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Delete an image of a product
+ */
+export const deleteMedia = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id, mediaId } = req.params;
+    const result = await mediaService.deleteMedia(id, mediaId);
+
+    res.json({
+      success: true,
+      data: result,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
@@ -0,0 +1,155 @@
+import { Request, Response } from 'express';
+import { PricingService } from '../services/pricing.service';
+import { asyncHandler, AuthenticatedRequest, MAX_PAGE_SIZE } from '@cloudretail/middleware';
+import Joi from 'joi';
+import { v4 as uuidv4 } from 'uuid';
+
+const pricingService = new PricingService();
+
+// Validation schemas
+const schedulePriceSchema = Joi.object({
+  price: Joi.number().required().min(0),
+  startsAt: Joi.date().iso().required(),
+});
+
+const scheduleSaleSchema = Joi.object({
+  price: Joi.number().required().min(0),
+  compareAtPrice: Joi.number().min(0).optional(),
+  startsAt: Joi.date().iso().optional(),
+  endsAt: Joi.date().iso().required(),
+});
+
+const priceHistorySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(MAX_PAGE_SIZE).optional(),
+  offset: Joi.number().integer().min(0).optional(),
+});
+
+/**
+ * Get a product's current price and scheduled changes
+ */
+export const getPriceSchedule = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const schedule = await pricingService.getPriceSchedule(id);
+
+  res.json({
+    success: true,
+    data: schedule,
+    metadata: {
+      timestamp: new Date(),
+      requestId: uuidv4(),
+    },
+  });
+});
+
+/**
+ * Get the history of a product's price
+ */
+export const getPriceHistory = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { error, value } = priceHistorySchema.validate(req.query);
+
+  if (error) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: error.details[0].message,
+      },
+    });
+    return;
+  }
+
+  const result = await pricingService.getPriceHistory(id, value.limit, value.offset);
+
+  res.json({
+    success: true,
+    data: result,
+    metadata: {
+      timestamp: new Date(),
+      requestId: uuidv4(),
+    },
+  });
+});
+
+/**
+ * Schedule a new regular price
+ */
+export const schedulePriceChange = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const { error, value } = schedulePriceSchema.validate(req.body);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        },
+      });
+      return;
+    }
+
+    const schedule = await pricingService.schedulePriceChange(id, value);
+
+    res.status(201).json({
+      success: true,
+      data: schedule,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Put a product on sale
+ */
+export const scheduleSale = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const { error, value } = scheduleSaleSchema.validate(req.body);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        },
+      });
+      return;
+    }
+
+    const sale = await pricingService.scheduleSale(id, value);
+
+    res.status(201).json({
+      success: true,
+      data: sale,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Cancel a scheduled price change or sale
+ */
+export const cancelPriceSchedule = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id, scheduleId } = req.params;
+    const schedule = await pricingService.cancelPriceSchedule(id, scheduleId);
+
+    res.json({
+      success: true,
+      data: schedule,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
@@ -1,37 +1,49 @@
 import { Request, Response } from 'express';
 import { ProductService } from '../services/product.service';
-import { asyncHandler, AuthenticatedRequest } from '@cloudretail/middleware';
+import { asyncHandler, AuthenticatedRequest, MAX_PAGE_SIZE, PageParams } from '@cloudretail/middleware';
 import Joi from 'joi';
 import { v4 as uuidv4 } from 'uuid';
 
 const productService = new ProductService();
 
 // Validation schemas
+const productOptionsSchema = Joi.array()
+  .items(
+    Joi.object({
+      name: Joi.string().required().max(50),
+      values: Joi.array().items(Joi.string().max(100)).min(1).unique().required(),
+    })
+  )
+  .unique('name');
+
 const createProductSchema = Joi.object({
   name: Joi.string().required().min(1).max(255),
   description: Joi.string().required(),
   price: Joi.number().required().min(0),
-  category: Joi.string().required(),
+  categoryId: Joi.string().uuid().required(),
   sku: Joi.string().required(),
   vendorId: Joi.string().uuid().required(),
+  options: productOptionsSchema.optional(),
 });
 
 const updateProductSchema = Joi.object({
   name: Joi.string().min(1).max(255).optional(),
   description: Joi.string().optional(),
   price: Joi.number().min(0).optional(),
-  category: Joi.string().optional(),
+  categoryId: Joi.string().uuid().optional(),
+  options: productOptionsSchema.optional(),
   isActive: Joi.boolean().optional(),
 }).min(1);
 
 const searchProductsSchema = Joi.object({
+  categoryId: Joi.string().uuid().optional(),
   category: Joi.string().optional(),
   vendorId: Joi.string().uuid().optional(),
   minPrice: Joi.number().min(0).optional(),
   maxPrice: Joi.number().min(0).optional(),
   isActive: Joi.boolean().optional(),
   searchTerm: Joi.string().optional(),
-  limit: Joi.number().min(1).max(1000).optional(),
+  limit: Joi.number().integer().min(1).max(MAX_PAGE_SIZE).optional(),
   offset: Joi.number().min(0).optional(),
 });
 
@@ -66,6 +78,19 @@ export const createProduct = asyncHandler(
   }
 );
 
+/**
+ * Resolve the vendor that owns the product in the request path
+ */
+export const resolveProductOwner = (req: AuthenticatedRequest): Promise<string | null> =>
+  productService.getProductOwner(req.params.id);
+
+/**
+ * Resolve the vendor a new product is being created for. A missing
+ * vendor ID is left for validation to reject.
+ */
+export const resolveNewProductOwner = async (req: AuthenticatedRequest): Promise<string | null> =>
+  req.body?.vendorId ?? req.user!.userId;
+
 /**
  * Get product by ID
  */
@@ -169,7 +194,7 @@ export const searchProducts = asyncHandler(async (req: Request, res: Response) =
   }
 
   const filters = {
-    category: value.category,
+    categoryId: value.categoryId,
     vendorId: value.vendorId,
     minPrice: value.minPrice ? parseFloat(value.minPrice) : undefined,
     maxPrice: value.maxPrice ? parseFloat(value.maxPrice) : undefined,
@@ -192,53 +217,52 @@ export const searchProducts = asyncHandler(async (req: Request, res: Response) =
 });
 
 /**
- * Get all products
+ * Get a page of products
  */
 export const getAllProducts = asyncHandler(async (req: Request, res: Response) => {
-  const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
-  const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
-
-  const result = await productService.getAllProducts(limit, offset);
+  const { products, pagination } = await productService.getAllProducts(req.query as PageParams);
 
   res.json({
     success: true,
-    data: result,
+    data: { products },
     metadata: {
       timestamp: new Date(),
       requestId: uuidv4(),
+      pagination,
     },
   });
 });
 
 /**
- * Get products by vendor
+ * Get a page of a vendor's products
  */
 export const getProductsByVendor = asyncHandler(async (req: Request, res: Response) => {
   const { vendorId } = req.params;
-  const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
-  const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
-
-  const result = await productService.getProductsByVendor(vendorId, limit, offset);
+  const { products, pagination } = await productService.getProductsByVendor(
+    vendorId,
+    req.query as PageParams
+  );
 
   res.json({
     success: true,
-    data: result,
+    data: { products },
     metadata: {
       timestamp: new Date(),
       requestId: uuidv4(),
+      pagination,
     },
   });
 });
 
 /**
- * Get products by category
+ * Get a page of products in a category
  */
 export const getProductsByCategory = asyncHandler(async (req: Request, res: Response) => {
   const { category } = req.params;
-  const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
-  const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
-
-  const result = await productService.getProductsByCategory(category, limit, offset);
+  const { pagination, ...result } = await productService.getProductsByCategory(
+    category,
+    req.query as PageParams
+  );
 
   res.json({
     success: true,
@@ -246,6 +270,7 @@ export const getProductsByCategory = asyncHandler(async (req: Request, res: Resp
     metadata: {
       timestamp: new Date(),
       requestId: uuidv4(),
+      pagination,
     },
   });
 });
@@ -0,0 +1,265 @@
+import { Request, Response } from 'express';
+import { ReviewService } from '../services/review.service';
+import { REVIEW_STATUSES } from '../models/ProductReview.model';
+import { asyncHandler, AuthenticatedRequest, MAX_PAGE_SIZE } from '@cloudretail/middleware';
+import Joi from 'joi';
+import { v4 as uuidv4 } from 'uuid';
+
+const reviewService = new ReviewService();
+
+// Validation schemas
+const createReviewSchema = Joi.object({
+  rating: Joi.number().integer().min(1).max(5).required(),
+  title: Joi.string().max(150).optional(),
+  body: Joi.string().trim().min(1).max(5000).required(),
+});
+
+const updateReviewSchema = Joi.object({
+  rating: Joi.number().integer().min(1).max(5).optional(),
+  title: Joi.string().max(150).allow(null).optional(),
+  body: Joi.string().trim().min(1).max(5000).optional(),
+}).min(1);
+
+const reviewListSchema = Joi.object({
+  sort: Joi.string().valid('recent', 'helpful', 'rating_high', 'rating_low').optional(),
+  rating: Joi.number().integer().min(1).max(5).optional(),
+  limit: Joi.number().integer().min(1).max(MAX_PAGE_SIZE).optional(),
+  offset: Joi.number().integer().min(0).optional(),
+});
+
+const moderationListSchema = Joi.object({
+  status: Joi.string().valid(...REVIEW_STATUSES).optional(),
+  productId: Joi.string().uuid().optional(),
+  limit: Joi.number().integer().min(1).max(MAX_PAGE_SIZE).optional(),
+  offset: Joi.number().integer().min(0).optional(),
+});
+
+const moderateReviewSchema = Joi.object({
+  status: Joi.string().valid('approved', 'rejected').required(),
+  note: Joi.string().max(500).optional(),
+});
+
+/**
+ * Resolve the customer who wrote the review in the request path
+ */
+export const resolveReviewAuthor = (req: AuthenticatedRequest): Promise<string | null> =>
+  reviewService.getReviewAuthor(req.params.id);
+
+/**
+ * Get the approved reviews of a product
+ */
+export const getProductReviews = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { error, value } = reviewListSchema.validate(req.query);
+
+  if (error) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: error.details[0].message,
+      },
+    });
+    return;
+  }
+
+  const result = await reviewService.getReviews(id, value);
+
+  res.json({
+    success: true,
+    data: result,
+    metadata: {
+      timestamp: new Date(),
+      requestId: uuidv4(),
+    },
+  });
+});
+
+/**
+ * Review a product the customer has received
+ */
+export const createReview = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const { error, value } = createReviewSchema.validate(req.body);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        },
+      });
+      return;
+    }
+
+    const review = await reviewService.createReview(
+      id,
+      req.user!.userId,
+      req.headers.authorization!,
+      value
+    );
+
+    res.status(201).json({
+      success: true,
+      data: review,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Edit a review
+ */
+export const updateReview = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const { error, value } = updateReviewSchema.validate(req.body);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        },
+      });
+      return;
+    }
+
+    const review = await reviewService.updateReview(id, value);
+
+    res.json({
+      success: true,
+      data: review,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Delete a review
+ */
+export const deleteReview = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const result = await reviewService.deleteReview(id);
+
+    res.json({
+      success: true,
+      data: result,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * List reviews awaiting moderation
+ */
+export const getModerationQueue = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { error, value } = moderationListSchema.validate(req.query);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        },
+      });
+      return;
+    }
+
+    const result = await reviewService.getReviewsForModeration(value);
+
+    res.json({
+      success: true,
+      data: result,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Approve or reject a review
+ */
+export const moderateReview = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const { error, value } = moderateReviewSchema.validate(req.body);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        },
+      });
+      return;
+    }
+
+    const review = await reviewService.moderateReview(id, req.user!.userId, value);
+
+    res.json({
+      success: true,
+      data: review,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Mark a review as helpful
+ */
+export const voteHelpful = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const result = await reviewService.voteHelpful(id, req.user!.userId);
+
+    res.json({
+      success: true,
+      data: result,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Withdraw a helpful vote
+ */
+export const removeVote = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const result = await reviewService.removeVote(id, req.user!.userId);
+
+    res.json({
+      success: true,
+      data: result,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
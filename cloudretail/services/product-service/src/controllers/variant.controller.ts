@@ -0,0 +1,140 @@
+import { Request, Response } from 'express';
+import { VariantService } from '../services/variant.service';
+import { asyncHandler, AuthenticatedRequest } from '@cloudretail/middleware';
+import Joi from 'joi';
+import { v4 as uuidv4 } from 'uuid';
+
+const variantService = new VariantService();
+
+// Validation schemas
+const variantOptionsSchema = Joi.object().pattern(Joi.string(), Joi.string()).min(1);
+
+const createVariantSchema = Joi.object({
+  sku: Joi.string().required(),
+  options: variantOptionsSchema.required(),
+  price: Joi.number().min(0).allow(null).optional(),
+});
+
+const updateVariantSchema = Joi.object({
+  sku: Joi.string().optional(),
+  options: variantOptionsSchema.optional(),
+  price: Joi.number().min(0).allow(null).optional(),
+  isActive: Joi.boolean().optional(),
+}).min(1);
+
+/**
+ * Get the variant matrix of a product
+ */
+export const getVariants = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const matrix = await variantService.getVariants(id);
+
+  res.json({
+    success: true,
+    data: matrix,
+    metadata: {
+      timestamp: new Date(),
+      requestId: uuidv4(),
+    },
+  });
+});
+
+/**
+ * Get a variant by ID
+ */
+export const getVariantById = asyncHandler(async (req: Request, res: Response) => {
+  const { variantId } = req.params;
+  const variant = await variantService.getVariantById(variantId);
+
+  res.json({
+    success: true,
+    data: variant,
+    metadata: {
+      timestamp: new Date(),
+      requestId: uuidv4(),
+    },
+  });
+});
+
+/**
+ * Add a variant to a product
+ */
+export const createVariant = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const { error, value } = createVariantSchema.validate(req.body);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        },
+      });
+      return;
+    }
+
+    const variant = await variantService.createVariant(id, value);
+
+    res.status(201).json({
+      success: true,
+      data: variant,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Update a variant
+ */
+export const updateVariant = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id, variantId } = req.params;
+    const { error, value } = updateVariantSchema.validate(req.body);
+
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: error.details[0].message,
+        },
+      });
+      return;
+    }
+
+    const variant = await variantService.updateVariant(id, variantId, value);
+
+    res.json({
+      success: true,
+      data: variant,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
+
+/**
+ * Delete a variant
+ */
+export const deleteVariant = asyncHandler(
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { id, variantId } = req.params;
+    const result = await variantService.deleteVariant(id, variantId);
+
+    res.json({
+      success: true,
+      data: result,
+      metadata: {
+        timestamp: new Date(),
+        requestId: uuidv4(),
+      },
+    });
+  }
+);
@@ -1,69 +1,48 @@
+import { Transaction } from 'sequelize';
 import { EventType } from '@cloudretail/models';
 import { logger } from '@cloudretail/middleware';
-import { v4 as uuidv4 } from 'uuid';
+import { outbox } from '../config/database';
 
 /**
  * Event Publisher for Product Service
- * Publishes events to the event bus for other microservices to consume
+ * Records events in the transactional outbox, which relays them to the
+ * event bus and retries until they are delivered
  */
 export class EventPublisher {
-  private eventBusUrl: string;
+  /**
+   * Publish an event. Pass the transaction of the change that produced it so
+   * the event is only recorded if that change commits. Events are delivered
+   * in order per aggregate, the product unless aggregateId says otherwise.
+   */
+  async publishEvent(
+    event: {
+      type: EventType;
+      payload: any;
+      correlationId?: string;
+      aggregateId?: string;
+    },
+    transaction?: Transaction
+  ) {
+    const { aggregateId, ...message } = event;
 
-  constructor() {
-    this.eventBusUrl = process.env.EVENT_BUS_URL || 'http://localhost:4000/events';
-  }
-
-  async publishEvent(event: {
-    type: EventType;
-    payload: any;
-    correlationId?: string;
-  }) {
     try {
-      const eventMessage = {
-        id: uuidv4(),
-        type: event.type,
-        payload: event.payload,
-        timestamp: new Date(),
-        metadata: {
-          correlationId: event.correlationId || uuidv4(),
-          service: 'product-service',
+      await outbox.add(
+        {
+          ...message,
+          aggregateId: aggregateId ?? event.payload.productId,
         },
-      };
-
-      // In production, this would publish to Kafka, AWS EventBridge, or similar
-      // For now, we'll use HTTP POST to event bus
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 3000);
-
-      try {
-        const response = await fetch(this.eventBusUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(eventMessage),
-          signal: controller.signal,
-        });
-
-        if (!response.ok) {
-          throw new Error(`Event bus returned status ${response.status}`);
-        }
-      } finally {
-        clearTimeout(timeout);
+        transaction
+      );
+    } catch (error) {
+      // Within a transaction the change must not commit without its event
+      if (transaction) {
+        throw error;
       }
 
-      logger.info('Event published successfully', {
-        eventId: eventMessage.id,
-        eventType: event.type,
-      });
-    } catch (error) {
-      // Events should be published asynchronously and failures should not block main flow
-      logger.error('Failed to publish event', {
+      logger.error('Failed to record event', {
         eventType: event.type,
         error,
       });
-
-      // In production, implement retry logic or dead letter queue
     }
   }
 }
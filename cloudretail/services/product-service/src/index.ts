@@ -11,12 +11,20 @@ import {
   logger,
 } from '@cloudretail/middleware';
 import productRoutes from './routes/product.routes';
+import categoryRoutes from './routes/category.routes';
+import catalogImportRoutes from './routes/catalog-import.routes';
+import reviewRoutes from './routes/review.routes';
+import { FilesystemObjectStore, LOCAL_MEDIA_PATH, createObjectStore } from './storage';
+import { PriceScheduler } from './services/price-scheduler';
+import { CatalogImportWorker } from './services/catalog-import-worker';
 
 dotenv.config();
 
 const app = express();
 const PORT = process.env.PORT || 3002;
 const healthCheck = new HealthCheck();
+const priceScheduler = new PriceScheduler();
+const catalogImportWorker = new CatalogImportWorker();
 
 app.use(helmetMiddleware);
 app.use(corsMiddleware);
@@ -40,14 +48,43 @@ app.get('/health', async (req, res) => {
   res.status(status.status === 'healthy' ? 200 : 503).json(status);
 });
 
+// Media kept on the local filesystem is served by the service itself. Keys
+// are never reused, so files can be cached indefinitely.
+const mediaStore = createObjectStore();
+if (mediaStore instanceof FilesystemObjectStore) {
+  app.use(LOCAL_MEDIA_PATH, express.static(mediaStore.root, {
+    immutable: true,
+    maxAge: '1y',
+    // Let the storefront embed images from another origin
+    setHeaders: (res) => res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin'),
+  }));
+}
+
+app.use('/api/products/categories', categoryRoutes);
+app.use('/api/products/imports', catalogImportRoutes);
+app.use('/api/products/reviews', reviewRoutes);
 app.use('/api/products', productRoutes);
 app.use(notFoundHandler);
 app.use(errorHandler);
 
 async function startServer() {
   try {
-    const { connectDatabase } = await import('./config/database');
+    const { connectDatabase, outbox } = await import('./config/database');
     await connectDatabase();
+
+    // File products from before the category taxonomy under categories
+    const { mapLegacyCategories } = await import('./migrations/map-legacy-categories');
+    await mapLegacyCategories();
+
+    // Deliver events recorded in the outbox
+    outbox.start();
+
+    // Put scheduled price changes and sales into effect
+    priceScheduler.start();
+
+    // Run queued catalogue imports in the background
+    catalogImportWorker.start();
+
     app.listen(PORT, () => {
       logger.info(`Product Service started on port ${PORT}`);
       logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
@@ -61,14 +98,20 @@ async function startServer() {
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully');
-  const { disconnectDatabase } = await import('./config/database');
+  const { disconnectDatabase, outbox } = await import('./config/database');
+  await priceScheduler.stop();
+  await catalogImportWorker.stop();
+  await outbox.stop();
   await disconnectDatabase();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully');
-  const { disconnectDatabase } = await import('./config/database');
+  const { disconnectDatabase, outbox } = await import('./config/database');
+  await priceScheduler.stop();
+  await catalogImportWorker.stop();
+  await outbox.stop();
   await disconnectDatabase();
   process.exit(0);
 });
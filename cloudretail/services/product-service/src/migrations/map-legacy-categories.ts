@@ -0,0 +1,82 @@
+import sequelize, { Category, Product } from '../config/database';
+import { Category as CategoryInstance, toCategorySlug } from '../models/Category.model';
+import { logger } from '@cloudretail/middleware';
+
+// Separates the levels of a legacy category string, e.g. "Electronics > Phones"
+const LEVEL_SEPARATOR = '>';
+
+// Category for strings with nothing a slug can be made of
+const FALLBACK_CATEGORY = 'Uncategorised';
+
+/**
+ * File products that still only have a free-text category under category
+ * nodes, creating the nodes as needed. Strings differing only in case or
+ * punctuation map to the same node, named after the first spelling met, and
+ * "Electronics > Phones" maps to Phones under Electronics. Products already
+ * filed are left alone, so this is safe to run on every start.
+ *
+ * Returns the number of products filed.
+ */
+export async function mapLegacyCategories(): Promise<number> {
+  const transaction = await sequelize.transaction();
+
+  try {
+    const products = await Product.findAll({
+      where: { categoryId: null },
+      attributes: ['id', 'category'],
+      order: [['createdAt', 'ASC']],
+      transaction,
+    });
+
+    if (products.length === 0) {
+      await transaction.commit();
+      return 0;
+    }
+
+    const categories = await Category.findAll({ transaction });
+    const categoriesBySlug = new Map(categories.map((category) => [category.slug, category]));
+    const productIdsByCategory = new Map<CategoryInstance, string[]>();
+
+    for (const product of products) {
+      const names = product.category
+        .split(LEVEL_SEPARATOR)
+        .map((name) => name.trim())
+        .filter((name) => toCategorySlug(name));
+
+      let category: CategoryInstance | undefined;
+
+      for (const name of names.length > 0 ? names : [FALLBACK_CATEGORY]) {
+        const parent: CategoryInstance | undefined = category;
+        const slug = toCategorySlug(name, parent);
+
+        category = categoriesBySlug.get(slug)
+          || await Category.create({ name, slug, parentId: parent ? parent.id : null }, { transaction });
+        categoriesBySlug.set(slug, category);
+      }
+
+      const productIds = productIdsByCategory.get(category!) || [];
+      productIds.push(product.id);
+      productIdsByCategory.set(category!, productIds);
+    }
+
+    for (const [category, productIds] of productIdsByCategory) {
+      await Product.update(
+        { categoryId: category.id, category: category.name },
+        { where: { id: productIds }, transaction }
+      );
+    }
+
+    await transaction.commit();
+
+    logger.info('Legacy product categories mapped', {
+      products: products.length,
+      categories: productIdsByCategory.size,
+    });
+
+    return products.length;
+  } catch (error) {
+    await transaction.rollback();
+    logger.error('Error mapping legacy product categories', { error });
+    throw error;
+  }
+}
@@ -0,0 +1,191 @@
+import { Model, DataTypes, Sequelize, Optional } from 'sequelize';
+
+// An import goes pending -> running -> completed, or failed when it stops
+// on an unexpected error. Row errors do not fail the import.
+export type CatalogImportStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface CatalogImportRowResult {
+  line: number;
+  // In a dry run, what would have happened to the row
+  status: 'created' | 'updated' | 'unchanged' | 'error';
+  sku?: string;
+  productId?: string;
+  error?: string;
+}
+
+export interface CatalogImportAttributes {
+  id: string;
+  status: CatalogImportStatus;
+  // Validate and report without changing the catalogue
+  dryRun: boolean;
+  format: 'csv' | 'jsonl';
+  // The uploaded file, cleared once the import has finished
+  content: string | null;
+  // Who requested the import, whose ownership each row is checked against
+  requestedBy: string;
+  requesterRole: string;
+  // Vendor for new products whose row gives none
+  vendorId: string | null;
+  totalRows: number;
+  processedRows: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  results: CatalogImportRowResult[];
+  error: string | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface CatalogImportCreationAttributes extends Optional<
+  CatalogImportAttributes,
+  | 'id'
+  | 'status'
+  | 'vendorId'
+  | 'processedRows'
+  | 'created'
+  | 'updated'
+  | 'unchanged'
+  | 'failed'
+  | 'results'
+  | 'error'
+  | 'startedAt'
+  | 'completedAt'
+  | 'createdAt'
+  | 'updatedAt'
+> {}
+
+/**
+ * Catalog Import
+ * A bulk product import, run as a background job, with the outcome of
+ * every row of its file
+ */
+export class CatalogImport extends Model<CatalogImportAttributes, CatalogImportCreationAttributes> implements CatalogImportAttributes {
+  public id!: string;
+  public status!: CatalogImportStatus;
+  public dryRun!: boolean;
+  public format!: 'csv' | 'jsonl';
+  public content!: string | null;
+  public requestedBy!: string;
+  public requesterRole!: string;
+  public vendorId!: string | null;
+  public totalRows!: number;
+  public processedRows!: number;
+  public created!: number;
+  public updated!: number;
+  public unchanged!: number;
+  public failed!: number;
+  public results!: CatalogImportRowResult[];
+  public error!: string | null;
+  public startedAt!: Date | null;
+  public completedAt!: Date | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+export function initCatalogImportModel(sequelize: Sequelize): typeof CatalogImport {
+  CatalogImport.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      status: {
+        type: DataTypes.ENUM('pending', 'running', 'completed', 'failed'),
+        allowNull: false,
+        defaultValue: 'pending',
+      },
+      dryRun: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+      },
+      format: {
+        type: DataTypes.ENUM('csv', 'jsonl'),
+        allowNull: false,
+      },
+      content: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      requestedBy: {
+        type: DataTypes.UUID,
+        allowNull: false,
+      },
+      requesterRole: {
+        type: DataTypes.STRING(32),
+        allowNull: false,
+      },
+      vendorId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+      },
+      totalRows: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      processedRows: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      created: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      updated: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      unchanged: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      failed: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      results: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: [],
+      },
+      error: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      startedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      completedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'catalog_imports',
+      timestamps: true,
+      indexes: [
+        {
+          fields: ['status', 'createdAt'],
+        },
+        {
+          fields: ['requestedBy'],
+        },
+      ],
+    }
+  );
+
+  return CatalogImport;
+}
@@ -0,0 +1,100 @@
+import { Model, DataTypes, Sequelize, Optional } from 'sequelize';
+
+/**
+ * The URL-safe form of a category name, e.g. "Home & Garden" becomes
+ * "home-garden". Names differing only in case or punctuation share a slug.
+ * A subcategory's slug starts with its parent's, so "Accessories" can sit
+ * under both "Phones" and "Laptops".
+ */
+export function toCategorySlug(name: string, parent?: { slug: string } | null): string {
+  const slug = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  return parent && slug ? `${parent.slug}-${slug}` : slug;
+}
+
+/**
+ * A node in the category taxonomy. Top-level categories have no parent.
+ */
+export interface CategoryAttributes {
+  id: string;
+  name: string;
+  slug: string;
+  parentId: string | null;
+  description: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface CategoryCreationAttributes extends Optional<CategoryAttributes, 'id' | 'parentId' | 'description' | 'createdAt' | 'updatedAt'> {}
+
+export class Category extends Model<CategoryAttributes, CategoryCreationAttributes> implements CategoryAttributes {
+  public id!: string;
+  public name!: string;
+  public slug!: string;
+  public parentId!: string | null;
+  public description!: string | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+export function initCategoryModel(sequelize: Sequelize): typeof Category {
+  Category.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      name: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        validate: {
+          notEmpty: true,
+          len: [1, 100],
+        },
+      },
+      slug: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        unique: true,
+        validate: {
+          is: /^[a-z0-9]+(-[a-z0-9]+)*$/,
+        },
+      },
+      parentId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        references: {
+          model: 'categories',
+          key: 'id',
+        },
+      },
+      description: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'categories',
+      timestamps: true,
+      indexes: [
+        {
+          fields: ['slug'],
+          unique: true,
+        },
+        {
+          fields: ['parentId'],
+        },
+      ],
+    }
+  );
+
+  return Category;
+}
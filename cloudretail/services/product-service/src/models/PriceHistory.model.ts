@@ -0,0 +1,128 @@
+import { Model, DataTypes, Sequelize, Optional } from 'sequelize';
+
+/**
+ * Why a product's price changed
+ * - created: the price the product was created with
+ * - manual: price set by hand
+ * - scheduled: a scheduled regular price took effect
+ * - sale_started / sale_ended: a sale began or finished
+ */
+export type PriceChangeReason = 'created' | 'manual' | 'scheduled' | 'sale_started' | 'sale_ended';
+
+export const PRICE_CHANGE_REASONS: PriceChangeReason[] = [
+  'created',
+  'manual',
+  'scheduled',
+  'sale_started',
+  'sale_ended',
+];
+
+export interface PriceHistoryAttributes {
+  id: string;
+  productId: string;
+  // Price paid before and after the change
+  previousPrice: number | null;
+  price: number;
+  regularPrice: number;
+  compareAtPrice: number | null;
+  reason: PriceChangeReason;
+  // The schedule that caused the change, if any
+  scheduleId: string | null;
+  effectiveAt: Date;
+  createdAt?: Date;
+}
+
+export interface PriceHistoryCreationAttributes extends Optional<PriceHistoryAttributes, 'id' | 'previousPrice' | 'compareAtPrice' | 'scheduleId' | 'createdAt'> {}
+
+/**
+ * Price History
+ * Append-only record of every change to the price a product sells at
+ */
+export class PriceHistory extends Model<PriceHistoryAttributes, PriceHistoryCreationAttributes> implements PriceHistoryAttributes {
+  public id!: string;
+  public productId!: string;
+  public previousPrice!: number | null;
+  public price!: number;
+  public regularPrice!: number;
+  public compareAtPrice!: number | null;
+  public reason!: PriceChangeReason;
+  public scheduleId!: string | null;
+  public effectiveAt!: Date;
+
+  public readonly createdAt!: Date;
+}
+
+const appendOnly = () => {
+  throw new Error('Price history is append-only');
+};
+
+export function initPriceHistoryModel(sequelize: Sequelize): typeof PriceHistory {
+  PriceHistory.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      productId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'products',
+          key: 'id',
+        },
+      },
+      previousPrice: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: true,
+      },
+      price: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+      },
+      regularPrice: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+      },
+      compareAtPrice: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: true,
+      },
+      reason: {
+        type: DataTypes.ENUM(...PRICE_CHANGE_REASONS),
+        allowNull: false,
+      },
+      scheduleId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        references: {
+          model: 'product_prices',
+          key: 'id',
+        },
+      },
+      effectiveAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'price_history',
+      timestamps: true,
+      updatedAt: false,
+      indexes: [
+        {
+          fields: ['productId', 'effectiveAt'],
+        },
+      ],
+      hooks: {
+        beforeUpdate: appendOnly,
+        beforeBulkUpdate: appendOnly,
+        beforeDestroy: appendOnly,
+        beforeBulkDestroy: appendOnly,
+      },
+    }
+  );
+
+  return PriceHistory;
+}
@@ -1,29 +1,59 @@
-import { Model, DataTypes, Sequelize, Optional } from 'sequelize';
+import { Model, DataTypes, Sequelize, Optional, literal } from 'sequelize';
+
+/**
+ * The document searched by full-text search. Names and SKUs rank above
+ * categories, which rank above descriptions. Queries must use this exact
+ * expression for Postgres to use the index built on it.
+ */
+export const PRODUCT_SEARCH_DOCUMENT =
+  "setweight(to_tsvector('english', coalesce(name, '')), 'A') || " +
+  "setweight(to_tsvector('english', coalesce(sku, '')), 'A') || " +
+  "setweight(to_tsvector('english', coalesce(category, '')), 'B') || " +
+  "setweight(to_tsvector('english', coalesce(description, '')), 'C')";
+
+// An axis the product's variants differ on, e.g. size with values S, M and L
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
 
 export interface ProductAttributes {
   id: string;
   name: string;
   description: string;
   price: number;
+  // Null only for products not yet filed under the category taxonomy
+  categoryId: string | null;
+  // Name of the category, kept in step with it so search can match on it
   category: string;
   sku: string;
   vendorId: string;
+  // Empty for products sold without variants
+  options: ProductOption[];
   isActive: boolean;
+  // Average stars and number of approved reviews; the average is null
+  // until the first review is approved
+  ratingAverage: number | null;
+  ratingCount: number;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
-export interface ProductCreationAttributes extends Optional<ProductAttributes, 'id' | 'isActive' | 'createdAt' | 'updatedAt'> {}
+export interface ProductCreationAttributes extends Optional<ProductAttributes, 'id' | 'options' | 'isActive' | 'ratingAverage' | 'ratingCount' | 'createdAt' | 'updatedAt'> {}
 
 export class Product extends Model<ProductAttributes, ProductCreationAttributes> implements ProductAttributes {
   public id!: string;
   public name!: string;
   public description!: string;
   public price!: number;
+  public categoryId!: string | null;
   public category!: string;
   public sku!: string;
   public vendorId!: string;
+  public options!: ProductOption[];
   public isActive!: boolean;
+  public ratingAverage!: number | null;
+  public ratingCount!: number;
 
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
@@ -56,6 +86,14 @@ export function initProductModel(sequelize: Sequelize): typeof Product {
           min: 0,
         },
       },
+      categoryId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        references: {
+          model: 'categories',
+          key: 'id',
+        },
+      },
       category: {
         type: DataTypes.STRING,
         allowNull: false,
@@ -75,10 +113,24 @@ export function initProductModel(sequelize: Sequelize): typeof Product {
         type: DataTypes.UUID,
         allowNull: false,
       },
+      options: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: [],
+      },
       isActive: {
         type: DataTypes.BOOLEAN,
         defaultValue: true,
       },
+      ratingAverage: {
+        type: DataTypes.FLOAT,
+        allowNull: true,
+      },
+      ratingCount: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
     },
     {
       sequelize,
@@ -86,7 +138,7 @@ export function initProductModel(sequelize: Sequelize): typeof Product {
       timestamps: true,
       indexes: [
         {
-          fields: ['category'],
+          fields: ['categoryId'],
         },
         {
           fields: ['vendorId'],
@@ -95,6 +147,17 @@ export function initProductModel(sequelize: Sequelize): typeof Product {
           fields: ['sku'],
           unique: true,
         },
+        {
+          name: 'products_search_document',
+          using: 'GIN',
+          fields: [literal(`(${PRODUCT_SEARCH_DOCUMENT})`)],
+        },
+        {
+          // Trigram index for misspelt names (needs the pg_trgm extension)
+          name: 'products_name_trigram',
+          using: 'GIN',
+          fields: [{ name: 'name', operator: 'gin_trgm_ops' }],
+        },
       ],
     }
   );
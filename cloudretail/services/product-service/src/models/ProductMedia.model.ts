@@ -0,0 +1,107 @@
+import { Model, DataTypes, Sequelize, Optional } from 'sequelize';
+
+/**
+ * An image of a product, kept in the object store with a thumbnail. A
+ * product's media are shown in position order; the first is its primary
+ * image.
+ */
+export interface ProductMediaAttributes {
+  id: string;
+  productId: string;
+  // Object store keys of the uploaded image and its thumbnail
+  storageKey: string;
+  thumbnailKey: string;
+  contentType: string;
+  size: number;
+  width: number;
+  height: number;
+  altText: string | null;
+  position: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface ProductMediaCreationAttributes extends Optional<ProductMediaAttributes, 'id' | 'altText' | 'createdAt' | 'updatedAt'> {}
+
+export class ProductMedia extends Model<ProductMediaAttributes, ProductMediaCreationAttributes> implements ProductMediaAttributes {
+  public id!: string;
+  public productId!: string;
+  public storageKey!: string;
+  public thumbnailKey!: string;
+  public contentType!: string;
+  public size!: number;
+  public width!: number;
+  public height!: number;
+  public altText!: string | null;
+  public position!: number;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+export function initProductMediaModel(sequelize: Sequelize): typeof ProductMedia {
+  ProductMedia.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      productId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'products',
+          key: 'id',
+        },
+      },
+      storageKey: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      thumbnailKey: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      contentType: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      size: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      width: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      height: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+      },
+      altText: {
+        type: DataTypes.STRING,
+        allowNull: true,
+      },
+      position: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        validate: {
+          min: 0,
+        },
+      },
+    },
+    {
+      sequelize,
+      tableName: 'product_media',
+      timestamps: true,
+      indexes: [
+        {
+          fields: ['productId', 'position'],
+        },
+      ],
+    }
+  );
+
+  return ProductMedia;
+}
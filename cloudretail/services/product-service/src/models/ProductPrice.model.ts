@@ -0,0 +1,157 @@
+import { Model, DataTypes, Sequelize, Optional } from 'sequelize';
+
+export type ProductPriceType = 'regular' | 'sale';
+
+// A regular change goes scheduled -> applied once it becomes the product's
+// price; a sale goes scheduled -> active -> ended. Either can be cancelled
+// before it takes effect.
+export type ProductPriceStatus = 'scheduled' | 'applied' | 'active' | 'ended' | 'cancelled';
+
+/**
+ * A scheduled change to a product's price: a new regular price from a
+ * date, or a sale price for a period, shown against a compare-at price.
+ */
+export interface ProductPriceAttributes {
+  id: string;
+  productId: string;
+  type: ProductPriceType;
+  price: number;
+  // The "was" price of a sale; the regular price when not given
+  compareAtPrice: number | null;
+  startsAt: Date;
+  // Only sales end
+  endsAt: Date | null;
+  status: ProductPriceStatus;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface ProductPriceCreationAttributes extends Optional<ProductPriceAttributes, 'id' | 'compareAtPrice' | 'endsAt' | 'status' | 'createdAt' | 'updatedAt'> {}
+
+export class ProductPrice extends Model<ProductPriceAttributes, ProductPriceCreationAttributes> implements ProductPriceAttributes {
+  public id!: string;
+  public productId!: string;
+  public type!: ProductPriceType;
+  public price!: number;
+  public compareAtPrice!: number | null;
+  public startsAt!: Date;
+  public endsAt!: Date | null;
+  public status!: ProductPriceStatus;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+/**
+ * The price a product sells at
+ */
+export interface ResolvedPrice {
+  // Regular price
+  price: number;
+  // Price paid: the sale price during a sale, otherwise the regular price
+  effectivePrice: number;
+  // Set only during a sale
+  compareAtPrice: number | null;
+  sale: { id: string; endsAt: Date } | null;
+}
+
+/**
+ * Resolve the price of a product at a moment from its list price and its
+ * open schedules. Changes that are due count even before the scheduler has
+ * applied them, so clients never see a stale price.
+ */
+export function resolvePrice(listPrice: number, schedules: ProductPrice[], at: Date = new Date()): ResolvedPrice {
+  const byStart = (a: ProductPrice, b: ProductPrice) => a.startsAt.getTime() - b.startsAt.getTime();
+
+  const dueChanges = schedules
+    .filter((schedule) => schedule.type === 'regular' && schedule.status === 'scheduled' && schedule.startsAt <= at)
+    .sort(byStart);
+  const price = Number(dueChanges.length > 0 ? dueChanges[dueChanges.length - 1].price : listPrice);
+
+  const sale = schedules
+    .filter((schedule) =>
+      schedule.type === 'sale'
+      && (schedule.status === 'scheduled' || schedule.status === 'active')
+      && schedule.startsAt <= at
+      && schedule.endsAt! > at
+    )
+    .sort(byStart)
+    .pop();
+
+  if (!sale) {
+    return { price, effectivePrice: price, compareAtPrice: null, sale: null };
+  }
+
+  return {
+    price,
+    effectivePrice: Number(sale.price),
+    compareAtPrice: Number(sale.compareAtPrice ?? price),
+    sale: { id: sale.id, endsAt: sale.endsAt! },
+  };
+}
+
+export function initProductPriceModel(sequelize: Sequelize): typeof ProductPrice {
+  ProductPrice.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      productId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'products',
+          key: 'id',
+        },
+      },
+      type: {
+        type: DataTypes.ENUM('regular', 'sale'),
+        allowNull: false,
+      },
+      price: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: false,
+        validate: {
+          min: 0,
+        },
+      },
+      compareAtPrice: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: true,
+        validate: {
+          min: 0,
+        },
+      },
+      startsAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      endsAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      status: {
+        type: DataTypes.ENUM('scheduled', 'applied', 'active', 'ended', 'cancelled'),
+        allowNull: false,
+        defaultValue: 'scheduled',
+      },
+    },
+    {
+      sequelize,
+      tableName: 'product_prices',
+      timestamps: true,
+      indexes: [
+        {
+          fields: ['productId', 'status'],
+        },
+        {
+          fields: ['status', 'startsAt'],
+        },
+      ],
+    }
+  );
+
+  return ProductPrice;
+}
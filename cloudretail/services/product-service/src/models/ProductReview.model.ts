@@ -0,0 +1,137 @@
+import { Model, DataTypes, Sequelize, Optional } from 'sequelize';
+
+// Reviews start pending and are shown once an admin approves them. Editing
+// a review sends it back for moderation.
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'approved', 'rejected'];
+
+export interface ProductReviewAttributes {
+  id: string;
+  productId: string;
+  userId: string;
+  // The delivered order that shows the reviewer bought the product
+  orderId: string;
+  // Stars, 1 to 5
+  rating: number;
+  title: string | null;
+  body: string;
+  status: ReviewStatus;
+  // Why a review was rejected, shown to its author
+  moderationNote: string | null;
+  moderatedBy: string | null;
+  moderatedAt: Date | null;
+  helpfulCount: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface ProductReviewCreationAttributes extends Optional<ProductReviewAttributes, 'id' | 'title' | 'status' | 'moderationNote' | 'moderatedBy' | 'moderatedAt' | 'helpfulCount' | 'createdAt' | 'updatedAt'> {}
+
+/**
+ * Product Review
+ * A customer's star rating and review of a product they have received
+ */
+export class ProductReview extends Model<ProductReviewAttributes, ProductReviewCreationAttributes> implements ProductReviewAttributes {
+  public id!: string;
+  public productId!: string;
+  public userId!: string;
+  public orderId!: string;
+  public rating!: number;
+  public title!: string | null;
+  public body!: string;
+  public status!: ReviewStatus;
+  public moderationNote!: string | null;
+  public moderatedBy!: string | null;
+  public moderatedAt!: Date | null;
+  public helpfulCount!: number;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+export function initProductReviewModel(sequelize: Sequelize): typeof ProductReview {
+  ProductReview.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      productId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'products',
+          key: 'id',
+        },
+      },
+      userId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+      },
+      orderId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+      },
+      rating: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        validate: {
+          min: 1,
+          max: 5,
+        },
+      },
+      title: {
+        type: DataTypes.STRING(150),
+        allowNull: true,
+      },
+      body: {
+        type: DataTypes.TEXT,
+        allowNull: false,
+      },
+      status: {
+        type: DataTypes.ENUM(...REVIEW_STATUSES),
+        allowNull: false,
+        defaultValue: 'pending',
+      },
+      moderationNote: {
+        type: DataTypes.STRING(500),
+        allowNull: true,
+      },
+      moderatedBy: {
+        type: DataTypes.UUID,
+        allowNull: true,
+      },
+      moderatedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      helpfulCount: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'product_reviews',
+      timestamps: true,
+      indexes: [
+        {
+          // One review per customer per product
+          fields: ['productId', 'userId'],
+          unique: true,
+        },
+        {
+          fields: ['productId', 'status'],
+        },
+        {
+          fields: ['status', 'createdAt'],
+        },
+      ],
+    }
+  );
+
+  return ProductReview;
+}
@@ -0,0 +1,97 @@
+import { Model, DataTypes, Sequelize, Optional } from 'sequelize';
+
+/**
+ * One combination of a product's options, e.g. size M in red, sold under
+ * its own SKU. Without a price of its own it sells at the product's price.
+ */
+export interface ProductVariantAttributes {
+  id: string;
+  productId: string;
+  sku: string;
+  // A value for each of the product's options, keyed by option name
+  options: Record<string, string>;
+  price: number | null;
+  isActive: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface ProductVariantCreationAttributes extends Optional<ProductVariantAttributes, 'id' | 'price' | 'isActive' | 'createdAt' | 'updatedAt'> {}
+
+export class ProductVariant extends Model<ProductVariantAttributes, ProductVariantCreationAttributes> implements ProductVariantAttributes {
+  public id!: string;
+  public productId!: string;
+  public sku!: string;
+  public options!: Record<string, string>;
+  public price!: number | null;
+  public isActive!: boolean;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  /**
+   * Price the variant sells at, given its product's price
+   */
+  public getEffectivePrice(productPrice: number): number {
+    return Number(this.price ?? productPrice);
+  }
+}
+
+export function initProductVariantModel(sequelize: Sequelize): typeof ProductVariant {
+  ProductVariant.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      productId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'products',
+          key: 'id',
+        },
+      },
+      sku: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        unique: true,
+        validate: {
+          notEmpty: true,
+        },
+      },
+      options: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+      },
+      price: {
+        type: DataTypes.DECIMAL(10, 2),
+        allowNull: true,
+        validate: {
+          min: 0,
+        },
+      },
+      isActive: {
+        type: DataTypes.BOOLEAN,
+        defaultValue: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'product_variants',
+      timestamps: true,
+      indexes: [
+        {
+          fields: ['productId'],
+        },
+        {
+          fields: ['sku'],
+          unique: true,
+        },
+      ],
+    }
+  );
+
+  return ProductVariant;
+}
@@ -0,0 +1,61 @@
+import { Model, DataTypes, Sequelize, Optional } from 'sequelize';
+
+export interface ReviewVoteAttributes {
+  id: string;
+  reviewId: string;
+  userId: string;
+  createdAt?: Date;
+}
+
+export interface ReviewVoteCreationAttributes extends Optional<ReviewVoteAttributes, 'id' | 'createdAt'> {}
+
+/**
+ * Review Vote
+ * A user marking a review as helpful. Each user votes once per review.
+ */
+export class ReviewVote extends Model<ReviewVoteAttributes, ReviewVoteCreationAttributes> implements ReviewVoteAttributes {
+  public id!: string;
+  public reviewId!: string;
+  public userId!: string;
+
+  public readonly createdAt!: Date;
+}
+
+export function initReviewVoteModel(sequelize: Sequelize): typeof ReviewVote {
+  ReviewVote.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      reviewId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+          model: 'product_reviews',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      userId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'review_votes',
+      timestamps: true,
+      updatedAt: false,
+      indexes: [
+        {
+          fields: ['reviewId', 'userId'],
+          unique: true,
+        },
+      ],
+    }
+  );
+
+  return ReviewVote;
+}
@@ -0,0 +1,38 @@
+import express, { Router } from 'express';
+import { createCatalogImport, getCatalogImport } from '../controllers/catalog-import.controller';
+import {
+  authenticate,
+  authorize,
+  strictRateLimiter,
+  standardRateLimiter,
+} from '@cloudretail/middleware';
+
+const router = Router();
+
+// Import files are sent as the raw request body
+const importFile = express.text({
+  type: ['text/csv', 'application/x-ndjson', 'application/jsonl'],
+  limit: process.env.CATALOG_IMPORT_MAX_SIZE || '10mb',
+});
+
+/**
+ * Protected routes - require authentication and authorization
+ */
+router.post(
+  '/',
+  authenticate,
+  authorize('admin', 'vendor'),
+  strictRateLimiter,
+  importFile,
+  createCatalogImport
+);
+
+router.get(
+  '/:id',
+  authenticate,
+  authorize('admin', 'vendor'),
+  standardRateLimiter,
+  getCatalogImport
+);
+
+export default router;
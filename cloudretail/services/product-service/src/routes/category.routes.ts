@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import {
+  getCategories,
+  getCategory,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+} from '../controllers/category.controller';
+import {
+  authenticate,
+  authorize,
+  strictRateLimiter,
+  standardRateLimiter,
+} from '@cloudretail/middleware';
+
+const router = Router();
+
+/**
+ * Public routes
+ */
+router.get('/', standardRateLimiter, getCategories);
+router.get('/:idOrSlug', standardRateLimiter, getCategory);
+
+/**
+ * Admin routes - the taxonomy is shared by all vendors
+ */
+router.post(
+  '/',
+  authenticate,
+  authorize('admin'),
+  strictRateLimiter,
+  createCategory
+);
+
+router.put(
+  '/:id',
+  authenticate,
+  authorize('admin'),
+  strictRateLimiter,
+  updateCategory
+);
+
+router.delete(
+  '/:id',
+  authenticate,
+  authorize('admin'),
+  strictRateLimiter,
+  deleteCategory
+);
+
+export default router;
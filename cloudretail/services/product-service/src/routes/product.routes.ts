@@ -1,4 +1,4 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import {
   createProduct,
   getProductById,
@@ -9,22 +9,69 @@ import {
   getAllProducts,
   getProductsByVendor,
   getProductsByCategory,
+  resolveProductOwner,
+  resolveNewProductOwner,
 } from '../controllers/product.controller';
+import {
+  getVariants,
+  getVariantById,
+  createVariant,
+  updateVariant,
+  deleteVariant,
+} from '../controllers/variant.controller';
+import {
+  getMedia,
+  uploadMedia,
+  reorderMedia,
+  deleteMedia,
+} from '../controllers/media.controller';
+import {
+  getPriceSchedule,
+  getPriceHistory,
+  schedulePriceChange,
+  scheduleSale,
+  cancelPriceSchedule,
+} from '../controllers/price.controller';
+import { getProductReviews, createReview } from '../controllers/review.controller';
 import {
   authenticate,
   authorize,
+  requireOwnership,
   strictRateLimiter,
   standardRateLimiter,
 } from '@cloudretail/middleware';
 
 const router = Router();
 
+// Images are sent as the raw request body
+const imageFile = express.raw({
+  type: 'image/*',
+  limit: process.env.MEDIA_MAX_SIZE || '5mb',
+});
+
+// Vendors may only change their own products; admins may change any
+const productOwner = requireOwnership({
+  resource: 'product',
+  resolveOwner: resolveProductOwner,
+});
+
+const newProductOwner = requireOwnership({
+  resource: 'product',
+  resolveOwner: resolveNewProductOwner,
+});
+
 /**
  * Public routes
  */
 router.get('/search', standardRateLimiter, searchProducts);
 router.get('/', standardRateLimiter, getAllProducts);
+router.get('/variants/:variantId', standardRateLimiter, getVariantById);
 router.get('/:id', standardRateLimiter, getProductById);
+router.get('/:id/variants', standardRateLimiter, getVariants);
+router.get('/:id/media', standardRateLimiter, getMedia);
+router.get('/:id/prices', standardRateLimiter, getPriceSchedule);
+router.get('/:id/prices/history', standardRateLimiter, getPriceHistory);
+router.get('/:id/reviews', standardRateLimiter, getProductReviews);
 router.get('/sku/:sku', standardRateLimiter, getProductBySku);
 router.get('/vendor/:vendorId', standardRateLimiter, getProductsByVendor);
 router.get('/category/:category', standardRateLimiter, getProductsByCategory);
@@ -37,6 +84,7 @@ router.post(
   authenticate,
   authorize('admin', 'vendor'),
   strictRateLimiter,
+  newProductOwner,
   createProduct
 );
 
@@ -45,6 +93,7 @@ router.put(
   authenticate,
   authorize('admin', 'vendor'),
   strictRateLimiter,
+  productOwner,
   updateProduct
 );
 
@@ -53,7 +102,93 @@ router.delete(
   authenticate,
   authorize('admin', 'vendor'),
   strictRateLimiter,
+  productOwner,
   deleteProduct
 );
 
+router.post(
+  '/:id/variants',
+  authenticate,
+  authorize('admin', 'vendor'),
+  strictRateLimiter,
+  productOwner,
+  createVariant
+);
+
+router.put(
+  '/:id/variants/:variantId',
+  authenticate,
+  authorize('admin', 'vendor'),
+  strictRateLimiter,
+  productOwner,
+  updateVariant
+);
+
+router.delete(
+  '/:id/variants/:variantId',
+  authenticate,
+  authorize('admin', 'vendor'),
+  strictRateLimiter,
+  productOwner,
+  deleteVariant
+);
+
+router.post(
+  '/:id/media',
+  authenticate,
+  authorize('admin', 'vendor'),
+  strictRateLimiter,
+  productOwner,
+  imageFile,
+  uploadMedia
+);
+
+router.put(
+  '/:id/media/order',
+  authenticate,
+  authorize('admin', 'vendor'),
+  strictRateLimiter,
+  productOwner,
+  reorderMedia
+);
+
+router.delete(
+  '/:id/media/:mediaId',
+  authenticate,
+  authorize('admin', 'vendor'),
+  strictRateLimiter,
+  productOwner,
+  deleteMedia
+);
+
+router.post(
+  '/:id/prices',
+  authenticate,
+  authorize('admin', 'vendor'),
+  strictRateLimiter,
+  productOwner,
+  schedulePriceChange
+);
+
+router.post(
+  '/:id/sales',
+  authenticate,
+  authorize('admin', 'vendor'),
+  strictRateLimiter,
+  productOwner,
+  scheduleSale
+);
+
+router.delete(
+  '/:id/prices/:scheduleId',
+  authenticate,
+  authorize('admin', 'vendor'),
+  strictRateLimiter,
+  productOwner,
+  cancelPriceSchedule
+);
+
+// Any signed-in customer may try; the service checks for a delivered order
+router.post('/:id/reviews', authenticate, strictRateLimiter, createReview);
+
 export default router;
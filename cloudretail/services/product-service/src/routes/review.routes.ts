@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import {
+  updateReview,
+  deleteReview,
+  getModerationQueue,
+  moderateReview,
+  voteHelpful,
+  removeVote,
+  resolveReviewAuthor,
+} from '../controllers/review.controller';
+import {
+  authenticate,
+  authorize,
+  requireOwnership,
+  strictRateLimiter,
+  standardRateLimiter,
+} from '@cloudretail/middleware';
+
+const router = Router();
+
+// Only the author may edit a review
+const reviewAuthor = requireOwnership({
+  resource: 'review',
+  resolveOwner: resolveReviewAuthor,
+  bypassRoles: [],
+});
+
+// Authors may delete their own reviews; admins may delete any
+const reviewOwner = requireOwnership({
+  resource: 'review',
+  resolveOwner: resolveReviewAuthor,
+});
+
+/**
+ * Protected routes - require authentication and authorization
+ */
+router.get(
+  '/',
+  authenticate,
+  authorize('admin'),
+  standardRateLimiter,
+  getModerationQueue
+);
+
+router.put('/:id', authenticate, strictRateLimiter, reviewAuthor, updateReview);
+
+router.delete('/:id', authenticate, strictRateLimiter, reviewOwner, deleteReview);
+
+router.put(
+  '/:id/moderation',
+  authenticate,
+  authorize('admin'),
+  strictRateLimiter,
+  moderateReview
+);
+
+router.post('/:id/votes', authenticate, standardRateLimiter, voteHelpful);
+
+router.delete('/:id/votes', authenticate, standardRateLimiter, removeVote);
+
+export default router;
@@ -0,0 +1,38 @@
+import { logger } from '@cloudretail/middleware';
+import { PeriodicWorker } from '@cloudretail/outbox';
+import sequelize from '../config/database';
+import { CatalogImportService } from './catalog-import.service';
+
+/**
+ * Catalog Import Worker
+ * Periodically runs queued catalogue imports, one at a time, until none
+ * are waiting
+ */
+export class CatalogImportWorker extends PeriodicWorker {
+  private catalogImportService: CatalogImportService;
+
+  constructor(options: { intervalMs?: number } = {}) {
+    super(sequelize, {
+      name: 'catalog-import-worker',
+      intervalMs: options.intervalMs || parseInt(process.env.CATALOG_IMPORT_INTERVAL_MS || '5000'),
+    });
+    this.catalogImportService = new CatalogImportService();
+  }
+
+  /**
+   * Run every queued import
+   */
+  protected async work(): Promise<number> {
+    let processed = 0;
+
+    while (await this.catalogImportService.processNextImport()) {
+      processed++;
+    }
+
+    if (processed > 0) {
+      logger.info(`Ran ${processed} catalog import(s)`);
+    }
+
+    return processed;
+  }
+}
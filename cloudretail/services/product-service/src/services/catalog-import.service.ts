@@ -0,0 +1,534 @@
+import Joi from 'joi';
+import { Op } from 'sequelize';
+import sequelize, { CatalogImport, Product, ProductVariant } from '../config/database';
+import {
+  CatalogImport as CatalogImportInstance,
+  CatalogImportRowResult,
+} from '../models/CatalogImport.model';
+import { Category as CategoryInstance } from '../models/Category.model';
+import { Product as ProductInstance } from '../models/Product.model';
+import {
+  ForbiddenError,
+  JwtPayload,
+  NotFoundError,
+  ValidationError,
+  auditOwnership,
+  checkOwnership,
+  logger,
+} from '@cloudretail/middleware';
+import { EventPublisher } from '../events/event-publisher';
+import { CategoryService } from './category.service';
+import { PricingService } from './pricing.service';
+import { CatalogFileFormat, parseCatalogFile } from './catalog-file';
+
+// Extra columns are ignored. Rows for existing SKUs only change the fields
+// they give; rows for new SKUs must give every field of a product.
+const importRowSchema = Joi.object({
+  sku: Joi.string().max(255).required(),
+  name: Joi.string().min(1).max(255),
+  description: Joi.string(),
+  price: Joi.number().min(0),
+  // Category ID or slug
+  category: Joi.string().max(255),
+  vendorId: Joi.string().uuid(),
+  isActive: Joi.boolean(),
+}).unknown(true);
+
+const NEW_PRODUCT_FIELDS = ['name', 'description', 'price', 'category'] as const;
+
+interface ImportRow {
+  line: number;
+  sku: string;
+  name?: string;
+  description?: string;
+  price?: number;
+  category?: string;
+  vendorId?: string;
+  isActive?: boolean;
+}
+
+// A valid row with the change it makes to the catalogue
+interface PlannedRow extends ImportRow {
+  action: 'create' | 'update' | 'unchanged';
+  resolvedCategory?: CategoryInstance;
+  productId?: string;
+}
+
+type ImportUser = Pick<JwtPayload, 'userId' | 'role'>;
+
+/**
+ * Catalog Import Service
+ * Creates and updates products in bulk from CSV or JSON lines files, keyed
+ * by SKU. Imports are queued and run in the background by the catalog
+ * import worker, reporting the outcome of every row.
+ */
+export class CatalogImportService {
+  private eventPublisher: EventPublisher;
+  private categoryService: CategoryService;
+  private pricingService: PricingService;
+  private batchSize: number;
+  private staleAfterMs: number;
+
+  constructor() {
+    this.eventPublisher = new EventPublisher();
+    this.categoryService = new CategoryService();
+    this.pricingService = new PricingService();
+    this.batchSize = parseInt(process.env.CATALOG_IMPORT_BATCH_SIZE || '100');
+    this.staleAfterMs = parseInt(process.env.CATALOG_IMPORT_STALE_MS || '600000');
+  }
+
+  private toView(catalogImport: CatalogImportInstance) {
+    const { content, requesterRole, ...view } = catalogImport.toJSON();
+    return view;
+  }
+
+  /**
+   * Queue an import. Vendors import into their own catalogue; admins may
+   * name the vendor new products belong to.
+   */
+  async createImport(
+    content: string,
+    format: CatalogFileFormat,
+    options: { dryRun?: boolean; vendorId?: string },
+    user: ImportUser
+  ) {
+    const parsed = parseCatalogFile(content, format);
+
+    if (parsed.records.length === 0 && parsed.errors.length === 0) {
+      throw new ValidationError('Import file has no rows');
+    }
+
+    const vendorId = options.vendorId
+      ?? (checkOwnership(user, null) === 'bypass' ? null : user.userId);
+
+    if (vendorId && checkOwnership(user, vendorId) === 'denied') {
+      auditOwnership({
+        resource: 'product',
+        action: 'catalog import',
+        decision: 'denied',
+        user,
+        ownerId: vendorId,
+      });
+      throw new ForbiddenError('You cannot import products for another vendor');
+    }
+
+    const catalogImport = await CatalogImport.create({
+      dryRun: options.dryRun === true,
+      format,
+      content,
+      requestedBy: user.userId,
+      requesterRole: user.role,
+      vendorId,
+      totalRows: parsed.records.length + parsed.errors.length,
+    });
+
+    logger.info('Catalog import queued', {
+      importId: catalogImport.id,
+      dryRun: catalogImport.dryRun,
+      totalRows: catalogImport.totalRows,
+    });
+
+    return this.toView(catalogImport);
+  }
+
+  /**
+   * Get an import with its progress and report. Vendors only see their own.
+   */
+  async getImport(importId: string, user: ImportUser) {
+    const catalogImport = await CatalogImport.findByPk(importId);
+
+    if (!catalogImport) {
+      throw new NotFoundError('Catalog import');
+    }
+
+    if (checkOwnership(user, catalogImport.requestedBy) === 'denied') {
+      throw new ForbiddenError('You do not have access to this import');
+    }
+
+    return this.toView(catalogImport);
+  }
+
+  /**
+   * Claim the oldest import waiting to run. An import left running without
+   * progress is taken to be interrupted and is claimed again; rows it had
+   * applied are found by SKU and report as updated or unchanged.
+   */
+  async claimNextImport(): Promise<CatalogImportInstance | null> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const catalogImport = await CatalogImport.findOne({
+        where: {
+          [Op.or]: [
+            { status: 'pending' },
+            { status: 'running', updatedAt: { [Op.lt]: new Date(Date.now() - this.staleAfterMs) } },
+          ],
+        },
+        order: [['createdAt', 'ASC']],
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+        // Other instances claim the next import instead of waiting
+        skipLocked: true,
+      });
+
+      if (catalogImport) {
+        await catalogImport.update({ status: 'running', startedAt: new Date() }, { transaction });
+      }
+
+      await transaction.commit();
+      return catalogImport;
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error claiming catalog import', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Run the next waiting import, if any. Returns whether one was run.
+   */
+  async processNextImport(): Promise<boolean> {
+    const catalogImport = await this.claimNextImport();
+
+    if (!catalogImport) {
+      return false;
+    }
+
+    try {
+      await this.runImport(catalogImport);
+    } catch (error) {
+      logger.error('Catalog import failed', { importId: catalogImport.id, error });
+
+      await catalogImport.update({
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        content: null,
+        completedAt: new Date(),
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Validate every row of an import, then apply the valid rows in batches
+   * of CATALOG_IMPORT_BATCH_SIZE, each in its own transaction. A dry run
+   * stops after validation and reports what would have happened.
+   */
+  async runImport(catalogImport: CatalogImportInstance): Promise<void> {
+    const user: ImportUser = { userId: catalogImport.requestedBy, role: catalogImport.requesterRole };
+    const parsed = parseCatalogFile(catalogImport.content || '', catalogImport.format);
+
+    const results: CatalogImportRowResult[] = parsed.errors.map(({ line, error }) => ({
+      line,
+      status: 'error' as const,
+      error,
+    }));
+
+    let rows: ImportRow[] = [];
+    for (const record of parsed.records) {
+      const { error, value } = importRowSchema.validate(record.fields);
+
+      if (error) {
+        results.push({ line: record.line, status: 'error', error: error.details[0].message });
+      } else {
+        rows.push({ ...value, line: record.line });
+      }
+    }
+
+    // A SKU may appear once per file
+    const firstLines = new Map<string, number>();
+    rows = rows.filter((row) => {
+      const firstLine = firstLines.get(row.sku);
+
+      if (firstLine !== undefined) {
+        results.push({ line: row.line, status: 'error', sku: row.sku, error: `Duplicate of line ${firstLine}` });
+        return false;
+      }
+
+      firstLines.set(row.sku, row.line);
+      return true;
+    });
+
+    if (checkOwnership(user, null) === 'bypass') {
+      auditOwnership({ resource: 'product', action: 'catalog import', decision: 'bypass', user, ownerId: null });
+    }
+
+    const planned = await this.planRows(rows, results, catalogImport, user);
+
+    if (catalogImport.dryRun) {
+      results.push(
+        ...planned.map((row) => ({
+          line: row.line,
+          status: this.outcomeOf(row),
+          sku: row.sku,
+          productId: row.productId,
+        }))
+      );
+    } else {
+      await catalogImport.update({ processedRows: results.length });
+
+      for (let i = 0; i < planned.length; i += this.batchSize) {
+        results.push(...(await this.applyBatch(planned.slice(i, i + this.batchSize), catalogImport)));
+        // Recording progress also shows the import is still alive
+        await catalogImport.update({ processedRows: results.length });
+      }
+    }
+
+    results.sort((a, b) => a.line - b.line);
+
+    const count = (status: CatalogImportRowResult['status']) =>
+      results.filter((result) => result.status === status).length;
+
+    await catalogImport.update({
+      status: 'completed',
+      processedRows: results.length,
+      created: count('created'),
+      updated: count('updated'),
+      unchanged: count('unchanged'),
+      failed: count('error'),
+      results,
+      content: null,
+      completedAt: new Date(),
+    });
+
+    logger.info('Catalog import finished', {
+      importId: catalogImport.id,
+      dryRun: catalogImport.dryRun,
+      created: catalogImport.created,
+      updated: catalogImport.updated,
+      unchanged: catalogImport.unchanged,
+      failed: catalogImport.failed,
+    });
+  }
+
+  private outcomeOf(row: PlannedRow): CatalogImportRowResult['status'] {
+    if (row.action === 'create') return 'created';
+    return row.action === 'update' ? 'updated' : 'unchanged';
+  }
+
+  /**
+   * The fields a row changes on an existing product
+   */
+  private changesFor(product: ProductInstance, row: PlannedRow) {
+    const changes: Partial<{
+      name: string;
+      description: string;
+      price: number;
+      categoryId: string;
+      category: string;
+      isActive: boolean;
+    }> = {};
+
+    if (row.name !== undefined && row.name !== product.name) changes.name = row.name;
+    if (row.description !== undefined && row.description !== product.description) {
+      changes.description = row.description;
+    }
+    if (row.price !== undefined && row.price !== Number(product.price)) changes.price = row.price;
+    if (row.resolvedCategory && row.resolvedCategory.id !== product.categoryId) {
+      changes.categoryId = row.resolvedCategory.id;
+      changes.category = row.resolvedCategory.name;
+    }
+    if (row.isActive !== undefined && row.isActive !== product.isActive) changes.isActive = row.isActive;
+
+    return changes;
+  }
+
+  /**
+   * Decide what each row does, failing rows with unknown categories,
+   * missing fields, SKUs used by variants, or products the user may not
+   * change
+   */
+  private async planRows(
+    rows: ImportRow[],
+    results: CatalogImportRowResult[],
+    catalogImport: CatalogImportInstance,
+    user: ImportUser
+  ): Promise<PlannedRow[]> {
+    const categories = new Map<string, CategoryInstance | null>();
+    for (const reference of new Set(rows.filter((row) => row.category).map((row) => row.category!))) {
+      try {
+        categories.set(reference, await this.categoryService.resolveCategory(reference));
+      } catch (error) {
+        if (!(error instanceof NotFoundError)) throw error;
+        categories.set(reference, null);
+      }
+    }
+
+    const products = new Map<string, ProductInstance>();
+    const variantSkus = new Set<string>();
+    for (let i = 0; i < rows.length; i += this.batchSize) {
+      const skus = rows.slice(i, i + this.batchSize).map((row) => row.sku);
+      const [existing, variants] = await Promise.all([
+        Product.findAll({ where: { sku: skus } }),
+        ProductVariant.findAll({ where: { sku: skus }, attributes: ['id', 'sku'] }),
+      ]);
+
+      existing.forEach((product) => products.set(product.sku, product));
+      variants.forEach((variant) => variantSkus.add(variant.sku));
+    }
+
+    const planned: PlannedRow[] = [];
+    const fail = (row: ImportRow, error: string) => {
+      results.push({ line: row.line, status: 'error', sku: row.sku, error });
+    };
+
+    for (const row of rows) {
+      const resolvedCategory = row.category ? categories.get(row.category) : undefined;
+      if (resolvedCategory === null) {
+        fail(row, `Unknown category ${row.category}`);
+        continue;
+      }
+
+      if (variantSkus.has(row.sku)) {
+        fail(row, `SKU ${row.sku} is used by a product variant`);
+        continue;
+      }
+
+      const product = products.get(row.sku);
+      const vendorId = product ? product.vendorId : row.vendorId || catalogImport.vendorId;
+
+      if (!product) {
+        const missing: string[] = NEW_PRODUCT_FIELDS.filter((field) => row[field] === undefined);
+        if (!vendorId) missing.push('vendorId');
+
+        if (missing.length > 0) {
+          fail(row, `A new product needs ${missing.join(', ')}`);
+          continue;
+        }
+      }
+
+      const decision = checkOwnership(user, vendorId);
+      if (decision === 'denied') {
+        auditOwnership({
+          resource: 'product',
+          resourceId: product?.id,
+          action: 'catalog import',
+          decision,
+          user,
+          ownerId: vendorId,
+          correlationId: catalogImport.id,
+        });
+      }
+
+      if (decision === 'denied' || (product && row.vendorId && row.vendorId !== product.vendorId)) {
+        fail(row, product
+          ? `SKU ${row.sku} belongs to another vendor's product`
+          : 'You cannot create products for another vendor');
+        continue;
+      }
+
+      const plannedRow: PlannedRow = { ...row, vendorId: vendorId!, resolvedCategory, action: 'create' };
+
+      if (product) {
+        const changes = this.changesFor(product, plannedRow);
+        plannedRow.productId = product.id;
+        plannedRow.action = Object.keys(changes).length > 0 ? 'update' : 'unchanged';
+      }
+
+      planned.push(plannedRow);
+    }
+
+    return planned;
+  }
+
+  /**
+   * Apply a batch of rows in one transaction. Events for the batch are
+   * recorded with it, so they are published together once it commits. If
+   * anything fails the batch is rolled back and every row in it fails.
+   */
+  private async applyBatch(
+    rows: PlannedRow[],
+    catalogImport: CatalogImportInstance
+  ): Promise<CatalogImportRowResult[]> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const existing = await Product.findAll({
+        where: { sku: rows.filter((row) => row.action !== 'create').map((row) => row.sku) },
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+      const products = new Map(existing.map((product) => [product.sku, product]));
+      const results: CatalogImportRowResult[] = [];
+
+      for (const row of rows) {
+        const product = products.get(row.sku);
+
+        if (!product) {
+          const created = await Product.create(
+            {
+              name: row.name!,
+              description: row.description!,
+              price: row.price!,
+              categoryId: row.resolvedCategory!.id,
+              category: row.resolvedCategory!.name,
+              sku: row.sku,
+              vendorId: row.vendorId!,
+              isActive: row.isActive ?? true,
+            },
+            { transaction }
+          );
+
+          await this.eventPublisher.publishEvent({
+            type: 'product.created',
+            payload: {
+              productId: created.id,
+              name: created.name,
+              price: created.price,
+              categoryId: created.categoryId,
+              category: created.category,
+              sku: created.sku,
+              vendorId: created.vendorId,
+            },
+            correlationId: catalogImport.id,
+          }, transaction);
+
+          await this.pricingService.settlePrice(created, transaction, { reason: 'created' });
+
+          results.push({ line: row.line, status: 'created', sku: row.sku, productId: created.id });
+          continue;
+        }
+
+        // Compare against the locked product, which may have changed since validation
+        const { price, ...changes } = this.changesFor(product, row);
+
+        if (price === undefined && Object.keys(changes).length === 0) {
+          results.push({ line: row.line, status: 'unchanged', sku: row.sku, productId: product.id });
+          continue;
+        }
+
+        await product.update(changes, { transaction });
+
+        if (price !== undefined) {
+          await this.pricingService.settlePrice(product, transaction, { listPrice: price });
+        }
+
+        await this.eventPublisher.publishEvent({
+          type: 'product.updated',
+          payload: {
+            productId: product.id,
+            updates: price === undefined ? changes : { ...changes, price },
+          },
+          correlationId: catalogImport.id,
+        }, transaction);
+
+        results.push({ line: row.line, status: 'updated', sku: row.sku, productId: product.id });
+      }
+
+      await transaction.commit();
+      return results;
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Catalog import batch failed', { importId: catalogImport.id, error });
+
+      return rows.map((row) => ({
+        line: row.line,
+        status: 'error' as const,
+        sku: row.sku,
+        productId: row.productId,
+        error: 'Batch failed and was rolled back',
+      }));
+    }
+  }
+}
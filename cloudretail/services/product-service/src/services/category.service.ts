@@ -0,0 +1,313 @@
+import { Transaction, col, fn, where } from 'sequelize';
+import sequelize, { Category, Product } from '../config/database';
+import { Category as CategoryInstance, toCategorySlug } from '../models/Category.model';
+import {
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+  logger,
+} from '@cloudretail/middleware';
+import { EventPublisher } from '../events/event-publisher';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface CategoryTreeNode {
+  id: string;
+  name: string;
+  slug: string;
+  parentId: string | null;
+  description: string | null;
+  children: CategoryTreeNode[];
+}
+
+/**
+ * Category Service
+ * Manages the category taxonomy products are filed under
+ */
+export class CategoryService {
+  private eventPublisher: EventPublisher;
+
+  constructor() {
+    this.eventPublisher = new EventPublisher();
+  }
+
+  private async findCategory(categoryId: string, transaction?: Transaction): Promise<CategoryInstance> {
+    const category = await Category.findByPk(categoryId, { transaction });
+
+    if (!category) {
+      throw new NotFoundError('Category');
+    }
+
+    return category;
+  }
+
+  /**
+   * The IDs of a category and everything beneath it. The taxonomy is small,
+   * so it is walked in memory rather than with a recursive query.
+   */
+  private async findSubtreeIds(categoryId: string, transaction?: Transaction): Promise<string[]> {
+    const categories = await Category.findAll({ attributes: ['id', 'parentId'], transaction });
+    const ids = [categoryId];
+
+    for (let index = 0; index < ids.length; index++) {
+      for (const category of categories) {
+        if (category.parentId === ids[index]) {
+          ids.push(category.id);
+        }
+      }
+    }
+
+    return ids;
+  }
+
+  /**
+   * Make sure no other category has the slug
+   */
+  private async assertSlugFree(slug: string, transaction: Transaction): Promise<void> {
+    if (!slug) {
+      throw new ValidationError('Category slug must contain letters or digits');
+    }
+
+    const existing = await Category.findOne({ where: { slug }, transaction });
+
+    if (existing) {
+      throw new ConflictError('Category with this slug already exists');
+    }
+  }
+
+  /**
+   * Find a category by ID, slug or name. Slugs and names match however
+   * they are cased; a name shared by several categories matches none.
+   */
+  async resolveCategory(idOrSlug: string): Promise<CategoryInstance> {
+    const byId = UUID_PATTERN.test(idOrSlug);
+    let category = byId
+      ? await Category.findByPk(idOrSlug)
+      : await Category.findOne({ where: { slug: toCategorySlug(idOrSlug) } });
+
+    // Subcategory slugs are prefixed with their parent's, so try the name
+    if (!category && !byId) {
+      const named = await Category.findAll({
+        where: where(fn('lower', col('name')), idOrSlug.trim().toLowerCase()),
+        limit: 2,
+      });
+      category = named.length === 1 ? named[0] : null;
+    }
+
+    if (!category) {
+      throw new NotFoundError('Category');
+    }
+
+    return category;
+  }
+
+  /**
+   * Get the IDs of a category and all its descendants, for browsing it
+   */
+  async getCategoryIdsWithin(categoryId: string): Promise<string[]> {
+    await this.findCategory(categoryId);
+    return this.findSubtreeIds(categoryId);
+  }
+
+  /**
+   * Get the whole taxonomy as a tree, each level ordered by name
+   */
+  async getCategoryTree(): Promise<CategoryTreeNode[]> {
+    const categories = await Category.findAll({ order: [['name', 'ASC']] });
+    const nodes = new Map<string, CategoryTreeNode>(
+      categories.map((category) => [category.id, { ...category.toJSON(), children: [] }])
+    );
+    const roots: CategoryTreeNode[] = [];
+
+    for (const node of nodes.values()) {
+      const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+      (parent ? parent.children : roots).push(node);
+    }
+
+    return roots;
+  }
+
+  /**
+   * Get a category by ID or slug, with the path down to it from the top of
+   * the taxonomy and its immediate subcategories
+   */
+  async getCategory(idOrSlug: string) {
+    const category = await this.resolveCategory(idOrSlug);
+    const ancestors: Array<{ id: string; name: string; slug: string }> = [];
+
+    let parentId = category.parentId;
+    while (parentId) {
+      const parent = await this.findCategory(parentId);
+      ancestors.unshift({ id: parent.id, name: parent.name, slug: parent.slug });
+      parentId = parent.parentId;
+    }
+
+    const children = await Category.findAll({
+      where: { parentId: category.id },
+      order: [['name', 'ASC']],
+    });
+
+    return {
+      ...category.toJSON(),
+      ancestors,
+      children: children.map((child) => child.toJSON()),
+    };
+  }
+
+  /**
+   * Create a category, at the top level or under a parent. The slug is
+   * derived from the name unless given.
+   */
+  async createCategory(categoryData: {
+    name: string;
+    slug?: string;
+    parentId?: string | null;
+    description?: string | null;
+  }) {
+    const transaction = await sequelize.transaction();
+    let category: CategoryInstance;
+
+    try {
+      const parent = categoryData.parentId
+        ? await this.findCategory(categoryData.parentId, transaction)
+        : null;
+      const slug = categoryData.slug || toCategorySlug(categoryData.name, parent);
+
+      await this.assertSlugFree(slug, transaction);
+
+      category = await Category.create(
+        {
+          name: categoryData.name,
+          slug,
+          parentId: parent?.id ?? null,
+          description: categoryData.description ?? null,
+        },
+        { transaction }
+      );
+
+      await this.eventPublisher.publishEvent({
+        type: 'category.created',
+        aggregateId: category.id,
+        payload: {
+          categoryId: category.id,
+          name: category.name,
+          slug: category.slug,
+          parentId: category.parentId,
+        },
+      }, transaction);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error creating category', { error });
+      throw error;
+    }
+
+    logger.info('Category created', { categoryId: category.id });
+
+    return category.toJSON();
+  }
+
+  /**
+   * Update a category. Moving it takes its subcategories and products along;
+   * renaming it renames it on its products too.
+   */
+  async updateCategory(
+    categoryId: string,
+    updates: Partial<{
+      name: string;
+      slug: string;
+      parentId: string | null;
+      description: string | null;
+    }>
+  ) {
+    const transaction = await sequelize.transaction();
+    let category: CategoryInstance;
+
+    try {
+      category = await this.findCategory(categoryId, transaction);
+
+      if (updates.parentId) {
+        const subtree = await this.findSubtreeIds(categoryId, transaction);
+
+        if (subtree.includes(updates.parentId)) {
+          throw new ValidationError('A category cannot be moved under itself or one of its subcategories');
+        }
+
+        await this.findCategory(updates.parentId, transaction);
+      }
+
+      if (updates.slug && updates.slug !== category.slug) {
+        await this.assertSlugFree(updates.slug, transaction);
+      }
+
+      await category.update(updates, { transaction });
+
+      if (updates.name) {
+        await Product.update({ category: updates.name }, { where: { categoryId }, transaction });
+      }
+
+      await this.eventPublisher.publishEvent({
+        type: 'category.updated',
+        aggregateId: categoryId,
+        payload: {
+          categoryId,
+          updates,
+        },
+      }, transaction);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error updating category', { error, categoryId });
+      throw error;
+    }
+
+    logger.info('Category updated', { categoryId });
+
+    return category.toJSON();
+  }
+
+  /**
+   * Delete a category. Only empty categories can go, so no product is left
+   * without one.
+   */
+  async deleteCategory(categoryId: string) {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const category = await this.findCategory(categoryId, transaction);
+
+      const subcategories = await Category.count({ where: { parentId: categoryId }, transaction });
+      if (subcategories > 0) {
+        throw new ConflictError('Category has subcategories; move or delete them first');
+      }
+
+      const products = await Product.count({ where: { categoryId }, transaction });
+      if (products > 0) {
+        throw new ConflictError('Category has products; move them to another category first');
+      }
+
+      await category.destroy({ transaction });
+
+      await this.eventPublisher.publishEvent({
+        type: 'category.deleted',
+        aggregateId: categoryId,
+        payload: {
+          categoryId,
+          slug: category.slug,
+        },
+      }, transaction);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error deleting category', { error, categoryId });
+      throw error;
+    }
+
+    logger.info('Category deleted', { categoryId });
+
+    return { message: 'Category deleted successfully' };
+  }
+}
@@ -0,0 +1,325 @@
+import { Op, Transaction } from 'sequelize';
+import sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import sequelize, { Product, ProductMedia } from '../config/database';
+import { ProductMedia as ProductMediaInstance } from '../models/ProductMedia.model';
+import {
+  NotFoundError,
+  ValidationError,
+  logger,
+} from '@cloudretail/middleware';
+import { EventPublisher } from '../events/event-publisher';
+import { ObjectStore, createObjectStore } from '../storage';
+
+// Image formats accepted for upload, with the content type and file
+// extension they are stored under
+const IMAGE_FORMATS: Record<string, { contentType: string; extension: string }> = {
+  jpeg: { contentType: 'image/jpeg', extension: 'jpg' },
+  png: { contentType: 'image/png', extension: 'png' },
+  webp: { contentType: 'image/webp', extension: 'webp' },
+  gif: { contentType: 'image/gif', extension: 'gif' },
+};
+
+export interface MediaView {
+  id: string;
+  url: string;
+  thumbnailUrl: string;
+  contentType: string;
+  width: number;
+  height: number;
+  size: number;
+  altText: string | null;
+  position: number;
+}
+
+/**
+ * Media Service
+ * Manages product images: validates uploads, makes thumbnails, keeps both
+ * in the object store and orders them on the product
+ */
+export class MediaService {
+  private eventPublisher: EventPublisher;
+  private store: ObjectStore;
+  private thumbnailSize: number;
+
+  constructor() {
+    this.eventPublisher = new EventPublisher();
+    this.store = createObjectStore();
+    this.thumbnailSize = parseInt(process.env.MEDIA_THUMBNAIL_SIZE || '320');
+  }
+
+  /**
+   * Find a product, locking it so its media can be renumbered safely
+   */
+  private async lockProduct(productId: string, transaction: Transaction): Promise<void> {
+    const product = await Product.findByPk(productId, { transaction, lock: transaction.LOCK.UPDATE });
+
+    if (!product) {
+      throw new NotFoundError('Product');
+    }
+  }
+
+  private toView(media: ProductMediaInstance): MediaView {
+    return {
+      id: media.id,
+      url: this.store.getUrl(media.storageKey),
+      thumbnailUrl: this.store.getUrl(media.thumbnailKey),
+      contentType: media.contentType,
+      width: media.width,
+      height: media.height,
+      size: media.size,
+      altText: media.altText,
+      position: media.position,
+    };
+  }
+
+  /**
+   * Check an upload is an image in an accepted format, and read its size.
+   * Images are measured upright, as EXIF orientation will show them.
+   */
+  private async inspectImage(image: Buffer) {
+    let metadata: sharp.Metadata;
+
+    try {
+      metadata = await sharp(image).metadata();
+    } catch {
+      throw new ValidationError('File is not a readable image');
+    }
+
+    const format = metadata.format ? IMAGE_FORMATS[metadata.format] : undefined;
+
+    if (!format || !metadata.width || !metadata.height) {
+      throw new ValidationError('Images must be JPEG, PNG, WebP or GIF');
+    }
+
+    const sideways = (metadata.orientation || 1) >= 5;
+
+    return {
+      ...format,
+      width: sideways ? metadata.height : metadata.width,
+      height: sideways ? metadata.width : metadata.height,
+    };
+  }
+
+  /**
+   * Make a WebP thumbnail that fits in a square, never enlarging the image
+   */
+  private async makeThumbnail(image: Buffer): Promise<Buffer> {
+    return sharp(image)
+      .rotate()
+      .resize(this.thumbnailSize, this.thumbnailSize, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer();
+  }
+
+  /**
+   * Remove objects from the store, logging rather than failing if they
+   * cannot be, as nothing refers to them any more
+   */
+  private async discardObjects(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      try {
+        await this.store.delete(key);
+      } catch (error) {
+        logger.error('Error deleting media object', { error, key });
+      }
+    }
+  }
+
+  /**
+   * Get the media of several products at once, keyed by product ID
+   */
+  async getMediaByProduct(productIds: string[]): Promise<Map<string, MediaView[]>> {
+    const mediaByProduct = new Map<string, MediaView[]>();
+
+    if (productIds.length === 0) {
+      return mediaByProduct;
+    }
+
+    const media = await ProductMedia.findAll({
+      where: { productId: productIds },
+      order: [['position', 'ASC']],
+    });
+
+    for (const item of media) {
+      const views = mediaByProduct.get(item.productId) || [];
+      views.push(this.toView(item));
+      mediaByProduct.set(item.productId, views);
+    }
+
+    return mediaByProduct;
+  }
+
+  /**
+   * Get a product's media in order
+   */
+  async getMedia(productId: string): Promise<MediaView[]> {
+    const product = await Product.findByPk(productId);
+
+    if (!product) {
+      throw new NotFoundError('Product');
+    }
+
+    const mediaByProduct = await this.getMediaByProduct([productId]);
+    return mediaByProduct.get(productId) || [];
+  }
+
+  /**
+   * Add an image to the end of a product's media
+   */
+  async addMedia(productId: string, image: Buffer, options: { altText?: string } = {}): Promise<MediaView> {
+    if (image.length === 0) {
+      throw new ValidationError('Image file is empty');
+    }
+
+    const format = await this.inspectImage(image);
+    const thumbnail = await this.makeThumbnail(image);
+
+    const mediaId = uuidv4();
+    const storageKey = `products/${productId}/${mediaId}.${format.extension}`;
+    const thumbnailKey = `products/${productId}/${mediaId}-thumb.webp`;
+
+    await this.store.put(storageKey, image, format.contentType);
+    await this.store.put(thumbnailKey, thumbnail, 'image/webp');
+
+    const transaction = await sequelize.transaction();
+    let media: ProductMediaInstance;
+
+    try {
+      await this.lockProduct(productId, transaction);
+
+      const position = await ProductMedia.count({ where: { productId }, transaction });
+
+      media = await ProductMedia.create(
+        {
+          id: mediaId,
+          productId,
+          storageKey,
+          thumbnailKey,
+          contentType: format.contentType,
+          size: image.length,
+          width: format.width,
+          height: format.height,
+          altText: options.altText ?? null,
+          position,
+        },
+        { transaction }
+      );
+
+      await this.eventPublisher.publishEvent({
+        type: 'product.media_added',
+        payload: {
+          productId,
+          mediaId,
+          url: this.store.getUrl(storageKey),
+          position,
+        },
+      }, transaction);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      await this.discardObjects([storageKey, thumbnailKey]);
+      logger.error('Error adding product media', { error, productId });
+      throw error;
+    }
+
+    logger.info('Product media added', { productId, mediaId });
+
+    return this.toView(media);
+  }
+
+  /**
+   * Put a product's media in a new order. Every item must be listed once;
+   * the first becomes the primary image.
+   */
+  async reorderMedia(productId: string, mediaIds: string[]): Promise<MediaView[]> {
+    const transaction = await sequelize.transaction();
+    let media: ProductMediaInstance[];
+
+    try {
+      await this.lockProduct(productId, transaction);
+
+      media = await ProductMedia.findAll({ where: { productId }, transaction });
+
+      const listed = new Set(mediaIds);
+      if (listed.size !== mediaIds.length || listed.size !== media.length || media.some((item) => !listed.has(item.id))) {
+        throw new ValidationError('List every media item of the product exactly once');
+      }
+
+      for (const item of media) {
+        const position = mediaIds.indexOf(item.id);
+
+        if (item.position !== position) {
+          await item.update({ position }, { transaction });
+        }
+      }
+
+      await this.eventPublisher.publishEvent({
+        type: 'product.media_reordered',
+        payload: {
+          productId,
+          mediaIds,
+        },
+      }, transaction);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error reordering product media', { error, productId });
+      throw error;
+    }
+
+    logger.info('Product media reordered', { productId });
+
+    return media
+      .sort((a, b) => a.position - b.position)
+      .map((item) => this.toView(item));
+  }
+
+  /**
+   * Remove an image from a product, closing the gap it leaves
+   */
+  async deleteMedia(productId: string, mediaId: string) {
+    const transaction = await sequelize.transaction();
+    let media: ProductMediaInstance | null;
+
+    try {
+      await this.lockProduct(productId, transaction);
+
+      media = await ProductMedia.findOne({ where: { id: mediaId, productId }, transaction });
+
+      if (!media) {
+        throw new NotFoundError('Product media');
+      }
+
+      await media.destroy({ transaction });
+      await ProductMedia.decrement('position', {
+        by: 1,
+        where: { productId, position: { [Op.gt]: media.position } },
+        transaction,
+      });
+
+      await this.eventPublisher.publishEvent({
+        type: 'product.media_removed',
+        payload: {
+          productId,
+          mediaId,
+        },
+      }, transaction);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error deleting product media', { error, productId, mediaId });
+      throw error;
+    }
+
+    // Files go once the database no longer refers to them
+    await this.discardObjects([media.storageKey, media.thumbnailKey]);
+
+    logger.info('Product media deleted', { productId, mediaId });
+
+    return { message: 'Product media deleted successfully' };
+  }
+}
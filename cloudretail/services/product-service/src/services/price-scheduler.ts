@@ -0,0 +1,34 @@
+import { logger } from '@cloudretail/middleware';
+import { PeriodicWorker } from '@cloudretail/outbox';
+import sequelize from '../config/database';
+import { PricingService } from './pricing.service';
+
+/**
+ * Price Scheduler
+ * Periodically puts scheduled price changes and sales into effect, so the
+ * stored price and product.price_changed events follow the schedule
+ */
+export class PriceScheduler extends PeriodicWorker {
+  private pricingService: PricingService;
+
+  constructor(options: { intervalMs?: number } = {}) {
+    super(sequelize, {
+      name: 'price-scheduler',
+      intervalMs: options.intervalMs || parseInt(process.env.PRICE_SCHEDULE_INTERVAL_MS || '60000'),
+    });
+    this.pricingService = new PricingService();
+  }
+
+  /**
+   * Apply every scheduled price change that has come due
+   */
+  protected async work(): Promise<number> {
+    const applied = await this.pricingService.applyDuePriceChanges();
+
+    if (applied > 0) {
+      logger.info(`Applied scheduled price changes for ${applied} product(s)`);
+    }
+
+    return applied;
+  }
+}
@@ -0,0 +1,453 @@
+import { Op, Transaction } from 'sequelize';
+import sequelize, { PriceHistory, Product, ProductPrice } from '../config/database';
+import { Product as ProductInstance } from '../models/Product.model';
+import {
+  ProductPrice as ProductPriceInstance,
+  ResolvedPrice,
+  resolvePrice,
+} from '../models/ProductPrice.model';
+import { PriceChangeReason } from '../models/PriceHistory.model';
+import {
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+  logger,
+  MAX_PAGE_SIZE,
+} from '@cloudretail/middleware';
+import { EventPublisher } from '../events/event-publisher';
+
+// Schedules that have yet to take effect or are in effect
+const OPEN_STATUSES = ['scheduled', 'active'];
+
+// When several changes take effect together, the one reported as the reason
+const REASON_PRIORITY: PriceChangeReason[] = ['sale_started', 'sale_ended', 'scheduled'];
+
+/**
+ * Pricing Service
+ * Schedules regular price changes and sales, resolves the price a product
+ * sells at, and keeps its price history
+ */
+export class PricingService {
+  private eventPublisher: EventPublisher;
+
+  constructor() {
+    this.eventPublisher = new EventPublisher();
+  }
+
+  /**
+   * Find a product, locking it so its price changes one at a time
+   */
+  private async lockProduct(productId: string, transaction: Transaction): Promise<ProductInstance> {
+    const product = await Product.findByPk(productId, { transaction, lock: transaction.LOCK.UPDATE });
+
+    if (!product) {
+      throw new NotFoundError('Product');
+    }
+
+    return product;
+  }
+
+  /**
+   * The price last put into effect: the list price, or the sale marked
+   * active. Due changes not yet applied do not count.
+   */
+  private appliedPrice(product: ProductInstance, schedules: ProductPriceInstance[]) {
+    const sale = schedules.find((schedule) => schedule.type === 'sale' && schedule.status === 'active');
+
+    return {
+      price: Number(sale ? sale.price : product.price),
+      compareAtPrice: sale ? Number(sale.compareAtPrice ?? product.price) : null,
+    };
+  }
+
+  /**
+   * Bring a product's price up to date: apply regular changes that are due,
+   * start and end sales, and record and announce any change to the price it
+   * sells at. A list price set by hand is applied on top, superseding due
+   * regular changes.
+   *
+   * Call within the transaction changing the product.
+   */
+  async settlePrice(
+    product: ProductInstance,
+    transaction: Transaction,
+    options: { listPrice?: number; reason?: 'created'; at?: Date } = {}
+  ): Promise<ResolvedPrice> {
+    const at = options.at || new Date();
+    const schedules = await ProductPrice.findAll({
+      where: { productId: product.id, status: OPEN_STATUSES },
+      order: [['startsAt', 'ASC']],
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+
+    const previous = options.reason === 'created' ? null : this.appliedPrice(product, schedules);
+    const listPrice = options.listPrice ?? resolvePrice(product.price, schedules, at).price;
+    const changes: Array<{ reason: PriceChangeReason; schedule: ProductPriceInstance; effectiveAt: Date }> = [];
+
+    for (const schedule of schedules) {
+      if (schedule.startsAt > at) continue;
+
+      if (schedule.type === 'regular') {
+        await schedule.update({ status: 'applied' }, { transaction });
+        changes.push({ reason: 'scheduled', schedule, effectiveAt: schedule.startsAt });
+      } else if (schedule.endsAt! <= at) {
+        await schedule.update({ status: 'ended' }, { transaction });
+        changes.push({ reason: 'sale_ended', schedule, effectiveAt: schedule.endsAt! });
+      } else if (schedule.status === 'scheduled') {
+        await schedule.update({ status: 'active' }, { transaction });
+        changes.push({ reason: 'sale_started', schedule, effectiveAt: schedule.startsAt });
+      }
+    }
+
+    if (listPrice !== Number(product.price)) {
+      await product.update({ price: listPrice }, { transaction });
+    }
+
+    const resolved = resolvePrice(listPrice, schedules, at);
+
+    if (
+      previous
+      && previous.price === resolved.effectivePrice
+      && previous.compareAtPrice === resolved.compareAtPrice
+    ) {
+      return resolved;
+    }
+
+    const cause = REASON_PRIORITY
+      .map((reason) => changes.filter((change) => change.reason === reason).pop())
+      .find((change) => change);
+    const reason: PriceChangeReason = options.reason
+      || (options.listPrice !== undefined ? 'manual' : cause?.reason || 'scheduled');
+    const fromSchedule = reason === cause?.reason ? cause : undefined;
+
+    const entry = await PriceHistory.create(
+      {
+        productId: product.id,
+        previousPrice: previous ? previous.price : null,
+        price: resolved.effectivePrice,
+        regularPrice: resolved.price,
+        compareAtPrice: resolved.compareAtPrice,
+        reason,
+        scheduleId: fromSchedule ? fromSchedule.schedule.id : null,
+        effectiveAt: fromSchedule ? fromSchedule.effectiveAt : at,
+      },
+      { transaction }
+    );
+
+    // product.created already carries a new product's price
+    if (reason === 'created') {
+      return resolved;
+    }
+
+    await this.eventPublisher.publishEvent({
+      type: 'product.price_changed',
+      payload: {
+        productId: product.id,
+        previousPrice: entry.previousPrice,
+        price: entry.price,
+        regularPrice: entry.regularPrice,
+        compareAtPrice: entry.compareAtPrice,
+        reason,
+        scheduleId: entry.scheduleId,
+        effectiveAt: entry.effectiveAt,
+      },
+    }, transaction);
+
+    return resolved;
+  }
+
+  /**
+   * Resolve the prices of several products at once, keyed by product ID
+   */
+  async resolvePrices(products: ProductInstance[]): Promise<Map<string, ResolvedPrice>> {
+    const prices = new Map<string, ResolvedPrice>();
+
+    if (products.length === 0) {
+      return prices;
+    }
+
+    const at = new Date();
+    const schedules = await ProductPrice.findAll({
+      where: {
+        productId: products.map((product) => product.id),
+        status: OPEN_STATUSES,
+        startsAt: { [Op.lte]: at },
+      },
+    });
+
+    for (const product of products) {
+      const own = schedules.filter((schedule) => schedule.productId === product.id);
+      prices.set(product.id, resolvePrice(product.price, own, at));
+    }
+
+    return prices;
+  }
+
+  /**
+   * Get a product's current price and the changes scheduled for it
+   */
+  async getPriceSchedule(productId: string) {
+    const product = await Product.findByPk(productId);
+
+    if (!product) {
+      throw new NotFoundError('Product');
+    }
+
+    const schedules = await ProductPrice.findAll({
+      where: { productId, status: OPEN_STATUSES },
+      order: [['startsAt', 'ASC']],
+    });
+
+    return {
+      productId,
+      ...resolvePrice(product.price, schedules),
+      schedule: schedules.map((schedule) => schedule.toJSON()),
+    };
+  }
+
+  /**
+   * Schedule a new regular price from a future date
+   */
+  async schedulePriceChange(productId: string, change: { price: number; startsAt: Date }) {
+    if (change.startsAt <= new Date()) {
+      throw new ValidationError('Scheduled prices must start in the future; set the price on the product to change it now');
+    }
+
+    const transaction = await sequelize.transaction();
+    let schedule: ProductPriceInstance;
+
+    try {
+      await this.lockProduct(productId, transaction);
+
+      schedule = await ProductPrice.create(
+        {
+          productId,
+          type: 'regular',
+          price: change.price,
+          startsAt: change.startsAt,
+        },
+        { transaction }
+      );
+
+      await this.eventPublisher.publishEvent({
+        type: 'product.price_scheduled',
+        payload: {
+          productId,
+          scheduleId: schedule.id,
+          type: schedule.type,
+          price: schedule.price,
+          startsAt: schedule.startsAt,
+        },
+      }, transaction);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error scheduling price change', { error, productId });
+      throw error;
+    }
+
+    logger.info('Price change scheduled', { productId, scheduleId: schedule.id });
+
+    return schedule.toJSON();
+  }
+
+  /**
+   * Put a product on sale for a period, starting now unless a start is
+   * given. The sale price must be below the compare-at price, which is the
+   * regular price at the start of the sale unless given.
+   */
+  async scheduleSale(
+    productId: string,
+    sale: { price: number; compareAtPrice?: number; startsAt?: Date; endsAt: Date }
+  ) {
+    const now = new Date();
+    const startsAt = sale.startsAt || now;
+
+    if (sale.endsAt <= startsAt) {
+      throw new ValidationError('A sale must end after it starts');
+    }
+
+    if (sale.endsAt <= now) {
+      throw new ValidationError('A sale must end in the future');
+    }
+
+    const transaction = await sequelize.transaction();
+    let schedule: ProductPriceInstance;
+
+    try {
+      const product = await this.lockProduct(productId, transaction);
+      const schedules = await ProductPrice.findAll({
+        where: { productId, status: OPEN_STATUSES },
+        transaction,
+      });
+
+      const overlapping = schedules.some((other) =>
+        other.type === 'sale' && other.startsAt < sale.endsAt && other.endsAt! > startsAt
+      );
+      if (overlapping) {
+        throw new ConflictError('Sale overlaps another sale of the product');
+      }
+
+      const compareAtPrice = sale.compareAtPrice ?? resolvePrice(product.price, schedules, startsAt).price;
+      if (sale.price >= compareAtPrice) {
+        throw new ValidationError('Sale price must be below the compare-at price');
+      }
+
+      schedule = await ProductPrice.create(
+        {
+          productId,
+          type: 'sale',
+          price: sale.price,
+          compareAtPrice: sale.compareAtPrice ?? null,
+          startsAt,
+          endsAt: sale.endsAt,
+        },
+        { transaction }
+      );
+
+      await this.eventPublisher.publishEvent({
+        type: 'product.price_scheduled',
+        payload: {
+          productId,
+          scheduleId: schedule.id,
+          type: schedule.type,
+          price: schedule.price,
+          compareAtPrice: schedule.compareAtPrice,
+          startsAt: schedule.startsAt,
+          endsAt: schedule.endsAt,
+        },
+      }, transaction);
+
+      // A sale starting now takes effect straight away
+      if (startsAt <= now) {
+        await this.settlePrice(product, transaction, { at: now });
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error scheduling sale', { error, productId });
+      throw error;
+    }
+
+    logger.info('Sale scheduled', { productId, scheduleId: schedule.id });
+
+    return schedule.toJSON();
+  }
+
+  /**
+   * Cancel a scheduled price change or sale. A sale already running ends
+   * now.
+   */
+  async cancelPriceSchedule(productId: string, scheduleId: string) {
+    const now = new Date();
+    const transaction = await sequelize.transaction();
+    let schedule: ProductPriceInstance | null;
+
+    try {
+      const product = await this.lockProduct(productId, transaction);
+
+      // Changes that are due count as taken effect
+      await this.settlePrice(product, transaction, { at: now });
+
+      schedule = await ProductPrice.findOne({ where: { id: scheduleId, productId }, transaction });
+
+      if (!schedule) {
+        throw new NotFoundError('Price schedule');
+      }
+
+      if (schedule.status === 'active') {
+        await schedule.update({ endsAt: now }, { transaction });
+        await this.settlePrice(product, transaction, { at: now });
+      } else if (schedule.status === 'scheduled') {
+        await schedule.update({ status: 'cancelled' }, { transaction });
+      } else {
+        throw new ConflictError(`Price schedule is already ${schedule.status}`);
+      }
+
+      await this.eventPublisher.publishEvent({
+        type: 'product.price_schedule_cancelled',
+        payload: {
+          productId,
+          scheduleId,
+          type: schedule.type,
+        },
+      }, transaction);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error cancelling price schedule', { error, productId, scheduleId });
+      throw error;
+    }
+
+    logger.info('Price schedule cancelled', { productId, scheduleId });
+
+    return schedule.toJSON();
+  }
+
+  /**
+   * Get the changes to a product's price, most recent first
+   */
+  async getPriceHistory(productId: string, limit: number = 50, offset: number = 0) {
+    const product = await Product.findByPk(productId);
+
+    if (!product) {
+      throw new NotFoundError('Product');
+    }
+
+    const pageSize = Math.min(limit, MAX_PAGE_SIZE);
+    const history = await PriceHistory.findAndCountAll({
+      where: { productId },
+      order: [['effectiveAt', 'DESC'], ['createdAt', 'DESC']],
+      limit: pageSize,
+      offset,
+    });
+
+    return {
+      history: history.rows,
+      total: history.count,
+      limit: pageSize,
+      offset,
+    };
+  }
+
+  /**
+   * Apply the scheduled changes that have come due, product by product.
+   * Returns the number of products brought up to date.
+   */
+  async applyDuePriceChanges(limit: number = 100): Promise<number> {
+    const now = new Date();
+    const due = await ProductPrice.findAll({
+      where: {
+        [Op.or]: [
+          { status: 'scheduled', startsAt: { [Op.lte]: now } },
+          { status: 'active', endsAt: { [Op.lte]: now } },
+        ],
+      },
+      order: [['startsAt', 'ASC']],
+      limit,
+    });
+
+    const productIds = Array.from(new Set(due.map((schedule) => schedule.productId)));
+    let applied = 0;
+
+    for (const productId of productIds) {
+      const transaction = await sequelize.transaction();
+
+      try {
+        const product = await this.lockProduct(productId, transaction);
+        await this.settlePrice(product, transaction, { at: now });
+        await transaction.commit();
+        applied++;
+      } catch (error) {
+        await transaction.rollback();
+        logger.error('Error applying scheduled price changes', { error, productId });
+      }
+    }
+
+    return applied;
+  }
+}
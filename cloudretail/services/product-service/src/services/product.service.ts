@@ -1,18 +1,101 @@
-import { Product } from '../config/database';
+import sequelize, { Product, ProductVariant } from '../config/database';
+import {
+  Product as ProductInstance,
+  ProductOption,
+  PRODUCT_SEARCH_DOCUMENT,
+} from '../models/Product.model';
 import {
   NotFoundError,
   ConflictError,
   ValidationError,
   logger,
+  MAX_PAGE_SIZE,
+  PageParams,
+  PaginationConfig,
+  parsePageParams,
+  pageQuery,
+  pageResult,
 } from '@cloudretail/middleware';
 import { EventPublisher } from '../events/event-publisher';
-import { Op } from 'sequelize';
+import { VariantService } from './variant.service';
+import { CategoryService } from './category.service';
+import { MediaService } from './media.service';
+import { PricingService } from './pricing.service';
+import { Op, WhereOptions, col, fn, literal } from 'sequelize';
+
+// Sorts offered by product lists
+export const PRODUCT_PAGINATION: PaginationConfig = {
+  sortFields: ['createdAt', 'updatedAt', 'name', 'price', 'ratingCount'],
+};
+
+export interface ProductSearchFilters {
+  // Matches products in the category or any of its subcategories
+  categoryId?: string;
+  // The same, given by ID, slug or name
+  category?: string;
+  vendorId?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  isActive?: boolean;
+  searchTerm?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface SearchFacets {
+  categories: Array<{ value: string; name: string; count: number }>;
+  vendors: Array<{ value: string; count: number }>;
+  priceRanges: Array<{ min: number; max: number | null; count: number }>;
+}
+
+// Price ranges counted in search facets; max is exclusive
+const PRICE_BUCKETS: Array<{ min: number; max: number | null }> = [
+  { min: 0, max: 25 },
+  { min: 25, max: 50 },
+  { min: 50, max: 100 },
+  { min: 100, max: 250 },
+  { min: 250, max: 500 },
+  { min: 500, max: null },
+];
 
 export class ProductService {
   private eventPublisher: EventPublisher;
+  private variantService: VariantService;
+  private categoryService: CategoryService;
+  private mediaService: MediaService;
+  private pricingService: PricingService;
 
   constructor() {
     this.eventPublisher = new EventPublisher();
+    this.variantService = new VariantService();
+    this.categoryService = new CategoryService();
+    this.mediaService = new MediaService();
+    this.pricingService = new PricingService();
+  }
+
+  /**
+   * Products as returned to clients, each with its price resolved for any
+   * scheduled change or sale, its variants and its media. The first image
+   * is the product's primary image.
+   */
+  private async toViews(products: ProductInstance[]) {
+    const [prices, mediaByProduct] = await Promise.all([
+      this.pricingService.resolvePrices(products),
+      this.mediaService.getMediaByProduct(products.map((product) => product.id)),
+    ]);
+    const variantsByProduct = await this.variantService.getVariantsByProduct(products, prices);
+
+    return products.map((product) => {
+      const media = mediaByProduct.get(product.id) || [];
+
+      return {
+        ...product.toJSON(),
+        ...prices.get(product.id)!,
+        variants: variantsByProduct.get(product.id) || [],
+        media,
+        primaryImageUrl: media[0]?.url ?? null,
+      };
+    });
   }
 
   /**
@@ -22,14 +105,16 @@ export class ProductService {
     name: string;
     description: string;
     price: number;
-    category: string;
+    categoryId: string;
     sku: string;
     vendorId: string;
+    options?: ProductOption[];
   }) {
     try {
-      // Check if SKU already exists
+      // Check if SKU already exists, on a product or a variant
       const existingProduct = await Product.findOne({ where: { sku: productData.sku } });
-      if (existingProduct) {
+      const existingVariant = await ProductVariant.findOne({ where: { sku: productData.sku } });
+      if (existingProduct || existingVariant) {
         throw new ConflictError('Product with this SKU already exists');
       }
 
@@ -38,21 +123,40 @@ export class ProductService {
         throw new ValidationError('Price must be a positive number');
       }
 
-      // Create product
-      const product = await Product.create(productData);
+      const category = await this.categoryService.resolveCategory(productData.categoryId);
 
-      // Publish product created event
-      await this.eventPublisher.publishEvent({
-        type: 'product.created',
-        payload: {
-          productId: product.id,
-          name: product.name,
-          price: product.price,
-          category: product.category,
-          sku: product.sku,
-          vendorId: product.vendorId,
-        },
-      });
+      // Create product
+      const transaction = await sequelize.transaction();
+      let product: ProductInstance;
+
+      try {
+        product = await Product.create(
+          { ...productData, categoryId: category.id, category: category.name },
+          { transaction }
+        );
+
+        // Publish product created event
+        await this.eventPublisher.publishEvent({
+          type: 'product.created',
+          payload: {
+            productId: product.id,
+            name: product.name,
+            price: product.price,
+            categoryId: product.categoryId,
+            category: product.category,
+            sku: product.sku,
+            vendorId: product.vendorId,
+          },
+        }, transaction);
+
+        // Start the product's price history
+        await this.pricingService.settlePrice(product, transaction, { reason: 'created' });
+
+        await transaction.commit();
+      } catch (error) {
+        await transaction.rollback();
+        throw error;
+      }
 
       logger.info('Product created successfully', { productId: product.id });
 
@@ -73,20 +177,47 @@ export class ProductService {
       throw new NotFoundError('Product');
     }
 
-    return product.toJSON();
+    const [view] = await this.toViews([product]);
+    return view;
+  }
+
+  /**
+   * Get the vendor that owns a product
+   */
+  async getProductOwner(productId: string): Promise<string> {
+    const product = await Product.findByPk(productId, { attributes: ['id', 'vendorId'] });
+
+    if (!product) {
+      throw new NotFoundError('Product');
+    }
+
+    return product.vendorId;
   }
 
   /**
-   * Get product by SKU
+   * Get product by SKU. A variant's SKU finds its product, with the
+   * matching variant as `variant`.
    */
   async getProductBySku(sku: string) {
     const product = await Product.findOne({ where: { sku } });
 
-    if (!product) {
+    if (product) {
+      const [view] = await this.toViews([product]);
+      return view;
+    }
+
+    const variant = await ProductVariant.findOne({ where: { sku } });
+    const parent = variant ? await Product.findByPk(variant.productId) : null;
+
+    if (!variant || !parent) {
       throw new NotFoundError('Product');
     }
 
-    return product.toJSON();
+    const [view] = await this.toViews([parent]);
+    return {
+      ...view,
+      variant: view.variants.find((candidate) => candidate.id === variant.id),
+    };
   }
 
   /**
@@ -98,7 +229,8 @@ export class ProductService {
       name: string;
       description: string;
       price: number;
-      category: string;
+      categoryId: string;
+      options: ProductOption[];
       isActive: boolean;
     }>
   ) {
@@ -113,20 +245,49 @@ export class ProductService {
       throw new ValidationError('Price must be a positive number');
     }
 
-    await product.update(updates);
+    if (updates.options) {
+      await this.variantService.assertVariantsFit(productId, updates.options);
+    }
 
-    // Publish product updated event
-    await this.eventPublisher.publishEvent({
-      type: 'product.updated',
-      payload: {
-        productId: product.id,
-        updates,
-      },
-    });
+    const category = updates.categoryId
+      ? await this.categoryService.resolveCategory(updates.categoryId)
+      : null;
+
+    const { price, ...changes } = updates;
+    const transaction = await sequelize.transaction();
+
+    try {
+      await product.update(
+        category ? { ...changes, categoryId: category.id, category: category.name } : changes,
+        { transaction }
+      );
+
+      // A new price is recorded in the price history and supersedes
+      // scheduled changes that are already due
+      if (price !== undefined) {
+        await this.pricingService.settlePrice(product, transaction, { listPrice: price });
+      }
+
+      // Publish product updated event
+      await this.eventPublisher.publishEvent({
+        type: 'product.updated',
+        payload: {
+          productId: product.id,
+          updates,
+        },
+      }, transaction);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error updating product', { error, productId });
+      throw error;
+    }
 
     logger.info('Product updated successfully', { productId });
 
-    return product.toJSON();
+    const [view] = await this.toViews([product]);
+    return view;
   }
 
   /**
@@ -139,16 +300,26 @@ export class ProductService {
       throw new NotFoundError('Product');
     }
 
-    await product.update({ isActive: false });
+    const transaction = await sequelize.transaction();
 
-    // Publish product deleted event
-    await this.eventPublisher.publishEvent({
-      type: 'product.deleted',
-      payload: {
-        productId,
-        sku: product.sku,
-      },
-    });
+    try {
+      await product.update({ isActive: false }, { transaction });
+
+      // Publish product deleted event
+      await this.eventPublisher.publishEvent({
+        type: 'product.deleted',
+        payload: {
+          productId,
+          sku: product.sku,
+        },
+      }, transaction);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error deleting product', { error, productId });
+      throw error;
+    }
 
     logger.info('Product deleted successfully', { productId });
 
@@ -156,33 +327,30 @@ export class ProductService {
   }
 
   /**
-   * Search and filter products
+   * Build the conditions of a search. A facet is counted without its own
+   * filter, so it shows how many products choosing another value would give.
    */
-  async searchProducts(filters?: {
-    category?: string;
-    vendorId?: string;
-    minPrice?: number;
-    maxPrice?: number;
-    isActive?: boolean;
-    searchTerm?: string;
-    limit?: number;
-    offset?: number;
-  }) {
+  private buildSearchWhere(
+    filters: ProductSearchFilters & { categoryIds?: string[] },
+    except?: 'category' | 'vendorId' | 'price'
+  ): WhereOptions {
     const where: any = {};
 
-    if (filters?.category) {
-      where.category = filters.category;
+    if (filters.categoryIds && except !== 'category') {
+      where.categoryId = filters.categoryIds;
     }
 
-    if (filters?.vendorId) {
+    if (filters.vendorId && except !== 'vendorId') {
       where.vendorId = filters.vendorId;
     }
 
-    if (filters?.isActive !== undefined) {
+    if (filters.isActive !== undefined) {
       where.isActive = filters.isActive;
     }
 
-    if (filters?.minPrice !== undefined || filters?.maxPrice !== undefined) {
+    // Filtered on the stored list price; sale prices are resolved on the
+    // products found
+    if ((filters.minPrice !== undefined || filters.maxPrice !== undefined) && except !== 'price') {
       where.price = {};
       if (filters.minPrice !== undefined) {
         where.price[Op.gte] = filters.minPrice;
@@ -192,83 +360,183 @@ export class ProductService {
       }
     }
 
-    if (filters?.searchTerm) {
-      where[Op.or] = [
-        { name: { [Op.iLike]: `%${filters.searchTerm}%` } },
-        { description: { [Op.iLike]: `%${filters.searchTerm}%` } },
-        { sku: { [Op.iLike]: `%${filters.searchTerm}%` } },
+    if (filters.searchTerm) {
+      const term = sequelize.escape(filters.searchTerm);
+      const skuPrefix = sequelize.escape(`${filters.searchTerm.replace(/[\\%_]/g, '\\$&')}%`);
+
+      // Words match on their stems; a misspelt name still matches on
+      // trigrams, and a partial SKU on its prefix
+      where[Op.and] = [
+        literal(
+          `((${PRODUCT_SEARCH_DOCUMENT}) @@ websearch_to_tsquery('english', ${term}) OR ${term} <% name OR sku ILIKE ${skuPrefix})`
+        ),
       ];
     }
 
-    const products = await Product.findAndCountAll({
-      where,
-      limit: filters?.limit || 100,
-      offset: filters?.offset || 0,
-      order: [['createdAt', 'DESC']],
-    });
+    return where;
+  }
+
+  /**
+   * Get the IDs of the categories a search is limited to, if any
+   */
+  private async resolveSearchCategories(filters: ProductSearchFilters): Promise<string[] | undefined> {
+    if (filters.categoryId) {
+      return this.categoryService.getCategoryIdsWithin(filters.categoryId);
+    }
+
+    if (!filters.category) {
+      return undefined;
+    }
+
+    // Searches by category name predate the taxonomy; an unknown one
+    // matches no products rather than failing the search
+    try {
+      const category = await this.categoryService.resolveCategory(filters.category);
+      return await this.categoryService.getCategoryIdsWithin(category.id);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Count the products in each category, vendor and price range
+   */
+  private async getSearchFacets(
+    filters: ProductSearchFilters & { categoryIds?: string[] }
+  ): Promise<SearchFacets> {
+    const [categories, vendors, prices] = await Promise.all([
+      Product.findAll({
+        attributes: ['categoryId', 'category', [fn('COUNT', col('id')), 'count']],
+        where: this.buildSearchWhere(filters, 'category'),
+        group: ['categoryId', 'category'],
+        order: [[literal('"count"'), 'DESC'], ['category', 'ASC']],
+        raw: true,
+      }) as unknown as Promise<Array<{ categoryId: string; category: string; count: string | number }>>,
+      Product.findAll({
+        attributes: ['vendorId', [fn('COUNT', col('id')), 'count']],
+        where: this.buildSearchWhere(filters, 'vendorId'),
+        group: ['vendorId'],
+        order: [[literal('"count"'), 'DESC'], ['vendorId', 'ASC']],
+        raw: true,
+      }) as unknown as Promise<Array<{ vendorId: string; count: string | number }>>,
+      Product.findAll({
+        attributes: PRICE_BUCKETS.map(({ min, max }, index) => [
+          literal(`COUNT(*) FILTER (WHERE price >= ${min}${max === null ? '' : ` AND price < ${max}`})`),
+          `bucket${index}`,
+        ]),
+        where: this.buildSearchWhere(filters, 'price'),
+        raw: true,
+      }) as unknown as Promise<Array<Record<string, string | number>>>,
+    ]);
 
     return {
-      products: products.rows.map((p) => p.toJSON()),
-      total: products.count,
-      limit: filters?.limit || 100,
-      offset: filters?.offset || 0,
+      categories: categories.map((row) => ({
+        value: row.categoryId,
+        name: row.category,
+        count: Number(row.count),
+      })),
+      vendors: vendors.map((row) => ({ value: row.vendorId, count: Number(row.count) })),
+      priceRanges: PRICE_BUCKETS.map((bucket, index) => ({
+        ...bucket,
+        count: Number(prices[0]?.[`bucket${index}`] || 0),
+      })),
     };
   }
 
   /**
-   * Get all products (with pagination)
+   * Search and filter products. With a search term, products are ranked by
+   * relevance, then by how closely their name matches; otherwise newest first.
+   * Facet counts for category, vendor and price range are returned alongside.
    */
-  async getAllProducts(limit: number = 100, offset: number = 0) {
-    const products = await Product.findAndCountAll({
-      where: { isActive: true },
-      limit,
-      offset,
-      order: [['createdAt', 'DESC']],
-    });
+  async searchProducts(filters: ProductSearchFilters = {}) {
+    const limit = Math.min(filters.limit || MAX_PAGE_SIZE, MAX_PAGE_SIZE);
+    const offset = filters.offset || 0;
+    const resolved = {
+      ...filters,
+      categoryIds: await this.resolveSearchCategories(filters),
+    };
+
+    const order: any[] = [['createdAt', 'DESC']];
+
+    if (filters.searchTerm) {
+      const term = sequelize.escape(filters.searchTerm);
+
+      order.unshift([
+        literal(
+          `ts_rank_cd(${PRODUCT_SEARCH_DOCUMENT}, websearch_to_tsquery('english', ${term})) + word_similarity(${term}, name)`
+        ),
+        'DESC',
+      ]);
+    }
+
+    const [products, facets] = await Promise.all([
+      Product.findAndCountAll({
+        where: this.buildSearchWhere(resolved),
+        limit,
+        offset,
+        order,
+      }),
+      this.getSearchFacets(resolved),
+    ]);
 
     return {
-      products: products.rows.map((p) => p.toJSON()),
+      products: await this.toViews(products.rows),
       total: products.count,
       limit,
       offset,
+      facets,
     };
   }
 
   /**
-   * Get products by vendor
+   * Get a page of active products
    */
-  async getProductsByVendor(vendorId: string, limit: number = 100, offset: number = 0) {
-    const products = await Product.findAndCountAll({
-      where: { vendorId, isActive: true },
-      limit,
-      offset,
-      order: [['createdAt', 'DESC']],
-    });
+  async getAllProducts(params: PageParams = {}) {
+    const page = parsePageParams(params, PRODUCT_PAGINATION);
+    const products = await Product.findAll(pageQuery(page, { isActive: true }));
+    const { rows, pagination } = pageResult(products, page);
 
     return {
-      products: products.rows.map((p) => p.toJSON()),
-      total: products.count,
-      limit,
-      offset,
+      products: await this.toViews(rows),
+      pagination,
     };
   }
 
   /**
-   * Get products by category
+   * Get a page of a vendor's active products
    */
-  async getProductsByCategory(category: string, limit: number = 100, offset: number = 0) {
-    const products = await Product.findAndCountAll({
-      where: { category, isActive: true },
-      limit,
-      offset,
-      order: [['createdAt', 'DESC']],
-    });
+  async getProductsByVendor(vendorId: string, params: PageParams = {}) {
+    const page = parsePageParams(params, PRODUCT_PAGINATION);
+    const products = await Product.findAll(pageQuery(page, { vendorId, isActive: true }));
+    const { rows, pagination } = pageResult(products, page);
 
     return {
-      products: products.rows.map((p) => p.toJSON()),
-      total: products.count,
-      limit,
-      offset,
+      products: await this.toViews(rows),
+      pagination,
+    };
+  }
+
+  /**
+   * Get products in a category, given by ID or slug, or any of its
+   * subcategories
+   */
+  async getProductsByCategory(idOrSlug: string, params: PageParams = {}) {
+    const page = parsePageParams(params, PRODUCT_PAGINATION);
+    const category = await this.categoryService.resolveCategory(idOrSlug);
+    const categoryIds = await this.categoryService.getCategoryIdsWithin(category.id);
+
+    const products = await Product.findAll(
+      pageQuery(page, { categoryId: categoryIds, isActive: true })
+    );
+    const { rows, pagination } = pageResult(products, page);
+
+    return {
+      category: { id: category.id, name: category.name, slug: category.slug },
+      products: await this.toViews(rows),
+      pagination,
     };
   }
 }
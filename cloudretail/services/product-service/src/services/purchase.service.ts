@@ -0,0 +1,40 @@
+import { ServiceUnavailableError, logger } from '@cloudretail/middleware';
+
+/**
+ * Purchase Service
+ * Asks the order service whether a customer has received a product, so
+ * only verified buyers can review it
+ */
+export class PurchaseService {
+  private orderServiceUrl: string;
+
+  constructor() {
+    this.orderServiceUrl = process.env.ORDER_SERVICE_URL || 'http://localhost:3003';
+  }
+
+  /**
+   * Get the customer's delivered order containing a product, or null if
+   * they have not received it. The customer's own token is passed on, so
+   * the order service only looks at their orders.
+   */
+  async getDeliveredOrder(productId: string, authorization: string): Promise<string | null> {
+    let response: Response;
+    try {
+      response = await fetch(
+        `${this.orderServiceUrl}/api/orders/purchases/${encodeURIComponent(productId)}`,
+        { headers: { Authorization: authorization } }
+      );
+    } catch (error) {
+      logger.error('Error looking up purchase', { productId, error });
+      throw new ServiceUnavailableError('Order service is unavailable');
+    }
+
+    if (!response.ok) {
+      logger.error('Order service rejected purchase lookup', { productId, status: response.status });
+      throw new ServiceUnavailableError('Order service is unavailable');
+    }
+
+    const result: any = await response.json();
+    return result.data.purchased ? result.data.orderId : null;
+  }
+}
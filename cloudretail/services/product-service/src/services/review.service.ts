@@ -0,0 +1,356 @@
+import { Transaction, col, fn } from 'sequelize';
+import sequelize, { Product, ProductReview, ReviewVote } from '../config/database';
+import { ProductReview as ProductReviewInstance, ReviewStatus } from '../models/ProductReview.model';
+import {
+  NotFoundError,
+  ConflictError,
+  ForbiddenError,
+  logger,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+} from '@cloudretail/middleware';
+import { PurchaseService } from './purchase.service';
+
+export type ReviewSort = 'recent' | 'helpful' | 'rating_high' | 'rating_low';
+
+const REVIEW_ORDER: Record<ReviewSort, Array<[string, string]>> = {
+  recent: [['createdAt', 'DESC']],
+  helpful: [['helpfulCount', 'DESC'], ['createdAt', 'DESC']],
+  rating_high: [['rating', 'DESC'], ['createdAt', 'DESC']],
+  rating_low: [['rating', 'ASC'], ['createdAt', 'DESC']],
+};
+
+/**
+ * Review Service
+ * Reviews and star ratings from customers who have received a product,
+ * moderated by admins. Only approved reviews are shown and counted in the
+ * rating stored on the product.
+ */
+export class ReviewService {
+  private purchaseService: PurchaseService;
+
+  constructor() {
+    this.purchaseService = new PurchaseService();
+  }
+
+  private async findReview(reviewId: string, transaction?: Transaction): Promise<ProductReviewInstance> {
+    const review = await ProductReview.findByPk(reviewId, {
+      transaction,
+      lock: transaction ? transaction.LOCK.UPDATE : undefined,
+    });
+
+    if (!review) {
+      throw new NotFoundError('Review');
+    }
+
+    return review;
+  }
+
+  /**
+   * Recalculate a product's average rating and review count from its
+   * approved reviews
+   */
+  private async refreshRating(productId: string, transaction: Transaction): Promise<void> {
+    const product = await Product.findByPk(productId, { transaction, lock: transaction.LOCK.UPDATE });
+
+    if (!product) {
+      throw new NotFoundError('Product');
+    }
+
+    const summary = await ProductReview.findOne({
+      attributes: [
+        [fn('AVG', col('rating')), 'average'],
+        [fn('COUNT', col('id')), 'count'],
+      ],
+      where: { productId, status: 'approved' },
+      raw: true,
+      transaction,
+    }) as unknown as { average: string | null; count: string | number } | null;
+
+    const count = Number(summary?.count || 0);
+    const average = count > 0 ? Math.round(Number(summary!.average) * 100) / 100 : null;
+
+    await product.update({ ratingAverage: average, ratingCount: count }, { transaction });
+  }
+
+  /**
+   * Get the customer who wrote a review
+   */
+  async getReviewAuthor(reviewId: string): Promise<string> {
+    const review = await this.findReview(reviewId);
+    return review.userId;
+  }
+
+  /**
+   * Get the approved reviews of a product
+   */
+  async getReviews(
+    productId: string,
+    options: { sort?: ReviewSort; rating?: number; limit?: number; offset?: number } = {}
+  ) {
+    const product = await Product.findByPk(productId);
+
+    if (!product) {
+      throw new NotFoundError('Product');
+    }
+
+    const limit = Math.min(options.limit || 20, MAX_PAGE_SIZE);
+    const offset = options.offset || 0;
+    const where: any = { productId, status: 'approved' };
+    if (options.rating) {
+      where.rating = options.rating;
+    }
+
+    const reviews = await ProductReview.findAndCountAll({
+      where,
+      order: REVIEW_ORDER[options.sort || 'recent'],
+      limit,
+      offset,
+    });
+
+    return {
+      ratingAverage: product.ratingAverage,
+      ratingCount: product.ratingCount,
+      reviews: reviews.rows,
+      total: reviews.count,
+      limit,
+      offset,
+    };
+  }
+
+  /**
+   * Get reviews by moderation status, oldest first, for admins
+   */
+  async getReviewsForModeration(
+    options: { status?: ReviewStatus; productId?: string; limit?: number; offset?: number } = {}
+  ) {
+    const limit = Math.min(options.limit || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const offset = options.offset || 0;
+    const where: any = { status: options.status || 'pending' };
+    if (options.productId) {
+      where.productId = options.productId;
+    }
+
+    const reviews = await ProductReview.findAndCountAll({
+      where,
+      order: [['createdAt', 'ASC']],
+      limit,
+      offset,
+    });
+
+    return {
+      reviews: reviews.rows,
+      total: reviews.count,
+      limit,
+      offset,
+    };
+  }
+
+  /**
+   * Review a product. Only customers with a delivered order containing the
+   * product may review it, once. The review waits for moderation.
+   */
+  async createReview(
+    productId: string,
+    userId: string,
+    authorization: string,
+    data: { rating: number; title?: string; body: string }
+  ) {
+    const product = await Product.findByPk(productId);
+
+    if (!product) {
+      throw new NotFoundError('Product');
+    }
+
+    const existing = await ProductReview.findOne({ where: { productId, userId } });
+    if (existing) {
+      throw new ConflictError('You have already reviewed this product');
+    }
+
+    const orderId = await this.purchaseService.getDeliveredOrder(productId, authorization);
+    if (!orderId) {
+      throw new ForbiddenError('Only customers who have received this product can review it');
+    }
+
+    const review = await ProductReview.create({
+      productId,
+      userId,
+      orderId,
+      rating: data.rating,
+      title: data.title ?? null,
+      body: data.body,
+    });
+
+    logger.info('Review submitted', { reviewId: review.id, productId });
+
+    return review;
+  }
+
+  /**
+   * Edit a review. The edit goes back for moderation, so an approved review
+   * stops counting until it is approved again.
+   */
+  async updateReview(reviewId: string, changes: { rating?: number; title?: string | null; body?: string }) {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const review = await this.findReview(reviewId, transaction);
+      const wasApproved = review.status === 'approved';
+
+      await review.update(
+        {
+          ...changes,
+          status: 'pending',
+          moderationNote: null,
+          moderatedBy: null,
+          moderatedAt: null,
+        },
+        { transaction }
+      );
+
+      if (wasApproved) {
+        await this.refreshRating(review.productId, transaction);
+      }
+
+      await transaction.commit();
+
+      logger.info('Review updated', { reviewId });
+      return review;
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error updating review', { error, reviewId });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a review and its votes
+   */
+  async deleteReview(reviewId: string) {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const review = await this.findReview(reviewId, transaction);
+
+      await ReviewVote.destroy({ where: { reviewId }, transaction });
+      await review.destroy({ transaction });
+
+      if (review.status === 'approved') {
+        await this.refreshRating(review.productId, transaction);
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error deleting review', { error, reviewId });
+      throw error;
+    }
+
+    logger.info('Review deleted', { reviewId });
+    return { message: 'Review deleted successfully' };
+  }
+
+  /**
+   * Approve or reject a review, updating the product's rating
+   */
+  async moderateReview(
+    reviewId: string,
+    moderatorId: string,
+    decision: { status: 'approved' | 'rejected'; note?: string }
+  ) {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const review = await this.findReview(reviewId, transaction);
+      const countedBefore = review.status === 'approved';
+
+      await review.update(
+        {
+          status: decision.status,
+          moderationNote: decision.note ?? null,
+          moderatedBy: moderatorId,
+          moderatedAt: new Date(),
+        },
+        { transaction }
+      );
+
+      if (countedBefore !== (decision.status === 'approved')) {
+        await this.refreshRating(review.productId, transaction);
+      }
+
+      await transaction.commit();
+
+      logger.info('Review moderated', { reviewId, status: decision.status, moderatorId });
+      return review;
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error moderating review', { error, reviewId });
+      throw error;
+    }
+  }
+
+  /**
+   * Mark an approved review as helpful. Voting again has no effect.
+   */
+  async voteHelpful(reviewId: string, userId: string) {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const review = await this.findReview(reviewId, transaction);
+
+      if (review.status !== 'approved') {
+        throw new NotFoundError('Review');
+      }
+
+      if (review.userId === userId) {
+        throw new ForbiddenError('You cannot vote on your own review');
+      }
+
+      const existing = await ReviewVote.findOne({ where: { reviewId, userId }, transaction });
+      if (!existing) {
+        await ReviewVote.create({ reviewId, userId }, { transaction });
+        await review.increment('helpfulCount', { transaction });
+      }
+
+      await transaction.commit();
+
+      return {
+        reviewId,
+        helpfulCount: existing ? review.helpfulCount : review.helpfulCount + 1,
+        voted: true,
+      };
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error voting on review', { error, reviewId });
+      throw error;
+    }
+  }
+
+  /**
+   * Withdraw a helpful vote
+   */
+  async removeVote(reviewId: string, userId: string) {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const review = await this.findReview(reviewId, transaction);
+      const removed = await ReviewVote.destroy({ where: { reviewId, userId }, transaction });
+
+      if (removed > 0) {
+        await review.decrement('helpfulCount', { transaction });
+      }
+
+      await transaction.commit();
+
+      return {
+        reviewId,
+        helpfulCount: removed > 0 ? review.helpfulCount - 1 : review.helpfulCount,
+        voted: false,
+      };
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error removing review vote', { error, reviewId });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,367 @@
+import { Transaction } from 'sequelize';
+import sequelize, { Product, ProductVariant } from '../config/database';
+import { Product as ProductInstance, ProductOption } from '../models/Product.model';
+import { ProductVariant as ProductVariantInstance } from '../models/ProductVariant.model';
+import { ResolvedPrice } from '../models/ProductPrice.model';
+import {
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+  logger,
+} from '@cloudretail/middleware';
+import { EventPublisher } from '../events/event-publisher';
+import { PricingService } from './pricing.service';
+
+/**
+ * Variant Service
+ * Manages the variants of products sold in several options, e.g. sizes and
+ * colours, each with its own SKU and optionally its own price
+ */
+export class VariantService {
+  private eventPublisher: EventPublisher;
+  private pricingService: PricingService;
+
+  constructor() {
+    this.eventPublisher = new EventPublisher();
+    this.pricingService = new PricingService();
+  }
+
+  private async findProduct(productId: string, transaction?: Transaction): Promise<ProductInstance> {
+    const product = await Product.findByPk(productId, { transaction });
+
+    if (!product) {
+      throw new NotFoundError('Product');
+    }
+
+    return product;
+  }
+
+  private async findVariant(
+    productId: string,
+    variantId: string,
+    transaction?: Transaction
+  ): Promise<ProductVariantInstance> {
+    const variant = await ProductVariant.findOne({ where: { id: variantId, productId }, transaction });
+
+    if (!variant) {
+      throw new NotFoundError('Product variant');
+    }
+
+    return variant;
+  }
+
+  /**
+   * A variant as returned to clients, with the price it sells at given the
+   * price its product sells at
+   */
+  private toView(variant: ProductVariantInstance, productPrice: number) {
+    return {
+      ...variant.toJSON(),
+      effectivePrice: variant.getEffectivePrice(productPrice),
+    };
+  }
+
+  /**
+   * The price a product sells at now, including any sale
+   */
+  private async effectivePriceOf(product: ProductInstance): Promise<number> {
+    const prices = await this.pricingService.resolvePrices([product]);
+    return prices.get(product.id)!.effectivePrice;
+  }
+
+  /**
+   * Check a variant has one of the allowed values for each of the options,
+   * and nothing else
+   */
+  private validateOptions(productOptions: ProductOption[], options: Record<string, string>): void {
+    if (productOptions.length === 0) {
+      throw new ValidationError('Product has no options to vary on; set its options first');
+    }
+
+    for (const option of productOptions) {
+      const value = options[option.name];
+
+      if (value === undefined) {
+        throw new ValidationError(`Variant is missing a value for option ${option.name}`);
+      }
+
+      if (!option.values.includes(value)) {
+        throw new ValidationError(`${value} is not a value of option ${option.name}`);
+      }
+    }
+
+    const unknown = Object.keys(options).find(
+      (name) => !productOptions.some((option) => option.name === name)
+    );
+    if (unknown) {
+      throw new ValidationError(`Product has no option ${unknown}`);
+    }
+  }
+
+  /**
+   * The combination of option values a variant stands for, in option order
+   */
+  private combinationOf(productOptions: ProductOption[], options: Record<string, string>): string {
+    return productOptions.map((option) => options[option.name]).join(' / ');
+  }
+
+  /**
+   * Make sure no other variant of the product has the same combination
+   */
+  private async assertCombinationFree(
+    product: ProductInstance,
+    options: Record<string, string>,
+    transaction: Transaction,
+    variantId?: string
+  ): Promise<void> {
+    const siblings = await ProductVariant.findAll({ where: { productId: product.id }, transaction });
+    const combination = this.combinationOf(product.options, options);
+
+    const taken = siblings.some(
+      (sibling) => sibling.id !== variantId && this.combinationOf(product.options, sibling.options) === combination
+    );
+
+    if (taken) {
+      throw new ConflictError(`Product already has a ${combination} variant`);
+    }
+  }
+
+  /**
+   * Make sure a SKU is not used by any product or variant
+   */
+  private async assertSkuFree(sku: string, transaction: Transaction): Promise<void> {
+    const [product, variant] = await Promise.all([
+      Product.findOne({ where: { sku }, transaction }),
+      ProductVariant.findOne({ where: { sku }, transaction }),
+    ]);
+
+    if (product || variant) {
+      throw new ConflictError('Product with this SKU already exists');
+    }
+  }
+
+  /**
+   * Check that a product's variants still fit a change to its options
+   */
+  async assertVariantsFit(productId: string, options: ProductOption[]): Promise<void> {
+    const variants = await ProductVariant.findAll({ where: { productId, isActive: true } });
+
+    for (const variant of variants) {
+      try {
+        this.validateOptions(options, variant.options);
+      } catch (error) {
+        throw new ValidationError(
+          `Variant ${variant.sku} does not fit the new options: ${(error as Error).message}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Get the variants of several products at once, keyed by product ID.
+   * Variants without a price of their own sell at their product's resolved
+   * price.
+   */
+  async getVariantsByProduct(products: ProductInstance[], prices: Map<string, ResolvedPrice>) {
+    const variantsByProduct = new Map<string, ReturnType<VariantService['toView']>[]>();
+    const withOptions = products.filter((product) => product.options.length > 0);
+
+    if (withOptions.length === 0) {
+      return variantsByProduct;
+    }
+
+    const variants = await ProductVariant.findAll({
+      where: { productId: withOptions.map((product) => product.id) },
+      order: [['createdAt', 'ASC']],
+    });
+    const productsById = new Map(withOptions.map((product) => [product.id, product]));
+
+    for (const variant of variants) {
+      const views = variantsByProduct.get(variant.productId) || [];
+      const product = productsById.get(variant.productId)!;
+      views.push(this.toView(variant, prices.get(product.id)?.effectivePrice ?? product.price));
+      variantsByProduct.set(variant.productId, views);
+    }
+
+    return variantsByProduct;
+  }
+
+  /**
+   * Get a product's variant matrix: its options and the variant for each
+   * combination it is sold in
+   */
+  async getVariants(productId: string) {
+    const product = await this.findProduct(productId);
+    const variants = await ProductVariant.findAll({
+      where: { productId },
+      order: [['createdAt', 'ASC']],
+    });
+    const productPrice = await this.effectivePriceOf(product);
+
+    return {
+      productId,
+      options: product.options,
+      variants: variants.map((variant) => this.toView(variant, productPrice)),
+    };
+  }
+
+  /**
+   * Get a variant by ID, with the product it belongs to
+   */
+  async getVariantById(variantId: string) {
+    const variant = await ProductVariant.findByPk(variantId);
+
+    if (!variant) {
+      throw new NotFoundError('Product variant');
+    }
+
+    const product = await this.findProduct(variant.productId);
+
+    return {
+      ...this.toView(variant, await this.effectivePriceOf(product)),
+      product: {
+        id: product.id,
+        name: product.name,
+        price: product.price,
+        vendorId: product.vendorId,
+        isActive: product.isActive,
+      },
+    };
+  }
+
+  /**
+   * Add a variant to a product
+   */
+  async createVariant(
+    productId: string,
+    variantData: { sku: string; options: Record<string, string>; price?: number | null }
+  ) {
+    const transaction = await sequelize.transaction();
+    let product: ProductInstance;
+    let variant: ProductVariantInstance;
+
+    try {
+      product = await this.findProduct(productId, transaction);
+
+      this.validateOptions(product.options, variantData.options);
+      await this.assertSkuFree(variantData.sku, transaction);
+      await this.assertCombinationFree(product, variantData.options, transaction);
+
+      variant = await ProductVariant.create(
+        {
+          productId,
+          sku: variantData.sku,
+          options: variantData.options,
+          price: variantData.price ?? null,
+        },
+        { transaction }
+      );
+
+      await this.eventPublisher.publishEvent({
+        type: 'product.variant_created',
+        payload: {
+          productId,
+          variantId: variant.id,
+          sku: variant.sku,
+          options: variant.options,
+          price: variant.getEffectivePrice(product.price),
+        },
+      }, transaction);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error creating product variant', { error, productId });
+      throw error;
+    }
+
+    logger.info('Product variant created', { productId, variantId: variant.id });
+
+    return this.toView(variant, await this.effectivePriceOf(product));
+  }
+
+  /**
+   * Update a variant. A null price makes it sell at the product's price.
+   */
+  async updateVariant(
+    productId: string,
+    variantId: string,
+    updates: Partial<{
+      sku: string;
+      options: Record<string, string>;
+      price: number | null;
+      isActive: boolean;
+    }>
+  ) {
+    const transaction = await sequelize.transaction();
+    let product: ProductInstance;
+    let variant: ProductVariantInstance;
+
+    try {
+      product = await this.findProduct(productId, transaction);
+      variant = await this.findVariant(productId, variantId, transaction);
+
+      if (updates.options) {
+        this.validateOptions(product.options, updates.options);
+        await this.assertCombinationFree(product, updates.options, transaction, variantId);
+      }
+
+      if (updates.sku && updates.sku !== variant.sku) {
+        await this.assertSkuFree(updates.sku, transaction);
+      }
+
+      await variant.update(updates, { transaction });
+
+      await this.eventPublisher.publishEvent({
+        type: 'product.variant_updated',
+        payload: {
+          productId,
+          variantId,
+          updates,
+        },
+      }, transaction);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error updating product variant', { error, productId, variantId });
+      throw error;
+    }
+
+    logger.info('Product variant updated', { productId, variantId });
+
+    return this.toView(variant, await this.effectivePriceOf(product));
+  }
+
+  /**
+   * Delete a variant (soft delete by setting isActive to false)
+   */
+  async deleteVariant(productId: string, variantId: string) {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const variant = await this.findVariant(productId, variantId, transaction);
+
+      await variant.update({ isActive: false }, { transaction });
+
+      await this.eventPublisher.publishEvent({
+        type: 'product.variant_deleted',
+        payload: {
+          productId,
+          variantId,
+          sku: variant.sku,
+        },
+      }, transaction);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error deleting product variant', { error, productId, variantId });
+      throw error;
+    }
+
+    logger.info('Product variant deleted', { productId, variantId });
+
+    return { message: 'Product variant deleted successfully' };
+  }
+}
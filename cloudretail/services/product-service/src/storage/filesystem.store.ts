@@ -0,0 +1,47 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ObjectStore } from './object-store';
+
+/**
+ * Filesystem Object Store
+ * Keeps objects as files under a root directory, for local development.
+ * The service serves the directory itself at the public URL.
+ */
+export class FilesystemObjectStore implements ObjectStore {
+  readonly name = 'filesystem';
+  readonly root: string;
+  private publicUrl: string;
+
+  constructor(options: { root: string; publicUrl: string }) {
+    this.root = path.resolve(options.root);
+    this.publicUrl = options.publicUrl.replace(/\/$/, '');
+  }
+
+  async put(key: string, body: Buffer, _contentType: string): Promise<void> {
+    const file = this.pathOf(key);
+
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, body);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathOf(key), { force: true });
+  }
+
+  getUrl(key: string): string {
+    return `${this.publicUrl}/${key}`;
+  }
+
+  /**
+   * The file an object is kept in. Keys may not climb out of the root.
+   */
+  private pathOf(key: string): string {
+    const file = path.resolve(this.root, key);
+
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid object key '${key}'`);
+    }
+
+    return file;
+  }
+}
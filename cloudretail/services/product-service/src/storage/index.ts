@@ -0,0 +1,43 @@
+import { ObjectStore } from './object-store';
+import { FilesystemObjectStore } from './filesystem.store';
+import { S3ObjectStore } from './s3.store';
+
+export * from './object-store';
+export { FilesystemObjectStore } from './filesystem.store';
+export { S3ObjectStore } from './s3.store';
+
+// Where the service serves media kept on the local filesystem
+export const LOCAL_MEDIA_PATH = '/api/products/media';
+
+/**
+ * Create the object store selected by MEDIA_STORAGE
+ * - filesystem: files under MEDIA_ROOT, served by the service itself
+ * - s3: a bucket on S3 or an S3-compatible service at MEDIA_S3_ENDPOINT
+ */
+export function createObjectStore(): ObjectStore {
+  const storage = process.env.MEDIA_STORAGE || 'filesystem';
+
+  switch (storage) {
+    case 'filesystem':
+      return new FilesystemObjectStore({
+        root: process.env.MEDIA_ROOT || 'media',
+        publicUrl: process.env.MEDIA_PUBLIC_URL || LOCAL_MEDIA_PATH,
+      });
+
+    case 's3':
+      if (!process.env.MEDIA_S3_BUCKET) {
+        throw new Error('MEDIA_S3_BUCKET must be set to store media in S3');
+      }
+
+      return new S3ObjectStore({
+        bucket: process.env.MEDIA_S3_BUCKET,
+        region: process.env.MEDIA_S3_REGION || 'us-east-1',
+        endpoint: process.env.MEDIA_S3_ENDPOINT,
+        forcePathStyle: process.env.MEDIA_S3_FORCE_PATH_STYLE === 'true',
+        publicUrl: process.env.MEDIA_PUBLIC_URL,
+      });
+
+    default:
+      throw new Error(`Unknown media storage '${storage}'`);
+  }
+}
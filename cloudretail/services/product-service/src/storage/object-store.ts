@@ -0,0 +1,23 @@
+/**
+ * Object Store Adapter
+ * Where product media files are kept. Implemented once per storage backend;
+ * the active adapter is chosen by the MEDIA_STORAGE setting.
+ */
+export interface ObjectStore {
+  readonly name: string;
+
+  /**
+   * Store an object, replacing any object with the same key
+   */
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Remove an object. Removing an object that does not exist is not an error.
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * The URL clients fetch the object from
+   */
+  getUrl(key: string): string;
+}
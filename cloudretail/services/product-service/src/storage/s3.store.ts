@@ -0,0 +1,56 @@
+import { S3Client, PutObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { ObjectStore } from './object-store';
+
+/**
+ * S3 Object Store
+ * Keeps objects in a bucket on S3 or an S3-compatible service such as
+ * MinIO. Objects are served straight from the bucket, or from publicUrl
+ * when a CDN sits in front of it.
+ */
+export class S3ObjectStore implements ObjectStore {
+  readonly name = 's3';
+  private client: S3Client;
+  private bucket: string;
+  private publicUrl: string;
+
+  constructor(options: {
+    bucket: string;
+    region: string;
+    endpoint?: string;
+    forcePathStyle?: boolean;
+    publicUrl?: string;
+  }) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+    });
+    this.bucket = options.bucket;
+
+    const bucketUrl = options.endpoint
+      ? options.forcePathStyle
+        ? `${options.endpoint.replace(/\/$/, '')}/${options.bucket}`
+        : options.endpoint.replace('://', `://${options.bucket}.`).replace(/\/$/, '')
+      : `https://${options.bucket}.s3.${options.region}.amazonaws.com`;
+    this.publicUrl = (options.publicUrl || bucketUrl).replace(/\/$/, '');
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      // Keys are never reused, so objects can be cached indefinitely
+      CacheControl: 'public, max-age=31536000, immutable',
+    }));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  getUrl(key: string): string {
+    return `${this.publicUrl}/${key}`;
+  }
+}
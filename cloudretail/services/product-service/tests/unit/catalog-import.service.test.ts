@@ -0,0 +1,400 @@
+/**
+ * Unit tests for Catalog Import Service
+ */
+
+import { CatalogImportService } from '../../src/services/catalog-import.service';
+import { CatalogImport, Product, ProductVariant } from '../../src/config/database';
+import sequelize from '../../src/config/database';
+import {
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from '@cloudretail/middleware';
+
+// Mock dependencies
+jest.mock('../../src/config/database');
+jest.mock('../../src/events/event-publisher');
+jest.mock('../../src/services/category.service');
+jest.mock('../../src/services/pricing.service');
+
+describe('CatalogImportService', () => {
+  let catalogImportService: CatalogImportService;
+  let mockEventPublisher: any;
+  let mockCategoryService: any;
+  let mockPricingService: any;
+  let mockTransaction: any;
+
+  const vendorId = '5b0e6f1a-2c3d-4e5f-8a9b-0c1d2e3f4a5b';
+  const otherVendorId = '7d2a8b3c-4e5f-4a6b-9c0d-1e2f3a4b5c6d';
+  const vendor = { userId: vendorId, role: 'vendor' };
+  const admin = { userId: 'admin-1', role: 'admin' };
+  const electronics = { id: 'category-electronics', name: 'Electronics', slug: 'electronics' };
+
+  const header = 'sku,name,description,price,category';
+
+  const makeImport = (overrides: any = {}) => {
+    const catalogImport: any = {
+      id: 'import-1',
+      status: 'running',
+      dryRun: false,
+      format: 'csv',
+      content: '',
+      requestedBy: vendorId,
+      requesterRole: 'vendor',
+      vendorId,
+      totalRows: 0,
+      ...overrides,
+    };
+    catalogImport.update = jest.fn(async (changes: any) => Object.assign(catalogImport, changes));
+    catalogImport.toJSON = () => {
+      const { update, toJSON, ...attributes } = catalogImport;
+      return attributes;
+    };
+    return catalogImport;
+  };
+
+  const makeProduct = (attributes: any) => {
+    const product: any = { isActive: true, categoryId: electronics.id, ...attributes };
+    product.update = jest.fn(async (changes: any) => Object.assign(product, changes));
+    return product;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    catalogImportService = new CatalogImportService();
+    mockEventPublisher = (catalogImportService as any).eventPublisher;
+    mockEventPublisher.publishEvent = jest.fn().mockResolvedValue(undefined);
+    mockCategoryService = (catalogImportService as any).categoryService;
+    mockCategoryService.resolveCategory = jest.fn(async (reference: string) => {
+      if (reference !== 'electronics') throw new NotFoundError('Category');
+      return electronics;
+    });
+    mockPricingService = (catalogImportService as any).pricingService;
+    mockPricingService.settlePrice = jest.fn().mockResolvedValue(undefined);
+
+    // Mock transaction
+    mockTransaction = {
+      commit: jest.fn().mockResolvedValue(undefined),
+      rollback: jest.fn().mockResolvedValue(undefined),
+      LOCK: { UPDATE: 'UPDATE' },
+    };
+    (sequelize.transaction as jest.Mock) = jest.fn().mockResolvedValue(mockTransaction);
+
+    // Models share inherited statics, so give each its own mocks
+    (CatalogImport.create as jest.Mock) = jest.fn(async (attributes: any) =>
+      makeImport({ id: 'import-1', status: 'pending', ...attributes })
+    );
+    (CatalogImport.findByPk as jest.Mock) = jest.fn();
+    (CatalogImport.findOne as jest.Mock) = jest.fn();
+    (Product.findAll as jest.Mock) = jest.fn().mockResolvedValue([]);
+    (Product.create as jest.Mock) = jest.fn(async (attributes: any) =>
+      makeProduct({ id: `product-${attributes.sku}`, ...attributes })
+    );
+    (ProductVariant.findAll as jest.Mock) = jest.fn().mockResolvedValue([]);
+  });
+
+  describe('createImport', () => {
+    it('should queue an import into the vendor\'s own catalogue', async () => {
+      // Arrange
+      const content = `${header}\nMUG-1,Mug,A mug,9.99,electronics\n`;
+
+      // Act
+      const result = await catalogImportService.createImport(content, 'csv', { dryRun: true }, vendor);
+
+      // Assert
+      expect(CatalogImport.create).toHaveBeenCalledWith({
+        dryRun: true,
+        format: 'csv',
+        content,
+        requestedBy: vendorId,
+        requesterRole: 'vendor',
+        vendorId,
+        totalRows: 1,
+      });
+      expect(result).toEqual(expect.objectContaining({ id: 'import-1', status: 'pending', totalRows: 1 }));
+      expect(result).not.toHaveProperty('content');
+    });
+
+    it('should let an admin queue an import without a vendor', async () => {
+      // Act
+      await catalogImportService.createImport(`${header}\nMUG-1,Mug,A mug,9.99,electronics\n`, 'csv', {}, admin);
+
+      // Assert
+      expect(CatalogImport.create).toHaveBeenCalledWith(expect.objectContaining({ vendorId: null, dryRun: false }));
+    });
+
+    it('should reject a vendor importing for another vendor', async () => {
+      // Act & Assert
+      await expect(
+        catalogImportService.createImport(`${header}\nMUG-1,Mug,A mug,9.99,electronics\n`, 'csv', { vendorId: otherVendorId }, vendor)
+      ).rejects.toThrow(ForbiddenError);
+      expect(CatalogImport.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a file with no rows', async () => {
+      // Act & Assert
+      await expect(catalogImportService.createImport(`${header}\n`, 'csv', {}, vendor)).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('getImport', () => {
+    it('should return an import to the vendor who requested it', async () => {
+      // Arrange
+      (CatalogImport.findByPk as jest.Mock).mockResolvedValue(makeImport({ status: 'completed' }));
+
+      // Act
+      const result = await catalogImportService.getImport('import-1', vendor);
+
+      // Assert
+      expect(result).toEqual(expect.objectContaining({ id: 'import-1', status: 'completed' }));
+    });
+
+    it('should not show an import to another vendor', async () => {
+      // Arrange
+      (CatalogImport.findByPk as jest.Mock).mockResolvedValue(makeImport({ requestedBy: otherVendorId }));
+
+      // Act & Assert
+      await expect(catalogImportService.getImport('import-1', vendor)).rejects.toThrow(ForbiddenError);
+    });
+
+    it('should throw NotFoundError if the import does not exist', async () => {
+      // Arrange
+      (CatalogImport.findByPk as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(catalogImportService.getImport('missing', admin)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('processNextImport', () => {
+    it('should claim the oldest waiting import and run it', async () => {
+      // Arrange
+      const catalogImport = makeImport({ status: 'pending', content: `${header}\nMUG-1,Mug,A mug,9.99,electronics\n` });
+      (CatalogImport.findOne as jest.Mock).mockResolvedValue(catalogImport);
+
+      // Act
+      const processed = await catalogImportService.processNextImport();
+
+      // Assert
+      expect(processed).toBe(true);
+      expect(CatalogImport.findOne).toHaveBeenCalledWith(expect.objectContaining({
+        order: [['createdAt', 'ASC']],
+        lock: 'UPDATE',
+        skipLocked: true,
+      }));
+      expect(catalogImport.update).toHaveBeenCalledWith(
+        { status: 'running', startedAt: expect.any(Date) },
+        { transaction: mockTransaction }
+      );
+      expect(catalogImport.status).toBe('completed');
+      expect(catalogImport.created).toBe(1);
+    });
+
+    it('should return false when no import is waiting', async () => {
+      // Arrange
+      (CatalogImport.findOne as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      expect(await catalogImportService.processNextImport()).toBe(false);
+    });
+
+    it('should mark an import failed on an unexpected error', async () => {
+      // Arrange
+      const catalogImport = makeImport({ status: 'pending', content: `${header}\nMUG-1,Mug,A mug,9.99,electronics\n` });
+      (CatalogImport.findOne as jest.Mock).mockResolvedValue(catalogImport);
+      (Product.findAll as jest.Mock).mockRejectedValue(new Error('connection lost'));
+
+      // Act
+      await catalogImportService.processNextImport();
+
+      // Assert
+      expect(catalogImport.status).toBe('failed');
+      expect(catalogImport.error).toBe('connection lost');
+      expect(catalogImport.content).toBeNull();
+    });
+  });
+
+  describe('runImport', () => {
+    it('should create new SKUs, update changed ones and report every row', async () => {
+      // Arrange
+      const existing = makeProduct({ id: 'product-lamp', sku: 'LAMP-1', name: 'Lamp', description: 'A lamp', price: '20.00', vendorId });
+      const unchanged = makeProduct({ id: 'product-desk', sku: 'DESK-1', name: 'Desk', description: 'A desk', price: '150.00', vendorId });
+      (Product.findAll as jest.Mock).mockResolvedValue([existing, unchanged]);
+      const catalogImport = makeImport({
+        content: [
+          header,
+          'MUG-1,Mug,A mug,9.99,electronics',
+          'LAMP-1,,,25,',
+          'DESK-1,Desk,,150,',
+        ].join('\n'),
+      });
+
+      // Act
+      await catalogImportService.runImport(catalogImport);
+
+      // Assert
+      expect(Product.create).toHaveBeenCalledWith(
+        {
+          name: 'Mug',
+          description: 'A mug',
+          price: 9.99,
+          categoryId: electronics.id,
+          category: electronics.name,
+          sku: 'MUG-1',
+          vendorId,
+          isActive: true,
+        },
+        { transaction: mockTransaction }
+      );
+      expect(mockPricingService.settlePrice).toHaveBeenCalledWith(
+        expect.objectContaining({ sku: 'MUG-1' }),
+        mockTransaction,
+        { reason: 'created' }
+      );
+      expect(mockPricingService.settlePrice).toHaveBeenCalledWith(existing, mockTransaction, { listPrice: 25 });
+      expect(unchanged.update).not.toHaveBeenCalled();
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'product.created', correlationId: 'import-1' }),
+        mockTransaction
+      );
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith(
+        {
+          type: 'product.updated',
+          payload: { productId: 'product-lamp', updates: { price: 25 } },
+          correlationId: 'import-1',
+        },
+        mockTransaction
+      );
+      expect(mockTransaction.commit).toHaveBeenCalledTimes(1);
+      expect(catalogImport).toEqual(expect.objectContaining({
+        status: 'completed',
+        processedRows: 3,
+        created: 1,
+        updated: 1,
+        unchanged: 1,
+        failed: 0,
+        content: null,
+      }));
+      expect(catalogImport.results).toEqual([
+        { line: 2, status: 'created', sku: 'MUG-1', productId: 'product-MUG-1' },
+        { line: 3, status: 'updated', sku: 'LAMP-1', productId: 'product-lamp' },
+        { line: 4, status: 'unchanged', sku: 'DESK-1', productId: 'product-desk' },
+      ]);
+    });
+
+    it('should report what would happen in a dry run without changing anything', async () => {
+      // Arrange
+      const existing = makeProduct({ id: 'product-lamp', sku: 'LAMP-1', name: 'Lamp', description: 'A lamp', price: '20.00', vendorId });
+      (Product.findAll as jest.Mock).mockResolvedValue([existing]);
+      const catalogImport = makeImport({
+        dryRun: true,
+        content: `${header}\nMUG-1,Mug,A mug,9.99,electronics\nLAMP-1,Desk lamp,,,\n`,
+      });
+
+      // Act
+      await catalogImportService.runImport(catalogImport);
+
+      // Assert
+      expect(sequelize.transaction).not.toHaveBeenCalled();
+      expect(Product.create).not.toHaveBeenCalled();
+      expect(existing.update).not.toHaveBeenCalled();
+      expect(mockEventPublisher.publishEvent).not.toHaveBeenCalled();
+      expect(catalogImport.results).toEqual([
+        { line: 2, status: 'created', sku: 'MUG-1', productId: undefined },
+        { line: 3, status: 'updated', sku: 'LAMP-1', productId: 'product-lamp' },
+      ]);
+      expect(catalogImport.status).toBe('completed');
+    });
+
+    it('should fail invalid, incomplete, duplicate and conflicting rows', async () => {
+      // Arrange
+      const foreign = makeProduct({ id: 'product-foreign', sku: 'FOREIGN-1', name: 'Chair', description: 'A chair', price: '40.00', vendorId: otherVendorId });
+      (Product.findAll as jest.Mock).mockResolvedValue([foreign]);
+      (ProductVariant.findAll as jest.Mock).mockResolvedValue([{ id: 'variant-1', sku: 'TEE-S' }]);
+      const catalogImport = makeImport({
+        content: [
+          header,
+          'MUG-1,Mug,A mug,-1,electronics',
+          'BOWL-1,Bowl,A bowl,5,',
+          'PLATE-1,Plate,A plate,5,kitchen',
+          'TEE-S,Tee,A tee,15,electronics',
+          'FOREIGN-1,Chair,,45,',
+          'CUP-1,Cup,A cup,4,electronics',
+          'CUP-1,Cup,A cup,4,electronics',
+        ].join('\n'),
+      });
+
+      // Act
+      await catalogImportService.runImport(catalogImport);
+
+      // Assert
+      expect(foreign.update).not.toHaveBeenCalled();
+      expect(catalogImport.created).toBe(1);
+      expect(catalogImport.failed).toBe(6);
+      expect(catalogImport.results.map((result: any) => result.error)).toEqual([
+        expect.stringContaining('"price" must be greater than or equal to 0'),
+        'A new product needs category',
+        'Unknown category kitchen',
+        'SKU TEE-S is used by a product variant',
+        'SKU FOREIGN-1 belongs to another vendor\'s product',
+        undefined,
+        'Duplicate of line 7',
+      ]);
+    });
+
+    it('should not let a vendor create products for another vendor', async () => {
+      // Arrange
+      const catalogImport = makeImport({
+        content: `sku,name,description,price,category,vendorId\nMUG-1,Mug,A mug,9.99,electronics,${otherVendorId}\n`,
+      });
+
+      // Act
+      await catalogImportService.runImport(catalogImport);
+
+      // Assert
+      expect(Product.create).not.toHaveBeenCalled();
+      expect(catalogImport.results[0]).toEqual(
+        expect.objectContaining({ status: 'error', error: 'You cannot create products for another vendor' })
+      );
+    });
+
+    it('should let an admin update any vendor\'s products', async () => {
+      // Arrange
+      const foreign = makeProduct({ id: 'product-foreign', sku: 'FOREIGN-1', name: 'Chair', description: 'A chair', price: '40.00', vendorId: otherVendorId });
+      (Product.findAll as jest.Mock).mockResolvedValue([foreign]);
+      const catalogImport = makeImport({
+        requestedBy: 'admin-1',
+        requesterRole: 'admin',
+        vendorId: null,
+        content: `sku,isActive\nFOREIGN-1,false\n`,
+      });
+
+      // Act
+      await catalogImportService.runImport(catalogImport);
+
+      // Assert
+      expect(foreign.update).toHaveBeenCalledWith({ isActive: false }, { transaction: mockTransaction });
+      expect(catalogImport.updated).toBe(1);
+    });
+
+    it('should roll back and fail the whole batch on an unexpected error', async () => {
+      // Arrange
+      (Product.create as jest.Mock).mockRejectedValueOnce(new Error('unique violation'));
+      const catalogImport = makeImport({
+        content: `${header}\nMUG-1,Mug,A mug,9.99,electronics\nCUP-1,Cup,A cup,4,electronics\n`,
+      });
+
+      // Act
+      await catalogImportService.runImport(catalogImport);
+
+      // Assert
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+      expect(mockTransaction.commit).not.toHaveBeenCalled();
+      expect(catalogImport.status).toBe('completed');
+      expect(catalogImport.failed).toBe(2);
+      expect(catalogImport.results[0]).toEqual(
+        expect.objectContaining({ line: 2, status: 'error', error: 'Batch failed and was rolled back' })
+      );
+    });
+  });
+});
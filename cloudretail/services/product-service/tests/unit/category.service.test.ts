@@ -0,0 +1,316 @@
+/**
+ * Unit tests for Category Service
+ * Tests the taxonomy tree, slug handling, subtree lookup and guarded deletes
+ */
+
+import { CategoryService } from '../../src/services/category.service';
+import { Category, Product } from '../../src/config/database';
+import sequelize from '../../src/config/database';
+import {
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+} from '@cloudretail/middleware';
+
+// Mock dependencies
+jest.mock('../../src/config/database');
+jest.mock('../../src/events/event-publisher');
+
+describe('CategoryService', () => {
+  let categoryService: CategoryService;
+  let mockEventPublisher: any;
+  let mockTransaction: any;
+
+  const electronicsId = '7d3c1e8a-0b6f-4c3e-9a51-2f0d6b7e9c11';
+
+  const mockCategory = (overrides: any = {}) => {
+    const category: any = {
+      id: electronicsId,
+      name: 'Electronics',
+      slug: 'electronics',
+      parentId: null,
+      description: null,
+      ...overrides,
+    };
+    category.update = jest.fn(async (updates: any) => Object.assign(category, updates));
+    category.destroy = jest.fn().mockResolvedValue(undefined);
+    category.toJSON = () => {
+      const { update, destroy, toJSON, ...attributes } = category;
+      return attributes;
+    };
+    return category;
+  };
+
+  // Electronics > Phones > Cases, and Books
+  const taxonomy = () => [
+    mockCategory({ id: 'books', name: 'Books', slug: 'books' }),
+    mockCategory({ id: 'cases', name: 'Cases', slug: 'electronics-phones-cases', parentId: 'phones' }),
+    mockCategory(),
+    mockCategory({ id: 'phones', name: 'Phones', slug: 'electronics-phones', parentId: electronicsId }),
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    categoryService = new CategoryService();
+    mockEventPublisher = (categoryService as any).eventPublisher;
+    mockEventPublisher.publishEvent = jest.fn().mockResolvedValue(undefined);
+
+    // Models share inherited statics, so give each its own mocks
+    (Category.findByPk as jest.Mock) = jest.fn().mockResolvedValue(mockCategory());
+    (Category.findOne as jest.Mock) = jest.fn().mockResolvedValue(null);
+    (Category.findAll as jest.Mock) = jest.fn().mockResolvedValue(taxonomy());
+    (Category.count as jest.Mock) = jest.fn().mockResolvedValue(0);
+    (Category.create as jest.Mock) = jest.fn(async (data: any) => mockCategory({ id: 'category-new', ...data }));
+    (Product.update as jest.Mock) = jest.fn().mockResolvedValue([0]);
+    (Product.count as jest.Mock) = jest.fn().mockResolvedValue(0);
+
+    // Mock transaction
+    mockTransaction = {
+      commit: jest.fn().mockResolvedValue(undefined),
+      rollback: jest.fn().mockResolvedValue(undefined),
+    };
+    (sequelize.transaction as jest.Mock) = jest.fn().mockResolvedValue(mockTransaction);
+  });
+
+  describe('resolveCategory', () => {
+    it('should find a category by ID', async () => {
+      // Act
+      const result = await categoryService.resolveCategory(electronicsId);
+
+      // Assert
+      expect(Category.findByPk).toHaveBeenCalledWith(electronicsId);
+      expect(result.slug).toBe('electronics');
+    });
+
+    it('should find a category by slug however it is cased', async () => {
+      // Arrange
+      (Category.findOne as jest.Mock).mockResolvedValue(mockCategory());
+
+      // Act
+      await categoryService.resolveCategory('Electronics');
+
+      // Assert
+      expect(Category.findOne).toHaveBeenCalledWith({ where: { slug: 'electronics' } });
+    });
+
+    it('should find a subcategory by its name', async () => {
+      // Arrange
+      (Category.findAll as jest.Mock).mockResolvedValue([
+        mockCategory({ id: 'phones', name: 'Phones', slug: 'electronics-phones', parentId: electronicsId }),
+      ]);
+
+      // Act
+      const result = await categoryService.resolveCategory('phones');
+
+      // Assert
+      expect(Category.findOne).toHaveBeenCalledWith({ where: { slug: 'phones' } });
+      expect(Category.findAll).toHaveBeenCalledWith(expect.objectContaining({ limit: 2 }));
+      expect(result.id).toBe('phones');
+    });
+
+    it('should not resolve a name shared by several categories', async () => {
+      // Arrange
+      (Category.findAll as jest.Mock).mockResolvedValue([
+        mockCategory({ id: 'phone-cases', name: 'Cases', slug: 'electronics-phones-cases' }),
+        mockCategory({ id: 'camera-cases', name: 'Cases', slug: 'electronics-cameras-cases' }),
+      ]);
+
+      // Act & Assert
+      await expect(categoryService.resolveCategory('Cases')).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw NotFoundError if category does not exist', async () => {
+      // Arrange
+      (Category.findAll as jest.Mock).mockResolvedValue([]);
+
+      // Act & Assert
+      await expect(categoryService.resolveCategory('nonexistent')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('getCategoryIdsWithin', () => {
+    it('should include every level beneath the category', async () => {
+      // Act
+      const result = await categoryService.getCategoryIdsWithin(electronicsId);
+
+      // Assert
+      expect(result).toEqual([electronicsId, 'phones', 'cases']);
+    });
+
+    it('should throw NotFoundError if category does not exist', async () => {
+      // Arrange
+      (Category.findByPk as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(categoryService.getCategoryIdsWithin('missing')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('getCategoryTree', () => {
+    it('should nest each category under its parent', async () => {
+      // Act
+      const result = await categoryService.getCategoryTree();
+
+      // Assert
+      expect(Category.findAll).toHaveBeenCalledWith({ order: [['name', 'ASC']] });
+      expect(result.map((node) => node.slug)).toEqual(['books', 'electronics']);
+      expect(result[1].children.map((node) => node.slug)).toEqual(['electronics-phones']);
+      expect(result[1].children[0].children.map((node) => node.slug)).toEqual(['electronics-phones-cases']);
+    });
+  });
+
+  describe('getCategory', () => {
+    it('should return the path to the category and its subcategories', async () => {
+      // Arrange
+      const [, cases, electronics, phones] = taxonomy();
+      (Category.findOne as jest.Mock).mockResolvedValue(phones);
+      (Category.findByPk as jest.Mock).mockResolvedValue(electronics);
+      (Category.findAll as jest.Mock).mockResolvedValue([cases]);
+
+      // Act
+      const result = await categoryService.getCategory('electronics-phones');
+
+      // Assert
+      expect(result.ancestors).toEqual([{ id: electronicsId, name: 'Electronics', slug: 'electronics' }]);
+      expect(result.children).toEqual([cases.toJSON()]);
+    });
+  });
+
+  describe('createCategory', () => {
+    it('should create a subcategory with a slug under its parent', async () => {
+      // Act
+      const result = await categoryService.createCategory({ name: 'Home & Audio', parentId: electronicsId });
+
+      // Assert
+      expect(Category.create).toHaveBeenCalledWith(
+        {
+          name: 'Home & Audio',
+          slug: 'electronics-home-audio',
+          parentId: electronicsId,
+          description: null,
+        },
+        { transaction: mockTransaction }
+      );
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
+        type: 'category.created',
+        aggregateId: 'category-new',
+        payload: {
+          categoryId: 'category-new',
+          name: 'Home & Audio',
+          slug: 'electronics-home-audio',
+          parentId: electronicsId,
+        },
+      }, mockTransaction);
+      expect(mockTransaction.commit).toHaveBeenCalled();
+      expect(result.id).toBe('category-new');
+    });
+
+    it('should reject a slug already in use', async () => {
+      // Arrange
+      (Category.findOne as jest.Mock).mockResolvedValue(mockCategory());
+
+      // Act & Assert
+      await expect(categoryService.createCategory({ name: 'electronics' })).rejects.toThrow(ConflictError);
+      expect(Category.create).not.toHaveBeenCalled();
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+    });
+
+    it('should reject a name no slug can be made from', async () => {
+      // Act & Assert
+      await expect(categoryService.createCategory({ name: '???' })).rejects.toThrow(ValidationError);
+    });
+
+    it('should throw NotFoundError if parent does not exist', async () => {
+      // Arrange
+      (Category.findByPk as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        categoryService.createCategory({ name: 'Phones', parentId: 'missing' })
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('updateCategory', () => {
+    it('should rename the category on its products', async () => {
+      // Arrange
+      const category = mockCategory();
+      (Category.findByPk as jest.Mock).mockResolvedValue(category);
+
+      // Act
+      await categoryService.updateCategory(electronicsId, { name: 'Consumer Electronics' });
+
+      // Assert
+      expect(category.update).toHaveBeenCalledWith({ name: 'Consumer Electronics' }, { transaction: mockTransaction });
+      expect(Product.update).toHaveBeenCalledWith(
+        { category: 'Consumer Electronics' },
+        { where: { categoryId: electronicsId }, transaction: mockTransaction }
+      );
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
+        type: 'category.updated',
+        aggregateId: electronicsId,
+        payload: { categoryId: electronicsId, updates: { name: 'Consumer Electronics' } },
+      }, mockTransaction);
+    });
+
+    it('should not move a category under one of its subcategories', async () => {
+      // Act & Assert
+      await expect(
+        categoryService.updateCategory(electronicsId, { parentId: 'cases' })
+      ).rejects.toThrow('A category cannot be moved under itself or one of its subcategories');
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+    });
+
+    it('should move a category to the top level', async () => {
+      // Arrange
+      const phones = mockCategory({ id: 'phones', parentId: electronicsId });
+      (Category.findByPk as jest.Mock).mockResolvedValue(phones);
+
+      // Act
+      await categoryService.updateCategory('phones', { parentId: null });
+
+      // Assert
+      expect(phones.update).toHaveBeenCalledWith({ parentId: null }, { transaction: mockTransaction });
+      expect(Product.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteCategory', () => {
+    it('should delete an empty category', async () => {
+      // Arrange
+      const category = mockCategory();
+      (Category.findByPk as jest.Mock).mockResolvedValue(category);
+
+      // Act
+      const result = await categoryService.deleteCategory(electronicsId);
+
+      // Assert
+      expect(category.destroy).toHaveBeenCalledWith({ transaction: mockTransaction });
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
+        type: 'category.deleted',
+        aggregateId: electronicsId,
+        payload: { categoryId: electronicsId, slug: 'electronics' },
+      }, mockTransaction);
+      expect(result).toEqual({ message: 'Category deleted successfully' });
+    });
+
+    it('should not delete a category with subcategories', async () => {
+      // Arrange
+      (Category.count as jest.Mock).mockResolvedValue(1);
+
+      // Act & Assert
+      await expect(categoryService.deleteCategory(electronicsId)).rejects.toThrow(ConflictError);
+    });
+
+    it('should not delete a category with products', async () => {
+      // Arrange
+      (Product.count as jest.Mock).mockResolvedValue(3);
+
+      // Act & Assert
+      await expect(categoryService.deleteCategory(electronicsId)).rejects.toThrow(
+        'Category has products; move them to another category first'
+      );
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Unit tests for Event Publisher
+ * Runs events through the real outbox model, with only the database insert
+ * stubbed, so model validation applies as it would in production
+ */
+
+import { Transaction } from 'sequelize';
+import { EventPublisher } from '../../src/events/event-publisher';
+import sequelize from '../../src/config/database';
+
+describe('EventPublisher', () => {
+  let eventPublisher: EventPublisher;
+  let insert: jest.SpyInstance;
+  let mockTransaction: Transaction;
+
+  beforeEach(() => {
+    eventPublisher = new EventPublisher();
+    insert = jest
+      .spyOn(sequelize.getQueryInterface(), 'insert')
+      .mockImplementation(async (instance: any) => [instance, 1] as any);
+
+    // Mock transaction
+    mockTransaction = { afterCommit: jest.fn() } as unknown as Transaction;
+  });
+
+  it('should record product events against the product', async () => {
+    // Act
+    await eventPublisher.publishEvent(
+      { type: 'product.updated', payload: { productId: 'product-1', updates: {} } },
+      mockTransaction
+    );
+
+    // Assert
+    const [event] = insert.mock.calls[0];
+    expect(event.aggregateId).toBe('product-1');
+    expect(event.eventType).toBe('product.updated');
+    expect(mockTransaction.afterCommit).toHaveBeenCalled();
+  });
+
+  it('should record category events against the category', async () => {
+    // Act
+    await eventPublisher.publishEvent(
+      {
+        type: 'category.created',
+        aggregateId: 'category-1',
+        payload: { categoryId: 'category-1', name: 'Audio', slug: 'audio', parentId: null },
+      },
+      mockTransaction
+    );
+
+    // Assert
+    const [event] = insert.mock.calls[0];
+    expect(event.aggregateId).toBe('category-1');
+    expect(event.payload).toEqual({ categoryId: 'category-1', name: 'Audio', slug: 'audio', parentId: null });
+  });
+
+  it('should fail the transaction for an event with no aggregate', async () => {
+    // Act & Assert
+    await expect(
+      eventPublisher.publishEvent(
+        { type: 'category.deleted', payload: { categoryId: 'category-1', slug: 'audio' } },
+        mockTransaction
+      )
+    ).rejects.toThrow('OutboxEvent.aggregateId cannot be null');
+    expect(insert).not.toHaveBeenCalled();
+  });
+});
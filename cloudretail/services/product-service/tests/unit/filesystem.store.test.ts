@@ -0,0 +1,59 @@
+/**
+ * Unit tests for the filesystem object store
+ * Tests keeping objects under the root directory and serving their URLs
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FilesystemObjectStore } from '../../src/storage';
+
+describe('FilesystemObjectStore', () => {
+  let root: string;
+  let store: FilesystemObjectStore;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'product-media-'));
+    store = new FilesystemObjectStore({ root, publicUrl: '/api/products/media/' });
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should write objects to files under the root', async () => {
+    // Act
+    await store.put('products/product-123/media-1.png', Buffer.from('image'), 'image/png');
+
+    // Assert
+    const contents = await fs.readFile(path.join(root, 'products/product-123/media-1.png'));
+    expect(contents.toString()).toBe('image');
+  });
+
+  it('should delete objects, ignoring ones already gone', async () => {
+    // Arrange
+    await store.put('products/product-123/media-1.png', Buffer.from('image'), 'image/png');
+
+    // Act
+    await store.delete('products/product-123/media-1.png');
+    await store.delete('products/product-123/media-1.png');
+
+    // Assert
+    await expect(fs.access(path.join(root, 'products/product-123/media-1.png'))).rejects.toThrow();
+  });
+
+  it('should refuse keys outside the root', async () => {
+    // Act & Assert
+    await expect(store.put('../escape.png', Buffer.from('image'), 'image/png')).rejects.toThrow(
+      "Invalid object key '../escape.png'"
+    );
+    await expect(store.delete('products/../../escape.png')).rejects.toThrow('Invalid object key');
+  });
+
+  it('should give URLs under the public path', () => {
+    // Act & Assert
+    expect(store.getUrl('products/product-123/media-1.png')).toBe(
+      '/api/products/media/products/product-123/media-1.png'
+    );
+  });
+});
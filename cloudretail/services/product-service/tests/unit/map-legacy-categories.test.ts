@@ -0,0 +1,145 @@
+/**
+ * Unit tests for the legacy category migration
+ * Tests mapping free-text product categories to category nodes
+ */
+
+import { mapLegacyCategories } from '../../src/migrations/map-legacy-categories';
+import { Category, Product } from '../../src/config/database';
+import sequelize from '../../src/config/database';
+
+// Mock dependencies
+jest.mock('../../src/config/database');
+
+describe('mapLegacyCategories', () => {
+  let mockTransaction: any;
+  let created: any[];
+
+  const legacyProduct = (id: string, category: string) => ({ id, category });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    created = [];
+
+    // Models share inherited statics, so give each its own mocks
+    (Product.findAll as jest.Mock) = jest.fn().mockResolvedValue([]);
+    (Product.update as jest.Mock) = jest.fn().mockResolvedValue([1]);
+    (Category.findAll as jest.Mock) = jest.fn().mockResolvedValue([]);
+    (Category.create as jest.Mock) = jest.fn(async (data: any) => {
+      const category = { id: `category-${created.length + 1}`, ...data };
+      created.push(category);
+      return category;
+    });
+
+    // Mock transaction
+    mockTransaction = {
+      commit: jest.fn().mockResolvedValue(undefined),
+      rollback: jest.fn().mockResolvedValue(undefined),
+    };
+    (sequelize.transaction as jest.Mock) = jest.fn().mockResolvedValue(mockTransaction);
+  });
+
+  it('should map spellings of the same category to one node', async () => {
+    // Arrange
+    (Product.findAll as jest.Mock).mockResolvedValue([
+      legacyProduct('product-1', 'Electronics'),
+      legacyProduct('product-2', 'electronics '),
+      legacyProduct('product-3', 'Home & Garden'),
+    ]);
+
+    // Act
+    const mapped = await mapLegacyCategories();
+
+    // Assert
+    expect(Product.findAll).toHaveBeenCalledWith({
+      where: { categoryId: null },
+      attributes: ['id', 'category'],
+      order: [['createdAt', 'ASC']],
+      transaction: mockTransaction,
+    });
+    expect(created).toEqual([
+      { id: 'category-1', name: 'Electronics', slug: 'electronics', parentId: null },
+      { id: 'category-2', name: 'Home & Garden', slug: 'home-garden', parentId: null },
+    ]);
+    expect(Product.update).toHaveBeenCalledWith(
+      { categoryId: 'category-1', category: 'Electronics' },
+      { where: { id: ['product-1', 'product-2'] }, transaction: mockTransaction }
+    );
+    expect(Product.update).toHaveBeenCalledWith(
+      { categoryId: 'category-2', category: 'Home & Garden' },
+      { where: { id: ['product-3'] }, transaction: mockTransaction }
+    );
+    expect(mockTransaction.commit).toHaveBeenCalled();
+    expect(mapped).toBe(3);
+  });
+
+  it('should build the hierarchy from nested category strings', async () => {
+    // Arrange
+    (Product.findAll as jest.Mock).mockResolvedValue([
+      legacyProduct('product-1', 'Electronics > Phones'),
+      legacyProduct('product-2', 'Electronics'),
+    ]);
+
+    // Act
+    await mapLegacyCategories();
+
+    // Assert
+    expect(created).toEqual([
+      { id: 'category-1', name: 'Electronics', slug: 'electronics', parentId: null },
+      { id: 'category-2', name: 'Phones', slug: 'electronics-phones', parentId: 'category-1' },
+    ]);
+    expect(Product.update).toHaveBeenCalledWith(
+      { categoryId: 'category-2', category: 'Phones' },
+      { where: { id: ['product-1'] }, transaction: mockTransaction }
+    );
+  });
+
+  it('should reuse categories that already exist', async () => {
+    // Arrange
+    (Product.findAll as jest.Mock).mockResolvedValue([legacyProduct('product-1', 'BOOKS')]);
+    (Category.findAll as jest.Mock).mockResolvedValue([{ id: 'books', name: 'Books', slug: 'books' }]);
+
+    // Act
+    await mapLegacyCategories();
+
+    // Assert
+    expect(Category.create).not.toHaveBeenCalled();
+    expect(Product.update).toHaveBeenCalledWith(
+      { categoryId: 'books', category: 'Books' },
+      { where: { id: ['product-1'] }, transaction: mockTransaction }
+    );
+  });
+
+  it('should file categories without letters or digits as uncategorised', async () => {
+    // Arrange
+    (Product.findAll as jest.Mock).mockResolvedValue([legacyProduct('product-1', '???')]);
+
+    // Act
+    await mapLegacyCategories();
+
+    // Assert
+    expect(created).toEqual([
+      { id: 'category-1', name: 'Uncategorised', slug: 'uncategorised', parentId: null },
+    ]);
+  });
+
+  it('should do nothing once every product is filed', async () => {
+    // Act
+    const mapped = await mapLegacyCategories();
+
+    // Assert
+    expect(mapped).toBe(0);
+    expect(Category.findAll).not.toHaveBeenCalled();
+    expect(mockTransaction.commit).toHaveBeenCalled();
+  });
+
+  it('should roll back if a category cannot be created', async () => {
+    // Arrange
+    (Product.findAll as jest.Mock).mockResolvedValue([legacyProduct('product-1', 'Toys')]);
+    (Category.create as jest.Mock).mockRejectedValue(new Error('duplicate key'));
+
+    // Act & Assert
+    await expect(mapLegacyCategories()).rejects.toThrow('duplicate key');
+    expect(Product.update).not.toHaveBeenCalled();
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Unit tests for Media Service
+ * Tests image validation, thumbnails, storage and ordering of product media
+ */
+
+import sharp from 'sharp';
+import { MediaService } from '../../src/services/media.service';
+import { Product, ProductMedia } from '../../src/config/database';
+import sequelize from '../../src/config/database';
+import {
+  NotFoundError,
+  ValidationError,
+} from '@cloudretail/middleware';
+import { Op } from 'sequelize';
+
+// Mock dependencies
+jest.mock('../../src/config/database');
+jest.mock('../../src/events/event-publisher');
+
+describe('MediaService', () => {
+  let mediaService: MediaService;
+  let mockEventPublisher: any;
+  let mockStore: any;
+  let mockTransaction: any;
+
+  const productId = 'product-123';
+
+  const makeImage = (width: number, height: number) =>
+    sharp({ create: { width, height, channels: 3, background: { r: 200, g: 40, b: 40 } } }).png().toBuffer();
+
+  const mockMedia = (overrides: any = {}) => {
+    const media: any = {
+      id: 'media-1',
+      productId,
+      storageKey: `products/${productId}/media-1.png`,
+      thumbnailKey: `products/${productId}/media-1-thumb.webp`,
+      contentType: 'image/png',
+      size: 1024,
+      width: 800,
+      height: 600,
+      altText: null,
+      position: 0,
+      ...overrides,
+    };
+    media.update = jest.fn(async (updates: any) => Object.assign(media, updates));
+    media.destroy = jest.fn().mockResolvedValue(undefined);
+    return media;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mediaService = new MediaService();
+    mockEventPublisher = (mediaService as any).eventPublisher;
+    mockEventPublisher.publishEvent = jest.fn().mockResolvedValue(undefined);
+
+    mockStore = {
+      name: 'memory',
+      put: jest.fn().mockResolvedValue(undefined),
+      delete: jest.fn().mockResolvedValue(undefined),
+      getUrl: jest.fn((key: string) => `https://media.example.com/${key}`),
+    };
+    (mediaService as any).store = mockStore;
+
+    // Models share inherited statics, so give each its own mocks
+    (Product.findByPk as jest.Mock) = jest.fn().mockResolvedValue({ id: productId });
+    (ProductMedia.findAll as jest.Mock) = jest.fn().mockResolvedValue([]);
+    (ProductMedia.findOne as jest.Mock) = jest.fn().mockResolvedValue(null);
+    (ProductMedia.count as jest.Mock) = jest.fn().mockResolvedValue(0);
+    (ProductMedia.create as jest.Mock) = jest.fn(async (data: any) => mockMedia(data));
+    (ProductMedia.decrement as jest.Mock) = jest.fn().mockResolvedValue(undefined);
+
+    // Mock transaction
+    mockTransaction = {
+      commit: jest.fn().mockResolvedValue(undefined),
+      rollback: jest.fn().mockResolvedValue(undefined),
+      LOCK: { UPDATE: 'UPDATE' },
+    };
+    (sequelize.transaction as jest.Mock) = jest.fn().mockResolvedValue(mockTransaction);
+  });
+
+  describe('getMediaByProduct', () => {
+    it('should group media by product in order', async () => {
+      // Arrange
+      (ProductMedia.findAll as jest.Mock).mockResolvedValue([
+        mockMedia(),
+        mockMedia({ id: 'media-2', productId: 'product-456', position: 0 }),
+        mockMedia({ id: 'media-3', position: 1 }),
+      ]);
+
+      // Act
+      const result = await mediaService.getMediaByProduct([productId, 'product-456']);
+
+      // Assert
+      expect(ProductMedia.findAll).toHaveBeenCalledWith({
+        where: { productId: [productId, 'product-456'] },
+        order: [['position', 'ASC']],
+      });
+      expect(result.get(productId)!.map((media) => media.id)).toEqual(['media-1', 'media-3']);
+      expect(result.get('product-456')!.map((media) => media.id)).toEqual(['media-2']);
+      expect(result.get(productId)![0].thumbnailUrl).toBe(
+        `https://media.example.com/products/${productId}/media-1-thumb.webp`
+      );
+    });
+
+    it('should not query for an empty list of products', async () => {
+      // Act
+      const result = await mediaService.getMediaByProduct([]);
+
+      // Assert
+      expect(ProductMedia.findAll).not.toHaveBeenCalled();
+      expect(result.size).toBe(0);
+    });
+  });
+
+  describe('getMedia', () => {
+    it('should throw NotFoundError if product does not exist', async () => {
+      // Arrange
+      (Product.findByPk as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(mediaService.getMedia('nonexistent')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('addMedia', () => {
+    it('should store the image and a thumbnail at the end of the product media', async () => {
+      // Arrange
+      const image = await makeImage(1200, 800);
+      (ProductMedia.count as jest.Mock).mockResolvedValue(2);
+
+      // Act
+      const result = await mediaService.addMedia(productId, image, { altText: 'Front view' });
+
+      // Assert
+      const [[storageKey, storedImage, contentType], [thumbnailKey, thumbnail, thumbnailType]] = mockStore.put.mock.calls;
+      expect(storageKey).toMatch(new RegExp(`^products/${productId}/[0-9a-f-]+\\.png$`));
+      expect(storedImage).toBe(image);
+      expect(contentType).toBe('image/png');
+      expect(thumbnailKey).toBe(storageKey.replace('.png', '-thumb.webp'));
+      expect(thumbnailType).toBe('image/webp');
+
+      const thumbnailMetadata = await sharp(thumbnail).metadata();
+      expect(thumbnailMetadata.format).toBe('webp');
+      expect(thumbnailMetadata.width).toBe(320);
+      expect(thumbnailMetadata.height).toBe(213);
+
+      expect(ProductMedia.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          productId,
+          storageKey,
+          thumbnailKey,
+          contentType: 'image/png',
+          size: image.length,
+          width: 1200,
+          height: 800,
+          altText: 'Front view',
+          position: 2,
+        }),
+        { transaction: mockTransaction }
+      );
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
+        type: 'product.media_added',
+        payload: {
+          productId,
+          mediaId: result.id,
+          url: `https://media.example.com/${storageKey}`,
+          position: 2,
+        },
+      }, mockTransaction);
+      expect(mockTransaction.commit).toHaveBeenCalled();
+      expect(result.position).toBe(2);
+    });
+
+    it('should not enlarge images smaller than a thumbnail', async () => {
+      // Arrange
+      const image = await makeImage(100, 50);
+
+      // Act
+      await mediaService.addMedia(productId, image);
+
+      // Assert
+      const thumbnail = mockStore.put.mock.calls[1][1];
+      const thumbnailMetadata = await sharp(thumbnail).metadata();
+      expect(thumbnailMetadata.width).toBe(100);
+      expect(thumbnailMetadata.height).toBe(50);
+    });
+
+    it('should reject a file that is not an image', async () => {
+      // Act & Assert
+      await expect(
+        mediaService.addMedia(productId, Buffer.from('not an image'))
+      ).rejects.toThrow('File is not a readable image');
+      expect(mockStore.put).not.toHaveBeenCalled();
+    });
+
+    it('should reject images in other formats', async () => {
+      // Arrange
+      const image = await sharp({ create: { width: 10, height: 10, channels: 3, background: 'white' } })
+        .tiff()
+        .toBuffer();
+
+      // Act & Assert
+      await expect(mediaService.addMedia(productId, image)).rejects.toThrow(ValidationError);
+      await expect(mediaService.addMedia(productId, image)).rejects.toThrow('Images must be JPEG, PNG, WebP or GIF');
+    });
+
+    it('should reject an empty file', async () => {
+      // Act & Assert
+      await expect(mediaService.addMedia(productId, Buffer.alloc(0))).rejects.toThrow('Image file is empty');
+    });
+
+    it('should discard the stored files if the product does not exist', async () => {
+      // Arrange
+      const image = await makeImage(200, 200);
+      (Product.findByPk as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(mediaService.addMedia(productId, image)).rejects.toThrow(NotFoundError);
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+      expect(mockStore.delete).toHaveBeenCalledWith(mockStore.put.mock.calls[0][0]);
+      expect(mockStore.delete).toHaveBeenCalledWith(mockStore.put.mock.calls[1][0]);
+    });
+  });
+
+  describe('reorderMedia', () => {
+    it('should number the media in the order given', async () => {
+      // Arrange
+      const first = mockMedia();
+      const second = mockMedia({ id: 'media-2', position: 1 });
+      const third = mockMedia({ id: 'media-3', position: 2 });
+      (ProductMedia.findAll as jest.Mock).mockResolvedValue([first, second, third]);
+
+      // Act
+      const result = await mediaService.reorderMedia(productId, ['media-3', 'media-1', 'media-2']);
+
+      // Assert
+      expect(third.update).toHaveBeenCalledWith({ position: 0 }, { transaction: mockTransaction });
+      expect(first.update).toHaveBeenCalledWith({ position: 1 }, { transaction: mockTransaction });
+      expect(second.update).toHaveBeenCalledWith({ position: 2 }, { transaction: mockTransaction });
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
+        type: 'product.media_reordered',
+        payload: { productId, mediaIds: ['media-3', 'media-1', 'media-2'] },
+      }, mockTransaction);
+      expect(result.map((media) => media.id)).toEqual(['media-3', 'media-1', 'media-2']);
+    });
+
+    it('should require every media item to be listed once', async () => {
+      // Arrange
+      (ProductMedia.findAll as jest.Mock).mockResolvedValue([mockMedia(), mockMedia({ id: 'media-2', position: 1 })]);
+
+      // Act & Assert
+      await expect(
+        mediaService.reorderMedia(productId, ['media-1', 'media-1'])
+      ).rejects.toThrow('List every media item of the product exactly once');
+      await expect(mediaService.reorderMedia(productId, ['media-1'])).rejects.toThrow(ValidationError);
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+      expect(mockEventPublisher.publishEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteMedia', () => {
+    it('should close the gap and then discard the files', async () => {
+      // Arrange
+      const media = mockMedia({ position: 1 });
+      (ProductMedia.findOne as jest.Mock).mockResolvedValue(media);
+
+      // Act
+      const result = await mediaService.deleteMedia(productId, 'media-1');
+
+      // Assert
+      expect(media.destroy).toHaveBeenCalledWith({ transaction: mockTransaction });
+      expect(ProductMedia.decrement).toHaveBeenCalledWith('position', {
+        by: 1,
+        where: { productId, position: { [Op.gt]: 1 } },
+        transaction: mockTransaction,
+      });
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
+        type: 'product.media_removed',
+        payload: { productId, mediaId: 'media-1' },
+      }, mockTransaction);
+      expect(mockStore.delete).toHaveBeenCalledWith(media.storageKey);
+      expect(mockStore.delete).toHaveBeenCalledWith(media.thumbnailKey);
+      expect(result).toEqual({ message: 'Product media deleted successfully' });
+    });
+
+    it('should still delete the media if its files cannot be removed', async () => {
+      // Arrange
+      (ProductMedia.findOne as jest.Mock).mockResolvedValue(mockMedia());
+      mockStore.delete.mockRejectedValue(new Error('bucket unavailable'));
+
+      // Act
+      const result = await mediaService.deleteMedia(productId, 'media-1');
+
+      // Assert
+      expect(mockTransaction.commit).toHaveBeenCalled();
+      expect(result).toEqual({ message: 'Product media deleted successfully' });
+    });
+
+    it('should throw NotFoundError if the media is not on the product', async () => {
+      // Act & Assert
+      await expect(mediaService.deleteMedia(productId, 'media-9')).rejects.toThrow(NotFoundError);
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+      expect(mockStore.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,528 @@
+/**
+ * Unit tests for Pricing Service
+ * Tests scheduled price changes, sales, price resolution and price history
+ */
+
+import { PricingService } from '../../src/services/pricing.service';
+import { PriceHistory, Product, ProductPrice } from '../../src/config/database';
+import sequelize from '../../src/config/database';
+import {
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+} from '@cloudretail/middleware';
+import { Op } from 'sequelize';
+
+// Mock dependencies
+jest.mock('../../src/config/database');
+jest.mock('../../src/events/event-publisher');
+
+describe('PricingService', () => {
+  let pricingService: PricingService;
+  let mockEventPublisher: any;
+  let mockTransaction: any;
+
+  const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+  const mockProduct = (overrides: any = {}) => {
+    const product: any = {
+      id: 'product-1',
+      price: '100.00',
+      ...overrides,
+    };
+    product.update = jest.fn(async (updates: any) => Object.assign(product, updates));
+    return product;
+  };
+
+  const mockSchedule = (overrides: any = {}) => {
+    const schedule: any = {
+      id: 'schedule-1',
+      productId: 'product-1',
+      type: 'regular',
+      price: '90.00',
+      compareAtPrice: null,
+      startsAt: hoursFromNow(-1),
+      endsAt: null,
+      status: 'scheduled',
+      ...overrides,
+    };
+    schedule.update = jest.fn(async (updates: any) => Object.assign(schedule, updates));
+    schedule.toJSON = () => {
+      const { update, toJSON, ...attributes } = schedule;
+      return attributes;
+    };
+    return schedule;
+  };
+
+  const mockSale = (overrides: any = {}) => mockSchedule({
+    id: 'sale-1',
+    type: 'sale',
+    price: '75.00',
+    endsAt: hoursFromNow(24),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    pricingService = new PricingService();
+    mockEventPublisher = (pricingService as any).eventPublisher;
+    mockEventPublisher.publishEvent = jest.fn().mockResolvedValue(undefined);
+
+    // Models share inherited statics, so give each its own mocks
+    (Product.findByPk as jest.Mock) = jest.fn().mockResolvedValue(mockProduct());
+    (ProductPrice.findAll as jest.Mock) = jest.fn().mockResolvedValue([]);
+    (ProductPrice.findOne as jest.Mock) = jest.fn().mockResolvedValue(null);
+    (ProductPrice.create as jest.Mock) = jest.fn(async (data: any) => mockSchedule({ id: 'schedule-new', ...data }));
+    (PriceHistory.create as jest.Mock) = jest.fn(async (data: any) => ({ id: 'history-1', ...data }));
+    (PriceHistory.findAndCountAll as jest.Mock) = jest.fn().mockResolvedValue({ rows: [], count: 0 });
+
+    // Mock transaction
+    mockTransaction = {
+      commit: jest.fn().mockResolvedValue(undefined),
+      rollback: jest.fn().mockResolvedValue(undefined),
+      LOCK: { UPDATE: 'UPDATE' },
+    };
+    (sequelize.transaction as jest.Mock) = jest.fn().mockResolvedValue(mockTransaction);
+  });
+
+  describe('resolvePrices', () => {
+    it('should sell at the sale price during a sale', async () => {
+      // Arrange
+      const sale = mockSale();
+      (ProductPrice.findAll as jest.Mock).mockResolvedValue([sale]);
+
+      // Act
+      const result = await pricingService.resolvePrices([mockProduct(), mockProduct({ id: 'product-2', price: '30.00' })]);
+
+      // Assert
+      expect(ProductPrice.findAll).toHaveBeenCalledWith({
+        where: {
+          productId: ['product-1', 'product-2'],
+          status: ['scheduled', 'active'],
+          startsAt: { [Op.lte]: expect.any(Date) },
+        },
+      });
+      expect(result.get('product-1')).toEqual({
+        price: 100,
+        effectivePrice: 75,
+        compareAtPrice: 100,
+        sale: { id: 'sale-1', endsAt: sale.endsAt },
+      });
+      expect(result.get('product-2')).toEqual({ price: 30, effectivePrice: 30, compareAtPrice: null, sale: null });
+    });
+
+    it('should count a due price change before it is applied', async () => {
+      // Arrange
+      (ProductPrice.findAll as jest.Mock).mockResolvedValue([
+        mockSchedule({ id: 'schedule-1', price: '95.00', startsAt: hoursFromNow(-3) }),
+        mockSchedule({ id: 'schedule-2', price: '90.00', startsAt: hoursFromNow(-1) }),
+      ]);
+
+      // Act
+      const result = await pricingService.resolvePrices([mockProduct()]);
+
+      // Assert
+      expect(result.get('product-1')!.effectivePrice).toBe(90);
+    });
+
+    it('should show a sale against its own compare-at price', async () => {
+      // Arrange
+      (ProductPrice.findAll as jest.Mock).mockResolvedValue([mockSale({ compareAtPrice: '120.00' })]);
+
+      // Act
+      const result = await pricingService.resolvePrices([mockProduct()]);
+
+      // Assert
+      expect(result.get('product-1')!.compareAtPrice).toBe(120);
+    });
+
+    it('should not query for an empty list of products', async () => {
+      // Act
+      const result = await pricingService.resolvePrices([]);
+
+      // Assert
+      expect(ProductPrice.findAll).not.toHaveBeenCalled();
+      expect(result.size).toBe(0);
+    });
+  });
+
+  describe('settlePrice', () => {
+    it('should apply a due price change and record it', async () => {
+      // Arrange
+      const product = mockProduct();
+      const change = mockSchedule();
+      (ProductPrice.findAll as jest.Mock).mockResolvedValue([change]);
+
+      // Act
+      await pricingService.settlePrice(product, mockTransaction);
+
+      // Assert
+      expect(change.update).toHaveBeenCalledWith({ status: 'applied' }, { transaction: mockTransaction });
+      expect(product.update).toHaveBeenCalledWith({ price: 90 }, { transaction: mockTransaction });
+      expect(PriceHistory.create).toHaveBeenCalledWith(
+        {
+          productId: 'product-1',
+          previousPrice: 100,
+          price: 90,
+          regularPrice: 90,
+          compareAtPrice: null,
+          reason: 'scheduled',
+          scheduleId: 'schedule-1',
+          effectiveAt: change.startsAt,
+        },
+        { transaction: mockTransaction }
+      );
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
+        type: 'product.price_changed',
+        payload: {
+          productId: 'product-1',
+          previousPrice: 100,
+          price: 90,
+          regularPrice: 90,
+          compareAtPrice: null,
+          reason: 'scheduled',
+          scheduleId: 'schedule-1',
+          effectiveAt: change.startsAt,
+        },
+      }, mockTransaction);
+    });
+
+    it('should start a sale that is due', async () => {
+      // Arrange
+      const sale = mockSale();
+      (ProductPrice.findAll as jest.Mock).mockResolvedValue([sale]);
+
+      // Act
+      const result = await pricingService.settlePrice(mockProduct(), mockTransaction);
+
+      // Assert
+      expect(sale.update).toHaveBeenCalledWith({ status: 'active' }, { transaction: mockTransaction });
+      expect(PriceHistory.create).toHaveBeenCalledWith(
+        expect.objectContaining({ previousPrice: 100, price: 75, compareAtPrice: 100, reason: 'sale_started', scheduleId: 'sale-1' }),
+        { transaction: mockTransaction }
+      );
+      expect(result.effectivePrice).toBe(75);
+    });
+
+    it('should end a sale that is over', async () => {
+      // Arrange
+      const sale = mockSale({ status: 'active', startsAt: hoursFromNow(-48), endsAt: hoursFromNow(-1) });
+      (ProductPrice.findAll as jest.Mock).mockResolvedValue([sale]);
+
+      // Act
+      await pricingService.settlePrice(mockProduct(), mockTransaction);
+
+      // Assert
+      expect(sale.update).toHaveBeenCalledWith({ status: 'ended' }, { transaction: mockTransaction });
+      expect(PriceHistory.create).toHaveBeenCalledWith(
+        expect.objectContaining({ previousPrice: 75, price: 100, compareAtPrice: null, reason: 'sale_ended', effectiveAt: sale.endsAt }),
+        { transaction: mockTransaction }
+      );
+    });
+
+    it('should record nothing when the price sold at is unchanged', async () => {
+      // Arrange
+      const change = mockSchedule({ price: '100.00' });
+      (ProductPrice.findAll as jest.Mock).mockResolvedValue([change]);
+
+      // Act
+      await pricingService.settlePrice(mockProduct(), mockTransaction);
+
+      // Assert
+      expect(change.update).toHaveBeenCalledWith({ status: 'applied' }, { transaction: mockTransaction });
+      expect(PriceHistory.create).not.toHaveBeenCalled();
+      expect(mockEventPublisher.publishEvent).not.toHaveBeenCalled();
+    });
+
+    it('should let a price set by hand supersede due changes', async () => {
+      // Arrange
+      const product = mockProduct();
+      const change = mockSchedule();
+      (ProductPrice.findAll as jest.Mock).mockResolvedValue([change]);
+
+      // Act
+      await pricingService.settlePrice(product, mockTransaction, { listPrice: 110 });
+
+      // Assert
+      expect(change.update).toHaveBeenCalledWith({ status: 'applied' }, { transaction: mockTransaction });
+      expect(product.update).toHaveBeenCalledWith({ price: 110 }, { transaction: mockTransaction });
+      expect(PriceHistory.create).toHaveBeenCalledWith(
+        expect.objectContaining({ previousPrice: 100, price: 110, reason: 'manual', scheduleId: null }),
+        { transaction: mockTransaction }
+      );
+    });
+
+    it('should keep the sale price when the regular price is changed during a sale', async () => {
+      // Arrange
+      (ProductPrice.findAll as jest.Mock).mockResolvedValue([mockSale({ status: 'active' })]);
+
+      // Act
+      await pricingService.settlePrice(mockProduct(), mockTransaction, { listPrice: 110 });
+
+      // Assert
+      expect(PriceHistory.create).toHaveBeenCalledWith(
+        expect.objectContaining({ previousPrice: 75, price: 75, regularPrice: 110, compareAtPrice: 110, reason: 'manual' }),
+        { transaction: mockTransaction }
+      );
+    });
+
+    it('should start the history of a new product without announcing it', async () => {
+      // Act
+      await pricingService.settlePrice(mockProduct(), mockTransaction, { reason: 'created' });
+
+      // Assert
+      expect(PriceHistory.create).toHaveBeenCalledWith(
+        expect.objectContaining({ previousPrice: null, price: 100, reason: 'created' }),
+        { transaction: mockTransaction }
+      );
+      expect(mockEventPublisher.publishEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('schedulePriceChange', () => {
+    it('should schedule a future price', async () => {
+      // Arrange
+      const startsAt = hoursFromNow(24);
+
+      // Act
+      const result = await pricingService.schedulePriceChange('product-1', { price: 89, startsAt });
+
+      // Assert
+      expect(Product.findByPk).toHaveBeenCalledWith('product-1', { transaction: mockTransaction, lock: 'UPDATE' });
+      expect(ProductPrice.create).toHaveBeenCalledWith(
+        { productId: 'product-1', type: 'regular', price: 89, startsAt },
+        { transaction: mockTransaction }
+      );
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
+        type: 'product.price_scheduled',
+        payload: {
+          productId: 'product-1',
+          scheduleId: 'schedule-new',
+          type: 'regular',
+          price: 89,
+          startsAt,
+        },
+      }, mockTransaction);
+      expect(mockTransaction.commit).toHaveBeenCalled();
+      expect(result.id).toBe('schedule-new');
+    });
+
+    it('should reject a start in the past', async () => {
+      // Act & Assert
+      await expect(
+        pricingService.schedulePriceChange('product-1', { price: 89, startsAt: hoursFromNow(-1) })
+      ).rejects.toThrow(ValidationError);
+      expect(ProductPrice.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError if product does not exist', async () => {
+      // Arrange
+      (Product.findByPk as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        pricingService.schedulePriceChange('missing', { price: 89, startsAt: hoursFromNow(1) })
+      ).rejects.toThrow(NotFoundError);
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+    });
+  });
+
+  describe('scheduleSale', () => {
+    it('should schedule a future sale without changing the price yet', async () => {
+      // Arrange
+      const startsAt = hoursFromNow(24);
+      const endsAt = hoursFromNow(72);
+
+      // Act
+      await pricingService.scheduleSale('product-1', { price: 80, startsAt, endsAt });
+
+      // Assert
+      expect(ProductPrice.create).toHaveBeenCalledWith(
+        { productId: 'product-1', type: 'sale', price: 80, compareAtPrice: null, startsAt, endsAt },
+        { transaction: mockTransaction }
+      );
+      expect(PriceHistory.create).not.toHaveBeenCalled();
+      expect(mockTransaction.commit).toHaveBeenCalled();
+    });
+
+    it('should start a sale with no start date straight away', async () => {
+      // Arrange
+      const endsAt = hoursFromNow(72);
+      (ProductPrice.findAll as jest.Mock)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([mockSale({ id: 'schedule-new', price: 80, endsAt })]);
+
+      // Act
+      await pricingService.scheduleSale('product-1', { price: 80, endsAt });
+
+      // Assert
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'product.price_scheduled' }),
+        mockTransaction
+      );
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
+        type: 'product.price_changed',
+        payload: expect.objectContaining({ previousPrice: 100, price: 80, reason: 'sale_started', scheduleId: 'schedule-new' }),
+      }, mockTransaction);
+    });
+
+    it('should reject a sale price that is not below the compare-at price', async () => {
+      // Act & Assert
+      await expect(
+        pricingService.scheduleSale('product-1', { price: 100, endsAt: hoursFromNow(24) })
+      ).rejects.toThrow('Sale price must be below the compare-at price');
+      await expect(
+        pricingService.scheduleSale('product-1', { price: 100, compareAtPrice: 120, endsAt: hoursFromNow(24) })
+      ).resolves.toBeDefined();
+    });
+
+    it('should reject a sale that overlaps another', async () => {
+      // Arrange
+      (ProductPrice.findAll as jest.Mock).mockResolvedValue([
+        mockSale({ startsAt: hoursFromNow(10), endsAt: hoursFromNow(20) }),
+      ]);
+
+      // Act & Assert
+      await expect(
+        pricingService.scheduleSale('product-1', { price: 80, startsAt: hoursFromNow(15), endsAt: hoursFromNow(30) })
+      ).rejects.toThrow(ConflictError);
+      expect(ProductPrice.create).not.toHaveBeenCalled();
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+    });
+
+    it('should reject a sale that ends before it starts', async () => {
+      // Act & Assert
+      await expect(
+        pricingService.scheduleSale('product-1', { price: 80, startsAt: hoursFromNow(10), endsAt: hoursFromNow(5) })
+      ).rejects.toThrow('A sale must end after it starts');
+    });
+  });
+
+  describe('cancelPriceSchedule', () => {
+    it('should cancel a change that has not taken effect', async () => {
+      // Arrange
+      const change = mockSchedule({ startsAt: hoursFromNow(24) });
+      (ProductPrice.findOne as jest.Mock).mockResolvedValue(change);
+
+      // Act
+      const result = await pricingService.cancelPriceSchedule('product-1', 'schedule-1');
+
+      // Assert
+      expect(change.update).toHaveBeenCalledWith({ status: 'cancelled' }, { transaction: mockTransaction });
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
+        type: 'product.price_schedule_cancelled',
+        payload: { productId: 'product-1', scheduleId: 'schedule-1', type: 'regular' },
+      }, mockTransaction);
+      expect(result.status).toBe('cancelled');
+    });
+
+    it('should end a running sale now', async () => {
+      // Arrange
+      const sale = mockSale({ status: 'active' });
+      (ProductPrice.findOne as jest.Mock).mockResolvedValue(sale);
+      (ProductPrice.findAll as jest.Mock)
+        .mockResolvedValueOnce([sale])
+        .mockResolvedValueOnce([sale]);
+
+      // Act
+      await pricingService.cancelPriceSchedule('product-1', 'sale-1');
+
+      // Assert
+      expect(sale.update).toHaveBeenCalledWith({ endsAt: expect.any(Date) }, { transaction: mockTransaction });
+      expect(sale.update).toHaveBeenCalledWith({ status: 'ended' }, { transaction: mockTransaction });
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
+        type: 'product.price_changed',
+        payload: expect.objectContaining({ previousPrice: 75, price: 100, reason: 'sale_ended' }),
+      }, mockTransaction);
+    });
+
+    it('should not cancel a change that has taken effect', async () => {
+      // Arrange
+      (ProductPrice.findOne as jest.Mock).mockResolvedValue(mockSchedule({ status: 'applied' }));
+
+      // Act & Assert
+      await expect(
+        pricingService.cancelPriceSchedule('product-1', 'schedule-1')
+      ).rejects.toThrow('Price schedule is already applied');
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError if the schedule is not the product\'s', async () => {
+      // Act & Assert
+      await expect(pricingService.cancelPriceSchedule('product-1', 'missing')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('getPriceHistory', () => {
+    it('should list changes most recent first', async () => {
+      // Act
+      const result = await pricingService.getPriceHistory('product-1', 20, 40);
+
+      // Assert
+      expect(PriceHistory.findAndCountAll).toHaveBeenCalledWith({
+        where: { productId: 'product-1' },
+        order: [['effectiveAt', 'DESC'], ['createdAt', 'DESC']],
+        limit: 20,
+        offset: 40,
+      });
+      expect(result).toEqual({ history: [], total: 0, limit: 20, offset: 40 });
+    });
+
+    it('should cap the page size at the largest page allowed', async () => {
+      // Act
+      const result = await pricingService.getPriceHistory('product-1', 1000);
+
+      // Assert
+      expect(PriceHistory.findAndCountAll).toHaveBeenCalledWith(expect.objectContaining({ limit: 100 }));
+      expect(result.limit).toBe(100);
+    });
+
+    it('should throw NotFoundError if product does not exist', async () => {
+      // Arrange
+      (Product.findByPk as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(pricingService.getPriceHistory('missing')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('applyDuePriceChanges', () => {
+    it('should settle each product with changes due once', async () => {
+      // Arrange
+      (ProductPrice.findAll as jest.Mock)
+        .mockResolvedValueOnce([
+          mockSchedule({ productId: 'product-1' }),
+          mockSale({ productId: 'product-1' }),
+          mockSchedule({ productId: 'product-2' }),
+        ])
+        .mockResolvedValue([]);
+
+      // Act
+      const applied = await pricingService.applyDuePriceChanges();
+
+      // Assert
+      expect(Product.findByPk).toHaveBeenCalledTimes(2);
+      expect(Product.findByPk).toHaveBeenCalledWith('product-1', { transaction: mockTransaction, lock: 'UPDATE' });
+      expect(Product.findByPk).toHaveBeenCalledWith('product-2', { transaction: mockTransaction, lock: 'UPDATE' });
+      expect(mockTransaction.commit).toHaveBeenCalledTimes(2);
+      expect(applied).toBe(2);
+    });
+
+    it('should carry on past a product that fails', async () => {
+      // Arrange
+      (ProductPrice.findAll as jest.Mock)
+        .mockResolvedValueOnce([mockSchedule({ productId: 'product-1' }), mockSchedule({ productId: 'product-2' })])
+        .mockResolvedValue([]);
+      (Product.findByPk as jest.Mock)
+        .mockRejectedValueOnce(new Error('deadlock detected'))
+        .mockResolvedValue(mockProduct({ id: 'product-2' }));
+
+      // Act
+      const applied = await pricingService.applyDuePriceChanges();
+
+      // Assert
+      expect(mockTransaction.rollback).toHaveBeenCalledTimes(1);
+      expect(applied).toBe(1);
+    });
+  });
+});
@@ -4,7 +4,8 @@
  */
 
 import { ProductService } from '../../src/services/product.service';
-import { Product } from '../../src/config/database';
+import { Product, ProductVariant } from '../../src/config/database';
+import sequelize from '../../src/config/database';
 import {
   NotFoundError,
   ConflictError,
@@ -15,16 +16,45 @@ import { Op } from 'sequelize';
 // Mock dependencies
 jest.mock('../../src/config/database');
 jest.mock('../../src/events/event-publisher');
+jest.mock('../../src/services/variant.service');
+jest.mock('../../src/services/category.service');
+jest.mock('../../src/services/media.service');
+jest.mock('../../src/services/pricing.service');
 
 describe('ProductService', () => {
   let productService: ProductService;
   let mockEventPublisher: any;
+  let mockVariantService: any;
+  let mockCategoryService: any;
+  let mockMediaService: any;
+  let mockPricingService: any;
+  let mockTransaction: any;
+
+  const electronics = { id: 'category-electronics', name: 'Electronics', slug: 'electronics' };
 
   beforeEach(() => {
     jest.clearAllMocks();
     productService = new ProductService();
     mockEventPublisher = (productService as any).eventPublisher;
     mockEventPublisher.publishEvent = jest.fn().mockResolvedValue(undefined);
+    mockVariantService = (productService as any).variantService;
+    mockVariantService.getVariantsByProduct = jest.fn().mockResolvedValue(new Map());
+    mockVariantService.assertVariantsFit = jest.fn().mockResolvedValue(undefined);
+    mockCategoryService = (productService as any).categoryService;
+    mockCategoryService.resolveCategory = jest.fn().mockResolvedValue(electronics);
+    mockCategoryService.getCategoryIdsWithin = jest.fn().mockResolvedValue(['category-electronics', 'category-phones']);
+    mockMediaService = (productService as any).mediaService;
+    mockMediaService.getMediaByProduct = jest.fn().mockResolvedValue(new Map());
+    mockPricingService = (productService as any).pricingService;
+    mockPricingService.resolvePrices = jest.fn().mockResolvedValue(new Map());
+    mockPricingService.settlePrice = jest.fn().mockResolvedValue(undefined);
+
+    // Mock transaction
+    mockTransaction = {
+      commit: jest.fn().mockResolvedValue(undefined),
+      rollback: jest.fn().mockResolvedValue(undefined),
+    };
+    (sequelize.transaction as jest.Mock) = jest.fn().mockResolvedValue(mockTransaction);
   });
 
   describe('createProduct', () => {
@@ -32,7 +62,7 @@ describe('ProductService', () => {
       name: 'Test Product',
       description: 'A test product',
       price: 99.99,
-      category: 'electronics',
+      categoryId: 'category-electronics',
       sku: 'TEST-SKU-001',
       vendorId: 'vendor-123',
     };
@@ -42,7 +72,8 @@ describe('ProductService', () => {
       const mockProduct = {
         id: 'product-123',
         ...validProductData,
-        toJSON: () => ({ id: 'product-123', ...validProductData }),
+        category: 'Electronics',
+        toJSON: () => ({ id: 'product-123', ...validProductData, category: 'Electronics' }),
       };
 
       (Product.findOne as jest.Mock).mockResolvedValue(null);
@@ -53,19 +84,35 @@ describe('ProductService', () => {
 
       // Assert
       expect(Product.findOne).toHaveBeenCalledWith({ where: { sku: validProductData.sku } });
-      expect(Product.create).toHaveBeenCalledWith(validProductData);
+      expect(mockCategoryService.resolveCategory).toHaveBeenCalledWith('category-electronics');
+      expect(Product.create).toHaveBeenCalledWith(
+        { ...validProductData, category: 'Electronics' },
+        { transaction: mockTransaction }
+      );
       expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
         type: 'product.created',
         payload: {
           productId: 'product-123',
           name: validProductData.name,
           price: validProductData.price,
-          category: validProductData.category,
+          categoryId: 'category-electronics',
+          category: 'Electronics',
           sku: validProductData.sku,
           vendorId: validProductData.vendorId,
         },
-      });
-      expect(result).toEqual({ id: 'product-123', ...validProductData });
+      }, mockTransaction);
+      expect(mockPricingService.settlePrice).toHaveBeenCalledWith(mockProduct, mockTransaction, { reason: 'created' });
+      expect(result).toEqual({ id: 'product-123', ...validProductData, category: 'Electronics' });
+    });
+
+    it('should not create a product in a category that does not exist', async () => {
+      // Arrange
+      (Product.findOne as jest.Mock).mockResolvedValue(null);
+      mockCategoryService.resolveCategory.mockRejectedValue(new NotFoundError('Category'));
+
+      // Act & Assert
+      await expect(productService.createProduct(validProductData)).rejects.toThrow(NotFoundError);
+      expect(Product.create).not.toHaveBeenCalled();
     });
 
     it('should throw ConflictError if SKU already exists', async () => {
@@ -107,7 +154,84 @@ describe('ProductService', () => {
 
       // Assert
       expect(Product.findByPk).toHaveBeenCalledWith('product-123');
-      expect(result).toEqual({ id: 'product-123', name: 'Test Product', price: 99.99 });
+      expect(result).toEqual({ id: 'product-123', name: 'Test Product', price: 99.99, variants: [], media: [], primaryImageUrl: null });
+    });
+
+    it('should return the variant matrix of a product sold in variants', async () => {
+      // Arrange
+      const options = [{ name: 'size', values: ['S', 'M'] }];
+      const mockProduct = {
+        id: 'product-123',
+        options,
+        toJSON: () => ({ id: 'product-123', price: 20, options }),
+      };
+      const variants = [
+        { id: 'variant-s', sku: 'TEE-S', options: { size: 'S' }, price: null, effectivePrice: 20 },
+        { id: 'variant-m', sku: 'TEE-M', options: { size: 'M' }, price: 22, effectivePrice: 22 },
+      ];
+
+      (Product.findByPk as jest.Mock).mockResolvedValue(mockProduct);
+      mockVariantService.getVariantsByProduct.mockResolvedValue(new Map([['product-123', variants]]));
+
+      // Act
+      const result = await productService.getProductById('product-123');
+
+      // Assert
+      expect(mockVariantService.getVariantsByProduct).toHaveBeenCalledWith([mockProduct], new Map());
+      expect(result).toEqual({ id: 'product-123', price: 20, options, variants, media: [], primaryImageUrl: null });
+    });
+
+    it('should use the first image as the primary image', async () => {
+      // Arrange
+      const mockProduct = {
+        id: 'product-123',
+        toJSON: () => ({ id: 'product-123' }),
+      };
+      const media = [
+        { id: 'media-1', url: '/api/products/media/products/product-123/media-1.jpg', position: 0 },
+        { id: 'media-2', url: '/api/products/media/products/product-123/media-2.png', position: 1 },
+      ];
+
+      (Product.findByPk as jest.Mock).mockResolvedValue(mockProduct);
+      mockMediaService.getMediaByProduct.mockResolvedValue(new Map([['product-123', media]]));
+
+      // Act
+      const result = await productService.getProductById('product-123');
+
+      // Assert
+      expect(mockMediaService.getMediaByProduct).toHaveBeenCalledWith(['product-123']);
+      expect(result.media).toEqual(media);
+      expect(result.primaryImageUrl).toBe('/api/products/media/products/product-123/media-1.jpg');
+    });
+
+    it('should return the price the product sells at now', async () => {
+      // Arrange
+      const mockProduct = {
+        id: 'product-123',
+        price: '99.99',
+        toJSON: () => ({ id: 'product-123', price: '99.99' }),
+      };
+      const endsAt = new Date('2026-12-01T00:00:00Z');
+
+      (Product.findByPk as jest.Mock).mockResolvedValue(mockProduct);
+      mockPricingService.resolvePrices.mockResolvedValue(new Map([['product-123', {
+        price: 99.99,
+        effectivePrice: 79.99,
+        compareAtPrice: 99.99,
+        sale: { id: 'sale-1', endsAt },
+      }]]));
+
+      // Act
+      const result = await productService.getProductById('product-123');
+
+      // Assert
+      expect(mockPricingService.resolvePrices).toHaveBeenCalledWith([mockProduct]);
+      expect(result).toEqual(expect.objectContaining({
+        price: 99.99,
+        effectivePrice: 79.99,
+        compareAtPrice: 99.99,
+        sale: { id: 'sale-1', endsAt },
+      }));
     });
 
     it('should throw NotFoundError if product does not exist', async () => {
@@ -120,6 +244,28 @@ describe('ProductService', () => {
     });
   });
 
+  describe('getProductOwner', () => {
+    it('should return the vendor that owns the product', async () => {
+      // Arrange
+      (Product.findByPk as jest.Mock).mockResolvedValue({ id: 'product-123', vendorId: 'vendor-123' });
+
+      // Act
+      const result = await productService.getProductOwner('product-123');
+
+      // Assert
+      expect(Product.findByPk).toHaveBeenCalledWith('product-123', { attributes: ['id', 'vendorId'] });
+      expect(result).toBe('vendor-123');
+    });
+
+    it('should throw NotFoundError if product does not exist', async () => {
+      // Arrange
+      (Product.findByPk as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(productService.getProductOwner('nonexistent')).rejects.toThrow(NotFoundError);
+    });
+  });
+
   describe('getProductBySku', () => {
     it('should return product by SKU', async () => {
       // Arrange
@@ -137,12 +283,35 @@ describe('ProductService', () => {
 
       // Assert
       expect(Product.findOne).toHaveBeenCalledWith({ where: { sku: 'TEST-SKU-001' } });
-      expect(result).toEqual({ id: 'product-123', sku: 'TEST-SKU-001', name: 'Test Product' });
+      expect(result).toEqual({ id: 'product-123', sku: 'TEST-SKU-001', name: 'Test Product', variants: [], media: [], primaryImageUrl: null });
+    });
+
+    it('should find the product of a variant SKU', async () => {
+      // Arrange
+      const mockProduct = {
+        id: 'product-123',
+        toJSON: () => ({ id: 'product-123', sku: 'TEE' }),
+      };
+      const variant = { id: 'variant-m', sku: 'TEE-M', options: { size: 'M' }, effectivePrice: 20 };
+
+      (Product.findOne as jest.Mock).mockResolvedValue(null);
+      (ProductVariant.findOne as jest.Mock) = jest.fn().mockResolvedValue({ id: 'variant-m', productId: 'product-123' });
+      (Product.findByPk as jest.Mock).mockResolvedValue(mockProduct);
+      mockVariantService.getVariantsByProduct.mockResolvedValue(new Map([['product-123', [variant]]]));
+
+      // Act
+      const result = await productService.getProductBySku('TEE-M');
+
+      // Assert
+      expect(ProductVariant.findOne).toHaveBeenCalledWith({ where: { sku: 'TEE-M' } });
+      expect(Product.findByPk).toHaveBeenCalledWith('product-123');
+      expect(result).toEqual({ id: 'product-123', sku: 'TEE', variants: [variant], media: [], primaryImageUrl: null, variant });
     });
 
     it('should throw NotFoundError if product does not exist', async () => {
       // Arrange
       (Product.findOne as jest.Mock).mockResolvedValue(null);
+      (ProductVariant.findOne as jest.Mock) = jest.fn().mockResolvedValue(null);
 
       // Act & Assert
       await expect(productService.getProductBySku('NONEXISTENT')).rejects.toThrow(NotFoundError);
@@ -168,15 +337,58 @@ describe('ProductService', () => {
 
       // Assert
       expect(Product.findByPk).toHaveBeenCalledWith('product-123');
-      expect(mockProduct.update).toHaveBeenCalledWith(updates);
+      expect(mockProduct.update).toHaveBeenCalledWith({ name: 'Updated Product' }, { transaction: mockTransaction });
+      expect(mockPricingService.settlePrice).toHaveBeenCalledWith(mockProduct, mockTransaction, { listPrice: 149.99 });
       expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
         type: 'product.updated',
         payload: {
           productId: 'product-123',
           updates,
         },
-      });
-      expect(result).toEqual({ id: 'product-123', name: 'Updated Product', price: 149.99 });
+      }, mockTransaction);
+      expect(result).toEqual({ id: 'product-123', name: 'Updated Product', price: 149.99, variants: [], media: [], primaryImageUrl: null });
+    });
+
+    it('should move a product to another category under its name', async () => {
+      // Arrange
+      const mockProduct = {
+        id: 'product-123',
+        update: jest.fn().mockResolvedValue(undefined),
+        toJSON: () => ({ id: 'product-123' }),
+      };
+      (Product.findByPk as jest.Mock).mockResolvedValue(mockProduct);
+
+      // Act
+      await productService.updateProduct('product-123', { categoryId: 'category-electronics' });
+
+      // Assert
+      expect(mockProduct.update).toHaveBeenCalledWith(
+        { categoryId: 'category-electronics', category: 'Electronics' },
+        { transaction: mockTransaction }
+      );
+      expect(mockPricingService.settlePrice).not.toHaveBeenCalled();
+    });
+
+    it('should not change options that existing variants no longer fit', async () => {
+      // Arrange
+      const mockProduct = {
+        id: 'product-123',
+        update: jest.fn(),
+      };
+
+      (Product.findByPk as jest.Mock).mockResolvedValue(mockProduct);
+      mockVariantService.assertVariantsFit.mockRejectedValue(
+        new ValidationError('Variant TEE-XL does not fit the new options: XL is not a value of option size')
+      );
+
+      // Act & Assert
+      await expect(
+        productService.updateProduct('product-123', { options: [{ name: 'size', values: ['S', 'M'] }] })
+      ).rejects.toThrow(ValidationError);
+      expect(mockVariantService.assertVariantsFit).toHaveBeenCalledWith('product-123', [
+        { name: 'size', values: ['S', 'M'] },
+      ]);
+      expect(mockProduct.update).not.toHaveBeenCalled();
     });
 
     it('should throw NotFoundError if product does not exist', async () => {
@@ -219,14 +431,14 @@ describe('ProductService', () => {
 
       // Assert
       expect(Product.findByPk).toHaveBeenCalledWith('product-123');
-      expect(mockProduct.update).toHaveBeenCalledWith({ isActive: false });
+      expect(mockProduct.update).toHaveBeenCalledWith({ isActive: false }, { transaction: mockTransaction });
       expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
         type: 'product.deleted',
         payload: {
           productId: 'product-123',
           sku: 'TEST-SKU-001',
         },
-      });
+      }, mockTransaction);
       expect(result).toEqual({ success: true, message: 'Product deleted successfully' });
     });
 
@@ -240,11 +452,16 @@ describe('ProductService', () => {
   });
 
   describe('searchProducts', () => {
-    it('should search products by category', async () => {
+    beforeEach(() => {
+      (Product.findAll as jest.Mock) = jest.fn().mockResolvedValue([]);
+      (sequelize.escape as jest.Mock) = jest.fn((value: string) => `'${value}'`);
+    });
+
+    it('should search products in a category and its subcategories', async () => {
       // Arrange
       const mockProducts = [
-        { id: '1', name: 'Product 1', category: 'electronics', toJSON: () => ({ id: '1', name: 'Product 1', category: 'electronics' }) },
-        { id: '2', name: 'Product 2', category: 'electronics', toJSON: () => ({ id: '2', name: 'Product 2', category: 'electronics' }) },
+        { id: '1', name: 'Product 1', category: 'Electronics', toJSON: () => ({ id: '1', name: 'Product 1', category: 'Electronics' }) },
+        { id: '2', name: 'Product 2', category: 'Phones', toJSON: () => ({ id: '2', name: 'Product 2', category: 'Phones' }) },
       ];
 
       (Product.findAndCountAll as jest.Mock).mockResolvedValue({
@@ -253,11 +470,12 @@ describe('ProductService', () => {
       });
 
       // Act
-      const result = await productService.searchProducts({ category: 'electronics' });
+      const result = await productService.searchProducts({ categoryId: 'category-electronics' });
 
       // Assert
+      expect(mockCategoryService.getCategoryIdsWithin).toHaveBeenCalledWith('category-electronics');
       expect(Product.findAndCountAll).toHaveBeenCalledWith({
-        where: { category: 'electronics' },
+        where: { categoryId: ['category-electronics', 'category-phones'] },
         limit: 100,
         offset: 0,
         order: [['createdAt', 'DESC']],
@@ -266,6 +484,37 @@ describe('ProductService', () => {
       expect(result.total).toBe(2);
     });
 
+    it('should accept a category given by name, as before categoryId', async () => {
+      // Arrange
+      mockCategoryService.resolveCategory = jest.fn().mockResolvedValue({ id: 'category-electronics' });
+      (Product.findAndCountAll as jest.Mock).mockResolvedValue({ rows: [], count: 0 });
+
+      // Act
+      await productService.searchProducts({ category: 'Electronics' });
+
+      // Assert
+      expect(mockCategoryService.resolveCategory).toHaveBeenCalledWith('Electronics');
+      expect(mockCategoryService.getCategoryIdsWithin).toHaveBeenCalledWith('category-electronics');
+      expect(Product.findAndCountAll).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { categoryId: ['category-electronics', 'category-phones'] } })
+      );
+    });
+
+    it('should match no products for an unknown category name', async () => {
+      // Arrange
+      mockCategoryService.resolveCategory = jest.fn().mockRejectedValue(new NotFoundError('Category'));
+      (Product.findAndCountAll as jest.Mock).mockResolvedValue({ rows: [], count: 0 });
+
+      // Act
+      const result = await productService.searchProducts({ category: 'Gadgets' });
+
+      // Assert
+      expect(Product.findAndCountAll).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { categoryId: [] } })
+      );
+      expect(result.total).toBe(0);
+    });
+
     it('should search products by price range', async () => {
       // Arrange
       (Product.findAndCountAll as jest.Mock).mockResolvedValue({
@@ -290,7 +539,7 @@ describe('ProductService', () => {
       });
     });
 
-    it('should search products by search term', async () => {
+    it('should search products by search term with full-text and trigram matching', async () => {
       // Arrange
       const mockProducts = [
         { id: '1', name: 'Laptop', toJSON: () => ({ id: '1', name: 'Laptop' }) },
@@ -305,21 +554,109 @@ describe('ProductService', () => {
       const result = await productService.searchProducts({ searchTerm: 'laptop' });
 
       // Assert
-      expect(Product.findAndCountAll).toHaveBeenCalledWith({
-        where: {
-          [Op.or]: [
-            { name: { [Op.iLike]: '%laptop%' } },
-            { description: { [Op.iLike]: '%laptop%' } },
-            { sku: { [Op.iLike]: '%laptop%' } },
-          ],
-        },
-        limit: 100,
-        offset: 0,
-        order: [['createdAt', 'DESC']],
-      });
+      const options = (Product.findAndCountAll as jest.Mock).mock.calls[0][0];
+      const [match] = options.where[Op.and];
+      expect(match.val).toContain("@@ websearch_to_tsquery('english', 'laptop')");
+      expect(match.val).toContain("'laptop' <% name");
+      expect(match.val).toContain("sku ILIKE 'laptop%'");
+      expect(sequelize.escape).toHaveBeenCalledWith('laptop');
       expect(result.products).toHaveLength(1);
     });
 
+    it('should match SKUs by prefix, escaping wildcards in the term', async () => {
+      // Arrange
+      (Product.findAndCountAll as jest.Mock).mockResolvedValue({ rows: [], count: 0 });
+
+      // Act
+      await productService.searchProducts({ searchTerm: 'LAP_10%' });
+
+      // Assert
+      const options = (Product.findAndCountAll as jest.Mock).mock.calls[0][0];
+      const [match] = options.where[Op.and];
+      expect(match.val).toContain("sku ILIKE 'LAP\\_10\\%%'");
+    });
+
+    it('should order search results by relevance before recency', async () => {
+      // Arrange
+      (Product.findAndCountAll as jest.Mock).mockResolvedValue({
+        rows: [],
+        count: 0,
+      });
+
+      // Act
+      await productService.searchProducts({ searchTerm: 'lapotp' });
+
+      // Assert
+      const { order } = (Product.findAndCountAll as jest.Mock).mock.calls[0][0];
+      expect(order).toHaveLength(2);
+      expect(order[0][0].val).toContain('ts_rank_cd(');
+      expect(order[0][0].val).toContain("word_similarity('lapotp', name)");
+      expect(order[0][1]).toBe('DESC');
+      expect(order[1]).toEqual(['createdAt', 'DESC']);
+    });
+
+    it('should return facet counts for category, vendor and price range', async () => {
+      // Arrange
+      (Product.findAndCountAll as jest.Mock).mockResolvedValue({
+        rows: [],
+        count: 0,
+      });
+      (Product.findAll as jest.Mock)
+        .mockResolvedValueOnce([
+          { categoryId: 'category-electronics', category: 'Electronics', count: '3' },
+          { categoryId: 'category-books', category: 'Books', count: '1' },
+        ])
+        .mockResolvedValueOnce([{ vendorId: 'vendor-1', count: '4' }])
+        .mockResolvedValueOnce([
+          { bucket0: '1', bucket1: '0', bucket2: '2', bucket3: '1', bucket4: '0', bucket5: '0' },
+        ]);
+
+      // Act
+      const result = await productService.searchProducts({ searchTerm: 'laptop' });
+
+      // Assert
+      expect(result.facets).toEqual({
+        categories: [
+          { value: 'category-electronics', name: 'Electronics', count: 3 },
+          { value: 'category-books', name: 'Books', count: 1 },
+        ],
+        vendors: [{ value: 'vendor-1', count: 4 }],
+        priceRanges: [
+          { min: 0, max: 25, count: 1 },
+          { min: 25, max: 50, count: 0 },
+          { min: 50, max: 100, count: 2 },
+          { min: 100, max: 250, count: 1 },
+          { min: 250, max: 500, count: 0 },
+          { min: 500, max: null, count: 0 },
+        ],
+      });
+    });
+
+    it('should count each facet without its own filter', async () => {
+      // Arrange
+      (Product.findAndCountAll as jest.Mock).mockResolvedValue({
+        rows: [],
+        count: 0,
+      });
+
+      // Act
+      await productService.searchProducts({
+        categoryId: 'category-electronics',
+        vendorId: 'vendor-1',
+        minPrice: 50,
+        isActive: true,
+      });
+
+      // Assert
+      const [categoryFacet, vendorFacet, priceFacet] = (Product.findAll as jest.Mock).mock.calls.map(
+        ([options]) => options.where
+      );
+      expect(categoryFacet).toEqual({ vendorId: 'vendor-1', isActive: true, price: { [Op.gte]: 50 } });
+      const categoryIds = ['category-electronics', 'category-phones'];
+      expect(vendorFacet).toEqual({ categoryId: categoryIds, isActive: true, price: { [Op.gte]: 50 } });
+      expect(priceFacet).toEqual({ categoryId: categoryIds, vendorId: 'vendor-1', isActive: true });
+    });
+
     it('should support pagination', async () => {
       // Arrange
       (Product.findAndCountAll as jest.Mock).mockResolvedValue({
@@ -338,52 +675,131 @@ describe('ProductService', () => {
         order: [['createdAt', 'DESC']],
       });
     });
+
+    it('should cap the page size at the largest page allowed', async () => {
+      // Arrange
+      (Product.findAndCountAll as jest.Mock).mockResolvedValue({ rows: [], count: 0 });
+
+      // Act
+      const result = await productService.searchProducts({ limit: 1000 });
+
+      // Assert
+      expect(Product.findAndCountAll).toHaveBeenCalledWith(expect.objectContaining({ limit: 100 }));
+      expect(result.limit).toBe(100);
+    });
   });
 
   describe('getAllProducts', () => {
-    it('should return all active products with default pagination', async () => {
-      // Arrange
-      const mockProducts = [
-        { id: '1', name: 'Product 1', isActive: true, toJSON: () => ({ id: '1', name: 'Product 1' }) },
-        { id: '2', name: 'Product 2', isActive: true, toJSON: () => ({ id: '2', name: 'Product 2' }) },
-      ];
+    const mockListed = (id: string, createdAt: Date) => ({
+      id,
+      name: `Product ${id}`,
+      createdAt,
+      get: (field: string) => (field === 'createdAt' ? createdAt : undefined),
+      toJSON: () => ({ id, name: `Product ${id}` }),
+    });
 
-      (Product.findAndCountAll as jest.Mock).mockResolvedValue({
-        rows: mockProducts,
-        count: 2,
-      });
+    beforeEach(() => {
+      (Product.findAll as jest.Mock) = jest.fn().mockResolvedValue([]);
+    });
+
+    it('should return the first page of active products, newest first', async () => {
+      // Arrange
+      (Product.findAll as jest.Mock).mockResolvedValue([
+        mockListed('1', new Date('2026-01-02')),
+        mockListed('2', new Date('2026-01-01')),
+      ]);
 
       // Act
       const result = await productService.getAllProducts();
 
       // Assert
-      expect(Product.findAndCountAll).toHaveBeenCalledWith({
+      expect(Product.findAll).toHaveBeenCalledWith({
         where: { isActive: true },
-        limit: 100,
-        offset: 0,
-        order: [['createdAt', 'DESC']],
+        order: [['createdAt', 'DESC'], ['id', 'DESC']],
+        limit: 51,
       });
       expect(result.products).toHaveLength(2);
-      expect(result.total).toBe(2);
+      expect(result.pagination).toEqual({
+        limit: 50,
+        sort: 'createdAt',
+        order: 'desc',
+        nextCursor: null,
+        hasMore: false,
+      });
     });
 
-    it('should support custom pagination', async () => {
+    it('should give a cursor that continues after the last product of the page', async () => {
       // Arrange
-      (Product.findAndCountAll as jest.Mock).mockResolvedValue({
-        rows: [],
-        count: 0,
+      const lastCreated = new Date('2026-01-02');
+      (Product.findAll as jest.Mock).mockResolvedValueOnce([
+        mockListed('1', new Date('2026-01-03')),
+        mockListed('2', lastCreated),
+        mockListed('3', new Date('2026-01-01')),
+      ]);
+
+      // Act
+      const first = await productService.getAllProducts({ limit: '2' });
+      await productService.getAllProducts({ cursor: first.pagination.nextCursor! });
+
+      // Assert
+      expect(first.products.map((p: any) => p.id)).toEqual(['1', '2']);
+      expect(first.pagination.hasMore).toBe(true);
+      const { where, order } = (Product.findAll as jest.Mock).mock.calls[1][0];
+      expect(order).toEqual([['createdAt', 'DESC'], ['id', 'DESC']]);
+      expect(where).toEqual({
+        [Op.and]: [
+          { isActive: true },
+          {
+            [Op.or]: [
+              { createdAt: { [Op.lt]: lastCreated.toISOString() } },
+              { createdAt: lastCreated.toISOString(), id: { [Op.lt]: '2' } },
+            ],
+          },
+        ],
       });
+    });
 
+    it('should sort by a whitelisted field', async () => {
       // Act
-      await productService.getAllProducts(50, 100);
+      const result = await productService.getAllProducts({ sort: 'price', order: 'asc', limit: 10 });
 
       // Assert
-      expect(Product.findAndCountAll).toHaveBeenCalledWith({
+      expect(Product.findAll).toHaveBeenCalledWith({
         where: { isActive: true },
-        limit: 50,
-        offset: 100,
-        order: [['createdAt', 'DESC']],
+        order: [['price', 'ASC'], ['id', 'ASC']],
+        limit: 11,
       });
+      expect(result.pagination).toMatchObject({ sort: 'price', order: 'asc', limit: 10 });
+    });
+
+    it('should reject sort fields that are not whitelisted', async () => {
+      // Act & Assert
+      await expect(productService.getAllProducts({ sort: 'vendorId' })).rejects.toThrow(ValidationError);
+      expect(Product.findAll).not.toHaveBeenCalled();
+    });
+
+    it('should reject page sizes over the maximum', async () => {
+      // Act & Assert
+      await expect(productService.getAllProducts({ limit: 500 })).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject a malformed cursor', async () => {
+      // Act & Assert
+      await expect(productService.getAllProducts({ cursor: 'not-a-cursor' })).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject a cursor issued for a different sort', async () => {
+      // Arrange
+      (Product.findAll as jest.Mock).mockResolvedValueOnce([
+        mockListed('1', new Date('2026-01-02')),
+        mockListed('2', new Date('2026-01-01')),
+      ]);
+      const first = await productService.getAllProducts({ limit: 1 });
+
+      // Act & Assert
+      await expect(
+        productService.getAllProducts({ cursor: first.pagination.nextCursor!, sort: 'name' })
+      ).rejects.toThrow(ValidationError);
     });
   });
 
@@ -394,48 +810,56 @@ describe('ProductService', () => {
         { id: '1', name: 'Product 1', vendorId: 'vendor-123', toJSON: () => ({ id: '1', name: 'Product 1' }) },
       ];
 
-      (Product.findAndCountAll as jest.Mock).mockResolvedValue({
-        rows: mockProducts,
-        count: 1,
-      });
+      (Product.findAll as jest.Mock) = jest.fn().mockResolvedValue(mockProducts);
 
       // Act
       const result = await productService.getProductsByVendor('vendor-123');
 
       // Assert
-      expect(Product.findAndCountAll).toHaveBeenCalledWith({
+      expect(Product.findAll).toHaveBeenCalledWith({
         where: { vendorId: 'vendor-123', isActive: true },
-        limit: 100,
-        offset: 0,
-        order: [['createdAt', 'DESC']],
+        order: [['createdAt', 'DESC'], ['id', 'DESC']],
+        limit: 51,
       });
       expect(result.products).toHaveLength(1);
     });
   });
 
   describe('getProductsByCategory', () => {
-    it('should return products for a specific category', async () => {
+    beforeEach(() => {
+      (Product.findAll as jest.Mock) = jest.fn().mockResolvedValue([]);
+    });
+
+    it('should return products in a category and its subcategories', async () => {
       // Arrange
       const mockProducts = [
-        { id: '1', name: 'Product 1', category: 'electronics', toJSON: () => ({ id: '1', name: 'Product 1' }) },
+        { id: '1', name: 'Product 1', category: 'Electronics', toJSON: () => ({ id: '1', name: 'Product 1' }) },
       ];
 
-      (Product.findAndCountAll as jest.Mock).mockResolvedValue({
-        rows: mockProducts,
-        count: 1,
-      });
+      (Product.findAll as jest.Mock).mockResolvedValue(mockProducts);
 
       // Act
-      const result = await productService.getProductsByCategory('electronics');
+      const result = await productService.getProductsByCategory('Electronics');
 
       // Assert
-      expect(Product.findAndCountAll).toHaveBeenCalledWith({
-        where: { category: 'electronics', isActive: true },
-        limit: 100,
-        offset: 0,
-        order: [['createdAt', 'DESC']],
+      expect(mockCategoryService.resolveCategory).toHaveBeenCalledWith('Electronics');
+      expect(mockCategoryService.getCategoryIdsWithin).toHaveBeenCalledWith('category-electronics');
+      expect(Product.findAll).toHaveBeenCalledWith({
+        where: { categoryId: ['category-electronics', 'category-phones'], isActive: true },
+        order: [['createdAt', 'DESC'], ['id', 'DESC']],
+        limit: 51,
       });
+      expect(result.category).toEqual(electronics);
       expect(result.products).toHaveLength(1);
     });
+
+    it('should throw NotFoundError if category does not exist', async () => {
+      // Arrange
+      mockCategoryService.resolveCategory.mockRejectedValue(new NotFoundError('Category'));
+
+      // Act & Assert
+      await expect(productService.getProductsByCategory('nonexistent')).rejects.toThrow(NotFoundError);
+      expect(Product.findAll).not.toHaveBeenCalled();
+    });
   });
 });
@@ -0,0 +1,77 @@
+/**
+ * Unit tests for Purchase Service
+ */
+
+import { PurchaseService } from '../../src/services/purchase.service';
+import { ServiceUnavailableError } from '@cloudretail/middleware';
+
+// Mock fetch
+global.fetch = jest.fn();
+
+describe('PurchaseService', () => {
+  let purchaseService: PurchaseService;
+
+  const productId = '0d9e8f7a-6b5c-4d3e-8f1a-2b3c4d5e6f70';
+  const authorization = 'Bearer customer-token';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    purchaseService = new PurchaseService();
+  });
+
+  describe('getDeliveredOrder', () => {
+    it('should return the delivered order containing the product', async () => {
+      // Arrange
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ success: true, data: { productId, purchased: true, orderId: 'order-1' } }),
+      });
+
+      // Act
+      const result = await purchaseService.getDeliveredOrder(productId, authorization);
+
+      // Assert
+      expect(global.fetch).toHaveBeenCalledWith(
+        `http://localhost:3003/api/orders/purchases/${productId}`,
+        { headers: { Authorization: authorization } }
+      );
+      expect(result).toBe('order-1');
+    });
+
+    it('should return null if the customer has not received the product', async () => {
+      // Arrange
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ success: true, data: { productId, purchased: false, orderId: null } }),
+      });
+
+      // Act
+      const result = await purchaseService.getDeliveredOrder(productId, authorization);
+
+      // Assert
+      expect(result).toBeNull();
+    });
+
+    it('should throw ServiceUnavailableError if the order service fails', async () => {
+      // Arrange
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: false, status: 500 });
+
+      // Act & Assert
+      await expect(purchaseService.getDeliveredOrder(productId, authorization)).rejects.toThrow(
+        ServiceUnavailableError
+      );
+    });
+
+    it('should throw ServiceUnavailableError if the order service is unreachable', async () => {
+      // Arrange
+      (global.fetch as jest.Mock).mockRejectedValue(new Error('ECONNREFUSED'));
+
+      // Act & Assert
+      await expect(purchaseService.getDeliveredOrder(productId, authorization)).rejects.toThrow(
+        ServiceUnavailableError
+      );
+    });
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Unit tests for Review Service
+ * Tests verified-purchase reviews, moderation, helpful votes and ratings
+ */
+
+import { ReviewService } from '../../src/services/review.service';
+import { Product, ProductReview, ReviewVote } from '../../src/config/database';
+import sequelize from '../../src/config/database';
+import {
+  NotFoundError,
+  ConflictError,
+  ForbiddenError,
+} from '@cloudretail/middleware';
+
+// Mock dependencies
+jest.mock('../../src/config/database');
+jest.mock('../../src/services/purchase.service');
+
+describe('ReviewService', () => {
+  let reviewService: ReviewService;
+  let mockPurchaseService: any;
+  let mockTransaction: any;
+  let product: any;
+
+  const authorization = 'Bearer customer-token';
+
+  const mockProduct = (overrides: any = {}) => {
+    const mock: any = {
+      id: 'product-1',
+      ratingAverage: null,
+      ratingCount: 0,
+      ...overrides,
+    };
+    mock.update = jest.fn(async (updates: any) => Object.assign(mock, updates));
+    return mock;
+  };
+
+  const mockReview = (overrides: any = {}) => {
+    const review: any = {
+      id: 'review-1',
+      productId: 'product-1',
+      userId: 'customer-1',
+      orderId: 'order-1',
+      rating: 4,
+      title: 'Solid',
+      body: 'Does what it says',
+      status: 'approved',
+      helpfulCount: 2,
+      ...overrides,
+    };
+    review.update = jest.fn(async (updates: any) => Object.assign(review, updates));
+    review.destroy = jest.fn().mockResolvedValue(undefined);
+    review.increment = jest.fn().mockResolvedValue(review);
+    review.decrement = jest.fn().mockResolvedValue(review);
+    return review;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    reviewService = new ReviewService();
+    mockPurchaseService = (reviewService as any).purchaseService;
+    mockPurchaseService.getDeliveredOrder = jest.fn().mockResolvedValue('order-1');
+
+    product = mockProduct();
+
+    // Models share inherited statics, so give each its own mocks
+    (Product.findByPk as jest.Mock) = jest.fn().mockResolvedValue(product);
+    (ProductReview.findByPk as jest.Mock) = jest.fn().mockResolvedValue(mockReview());
+    (ProductReview.findOne as jest.Mock) = jest.fn().mockResolvedValue(null);
+    (ProductReview.findAndCountAll as jest.Mock) = jest.fn().mockResolvedValue({ rows: [], count: 0 });
+    (ProductReview.create as jest.Mock) = jest.fn(async (data: any) => mockReview({ id: 'review-new', status: 'pending', helpfulCount: 0, ...data }));
+    (ReviewVote.findOne as jest.Mock) = jest.fn().mockResolvedValue(null);
+    (ReviewVote.create as jest.Mock) = jest.fn(async (data: any) => ({ id: 'vote-1', ...data }));
+    (ReviewVote.destroy as jest.Mock) = jest.fn().mockResolvedValue(0);
+
+    // Mock transaction
+    mockTransaction = {
+      commit: jest.fn().mockResolvedValue(undefined),
+      rollback: jest.fn().mockResolvedValue(undefined),
+      LOCK: { UPDATE: 'UPDATE' },
+    };
+    (sequelize.transaction as jest.Mock) = jest.fn().mockResolvedValue(mockTransaction);
+  });
+
+  describe('createReview', () => {
+    const reviewData = { rating: 5, title: 'Great', body: 'Works well' };
+
+    it('should create a pending review for a customer with a delivered order', async () => {
+      // Act
+      const result = await reviewService.createReview('product-1', 'customer-1', authorization, reviewData);
+
+      // Assert
+      expect(mockPurchaseService.getDeliveredOrder).toHaveBeenCalledWith('product-1', authorization);
+      expect(ProductReview.create).toHaveBeenCalledWith({
+        productId: 'product-1',
+        userId: 'customer-1',
+        orderId: 'order-1',
+        rating: 5,
+        title: 'Great',
+        body: 'Works well',
+      });
+      expect(result.status).toBe('pending');
+    });
+
+    it('should throw ForbiddenError if the customer has not received the product', async () => {
+      // Arrange
+      mockPurchaseService.getDeliveredOrder.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        reviewService.createReview('product-1', 'customer-1', authorization, reviewData)
+      ).rejects.toThrow(ForbiddenError);
+      expect(ProductReview.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictError if the customer already reviewed the product', async () => {
+      // Arrange
+      (ProductReview.findOne as jest.Mock).mockResolvedValue(mockReview());
+
+      // Act & Assert
+      await expect(
+        reviewService.createReview('product-1', 'customer-1', authorization, reviewData)
+      ).rejects.toThrow(ConflictError);
+      expect(mockPurchaseService.getDeliveredOrder).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError if the product does not exist', async () => {
+      // Arrange
+      (Product.findByPk as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        reviewService.createReview('missing', 'customer-1', authorization, reviewData)
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('getReviews', () => {
+    it('should return approved reviews with the product rating', async () => {
+      // Arrange
+      product.ratingAverage = 4.5;
+      product.ratingCount = 2;
+      const reviews = [mockReview(), mockReview({ id: 'review-2', rating: 5 })];
+      (ProductReview.findAndCountAll as jest.Mock).mockResolvedValue({ rows: reviews, count: 2 });
+
+      // Act
+      const result = await reviewService.getReviews('product-1', { sort: 'helpful' });
+
+      // Assert
+      expect(ProductReview.findAndCountAll).toHaveBeenCalledWith({
+        where: { productId: 'product-1', status: 'approved' },
+        order: [['helpfulCount', 'DESC'], ['createdAt', 'DESC']],
+        limit: 20,
+        offset: 0,
+      });
+      expect(result).toEqual({
+        ratingAverage: 4.5,
+        ratingCount: 2,
+        reviews,
+        total: 2,
+        limit: 20,
+        offset: 0,
+      });
+    });
+  });
+
+  describe('moderateReview', () => {
+    it('should approve a review and update the product rating', async () => {
+      // Arrange
+      const review = mockReview({ status: 'pending' });
+      (ProductReview.findByPk as jest.Mock).mockResolvedValue(review);
+      (ProductReview.findOne as jest.Mock).mockResolvedValue({ average: '4.3333333', count: '3' });
+
+      // Act
+      await reviewService.moderateReview('review-1', 'admin-1', { status: 'approved' });
+
+      // Assert
+      expect(review.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'approved', moderatedBy: 'admin-1' }),
+        { transaction: mockTransaction }
+      );
+      expect(product.update).toHaveBeenCalledWith(
+        { ratingAverage: 4.33, ratingCount: 3 },
+        { transaction: mockTransaction }
+      );
+      expect(mockTransaction.commit).toHaveBeenCalled();
+    });
+
+    it('should clear the rating when the last approved review is rejected', async () => {
+      // Arrange
+      (ProductReview.findOne as jest.Mock).mockResolvedValue({ average: null, count: '0' });
+
+      // Act
+      await reviewService.moderateReview('review-1', 'admin-1', { status: 'rejected', note: 'Off topic' });
+
+      // Assert
+      expect(product.update).toHaveBeenCalledWith(
+        { ratingAverage: null, ratingCount: 0 },
+        { transaction: mockTransaction }
+      );
+    });
+
+    it('should leave the rating alone when a pending review is rejected', async () => {
+      // Arrange
+      (ProductReview.findByPk as jest.Mock).mockResolvedValue(mockReview({ status: 'pending' }));
+
+      // Act
+      await reviewService.moderateReview('review-1', 'admin-1', { status: 'rejected' });
+
+      // Assert
+      expect(product.update).not.toHaveBeenCalled();
+    });
+
+    it('should roll back if the review does not exist', async () => {
+      // Arrange
+      (ProductReview.findByPk as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        reviewService.moderateReview('missing', 'admin-1', { status: 'approved' })
+      ).rejects.toThrow(NotFoundError);
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+    });
+  });
+
+  describe('updateReview', () => {
+    it('should send an edited review back for moderation', async () => {
+      // Arrange
+      const review = mockReview();
+      (ProductReview.findByPk as jest.Mock).mockResolvedValue(review);
+      (ProductReview.findOne as jest.Mock).mockResolvedValue({ average: null, count: '0' });
+
+      // Act
+      const result = await reviewService.updateReview('review-1', { rating: 2 });
+
+      // Assert
+      expect(result.status).toBe('pending');
+      expect(result.rating).toBe(2);
+      expect(product.update).toHaveBeenCalledWith(
+        { ratingAverage: null, ratingCount: 0 },
+        { transaction: mockTransaction }
+      );
+    });
+  });
+
+  describe('deleteReview', () => {
+    it('should delete the review and its votes and update the rating', async () => {
+      // Arrange
+      const review = mockReview();
+      (ProductReview.findByPk as jest.Mock).mockResolvedValue(review);
+      (ProductReview.findOne as jest.Mock).mockResolvedValue({ average: '3', count: '1' });
+
+      // Act
+      await reviewService.deleteReview('review-1');
+
+      // Assert
+      expect(ReviewVote.destroy).toHaveBeenCalledWith({
+        where: { reviewId: 'review-1' },
+        transaction: mockTransaction,
+      });
+      expect(review.destroy).toHaveBeenCalledWith({ transaction: mockTransaction });
+      expect(product.update).toHaveBeenCalledWith(
+        { ratingAverage: 3, ratingCount: 1 },
+        { transaction: mockTransaction }
+      );
+    });
+  });
+
+  describe('voteHelpful', () => {
+    it('should count a helpful vote once per customer', async () => {
+      // Arrange
+      const review = mockReview();
+      (ProductReview.findByPk as jest.Mock).mockResolvedValue(review);
+
+      // Act
+      const result = await reviewService.voteHelpful('review-1', 'customer-2');
+
+      // Assert
+      expect(ReviewVote.create).toHaveBeenCalledWith(
+        { reviewId: 'review-1', userId: 'customer-2' },
+        { transaction: mockTransaction }
+      );
+      expect(review.increment).toHaveBeenCalledWith('helpfulCount', { transaction: mockTransaction });
+      expect(result).toEqual({ reviewId: 'review-1', helpfulCount: 3, voted: true });
+    });
+
+    it('should not count a repeat vote', async () => {
+      // Arrange
+      const review = mockReview();
+      (ProductReview.findByPk as jest.Mock).mockResolvedValue(review);
+      (ReviewVote.findOne as jest.Mock).mockResolvedValue({ id: 'vote-1' });
+
+      // Act
+      const result = await reviewService.voteHelpful('review-1', 'customer-2');
+
+      // Assert
+      expect(ReviewVote.create).not.toHaveBeenCalled();
+      expect(review.increment).not.toHaveBeenCalled();
+      expect(result.helpfulCount).toBe(2);
+    });
+
+    it('should throw ForbiddenError when voting on your own review', async () => {
+      // Act & Assert
+      await expect(reviewService.voteHelpful('review-1', 'customer-1')).rejects.toThrow(ForbiddenError);
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError for a review that is not approved', async () => {
+      // Arrange
+      (ProductReview.findByPk as jest.Mock).mockResolvedValue(mockReview({ status: 'pending' }));
+
+      // Act & Assert
+      await expect(reviewService.voteHelpful('review-1', 'customer-2')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('removeVote', () => {
+    it('should withdraw a helpful vote', async () => {
+      // Arrange
+      const review = mockReview();
+      (ProductReview.findByPk as jest.Mock).mockResolvedValue(review);
+      (ReviewVote.destroy as jest.Mock).mockResolvedValue(1);
+
+      // Act
+      const result = await reviewService.removeVote('review-1', 'customer-2');
+
+      // Assert
+      expect(review.decrement).toHaveBeenCalledWith('helpfulCount', { transaction: mockTransaction });
+      expect(result).toEqual({ reviewId: 'review-1', helpfulCount: 1, voted: false });
+    });
+  });
+});
@@ -0,0 +1,370 @@
+/**
+ * Unit tests for Variant Service
+ * Tests option validation, SKU and combination uniqueness, and the variant matrix
+ */
+
+import { VariantService } from '../../src/services/variant.service';
+import { Product, ProductVariant } from '../../src/config/database';
+import sequelize from '../../src/config/database';
+import {
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+} from '@cloudretail/middleware';
+
+// Mock dependencies
+jest.mock('../../src/config/database');
+jest.mock('../../src/events/event-publisher');
+jest.mock('../../src/services/pricing.service');
+
+describe('VariantService', () => {
+  let variantService: VariantService;
+  let mockEventPublisher: any;
+  let mockPricingService: any;
+  let mockTransaction: any;
+
+  const options = [
+    { name: 'size', values: ['S', 'M', 'L'] },
+    { name: 'colour', values: ['red', 'blue'] },
+  ];
+
+  const mockProduct = (overrides: any = {}) => ({
+    id: 'product-1',
+    name: 'T-shirt',
+    price: 20,
+    vendorId: 'vendor-1',
+    isActive: true,
+    options,
+    ...overrides,
+  });
+
+  const mockVariant = (overrides: any = {}) => {
+    const variant: any = {
+      id: 'variant-1',
+      productId: 'product-1',
+      sku: 'TEE-M-RED',
+      options: { size: 'M', colour: 'red' },
+      price: null,
+      isActive: true,
+      ...overrides,
+    };
+    variant.getEffectivePrice = (productPrice: number) => Number(variant.price ?? productPrice);
+    variant.update = jest.fn(async (updates: any) => Object.assign(variant, updates));
+    variant.toJSON = () => {
+      const { getEffectivePrice, update, toJSON, ...attributes } = variant;
+      return attributes;
+    };
+    return variant;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    variantService = new VariantService();
+    mockEventPublisher = (variantService as any).eventPublisher;
+    mockEventPublisher.publishEvent = jest.fn().mockResolvedValue(undefined);
+    mockPricingService = (variantService as any).pricingService;
+    mockPricingService.resolvePrices = jest.fn(async (products: any[]) => new Map(
+      products.map((product) => [product.id, { price: product.price, effectivePrice: product.price }])
+    ));
+
+    // Models share inherited statics, so give each its own mocks
+    (Product.findByPk as jest.Mock) = jest.fn().mockResolvedValue(mockProduct());
+    (Product.findOne as jest.Mock) = jest.fn().mockResolvedValue(null);
+    (ProductVariant.findOne as jest.Mock) = jest.fn().mockResolvedValue(null);
+    (ProductVariant.findByPk as jest.Mock) = jest.fn().mockResolvedValue(null);
+    (ProductVariant.findAll as jest.Mock) = jest.fn().mockResolvedValue([]);
+    (ProductVariant.create as jest.Mock) = jest.fn(async (data: any) => mockVariant({ id: 'variant-new', ...data }));
+
+    // Mock transaction
+    mockTransaction = {
+      commit: jest.fn().mockResolvedValue(undefined),
+      rollback: jest.fn().mockResolvedValue(undefined),
+    };
+    (sequelize.transaction as jest.Mock) = jest.fn().mockResolvedValue(mockTransaction);
+  });
+
+  describe('createVariant', () => {
+    it('should create a variant and publish an event', async () => {
+      // Act
+      const result = await variantService.createVariant('product-1', {
+        sku: 'TEE-S-BLUE',
+        options: { size: 'S', colour: 'blue' },
+        price: 18,
+      });
+
+      // Assert
+      expect(ProductVariant.create).toHaveBeenCalledWith(
+        {
+          productId: 'product-1',
+          sku: 'TEE-S-BLUE',
+          options: { size: 'S', colour: 'blue' },
+          price: 18,
+        },
+        { transaction: mockTransaction }
+      );
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
+        type: 'product.variant_created',
+        payload: {
+          productId: 'product-1',
+          variantId: 'variant-new',
+          sku: 'TEE-S-BLUE',
+          options: { size: 'S', colour: 'blue' },
+          price: 18,
+        },
+      }, mockTransaction);
+      expect(mockTransaction.commit).toHaveBeenCalled();
+      expect(result).toEqual(expect.objectContaining({ id: 'variant-new', price: 18, effectivePrice: 18 }));
+    });
+
+    it('should sell at the product price without a price of its own', async () => {
+      // Act
+      const result = await variantService.createVariant('product-1', {
+        sku: 'TEE-L-RED',
+        options: { size: 'L', colour: 'red' },
+      });
+
+      // Assert
+      expect(ProductVariant.create).toHaveBeenCalledWith(
+        expect.objectContaining({ price: null }),
+        { transaction: mockTransaction }
+      );
+      expect(result.effectivePrice).toBe(20);
+    });
+
+    it('should reject a value the option does not have', async () => {
+      // Act & Assert
+      await expect(
+        variantService.createVariant('product-1', { sku: 'TEE-XL', options: { size: 'XL', colour: 'red' } })
+      ).rejects.toThrow('XL is not a value of option size');
+      expect(ProductVariant.create).not.toHaveBeenCalled();
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+    });
+
+    it('should reject a variant missing an option', async () => {
+      // Act & Assert
+      await expect(
+        variantService.createVariant('product-1', { sku: 'TEE-M', options: { size: 'M' } })
+      ).rejects.toThrow('Variant is missing a value for option colour');
+    });
+
+    it('should reject an option the product does not have', async () => {
+      // Act & Assert
+      await expect(
+        variantService.createVariant('product-1', {
+          sku: 'TEE-M-RED-V',
+          options: { size: 'M', colour: 'red', neck: 'v' },
+        })
+      ).rejects.toThrow('Product has no option neck');
+    });
+
+    it('should reject variants of a product without options', async () => {
+      // Arrange
+      (Product.findByPk as jest.Mock).mockResolvedValue(mockProduct({ options: [] }));
+
+      // Act & Assert
+      await expect(
+        variantService.createVariant('product-1', { sku: 'TEE-M', options: { size: 'M' } })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject a SKU already used by a product or variant', async () => {
+      // Arrange
+      (ProductVariant.findOne as jest.Mock).mockResolvedValue(mockVariant());
+
+      // Act & Assert
+      await expect(
+        variantService.createVariant('product-1', { sku: 'TEE-M-RED', options: { size: 'S', colour: 'red' } })
+      ).rejects.toThrow(ConflictError);
+      expect(ProductVariant.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a combination the product already has', async () => {
+      // Arrange
+      (ProductVariant.findAll as jest.Mock).mockResolvedValue([mockVariant()]);
+
+      // Act & Assert
+      await expect(
+        variantService.createVariant('product-1', { sku: 'TEE-M-RED-2', options: { colour: 'red', size: 'M' } })
+      ).rejects.toThrow('Product already has a M / red variant');
+    });
+
+    it('should throw NotFoundError if product does not exist', async () => {
+      // Arrange
+      (Product.findByPk as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        variantService.createVariant('missing', { sku: 'X', options: { size: 'M' } })
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('updateVariant', () => {
+    it('should clear a price override with null', async () => {
+      // Arrange
+      const variant = mockVariant({ price: 25 });
+      (ProductVariant.findOne as jest.Mock).mockResolvedValue(variant);
+
+      // Act
+      const result = await variantService.updateVariant('product-1', 'variant-1', { price: null });
+
+      // Assert
+      expect(ProductVariant.findOne).toHaveBeenCalledWith({
+        where: { id: 'variant-1', productId: 'product-1' },
+        transaction: mockTransaction,
+      });
+      expect(variant.update).toHaveBeenCalledWith({ price: null }, { transaction: mockTransaction });
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
+        type: 'product.variant_updated',
+        payload: { productId: 'product-1', variantId: 'variant-1', updates: { price: null } },
+      }, mockTransaction);
+      expect(result.effectivePrice).toBe(20);
+    });
+
+    it('should allow a variant to keep its own combination', async () => {
+      // Arrange
+      const variant = mockVariant();
+      (ProductVariant.findOne as jest.Mock).mockResolvedValue(variant);
+      (ProductVariant.findAll as jest.Mock).mockResolvedValue([variant]);
+
+      // Act
+      await variantService.updateVariant('product-1', 'variant-1', { options: { size: 'M', colour: 'red' } });
+
+      // Assert
+      expect(variant.update).toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError for a variant of another product', async () => {
+      // Act & Assert
+      await expect(
+        variantService.updateVariant('product-1', 'variant-9', { isActive: false })
+      ).rejects.toThrow(NotFoundError);
+      expect(mockTransaction.rollback).toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteVariant', () => {
+    it('should deactivate the variant', async () => {
+      // Arrange
+      const variant = mockVariant();
+      (ProductVariant.findOne as jest.Mock).mockResolvedValue(variant);
+
+      // Act
+      const result = await variantService.deleteVariant('product-1', 'variant-1');
+
+      // Assert
+      expect(variant.update).toHaveBeenCalledWith({ isActive: false }, { transaction: mockTransaction });
+      expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
+        type: 'product.variant_deleted',
+        payload: { productId: 'product-1', variantId: 'variant-1', sku: 'TEE-M-RED' },
+      }, mockTransaction);
+      expect(result).toEqual({ message: 'Product variant deleted successfully' });
+    });
+  });
+
+  describe('getVariants', () => {
+    it('should return the options and variants of a product', async () => {
+      // Arrange
+      (ProductVariant.findAll as jest.Mock).mockResolvedValue([
+        mockVariant(),
+        mockVariant({ id: 'variant-2', sku: 'TEE-S-BLUE', options: { size: 'S', colour: 'blue' }, price: 18 }),
+      ]);
+
+      // Act
+      const result = await variantService.getVariants('product-1');
+
+      // Assert
+      expect(result.options).toEqual(options);
+      expect(result.variants.map((variant: any) => [variant.sku, variant.effectivePrice])).toEqual([
+        ['TEE-M-RED', 20],
+        ['TEE-S-BLUE', 18],
+      ]);
+    });
+
+    it('should sell variants without a price of their own at the sale price', async () => {
+      // Arrange
+      mockPricingService.resolvePrices.mockResolvedValue(
+        new Map([['product-1', { price: 20, effectivePrice: 15, compareAtPrice: 20 }]])
+      );
+      (ProductVariant.findAll as jest.Mock).mockResolvedValue([
+        mockVariant(),
+        mockVariant({ id: 'variant-2', sku: 'TEE-S-BLUE', options: { size: 'S', colour: 'blue' }, price: 18 }),
+      ]);
+
+      // Act
+      const result = await variantService.getVariants('product-1');
+
+      // Assert
+      expect(result.variants.map((variant: any) => [variant.sku, variant.effectivePrice])).toEqual([
+        ['TEE-M-RED', 15],
+        ['TEE-S-BLUE', 18],
+      ]);
+    });
+  });
+
+  describe('getVariantById', () => {
+    it('should return the variant with its product', async () => {
+      // Arrange
+      (ProductVariant.findByPk as jest.Mock).mockResolvedValue(mockVariant({ price: 22 }));
+
+      // Act
+      const result = await variantService.getVariantById('variant-1');
+
+      // Assert
+      expect(Product.findByPk).toHaveBeenCalledWith('product-1', { transaction: undefined });
+      expect(result.effectivePrice).toBe(22);
+      expect(result.product).toEqual({
+        id: 'product-1',
+        name: 'T-shirt',
+        price: 20,
+        vendorId: 'vendor-1',
+        isActive: true,
+      });
+    });
+
+    it('should throw NotFoundError if variant does not exist', async () => {
+      // Act & Assert
+      await expect(variantService.getVariantById('missing')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('getVariantsByProduct', () => {
+    it('should only look up variants of products with options', async () => {
+      // Arrange
+      const plain = mockProduct({ id: 'product-2', options: [] });
+      (ProductVariant.findAll as jest.Mock).mockResolvedValue([mockVariant()]);
+
+      // Act
+      const result = await variantService.getVariantsByProduct([mockProduct(), plain] as any, new Map());
+
+      // Assert
+      expect(ProductVariant.findAll).toHaveBeenCalledWith({
+        where: { productId: ['product-1'] },
+        order: [['createdAt', 'ASC']],
+      });
+      expect(result.get('product-1')).toHaveLength(1);
+      expect(result.has('product-2')).toBe(false);
+    });
+
+    it('should not query when no product has options', async () => {
+      // Act
+      const result = await variantService.getVariantsByProduct([mockProduct({ options: [] })] as any, new Map());
+
+      // Assert
+      expect(ProductVariant.findAll).not.toHaveBeenCalled();
+      expect(result.size).toBe(0);
+    });
+  });
+
+  describe('assertVariantsFit', () => {
+    it('should reject options an active variant no longer fits', async () => {
+      // Arrange
+      (ProductVariant.findAll as jest.Mock).mockResolvedValue([mockVariant()]);
+
+      // Act & Assert
+      await expect(
+        variantService.assertVariantsFit('product-1', [{ name: 'size', values: ['M'] }])
+      ).rejects.toThrow('Variant TEE-M-RED does not fit the new options: Product has no option colour');
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { Sequelize } from 'sequelize';
 import { initUserModel } from '../models/User.model';
 import { logger } from '@cloudretail/middleware';
+import { Outbox } from '@cloudretail/outbox';
 
 const sequelize = new Sequelize({
   dialect: 'postgres',
@@ -24,6 +25,9 @@ const sequelize = new Sequelize({
 // Initialize models
 export const User = initUserModel(sequelize);
 
+// Events recorded with domain changes, relayed to the event bus
+export const outbox = new Outbox(sequelize, { service: 'user-service' });
+
 export async function connectDatabase(): Promise<void> {
   try {
     await sequelize.authenticate();
@@ -1,6 +1,6 @@
 import { Request, Response } from 'express';
 import { UserService } from '../services/user.service';
-import { asyncHandler, AuthenticatedRequest } from '@cloudretail/middleware';
+import { asyncHandler, AuthenticatedRequest, PageParams } from '@cloudretail/middleware';
 import Joi from 'joi';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -225,18 +225,17 @@ export const getAllUsers = asyncHandler(async (req: Request, res: Response) => {
   const filters = {
     role: req.query.role as string | undefined,
     isActive: req.query.isActive === 'true' ? true : req.query.isActive === 'false' ? false : undefined,
-    limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
-    offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
   };
 
-  const result = await userService.getAllUsers(filters);
+  const { users, pagination } = await userService.getAllUsers(filters, req.query as PageParams);
 
   res.json({
     success: true,
-    data: result,
+    data: { users },
     metadata: {
       timestamp: new Date(),
       requestId: uuidv4(),
+      pagination,
     },
   });
 });
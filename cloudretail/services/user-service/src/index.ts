@@ -9,7 +9,7 @@ import {
   gdprCompliance,
   HealthCheck,
 } from '@cloudretail/middleware';
-import { connectDatabase } from './config/database';
+import { connectDatabase, outbox } from './config/database';
 import userRoutes from './routes/user.routes';
 import { logger } from '@cloudretail/middleware';
 
@@ -65,6 +65,9 @@ async function startServer() {
     // Connect to database
     await connectDatabase();
 
+    // Deliver events recorded in the outbox
+    outbox.start();
+
     app.listen(PORT, () => {
       logger.info(`User Service started on port ${PORT}`);
       logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
@@ -78,6 +81,7 @@ async function startServer() {
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully');
+  await outbox.stop();
   const { disconnectDatabase } = await import('./config/database');
   await disconnectDatabase();
   process.exit(0);
@@ -85,6 +89,7 @@ process.on('SIGTERM', async () => {
 
 process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully');
+  await outbox.stop();
   const { disconnectDatabase } = await import('./config/database');
   await disconnectDatabase();
   process.exit(0);
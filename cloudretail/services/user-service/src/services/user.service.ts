@@ -1,7 +1,8 @@
 import bcrypt from 'bcrypt';
 import speakeasy from 'speakeasy';
 import QRCode from 'qrcode';
-import { User } from '../config/database';
+import sequelize, { User } from '../config/database';
+import { User as UserInstance } from '../models/User.model';
 import {
   NotFoundError,
   ConflictError,
@@ -9,11 +10,21 @@ import {
   UnauthorizedError,
   logger,
   generateToken,
+  PageParams,
+  PaginationConfig,
+  parsePageParams,
+  pageQuery,
+  pageResult,
 } from '@cloudretail/middleware';
 import { EventPublisher } from '../events/event-publisher';
 
 const SALT_ROUNDS = 12;
 
+// Sorts offered by user lists
+export const USER_PAGINATION: PaginationConfig = {
+  sortFields: ['createdAt', 'updatedAt', 'email', 'lastName'],
+};
+
 export class UserService {
   private eventPublisher: EventPublisher;
 
@@ -48,21 +59,34 @@ export class UserService {
       const hashedPassword = await bcrypt.hash(userData.password, SALT_ROUNDS);
 
       // Create user
-      const user = await User.create({
-        ...userData,
-        password: hashedPassword,
-        role: userData.role || 'customer',
-      });
-
-      // Publish user created event
-      await this.eventPublisher.publishEvent({
-        type: 'user.created',
-        payload: {
-          userId: user.id,
-          email: user.email,
-          role: user.role,
-        },
-      });
+      const transaction = await sequelize.transaction();
+      let user: UserInstance;
+
+      try {
+        user = await User.create(
+          {
+            ...userData,
+            password: hashedPassword,
+            role: userData.role || 'customer',
+          },
+          { transaction }
+        );
+
+        // Publish user created event
+        await this.eventPublisher.publishEvent({
+          type: 'user.created',
+          payload: {
+            userId: user.id,
+            email: user.email,
+            role: user.role,
+          },
+        }, transaction);
+
+        await transaction.commit();
+      } catch (error) {
+        await transaction.rollback();
+        throw error;
+      }
 
       logger.info('User registered successfully', { userId: user.id });
 
@@ -184,16 +208,26 @@ export class UserService {
       }
     }
 
-    await user.update(updates);
+    const transaction = await sequelize.transaction();
 
-    // Publish user updated event
-    await this.eventPublisher.publishEvent({
-      type: 'user.updated',
-      payload: {
-        userId: user.id,
-        updates,
-      },
-    });
+    try {
+      await user.update(updates, { transaction });
+
+      // Publish user updated event
+      await this.eventPublisher.publishEvent({
+        type: 'user.updated',
+        payload: {
+          userId: user.id,
+          updates,
+        },
+      }, transaction);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error updating user', { error, userId });
+      throw error;
+    }
 
     logger.info('User updated successfully', { userId });
 
@@ -274,16 +308,26 @@ export class UserService {
       throw new NotFoundError('User');
     }
 
-    await user.destroy();
+    const transaction = await sequelize.transaction();
 
-    // Publish user deleted event
-    await this.eventPublisher.publishEvent({
-      type: 'user.deleted',
-      payload: {
-        userId,
-        email: user.email,
-      },
-    });
+    try {
+      await user.destroy({ transaction });
+
+      // Publish user deleted event
+      await this.eventPublisher.publishEvent({
+        type: 'user.deleted',
+        payload: {
+          userId,
+          email: user.email,
+        },
+      }, transaction);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Error deleting user', { error, userId });
+      throw error;
+    }
 
     logger.info('User deleted (GDPR compliance)', { userId });
 
@@ -293,35 +337,30 @@ export class UserService {
   /**
    * Get all users (admin only)
    */
-  async getAllUsers(filters?: {
-    role?: string;
-    isActive?: boolean;
-    limit?: number;
-    offset?: number;
-  }) {
+  async getAllUsers(
+    filters: { role?: string; isActive?: boolean } = {},
+    params: PageParams = {}
+  ) {
+    const page = parsePageParams(params, USER_PAGINATION);
     const where: any = {};
 
-    if (filters?.role) {
+    if (filters.role) {
       where.role = filters.role;
     }
 
-    if (filters?.isActive !== undefined) {
+    if (filters.isActive !== undefined) {
       where.isActive = filters.isActive;
     }
 
-    const users = await User.findAndCountAll({
-      where,
-      limit: filters?.limit || 100,
-      offset: filters?.offset || 0,
+    const users = await User.findAll({
+      ...pageQuery(page, where),
       attributes: { exclude: ['password', 'twoFactorSecret'] },
-      order: [['createdAt', 'DESC']],
     });
+    const { rows, pagination } = pageResult(users, page);
 
     return {
-      users: users.rows,
-      total: users.count,
-      limit: filters?.limit || 100,
-      offset: filters?.offset || 0,
+      users: rows,
+      pagination,
     };
   }
 }
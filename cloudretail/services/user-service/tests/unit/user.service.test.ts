@@ -5,9 +5,11 @@
 
 import { UserService } from '../../src/services/user.service';
 import { User } from '../../src/config/database';
+import sequelize from '../../src/config/database';
 import bcrypt from 'bcrypt';
 import speakeasy from 'speakeasy';
 import QRCode from 'qrcode';
+import { Op } from 'sequelize';
 import {
   NotFoundError,
   ConflictError,
@@ -25,12 +27,20 @@ jest.mock('../../src/events/event-publisher');
 describe('UserService', () => {
   let userService: UserService;
   let mockEventPublisher: any;
+  let mockTransaction: any;
 
   beforeEach(() => {
     jest.clearAllMocks();
     userService = new UserService();
     mockEventPublisher = (userService as any).eventPublisher;
     mockEventPublisher.publishEvent = jest.fn().mockResolvedValue(undefined);
+
+    // Mock transaction
+    mockTransaction = {
+      commit: jest.fn().mockResolvedValue(undefined),
+      rollback: jest.fn().mockResolvedValue(undefined),
+    };
+    (sequelize.transaction as jest.Mock) = jest.fn().mockResolvedValue(mockTransaction);
   });
 
   describe('register', () => {
@@ -66,7 +76,7 @@ describe('UserService', () => {
         ...validUserData,
         password: 'hashedPassword',
         role: 'customer',
-      });
+      }, { transaction: mockTransaction });
       expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
         type: 'user.created',
         payload: {
@@ -74,7 +84,7 @@ describe('UserService', () => {
           email: validUserData.email,
           role: 'customer',
         },
-      });
+      }, mockTransaction);
       expect(result).not.toHaveProperty('password');
       expect(result).not.toHaveProperty('twoFactorSecret');
     });
@@ -122,7 +132,7 @@ describe('UserService', () => {
         ...adminUserData,
         password: 'hashedPassword',
         role: 'admin',
-      });
+      }, { transaction: mockTransaction });
     });
   });
 
@@ -335,14 +345,14 @@ describe('UserService', () => {
 
       // Assert
       expect(User.findByPk).toHaveBeenCalledWith('123');
-      expect(mockUser.update).toHaveBeenCalledWith(updates);
+      expect(mockUser.update).toHaveBeenCalledWith(updates, { transaction: mockTransaction });
       expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
         type: 'user.updated',
         payload: {
           userId: '123',
           updates,
         },
-      });
+      }, mockTransaction);
       expect(result).not.toHaveProperty('password');
     });
 
@@ -522,14 +532,14 @@ describe('UserService', () => {
 
       // Assert
       expect(User.findByPk).toHaveBeenCalledWith('123');
-      expect(mockUser.destroy).toHaveBeenCalled();
+      expect(mockUser.destroy).toHaveBeenCalledWith({ transaction: mockTransaction });
       expect(mockEventPublisher.publishEvent).toHaveBeenCalledWith({
         type: 'user.deleted',
         payload: {
           userId: '123',
           email: 'test@example.com',
         },
-      });
+      }, mockTransaction);
       expect(result).toEqual({
         success: true,
         message: 'User account deleted successfully',
@@ -546,34 +556,70 @@ describe('UserService', () => {
   });
 
   describe('getAllUsers', () => {
-    it('should return all users with pagination', async () => {
+    beforeEach(() => {
+      (User.findAll as jest.Mock) = jest.fn().mockResolvedValue([]);
+    });
+
+    it('should return a page of users', async () => {
       // Arrange
       const mockUsers = [
         { id: '1', email: 'user1@example.com', role: 'customer' },
         { id: '2', email: 'user2@example.com', role: 'customer' },
       ];
 
-      (User.findAndCountAll as jest.Mock).mockResolvedValue({
-        rows: mockUsers,
-        count: 2,
-      });
+      (User.findAll as jest.Mock).mockResolvedValue(mockUsers);
 
       // Act
-      const result = await userService.getAllUsers({ limit: 10, offset: 0 });
+      const result = await userService.getAllUsers({}, { limit: 10 });
 
       // Assert
-      expect(User.findAndCountAll).toHaveBeenCalledWith({
+      expect(User.findAll).toHaveBeenCalledWith({
         where: {},
-        limit: 10,
-        offset: 0,
+        order: [['createdAt', 'DESC'], ['id', 'DESC']],
+        limit: 11,
         attributes: { exclude: ['password', 'twoFactorSecret'] },
-        order: [['createdAt', 'DESC']],
       });
       expect(result).toEqual({
         users: mockUsers,
-        total: 2,
-        limit: 10,
-        offset: 0,
+        pagination: {
+          limit: 10,
+          sort: 'createdAt',
+          order: 'desc',
+          nextCursor: null,
+          hasMore: false,
+        },
+      });
+    });
+
+    it('should return a cursor when more users follow', async () => {
+      // Arrange
+      const mockUsers = [
+        { id: '1', email: 'a@example.com', get: () => 'a@example.com' },
+        { id: '2', email: 'b@example.com', get: () => 'b@example.com' },
+      ];
+
+      (User.findAll as jest.Mock).mockResolvedValue(mockUsers);
+
+      // Act
+      const first = await userService.getAllUsers({}, { sort: 'email', order: 'asc', limit: 1 });
+      await userService.getAllUsers({}, { cursor: first.pagination.nextCursor! });
+
+      // Assert
+      expect(first.users).toEqual([mockUsers[0]]);
+      expect(first.pagination.hasMore).toBe(true);
+      expect((User.findAll as jest.Mock).mock.calls[1][0]).toMatchObject({
+        where: {
+          [Op.and]: [
+            {},
+            {
+              [Op.or]: [
+                { email: { [Op.gt]: 'a@example.com' } },
+                { email: 'a@example.com', id: { [Op.gt]: '1' } },
+              ],
+            },
+          ],
+        },
+        order: [['email', 'ASC'], ['id', 'ASC']],
       });
     });
 
@@ -581,43 +627,38 @@ describe('UserService', () => {
       // Arrange
       const mockUsers = [{ id: '1', email: 'admin@example.com', role: 'admin' }];
 
-      (User.findAndCountAll as jest.Mock).mockResolvedValue({
-        rows: mockUsers,
-        count: 1,
-      });
+      (User.findAll as jest.Mock).mockResolvedValue(mockUsers);
 
       // Act
       const result = await userService.getAllUsers({ role: 'admin' });
 
       // Assert
-      expect(User.findAndCountAll).toHaveBeenCalledWith({
+      expect(User.findAll).toHaveBeenCalledWith({
         where: { role: 'admin' },
-        limit: 100,
-        offset: 0,
+        order: [['createdAt', 'DESC'], ['id', 'DESC']],
+        limit: 51,
         attributes: { exclude: ['password', 'twoFactorSecret'] },
-        order: [['createdAt', 'DESC']],
       });
       expect(result.users).toEqual(mockUsers);
     });
 
     it('should filter users by isActive status', async () => {
-      // Arrange
-      (User.findAndCountAll as jest.Mock).mockResolvedValue({
-        rows: [],
-        count: 0,
-      });
-
       // Act
       await userService.getAllUsers({ isActive: false });
 
       // Assert
-      expect(User.findAndCountAll).toHaveBeenCalledWith({
+      expect(User.findAll).toHaveBeenCalledWith({
         where: { isActive: false },
-        limit: 100,
-        offset: 0,
+        order: [['createdAt', 'DESC'], ['id', 'DESC']],
+        limit: 51,
         attributes: { exclude: ['password', 'twoFactorSecret'] },
-        order: [['createdAt', 'DESC']],
       });
     });
+
+    it('should not allow sorting by sensitive fields', async () => {
+      // Act & Assert
+      await expect(userService.getAllUsers({}, { sort: 'password' })).rejects.toThrow(ValidationError);
+      expect(User.findAll).not.toHaveBeenCalled();
+    });
   });
 });
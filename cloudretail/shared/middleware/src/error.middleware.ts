@@ -94,6 +94,23 @@ export const errorHandler = (
     return;
   }
 
+  // Bodies rejected by express's body parsers, e.g. malformed or too large
+  const parserStatus = (err as any).type ? (err as any).status : undefined;
+  if (typeof parserStatus === 'number' && parserStatus >= 400 && parserStatus < 500) {
+    res.status(parserStatus).json({
+      success: false,
+      error: {
+        code: parserStatus === 413 ? 'PAYLOAD_TOO_LARGE' : 'INVALID_REQUEST_BODY',
+        message: err.message,
+      },
+      metadata: {
+        timestamp: new Date(),
+        requestId,
+      },
+    });
+    return;
+  }
+
   // Unknown errors
   res.status(500).json({
     success: false,
@@ -0,0 +1,320 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { DataTypes, Model, Op, Sequelize } from 'sequelize';
+import { logger } from './logger.middleware';
+import { AuthenticatedRequest } from './auth.middleware';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+const MAX_KEY_LENGTH = 255;
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const DEFAULT_LOCK_TIMEOUT_MS = 60 * 1000; // 1 minute
+
+export interface StoredResponse {
+  statusCode: number;
+  body: any;
+}
+
+/**
+ * Outcome of claiming an idempotency key
+ * - started: the caller owns the key and should process the request
+ * - in_progress: another request with the key has not finished yet
+ * - mismatch: the key was used with a different request
+ * - completed: the request already ran; replay the stored response
+ */
+export type IdempotencyClaim =
+  | { status: 'started' }
+  | { status: 'in_progress' }
+  | { status: 'mismatch' }
+  | { status: 'completed'; response: StoredResponse };
+
+export interface IdempotencyStore {
+  /**
+   * Claim a key for a request fingerprint. The claim lapses after lockTimeoutMs
+   * so a crashed request does not block retries forever.
+   */
+  claim(key: string, fingerprint: string, lockTimeoutMs: number): Promise<IdempotencyClaim>;
+
+  /**
+   * Store the response for a claimed key, kept for ttlMs
+   */
+  complete(key: string, response: StoredResponse, ttlMs: number): Promise<void>;
+
+  /**
+   * Give up a claimed key so the request can be retried
+   */
+  release(key: string): Promise<void>;
+}
+
+interface IdempotencyRecord {
+  fingerprint: string;
+  response?: StoredResponse;
+  expiresAt: Date;
+}
+
+/**
+ * In-memory store for single-instance deployments and development
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private records: Map<string, IdempotencyRecord> = new Map();
+
+  async claim(key: string, fingerprint: string, lockTimeoutMs: number): Promise<IdempotencyClaim> {
+    const record = this.records.get(key);
+
+    if (!record || record.expiresAt <= new Date()) {
+      this.records.set(key, { fingerprint, expiresAt: new Date(Date.now() + lockTimeoutMs) });
+      return { status: 'started' };
+    }
+
+    return toClaim(record, fingerprint);
+  }
+
+  async complete(key: string, response: StoredResponse, ttlMs: number): Promise<void> {
+    const record = this.records.get(key);
+
+    if (record) {
+      this.records.set(key, { ...record, response, expiresAt: new Date(Date.now() + ttlMs) });
+    }
+  }
+
+  async release(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
+
+class IdempotencyKey extends Model {
+  public key!: string;
+  public fingerprint!: string;
+  public responseStatus?: number | null;
+  public responseBody?: any;
+  public expiresAt!: Date;
+}
+
+/**
+ * Postgres store shared by every instance of a service
+ */
+export class SequelizeIdempotencyStore implements IdempotencyStore {
+  constructor(sequelize: Sequelize) {
+    IdempotencyKey.init(
+      {
+        key: {
+          type: DataTypes.STRING(512),
+          primaryKey: true,
+        },
+        fingerprint: {
+          type: DataTypes.STRING(64),
+          allowNull: false,
+        },
+        responseStatus: {
+          type: DataTypes.INTEGER,
+          allowNull: true,
+        },
+        responseBody: {
+          type: DataTypes.JSONB,
+          allowNull: true,
+        },
+        expiresAt: {
+          type: DataTypes.DATE,
+          allowNull: false,
+        },
+      },
+      {
+        sequelize,
+        tableName: 'idempotency_keys',
+        timestamps: true,
+        indexes: [
+          {
+            fields: ['expiresAt'],
+          },
+        ],
+      }
+    );
+  }
+
+  async claim(key: string, fingerprint: string, lockTimeoutMs: number): Promise<IdempotencyClaim> {
+    const expiresAt = new Date(Date.now() + lockTimeoutMs);
+
+    const [record, created] = await IdempotencyKey.findOrCreate({
+      where: { key },
+      defaults: { key, fingerprint, expiresAt },
+    });
+
+    if (created) {
+      return { status: 'started' };
+    }
+
+    // Take over an expired key only if nobody else has in the meantime
+    if (record.expiresAt <= new Date()) {
+      const [taken] = await IdempotencyKey.update(
+        { fingerprint, responseStatus: null, responseBody: null, expiresAt },
+        { where: { key, expiresAt: { [Op.lte]: new Date() } } }
+      );
+
+      return taken > 0 ? { status: 'started' } : { status: 'in_progress' };
+    }
+
+    return toClaim(
+      {
+        fingerprint: record.fingerprint,
+        response: record.responseStatus
+          ? { statusCode: record.responseStatus, body: record.responseBody }
+          : undefined,
+        expiresAt: record.expiresAt,
+      },
+      fingerprint
+    );
+  }
+
+  async complete(key: string, response: StoredResponse, ttlMs: number): Promise<void> {
+    await IdempotencyKey.update(
+      {
+        responseStatus: response.statusCode,
+        responseBody: response.body,
+        expiresAt: new Date(Date.now() + ttlMs),
+      },
+      { where: { key } }
+    );
+  }
+
+  async release(key: string): Promise<void> {
+    await IdempotencyKey.destroy({ where: { key, responseStatus: null } });
+  }
+}
+
+function toClaim(record: IdempotencyRecord, fingerprint: string): IdempotencyClaim {
+  if (record.fingerprint !== fingerprint) {
+    return { status: 'mismatch' };
+  }
+
+  if (!record.response) {
+    return { status: 'in_progress' };
+  }
+
+  return { status: 'completed', response: record.response };
+}
+
+/**
+ * Serialize a value with sorted object keys so equivalent bodies match
+ */
+function canonicalize(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalize(value[key])}`)
+      .join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Idempotency Middleware
+ * Replays the stored response when a request is retried with the same
+ * Idempotency-Key header, so retries cannot create duplicate resources.
+ * Requests without the header are processed as usual.
+ */
+export const idempotency = (
+  store: IdempotencyStore,
+  options: { ttlMs?: number; lockTimeoutMs?: number } = {}
+) => {
+  const ttlMs = options.ttlMs || DEFAULT_TTL_MS;
+  const lockTimeoutMs = options.lockTimeoutMs || DEFAULT_LOCK_TIMEOUT_MS;
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const idempotencyKey = req.get(IDEMPOTENCY_KEY_HEADER);
+
+    if (idempotencyKey === undefined) {
+      next();
+      return;
+    }
+
+    if (!idempotencyKey || idempotencyKey.length > MAX_KEY_LENGTH) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_IDEMPOTENCY_KEY',
+          message: `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`,
+        },
+      });
+      return;
+    }
+
+    // Keys are scoped to the caller and endpoint so they cannot collide
+    const userId = (req as AuthenticatedRequest).user?.userId || 'anonymous';
+    const key = `${userId}:${req.method}:${req.baseUrl}${req.path}:${idempotencyKey}`;
+    const fingerprint = createHash('sha256').update(canonicalize(req.body ?? null)).digest('hex');
+
+    let claim: IdempotencyClaim;
+    try {
+      claim = await store.claim(key, fingerprint, lockTimeoutMs);
+    } catch (error) {
+      next(error);
+      return;
+    }
+
+    if (claim.status === 'mismatch') {
+      res.status(422).json({
+        success: false,
+        error: {
+          code: 'IDEMPOTENCY_KEY_REUSED',
+          message: 'Idempotency-Key has already been used with a different request',
+        },
+      });
+      return;
+    }
+
+    if (claim.status === 'in_progress') {
+      res.status(409).json({
+        success: false,
+        error: {
+          code: 'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+          message: 'A request with this Idempotency-Key is still being processed',
+        },
+      });
+      return;
+    }
+
+    if (claim.status === 'completed') {
+      logger.info('Replaying idempotent response', { path: req.originalUrl });
+
+      res.setHeader('Idempotent-Replayed', 'true');
+      res.status(claim.response.statusCode).json(claim.response.body);
+      return;
+    }
+
+    // Capture the response so a retry can replay it
+    const originalJson = res.json.bind(res);
+    let responseBody: any;
+
+    res.json = (body: any) => {
+      responseBody = body;
+      return originalJson(body);
+    };
+
+    let settled = false;
+    const settle = async (finished: boolean) => {
+      if (settled) return;
+      settled = true;
+
+      try {
+        // Server errors are not stored so the client can retry them
+        if (finished && responseBody !== undefined && res.statusCode < 500) {
+          await store.complete(key, { statusCode: res.statusCode, body: responseBody }, ttlMs);
+        } else {
+          await store.release(key);
+        }
+      } catch (error) {
+        logger.error('Failed to record idempotent response', { error, path: req.originalUrl });
+      }
+    };
+
+    res.on('finish', () => void settle(true));
+    res.on('close', () => void settle(res.writableFinished));
+
+    next();
+  };
+};
@@ -1,5 +1,6 @@
 // Authentication & Authorization
 export * from './auth.middleware';
+export * from './ownership.middleware';
 
 // Logging
 export * from './logger.middleware';
@@ -12,3 +13,9 @@ export * from './circuit-breaker.middleware';
 
 // Security
 export * from './security.middleware';
+
+// Idempotency
+export * from './idempotency.middleware';
+
+// Pagination
+export * from './pagination';
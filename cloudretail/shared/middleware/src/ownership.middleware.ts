@@ -0,0 +1,135 @@
+import { Response, NextFunction } from 'express';
+import { logger } from './logger.middleware';
+import { AuthenticatedRequest, JwtPayload } from './auth.middleware';
+
+const DEFAULT_BYPASS_ROLES = ['admin'];
+
+/**
+ * Outcome of an ownership check
+ * - bypass: the caller's role may act on any owner's resources
+ * - owner: the caller owns the resource
+ * - denied: the resource belongs to someone else, or its owner is unknown
+ */
+export type OwnershipDecision = 'bypass' | 'owner' | 'denied';
+
+export interface OwnershipPolicy {
+  // Name of the resource being protected, used in audit logs
+  resource: string;
+
+  /**
+   * Find the owner of the resource a request acts on. Resolve null when
+   * the resource does not exist or has no owner.
+   */
+  resolveOwner: (req: AuthenticatedRequest) => Promise<string | null>;
+
+  // Roles that may act on any resource, defaults to admin
+  bypassRoles?: string[];
+}
+
+export interface OwnershipAuditEntry {
+  resource: string;
+  action: string;
+  decision: OwnershipDecision;
+  user: Pick<JwtPayload, 'userId' | 'role'>;
+  ownerId: string | null;
+  resourceId?: string;
+  correlationId?: string;
+}
+
+/**
+ * Decide whether a user may act on a resource owned by ownerId
+ */
+export const checkOwnership = (
+  user: Pick<JwtPayload, 'userId' | 'role'>,
+  ownerId: string | null,
+  bypassRoles: string[] = DEFAULT_BYPASS_ROLES
+): OwnershipDecision => {
+  if (bypassRoles.includes(user.role)) {
+    return 'bypass';
+  }
+
+  return ownerId !== null && ownerId === user.userId ? 'owner' : 'denied';
+};
+
+/**
+ * Write an ownership decision to the audit log. Denials are logged as
+ * warnings so they stand out from routine access.
+ */
+export const auditOwnership = (entry: OwnershipAuditEntry): void => {
+  const data = {
+    audit: true,
+    resource: entry.resource,
+    resourceId: entry.resourceId,
+    action: entry.action,
+    decision: entry.decision,
+    userId: entry.user.userId,
+    role: entry.user.role,
+    ownerId: entry.ownerId,
+    correlationId: entry.correlationId,
+  };
+
+  if (entry.decision === 'denied') {
+    logger.warn('Ownership check denied', data);
+  } else {
+    logger.info('Ownership check passed', data);
+  }
+};
+
+/**
+ * Ownership Middleware
+ * Lets a request through only when the caller owns the resource it acts
+ * on, or holds a bypass role. Every decision is audit-logged. Must run
+ * after authenticate.
+ */
+export const requireOwnership = (policy: OwnershipPolicy) => {
+  const bypassRoles = policy.bypassRoles || DEFAULT_BYPASS_ROLES;
+
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'User not authenticated',
+        },
+      });
+      return;
+    }
+
+    let ownerId: string | null = null;
+    // Bypass roles do not need the owner, so skip the lookup
+    if (!bypassRoles.includes(req.user.role)) {
+      try {
+        ownerId = await policy.resolveOwner(req);
+      } catch (error) {
+        next(error);
+        return;
+      }
+    }
+
+    const decision = checkOwnership(req.user, ownerId, bypassRoles);
+
+    auditOwnership({
+      resource: policy.resource,
+      action: `${req.method} ${req.baseUrl}${req.path}`,
+      decision,
+      user: req.user,
+      ownerId,
+      resourceId: req.params.id || req.params.productId,
+      correlationId: req.headers['x-correlation-id'] as string | undefined,
+    });
+
+    if (decision === 'denied') {
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: `You do not have access to this ${policy.resource}`,
+        },
+      });
+      return;
+    }
+
+    next();
+  };
+};
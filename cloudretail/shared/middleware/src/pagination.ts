@@ -0,0 +1,180 @@
+import { Model, Op, Order, WhereOptions } from 'sequelize';
+import { ValidationError } from './error.middleware';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface PaginationConfig {
+  /**
+   * Fields callers may sort by. Each must be a non-null column; ties are
+   * broken by id so every row has a stable position.
+   */
+  sortFields: readonly string[];
+
+  // Defaults to createdAt, newest first
+  defaultSort?: string;
+  defaultOrder?: SortOrder;
+
+  // Defaults to DEFAULT_PAGE_SIZE, capped at MAX_PAGE_SIZE
+  defaultLimit?: number;
+  maxLimit?: number;
+}
+
+/**
+ * Pagination parameters as given by the caller, usually the query string
+ */
+export interface PageParams {
+  limit?: number | string;
+  sort?: string;
+  order?: string;
+  cursor?: string;
+}
+
+/**
+ * A validated page request. after is the position of the last row of the
+ * previous page.
+ */
+export interface PageRequest {
+  limit: number;
+  sort: string;
+  order: SortOrder;
+  after?: { value: unknown; id: string };
+}
+
+export interface PageInfo {
+  limit: number;
+  sort: string;
+  order: SortOrder;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+interface CursorData {
+  sort: string;
+  order: SortOrder;
+  value: unknown;
+  id: string;
+}
+
+const encodeCursor = (data: CursorData): string =>
+  Buffer.from(JSON.stringify(data)).toString('base64url');
+
+const decodeCursor = (cursor: string): CursorData => {
+  try {
+    const data = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+
+    if (
+      typeof data?.sort === 'string' &&
+      (data.order === 'asc' || data.order === 'desc') &&
+      typeof data.id === 'string' &&
+      data.value !== undefined &&
+      data.value !== null
+    ) {
+      return data;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+
+  throw new ValidationError('Invalid cursor');
+};
+
+/**
+ * Validate pagination parameters against an endpoint's configuration.
+ * A cursor carries the sort it was issued for, so following nextCursor
+ * needs no other parameters; asking for a different sort with it fails.
+ */
+export const parsePageParams = (params: PageParams, config: PaginationConfig): PageRequest => {
+  const maxLimit = Math.min(config.maxLimit || MAX_PAGE_SIZE, MAX_PAGE_SIZE);
+  const cursor = params.cursor ? decodeCursor(params.cursor) : undefined;
+  const sort = params.sort || cursor?.sort || config.defaultSort || 'createdAt';
+  const order = (params.order || cursor?.order || config.defaultOrder || 'desc') as SortOrder;
+
+  if (!config.sortFields.includes(sort)) {
+    throw new ValidationError(`sort must be one of ${config.sortFields.join(', ')}`);
+  }
+
+  if (order !== 'asc' && order !== 'desc') {
+    throw new ValidationError('order must be one of asc, desc');
+  }
+
+  if (cursor && (cursor.sort !== sort || cursor.order !== order)) {
+    throw new ValidationError('Cursor was issued for a different sort');
+  }
+
+  let limit = Math.min(config.defaultLimit || DEFAULT_PAGE_SIZE, maxLimit);
+  if (params.limit !== undefined && params.limit !== '') {
+    limit = Number(params.limit);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > maxLimit) {
+      throw new ValidationError(`limit must be an integer from 1 to ${maxLimit}`);
+    }
+  }
+
+  return {
+    limit,
+    sort,
+    order,
+    after: cursor ? { value: cursor.value, id: cursor.id } : undefined,
+  };
+};
+
+/**
+ * Build the where, order and limit of a query for a page. One extra row
+ * is fetched to tell whether another page follows.
+ */
+export const pageQuery = (
+  page: PageRequest,
+  where: WhereOptions = {}
+): { where: WhereOptions; order: Order; limit: number } => {
+  const direction = page.order === 'asc' ? 'ASC' : 'DESC';
+  const beyond = page.order === 'asc' ? Op.gt : Op.lt;
+
+  // Keyset condition: rows after the cursor in (sort, id) order, so pages
+  // stay stable while rows are inserted ahead of them
+  const after: WhereOptions | undefined = page.after && {
+    [Op.or]: [
+      { [page.sort]: { [beyond]: page.after.value } },
+      { [page.sort]: page.after.value, id: { [beyond]: page.after.id } },
+    ],
+  };
+
+  return {
+    where: after ? { [Op.and]: [where, after] } : where,
+    order: page.sort === 'id' ? [['id', direction]] : [[page.sort, direction], ['id', direction]],
+    limit: page.limit + 1,
+  };
+};
+
+/**
+ * Trim the rows of a pageQuery to the page and describe where the next
+ * page starts
+ */
+export const pageResult = <T extends Model & { id: string }>(
+  rows: T[],
+  page: PageRequest
+): { rows: T[]; pagination: PageInfo } => {
+  const hasMore = rows.length > page.limit;
+  const pageRows = hasMore ? rows.slice(0, page.limit) : rows;
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    rows: pageRows,
+    pagination: {
+      limit: page.limit,
+      sort: page.sort,
+      order: page.order,
+      nextCursor: hasMore
+        ? encodeCursor({
+            sort: page.sort,
+            order: page.order,
+            value: last.get(page.sort),
+            id: last.id,
+          })
+        : null,
+      hasMore,
+    },
+  };
+};
@@ -58,8 +58,8 @@ export const standardRateLimiter = createRateLimiter(15 * 60 * 1000, 100);
 export const corsOptions = {
   origin: process.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:3000'],
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Correlation-ID'],
-  exposedHeaders: ['X-Correlation-ID'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Correlation-ID', 'Idempotency-Key'],
+  exposedHeaders: ['X-Correlation-ID', 'Idempotent-Replayed'],
   credentials: true,
   maxAge: 86400, // 24 hours
 };
@@ -0,0 +1,19 @@
+/**
+ * Test setup for shared middleware
+ */
+
+process.env.NODE_ENV = 'test';
+
+// Mock logger, which would otherwise write log files
+jest.mock('../src/logger.middleware', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
@@ -0,0 +1,177 @@
+/**
+ * Unit tests for Idempotency Middleware
+ * Tests replays, key reuse, concurrent retries and lapsed locks
+ */
+
+import { EventEmitter } from 'events';
+import { MemoryIdempotencyStore, idempotency } from '../../src/idempotency.middleware';
+
+describe('Idempotency Middleware', () => {
+  let store: MemoryIdempotencyStore;
+  let handler: jest.Mock;
+
+  const mockRequest = (body: any, idempotencyKey: string | null = 'key-1'): any => ({
+    method: 'POST',
+    baseUrl: '/api/orders',
+    path: '/',
+    originalUrl: '/api/orders',
+    body,
+    user: { userId: 'user-1', role: 'customer' },
+    get: (header: string) => (header === 'Idempotency-Key' && idempotencyKey !== null ? idempotencyKey : undefined),
+  });
+
+  // Responses finish as soon as a body is sent, as express's do once flushed
+  const mockResponse = (): any => {
+    const res: any = new EventEmitter();
+    res.statusCode = 200;
+    res.writableFinished = false;
+    res.headers = {};
+    res.status = jest.fn((code: number) => {
+      res.statusCode = code;
+      return res;
+    });
+    res.setHeader = jest.fn((name: string, value: string) => {
+      res.headers[name] = value;
+    });
+    res.json = jest.fn((body: any) => {
+      res.body = body;
+      res.writableFinished = true;
+      res.emit('finish');
+      return res;
+    });
+    return res;
+  };
+
+  // Let the stored response settle after the handler finishes
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  const send = async (middleware: ReturnType<typeof idempotency>, req: any) => {
+    const res = mockResponse();
+    await middleware(req, res, () => handler(req, res));
+    await flush();
+    return res;
+  };
+
+  beforeEach(() => {
+    store = new MemoryIdempotencyStore();
+    handler = jest.fn((req: any, res: any) => {
+      res.status(201).json({ success: true, data: { id: 'order-1', ...req.body } });
+    });
+  });
+
+  it('should process requests without an Idempotency-Key as usual', async () => {
+    // Arrange
+    const middleware = idempotency(store);
+
+    // Act
+    await send(middleware, mockRequest({ amount: 10 }, null));
+    await send(middleware, mockRequest({ amount: 10 }, null));
+
+    // Assert
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should replay the stored response for a retried request', async () => {
+    // Arrange
+    const middleware = idempotency(store);
+    const first = await send(middleware, mockRequest({ amount: 10, currency: 'USD' }));
+
+    // Act
+    const retry = await send(middleware, mockRequest({ currency: 'USD', amount: 10 }));
+
+    // Assert
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(retry.statusCode).toBe(201);
+    expect(retry.body).toEqual(first.body);
+    expect(retry.headers).toEqual({ 'Idempotent-Replayed': 'true' });
+    expect(first.headers).toEqual({});
+  });
+
+  it('should return 422 when the key is reused with a different body', async () => {
+    // Arrange
+    const middleware = idempotency(store);
+    await send(middleware, mockRequest({ amount: 10 }));
+
+    // Act
+    const res = await send(middleware, mockRequest({ amount: 20 }));
+
+    // Assert
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(res.statusCode).toBe(422);
+    expect(res.body.error.code).toBe('IDEMPOTENCY_KEY_REUSED');
+  });
+
+  it('should return 409 while the original request is in progress', async () => {
+    // Arrange
+    const middleware = idempotency(store);
+    handler.mockImplementationOnce(() => undefined);
+    await send(middleware, mockRequest({ amount: 10 }));
+
+    // Act
+    const res = await send(middleware, mockRequest({ amount: 10 }));
+
+    // Assert
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(res.statusCode).toBe(409);
+    expect(res.body.error.code).toBe('IDEMPOTENCY_REQUEST_IN_PROGRESS');
+  });
+
+  it('should let a retry take over once the lock of a stalled request lapses', async () => {
+    // Arrange
+    const middleware = idempotency(store, { lockTimeoutMs: 20 });
+    handler.mockImplementationOnce(() => undefined);
+    await send(middleware, mockRequest({ amount: 10 }));
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    // Act
+    const res = await send(middleware, mockRequest({ amount: 10 }));
+
+    // Assert
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(res.statusCode).toBe(201);
+    expect(res.headers).toEqual({});
+  });
+
+  it('should not store server errors, so the request can be retried', async () => {
+    // Arrange
+    const middleware = idempotency(store);
+    handler.mockImplementationOnce((req: any, res: any) => {
+      res.status(503).json({ success: false });
+    });
+    await send(middleware, mockRequest({ amount: 10 }));
+
+    // Act
+    const res = await send(middleware, mockRequest({ amount: 10 }));
+
+    // Assert
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(res.statusCode).toBe(201);
+  });
+
+  it('should scope keys to the caller', async () => {
+    // Arrange
+    const middleware = idempotency(store);
+    await send(middleware, mockRequest({ amount: 10 }));
+
+    // Act
+    const otherUser = { ...mockRequest({ amount: 10 }), user: { userId: 'user-2', role: 'customer' } };
+    const res = await send(middleware, otherUser);
+
+    // Assert
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(res.headers).toEqual({});
+  });
+
+  it('should return 400 for an empty key', async () => {
+    // Arrange
+    const middleware = idempotency(store);
+
+    // Act
+    const res = await send(middleware, mockRequest({ amount: 10 }, ''));
+
+    // Assert
+    expect(handler).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error.code).toBe('INVALID_IDEMPOTENCY_KEY');
+  });
+});
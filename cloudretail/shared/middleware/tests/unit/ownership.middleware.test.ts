@@ -0,0 +1,193 @@
+/**
+ * Unit tests for Ownership Middleware
+ * Tests ownership decisions, bypass roles and audit logging
+ */
+
+import { checkOwnership, requireOwnership } from '../../src/ownership.middleware';
+import { logger } from '../../src/logger.middleware';
+
+describe('Ownership Middleware', () => {
+  const vendor = { userId: 'vendor-1', role: 'vendor', email: 'vendor@example.com' };
+  const admin = { userId: 'admin-1', role: 'admin', email: 'admin@example.com' };
+
+  const mockRequest = (user?: any): any => ({
+    user,
+    method: 'PUT',
+    baseUrl: '/api/products',
+    path: '/product-1',
+    params: { id: 'product-1' },
+    headers: { 'x-correlation-id': 'correlation-1' },
+  });
+
+  const mockResponse = (): any => {
+    const res: any = {};
+    res.status = jest.fn(() => res);
+    res.json = jest.fn(() => res);
+    return res;
+  };
+
+  describe('checkOwnership', () => {
+    it('should let the owner act on their resource', () => {
+      expect(checkOwnership(vendor, 'vendor-1')).toBe('owner');
+    });
+
+    it("should deny a user acting on someone else's resource", () => {
+      expect(checkOwnership(vendor, 'vendor-2')).toBe('denied');
+    });
+
+    it('should deny a resource without a known owner', () => {
+      expect(checkOwnership(vendor, null)).toBe('denied');
+    });
+
+    it('should let admins act on any resource by default', () => {
+      expect(checkOwnership(admin, 'vendor-2')).toBe('bypass');
+      expect(checkOwnership(admin, null)).toBe('bypass');
+    });
+
+    it('should only bypass for the roles given', () => {
+      expect(checkOwnership(admin, 'vendor-2', ['support'])).toBe('denied');
+      expect(checkOwnership({ userId: 'agent-1', role: 'support' }, 'vendor-2', ['support'])).toBe('bypass');
+    });
+  });
+
+  describe('requireOwnership', () => {
+    let resolveOwner: jest.Mock;
+    let next: jest.Mock;
+
+    beforeEach(() => {
+      resolveOwner = jest.fn().mockResolvedValue('vendor-1');
+      next = jest.fn();
+    });
+
+    it('should let the owner through and audit the decision', async () => {
+      // Arrange
+      const req = mockRequest(vendor);
+      const res = mockResponse();
+
+      // Act
+      await requireOwnership({ resource: 'product', resolveOwner })(req, res, next);
+
+      // Assert
+      expect(resolveOwner).toHaveBeenCalledWith(req);
+      expect(next).toHaveBeenCalledWith();
+      expect(res.status).not.toHaveBeenCalled();
+      expect(logger.info).toHaveBeenCalledWith('Ownership check passed', {
+        audit: true,
+        resource: 'product',
+        resourceId: 'product-1',
+        action: 'PUT /api/products/product-1',
+        decision: 'owner',
+        userId: 'vendor-1',
+        role: 'vendor',
+        ownerId: 'vendor-1',
+        correlationId: 'correlation-1',
+      });
+    });
+
+    it("should return 403 for someone else's resource and log the denial as a warning", async () => {
+      // Arrange
+      resolveOwner.mockResolvedValue('vendor-2');
+      const res = mockResponse();
+
+      // Act
+      await requireOwnership({ resource: 'product', resolveOwner })(mockRequest(vendor), res, next);
+
+      // Assert
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'You do not have access to this product',
+        },
+      });
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Ownership check denied',
+        expect.objectContaining({ audit: true, decision: 'denied', userId: 'vendor-1', ownerId: 'vendor-2' })
+      );
+      expect(logger.info).not.toHaveBeenCalled();
+    });
+
+    it('should return 403 when the resource has no owner', async () => {
+      // Arrange
+      resolveOwner.mockResolvedValue(null);
+      const res = mockResponse();
+
+      // Act
+      await requireOwnership({ resource: 'product', resolveOwner })(mockRequest(vendor), res, next);
+
+      // Assert
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should let bypass roles through without looking up the owner', async () => {
+      // Arrange
+      const res = mockResponse();
+
+      // Act
+      await requireOwnership({ resource: 'product', resolveOwner })(mockRequest(admin), res, next);
+
+      // Assert
+      expect(resolveOwner).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalledWith();
+      expect(logger.info).toHaveBeenCalledWith(
+        'Ownership check passed',
+        expect.objectContaining({ decision: 'bypass', userId: 'admin-1', ownerId: null })
+      );
+    });
+
+    it('should use the bypass roles of the policy', async () => {
+      // Arrange
+      resolveOwner.mockResolvedValue('vendor-2');
+      const res = mockResponse();
+
+      // Act
+      await requireOwnership({ resource: 'product', resolveOwner, bypassRoles: ['support'] })(
+        mockRequest(admin),
+        res,
+        next
+      );
+
+      // Assert
+      expect(resolveOwner).toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+    });
+
+    it('should return 401 without an authenticated user', async () => {
+      // Arrange
+      const res = mockResponse();
+
+      // Act
+      await requireOwnership({ resource: 'product', resolveOwner })(mockRequest(), res, next);
+
+      // Assert
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.json).toHaveBeenCalledWith({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'User not authenticated',
+        },
+      });
+      expect(resolveOwner).not.toHaveBeenCalled();
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should pass errors looking up the owner on to the error handler', async () => {
+      // Arrange
+      const error = new Error('Product service is unavailable');
+      resolveOwner.mockRejectedValue(error);
+      const res = mockResponse();
+
+      // Act
+      await requireOwnership({ resource: 'product', resolveOwner })(mockRequest(vendor), res, next);
+
+      // Assert
+      expect(next).toHaveBeenCalledWith(error);
+      expect(res.status).not.toHaveBeenCalled();
+      expect(logger.warn).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -17,27 +17,115 @@ export const UserSchema = z.object({
 export type User = z.infer<typeof UserSchema>;
 
 // Product Models
+// A node in the category taxonomy; top-level categories have no parent
+export const CategorySchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  slug: z.string(),
+  parentId: z.string().uuid().nullable(),
+  description: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type Category = z.infer<typeof CategorySchema>;
+
+// An axis a product varies along, e.g. size with values S, M and L
+export const ProductOptionSchema = z.object({
+  name: z.string(),
+  values: z.array(z.string()).min(1),
+});
+
+export type ProductOption = z.infer<typeof ProductOptionSchema>;
+
 export const ProductSchema = z.object({
   id: z.string().uuid(),
   name: z.string(),
   description: z.string(),
   price: z.number().positive(),
+  categoryId: z.string().uuid(),
   category: z.string(),
   sku: z.string(),
   vendorId: z.string().uuid(),
+  options: z.array(ProductOptionSchema),
   isActive: z.boolean(),
+  ratingAverage: z.number().min(1).max(5).nullable(),
+  ratingCount: z.number().int().nonnegative(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
 
 export type Product = z.infer<typeof ProductSchema>;
 
+export const ProductVariantSchema = z.object({
+  id: z.string().uuid(),
+  productId: z.string().uuid(),
+  sku: z.string(),
+  options: z.record(z.string()),
+  price: z.number().nonnegative().nullable(),
+  isActive: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type ProductVariant = z.infer<typeof ProductVariantSchema>;
+
+// A scheduled change to a product's price: a new regular price from a date,
+// or a sale price for a period
+export const ProductPriceSchema = z.object({
+  id: z.string().uuid(),
+  productId: z.string().uuid(),
+  type: z.enum(['regular', 'sale']),
+  price: z.number().nonnegative(),
+  compareAtPrice: z.number().nonnegative().nullable(),
+  startsAt: z.date(),
+  endsAt: z.date().nullable(),
+  status: z.enum(['scheduled', 'applied', 'active', 'ended', 'cancelled']),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type ProductPrice = z.infer<typeof ProductPriceSchema>;
+
+export const PriceHistorySchema = z.object({
+  id: z.string().uuid(),
+  productId: z.string().uuid(),
+  previousPrice: z.number().nonnegative().nullable(),
+  price: z.number().nonnegative(),
+  regularPrice: z.number().nonnegative(),
+  compareAtPrice: z.number().nonnegative().nullable(),
+  reason: z.enum(['created', 'manual', 'scheduled', 'sale_started', 'sale_ended']),
+  scheduleId: z.string().uuid().nullable(),
+  effectiveAt: z.date(),
+  createdAt: z.date(),
+});
+
+export type PriceHistory = z.infer<typeof PriceHistorySchema>;
+
 // Inventory Models
+export const WarehouseSchema = z.object({
+  id: z.string().uuid(),
+  code: z.string().max(32),
+  name: z.string(),
+  address: z.object({
+    street: z.string().optional(),
+    city: z.string(),
+    state: z.string(),
+    zipCode: z.string(),
+    country: z.string(),
+  }),
+  priority: z.number().int().nonnegative(),
+  isActive: z.boolean(),
+});
+
+export type Warehouse = z.infer<typeof WarehouseSchema>;
+
 export const InventorySchema = z.object({
   id: z.string().uuid(),
   productId: z.string().uuid(),
+  variantId: z.string().uuid().nullable().optional(),
   quantity: z.number().int().nonnegative(),
-  warehouseLocation: z.string(),
+  warehouseId: z.string().uuid(),
   reservedQuantity: z.number().int().nonnegative(),
   lastUpdated: z.date(),
 });
@@ -46,6 +134,7 @@ export type Inventory = z.infer<typeof InventorySchema>;
 
 // Order Models
 export const OrderStatusEnum = z.enum([
+  'backordered',
   'pending',
   'confirmed',
   'processing',
@@ -57,9 +146,13 @@ export const OrderStatusEnum = z.enum([
 
 export const OrderItemSchema = z.object({
   productId: z.string().uuid(),
+  variantId: z.string().uuid().optional(),
   quantity: z.number().int().positive(),
   price: z.number().positive(),
   subtotal: z.number().positive(),
+  allocations: z
+    .array(z.object({ warehouseId: z.string().uuid(), quantity: z.number().int().positive() }))
+    .optional(),
 });
 
 export const OrderSchema = z.object({
@@ -82,8 +175,12 @@ export type OrderStatus = z.infer<typeof OrderStatusEnum>;
 export const PaymentStatusEnum = z.enum([
   'pending',
   'processing',
+  'authorized',
+  'captured',
   'completed',
+  'voided',
   'failed',
+  'partially_refunded',
   'refunded',
 ]);
 
@@ -109,21 +206,39 @@ export const EventTypeEnum = z.enum([
   'user.created',
   'user.updated',
   'user.deleted',
+  'category.created',
+  'category.updated',
+  'category.deleted',
   'product.created',
   'product.updated',
   'product.deleted',
+  'product.variant_created',
+  'product.variant_updated',
+  'product.variant_deleted',
+  'product.media_added',
+  'product.media_removed',
+  'product.media_reordered',
+  'product.price_scheduled',
+  'product.price_schedule_cancelled',
+  'product.price_changed',
   'inventory.created',
   'inventory.updated',
   'inventory.low_stock',
   'inventory.reserved',
   'inventory.released',
   'inventory.out_of_stock',
+  'inventory.reorder_suggested',
+  'inventory.backordered',
+  'inventory.backorder_allocated',
   'order.created',
   'order.updated',
   'order.cancelled',
   'order.confirmed',
   'order.status_updated',
   'payment.initiated',
+  'payment.authorized',
+  'payment.captured',
+  'payment.voided',
   'payment.completed',
   'payment.failed',
   'payment.refunded',
@@ -145,6 +260,16 @@ export type Event = z.infer<typeof EventSchema>;
 export type EventType = z.infer<typeof EventTypeEnum>;
 
 // API Response Models
+export const PaginationSchema = z.object({
+  limit: z.number().int().positive(),
+  sort: z.string(),
+  order: z.enum(['asc', 'desc']),
+  nextCursor: z.string().nullable(),
+  hasMore: z.boolean(),
+});
+
+export type Pagination = z.infer<typeof PaginationSchema>;
+
 export const ApiResponseSchema = z.object({
   success: z.boolean(),
   data: z.any().optional(),
@@ -156,6 +281,7 @@ export const ApiResponseSchema = z.object({
   metadata: z.object({
     timestamp: z.date(),
     requestId: z.string().uuid(),
+    pagination: PaginationSchema.optional(),
   }),
 });
 
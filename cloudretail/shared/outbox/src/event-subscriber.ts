@@ -0,0 +1,197 @@
+import { Sequelize } from 'sequelize';
+import { Event, EventType } from '@cloudretail/models';
+import { logger } from '@cloudretail/middleware';
+import { InboxEvent, initInboxEventModel } from './inbox.model';
+
+export type EventHandler = (event: Event) => Promise<void>;
+
+export interface EventSubscriberOptions {
+  service: string;
+  eventBusUrl?: string;
+}
+
+const INITIAL_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
+/**
+ * Event Subscriber
+ * Consumes events from the event bus over Server-Sent Events and
+ * reconnects with exponential backoff when the stream drops.
+ * Every instance of a service receives every event, so each event is
+ * claimed in the service database before it is handled and only the
+ * instance that claims it runs the handler. The bus does not redeliver,
+ * so an event whose handler fails is kept as a dead letter.
+ */
+export class EventSubscriber {
+  private model: typeof InboxEvent;
+  private service: string;
+  private subscribeUrl: string;
+  private handlers: Map<EventType, EventHandler> = new Map();
+  private controller?: AbortController;
+  private stopped: boolean = true;
+
+  constructor(sequelize: Sequelize, options: EventSubscriberOptions) {
+    this.model = initInboxEventModel(sequelize);
+    this.service = options.service;
+
+    const eventBusUrl = options.eventBusUrl || process.env.EVENT_BUS_URL || 'http://localhost:4000/events';
+    this.subscribeUrl = `${eventBusUrl}/subscribe/${options.service}`;
+  }
+
+  /**
+   * Register a handler for an event type
+   */
+  on(type: EventType, handler: EventHandler): this {
+    this.handlers.set(type, handler);
+    return this;
+  }
+
+  /**
+   * Start consuming events in the background
+   */
+  start(): void {
+    this.stopped = false;
+    void this.listen();
+  }
+
+  /**
+   * Stop consuming events and close the stream
+   */
+  stop(): void {
+    this.stopped = true;
+    this.controller?.abort();
+  }
+
+  private async listen(): Promise<void> {
+    let reconnectDelay = INITIAL_RECONNECT_DELAY;
+
+    while (!this.stopped) {
+      try {
+        this.controller = new AbortController();
+        const types = Array.from(this.handlers.keys()).join(',');
+
+        const response = await fetch(`${this.subscribeUrl}?types=${encodeURIComponent(types)}`, {
+          headers: { Accept: 'text/event-stream' },
+          signal: this.controller.signal,
+        });
+
+        if (!response.ok || !response.body) {
+          throw new Error(`Event bus returned status ${response.status}`);
+        }
+
+        logger.info('Subscribed to event bus', { service: this.service, types });
+        reconnectDelay = INITIAL_RECONNECT_DELAY;
+
+        await this.consume(response.body as unknown as AsyncIterable<Uint8Array>);
+      } catch (error) {
+        if (this.stopped) break;
+        logger.error('Event bus subscription failed', { service: this.service, error });
+      }
+
+      if (!this.stopped) {
+        logger.info(`Reconnecting to event bus in ${reconnectDelay}ms`);
+        await new Promise((resolve) => setTimeout(resolve, reconnectDelay));
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+      }
+    }
+  }
+
+  /**
+   * Split the stream into SSE messages and dispatch them in order
+   */
+  private async consume(body: AsyncIterable<Uint8Array>): Promise<void> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for await (const chunk of body) {
+      buffer += decoder.decode(chunk, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const message = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        await this.dispatch(message);
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+  }
+
+  private async dispatch(message: string): Promise<void> {
+    const data = message
+      .split('\n')
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).trimStart())
+      .join('\n');
+
+    // Keepalive comments carry no data
+    if (!data) return;
+
+    let event: Event;
+    try {
+      event = JSON.parse(data);
+    } catch (error) {
+      logger.error('Malformed event received from event bus', { error });
+      return;
+    }
+
+    const handler = this.handlers.get(event.type);
+    if (!handler) return;
+
+    try {
+      if (!(await this.claim(event))) {
+        logger.debug('Event already handled by another instance', { eventId: event.id, eventType: event.type });
+        return;
+      }
+    } catch (error) {
+      logger.error('Error claiming event', { eventId: event.id, eventType: event.type, error });
+      return;
+    }
+
+    try {
+      await handler(event);
+      logger.info('Event handled', { eventId: event.id, eventType: event.type });
+    } catch (error) {
+      logger.error('Error handling event', {
+        eventId: event.id,
+        eventType: event.type,
+        error,
+      });
+
+      await this.deadLetter(event, error);
+    }
+  }
+
+  /**
+   * Keep a failed event and its error on its claim. The claim is not
+   * released, as the bus will not deliver the event again.
+   */
+  private async deadLetter(event: Event, error: unknown): Promise<void> {
+    try {
+      await this.model.update(
+        {
+          status: 'failed',
+          payload: event,
+          error: error instanceof Error ? error.stack || error.message : String(error),
+        },
+        { where: { eventId: event.id } }
+      );
+
+      logger.warn('Event dead-lettered', { eventId: event.id, eventType: event.type, service: this.service });
+    } catch (deadLetterError) {
+      logger.error('Error dead-lettering event', { eventId: event.id, event, error: deadLetterError });
+    }
+  }
+
+  /**
+   * Record the event as handled by this service. Returns false when it
+   * already has been, by this instance or another.
+   */
+  private async claim(event: Event): Promise<boolean> {
+    const [, created] = await this.model.findOrCreate({
+      where: { eventId: event.id },
+      defaults: { eventId: event.id, eventType: event.type },
+    });
+
+    return created;
+  }
+}
@@ -0,0 +1,71 @@
+import { Model, DataTypes, Sequelize, Optional } from 'sequelize';
+
+// Failed events are kept as dead letters, with the event and the error, for an operator to inspect
+export type InboxEventStatus = 'handled' | 'failed';
+
+export interface InboxEventAttributes {
+  eventId: string;
+  eventType: string;
+  status: InboxEventStatus;
+  payload?: any;
+  error?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface InboxEventCreationAttributes extends Optional<InboxEventAttributes, 'status' | 'payload' | 'error' | 'createdAt' | 'updatedAt'> {}
+
+export class InboxEvent extends Model<InboxEventAttributes, InboxEventCreationAttributes> implements InboxEventAttributes {
+  public eventId!: string;
+  public eventType!: string;
+  public status!: InboxEventStatus;
+  public payload?: any;
+  public error?: string | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+export function initInboxEventModel(sequelize: Sequelize): typeof InboxEvent {
+  InboxEvent.init(
+    {
+      // One row per event handled, so each is handled by a single instance
+      eventId: {
+        type: DataTypes.STRING,
+        primaryKey: true,
+      },
+      eventType: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      status: {
+        type: DataTypes.ENUM('handled', 'failed'),
+        allowNull: false,
+        defaultValue: 'handled',
+      },
+      payload: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+      },
+      error: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'inbox_events',
+      timestamps: true,
+      indexes: [
+        {
+          fields: ['createdAt'],
+        },
+        {
+          fields: ['status'],
+        },
+      ],
+    }
+  );
+
+  return InboxEvent;
+}
@@ -0,0 +1,5 @@
+export * from './outbox';
+export * from './outbox.model';
+export * from './event-subscriber';
+export * from './inbox.model';
+export * from './periodic-worker';
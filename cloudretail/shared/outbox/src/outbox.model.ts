@@ -0,0 +1,116 @@
+import { Model, DataTypes, Sequelize, Optional } from 'sequelize';
+
+export type OutboxEventStatus = 'pending' | 'delivered' | 'failed';
+
+export interface OutboxEventAttributes {
+  sequence: number;
+  eventId: string;
+  aggregateId: string;
+  eventType: string;
+  payload: any;
+  metadata: {
+    correlationId: string;
+    service: string;
+  };
+  status: OutboxEventStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string | null;
+  deliveredAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface OutboxEventCreationAttributes extends Optional<OutboxEventAttributes, 'sequence' | 'status' | 'attempts' | 'nextAttemptAt' | 'lastError' | 'deliveredAt' | 'createdAt' | 'updatedAt'> {}
+
+export class OutboxEvent extends Model<OutboxEventAttributes, OutboxEventCreationAttributes> implements OutboxEventAttributes {
+  public sequence!: number;
+  public eventId!: string;
+  public aggregateId!: string;
+  public eventType!: string;
+  public payload!: any;
+  public metadata!: {
+    correlationId: string;
+    service: string;
+  };
+  public status!: OutboxEventStatus;
+  public attempts!: number;
+  public nextAttemptAt!: Date;
+  public lastError?: string | null;
+  public deliveredAt?: Date | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+export function initOutboxEventModel(sequelize: Sequelize): typeof OutboxEvent {
+  OutboxEvent.init(
+    {
+      // Insertion order, used to deliver events per aggregate in order
+      sequence: {
+        type: DataTypes.BIGINT,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      eventId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        unique: true,
+      },
+      aggregateId: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      eventType: {
+        type: DataTypes.STRING,
+        allowNull: false,
+      },
+      payload: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+      },
+      metadata: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+      },
+      status: {
+        type: DataTypes.ENUM('pending', 'delivered', 'failed'),
+        defaultValue: 'pending',
+        allowNull: false,
+      },
+      attempts: {
+        type: DataTypes.INTEGER,
+        defaultValue: 0,
+        allowNull: false,
+      },
+      nextAttemptAt: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW,
+        allowNull: false,
+      },
+      lastError: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      deliveredAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+    },
+    {
+      sequelize,
+      tableName: 'outbox_events',
+      timestamps: true,
+      indexes: [
+        {
+          fields: ['status', 'sequence'],
+        },
+        {
+          fields: ['aggregateId', 'sequence'],
+        },
+      ],
+    }
+  );
+
+  return OutboxEvent;
+}
@@ -0,0 +1,281 @@
+import { Op, QueryTypes, Sequelize, Transaction, literal } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import { EventType } from '@cloudretail/models';
+import { logger } from '@cloudretail/middleware';
+import { OutboxEvent, initOutboxEventModel } from './outbox.model';
+
+export interface OutboxOptions {
+  service: string;
+  eventBusUrl?: string;
+  pollIntervalMs?: number;
+  batchSize?: number;
+  maxAttempts?: number;
+  publishTimeoutMs?: number;
+}
+
+export interface OutboxMessage {
+  type: EventType;
+  payload: any;
+  aggregateId: string;
+  correlationId?: string;
+}
+
+const INITIAL_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+/**
+ * Transactional Outbox
+ * Stores events in the service database alongside the change that produced
+ * them and relays them to the event bus, retrying until they are delivered.
+ * Events sharing an aggregate are delivered in the order they were added.
+ */
+export class Outbox {
+  private sequelize: Sequelize;
+  private model: typeof OutboxEvent;
+  private service: string;
+  private eventBusUrl: string;
+  private pollIntervalMs: number;
+  private batchSize: number;
+  private maxAttempts: number;
+  private publishTimeoutMs: number;
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<void>;
+
+  constructor(sequelize: Sequelize, options: OutboxOptions) {
+    this.sequelize = sequelize;
+    this.model = initOutboxEventModel(sequelize);
+    this.service = options.service;
+    this.eventBusUrl = options.eventBusUrl || process.env.EVENT_BUS_URL || 'http://localhost:4000/events';
+    this.pollIntervalMs = options.pollIntervalMs || parseInt(process.env.OUTBOX_POLL_INTERVAL_MS || '1000');
+    this.batchSize = options.batchSize || 100;
+    this.maxAttempts = options.maxAttempts || 10;
+    this.publishTimeoutMs = options.publishTimeoutMs || 3000;
+  }
+
+  /**
+   * Record an event for delivery. Pass the transaction of the domain change
+   * so the event is only stored if that change commits.
+   */
+  async add(message: OutboxMessage, transaction?: Transaction): Promise<OutboxEvent> {
+    const event = await this.model.create(
+      {
+        eventId: uuidv4(),
+        aggregateId: message.aggregateId,
+        eventType: message.type,
+        payload: message.payload,
+        metadata: {
+          correlationId: message.correlationId || uuidv4(),
+          service: this.service,
+        },
+      },
+      { transaction }
+    );
+
+    // Relay straight after commit rather than waiting for the next poll
+    if (transaction) {
+      transaction.afterCommit(() => this.trigger());
+    } else {
+      this.trigger();
+    }
+
+    return event;
+  }
+
+  /**
+   * Start relaying pending events on an interval
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.trigger(), this.pollIntervalMs);
+    this.trigger();
+
+    logger.info('Outbox relay started', { service: this.service });
+  }
+
+  /**
+   * Stop relaying and wait for an in-progress batch to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+
+    await this.running;
+  }
+
+  /**
+   * Deliver one batch of due events. Returns the number delivered.
+   * The batch is claimed in a short transaction and published outside it,
+   * so a slow event bus holds no locks or pooled connections.
+   */
+  async relay(): Promise<number> {
+    const events = await this.claim();
+    const blockedAggregates = new Set<string>();
+    let delivered = 0;
+
+    for (const event of events) {
+      // An earlier event waiting to be retried holds back the rest of its aggregate
+      if (blockedAggregates.has(event.aggregateId)) {
+        await event.update({ nextAttemptAt: new Date() });
+        continue;
+      }
+
+      if (await this.deliver(event)) {
+        delivered++;
+      } else if (event.status === 'pending') {
+        blockedAggregates.add(event.aggregateId);
+      }
+    }
+
+    return delivered;
+  }
+
+  /**
+   * Claim a batch of due events, oldest first, leaving out aggregates with
+   * an earlier event still waiting to be retried or being published. A claim
+   * moves nextAttemptAt past the time the batch may take to publish, so other
+   * replicas pass over it, and lapses if the claiming replica dies.
+   */
+  private async claim(): Promise<OutboxEvent[]> {
+    return this.sequelize.transaction(async (transaction) => {
+      // Only one replica claims at a time, so claims never interleave within an aggregate
+      const [lock] = await this.sequelize.query<{ locked: boolean }>(
+        'SELECT pg_try_advisory_xact_lock(hashtext(:key)) AS locked',
+        {
+          replacements: { key: `outbox:${this.service}` },
+          type: QueryTypes.SELECT,
+          transaction,
+        }
+      );
+
+      if (!lock?.locked) {
+        return [];
+      }
+
+      const now = new Date();
+      const events = await this.model.findAll({
+        where: {
+          status: 'pending',
+          nextAttemptAt: { [Op.lte]: now },
+          [Op.and]: literal(
+            `NOT EXISTS (SELECT 1 FROM "outbox_events" AS "earlier"
+              WHERE "earlier"."aggregateId" = "OutboxEvent"."aggregateId"
+                AND "earlier"."sequence" < "OutboxEvent"."sequence"
+                AND "earlier"."status" = 'pending'
+                AND "earlier"."nextAttemptAt" > ${this.sequelize.escape(now)})`
+          ),
+        },
+        order: [['sequence', 'ASC']],
+        limit: this.batchSize,
+        transaction,
+      });
+
+      if (events.length > 0) {
+        await this.model.update(
+          { nextAttemptAt: new Date(now.getTime() + this.batchSize * this.publishTimeoutMs) },
+          { where: { sequence: events.map((event) => event.sequence) }, transaction }
+        );
+      }
+
+      return events;
+    });
+  }
+
+  private trigger(): void {
+    if (this.running) return;
+
+    this.running = this.relay()
+      .then(() => undefined)
+      .catch((error) => {
+        logger.error('Outbox relay failed', { service: this.service, error });
+      })
+      .finally(() => {
+        this.running = undefined;
+      });
+  }
+
+  /**
+   * Publish a single event, recording the outcome on its outbox row
+   */
+  private async deliver(event: OutboxEvent): Promise<boolean> {
+    try {
+      await this.publish(event);
+
+      await event.update({
+        status: 'delivered',
+        attempts: event.attempts + 1,
+        deliveredAt: new Date(),
+        lastError: null,
+      });
+
+      logger.info('Event published successfully', {
+        eventId: event.eventId,
+        eventType: event.eventType,
+      });
+      return true;
+    } catch (error) {
+      const attempts = event.attempts + 1;
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (attempts >= this.maxAttempts) {
+        // Dead-letter the event; later events for the aggregate can proceed
+        await event.update({ status: 'failed', attempts, lastError: message });
+
+        logger.error('Event delivery abandoned', {
+          eventId: event.eventId,
+          eventType: event.eventType,
+          attempts,
+          error: message,
+        });
+        return false;
+      }
+
+      const delay = Math.min(INITIAL_RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY);
+      await event.update({
+        attempts,
+        lastError: message,
+        nextAttemptAt: new Date(Date.now() + delay),
+      });
+
+      logger.warn('Failed to publish event, will retry', {
+        eventId: event.eventId,
+        eventType: event.eventType,
+        attempts,
+        retryInMs: delay,
+        error: message,
+      });
+      return false;
+    }
+  }
+
+  private async publish(event: OutboxEvent): Promise<void> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.publishTimeoutMs);
+
+    try {
+      const response = await fetch(this.eventBusUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          id: event.eventId,
+          type: event.eventType,
+          payload: event.payload,
+          timestamp: event.createdAt,
+          metadata: event.metadata,
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Event bus returned status ${response.status}`);
+      }
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
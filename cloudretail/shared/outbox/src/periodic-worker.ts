@@ -0,0 +1,99 @@
+import { QueryTypes, Sequelize } from 'sequelize';
+import { logger } from '@cloudretail/middleware';
+
+export interface PeriodicWorkerOptions {
+  // Names the worker in logs and in the advisory lock its runs take
+  name: string;
+  intervalMs: number;
+}
+
+/**
+ * Periodic Worker
+ * Runs a unit of background work on an interval. Every replica of a
+ * service runs its workers, so each run takes an advisory lock first and
+ * is skipped while another replica holds it.
+ */
+export abstract class PeriodicWorker {
+  protected readonly name: string;
+  private sequelize: Sequelize;
+  private intervalMs: number;
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<void>;
+
+  constructor(sequelize: Sequelize, options: PeriodicWorkerOptions) {
+    this.sequelize = sequelize;
+    this.name = options.name;
+    this.intervalMs = options.intervalMs;
+  }
+
+  /**
+   * Start running on an interval
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.trigger(), this.intervalMs);
+    this.trigger();
+
+    logger.info('Periodic worker started', { worker: this.name, intervalMs: this.intervalMs });
+  }
+
+  /**
+   * Stop and wait for an in-progress run to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+
+    await this.running;
+  }
+
+  /**
+   * Do the work once, unless another replica is doing it. Returns the
+   * number of items processed. The lock is held by a transaction kept open
+   * for the run, so it is released if this replica dies mid-run.
+   */
+  async run(): Promise<number> {
+    const transaction = await this.sequelize.transaction();
+
+    try {
+      const [lock] = await this.sequelize.query<{ locked: boolean }>(
+        'SELECT pg_try_advisory_xact_lock(hashtext(:key)) AS locked',
+        {
+          replacements: { key: `worker:${this.name}` },
+          type: QueryTypes.SELECT,
+          transaction,
+        }
+      );
+
+      const processed = lock?.locked ? await this.work() : 0;
+
+      await transaction.commit();
+      return processed;
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * The work of one run. Returns the number of items processed.
+   */
+  protected abstract work(): Promise<number>;
+
+  private trigger(): void {
+    // Skip this tick if the previous run is still going
+    if (this.running) return;
+
+    this.running = this.run()
+      .then(() => undefined)
+      .catch((error) => {
+        logger.error('Periodic worker run failed', { worker: this.name, error });
+      })
+      .finally(() => {
+        this.running = undefined;
+      });
+  }
+}
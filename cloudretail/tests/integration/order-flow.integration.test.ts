@@ -42,7 +42,19 @@ describe('Order Flow Integration', () => {
       }
     }
 
-    // Setup: Create a product
+    // Setup: Create a category and a product in it
+    const categoryResponse = await request(API_URL)
+      .post('/api/products/categories')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ name: `Test Category ${Date.now()}` });
+
+    // A server error here would otherwise skip the product setup without a trace
+    if (categoryResponse.status >= 500) {
+      throw new Error(
+        `Category setup failed (${categoryResponse.status}): ${JSON.stringify(categoryResponse.body)}`
+      );
+    }
+
     const productResponse = await request(API_URL)
       .post('/api/products')
       .set('Authorization', `Bearer ${authToken}`)
@@ -50,7 +62,7 @@ describe('Order Flow Integration', () => {
         name: 'Test Product for Order',
         description: 'A product for integration testing',
         price: 99.99,
-        category: 'test',
+        categoryId: categoryResponse.body?.data?.id,
         sku: `TEST-SKU-${Date.now()}`,
         vendorId: 'test-vendor',
       });
@@ -58,14 +70,23 @@ describe('Order Flow Integration', () => {
     if (productResponse.status === 200 || productResponse.status === 201) {
       productId = productResponse.body.data.id;
 
-      // Setup: Create inventory for the product
+      // Setup: Create a warehouse and stock the product there
+      await request(API_URL)
+        .post('/api/inventory/warehouses')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          code: 'TEST-01',
+          name: 'Test Warehouse',
+          address: { city: 'Test City', state: 'TS', zipCode: '12345', country: 'USA' },
+        });
+
       await request(API_URL)
         .post('/api/inventory')
         .set('Authorization', `Bearer ${authToken}`)
         .send({
           productId,
           quantity: 100,
-          warehouseLocation: 'Test Warehouse',
+          warehouseCode: 'TEST-01',
         });
     }
   });
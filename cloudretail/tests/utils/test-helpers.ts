@@ -92,7 +92,7 @@ export const generateMockInventory = (overrides?: any) => ({
   productId: uuidv4(),
   quantity: 100,
   reservedQuantity: 0,
-  warehouseLocation: 'Warehouse A',
+  warehouseId: uuidv4(),
   createdAt: new Date(),
   updatedAt: new Date(),
   ...overrides,